@@ -3,8 +3,10 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { SidebarProvider } from "@/context/SidebarContext";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import MainLayout from "@/components/layout/MainLayout";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth";
 
 // Page imports
 import Dashboard from "@/pages/dashboard";
@@ -27,6 +29,9 @@ import PriceList from "@/pages/inventory/price-list";
 import MasterData from "@/pages/master-data";
 import Settings from "@/pages/settings";
 import Reports from "@/pages/reports";
+import ClosingStockReport from "@/pages/reports/closing-stock";
+import Gstr1Report from "@/pages/reports/gstr1";
+import TrialBalanceReport from "@/pages/reports/trial-balance";
 
 // Sales Sub-Pages
 import QuotationRequests from "@/pages/sales/quotation-requests";
@@ -63,8 +68,20 @@ import Customers from "@/pages/finance/receivables/customers";
 import CustomerDetail from "@/pages/finance/receivables/customers/[id]";
 import Vendors from "@/pages/finance/payables/vendors";
 import VendorDetail from "@/pages/finance/payables/vendors/[id]";
+import Gstr2bReconciliation from "@/pages/finance/reconciliation";
+import GeneralLedger from "@/pages/finance/ledger";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!user) {
+    return <AuthPage />;
+  }
+
   return (
     <MainLayout>
       <Switch>
@@ -105,9 +122,7 @@ function Router() {
         <Route path="/purchases/payments">{() => <Payments />}</Route>
         <Route path="/purchases/payments/new">{() => <NewPayment />}</Route>
         <Route path="/purchases/returns">{() => <PurchaseReturns />}</Route>
-        <Route path="/purchases/returns/new">
-          {() => <NewPurchaseReturn />}
-        </Route>
+        <Route path="/purchases/returns/new">{() => <NewCreditNote />}</Route>
         <Route path="/master-data/customers/new">{() => <NewCustomer />}</Route>
         <Route path="/master-data/vendors/new">{() => <NewVendor />}</Route>
 
@@ -123,10 +138,14 @@ function Router() {
         <Route path="/purchases/orders/new">{() => <NewPurchaseOrder />}</Route>
         <Route path="/purchases/bills/new">{() => <NewBill />}</Route>
         <Route path="/purchases/payments/new">{() => <NewPayment />}</Route>
-        <Route path="/purchases/returns/new">{() => <NewCreditNote />}</Route>
 
         {/* Reports Module */}
         <Route path="/reports">{() => <Reports />}</Route>
+        <Route path="/reports/inventory/closing-stock">
+          {() => <ClosingStockReport />}
+        </Route>
+        <Route path="/reports/gst/gstr-1">{() => <Gstr1Report />}</Route>
+        <Route path="/reports/trial-balance">{() => <TrialBalanceReport />}</Route>
 
         {/* Finance Module */}
         <Route path="/finance">{() => <Finance />}</Route>
@@ -149,6 +168,12 @@ function Router() {
           {(params) => <VendorDetail id={params.id} />}
         </Route>
 
+        {/* GST Reconciliation */}
+        <Route path="/finance/reconciliation">{() => <Gstr2bReconciliation />}</Route>
+
+        {/* General Ledger */}
+        <Route path="/finance/ledger">{() => <GeneralLedger />}</Route>
+
         {/* Inventory Module */}
         <Route path="/inventory">{() => <Inventory />}</Route>
         <Route path="/inventory/stock-items">{() => <StockItemsList />}</Route>
@@ -177,10 +202,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <SidebarProvider>
-        <Router />
-        <Toaster />
-      </SidebarProvider>
+      <AuthProvider>
+        <SidebarProvider>
+          <Router />
+          <Toaster />
+        </SidebarProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatDate, getTransactionTypeLabel } from '@/lib/utils';
+import { OpenItems, TransactionAllocations } from '@/types';
+import { invalidateTransactions } from '@/components/ConvertDocumentDialog';
+
+// What a receipt, payment or note can be applied against, as on the server
+const allocationTargets: Record<string, string[]> = {
+  receipt: ['sales_invoice'],
+  payment: ['purchase_bill'],
+  debit_note: ['sales_invoice'],
+  credit_note: ['purchase_bill'],
+};
+
+export const invalidateAllocations = (queryClient: ReturnType<typeof useQueryClient>) => {
+  invalidateTransactions(queryClient);
+  queryClient.invalidateQueries({
+    predicate: (query) => /^\/api\/parties\/\d+\/open-items$/.test(String(query.queryKey[0])),
+  });
+};
+
+interface AllocatePaymentDialogProps {
+  payment: { id: number; transactionNumber: string; transactionType: string } | null; // The dialog is open while a receipt or payment is chosen
+  partyId: number | null;
+  onClose: () => void;
+}
+
+// Applies a receipt or payment against the party's open invoices or bills, by hand or oldest first
+const AllocatePaymentDialog = ({ payment, partyId, onClose }: AllocatePaymentDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amounts, setAmounts] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    setAmounts({});
+  }, [payment?.id]);
+
+  const { data: current } = useQuery<TransactionAllocations>({
+    queryKey: [`/api/transactions/${payment?.id}/allocations`],
+    enabled: !!payment,
+  });
+
+  const { data: openItems, isLoading } = useQuery<OpenItems>({
+    queryKey: [`/api/parties/${partyId}/open-items`],
+    enabled: !!payment && !!partyId,
+  });
+
+  const onSuccess = (allocations: TransactionAllocations, title: string) => {
+    invalidateAllocations(queryClient);
+    setAmounts({});
+    toast({ title, description: `${formatCurrency(allocations.unallocated ?? 0)} left on account` });
+  };
+  const onError = (error: Error) => {
+    toast({ title: 'Could not allocate', description: error.message, variant: 'destructive' });
+  };
+
+  const allocateMutation = useMutation({
+    mutationFn: async (allocations: { documentId: number; amount: number }[]) => {
+      const res = await apiRequest('POST', `/api/transactions/${payment!.id}/allocations`, { allocations });
+      return res.json() as Promise<TransactionAllocations>;
+    },
+    onSuccess: (allocations) => onSuccess(allocations, `${payment!.transactionNumber} allocated`),
+    onError,
+  });
+
+  const autoAllocateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/transactions/${payment!.id}/auto-allocate`);
+      return res.json() as Promise<TransactionAllocations>;
+    },
+    onSuccess: (allocations) => onSuccess(allocations, `${payment!.transactionNumber} allocated to the oldest documents`),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (allocationId: number) => {
+      await apiRequest('DELETE', `/api/payment-allocations/${allocationId}`);
+    },
+    onSuccess: () => {
+      invalidateAllocations(queryClient);
+      toast({ title: 'Allocation removed' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not remove allocation', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const documents = (openItems?.documents ?? [])
+    .filter((document) => allocationTargets[payment?.transactionType ?? '']?.includes(document.transactionType));
+  const requests = Object.entries(amounts)
+    .map(([documentId, amount]) => ({ documentId: Number(documentId), amount: Number(amount) }))
+    .filter((request) => request.amount > 0);
+  const entered = requests.reduce((sum, request) => sum + request.amount, 0);
+  const unallocated = current?.unallocated ?? 0;
+  const busy = allocateMutation.isPending || autoAllocateMutation.isPending;
+
+  return (
+    <Dialog open={!!payment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Allocate {payment?.transactionNumber}</DialogTitle>
+          <DialogDescription>
+            {current ? `${formatCurrency(current.allocated)} allocated, ${formatCurrency(unallocated)} left on account` : 'Loading allocations...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {current && current.allocations.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Allocated</h3>
+            <div className="border rounded-md divide-y divide-neutral-200 text-sm">
+              {current.allocations.map((allocation) => (
+                <div key={allocation.id} className="flex items-center justify-between px-3 py-2">
+                  <span>
+                    {allocation.counterpart
+                      ? `${getTransactionTypeLabel(allocation.counterpart.transactionType)} ${allocation.counterpart.transactionNumber}`
+                      : `Document ${allocation.documentId}`}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {formatCurrency(Number(allocation.amount))}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMutation.mutate(allocation.id)}
+                      disabled={removeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Open documents</h3>
+          {isLoading ? (
+            <div className="animate-pulse space-y-2">
+              {Array(3).fill(null).map((_, i) => (
+                <div key={i} className="bg-neutral-100 h-10 rounded-md"></div>
+              ))}
+            </div>
+          ) : documents.length > 0 ? (
+            <div className="border rounded-md overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-neutral-500 border-b">
+                    <th className="px-3 py-2 font-medium">Document</th>
+                    <th className="px-3 py-2 font-medium">Due</th>
+                    <th className="px-3 py-2 font-medium text-right">Balance</th>
+                    <th className="px-3 py-2 font-medium text-right">Allocate</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-200">
+                  {documents.map((document) => (
+                    <tr key={document.id}>
+                      <td className="px-3 py-2">
+                        {getTransactionTypeLabel(document.transactionType)} <span className="font-medium">{document.transactionNumber}</span>
+                      </td>
+                      <td className="px-3 py-2">{formatDate(document.dueDate ?? document.transactionDate)}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(Number(document.balanceDue ?? document.amount))}</td>
+                      <td className="px-3 py-2 text-right">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          className="w-32 ml-auto text-right"
+                          value={amounts[document.id] ?? ''}
+                          onChange={(e) => setAmounts({ ...amounts, [document.id]: e.target.value })}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-neutral-500">Nothing is owed that this can be applied against.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button
+            variant="outline"
+            onClick={() => autoAllocateMutation.mutate()}
+            disabled={busy || unallocated <= 0 || documents.length === 0}
+          >
+            {autoAllocateMutation.isPending ? 'Allocating...' : 'Auto-allocate Oldest First'}
+          </Button>
+          <Button onClick={() => allocateMutation.mutate(requests)} disabled={busy || requests.length === 0 || entered > unallocated + 0.005}>
+            {allocateMutation.isPending ? 'Allocating...' : `Allocate ${formatCurrency(entered)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AllocatePaymentDialog;
@@ -0,0 +1,135 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { formatCurrency } from '@/lib/utils';
+import { BillMatch, BillMatchStatus } from '@/types';
+import { ItemWithMasters, Transaction } from '@shared/schema';
+import { invalidateTransactions } from '@/components/ConvertDocumentDialog';
+
+export const billMatchBadges: Record<BillMatchStatus, { label: string; className: string }> = {
+  matched: { label: 'Matched', className: 'bg-green-100 text-green-800' },
+  mismatched: { label: 'On hold', className: 'bg-red-100 text-red-800' },
+  approved: { label: 'Approved', className: 'bg-blue-100 text-blue-800' },
+  unlinked: { label: 'No PO', className: 'bg-neutral-100 text-neutral-700' },
+};
+
+interface BillMatchDialogProps {
+  bill: Transaction | null; // The dialog is open while a bill is chosen
+  onClose: () => void;
+}
+
+// A bill's lines against what was ordered and received, with approval for bills held on a mismatch
+const BillMatchDialog = ({ bill, onClose }: BillMatchDialogProps) => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: match, isLoading } = useQuery<BillMatch>({
+    queryKey: [`/api/transactions/${bill?.id}/match`],
+    enabled: !!bill,
+  });
+
+  const { data: items } = useQuery<ItemWithMasters[]>({
+    queryKey: ['/api/items'],
+    enabled: !!bill,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/transactions/${bill!.id}/match/approve`);
+      return res.json() as Promise<Transaction>;
+    },
+    onSuccess: (approved) => {
+      invalidateTransactions(queryClient);
+      toast({ title: `${approved.transactionNumber} approved`, description: 'The bill can now be paid' });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not approve bill', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const itemName = (itemId: number | null) => items?.find((item) => item.id === itemId)?.name;
+
+  return (
+    <Dialog open={!!bill} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Three-way match for {bill?.transactionNumber}</DialogTitle>
+          <DialogDescription>
+            {match?.order
+              ? `Against ${match.order.transactionNumber}${match.receipts.length ? ` and ${match.receipts.map((receipt) => receipt.transactionNumber).join(', ')}` : ', with nothing received yet'}`
+              : 'Bills raised against a purchase order or GRN are matched to what was ordered and received.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-2">
+            {Array(3).fill(null).map((_, i) => (
+              <div key={i} className="bg-neutral-100 h-10 rounded-md"></div>
+            ))}
+          </div>
+        ) : match && match.lines.length > 0 ? (
+          <div className="border rounded-md overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500 border-b">
+                  <th className="px-3 py-2 font-medium">Item</th>
+                  <th className="px-3 py-2 font-medium text-right">Billed</th>
+                  <th className="px-3 py-2 font-medium text-right">Ordered</th>
+                  <th className="px-3 py-2 font-medium text-right">Received</th>
+                  <th className="px-3 py-2 font-medium text-right">Billed before</th>
+                  <th className="px-3 py-2 font-medium text-right">Rate</th>
+                  <th className="px-3 py-2 font-medium text-right">Order rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-200">
+                {match.lines.map((line) => (
+                  <tr key={line.lineId} className={line.issues.length ? 'bg-red-50' : ''}>
+                    <td className="px-3 py-2">
+                      {itemName(line.itemId) ?? line.description ?? `Line ${line.lineId}`}
+                      {line.issues.map((issue) => (
+                        <p key={issue} className="text-xs text-red-700">{issue}</p>
+                      ))}
+                    </td>
+                    <td className="px-3 py-2 text-right">{line.quantity}</td>
+                    <td className="px-3 py-2 text-right">{line.orderedQuantity ?? '—'}</td>
+                    <td className="px-3 py-2 text-right">{line.receivedQuantity}</td>
+                    <td className="px-3 py-2 text-right">{line.billedEarlier}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(line.rate)}</td>
+                    <td className="px-3 py-2 text-right">{line.orderRate !== null ? formatCurrency(line.orderRate) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+
+        {match?.status === 'approved' && match.approvedAt && (
+          <p className="text-sm text-blue-700">Released for payment on {new Date(match.approvedAt).toLocaleString()}.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          {match?.status === 'mismatched' && can('approve_bills') && (
+            <Button onClick={() => approveMutation.mutate()} disabled={approveMutation.isPending}>
+              {approveMutation.isPending ? 'Approving...' : 'Approve for Payment'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BillMatchDialog;
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { getTransactionTypeLabel } from '@/lib/utils';
+import { Transaction } from '@shared/schema';
+import { invalidateTransactions } from '@/components/ConvertDocumentDialog';
+
+interface CancelDocumentDialogProps {
+  transaction: Transaction;
+  open: boolean;
+  onClose: () => void;
+}
+
+// Cancels a document with a reason. The server refuses while anything still depends on it.
+const CancelDocumentDialog = ({ transaction, open, onClose }: CancelDocumentDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState('');
+  const label = getTransactionTypeLabel(transaction.transactionType);
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/transactions/${transaction.id}/cancel`, { reason });
+      return res.json() as Promise<Transaction>;
+    },
+    onSuccess: (cancelled) => {
+      invalidateTransactions(queryClient);
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      toast({ title: `${cancelled.transactionNumber} cancelled`, description: 'What it did has been undone' });
+      setReason('');
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: `Could not cancel ${transaction.transactionNumber}`, description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel {label} {transaction.transactionNumber}</DialogTitle>
+          <DialogDescription>
+            The {label.toLowerCase()} stays on record as cancelled and its number is not used again. Stock it moved,
+            amounts it settled and fulfilment of the document it came from are reversed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancellationReason">Reason</Label>
+          <Textarea
+            id="cancellationReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this being cancelled?"
+            className="min-h-[80px]"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Keep It</Button>
+          <Button
+            variant="destructive"
+            onClick={() => cancelMutation.mutate()}
+            disabled={reason.trim().length < 3 || cancelMutation.isPending}
+          >
+            {cancelMutation.isPending ? 'Cancelling...' : `Cancel ${label}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelDocumentDialog;
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useNextNumber } from '@/hooks/use-next-number';
+import { getTransactionTypeLabel } from '@/lib/utils';
+import { DocumentChain } from '@/types';
+import { ItemWithMasters, Transaction } from '@shared/schema';
+import type { ConvertibleType } from '@shared/documentChain';
+
+// Refreshes every list and detail that shows transactions
+export const invalidateTransactions = (queryClient: ReturnType<typeof useQueryClient>) =>
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = String(query.queryKey[0]);
+      return key.startsWith('/api/transactions') || key.startsWith('/api/numbering-series') || key === 'transactions' || key === '/api/dashboard';
+    },
+  });
+
+interface ConvertDocumentDialogProps {
+  source: Transaction;
+  targetType: ConvertibleType | null; // The dialog is open while a type is chosen
+  onClose: () => void;
+}
+
+// Converts a document into the next one in its chain, with the quantities still to go on each line
+const ConvertDocumentDialog = ({ source, targetType, onClose }: ConvertDocumentDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [transactionNumber, setTransactionNumber] = useState('');
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+
+  const { data: chain } = useQuery<DocumentChain>({
+    queryKey: [`/api/transactions/${source.id}/chain`],
+    enabled: !!targetType,
+  });
+
+  const { data: items } = useQuery<ItemWithMasters[]>({
+    queryKey: ['/api/items'],
+    enabled: !!targetType,
+  });
+
+  const { data: nextNumber } = useNextNumber(targetType);
+
+  useEffect(() => {
+    if (targetType && chain) {
+      setQuantities(Object.fromEntries(chain.lines.map((line) => [line.lineId, String(line.remaining[targetType] ?? 0)])));
+    }
+  }, [targetType, chain]);
+
+  useEffect(() => {
+    setTransactionNumber(nextNumber?.transactionNumber ?? '');
+  }, [targetType, nextNumber]);
+
+  const convertMutation = useMutation({
+    mutationFn: async () => {
+      const lines = Object.entries(quantities)
+        .map(([lineId, quantity]) => ({ sourceItemId: Number(lineId), quantity: Number(quantity) }))
+        .filter((line) => line.quantity > 0);
+      const res = await apiRequest('POST', `/api/transactions/${source.id}/convert`, {
+        transactionType: targetType,
+        transactionNumber,
+        lines,
+      });
+      return res.json() as Promise<Transaction>;
+    },
+    onSuccess: (created) => {
+      invalidateTransactions(queryClient);
+      toast({
+        title: `${getTransactionTypeLabel(created.transactionType)} ${created.transactionNumber} created`,
+        description: `Saved as ${created.status === 'draft' ? 'a draft' : created.status} from ${source.transactionNumber}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not convert', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const itemName = (itemId: number | null) => items?.find((item) => item.id === itemId)?.name;
+  const lines = chain?.lines ?? [];
+
+  return (
+    <Dialog open={!!targetType} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {targetType ? `Create ${getTransactionTypeLabel(targetType)}` : 'Convert'} from {source.transactionNumber}
+          </DialogTitle>
+          <DialogDescription>Lines, rates and the party are copied forward. Lower a quantity to convert part of a line.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="convertNumber">Number</Label>
+            <Input id="convertNumber" value={transactionNumber} onChange={(e) => setTransactionNumber(e.target.value)} />
+            {nextNumber && (
+              <p className="text-xs text-neutral-500">The series issues the next number when the document is created</p>
+            )}
+          </div>
+
+          <div className="border rounded-md divide-y divide-neutral-200">
+            <div className="grid grid-cols-[1fr_6rem_6rem_7rem] gap-2 px-3 py-2 text-xs font-medium text-neutral-500">
+              <span>Item</span>
+              <span className="text-right">Quantity</span>
+              <span className="text-right">Left</span>
+              <span className="text-right">Convert</span>
+            </div>
+            {lines.map((line) => {
+              const left = targetType ? line.remaining[targetType] ?? 0 : 0;
+              return (
+                <div key={line.lineId} className="grid grid-cols-[1fr_6rem_6rem_7rem] gap-2 px-3 py-2 items-center text-sm">
+                  <span>{itemName(line.itemId) ?? line.description ?? `Line ${line.lineId}`}</span>
+                  <span className="text-right">{line.quantity}</span>
+                  <span className="text-right">{left}</span>
+                  <Input
+                    className="h-8 text-right"
+                    type="number"
+                    min={0}
+                    max={left}
+                    step="any"
+                    value={quantities[line.lineId] ?? ''}
+                    onChange={(e) => setQuantities({ ...quantities, [line.lineId]: e.target.value })}
+                    disabled={left <= 0}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => convertMutation.mutate()} disabled={(!transactionNumber.trim() && !nextNumber) || convertMutation.isPending}>
+            {convertMutation.isPending ? 'Creating...' : 'Create Draft'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConvertDocumentDialog;
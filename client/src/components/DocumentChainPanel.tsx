@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { formatCurrency, getStatusLabel, getTransactionTypeLabel } from '@/lib/utils';
+import { DocumentChain } from '@/types';
+import { ItemWithMasters, Transaction } from '@shared/schema';
+import { permissionForTransactionType } from '@shared/permissions';
+import { conversionTargets, type ConvertibleType } from '@shared/documentChain';
+import ConvertDocumentDialog from '@/components/ConvertDocumentDialog';
+
+// The documents before and after this one, how far each line has got, and actions for the next step
+const DocumentChainPanel = ({ transaction }: { transaction: Transaction }) => {
+  const { can } = useAuth();
+  const [targetType, setTargetType] = useState<ConvertibleType | null>(null);
+  const convertible = conversionTargets(transaction.transactionType).length > 0;
+
+  const { data: chain } = useQuery<DocumentChain>({
+    queryKey: [`/api/transactions/${transaction.id}/chain`],
+  });
+
+  const { data: items } = useQuery<ItemWithMasters[]>({
+    queryKey: ['/api/items'],
+    enabled: convertible,
+  });
+
+  if (!chain || (!convertible && !chain.source)) return null;
+
+  const stages = conversionTargets(transaction.transactionType);
+  const itemName = (itemId: number | null) => items?.find((item) => item.id === itemId)?.name;
+  const canConvert = (type: ConvertibleType) =>
+    can(permissionForTransactionType(transaction.transactionType)) && can(permissionForTransactionType(type));
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-medium">Document Chain</h3>
+        <div className="flex flex-wrap gap-2">
+          {chain.targets.filter(canConvert).map((type) => (
+            <Button key={type} size="sm" variant="outline" onClick={() => setTargetType(type)}>
+              <ArrowRight className="h-3 w-3 mr-1" />
+              Create {getTransactionTypeLabel(type)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {(chain.source || chain.converted.length > 0) && (
+        <div className="text-sm space-y-1">
+          {chain.source && (
+            <p>
+              <span className="text-neutral-500">Converted from </span>
+              {getTransactionTypeLabel(chain.source.transactionType)} <span className="font-medium">{chain.source.transactionNumber}</span>
+            </p>
+          )}
+          {chain.converted.map((document) => (
+            <p key={document.id} className="flex justify-between">
+              <span>
+                {getTransactionTypeLabel(document.transactionType)} <span className="font-medium">{document.transactionNumber}</span>
+                <span className="text-neutral-500 ml-2">{getStatusLabel(document.status ?? 'draft')}</span>
+              </span>
+              <span>{formatCurrency(Number(document.amount))}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {stages.length > 0 && chain.lines.length > 0 && (
+        <div className="border rounded-md overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500 border-b">
+                <th className="px-3 py-2 font-medium">Item</th>
+                <th className="px-3 py-2 font-medium text-right">Quantity</th>
+                {stages.map((type) => (
+                  <th key={type} className="px-3 py-2 font-medium text-right">In {getTransactionTypeLabel(type)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200">
+              {chain.lines.map((line) => (
+                <tr key={line.lineId}>
+                  <td className="px-3 py-2">{itemName(line.itemId) ?? line.description ?? `Line ${line.lineId}`}</td>
+                  <td className="px-3 py-2 text-right">{line.quantity}</td>
+                  {stages.map((type) => {
+                    const converted = line.converted[type] ?? 0;
+                    return (
+                      <td key={type} className={`px-3 py-2 text-right ${converted >= line.quantity ? 'text-green-700' : converted > 0 ? 'text-blue-700' : 'text-neutral-400'}`}>
+                        {converted}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ConvertDocumentDialog source={transaction} targetType={targetType} onClose={() => setTargetType(null)} />
+    </div>
+  );
+};
+
+export default DocumentChainPanel;
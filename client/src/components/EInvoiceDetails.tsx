@@ -0,0 +1,107 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { AlertTriangle, FileCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { formatDate } from '@/lib/utils';
+import { Transaction } from '@shared/schema';
+
+// IRN, acknowledgement and signed QR code of a sales invoice, or what stands in the way of generating them
+const EInvoiceDetails = ({ transactionId }: { transactionId: number }) => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: transaction } = useQuery<Transaction>({
+    queryKey: [`/api/transactions/${transactionId}`],
+  });
+
+  const registered = !!transaction?.irn;
+  const { data: draft, isLoading: draftLoading } = useQuery<{ errors: string[] }>({
+    queryKey: [`/api/transactions/${transactionId}/e-invoice`],
+    enabled: !!transaction && !registered,
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/transactions/${transactionId}/e-invoice`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/transactions/${transactionId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      toast({ title: 'IRN generated', description: 'The invoice is registered with the IRP' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not generate IRN', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!transaction) {
+    return null;
+  }
+
+  if (registered) {
+    return (
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1 space-y-3 text-sm">
+          <div className="border-b pb-1">
+            <div className="text-neutral-500">IRN:</div>
+            <div className="font-mono text-xs break-all">{transaction.irn}</div>
+          </div>
+          <div className="flex justify-between border-b pb-1">
+            <span className="text-neutral-500">Ack No:</span>
+            <span className="font-medium">{transaction.irnAckNumber}</span>
+          </div>
+          {transaction.irnAckDate && (
+            <div className="flex justify-between border-b pb-1">
+              <span className="text-neutral-500">Ack Date:</span>
+              <span>{formatDate(transaction.irnAckDate)}</span>
+            </div>
+          )}
+        </div>
+        {transaction.irnSignedQrCode && (
+          <div className="border rounded-md p-2 bg-white self-start">
+            <QRCodeSVG value={transaction.irnSignedQrCode} size={160} level="L" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const errors = draft?.errors ?? [];
+  const canGenerate = can('manage_sales') && transaction.status !== 'cancelled';
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-neutral-500">This invoice has not been registered with the IRP.</p>
+      {errors.length > 0 && (
+        <div className="border border-amber-200 bg-amber-50 rounded-md p-3 space-y-1">
+          <div className="flex items-center text-amber-800 font-medium">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Fix before generating the IRN
+          </div>
+          <ul className="list-disc pl-5 text-amber-900">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {canGenerate && (
+        <Button
+          size="sm"
+          onClick={() => generateMutation.mutate()}
+          disabled={draftLoading || errors.length > 0 || generateMutation.isPending}
+        >
+          <FileCheck className="h-4 w-4 mr-2" />
+          {generateMutation.isPending ? 'Generating...' : 'Generate IRN'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default EInvoiceDetails;
@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { ItemWithMasters, Transaction, TransactionItem } from '@shared/schema';
+import { salesTransactionTypes } from '@shared/permissions';
+import { invalidateTransactions } from '@/components/ConvertDocumentDialog';
+
+// A line being edited; id is set on lines the document already has
+interface LineRow {
+  id?: number;
+  itemId: number | null;
+  description: string;
+  quantity: string;
+  rate: string;
+  taxRate: string;
+  cessRate: string | null;
+  godownId: number | null;
+  sourceItemId: number | null;
+}
+
+interface EditLinesDialogProps {
+  transaction: Transaction;
+  open: boolean;
+  onClose: () => void;
+}
+
+const toRow = (line: TransactionItem): LineRow => ({
+  id: line.id,
+  itemId: line.itemId,
+  description: line.description ?? '',
+  quantity: line.quantity,
+  rate: line.rate,
+  taxRate: line.taxRate ?? '',
+  cessRate: line.cessRate,
+  godownId: line.godownId,
+  sourceItemId: line.sourceItemId,
+});
+
+// Edits a document's lines. The server works out tax and totals again and keeps the earlier version in the history.
+const EditLinesDialog = ({ transaction, open, onClose }: EditLinesDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<LineRow[]>([]);
+  const isSale = (salesTransactionTypes as readonly string[]).includes(transaction.transactionType);
+
+  const { data: lines } = useQuery<TransactionItem[]>({
+    queryKey: [`/api/transactions/${transaction.id}/items`],
+    enabled: open,
+  });
+
+  const { data: items = [] } = useQuery<ItemWithMasters[]>({
+    queryKey: ['/api/items'],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && lines) setRows(lines.map(toRow));
+  }, [open, lines]);
+
+  const update = (index: number, changes: Partial<LineRow>) =>
+    setRows(rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row)));
+
+  const chooseItem = (index: number, itemId: number) => {
+    const item = items.find((candidate) => candidate.id === itemId);
+    update(index, {
+      itemId,
+      description: item?.name ?? '',
+      rate: (isSale ? item?.sellingPrice : item?.purchasePrice) ?? rows[index].rate,
+      taxRate: '',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PATCH', `/api/transactions/${transaction.id}`, {
+        items: rows.map((row) => ({
+          id: row.id,
+          itemId: row.itemId,
+          description: row.description || null,
+          quantity: row.quantity,
+          rate: row.rate,
+          // A blank rate takes the item's GST rate
+          taxRate: row.taxRate === '' ? null : row.taxRate,
+          cessRate: row.cessRate,
+          godownId: row.godownId,
+          sourceItemId: row.sourceItemId,
+        })),
+      });
+      return res.json() as Promise<Transaction>;
+    },
+    onSuccess: (saved) => {
+      invalidateTransactions(queryClient);
+      toast({
+        title: `${saved.transactionNumber} saved`,
+        description: `New total ${formatCurrency(Number(saved.amount))}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save the lines', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const valid = rows.length > 0 && rows.every((row) => Number(row.quantity) > 0 && row.rate !== '' && Number(row.rate) >= 0);
+  const subtotal = rows.reduce((sum, row) => sum + Number(row.quantity || 0) * Number(row.rate || 0), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit lines of {transaction.transactionNumber}</DialogTitle>
+          <DialogDescription>Tax and totals are worked out again when you save. The current version stays in the history.</DialogDescription>
+        </DialogHeader>
+
+        <div className="border rounded-md divide-y divide-neutral-200">
+          <div className="grid grid-cols-[1fr_1fr_5rem_6rem_5rem_2.5rem] gap-2 px-3 py-2 text-xs font-medium text-neutral-500">
+            <span>Item</span>
+            <span>Description</span>
+            <span className="text-right">Quantity</span>
+            <span className="text-right">Rate</span>
+            <span className="text-right">GST %</span>
+            <span />
+          </div>
+          {rows.map((row, index) => (
+            <div key={row.id ?? `new-${index}`} className="grid grid-cols-[1fr_1fr_5rem_6rem_5rem_2.5rem] gap-2 px-3 py-2 items-center text-sm">
+              <Select
+                value={row.itemId ? String(row.itemId) : undefined}
+                onValueChange={(value) => chooseItem(index, Number(value))}
+                // Converted and returned lines keep the item they came from
+                disabled={!!row.sourceItemId}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Select item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {items.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input className="h-8" value={row.description} onChange={(e) => update(index, { description: e.target.value })} />
+              <Input
+                className="h-8 text-right"
+                type="number"
+                min={0}
+                step="any"
+                value={row.quantity}
+                onChange={(e) => update(index, { quantity: e.target.value })}
+              />
+              <Input
+                className="h-8 text-right"
+                type="number"
+                min={0}
+                step="0.01"
+                value={row.rate}
+                onChange={(e) => update(index, { rate: e.target.value })}
+              />
+              <Input
+                className="h-8 text-right"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Item"
+                value={row.taxRate}
+                onChange={(e) => update(index, { taxRate: e.target.value })}
+              />
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setRows(rows.filter((_, rowIndex) => rowIndex !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center text-sm">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRows([...rows, { itemId: null, description: '', quantity: '1', rate: '', taxRate: '', cessRate: null, godownId: null, sourceItemId: null }])}
+          >
+            Add Line
+          </Button>
+          <span>Subtotal before tax: <span className="font-medium">{formatCurrency(subtotal)}</span></span>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!valid || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Lines'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditLinesDialog;
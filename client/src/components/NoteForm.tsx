@@ -0,0 +1,297 @@
+import { useEffect, useState } from 'react';
+import { useLocation } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useNextNumber } from '@/hooks/use-next-number';
+import { formatCurrency, formatDate, getTransactionTypeLabel } from '@/lib/utils';
+import { ReturnableLine } from '@/types';
+import { ItemWithMasters, Party, Transaction } from '@shared/schema';
+import { noteOriginalTypes, noteReasons, returnsGoods, type NoteReason, type NoteType } from '@shared/notes';
+import { invalidateTransactions } from '@/components/ConvertDocumentDialog';
+
+interface NoteFormProps {
+  noteType: NoteType;
+  backPath: string;
+}
+
+// A debit note on a customer's invoice or a credit note on a vendor's bill, line by line against the original
+const NoteForm = ({ noteType, backPath }: NoteFormProps) => {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const originalType = noteOriginalTypes[noteType];
+  const partyType = noteType === 'debit_note' ? 'customer' : 'vendor';
+  const noteLabel = getTransactionTypeLabel(noteType);
+  const originalLabel = getTransactionTypeLabel(originalType);
+
+  const [transactionNumber, setTransactionNumber] = useState('');
+  const [transactionDate, setTransactionDate] = useState<Date | null>(new Date());
+  const [partyId, setPartyId] = useState<number | null>(null);
+  const [originalId, setOriginalId] = useState<number | null>(null);
+  const [noteReason, setNoteReason] = useState<NoteReason>('sales_return');
+  const [notes, setNotes] = useState('');
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [rates, setRates] = useState<Record<number, string>>({});
+
+  const { data: parties = [] } = useQuery<Party[]>({
+    queryKey: ['/api/parties'],
+    select: (data) => data.filter((party) => party.type === partyType),
+  });
+
+  const { data: originals = [] } = useQuery<Transaction[]>({
+    queryKey: [`/api/transactions?partyId=${partyId}`],
+    enabled: !!partyId,
+    select: (data) => data.filter((transaction) =>
+      transaction.transactionType === originalType && transaction.status !== 'draft' && transaction.status !== 'cancelled'),
+  });
+
+  const { data: lines = [] } = useQuery<ReturnableLine[]>({
+    queryKey: [`/api/transactions/${originalId}/returnable`],
+    enabled: !!originalId,
+  });
+
+  const { data: items } = useQuery<ItemWithMasters[]>({
+    queryKey: ['/api/items'],
+  });
+
+  const { data: nextNumber } = useNextNumber(noteType, transactionDate);
+
+  // The suggestion follows the date into its financial year, unless a number of one's own was typed in
+  const [suggestedNumber, setSuggestedNumber] = useState('');
+  useEffect(() => {
+    if (!nextNumber) return;
+    setTransactionNumber((current) => (!current || current === suggestedNumber ? nextNumber.transactionNumber : current));
+    setSuggestedNumber(nextNumber.transactionNumber);
+  }, [nextNumber]);
+
+  const returning = returnsGoods({ transactionType: noteType, noteReason });
+
+  // Returns start from what is left to send back at the original rate; other reasons are keyed in
+  useEffect(() => {
+    setQuantities(Object.fromEntries(lines.map((line) => [line.lineId, returning ? String(line.returnable) : ''])));
+    setRates(Object.fromEntries(lines.map((line) => [line.lineId, line.rate])));
+  }, [lines, returning]);
+
+  const noteLines = lines
+    .map((line) => ({ line, quantity: Number(quantities[line.lineId] || 0), rate: Number(rates[line.lineId] || 0) }))
+    .filter(({ quantity }) => quantity > 0);
+  const subtotal = noteLines.reduce((sum, { quantity, rate }) => sum + quantity * rate, 0);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/transactions', {
+        transaction: {
+          transactionType: noteType,
+          transactionNumber,
+          transactionDate,
+          partyId,
+          linkedTransactionId: originalId,
+          noteReason,
+          notes: notes || null,
+          status: 'pending',
+        },
+        // Tax and totals are left to the server
+        items: noteLines.map(({ line, quantity, rate }) => ({
+          itemId: line.itemId,
+          description: line.description,
+          quantity: String(quantity),
+          rate: rate.toFixed(2),
+          taxRate: line.taxRate,
+          cessRate: line.cessRate,
+          godownId: line.godownId,
+          sourceItemId: line.lineId,
+        })),
+      });
+      return res.json() as Promise<Transaction>;
+    },
+    onSuccess: (created) => {
+      invalidateTransactions(queryClient);
+      toast({
+        title: `${noteLabel} ${created.transactionNumber} created`,
+        description: `${formatCurrency(Number(created.amount))} adjusted against ${originals.find((original) => original.id === originalId)?.transactionNumber ?? `the ${originalLabel.toLowerCase()}`}`,
+      });
+      navigate(backPath);
+    },
+    onError: (error: Error) => {
+      toast({ title: `Could not create ${noteLabel.toLowerCase()}`, description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const itemName = (itemId: number | null) => items?.find((item) => item.id === itemId)?.name;
+  const ready = (!!transactionNumber.trim() || !!nextNumber) && !!partyId && !!originalId && noteLines.length > 0;
+
+  return (
+    <div className="p-4 md:p-6 max-w-4xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-neutral-800">Create New {noteLabel}</h1>
+          <p className="text-sm text-neutral-500">Adjust a {partyType}'s {originalLabel.toLowerCase()} for goods returned or a change in value</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate(backPath)}>
+          Cancel
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>{noteLabel} Details</CardTitle>
+            <CardDescription>The note adjusts the {originalLabel.toLowerCase()} it is raised against</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transactionNumber">{noteLabel} Number</Label>
+                <Input id="transactionNumber" value={transactionNumber} onChange={(e) => setTransactionNumber(e.target.value)} />
+              </div>
+
+              <div className="space-y-2">
+                <Label>{noteLabel} Date</Label>
+                <DatePicker date={transactionDate} setDate={setTransactionDate} />
+              </div>
+
+              <div className="space-y-2">
+                <Label>{partyType === 'customer' ? 'Customer' : 'Vendor'}</Label>
+                <Select
+                  value={partyId ? String(partyId) : undefined}
+                  onValueChange={(value) => {
+                    setPartyId(Number(value));
+                    setOriginalId(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={`Select ${partyType}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {parties.map((party) => (
+                      <SelectItem key={party.id} value={String(party.id)}>{party.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Original {originalLabel}</Label>
+                <Select
+                  value={originalId ? String(originalId) : undefined}
+                  onValueChange={(value) => setOriginalId(Number(value))}
+                  disabled={!partyId}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={`Select ${originalLabel.toLowerCase()}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {originals.map((original) => (
+                      <SelectItem key={original.id} value={String(original.id)}>
+                        {original.transactionNumber} ({formatCurrency(Number(original.amount))})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Reason (GST)</Label>
+                <Select value={noteReason} onValueChange={(value) => setNoteReason(value as NoteReason)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(noteReasons) as NoteReason[]).map((reason) => (
+                      <SelectItem key={reason} value={reason}>
+                        {noteReasons[reason].code} - {noteReasons[reason].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-neutral-500">
+                  {returning ? 'Returned goods go back into stock movements' : 'Only the value changes; no goods move'}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea id="notes" value={notes} onChange={(e) => setNotes(e.target.value)} className="min-h-[80px]" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Lines</CardTitle>
+            <CardDescription>
+              {returning
+                ? `Quantities returned from each line, at most what is left on the ${originalLabel.toLowerCase()}`
+                : 'The quantity and rate by which each line is revalued'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!originalId ? (
+              <div className="py-8 text-center text-neutral-500">Choose the {originalLabel.toLowerCase()} to load its lines</div>
+            ) : (
+              <div className="border rounded-md divide-y divide-neutral-200">
+                <div className="grid grid-cols-[1fr_5rem_5rem_7rem_7rem] gap-2 px-3 py-2 text-xs font-medium text-neutral-500">
+                  <span>Item</span>
+                  <span className="text-right">Billed</span>
+                  <span className="text-right">Returned</span>
+                  <span className="text-right">Quantity</span>
+                  <span className="text-right">Rate</span>
+                </div>
+                {lines.map((line) => (
+                  <div key={line.lineId} className="grid grid-cols-[1fr_5rem_5rem_7rem_7rem] gap-2 px-3 py-2 items-center text-sm">
+                    <span>{itemName(line.itemId) ?? line.description ?? `Line ${line.lineId}`}</span>
+                    <span className="text-right">{line.quantity}</span>
+                    <span className="text-right">{line.returned}</span>
+                    <Input
+                      className="h-8 text-right"
+                      type="number"
+                      min={0}
+                      max={returning ? line.returnable : undefined}
+                      step="any"
+                      value={quantities[line.lineId] ?? ''}
+                      onChange={(e) => setQuantities({ ...quantities, [line.lineId]: e.target.value })}
+                      disabled={returning && line.returnable <= 0}
+                    />
+                    <Input
+                      className="h-8 text-right"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={rates[line.lineId] ?? ''}
+                      onChange={(e) => setRates({ ...rates, [line.lineId]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <span className="text-sm">
+              Subtotal before tax: <span className="font-medium">{formatCurrency(subtotal)}</span>
+              {transactionDate && <span className="text-neutral-500 ml-2">dated {formatDate(transactionDate)}</span>}
+            </span>
+            <div className="space-x-2">
+              <Button variant="outline" type="button" onClick={() => navigate(backPath)}>
+                Cancel
+              </Button>
+              <Button onClick={() => createMutation.mutate()} disabled={!ready || createMutation.isPending}>
+                {createMutation.isPending ? 'Creating...' : `Create ${noteLabel}`}
+              </Button>
+            </div>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default NoteForm;
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { formatCurrency, formatDate, getTransactionTypeLabel } from '@/lib/utils';
+import { TransactionAllocations } from '@/types';
+import { Transaction } from '@shared/schema';
+import { permissionForTransactionType } from '@shared/permissions';
+import { isNoteType } from '@shared/notes';
+import AllocatePaymentDialog from '@/components/AllocatePaymentDialog';
+
+const settlingTypes = ['receipt', 'payment', 'debit_note', 'credit_note'];
+const allocatableTypes = [...settlingTypes, 'sales_invoice', 'purchase_bill'];
+
+// The invoices and bills a receipt, payment or note settles, or the receipts, payments and notes that settle a document
+const PaymentAllocationsPanel = ({ transaction }: { transaction: Transaction }) => {
+  const { can } = useAuth();
+  const [allocating, setAllocating] = useState(false);
+  const isSettling = settlingTypes.includes(transaction.transactionType);
+  const isNote = isNoteType(transaction.transactionType);
+
+  const { data: allocations } = useQuery<TransactionAllocations>({
+    queryKey: [`/api/transactions/${transaction.id}/allocations`],
+    enabled: allocatableTypes.includes(transaction.transactionType),
+  });
+
+  if (!allocations || (!isSettling && allocations.allocations.length === 0)) return null;
+
+  const canAllocate = isSettling && transaction.status !== 'cancelled' && can(permissionForTransactionType(transaction.transactionType));
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-medium">{isNote ? 'Adjusts' : isSettling ? 'Allocated Against' : 'Settled By'}</h3>
+        {canAllocate && (
+          <Button size="sm" variant="outline" onClick={() => setAllocating(true)}>
+            Allocate
+          </Button>
+        )}
+      </div>
+
+      <div className="text-sm space-y-1">
+        {allocations.allocations.map((allocation) => (
+          <p key={allocation.id} className="flex justify-between">
+            <span>
+              {allocation.counterpart
+                ? <>{getTransactionTypeLabel(allocation.counterpart.transactionType)} <span className="font-medium">{allocation.counterpart.transactionNumber}</span></>
+                : `Document ${isSettling ? allocation.documentId : allocation.paymentId}`}
+              <span className="text-neutral-500 ml-2">{formatDate(allocation.createdAt)}</span>
+            </span>
+            <span>{formatCurrency(Number(allocation.amount))}</span>
+          </p>
+        ))}
+        {isSettling && (
+          <p className="flex justify-between border-t pt-1">
+            <span className="text-neutral-500">{isNote ? 'Not yet adjusted' : 'On account'}</span>
+            <span>{formatCurrency(allocations.unallocated ?? 0)}</span>
+          </p>
+        )}
+      </div>
+
+      <AllocatePaymentDialog
+        payment={allocating ? transaction : null}
+        partyId={transaction.partyId}
+        onClose={() => setAllocating(false)}
+      />
+    </div>
+  );
+};
+
+export default PaymentAllocationsPanel;
@@ -2,11 +2,8 @@ import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'wouter';
 import { 
-  FileText, 
   ArrowLeftIcon, 
   EyeIcon, 
-  Truck, 
-  PlusCircle, 
   MinusCircle, 
   Download, 
   Printer, 
@@ -44,7 +41,16 @@ import {
 } from "@/components/ui/tooltip";
 import { Badge } from "@/components/ui/badge";
 import { formatCurrency, formatDate, getStatusColor, getStatusLabel } from '@/lib/utils';
-import { Item, Party, Transaction, TransactionItem } from '@shared/schema';
+import { ItemWithMasters, Party, Transaction, TransactionItem } from '@shared/schema';
+import { gstStates } from '@shared/gst';
+import { noteReasonLabel } from '@shared/notes';
+import EInvoiceDetails from '@/components/EInvoiceDetails';
+import TransportDetails from '@/components/TransportDetails';
+import DocumentChainPanel from '@/components/DocumentChainPanel';
+import PaymentAllocationsPanel from '@/components/PaymentAllocationsPanel';
+import TransactionHistory from '@/components/TransactionHistory';
+import EditLinesDialog from '@/components/EditLinesDialog';
+import CancelDocumentDialog from '@/components/CancelDocumentDialog';
 
 // Status badge component
 export const StatusBadge = ({ status, dueDate, balanceDue }: { 
@@ -89,6 +95,9 @@ const TransactionDetailView = ({
   partyType = 'vendor'
 }: TransactionDetailViewProps) => {
   const [activeTab, setActiveTab] = useState("details");
+  const [editing, setEditing] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const isCancelled = transaction.status === 'cancelled';
 
   // Fetch transaction items
   const { data: transactionItems, isLoading: itemsLoading } = useQuery<TransactionItem[]>({
@@ -103,7 +112,7 @@ const TransactionDetailView = ({
   });
 
   // Fetch items for item details
-  const { data: itemsData } = useQuery<Item[]>({
+  const { data: itemsData } = useQuery<ItemWithMasters[]>({
     queryKey: ['/api/items'],
   });
 
@@ -115,30 +124,30 @@ const TransactionDetailView = ({
   const totalTaxAmount = transactionItems?.reduce((sum, item) => 
     sum + Number(item.taxAmount || 0), 0) || 0;
   
-  // Calculate GST breakup (assuming Indian GST system)
+  // GST breakup by rate, from the CGST/SGST/IGST/cess amounts the server stored on each line
   const calculateGstBreakup = () => {
     if (!transactionItems) return null;
     
-    // Assuming tax rate is GST percentage
-    const gstRates = [...new Set(transactionItems.map(item => Number(item.taxRate || 0)))];
+    const gstRates = Array.from(new Set(transactionItems.map(item => Number(item.taxRate || 0))));
     
     return gstRates.map(rate => {
       const itemsWithRate = transactionItems.filter(item => Number(item.taxRate || 0) === rate);
-      const taxableAmount = itemsWithRate.reduce((sum, item) => 
-        sum + (Number(item.amount) || 0), 0);
-      const taxAmount = itemsWithRate.reduce((sum, item) => 
-        sum + (Number(item.taxAmount) || 0), 0);
+      const sum = (key: 'amount' | 'cgstAmount' | 'sgstAmount' | 'igstAmount' | 'cessAmount') =>
+        itemsWithRate.reduce((total, item) => total + Number(item[key] || 0), 0);
       
-      // For IGST or CGST+SGST split
-      const isIGST = party?.state !== 'Same State as User'; // Simplified logic
+      const cgst = sum('cgstAmount');
+      const sgst = sum('sgstAmount');
+      const igst = sum('igstAmount');
+      const cess = sum('cessAmount');
       
       return {
         rate,
-        taxableAmount,
-        igst: isIGST ? taxAmount : 0,
-        cgst: !isIGST ? taxAmount / 2 : 0,
-        sgst: !isIGST ? taxAmount / 2 : 0,
-        total: taxAmount
+        taxableAmount: sum('amount'),
+        cgst,
+        sgst,
+        igst,
+        cess,
+        total: cgst + sgst + igst + cess
       };
     });
   };
@@ -167,7 +176,14 @@ const TransactionDetailView = ({
   };
   
   return (
-    <Card className="md:w-2/3">
+    <Card className="md:w-2/3 relative overflow-hidden">
+      {isCancelled && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center z-10" aria-hidden="true">
+          <span className="-rotate-[30deg] text-7xl font-bold tracking-widest text-red-600/15 border-8 border-red-600/15 rounded-lg px-6 py-2">
+            CANCELLED
+          </span>
+        </div>
+      )}
       <CardHeader>
         <div className="flex justify-between items-center">
           <CardTitle>{transactionTitle} Details</CardTitle>
@@ -228,6 +244,14 @@ const TransactionDetailView = ({
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {isCancelled && (
+          <div className="mb-4 border border-red-200 bg-red-50 rounded-md p-3 text-sm text-red-800">
+            <p className="font-medium">
+              Cancelled{transaction.cancelledAt && ` on ${formatDate(transaction.cancelledAt)}`}
+            </p>
+            {transaction.cancellationReason && <p>{transaction.cancellationReason}</p>}
+          </div>
+        )}
         <Tabs defaultValue="details" className="w-full" value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="grid grid-cols-4 mb-4">
             <TabsTrigger value="details">Details</TabsTrigger>
@@ -329,6 +353,13 @@ const TransactionDetailView = ({
                     </div>
                   )}
                   
+                  {transaction.noteReason && (
+                    <div className="flex justify-between border-b pb-1">
+                      <span className="text-neutral-500">Reason:</span>
+                      <span>{noteReasonLabel(transaction.noteReason)}</span>
+                    </div>
+                  )}
+                  
                   {transaction.inventoryStatus && (
                     <div className="flex justify-between border-b pb-1">
                       <span className="text-neutral-500">Inventory Status:</span>
@@ -424,6 +455,20 @@ const TransactionDetailView = ({
                 </div>
               </div>
             </div>
+
+            {/* Converted from / into */}
+            <DocumentChainPanel transaction={transaction} />
+            
+            {/* Receipts and payments applied against invoices and bills */}
+            <PaymentAllocationsPanel transaction={transaction} />
+            
+            {/* E-invoice registration */}
+            {transaction.transactionType === 'sales_invoice' && (
+              <div className="mt-6">
+                <h3 className="text-sm font-medium mb-2">E-Invoice</h3>
+                <EInvoiceDetails transactionId={transaction.id} />
+              </div>
+            )}
             
             {/* Notes */}
             <div className="mt-6">
@@ -479,7 +524,7 @@ const TransactionDetailView = ({
                             </TableCell>
                             <TableCell>{itemDetails?.hsnCode || 'N/A'}</TableCell>
                             <TableCell className="text-right">
-                              {item.quantity} {itemDetails?.unit || ''}
+                              {item.quantity} {itemDetails?.unitSymbol || ''}
                             </TableCell>
                             <TableCell className="text-right">{formatCurrency(Number(item.rate))}</TableCell>
                             <TableCell className="text-right">{formatCurrency(Number(item.amount))}</TableCell>
@@ -512,6 +557,7 @@ const TransactionDetailView = ({
                           <TableHead className="text-right">CGST</TableHead>
                           <TableHead className="text-right">SGST</TableHead>
                           <TableHead className="text-right">IGST</TableHead>
+                          <TableHead className="text-right">Cess</TableHead>
                           <TableHead className="text-right">Total Tax</TableHead>
                         </TableRow>
                       </TableHeader>
@@ -529,6 +575,9 @@ const TransactionDetailView = ({
                             <TableCell className="text-right">
                               {tax.igst > 0 ? `${formatCurrency(tax.igst)} (${tax.rate}%)` : '-'}
                             </TableCell>
+                            <TableCell className="text-right">
+                              {tax.cess > 0 ? formatCurrency(tax.cess) : '-'}
+                            </TableCell>
                             <TableCell className="text-right font-medium">{formatCurrency(tax.total)}</TableCell>
                           </TableRow>
                         ))}
@@ -548,6 +597,9 @@ const TransactionDetailView = ({
                           <TableCell className="text-right font-bold">
                             {formatCurrency(gstBreakup.reduce((sum, tax) => sum + tax.igst, 0))}
                           </TableCell>
+                          <TableCell className="text-right font-bold">
+                            {formatCurrency(gstBreakup.reduce((sum, tax) => sum + tax.cess, 0))}
+                          </TableCell>
                           <TableCell className="text-right font-bold">
                             {formatCurrency(gstBreakup.reduce((sum, tax) => sum + tax.total, 0))}
                           </TableCell>
@@ -555,6 +607,29 @@ const TransactionDetailView = ({
                       </TableBody>
                     </Table>
                   </div>
+                  
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                    <div className="flex justify-between border-b pb-1">
+                      <span className="text-neutral-500">Place of Supply:</span>
+                      <span>
+                        {transaction.placeOfSupply
+                          ? `${transaction.placeOfSupply} - ${gstStates[transaction.placeOfSupply] || 'Unknown'}`
+                          : 'Not specified'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between border-b pb-1">
+                      <span className="text-neutral-500">Prices:</span>
+                      <span>{transaction.pricesIncludeTax ? 'Inclusive of tax' : 'Exclusive of tax'}</span>
+                    </div>
+                    <div className="flex justify-between border-b pb-1">
+                      <span className="text-neutral-500">Round Off:</span>
+                      <span>{formatCurrency(Number(transaction.roundOff || 0))}</span>
+                    </div>
+                    <div className="flex justify-between border-b pb-1">
+                      <span className="text-neutral-500">Invoice Total:</span>
+                      <span className="font-medium">{formatCurrency(Number(transaction.amount))}</span>
+                    </div>
+                  </div>
                 </div>
               )}
               
@@ -585,70 +660,7 @@ const TransactionDetailView = ({
           
           {/* TRANSPORT TAB */}
           <TabsContent value="transport">
-            <div className="border rounded-md p-4">
-              <div className="flex items-center mb-4">
-                <Truck className="h-5 w-5 text-neutral-400 mr-2" />
-                <h3 className="text-sm font-medium">Transport and Delivery Details</h3>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="space-y-3 text-sm">
-                  <div className="flex justify-between border-b pb-1">
-                    <span className="text-neutral-500">Delivery Status:</span>
-                    <span>{transaction.inventoryStatus || 'Not specified'}</span>
-                  </div>
-                  
-                  {transaction.expectedDeliveryDate && (
-                    <div className="flex justify-between border-b pb-1">
-                      <span className="text-neutral-500">Expected Delivery:</span>
-                      <span>{formatDate(transaction.expectedDeliveryDate)}</span>
-                    </div>
-                  )}
-                  
-                  {/* These fields would need to be added to your schema */}
-                  <div className="flex justify-between border-b pb-1">
-                    <span className="text-neutral-500">Shipping Method:</span>
-                    <span>Standard Delivery</span>
-                  </div>
-                  
-                  <div className="flex justify-between border-b pb-1">
-                    <span className="text-neutral-500">Tracking Number:</span>
-                    <span>Not available</span>
-                  </div>
-                  
-                  <div className="flex justify-between border-b pb-1">
-                    <span className="text-neutral-500">E-Way Bill:</span>
-                    <span>Not generated</span>
-                  </div>
-                </div>
-                
-                <div className="space-y-3 text-sm">
-                  <h4 className="font-medium text-neutral-500">Shipping Address</h4>
-                  
-                  {party?.address ? (
-                    <div className="p-3 border rounded-md">
-                      <p className="font-medium">{partyName}</p>
-                      <p>{party.address}</p>
-                      {party.city && party.state && (
-                        <p>{party.city}, {party.state} {party.pincode || ''}</p>
-                      )}
-                      {party.phone && <p>Phone: {party.phone}</p>}
-                    </div>
-                  ) : (
-                    <div className="text-neutral-500 italic">
-                      No shipping address available
-                    </div>
-                  )}
-                  
-                  <div className="flex mt-4">
-                    <Button variant="outline" size="sm" className="w-full mt-2" disabled>
-                      <PlusCircle className="h-4 w-4 mr-2" />
-                      Add Transport Details
-                    </Button>
-                  </div>
-                </div>
-              </div>
-            </div>
+            <TransportDetails transactionId={transaction.id} party={party} partyName={partyName} />
           </TabsContent>
           
           {/* HISTORY TAB */}
@@ -656,28 +668,9 @@ const TransactionDetailView = ({
             <div className="border rounded-md p-4">
               <h3 className="text-sm font-medium mb-4">Transaction History</h3>
               
-              <div className="space-y-4">
-                <div className="flex items-start">
-                  <div className="bg-primary/10 h-8 w-8 rounded-full flex items-center justify-center mr-3">
-                    <FileText className="h-4 w-4 text-primary" />
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium">Transaction created</p>
-                    <p className="text-xs text-neutral-500">{formatDate(transaction.createdAt || new Date())}</p>
-                  </div>
-                </div>
-                
-                {/* Sample history entries - would be populated from backend in a real implementation */}
-                <div className="flex items-start">
-                  <div className="bg-neutral-100 h-8 w-8 rounded-full flex items-center justify-center mr-3">
-                    <Send className="h-4 w-4 text-neutral-500" />
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium">Status changed to {getStatusLabel(transaction.status)}</p>
-                    <p className="text-xs text-neutral-500">{formatDate(transaction.createdAt || new Date())}</p>
-                  </div>
-                </div>
-                
+              <TransactionHistory transactionId={transaction.id} />
+
+              <div className="space-y-4 mt-4">
                 {transaction.isSync && (
                   <div className="flex items-start">
                     <div className="bg-green-100 h-8 w-8 rounded-full flex items-center justify-center mr-3">
@@ -689,6 +682,18 @@ const TransactionDetailView = ({
                     </div>
                   </div>
                 )}
+                
+                {!transaction.isSync && transaction.tallyModifiedAt && (
+                  <div className="flex items-start">
+                    <div className="bg-blue-100 h-8 w-8 rounded-full flex items-center justify-center mr-3">
+                      <ArrowLeftIcon className="h-4 w-4 text-blue-600" />
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium">Changed since Tally sync</p>
+                      <p className="text-xs text-neutral-500">{formatDate(transaction.tallyModifiedAt)}; the next sync updates Tally</p>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </TabsContent>
@@ -696,7 +701,18 @@ const TransactionDetailView = ({
         
         {/* Actions */}
         <div className="mt-6 flex justify-end space-x-3">
-          <Button variant="outline">Edit {transactionTitle}</Button>
+          <Button
+            variant="outline"
+            onClick={() => setEditing(true)}
+            disabled={isCancelled || !!transaction.irn}
+          >
+            Edit {transactionTitle}
+          </Button>
+          {!isCancelled && (
+            <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setCancelling(true)}>
+              Cancel {transactionTitle}
+            </Button>
+          )}
           {['sales_invoice', 'purchase_bill'].includes(transaction.transactionType) && 
            Number(transaction.balanceDue || 0) > 0 && (
             <Button>
@@ -704,6 +720,9 @@ const TransactionDetailView = ({
             </Button>
           )}
         </div>
+
+        <EditLinesDialog transaction={transaction} open={editing} onClose={() => setEditing(false)} />
+        <CancelDocumentDialog transaction={transaction} open={cancelling} onClose={() => setCancelling(false)} />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { FileText, Pencil } from 'lucide-react';
+import { formatCurrency, formatDate, getStatusLabel, getTransactionTypeLabel } from '@/lib/utils';
+import { TransactionRevisionEntry } from '@/types';
+import { ItemWithMasters, Party } from '@shared/schema';
+
+const savedAt = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Every saved version of a document, newest first, with what each save changed
+const TransactionHistory = ({ transactionId }: { transactionId: number }) => {
+  const [viewing, setViewing] = useState<TransactionRevisionEntry | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<TransactionRevisionEntry[]>({
+    queryKey: [`/api/transactions/${transactionId}/revisions`],
+  });
+
+  const { data: parties } = useQuery<Party[]>({
+    queryKey: ['/api/parties'],
+    enabled: !!viewing,
+  });
+
+  const { data: items } = useQuery<ItemWithMasters[]>({
+    queryKey: ['/api/items'],
+    enabled: !!viewing,
+  });
+
+  if (isLoading) {
+    return <div className="h-12 bg-neutral-100 rounded-md animate-pulse" />;
+  }
+  if (revisions.length === 0) {
+    return <p className="text-sm text-neutral-500">No saved versions yet.</p>;
+  }
+
+  const content = viewing?.content;
+  const partyName = content?.partyId ? parties?.find((party) => party.id === content.partyId)?.name : undefined;
+  const itemName = (itemId: number | null) => items?.find((item) => item.id === itemId)?.name;
+
+  return (
+    <div className="space-y-4">
+      {[...revisions].reverse().map((revision) => (
+        <div key={revision.id} className="flex items-start">
+          <div className="bg-primary/10 h-8 w-8 rounded-full flex items-center justify-center mr-3 shrink-0">
+            {revision.changes.length === 0 ? <FileText className="h-4 w-4 text-primary" /> : <Pencil className="h-4 w-4 text-primary" />}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-between items-start gap-2">
+              <div>
+                <p className="text-sm font-medium">
+                  Revision {revision.revision}: {revision.changes.length === 0 ? 'Created' : 'Edited'}
+                  {revision.editedByName && <span className="font-normal text-neutral-500"> by {revision.editedByName}</span>}
+                </p>
+                <p className="text-xs text-neutral-500">{savedAt(revision.createdAt)}</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setViewing(revision)}>
+                View
+              </Button>
+            </div>
+            {revision.changes.length > 0 && (
+              <ul className="mt-2 text-xs space-y-0.5">
+                {revision.changes.map((change, index) => (
+                  <li key={index}>
+                    <span className="text-neutral-500">{change.field}:</span>{' '}
+                    <span className="line-through text-neutral-400">{change.before ?? 'none'}</span>{' '}
+                    → <span>{change.after ?? 'none'}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {content?.transactionNumber} as of revision {viewing?.revision}
+            </DialogTitle>
+            <DialogDescription>
+              Saved {viewing && savedAt(viewing.createdAt)}{viewing?.editedByName && ` by ${viewing.editedByName}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {content && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-x-6 gap-y-1">
+                <span className="text-neutral-500">Type</span>
+                <span>{getTransactionTypeLabel(content.transactionType)}</span>
+                <span className="text-neutral-500">Date</span>
+                <span>{content.transactionDate ? formatDate(content.transactionDate) : 'N/A'}</span>
+                <span className="text-neutral-500">Party</span>
+                <span>{partyName ?? (content.partyId ? `Party #${content.partyId}` : 'N/A')}</span>
+                <span className="text-neutral-500">Status</span>
+                <span>{content.status ? getStatusLabel(content.status) : 'N/A'}</span>
+                <span className="text-neutral-500">Taxable value</span>
+                <span>{formatCurrency(Number(content.taxableAmount ?? 0))}</span>
+                <span className="text-neutral-500">GST and cess</span>
+                <span>
+                  {formatCurrency(['cgstAmount', 'sgstAmount', 'igstAmount', 'cessAmount'].reduce(
+                    (sum, key) => sum + Number(content[key as 'cgstAmount'] ?? 0), 0))}
+                </span>
+                <span className="text-neutral-500">Amount</span>
+                <span className="font-medium">{formatCurrency(Number(content.amount))}</span>
+              </div>
+
+              <div className="border rounded-md divide-y divide-neutral-200">
+                <div className="grid grid-cols-[1fr_5rem_6rem_4rem_7rem] gap-2 px-3 py-2 text-xs font-medium text-neutral-500">
+                  <span>Item</span>
+                  <span className="text-right">Qty</span>
+                  <span className="text-right">Rate</span>
+                  <span className="text-right">GST %</span>
+                  <span className="text-right">Total</span>
+                </div>
+                {content.lines.map((line) => (
+                  <div key={line.lineId} className="grid grid-cols-[1fr_5rem_6rem_4rem_7rem] gap-2 px-3 py-2">
+                    <span>{itemName(line.itemId) ?? line.description ?? `Line ${line.lineId}`}</span>
+                    <span className="text-right">{line.quantity}</span>
+                    <span className="text-right">{formatCurrency(Number(line.rate))}</span>
+                    <span className="text-right">{line.taxRate ?? 0}</span>
+                    <span className="text-right">{formatCurrency(Number(line.totalAmount))}</span>
+                  </div>
+                ))}
+                {content.lines.length === 0 && <div className="px-3 py-2 text-neutral-500">No lines</div>}
+              </div>
+
+              {content.notes && <p className="text-neutral-600">{content.notes}</p>}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TransactionHistory;
@@ -0,0 +1,409 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Download, PlusCircle, Truck } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatDate } from '@/lib/utils';
+import { Party, Transaction } from '@shared/schema';
+
+type TransportMode = NonNullable<Transaction['transportMode']>;
+
+const transportModeLabels: Record<TransportMode, string> = {
+  road: 'Road',
+  rail: 'Rail',
+  air: 'Air',
+  ship: 'Ship',
+};
+
+// Everything the transport form edits, as strings for the inputs
+const transportFields = [
+  'transportMode', 'transporterId', 'transporterName', 'vehicleNumber', 'transportDocNumber',
+  'transportDocDate', 'distanceKm', 'dispatchFromAddress', 'dispatchFromCity', 'dispatchFromState',
+  'dispatchFromPincode', 'shipToName', 'shipToAddress', 'shipToCity', 'shipToState', 'shipToPincode',
+] as const;
+
+type TransportForm = Record<(typeof transportFields)[number], string>;
+
+const toForm = (transaction: Transaction): TransportForm => {
+  const form = {} as TransportForm;
+  for (const field of transportFields) {
+    const value = transaction[field];
+    form[field] = field === 'transportDocDate'
+      ? (value ? new Date(value as string | Date).toISOString().slice(0, 10) : '')
+      : value != null ? String(value) : '';
+  }
+  return form;
+};
+
+// Empty inputs clear the field
+const fromForm = (form: TransportForm) => {
+  const values: Record<string, string | number | null> = {};
+  for (const field of transportFields) {
+    values[field] = form[field].trim() || null;
+  }
+  values.distanceKm = form.distanceKm.trim() ? parseInt(form.distanceKm, 10) : null;
+  return values;
+};
+
+// Outward movements only; goods coming in travel on the supplier's e-way bill
+const eWayBillTypes = ['delivery_note', 'sales_invoice'];
+
+const addressLine = (...parts: (string | null | undefined)[]) => parts.filter(Boolean).join(', ');
+
+interface TransportDetailsProps {
+  transactionId: number;
+  party?: Party;
+  partyName: string;
+}
+
+// Transport details and e-way bill of a delivery note or invoice
+const TransportDetails = ({ transactionId, party, partyName }: TransportDetailsProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [form, setForm] = useState<TransportForm | null>(null);
+  const [ewbNumber, setEwbNumber] = useState('');
+
+  const { data: transaction } = useQuery<Transaction>({
+    queryKey: [`/api/transactions/${transactionId}`],
+  });
+
+  const needsEwayBill = !!transaction && eWayBillTypes.includes(transaction.transactionType);
+  const { data: draft } = useQuery<{ errors: string[] }>({
+    queryKey: [`/api/transactions/${transactionId}/e-way-bill`],
+    enabled: needsEwayBill && !transaction?.ewbNumber,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/transactions/${transactionId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/transactions/${transactionId}/e-way-bill`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: TransportForm) => {
+      const res = await apiRequest('PATCH', `/api/transactions/${transactionId}`, fromForm(values));
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setIsEditOpen(false);
+      toast({ title: 'Transport details saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save transport details', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async (number: string) => {
+      const res = await apiRequest('POST', `/api/transactions/${transactionId}/e-way-bill`, { ewbNumber: number });
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      setEwbNumber('');
+      toast({ title: 'E-way bill recorded' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not record e-way bill', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const downloadJson = async () => {
+    try {
+      const res = await apiRequest('GET', `/api/e-way-bills/export?ids=${transactionId}&download=true`);
+      const blob = new Blob([JSON.stringify(await res.json(), null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `EWB_${transaction?.transactionNumber.replace(/[^A-Za-z0-9-]/g, '_')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: 'Could not build e-way bill JSON', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  if (!transaction) {
+    return null;
+  }
+
+  const openEditor = () => {
+    setForm(toForm(transaction));
+    setIsEditOpen(true);
+  };
+
+  const setField = (field: keyof TransportForm, value: string) =>
+    setForm((current) => (current ? { ...current, [field]: value } : current));
+
+  const errors = draft?.errors ?? [];
+  const validUntil = transaction.ewbValidUntil ? new Date(transaction.ewbValidUntil) : null;
+  const expired = !!validUntil && validUntil < new Date();
+  const hasTransport = transportFields.some((field) => transaction[field] != null && transaction[field] !== '');
+
+  return (
+    <div className="border rounded-md p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Truck className="h-5 w-5 text-neutral-400 mr-2" />
+          <h3 className="text-sm font-medium">Transport and Delivery Details</h3>
+        </div>
+        <Button variant="outline" size="sm" onClick={openEditor}>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          {hasTransport ? 'Edit Transport Details' : 'Add Transport Details'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3 text-sm">
+          <div className="flex justify-between border-b pb-1">
+            <span className="text-neutral-500">Delivery Status:</span>
+            <span>{transaction.inventoryStatus || 'Not specified'}</span>
+          </div>
+
+          {transaction.expectedDeliveryDate && (
+            <div className="flex justify-between border-b pb-1">
+              <span className="text-neutral-500">Expected Delivery:</span>
+              <span>{formatDate(transaction.expectedDeliveryDate)}</span>
+            </div>
+          )}
+
+          <div className="flex justify-between border-b pb-1">
+            <span className="text-neutral-500">Mode:</span>
+            <span>{transaction.transportMode ? transportModeLabels[transaction.transportMode] : 'Not specified'}</span>
+          </div>
+
+          <div className="flex justify-between border-b pb-1">
+            <span className="text-neutral-500">Transporter:</span>
+            <span className="text-right">
+              {transaction.transporterName || 'Not specified'}
+              {transaction.transporterId && <span className="block text-xs text-neutral-500">{transaction.transporterId}</span>}
+            </span>
+          </div>
+
+          {transaction.vehicleNumber && (
+            <div className="flex justify-between border-b pb-1">
+              <span className="text-neutral-500">Vehicle Number:</span>
+              <span className="font-mono">{transaction.vehicleNumber}</span>
+            </div>
+          )}
+
+          {transaction.transportDocNumber && (
+            <div className="flex justify-between border-b pb-1">
+              <span className="text-neutral-500">Transport Doc:</span>
+              <span>
+                {transaction.transportDocNumber}
+                {transaction.transportDocDate && ` (${formatDate(transaction.transportDocDate)})`}
+              </span>
+            </div>
+          )}
+
+          <div className="flex justify-between border-b pb-1">
+            <span className="text-neutral-500">Distance:</span>
+            <span>{transaction.distanceKm != null ? `${transaction.distanceKm} km` : 'Not specified'}</span>
+          </div>
+
+          {needsEwayBill && (
+          <div className="flex justify-between border-b pb-1">
+            <span className="text-neutral-500">E-Way Bill:</span>
+            {transaction.ewbNumber ? (
+              <span className="text-right">
+                <span className="font-mono font-medium">{transaction.ewbNumber}</span>
+                {validUntil && (
+                  <span className={`block text-xs ${expired ? 'text-red-600' : 'text-neutral-500'}`}>
+                    {expired ? 'Expired' : 'Valid until'} {validUntil.toLocaleString('en-IN')}
+                  </span>
+                )}
+              </span>
+            ) : (
+              <span>Not generated</span>
+            )}
+          </div>
+          )}
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <h4 className="font-medium text-neutral-500">Dispatch From</h4>
+          <div className="p-3 border rounded-md">
+            {transaction.dispatchFromAddress ? (
+              <>
+                <p>{transaction.dispatchFromAddress}</p>
+                <p>{addressLine(transaction.dispatchFromCity, transaction.dispatchFromState)} {transaction.dispatchFromPincode || ''}</p>
+              </>
+            ) : (
+              <p className="text-neutral-500 italic">Company address</p>
+            )}
+          </div>
+
+          <h4 className="font-medium text-neutral-500">Ship To</h4>
+          {transaction.shipToAddress ? (
+            <div className="p-3 border rounded-md">
+              <p className="font-medium">{transaction.shipToName || partyName}</p>
+              <p>{transaction.shipToAddress}</p>
+              <p>{addressLine(transaction.shipToCity, transaction.shipToState)} {transaction.shipToPincode || ''}</p>
+            </div>
+          ) : party?.address ? (
+            <div className="p-3 border rounded-md">
+              <p className="font-medium">{partyName}</p>
+              <p>{party.address}</p>
+              {party.city && party.state && (
+                <p>{party.city}, {party.state} {party.pincode || ''}</p>
+              )}
+              {party.phone && <p>Phone: {party.phone}</p>}
+            </div>
+          ) : (
+            <div className="text-neutral-500 italic">
+              No shipping address available
+            </div>
+          )}
+        </div>
+      </div>
+
+      {needsEwayBill && !transaction.ewbNumber && (
+        <div className="mt-6 space-y-3 text-sm">
+          <h4 className="font-medium">E-Way Bill</h4>
+          {errors.length > 0 ? (
+            <div className="border border-amber-200 bg-amber-50 rounded-md p-3 space-y-1">
+              <div className="flex items-center text-amber-800 font-medium">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                Fix before generating the e-way bill
+              </div>
+              <ul className="list-disc pl-5 text-amber-900">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-neutral-500">
+              Download the JSON, upload it on the e-way bill portal, then record the EWB number here.
+            </p>
+          )}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" size="sm" onClick={downloadJson} disabled={errors.length > 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Download E-Way Bill JSON
+            </Button>
+            <Input
+              className="sm:w-48 h-9"
+              placeholder="12-digit EWB number"
+              value={ewbNumber}
+              onChange={(e) => setEwbNumber(e.target.value.replace(/\D/g, '').slice(0, 12))}
+            />
+            <Button
+              size="sm"
+              onClick={() => recordMutation.mutate(ewbNumber)}
+              disabled={ewbNumber.length !== 12 || recordMutation.isPending}
+            >
+              Record EWB
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Transport Details</DialogTitle>
+            <DialogDescription>Printed on the e-way bill. Leave addresses empty to use the company and customer addresses.</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transportMode">Mode</Label>
+                <Select value={form.transportMode} onValueChange={(value) => setField('transportMode', value)}>
+                  <SelectTrigger id="transportMode">
+                    <SelectValue placeholder="Select mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(transportModeLabels) as TransportMode[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>{transportModeLabels[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="distanceKm">Distance (km)</Label>
+                <Input id="distanceKm" type="number" min="0" max="4000" value={form.distanceKm} onChange={(e) => setField('distanceKm', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transporterName">Transporter Name</Label>
+                <Input id="transporterName" value={form.transporterName} onChange={(e) => setField('transporterName', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transporterId">Transporter ID</Label>
+                <Input id="transporterId" placeholder="GSTIN or TRANSIN" value={form.transporterId} onChange={(e) => setField('transporterId', e.target.value.toUpperCase())} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vehicleNumber">Vehicle Number</Label>
+                <Input id="vehicleNumber" placeholder="MH12AB1234" value={form.vehicleNumber} onChange={(e) => setField('vehicleNumber', e.target.value.toUpperCase())} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="transportDocNumber">LR / RR / AWB No</Label>
+                  <Input id="transportDocNumber" value={form.transportDocNumber} onChange={(e) => setField('transportDocNumber', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transportDocDate">Doc Date</Label>
+                  <Input id="transportDocDate" type="date" value={form.transportDocDate} onChange={(e) => setField('transportDocDate', e.target.value)} />
+                </div>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="dispatchFromAddress">Dispatch From Address</Label>
+                <Input id="dispatchFromAddress" value={form.dispatchFromAddress} onChange={(e) => setField('dispatchFromAddress', e.target.value)} />
+              </div>
+              <div className="grid grid-cols-3 gap-2 md:col-span-2">
+                <Input aria-label="Dispatch from city" placeholder="City" value={form.dispatchFromCity} onChange={(e) => setField('dispatchFromCity', e.target.value)} />
+                <Input aria-label="Dispatch from state" placeholder="State" value={form.dispatchFromState} onChange={(e) => setField('dispatchFromState', e.target.value)} />
+                <Input aria-label="Dispatch from pincode" placeholder="Pincode" value={form.dispatchFromPincode} onChange={(e) => setField('dispatchFromPincode', e.target.value)} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="shipToName">Ship To Name</Label>
+                <Input id="shipToName" placeholder={partyName} value={form.shipToName} onChange={(e) => setField('shipToName', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shipToAddress">Ship To Address</Label>
+                <Input id="shipToAddress" value={form.shipToAddress} onChange={(e) => setField('shipToAddress', e.target.value)} />
+              </div>
+              <div className="grid grid-cols-3 gap-2 md:col-span-2">
+                <Input aria-label="Ship to city" placeholder="City" value={form.shipToCity} onChange={(e) => setField('shipToCity', e.target.value)} />
+                <Input aria-label="Ship to state" placeholder="State" value={form.shipToState} onChange={(e) => setField('shipToState', e.target.value)} />
+                <Input aria-label="Ship to pincode" placeholder="Pincode" value={form.shipToPincode} onChange={(e) => setField('shipToPincode', e.target.value)} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditOpen(false)}>Cancel</Button>
+            <Button onClick={() => form && saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TransportDetails;
@@ -0,0 +1,74 @@
+import { Link } from 'wouter';
+import { AlertTriangle } from 'lucide-react';
+import { DashboardData } from '@/types';
+import { getTransactionTypeLabel } from '@/lib/utils';
+
+interface EwayBillAlertsProps {
+  dashboardData?: DashboardData;
+  isLoading: boolean;
+}
+
+const documentLinks: Record<string, string> = {
+  delivery_note: '/sales/delivery-notes',
+  sales_invoice: '/sales/invoices',
+};
+
+const formatValidity = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Only shown while some goods in transit are on a lapsed or lapsing e-way bill
+const EwayBillAlerts = ({ dashboardData, isLoading }: EwayBillAlertsProps) => {
+  const alerts = dashboardData?.ewayBillAlerts ?? [];
+
+  if (isLoading || alerts.length === 0) {
+    return null;
+  }
+
+  const expiredCount = alerts.filter((alert) => alert.expired).length;
+
+  return (
+    <div className="mb-6">
+      <div className="bg-white border border-amber-200 rounded-lg shadow-sm overflow-hidden">
+        <div className="p-4 border-b border-amber-200 bg-amber-50 flex items-center">
+          <AlertTriangle className="h-5 w-5 text-amber-600 mr-2" />
+          <div>
+            <h3 className="font-medium text-amber-900">E-Way Bills Need Attention</h3>
+            <p className="text-sm text-amber-800">
+              {expiredCount > 0 && `${expiredCount} expired`}
+              {expiredCount > 0 && expiredCount < alerts.length && ', '}
+              {expiredCount < alerts.length && `${alerts.length - expiredCount} expiring within 24 hours`}
+              {' '}for goods not yet delivered. Extend validity on the e-way bill portal.
+            </p>
+          </div>
+        </div>
+        <div className="divide-y divide-neutral-200">
+          {alerts.map((alert) => (
+            <div key={alert.transactionId} className="p-4 flex justify-between items-center text-sm">
+              <div>
+                <Link href={documentLinks[alert.transactionType] ?? '/sales'}>
+                  <span className="font-medium text-primary-600 hover:underline cursor-pointer">
+                    {alert.transactionNumber}
+                  </span>
+                </Link>
+                <p className="text-neutral-500">
+                  {getTransactionTypeLabel(alert.transactionType)} · EWB {alert.ewbNumber}
+                  {alert.vehicleNumber ? ` · ${alert.vehicleNumber}` : ''}
+                </p>
+              </div>
+              <div className="text-right">
+                <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                  alert.expired ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                }`}>
+                  {alert.expired ? 'Expired' : 'Expiring'}
+                </span>
+                <p className="text-neutral-500 mt-1 font-mono">{formatValidity(alert.ewbValidUntil)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EwayBillAlerts;
@@ -1,31 +1,38 @@
 import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
 
 const QuickActions = () => {
+  const { can } = useAuth();
+
   return (
     <div className="mb-6">
       <h2 className="text-lg font-medium text-neutral-800 mb-3">Quick Actions</h2>
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3">
-        <Link href="/sales">
-          <div className="p-4 bg-white border border-neutral-200 rounded-lg shadow-sm flex flex-col items-center justify-center hover:bg-neutral-50 transition-colors cursor-pointer">
-            <div className="w-10 h-10 rounded-full bg-primary-50 text-primary-600 flex items-center justify-center mb-2">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
-              </svg>
+        {can("manage_sales") && (
+          <Link href="/sales">
+            <div className="p-4 bg-white border border-neutral-200 rounded-lg shadow-sm flex flex-col items-center justify-center hover:bg-neutral-50 transition-colors cursor-pointer">
+              <div className="w-10 h-10 rounded-full bg-primary-50 text-primary-600 flex items-center justify-center mb-2">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+                </svg>
+              </div>
+              <span className="text-xs font-medium text-neutral-700">New Sale</span>
             </div>
-            <span className="text-xs font-medium text-neutral-700">New Sale</span>
-          </div>
-        </Link>
+          </Link>
+        )}
         
-        <Link href="/purchases">
-          <div className="p-4 bg-white border border-neutral-200 rounded-lg shadow-sm flex flex-col items-center justify-center hover:bg-neutral-50 transition-colors cursor-pointer">
-            <div className="w-10 h-10 rounded-full bg-secondary-50 text-secondary-600 flex items-center justify-center mb-2">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path d="M3 1a1 1 0 000 2h1.22l.305 1.222a.997.997 0 00.01.042l1.358 5.43-.893.892C3.74 11.846 4.632 14 6.414 14H15a1 1 0 000-2H6.414l1-1H14a1 1 0 00.894-.553l3-6A1 1 0 0017 3H6.28l-.31-1.243A1 1 0 005 1H3zM16 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zM6.5 18a1.5 1.5 0 100-3 1.5 1.5 0 000 3z" />
-              </svg>
+        {can("manage_purchases") && (
+          <Link href="/purchases">
+            <div className="p-4 bg-white border border-neutral-200 rounded-lg shadow-sm flex flex-col items-center justify-center hover:bg-neutral-50 transition-colors cursor-pointer">
+              <div className="w-10 h-10 rounded-full bg-secondary-50 text-secondary-600 flex items-center justify-center mb-2">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M3 1a1 1 0 000 2h1.22l.305 1.222a.997.997 0 00.01.042l1.358 5.43-.893.892C3.74 11.846 4.632 14 6.414 14H15a1 1 0 000-2H6.414l1-1H14a1 1 0 00.894-.553l3-6A1 1 0 0017 3H6.28l-.31-1.243A1 1 0 005 1H3zM16 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zM6.5 18a1.5 1.5 0 100-3 1.5 1.5 0 000 3z" />
+                </svg>
+              </div>
+              <span className="text-xs font-medium text-neutral-700">New Purchase</span>
             </div>
-            <span className="text-xs font-medium text-neutral-700">New Purchase</span>
-          </div>
-        </Link>
+          </Link>
+        )}
         
         <Link href="/finance/receivables/customers">
           <div className="p-4 bg-white border border-neutral-200 rounded-lg shadow-sm flex flex-col items-center justify-center hover:bg-neutral-50 transition-colors cursor-pointer">
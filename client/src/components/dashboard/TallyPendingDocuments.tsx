@@ -0,0 +1,92 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { TallyPendingDocument, TallyPendingState } from '@/types';
+
+export const tallyDocumentLabels: Record<string, { singular: string; plural: string }> = {
+  sales_invoice: { singular: 'sales invoice', plural: 'sales invoices' },
+  debit_note: { singular: 'debit note', plural: 'debit notes' },
+  purchase_bill: { singular: 'purchase bill', plural: 'purchase bills' },
+  credit_note: { singular: 'credit note', plural: 'credit notes' },
+  receipt: { singular: 'receipt', plural: 'receipts' },
+  payment: { singular: 'payment', plural: 'payments' },
+};
+
+export const pendingStateBadges: Record<TallyPendingState, { label: string; className: string }> = {
+  pending: { label: 'Not synced', className: 'bg-neutral-100 text-neutral-700' },
+  modified: { label: 'Changed since sync', className: 'bg-blue-100 text-blue-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  retry: { label: 'Retry pending', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+interface TallyPendingDocumentsProps {
+  transactionType: string | null; // The dialog is open while a type is chosen
+  onClose: () => void;
+}
+
+// The documents of one type still waiting for Tally, and why the last push left them behind
+const TallyPendingDocuments = ({ transactionType, onClose }: TallyPendingDocumentsProps) => {
+  const { data: documents, isLoading } = useQuery<TallyPendingDocument[]>({
+    queryKey: [`/api/tally-sync/pending?type=${transactionType}`],
+    enabled: !!transactionType,
+  });
+
+  const labels = transactionType ? tallyDocumentLabels[transactionType] : undefined;
+
+  return (
+    <Dialog open={!!transactionType} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="capitalize">Unsynced {labels?.plural ?? 'documents'}</DialogTitle>
+          <DialogDescription>Oldest first, in the order the next sync sends them. Failed documents need fixing before they can go through.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-2">
+            {Array(3).fill(null).map((_, i) => (
+              <div key={i} className="bg-neutral-100 h-10 rounded-md"></div>
+            ))}
+          </div>
+        ) : !documents?.length ? (
+          <p className="text-sm text-neutral-500">Nothing waiting to be synced.</p>
+        ) : (
+          <div className="divide-y divide-neutral-200 border rounded-md">
+            {documents.map((document) => (
+              <div key={document.transactionId} className="px-3 py-2 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <span className="font-medium">{document.transactionNumber}</span>
+                    <span className="text-neutral-500 ml-2">
+                      {document.transactionDate ? formatDate(document.transactionDate) : ''}
+                      {document.partyName ? ` · ${document.partyName}` : ''}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span>{formatCurrency(Number(document.amount))}</span>
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${pendingStateBadges[document.state].className}`}>
+                      {pendingStateBadges[document.state].label}
+                    </span>
+                  </div>
+                </div>
+                {document.error && (
+                  <p className="text-xs text-red-700 mt-1">
+                    {document.error}
+                    {document.lastAttemptAt && ` (${document.attempts} ${document.attempts === 1 ? 'attempt' : 'attempts'}, last ${new Date(document.lastAttemptAt).toLocaleString()})`}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TallyPendingDocuments;
@@ -0,0 +1,87 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TallySyncConflict } from '@/types';
+import { tallyDocumentLabels } from './TallyPendingDocuments';
+
+interface TallySyncConflictsProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Documents edited after they went to Tally, with the changed fields side by side
+const TallySyncConflicts = ({ open, onClose }: TallySyncConflictsProps) => {
+  const { data: conflicts, isLoading } = useQuery<TallySyncConflict[]>({
+    queryKey: ['/api/tally-sync/conflicts'],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Changed since sync</DialogTitle>
+          <DialogDescription>Tally still has the synced version. The next sync alters each voucher to match the document.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-2">
+            {Array(2).fill(null).map((_, i) => (
+              <div key={i} className="bg-neutral-100 h-24 rounded-md"></div>
+            ))}
+          </div>
+        ) : !conflicts?.length ? (
+          <p className="text-sm text-neutral-500">No documents have changed since they were synced.</p>
+        ) : (
+          <div className="space-y-4">
+            {conflicts.map((conflict) => (
+              <div key={conflict.transactionId} className="border rounded-md">
+                <div className="flex flex-wrap justify-between gap-2 px-3 py-2 bg-neutral-50 border-b text-sm">
+                  <div>
+                    <span className="font-medium">{conflict.transactionNumber}</span>
+                    <span className="text-neutral-500 ml-2 capitalize">
+                      {tallyDocumentLabels[conflict.transactionType]?.singular ?? conflict.transactionType}
+                      {conflict.partyName ? ` · ${conflict.partyName}` : ''}
+                    </span>
+                  </div>
+                  {conflict.modifiedAt && (
+                    <span className="text-xs text-neutral-500">Changed {new Date(conflict.modifiedAt).toLocaleString()}</span>
+                  )}
+                </div>
+                {conflict.changes.length === 0 ? (
+                  <p className="px-3 py-2 text-sm text-neutral-500">The synced version was not kept, so the changes cannot be shown.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-neutral-500">
+                        <th className="px-3 py-1 font-medium">Field</th>
+                        <th className="px-3 py-1 font-medium">In Tally</th>
+                        <th className="px-3 py-1 font-medium">Now</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-neutral-200">
+                      {conflict.changes.map((change) => (
+                        <tr key={change.field}>
+                          <td className="px-3 py-1 text-neutral-600">{change.field}</td>
+                          <td className="px-3 py-1 text-red-700">{change.synced ?? '—'}</td>
+                          <td className="px-3 py-1 text-green-700">{change.current ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TallySyncConflicts;
@@ -1,6 +1,20 @@
 import { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { TallyPendingSummary } from '@/types';
+import TallyPendingDocuments, { pendingStateBadges, tallyDocumentLabels } from './TallyPendingDocuments';
+import TallySyncConflicts from './TallySyncConflicts';
+
+interface TallySyncJobStatus {
+  status: 'disabled' | 'idle' | 'running' | 'backoff';
+  intervalMinutes: number;
+  lastRunAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  nextRunAt: string | null;
+}
 
 interface TallySyncStatusProps {
   dashboardData: any;
@@ -9,22 +23,36 @@ interface TallySyncStatusProps {
 
 const TallySyncStatus = ({ dashboardData, isLoading }: TallySyncStatusProps) => {
   const [syncInProgress, setSyncInProgress] = useState(false);
+  const [reviewType, setReviewType] = useState<string | null>(null);
+  const [conflictsOpen, setConflictsOpen] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Polled so background syncs show up; faster while one is running
+  const { data: job } = useQuery<TallySyncJobStatus>({
+    queryKey: ['/api/tally-sync/job'],
+    refetchInterval: (query) => (query.state.data?.status === 'running' ? 5000 : 60000),
+  });
+
+  // A finished background sync changes the last log and the pending counts
+  useEffect(() => {
+    if (job?.lastRunAt) {
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-sync/logs'] });
+    }
+  }, [job?.lastRunAt, queryClient]);
   
   const [data, setData] = useState({
     recentSyncLog: undefined as any,
-    pendingSyncs: {
-      invoices: 0,
-      payments: 0,
-      receipts: 0
-    }
+    pendingSyncs: undefined as TallyPendingSummary | undefined
   });
 
   useEffect(() => {
     if (dashboardData && !isLoading) {
       setData({
         recentSyncLog: dashboardData.recentSyncLog,
-        pendingSyncs: dashboardData.pendingSyncs || { invoices: 0, payments: 0, receipts: 0 }
+        pendingSyncs: dashboardData.pendingSyncs
       });
     }
   }, [dashboardData, isLoading]);
@@ -32,18 +60,27 @@ const TallySyncStatus = ({ dashboardData, isLoading }: TallySyncStatusProps) =>
   const handleSyncNow = async () => {
     setSyncInProgress(true);
     try {
-      await apiRequest('POST', '/api/tally-sync', { syncType: 'pull' });
+      const res = await apiRequest('POST', '/api/tally-sync', { syncType: 'push' });
+      const log = await res.json();
       toast({
-        title: "Sync Successful",
-        description: "Successfully synced with Tally ERP",
-        variant: "default",
+        title: log.syncStatus === 'success' ? "Sync Successful" : log.syncStatus === 'partial' ? "Sync Partly Successful" : "Sync Error",
+        description: log.details,
+        variant: log.syncStatus === 'failed' ? "destructive" : "default",
       });
       
-      // In a real app, we would refetch the dashboard data here
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-sync/logs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-sync/job'] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/tally-sync/pending') });
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-sync/conflicts'] });
     } catch (error) {
+      // A sync blocked by unmapped masters is logged too
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-sync/logs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-sync/job'] });
       toast({
         title: "Sync Error",
-        description: "Failed to sync with Tally ERP",
+        description: (error as Error).message,
         variant: "destructive",
       });
       console.error(error);
@@ -59,6 +96,25 @@ const TallySyncStatus = ({ dashboardData, isLoading }: TallySyncStatusProps) =>
     return `Today at ${dateObj.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}`;
   };
 
+  const formatTime = (date: string) =>
+    new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+  const autoSyncText = () => {
+    if (!job) return null;
+    switch (job.status) {
+      case 'running':
+        return 'Sync running...';
+      case 'disabled':
+        return 'Auto-sync is off';
+      case 'backoff':
+        return `Auto-sync retrying ${job.nextRunAt ? `at ${formatTime(job.nextRunAt)}` : 'later'} after ${job.consecutiveFailures} failed ${job.consecutiveFailures === 1 ? 'sync' : 'syncs'}`;
+      default:
+        return `Auto-sync every ${job.intervalMinutes} min${job.nextRunAt && new Date(job.nextRunAt).getTime() > Date.now() ? `, next at ${formatTime(job.nextRunAt)}` : ''}`;
+    }
+  };
+  const running = syncInProgress || job?.status === 'running';
+  const pendingTypes = data.pendingSyncs?.byType.filter((count) => count.total > 0) ?? [];
+
   return (
     <div>
       <h2 className="text-lg font-medium text-neutral-800 mb-3">Tally Sync Status</h2>
@@ -67,17 +123,39 @@ const TallySyncStatus = ({ dashboardData, isLoading }: TallySyncStatusProps) =>
           <div>
             <h3 className="font-medium text-neutral-800">Sync Status</h3>
             <p className="text-sm text-neutral-500 mt-1">Transactions to be synced with Tally</p>
+            {job && (
+              <p className={`text-xs mt-1 ${job.status === 'backoff' ? 'text-red-600' : 'text-neutral-500'}`} title={job.lastError ?? undefined}>
+                {autoSyncText()}
+              </p>
+            )}
           </div>
-          <button 
-            className={`px-3 py-1 ${syncInProgress ? 'bg-neutral-100 text-neutral-400' : 'bg-primary-50 text-primary-600 hover:bg-primary-100'} text-sm font-medium rounded focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2`}
-            onClick={handleSyncNow}
-            disabled={syncInProgress}
-          >
-            {syncInProgress ? 'Syncing...' : 'Sync Now'}
-          </button>
+          {can('sync_tally') && (
+            <button 
+              className={`px-3 py-1 ${running ? 'bg-neutral-100 text-neutral-400' : 'bg-primary-50 text-primary-600 hover:bg-primary-100'} text-sm font-medium rounded focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2`}
+              onClick={handleSyncNow}
+              disabled={running}
+            >
+              {running ? 'Syncing...' : 'Sync Now'}
+            </button>
+          )}
         </div>
         <div className="p-4">
-          {data.recentSyncLog ? (
+          {data.recentSyncLog && data.recentSyncLog.syncStatus !== 'success' ? (
+            <div className="flex items-center justify-between p-3 bg-red-50 border border-red-200 rounded-md mb-3">
+              <div className="flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-red-500 mr-2" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+                <div>
+                  <p className="text-sm font-medium text-red-800">
+                    {data.recentSyncLog.syncStatus === 'partial' ? 'Last sync completed with errors' : 'Last sync failed'}
+                  </p>
+                  <p className="text-xs text-red-700">{data.recentSyncLog.details}</p>
+                </div>
+              </div>
+              <span className="text-xs text-red-700 font-medium whitespace-nowrap ml-2">{formatSyncDate(data.recentSyncLog.syncedAt)}</span>
+            </div>
+          ) : data.recentSyncLog ? (
             <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-md mb-3">
               <div className="flex items-center">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-green-500 mr-2" viewBox="0 0 20 20" fill="currentColor">
@@ -105,43 +183,52 @@ const TallySyncStatus = ({ dashboardData, isLoading }: TallySyncStatusProps) =>
           )}
           
           <div className="space-y-2">
-            {data.pendingSyncs.invoices > 0 && (
-              <div className="flex justify-between p-3 bg-neutral-50 border border-neutral-200 rounded-md">
+            {!!data.pendingSyncs?.modified && (
+              <div className="flex justify-between items-center p-3 bg-blue-50 border border-blue-200 rounded-md">
                 <div>
-                  <p className="text-sm font-medium text-neutral-800">Pending Invoice Sync</p>
-                  <p className="text-xs text-neutral-500">{data.pendingSyncs.invoices} {data.pendingSyncs.invoices === 1 ? 'invoice' : 'invoices'} to be synced</p>
+                  <p className="text-sm font-medium text-blue-800">Changed since sync</p>
+                  <p className="text-xs text-blue-700">
+                    {data.pendingSyncs.modified} {data.pendingSyncs.modified === 1 ? 'document was' : 'documents were'} edited after going to Tally; the next sync updates Tally
+                  </p>
                 </div>
-                <button className="text-xs text-primary-600 hover:text-primary-700 font-medium">
-                  Review & Sync
+                <button className="text-xs text-primary-600 hover:text-primary-700 font-medium" onClick={() => setConflictsOpen(true)}>
+                  Compare
                 </button>
               </div>
             )}
             
-            {data.pendingSyncs.payments > 0 && (
-              <div className="flex justify-between p-3 bg-neutral-50 border border-neutral-200 rounded-md">
-                <div>
-                  <p className="text-sm font-medium text-neutral-800">Pending Payment Sync</p>
-                  <p className="text-xs text-neutral-500">{data.pendingSyncs.payments} {data.pendingSyncs.payments === 1 ? 'payment' : 'payments'} to be synced</p>
+            {pendingTypes.map((count) => {
+              const labels = tallyDocumentLabels[count.transactionType] ?? { singular: 'document', plural: 'documents' };
+              return (
+                <div key={count.transactionType} className="flex justify-between items-center p-3 bg-neutral-50 border border-neutral-200 rounded-md">
+                  <div>
+                    <p className="text-sm font-medium text-neutral-800 capitalize">Pending {labels.singular} sync</p>
+                    <p className="text-xs text-neutral-500">
+                      {count.total} {count.total === 1 ? labels.singular : labels.plural} to be synced
+                      {!count.enabled && ' (switched off in Settings)'}
+                    </p>
+                    {(count.modified > 0 || count.failed > 0 || count.retry > 0) && (
+                      <div className="flex gap-1 mt-1">
+                        {count.modified > 0 && (
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${pendingStateBadges.modified.className}`}>{count.modified} changed</span>
+                        )}
+                        {count.failed > 0 && (
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${pendingStateBadges.failed.className}`}>{count.failed} failed</span>
+                        )}
+                        {count.retry > 0 && (
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${pendingStateBadges.retry.className}`}>{count.retry} to retry</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <button className="text-xs text-primary-600 hover:text-primary-700 font-medium" onClick={() => setReviewType(count.transactionType)}>
+                    Review
+                  </button>
                 </div>
-                <button className="text-xs text-primary-600 hover:text-primary-700 font-medium">
-                  Review & Sync
-                </button>
-              </div>
-            )}
-            
-            {data.pendingSyncs.receipts > 0 && (
-              <div className="flex justify-between p-3 bg-neutral-50 border border-neutral-200 rounded-md">
-                <div>
-                  <p className="text-sm font-medium text-neutral-800">Pending Receipt Sync</p>
-                  <p className="text-xs text-neutral-500">{data.pendingSyncs.receipts} {data.pendingSyncs.receipts === 1 ? 'receipt' : 'receipts'} to be synced</p>
-                </div>
-                <button className="text-xs text-primary-600 hover:text-primary-700 font-medium">
-                  Review & Sync
-                </button>
-              </div>
-            )}
+              );
+            })}
             
-            {data.pendingSyncs.invoices === 0 && data.pendingSyncs.payments === 0 && data.pendingSyncs.receipts === 0 && (
+            {pendingTypes.length === 0 && (
               <div className="flex justify-center p-3 bg-neutral-50 border border-neutral-200 rounded-md">
                 <p className="text-sm text-neutral-500">No pending transactions to sync</p>
               </div>
@@ -149,6 +236,8 @@ const TallySyncStatus = ({ dashboardData, isLoading }: TallySyncStatusProps) =>
           </div>
         </div>
       </div>
+      <TallyPendingDocuments transactionType={reviewType} onClose={() => setReviewType(null)} />
+      <TallySyncConflicts open={conflictsOpen} onClose={() => setConflictsOpen(false)} />
     </div>
   );
 };
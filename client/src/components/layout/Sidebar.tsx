@@ -2,10 +2,20 @@ import { Link, useLocation } from "wouter";
 import { useSidebar } from "@/context/SidebarContext";
 import { cn } from "@/lib/utils";
 import { useState, useEffect } from "react";
+import { LogOut } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 
 const Sidebar = () => {
   const [location] = useLocation();
   const { isSidebarOpen } = useSidebar();
+  const { user, can, logoutMutation } = useAuth();
+  const companyName = user?.companyName ?? "";
+  const initials = companyName
+    .split(/\s+/)
+    .filter((word) => /^[a-z]/i.test(word))
+    .map((word) => word[0].toUpperCase())
+    .slice(0, 2)
+    .join("");
   
   const isActiveLink = (path: string) => {
     return location === path;
@@ -86,152 +96,156 @@ const Sidebar = () => {
         
         <div className="mb-2">
           <p className="text-xs font-medium text-neutral-500 px-3 py-2">TRANSACTIONS</p>
-          <div>
-            <Link href="/sales">
-              <div className={cn("flex items-center px-3 py-2 rounded-md font-medium cursor-pointer",
-                isActiveLink("/sales") || location.startsWith("/sales/")
-                  ? "bg-primary-50 text-primary-600" 
-                  : "text-neutral-700 hover:bg-neutral-100"
-              )}>
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" viewBox="0 0 20 20" fill="currentColor">
-                  <path d="M8.433 7.418c.155-.103.346-.196.567-.267v1.698a2.305 2.305 0 01-.567-.267C8.07 8.34 8 8.114 8 8c0-.114.07-.34.433-.582zM11 12.849v-1.698c.22.071.412.164.567.267.364.243.433.468.433.582 0 .114-.07.34-.433.582a2.305 2.305 0 01-.567.267z" />
-                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-13a1 1 0 10-2 0v.092a4.535 4.535 0 00-1.676.662C6.602 6.234 6 7.009 6 8c0 .99.602 1.765 1.324 2.246.48.32 1.054.545 1.676.662v1.941c-.391-.127-.68-.317-.843-.504a1 1 0 10-1.51 1.31c.562.649 1.413 1.076 2.353 1.253V15a1 1 0 102 0v-.092a4.535 4.535 0 001.676-.662C13.398 13.766 14 12.991 14 12c0-.99-.602-1.765-1.324-2.246A4.535 4.535 0 0011 9.092V7.151c.391.127.68.317.843.504a1 1 0 101.511-1.31c-.563-.649-1.413-1.076-2.354-1.253V5z" clipRule="evenodd" />
-                </svg>
-                Sales
-              </div>
-            </Link>
-            {(isActiveLink("/sales") || location.startsWith("/sales/")) && (
-              <div className="ml-6 mt-2 space-y-1">
-                <Link href="/sales/quotation-requests">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/sales/quotation-requests") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Quotations
-                  </div>
-                </Link>
-                <Link href="/sales/estimates">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/sales/estimates") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Estimates
-                  </div>
-                </Link>
-                <Link href="/sales/orders">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/sales/orders") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Orders
-                  </div>
-                </Link>
-                <Link href="/sales/delivery-notes">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/sales/delivery-notes") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Delivery Notes
-                  </div>
-                </Link>
-                <Link href="/sales/invoices">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/sales/invoices") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Invoices
-                  </div>
-                </Link>
-                <Link href="/sales/returns">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/sales/returns") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Returns & Debit Notes
-                  </div>
-                </Link>
-                <Link href="/sales/receipts">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/sales/receipts") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Receipts
-                  </div>
-                </Link>
-              </div>
-            )}
-          </div>
+          {can("manage_sales") && (
+            <div>
+              <Link href="/sales">
+                <div className={cn("flex items-center px-3 py-2 rounded-md font-medium cursor-pointer",
+                  isActiveLink("/sales") || location.startsWith("/sales/")
+                    ? "bg-primary-50 text-primary-600" 
+                    : "text-neutral-700 hover:bg-neutral-100"
+                )}>
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M8.433 7.418c.155-.103.346-.196.567-.267v1.698a2.305 2.305 0 01-.567-.267C8.07 8.34 8 8.114 8 8c0-.114.07-.34.433-.582zM11 12.849v-1.698c.22.071.412.164.567.267.364.243.433.468.433.582 0 .114-.07.34-.433.582a2.305 2.305 0 01-.567.267z" />
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-13a1 1 0 10-2 0v.092a4.535 4.535 0 00-1.676.662C6.602 6.234 6 7.009 6 8c0 .99.602 1.765 1.324 2.246.48.32 1.054.545 1.676.662v1.941c-.391-.127-.68-.317-.843-.504a1 1 0 10-1.51 1.31c.562.649 1.413 1.076 2.353 1.253V15a1 1 0 102 0v-.092a4.535 4.535 0 001.676-.662C13.398 13.766 14 12.991 14 12c0-.99-.602-1.765-1.324-2.246A4.535 4.535 0 0011 9.092V7.151c.391.127.68.317.843.504a1 1 0 101.511-1.31c-.563-.649-1.413-1.076-2.354-1.253V5z" clipRule="evenodd" />
+                  </svg>
+                  Sales
+                </div>
+              </Link>
+              {(isActiveLink("/sales") || location.startsWith("/sales/")) && (
+                <div className="ml-6 mt-2 space-y-1">
+                  <Link href="/sales/quotation-requests">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/sales/quotation-requests") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Quotations
+                    </div>
+                  </Link>
+                  <Link href="/sales/estimates">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/sales/estimates") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Estimates
+                    </div>
+                  </Link>
+                  <Link href="/sales/orders">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/sales/orders") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Orders
+                    </div>
+                  </Link>
+                  <Link href="/sales/delivery-notes">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/sales/delivery-notes") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Delivery Notes
+                    </div>
+                  </Link>
+                  <Link href="/sales/invoices">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/sales/invoices") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Invoices
+                    </div>
+                  </Link>
+                  <Link href="/sales/returns">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/sales/returns") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Returns & Debit Notes
+                    </div>
+                  </Link>
+                  <Link href="/sales/receipts">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/sales/receipts") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Receipts
+                    </div>
+                  </Link>
+                </div>
+              )}
+            </div>
+          )}
           
-          <div>
-            <Link href="/purchases">
-              <div className={cn("flex items-center px-3 py-2 mt-1 rounded-md font-medium cursor-pointer",
-                isActiveLink("/purchases") || location.startsWith("/purchases/") 
-                  ? "bg-primary-50 text-primary-600" 
-                  : "text-neutral-700 hover:bg-neutral-100"
-              )}>
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" viewBox="0 0 20 20" fill="currentColor">
-                  <path d="M3 1a1 1 0 000 2h1.22l.305 1.222a.997.997 0 00.01.042l1.358 5.43-.893.892C3.74 11.846 4.632 14 6.414 14H15a1 1 0 000-2H6.414l1-1H14a1 1 0 00.894-.553l3-6A1 1 0 0017 3H6.28l-.31-1.243A1 1 0 005 1H3zM16 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zM6.5 18a1.5 1.5 0 100-3 1.5 1.5 0 000 3z" />
-                </svg>
-                Purchase
-              </div>
-            </Link>
-            {(isActiveLink("/purchases") || location.startsWith("/purchases/")) && (
-              <div className="ml-6 mt-2 space-y-1">
-                <Link href="/purchases/quotation-requests">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/purchases/quotation-requests") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Quotations
-                  </div>
-                </Link>
-                <Link href="/purchases/orders">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/purchases/orders") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Orders
-                  </div>
-                </Link>
-                <Link href="/purchases/bills">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/purchases/bills") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Bills
-                  </div>
-                </Link>
-                <Link href="/purchases/payments">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/purchases/payments") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Payments
-                  </div>
-                </Link>
-                <Link href="/purchases/returns">
-                  <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
-                    location.startsWith("/purchases/returns") 
-                      ? "bg-primary-50 text-primary-600 font-medium" 
-                      : "text-neutral-600 hover:bg-neutral-100"
-                  )}>
-                    Returns & Credit Notes
-                  </div>
-                </Link>
-              </div>
-            )}
-          </div>
+          {can("manage_purchases") && (
+            <div>
+              <Link href="/purchases">
+                <div className={cn("flex items-center px-3 py-2 mt-1 rounded-md font-medium cursor-pointer",
+                  isActiveLink("/purchases") || location.startsWith("/purchases/") 
+                    ? "bg-primary-50 text-primary-600" 
+                    : "text-neutral-700 hover:bg-neutral-100"
+                )}>
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M3 1a1 1 0 000 2h1.22l.305 1.222a.997.997 0 00.01.042l1.358 5.43-.893.892C3.74 11.846 4.632 14 6.414 14H15a1 1 0 000-2H6.414l1-1H14a1 1 0 00.894-.553l3-6A1 1 0 0017 3H6.28l-.31-1.243A1 1 0 005 1H3zM16 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zM6.5 18a1.5 1.5 0 100-3 1.5 1.5 0 000 3z" />
+                  </svg>
+                  Purchase
+                </div>
+              </Link>
+              {(isActiveLink("/purchases") || location.startsWith("/purchases/")) && (
+                <div className="ml-6 mt-2 space-y-1">
+                  <Link href="/purchases/quotation-requests">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/purchases/quotation-requests") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Quotations
+                    </div>
+                  </Link>
+                  <Link href="/purchases/orders">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/purchases/orders") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Orders
+                    </div>
+                  </Link>
+                  <Link href="/purchases/bills">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/purchases/bills") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Bills
+                    </div>
+                  </Link>
+                  <Link href="/purchases/payments">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/purchases/payments") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Payments
+                    </div>
+                  </Link>
+                  <Link href="/purchases/returns">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer cursor-pointer",
+                      location.startsWith("/purchases/returns") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      Returns & Credit Notes
+                    </div>
+                  </Link>
+                </div>
+              )}
+            </div>
+          )}
           
           <div>
             <Link href="/reports">
@@ -289,6 +303,28 @@ const Sidebar = () => {
                     BNPL / Invoice Discounting
                   </div>
                 </Link>
+                {can("manage_gst") && (
+                  <Link href="/finance/reconciliation">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer",
+                      location.startsWith("/finance/reconciliation") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      GST Reconciliation
+                    </div>
+                  </Link>
+                )}
+                {can("manage_accounts") && (
+                  <Link href="/finance/ledger">
+                    <div className={cn("flex items-center px-3 py-1.5 text-sm rounded-md cursor-pointer",
+                      location.startsWith("/finance/ledger") 
+                        ? "bg-primary-50 text-primary-600 font-medium" 
+                        : "text-neutral-600 hover:bg-neutral-100"
+                    )}>
+                      General Ledger
+                    </div>
+                  </Link>
+                )}
               </div>
             )}
           </div>
@@ -391,12 +427,20 @@ const Sidebar = () => {
       <div className="p-4 mt-auto border-t border-neutral-200">
         <div className="flex items-center">
           <div className="w-8 h-8 rounded-full bg-primary-100 text-primary-800 flex items-center justify-center font-medium">
-            TS
+            {initials}
           </div>
-          <div className="ml-3">
-            <p className="text-sm font-medium text-neutral-800">Trivedi & Sons</p>
-            <p className="text-xs text-neutral-500">Administrator</p>
+          <div className="ml-3 flex-1 min-w-0">
+            <p className="text-sm font-medium text-neutral-800 truncate">{companyName}</p>
+            <p className="text-xs text-neutral-500 truncate">{user?.username}</p>
           </div>
+          <button
+            type="button"
+            title="Log out"
+            className="p-2 rounded-md text-neutral-500 hover:bg-neutral-100"
+            onClick={() => logoutMutation.mutate()}
+          >
+            <LogOut className="h-4 w-4" />
+          </button>
         </div>
       </div>
     </aside>
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { CompanySettings } from '@shared/schema';
+
+type ToleranceSettings = Pick<CompanySettings, 'billMatchQuantityTolerance' | 'billMatchRateTolerance'>;
+
+// How far a purchase bill may stray from its order and GRNs before it is held from payment
+const BillMatching = () => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ToleranceSettings | null>(null);
+
+  const { data: settings } = useQuery<CompanySettings>({
+    queryKey: ['/api/settings/company'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        billMatchQuantityTolerance: settings.billMatchQuantityTolerance,
+        billMatchRateTolerance: settings.billMatchRateTolerance,
+      });
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ToleranceSettings) => {
+      const res = await apiRequest('PATCH', '/api/settings/company', values);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/company'] });
+      toast({ title: 'Matching tolerances saved', description: 'Bills are checked with them the next time they or their order change' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save tolerances', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!form) return null;
+
+  const canManage = can('manage_settings');
+  const changed = !!settings && (
+    form.billMatchQuantityTolerance !== settings.billMatchQuantityTolerance ||
+    form.billMatchRateTolerance !== settings.billMatchRateTolerance
+  );
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Purchase Bill Matching</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="quantityTolerance">Quantity Tolerance (%)</Label>
+          <Input
+            id="quantityTolerance"
+            type="number"
+            min={0}
+            max={99}
+            step="0.01"
+            value={form.billMatchQuantityTolerance}
+            onChange={(e) => setForm({ ...form, billMatchQuantityTolerance: e.target.value })}
+            disabled={!canManage}
+          />
+          <p className="text-xs text-neutral-500">Billed quantity over what was received and not yet billed</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rateTolerance">Rate Tolerance (%)</Label>
+          <Input
+            id="rateTolerance"
+            type="number"
+            min={0}
+            max={99}
+            step="0.01"
+            value={form.billMatchRateTolerance}
+            onChange={(e) => setForm({ ...form, billMatchRateTolerance: e.target.value })}
+            disabled={!canManage}
+          />
+          <p className="text-xs text-neutral-500">Billed rate above or below the purchase order rate</p>
+        </div>
+      </div>
+
+      {canManage && (
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => saveMutation.mutate(form)} disabled={!changed || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Tolerances'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BillMatching;
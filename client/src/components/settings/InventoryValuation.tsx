@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { CompanySettings } from '@shared/schema';
+
+type ValuationMethod = CompanySettings['valuationMethod'];
+
+const valuationMethodLabels: Record<ValuationMethod, string> = {
+  fifo: 'FIFO (First In, First Out)',
+  weighted_average: 'Weighted Average Cost',
+};
+
+const InventoryValuation = () => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<CompanySettings>({
+    queryKey: ['/api/settings/company'],
+  });
+
+  const updateMethodMutation = useMutation({
+    mutationFn: async (valuationMethod: ValuationMethod) => {
+      const res = await apiRequest('PATCH', '/api/settings/company', { valuationMethod });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/company'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/summary'] });
+      toast({ title: 'Valuation method updated', description: 'Stock values are now calculated with the new method' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update valuation method', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Inventory Valuation</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="valuationMethod">Stock Valuation Method</Label>
+          <Select
+            value={settings?.valuationMethod}
+            onValueChange={(value) => updateMethodMutation.mutate(value as ValuationMethod)}
+            disabled={!settings || !can('manage_settings') || updateMethodMutation.isPending}
+          >
+            <SelectTrigger id="valuationMethod">
+              <SelectValue placeholder="Select method" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(valuationMethodLabels) as ValuationMethod[]).map((method) => (
+                <SelectItem key={method} value={method}>
+                  {valuationMethodLabels[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-neutral-500">
+            Closing stock is valued at cost from purchase rates on GRN and bill lines
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryValuation;
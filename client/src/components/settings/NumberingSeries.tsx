@@ -0,0 +1,311 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { getTransactionTypeLabel, transactionTypeOptions } from '@/lib/utils';
+import { NumberingSeriesSummary } from '@/types';
+
+// GST allows document numbers of at most 16 characters
+const maxNumberLength = 16;
+
+const seriesQueryKey = ['/api/numbering-series'];
+
+interface SeriesForm {
+  transactionType: string;
+  branch: string;
+  prefix: string;
+  suffix: string;
+  padding: string;
+  startNumber: string;
+  resetYearly: boolean;
+}
+
+const emptySeries: SeriesForm = {
+  transactionType: 'sales_invoice',
+  branch: '',
+  prefix: '{FY}/',
+  suffix: '',
+  padding: '4',
+  startNumber: '1',
+  resetYearly: true,
+};
+
+// The current financial year as it appears in numbers, e.g. 25-26
+const currentYear = () => {
+  const today = new Date();
+  const start = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+  return `${String(start % 100).padStart(2, '0')}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+const sampleNumber = (form: SeriesForm) => {
+  const affix = (text: string) => text.trim().replace(/\{FY\}/g, currentYear());
+  return `${affix(form.prefix)}${(form.startNumber || '1').padStart(Number(form.padding) || 1, '0')}${affix(form.suffix)}`;
+};
+
+// How the numbers of each document type are made, company-wide and per branch
+const NumberingSeries = () => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<NumberingSeriesSummary | null>(null);
+  const [form, setForm] = useState<SeriesForm | null>(null);
+
+  const { data: series = [], isLoading } = useQuery<NumberingSeriesSummary[]>({
+    queryKey: seriesQueryKey,
+  });
+
+  const close = () => {
+    setForm(null);
+    setEditing(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: SeriesForm) => {
+      const body = {
+        prefix: values.prefix.trim(),
+        suffix: values.suffix.trim(),
+        padding: Number(values.padding),
+        startNumber: Number(values.startNumber),
+        resetYearly: values.resetYearly,
+      };
+      const res = editing
+        ? await apiRequest('PATCH', `/api/numbering-series/${editing.id}`, body)
+        : await apiRequest('POST', '/api/numbering-series', {
+            ...body,
+            transactionType: values.transactionType,
+            branch: values.branch.trim() || null,
+          });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: seriesQueryKey });
+      toast({ title: 'Numbering series saved', description: 'New documents are numbered from it' });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save series', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/numbering-series/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: seriesQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete series', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openEdit = (entry: NumberingSeriesSummary) => {
+    setEditing(entry);
+    setForm({
+      transactionType: entry.transactionType,
+      branch: entry.branch ?? '',
+      prefix: entry.prefix,
+      suffix: entry.suffix,
+      padding: String(entry.padding),
+      startNumber: String(entry.startNumber),
+      resetYearly: entry.resetYearly,
+    });
+  };
+
+  const canManage = can('manage_settings');
+  const sample = form ? sampleNumber(form) : '';
+  // Numbers are unique across years, so a series that restarts needs the year in them
+  const needsYear = !!form?.resetYearly && !`${form.prefix}${form.suffix}`.includes('{FY}');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-medium">Document Numbering</h3>
+          <p className="text-sm text-neutral-500">
+            Numbers are issued in sequence when a document is saved. Use {'{FY}'} for the financial year; series reset each April unless set to run on.
+          </p>
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={() => setForm(emptySeries)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Series
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="h-12 bg-neutral-100 rounded-md animate-pulse" />
+      ) : series.length === 0 ? (
+        <p className="text-sm text-neutral-500">No series yet; document numbers are typed in by hand.</p>
+      ) : (
+        <div className="border rounded-md overflow-hidden">
+          <table className="min-w-full divide-y divide-neutral-200">
+            <thead className="bg-neutral-50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Document</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Branch</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Next Number</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Restarts</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-neutral-200">
+              {series.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">{getTransactionTypeLabel(entry.transactionType)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">{entry.branch ?? <span className="text-neutral-500">Company-wide</span>}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm font-mono">{entry.nextNumber}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">{entry.resetYearly ? 'Every April' : 'Never'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right">
+                    {canManage && (
+                      <>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" title="Edit series" onClick={() => openEdit(entry)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {!entry.issued && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-red-600"
+                            title="Delete series"
+                            onClick={() => deleteMutation.mutate(entry.id)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && close()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Numbering Series' : 'Add Numbering Series'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'Changes apply to the next number issued. Raising the start number skips ahead; it never goes back.'
+                : 'Leave the branch blank for the series used wherever a branch has none of its own.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Document</Label>
+                <Select
+                  value={form.transactionType}
+                  onValueChange={(value) => setForm({ ...form, transactionType: value })}
+                  disabled={!!editing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {transactionTypeOptions.filter((option) => option.value !== 'all').map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{getTransactionTypeLabel(option.value)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="seriesBranch">Branch</Label>
+                <Input
+                  id="seriesBranch"
+                  value={form.branch}
+                  onChange={(e) => setForm({ ...form, branch: e.target.value })}
+                  placeholder="Company-wide"
+                  disabled={!!editing}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="seriesPrefix">Prefix</Label>
+                <Input id="seriesPrefix" value={form.prefix} onChange={(e) => setForm({ ...form, prefix: e.target.value })} placeholder="INV/{FY}/" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="seriesSuffix">Suffix</Label>
+                <Input id="seriesSuffix" value={form.suffix} onChange={(e) => setForm({ ...form, suffix: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="seriesPadding">Digits</Label>
+                <Input
+                  id="seriesPadding"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={form.padding}
+                  onChange={(e) => setForm({ ...form, padding: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="seriesStart">Start Number</Label>
+                <Input
+                  id="seriesStart"
+                  type="number"
+                  min={1}
+                  value={form.startNumber}
+                  onChange={(e) => setForm({ ...form, startNumber: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2 flex items-center justify-between">
+                <Label htmlFor="seriesReset" className="cursor-pointer">Restart every financial year (April to March)</Label>
+                <Switch id="seriesReset" checked={form.resetYearly} onCheckedChange={(checked) => setForm({ ...form, resetYearly: checked })} />
+              </div>
+              {needsYear && (
+                <p className="col-span-2 text-sm text-red-600">
+                  Put {'{FY}'} in the prefix or suffix, or each April the series would repeat last year's numbers.
+                </p>
+              )}
+              <div className="col-span-2 text-sm">
+                Numbers look like <span className="font-mono">{sample}</span>
+                {sample.length > maxNumberLength && (
+                  <p className="text-red-600">That is {sample.length} characters; GST allows at most {maxNumberLength}.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={close}>Cancel</Button>
+            <Button
+              onClick={() => form && saveMutation.mutate(form)}
+              disabled={!form || sample.length > maxNumberLength || needsYear || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Series'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default NumberingSeries;
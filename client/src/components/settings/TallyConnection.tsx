@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowDownToLine, ArrowUpFromLine, PlugZap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { CompanySettings, TallySyncLog } from '@shared/schema';
+
+// Where Tally listens, and buttons to push or pull right away
+const TallyConnection = () => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tallyUrl, setTallyUrl] = useState('');
+  const [tallyCompanyName, setTallyCompanyName] = useState('');
+
+  const { data: settings } = useQuery<CompanySettings>({
+    queryKey: ['/api/settings/company'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setTallyUrl(settings.tallyUrl);
+      setTallyCompanyName(settings.tallyCompanyName ?? '');
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PATCH', '/api/settings/company', {
+        tallyUrl: tallyUrl.trim(),
+        tallyCompanyName: tallyCompanyName.trim() || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/company'] });
+      toast({ title: 'Tally connection saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save Tally connection', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/tally-sync/test');
+      return res.json() as Promise<{ message: string }>;
+    },
+    onSuccess: ({ message }) => {
+      toast({ title: 'Connected to Tally', description: message });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not connect to Tally', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async (syncType: 'push' | 'pull') => {
+      const res = await apiRequest('POST', '/api/tally-sync', { syncType });
+      return res.json() as Promise<TallySyncLog>;
+    },
+    onSuccess: (log) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-sync/logs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/parties'] });
+      toast({
+        title: log.syncStatus === 'success' ? 'Sync complete' : log.syncStatus === 'partial' ? 'Sync partly complete' : 'Sync failed',
+        description: log.details ?? undefined,
+        variant: log.syncStatus === 'failed' ? 'destructive' : 'default',
+      });
+    },
+    onError: (error: Error) => {
+      // A push blocked by unmapped masters is logged, and the mappings show what blocked it
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-sync/logs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-mappings/masters'] });
+      toast({ title: 'Sync failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const canManage = can('manage_settings');
+  const canSync = can('sync_tally');
+  const changed = !!settings && (tallyUrl.trim() !== settings.tallyUrl || (tallyCompanyName.trim() || null) !== settings.tallyCompanyName);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Tally Connection</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="tallyUrl">Tally Server URL</Label>
+          <Input
+            id="tallyUrl"
+            value={tallyUrl}
+            onChange={(e) => setTallyUrl(e.target.value)}
+            placeholder="http://localhost:9000"
+            disabled={!canManage}
+          />
+          <p className="text-xs text-neutral-500">
+            Enable Tally's XML server (F1: Help &gt; Settings &gt; Connectivity) and enter the machine and port it listens on
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="tallyCompanyName">Company Name in Tally</Label>
+          <Input
+            id="tallyCompanyName"
+            value={tallyCompanyName}
+            onChange={(e) => setTallyCompanyName(e.target.value)}
+            placeholder="The company loaded in Tally"
+            disabled={!canManage}
+          />
+          <p className="text-xs text-neutral-500">
+            Only needed when more than one company is open in Tally
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {canManage && (
+          <Button onClick={() => saveMutation.mutate()} disabled={!changed || !tallyUrl.trim() || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Connection'}
+          </Button>
+        )}
+        {canSync && (
+          <>
+            <Button variant="outline" onClick={() => testMutation.mutate()} disabled={changed || testMutation.isPending}>
+              <PlugZap className="h-4 w-4 mr-2" />
+              {testMutation.isPending ? 'Testing...' : 'Test Connection'}
+            </Button>
+            <Button variant="outline" onClick={() => syncMutation.mutate('push')} disabled={changed || syncMutation.isPending}>
+              <ArrowUpFromLine className="h-4 w-4 mr-2" />
+              Push to Tally
+            </Button>
+            <Button variant="outline" onClick={() => syncMutation.mutate('pull')} disabled={changed || syncMutation.isPending}>
+              <ArrowDownToLine className="h-4 w-4 mr-2" />
+              Pull from Tally
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TallyConnection;
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { TallyMapping } from '@shared/schema';
+
+interface TallyMasterStatus {
+  mappingType: TallyMapping['mappingType'];
+  sourceKey: string;
+  label: string;
+  mapping: TallyMapping | null;
+  suggestion: string | null;
+  required: boolean;
+}
+
+interface TallyMasterList {
+  masters: TallyMasterStatus[];
+  tallyError: string | null;
+}
+
+const mappingSections: { type: TallyMapping['mappingType']; title: string; hint: string }[] = [
+  { type: 'voucher_type', title: 'Voucher Types', hint: 'The Tally voucher type each document is posted as' },
+  { type: 'ledger', title: 'Ledgers', hint: 'Sales and purchase ledgers by GST rate and supply, tax ledgers, cash, bank and round-off' },
+  { type: 'party', title: 'Parties', hint: 'Party ledgers under Sundry Debtors or Sundry Creditors' },
+  { type: 'item', title: 'Stock Items', hint: 'Stock items on item invoices' },
+];
+
+const mastersQueryKey = ['/api/tally-mappings/masters'];
+
+const MappingRow = ({ master, canManage }: { master: TallyMasterStatus; canManage: boolean }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tallyName, setTallyName] = useState('');
+
+  useEffect(() => {
+    setTallyName(master.mapping?.tallyName ?? '');
+  }, [master.mapping?.tallyName]);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: mastersQueryKey });
+  };
+  const onError = (error: Error) => {
+    toast({ title: 'Could not save mapping', description: error.message, variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest('POST', '/api/tally-mappings', {
+        mappingType: master.mappingType,
+        sourceKey: master.sourceKey,
+        tallyName: name,
+      });
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/tally-mappings/${id}`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const changed = tallyName.trim() !== (master.mapping?.tallyName ?? '');
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_1.5fr] gap-2 items-center px-3 py-2">
+      <div className="text-sm">
+        <span className="font-medium">{master.label}</span>
+        {master.required && !master.mapping && (
+          <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">Blocking sync</span>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="h-8 flex-1 min-w-[12rem]"
+          value={tallyName}
+          onChange={(e) => setTallyName(e.target.value)}
+          placeholder={master.suggestion ?? 'Name in Tally'}
+          disabled={!canManage}
+        />
+        {canManage && changed && tallyName.trim() && (
+          <Button size="sm" onClick={() => saveMutation.mutate(tallyName.trim())} disabled={saveMutation.isPending}>
+            Save
+          </Button>
+        )}
+        {canManage && !master.mapping && master.suggestion && (
+          <Button size="sm" variant="outline" onClick={() => saveMutation.mutate(master.suggestion!)} disabled={saveMutation.isPending}>
+            <Sparkles className="h-3 w-3 mr-1" />
+            Use "{master.suggestion}"
+          </Button>
+        )}
+        {canManage && master.mapping && !changed && (
+          <Button size="icon" variant="ghost" className="h-8 w-8" title="Remove mapping" onClick={() => deleteMutation.mutate(master.mapping!.id)} disabled={deleteMutation.isPending}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// What each party, item, voucher type and ledger role is called in the company's Tally
+const TallyMappings = () => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [unmappedOnly, setUnmappedOnly] = useState(false);
+
+  const { data, isLoading } = useQuery<TallyMasterList>({
+    queryKey: mastersQueryKey,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/tally-mappings/accept-suggestions');
+      return res.json() as Promise<TallyMapping[]>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: mastersQueryKey });
+      toast({ title: `Mapped ${saved.length} ${saved.length === 1 ? 'master' : 'masters'} from suggestions` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not accept suggestions', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const canManage = can('manage_settings');
+  const masters = data?.masters ?? [];
+  const blocking = masters.filter((master) => master.required && !master.mapping).length;
+  const suggestions = masters.filter((master) => !master.mapping && master.suggestion).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-medium">Tally Mappings</h3>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="unmappedOnly" checked={unmappedOnly} onCheckedChange={setUnmappedOnly} />
+            <Label htmlFor="unmappedOnly" className="cursor-pointer">Unmapped only</Label>
+          </div>
+          {canManage && (
+            <Button variant="outline" onClick={() => acceptMutation.mutate()} disabled={suggestions === 0 || acceptMutation.isPending}>
+              <Sparkles className="h-4 w-4 mr-2" />
+              Accept all suggestions ({suggestions})
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {blocking > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {blocking} {blocking === 1 ? 'master is' : 'masters are'} used by documents waiting to be pushed but not mapped. Sync is blocked until they are.
+        </div>
+      )}
+      {data?.tallyError && (
+        <p className="text-sm text-neutral-500">No suggestions, since Tally could not be reached: {data.tallyError}</p>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          {Array(3).fill(null).map((_, i) => (
+            <div key={i} className="bg-neutral-100 h-12 rounded-md"></div>
+          ))}
+        </div>
+      ) : (
+        mappingSections.map((section) => {
+          const rows = masters.filter((master) => master.mappingType === section.type && (!unmappedOnly || !master.mapping));
+          if (rows.length === 0) return null;
+          return (
+            <div key={section.type} className="space-y-2">
+              <div>
+                <h4 className="font-medium">{section.title}</h4>
+                <p className="text-xs text-neutral-500">{section.hint}</p>
+              </div>
+              <div className="divide-y divide-neutral-200 border rounded-md bg-white">
+                {rows.map((master) => (
+                  <MappingRow key={`${master.mappingType}:${master.sourceKey}`} master={master} canManage={canManage} />
+                ))}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default TallyMappings;
@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import { TallySyncEntry } from '@shared/schema';
+
+const entryStatusColors: Record<string, string> = {
+  created: 'bg-green-100 text-green-800',
+  altered: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-amber-100 text-amber-800',
+  skipped: 'bg-neutral-100 text-neutral-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// What happened to each voucher and ledger in one sync, failures first
+const TallySyncEntries = ({ logId }: { logId: number }) => {
+  const { data: entries, isLoading } = useQuery<TallySyncEntry[]>({
+    queryKey: [`/api/tally-sync/logs/${logId}/entries`],
+  });
+
+  if (isLoading) {
+    return <div className="h-8 bg-neutral-100 rounded-md animate-pulse"></div>;
+  }
+
+  if (!entries || entries.length === 0) {
+    return <p className="text-sm text-neutral-500">Nothing was sent or received in this sync.</p>;
+  }
+
+  const sorted = [...entries].sort((a, b) => Number(b.status === 'failed') - Number(a.status === 'failed'));
+
+  return (
+    <div className="divide-y divide-neutral-200 border rounded-md bg-white">
+      {sorted.map((entry) => (
+        <div key={entry.id} className="px-3 py-2 flex items-start justify-between gap-4 text-sm">
+          <div>
+            <span className="font-medium">{entry.name}</span>
+            <span className="text-neutral-500 ml-2">
+              {entry.objectType === 'ledger' ? 'Ledger' : entry.voucherType ?? 'Voucher'}
+            </span>
+            {entry.message && <p className="text-neutral-500">{entry.message}</p>}
+          </div>
+          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full capitalize ${entryStatusColors[entry.status] ?? entryStatusColors.skipped}`}>
+            {entry.status}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TallySyncEntries;
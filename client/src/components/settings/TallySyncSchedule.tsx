@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { CompanySettings } from '@shared/schema';
+
+type ScheduleSettings = Pick<CompanySettings,
+  'tallyAutoSync' | 'tallySyncIntervalMinutes' | 'tallySyncBatchSize' | 'tallySyncSales'
+  | 'tallySyncPurchases' | 'tallySyncPayments' | 'tallySyncReceipts' | 'tallySyncItems'>;
+
+const documentSwitches: { key: keyof ScheduleSettings; label: string }[] = [
+  { key: 'tallySyncSales', label: 'Sync Sales' },
+  { key: 'tallySyncPurchases', label: 'Sync Purchases' },
+  { key: 'tallySyncPayments', label: 'Sync Payments' },
+  { key: 'tallySyncReceipts', label: 'Sync Receipts' },
+  { key: 'tallySyncItems', label: 'Sync Inventory Items' },
+];
+
+// How often the server pushes to Tally on its own, and what every push sends
+const TallySyncSchedule = () => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ScheduleSettings | null>(null);
+
+  const { data: settings } = useQuery<CompanySettings>({
+    queryKey: ['/api/settings/company'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        tallyAutoSync: settings.tallyAutoSync,
+        tallySyncIntervalMinutes: settings.tallySyncIntervalMinutes,
+        tallySyncBatchSize: settings.tallySyncBatchSize,
+        tallySyncSales: settings.tallySyncSales,
+        tallySyncPurchases: settings.tallySyncPurchases,
+        tallySyncPayments: settings.tallySyncPayments,
+        tallySyncReceipts: settings.tallySyncReceipts,
+        tallySyncItems: settings.tallySyncItems,
+      });
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ScheduleSettings) => {
+      const res = await apiRequest('PATCH', '/api/settings/company', values);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/company'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-sync/job'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tally-mappings/masters'] });
+      toast({ title: 'Sync settings saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save sync settings', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!form) {
+    return <div className="h-40 bg-neutral-100 rounded-md animate-pulse"></div>;
+  }
+
+  const canManage = can('manage_settings');
+  const update = (values: Partial<ScheduleSettings>) => setForm({ ...form, ...values });
+  const changed = !!settings && (Object.keys(form) as (keyof ScheduleSettings)[]).some((key) => form[key] !== settings[key]);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Tally Integration Settings</h3>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="autoSync" className="cursor-pointer">Auto-sync with Tally</Label>
+          <p className="text-xs text-neutral-500">Push new documents in the background; waits longer after failed syncs</p>
+        </div>
+        <Switch id="autoSync" checked={form.tallyAutoSync} onCheckedChange={(checked) => update({ tallyAutoSync: checked })} disabled={!canManage} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="syncInterval">Sync Interval (minutes)</Label>
+          <Input
+            id="syncInterval"
+            type="number"
+            min={5}
+            max={1440}
+            value={form.tallySyncIntervalMinutes}
+            onChange={(e) => update({ tallySyncIntervalMinutes: Number(e.target.value) })}
+            disabled={!canManage}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="maxTransactions">Max Transactions per Sync</Label>
+          <Input
+            id="maxTransactions"
+            type="number"
+            min={1}
+            max={1000}
+            value={form.tallySyncBatchSize}
+            onChange={(e) => update({ tallySyncBatchSize: Number(e.target.value) })}
+            disabled={!canManage}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {documentSwitches.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between">
+            <Label htmlFor={key} className="cursor-pointer">{label}</Label>
+            <Switch id={key} checked={!!form[key]} onCheckedChange={(checked) => update({ [key]: checked })} disabled={!canManage} />
+          </div>
+        ))}
+        <p className="text-xs text-neutral-500">
+          These apply to Sync Now too. Without inventory items, invoices are posted to Tally in accounting mode.
+        </p>
+      </div>
+
+      {canManage && (
+        <div className="flex justify-end">
+          <Button onClick={() => saveMutation.mutate(form)} disabled={!changed || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Sync Settings'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TallySyncSchedule;
@@ -0,0 +1,419 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth, AuthUser } from '@/hooks/use-auth';
+import { NumberingSeriesSummary } from '@/types';
+import {
+  Permission,
+  Role,
+  permissions,
+  permissionLabels,
+  roles,
+  roleLabels,
+} from '@shared/permissions';
+
+type TeamMember = Omit<AuthUser, 'permissions'>;
+
+interface RolePermissions {
+  role: Role;
+  permissions: Permission[];
+}
+
+const roleBadgeClasses: Record<Role, string> = {
+  admin: 'bg-purple-100 text-purple-800',
+  accountant: 'bg-blue-100 text-blue-800',
+  sales: 'bg-green-100 text-green-800',
+  purchase: 'bg-amber-100 text-amber-800',
+};
+
+const emptyMember = { username: '', password: '', email: '', role: 'sales' as Role, branch: null as string | null };
+
+// Select items need a value, so company-wide stands in for no branch
+const companyWide = 'company';
+
+const getInitials = (name: string) =>
+  name
+    .split(/[\s._-]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase())
+    .slice(0, 2)
+    .join('');
+
+const UsersPermissions = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [newMember, setNewMember] = useState(emptyMember);
+  const [matrix, setMatrix] = useState<RolePermissions[]>([]);
+
+  const { data: members = [], isLoading: membersLoading } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team-members'],
+  });
+
+  const { data: savedRoles } = useQuery<RolePermissions[]>({
+    queryKey: ['/api/roles'],
+  });
+
+  // A login's branch picks the numbering series its documents take, so the branches are those with series
+  const { data: series = [] } = useQuery<NumberingSeriesSummary[]>({
+    queryKey: ['/api/numbering-series'],
+  });
+  const branches = Array.from(new Set(series.map((entry) => entry.branch).filter((branch): branch is string => !!branch))).sort();
+
+  useEffect(() => {
+    if (savedRoles) {
+      setMatrix(savedRoles);
+    }
+  }, [savedRoles]);
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (member: typeof emptyMember) => {
+      const res = await apiRequest('POST', '/api/team-members', {
+        ...member,
+        email: member.email || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/team-members'] });
+      setIsAddOpen(false);
+      setNewMember(emptyMember);
+      toast({ title: 'User added', description: 'The new user can now sign in' });
+    },
+    onError: showError('Could not add user'),
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: number; role?: Role; branch?: string | null; isActive?: boolean }) => {
+      const res = await apiRequest('PATCH', `/api/team-members/${id}`, updates);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/team-members'] });
+    },
+    onError: showError('Could not update user'),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/team-members/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/team-members'] });
+    },
+    onError: showError('Could not remove user'),
+  });
+
+  const saveRolesMutation = useMutation({
+    mutationFn: async (rolePermissions: RolePermissions[]) => {
+      for (const { role, permissions } of rolePermissions) {
+        if (role !== 'admin') {
+          await apiRequest('PUT', `/api/roles/${role}`, { permissions });
+        }
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+      toast({ title: 'Permissions saved', description: 'Role permissions have been updated' });
+    },
+    onError: showError('Could not save permissions'),
+  });
+
+  const togglePermission = (role: Role, permission: Permission, enabled: boolean) => {
+    setMatrix((current) =>
+      current.map((entry) =>
+        entry.role !== role
+          ? entry
+          : {
+              ...entry,
+              permissions: enabled
+                ? [...entry.permissions, permission]
+                : entry.permissions.filter((p) => p !== permission),
+            }
+      )
+    );
+  };
+
+  const isGranted = (role: Role, permission: Permission) =>
+    !!matrix.find((entry) => entry.role === role)?.permissions.includes(permission);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium">User Management</h3>
+
+        <div className="border rounded-md overflow-hidden">
+          <table className="min-w-full divide-y divide-neutral-200">
+            <thead className="bg-neutral-50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">User</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Email</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Role</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Branch</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Status</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-neutral-200">
+              {membersLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-4 text-sm text-neutral-500 text-center">Loading users...</td>
+                </tr>
+              ) : (
+                members.map((member) => {
+                  const role = (member.role ?? 'admin') as Role;
+                  const isOwner = member.ownerId === null;
+                  const isSelf = member.id === user?.id;
+
+                  return (
+                    <tr key={member.id} className="hover:bg-neutral-50">
+                      <td className="px-4 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="flex-shrink-0 h-8 w-8 rounded-full bg-neutral-100 text-neutral-800 flex items-center justify-center font-medium">
+                            {getInitials(member.username)}
+                          </div>
+                          <div className="ml-3">
+                            <div className="text-sm font-medium text-gray-900">{member.username}</div>
+                            {isOwner && <div className="text-xs text-neutral-500">Company owner</div>}
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {member.email || '-'}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm">
+                        {isOwner ? (
+                          <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${roleBadgeClasses[role]}`}>
+                            {roleLabels[role]}
+                          </span>
+                        ) : (
+                          <Select
+                            value={role}
+                            onValueChange={(value) => updateMemberMutation.mutate({ id: member.id, role: value as Role })}
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {roles.map((r) => (
+                                <SelectItem key={r} value={r}>{roleLabels[r]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm">
+                        {isOwner || (branches.length === 0 && !member.branch) ? (
+                          <span className="text-neutral-500">{member.branch ?? 'Company-wide'}</span>
+                        ) : (
+                          <Select
+                            value={member.branch ?? companyWide}
+                            onValueChange={(value) => updateMemberMutation.mutate({ id: member.id, branch: value === companyWide ? null : value })}
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={companyWide}>Company-wide</SelectItem>
+                              {Array.from(new Set([...branches, ...(member.branch ? [member.branch] : [])])).map((branch) => (
+                                <SelectItem key={branch} value={branch}>{branch}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm">
+                        <span
+                          className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                            member.isActive === false ? 'bg-neutral-100 text-neutral-600' : 'bg-green-100 text-green-800'
+                          }`}
+                        >
+                          {member.isActive === false ? 'Inactive' : 'Active'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {!isOwner && !isSelf && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateMemberMutation.mutate({ id: member.id, isActive: member.isActive === false })}
+                            >
+                              {member.isActive === false ? 'Activate' : 'Deactivate'}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600"
+                              onClick={() => removeMemberMutation.mutate(member.id)}
+                            >
+                              Remove
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={() => setIsAddOpen(true)}>Add User</Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium">Role Permissions</h3>
+
+        <div className="border rounded-md overflow-hidden">
+          <table className="min-w-full divide-y divide-neutral-200">
+            <thead className="bg-neutral-50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Permission</th>
+                {roles.map((role) => (
+                  <th key={role} scope="col" className="px-4 py-3 text-center text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                    {roleLabels[role]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-neutral-200">
+              {permissions.map((permission) => (
+                <tr key={permission} className="hover:bg-neutral-50">
+                  <td className="px-4 py-3 text-sm">{permissionLabels[permission]}</td>
+                  {roles.map((role) => (
+                    <td key={role} className="px-4 py-3 text-center">
+                      <Switch
+                        checked={isGranted(role, permission)}
+                        disabled={role === 'admin'}
+                        onCheckedChange={(checked) => togglePermission(role, permission, checked)}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={() => saveRolesMutation.mutate(matrix)} disabled={saveRolesMutation.isPending}>
+          {saveRolesMutation.isPending ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </div>
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+            <DialogDescription>Give a team member access to this company</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="memberUsername">Username</Label>
+              <Input
+                id="memberUsername"
+                value={newMember.username}
+                onChange={(e) => setNewMember({ ...newMember, username: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="memberPassword">Password</Label>
+              <Input
+                id="memberPassword"
+                type="password"
+                value={newMember.password}
+                onChange={(e) => setNewMember({ ...newMember, password: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="memberEmail">Email</Label>
+              <Input
+                id="memberEmail"
+                type="email"
+                value={newMember.email}
+                onChange={(e) => setNewMember({ ...newMember, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={newMember.role}
+                onValueChange={(value) => setNewMember({ ...newMember, role: value as Role })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((role) => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {branches.length > 0 && (
+              <div className="space-y-2">
+                <Label>Branch</Label>
+                <Select
+                  value={newMember.branch ?? companyWide}
+                  onValueChange={(value) => setNewMember({ ...newMember, branch: value === companyWide ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={companyWide}>Company-wide</SelectItem>
+                    {branches.map((branch) => (
+                      <SelectItem key={branch} value={branch}>{branch}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-neutral-500">Documents this user raises are numbered from the branch's series</p>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => addMemberMutation.mutate(newMember)}
+              disabled={!newMember.username || !newMember.password || addMemberMutation.isPending}
+            >
+              {addMemberMutation.isPending ? 'Adding...' : 'Add User'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default UsersPermissions;
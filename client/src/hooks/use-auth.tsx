@@ -0,0 +1,79 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { User } from "@shared/schema";
+import { Permission } from "@shared/permissions";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// The API never returns the password hash, and adds the permissions granted by the user's role
+export type AuthUser = Omit<User, "password"> & { permissions: Permission[] };
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  can: (permission: Permission) => boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(["/api/me"], loggedInUser);
+    },
+    onError: () => {
+      toast({
+        title: "Login failed",
+        description: "Invalid username or password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop every cached query so the next tenant never sees stale data
+      queryClient.clear();
+      queryClient.setQueryData(["/api/me"], null);
+    },
+  });
+
+  // Only hides UI; the API enforces the same permissions
+  const can = (permission: Permission) => !!user?.permissions?.includes(permission);
+
+  return (
+    <AuthContext.Provider
+      value={{ user: user ?? null, isLoading, can, loginMutation, logoutMutation }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
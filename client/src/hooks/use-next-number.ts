@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { NextDocumentNumber } from '@/types';
+
+// The number a new document of the type would get from its numbering series, to fill a form in with;
+// null when the type has no series. The document's date picks the financial year. The series issues
+// the actual number when the document is saved, so forms open side by side never end up with the same one.
+export function useNextNumber(transactionType: string | null | undefined, date?: Date | null) {
+  const day = date ? `&date=${format(date, 'yyyy-MM-dd')}` : '';
+  return useQuery<NextDocumentNumber | null>({
+    queryKey: [`/api/numbering-series/next?transactionType=${transactionType}${day}`],
+    enabled: !!transactionType,
+    staleTime: 0, // Another document may have taken it since
+  });
+}
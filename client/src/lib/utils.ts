@@ -65,6 +65,7 @@ export function getStatusColor(status: string): string {
       
     // Blue Statuses - Partial completion
     case "partially_paid":
+    case "partially_delivered":
     case "partially_billed":
     case "partially_received":
     case "partially_adjusted":
@@ -107,6 +108,8 @@ export function getTransactionTypeLabel(type: string): string {
       return "Estimate";
     case "delivery_note":
       return "Delivery Note";
+    case "sales_return":
+      return "Sales Return";
       
     // Purchase transactions
     case "purchase_bill":
@@ -162,6 +165,7 @@ export const transactionTypeOptions = [
   { label: "Quotations", value: "quotation" },
   { label: "Quotation Requests", value: "quotation_request" },
   { label: "Delivery Notes", value: "delivery_note" },
+  { label: "Sales Returns", value: "sales_return" },
   { label: "Receipts", value: "receipt" },
   { label: "Debit Notes", value: "debit_note" },
   
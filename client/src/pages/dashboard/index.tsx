@@ -7,6 +7,7 @@ import AgeingAnalysis from '@/components/dashboard/AgeingAnalysis';
 import RecentTransactions from '@/components/dashboard/RecentTransactions';
 import BNPLStatus from '@/components/dashboard/BNPLStatus';
 import TallySyncStatus from '@/components/dashboard/TallySyncStatus';
+import EwayBillAlerts from '@/components/dashboard/EwayBillAlerts';
 import { periodOptions } from '@/lib/utils';
 
 const Dashboard = () => {
@@ -70,6 +71,7 @@ const Dashboard = () => {
         </div>
       ) : (
         <>
+          <EwayBillAlerts dashboardData={data} isLoading={isLoading} />
           <StatsSummary dashboardData={data} isLoading={isLoading} />
           <QuickActions />
           <AgeingAnalysis dashboardData={data} isLoading={isLoading} />
@@ -13,6 +13,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ArrowUpRight, ArrowDownRight, RefreshCcw } from 'lucide-react';
 import { Transaction } from '@shared/schema';
 import { formatCurrency } from '@/lib/utils';
+import { TallyPendingDocument } from '@/types';
 
 const Finance = () => {
   const [activeTab, setActiveTab] = useState('overview');
@@ -45,6 +46,23 @@ const Finance = () => {
     enabled: activeTab === 'overview',
   });
   
+  const { data: pendingDocuments, isLoading: isPendingLoading } = useQuery<TallyPendingDocument[]>({
+    queryKey: ['/api/tally-sync/pending'],
+    enabled: activeTab === 'overview',
+  });
+  
+  const syncBadge = (transactionType: string) => {
+    if (isPendingLoading) return <span className="px-2 py-1 bg-neutral-100 text-neutral-600 rounded text-xs">...</span>;
+    const waiting = pendingDocuments?.filter((document) => document.transactionType === transactionType) ?? [];
+    if (waiting.length === 0) return <span className="px-2 py-1 bg-green-100 text-green-800 rounded text-xs">Synced</span>;
+    const failed = waiting.filter((document) => document.state === 'failed').length;
+    return (
+      <span className={`px-2 py-1 rounded text-xs ${failed > 0 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+        {waiting.length} Pending{failed > 0 ? `, ${failed} failed` : ''}
+      </span>
+    );
+  };
+  
   return (
     <div className="p-4 md:p-6 max-w-7xl mx-auto">
       <div className="flex justify-between items-center mb-6">
@@ -247,21 +265,11 @@ const Finance = () => {
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
                   <span>Payment Transactions</span>
-                  <span className="px-2 py-1 bg-green-100 text-green-800 rounded text-xs">
-                    {isSyncLoading ? '...' : 'Synced'}
-                  </span>
+                  {syncBadge('payment')}
                 </div>
                 <div className="flex justify-between items-center">
                   <span>Receipt Transactions</span>
-                  <span className="px-2 py-1 bg-green-100 text-green-800 rounded text-xs">
-                    {isSyncLoading ? '...' : 'Synced'}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span>Open Payments</span>
-                  <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded text-xs">
-                    {isSyncLoading ? '...' : '2 Pending'}
-                  </span>
+                  {syncBadge('receipt')}
                 </div>
                 <div className="pt-4">
                   <Button className="w-full" variant="outline">Sync Now</Button>
@@ -0,0 +1,496 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Plus, Trash2, Undo2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { Account, Party } from '@shared/schema';
+import { accountGroupNames, isDebitNature } from '@shared/ledger';
+import { JournalEntryWithLines } from '@/types';
+
+const accountsQueryKey = ['/api/accounts'];
+const journalsQueryKey = ['/api/journal-entries'];
+
+interface VoucherLine {
+  accountId: string;
+  partyId: string;
+  debit: string;
+  credit: string;
+}
+
+const emptyLine: VoucherLine = { accountId: '', partyId: '', debit: '', credit: '' };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Debtor and creditor control accounts are kept per party
+const isPartyAccount = (account?: Account) =>
+  account?.systemKey === 'sundry_debtors' || account?.systemKey === 'sundry_creditors';
+
+const lineTotal = (lines: VoucherLine[], side: 'debit' | 'credit') =>
+  lines.reduce((total, line) => total + (parseFloat(line[side]) || 0), 0);
+
+export default function GeneralLedger() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [voucherOpen, setVoucherOpen] = useState(false);
+  const [voucherNumber, setVoucherNumber] = useState('');
+  const [entryDate, setEntryDate] = useState(today());
+  const [narration, setNarration] = useState('');
+  const [lines, setLines] = useState<VoucherLine[]>([emptyLine, emptyLine]);
+  const [newAccount, setNewAccount] = useState<{ name: string; groupName: string } | null>(null);
+
+  const { data: accounts = [], isLoading: accountsLoading } = useQuery<Account[]>({
+    queryKey: accountsQueryKey,
+  });
+
+  const { data: entries = [], isLoading: entriesLoading } = useQuery<JournalEntryWithLines[]>({
+    queryKey: journalsQueryKey,
+  });
+
+  const { data: parties = [] } = useQuery<Party[]>({
+    queryKey: ['/api/parties'],
+  });
+
+  const accountById = new Map(accounts.map((account) => [account.id, account]));
+  const partyById = new Map(parties.map((party) => [party.id, party]));
+  const reversedIds = new Set(entries.map((entry) => entry.reversedEntryId).filter((id) => id !== null));
+
+  const invalidateLedger = () => {
+    queryClient.invalidateQueries({ queryKey: journalsQueryKey });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/ledger/') });
+  };
+
+  const closeVoucher = () => {
+    setVoucherOpen(false);
+    setVoucherNumber('');
+    setEntryDate(today());
+    setNarration('');
+    setLines([emptyLine, emptyLine]);
+  };
+
+  const voucherMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/journal-entries', {
+        voucherNumber: voucherNumber.trim() || undefined,
+        entryDate,
+        narration: narration.trim() || null,
+        lines: lines.map((line) => ({
+          accountId: Number(line.accountId),
+          partyId: line.partyId ? Number(line.partyId) : null,
+          debit: parseFloat(line.debit) || 0,
+          credit: parseFloat(line.credit) || 0,
+        })),
+      });
+      return res.json() as Promise<JournalEntryWithLines>;
+    },
+    onSuccess: (entry) => {
+      invalidateLedger();
+      toast({ title: 'Journal voucher posted', description: `${entry.voucherNumber} is in the ledger` });
+      closeVoucher();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not post voucher', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/journal-entries/${id}/reverse`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      toast({ title: 'Journal voucher reversed' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not reverse voucher', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const createAccountMutation = useMutation({
+    mutationFn: async (values: { name: string; groupName: string }) => {
+      const res = await apiRequest('POST', '/api/accounts', { name: values.name.trim(), groupName: values.groupName });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: accountsQueryKey });
+      setNewAccount(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not add account', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleAccountMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const res = await apiRequest('PATCH', `/api/accounts/${id}`, { isActive });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: accountsQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update account', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateLine = (index: number, changes: Partial<VoucherLine>) =>
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const totalDebit = lineTotal(lines, 'debit');
+  const totalCredit = lineTotal(lines, 'credit');
+  const voucherReady = totalDebit > 0
+    && Math.abs(totalDebit - totalCredit) < 0.005
+    && lines.every((line) => line.accountId && (!isPartyAccount(accountById.get(Number(line.accountId))) || line.partyId));
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-neutral-800">General Ledger</h1>
+          <p className="text-sm text-neutral-500">Journal entries posted from documents and by hand, and the accounts they post to</p>
+        </div>
+        <Link href="/finance">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Finance
+          </Button>
+        </Link>
+      </div>
+
+      <Tabs defaultValue="journal">
+        <TabsList className="mb-4">
+          <TabsTrigger value="journal">Journal</TabsTrigger>
+          <TabsTrigger value="accounts">Chart of Accounts</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="journal">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+                <div>
+                  <CardTitle>Journal</CardTitle>
+                  <CardDescription>Entries are never edited; a correction is posted as a reversing entry</CardDescription>
+                </div>
+                <Button onClick={() => setVoucherOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Journal Voucher
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {entriesLoading ? (
+                <div className="animate-pulse space-y-4">
+                  {Array(5).fill(null).map((_, i) => (
+                    <div key={i} className="h-12 bg-neutral-50 rounded-md"></div>
+                  ))}
+                </div>
+              ) : entries.length === 0 ? (
+                <div className="text-center py-8 text-neutral-500">Nothing posted to the ledger yet</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Voucher</TableHead>
+                      <TableHead>Particulars</TableHead>
+                      <TableHead className="text-right">Debit</TableHead>
+                      <TableHead className="text-right">Credit</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...entries].reverse().map((entry) => {
+                      const manual = entry.transactionId === null && entry.reversedEntryId === null;
+                      return (
+                        <TableRow key={entry.id} className="align-top">
+                          <TableCell className="whitespace-nowrap">{formatDate(entry.entryDate)}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{entry.voucherNumber}</div>
+                            {entry.reversedEntryId !== null && <Badge variant="secondary">Reversal</Badge>}
+                            {reversedIds.has(entry.id) && <Badge variant="outline">Reversed</Badge>}
+                          </TableCell>
+                          <TableCell>
+                            {entry.lines.map((line) => (
+                              <div key={line.id} className={parseFloat(line.credit) > 0 ? 'pl-6' : ''}>
+                                {accountById.get(line.accountId)?.name ?? `Account ${line.accountId}`}
+                                {line.partyId !== null && (
+                                  <span className="text-neutral-500"> ({partyById.get(line.partyId)?.name ?? line.partyId})</span>
+                                )}
+                              </div>
+                            ))}
+                            {entry.narration && <div className="text-xs text-neutral-500 mt-1">{entry.narration}</div>}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {entry.lines.map((line) => (
+                              <div key={line.id}>{parseFloat(line.debit) > 0 ? formatCurrency(parseFloat(line.debit)) : ' '}</div>
+                            ))}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {entry.lines.map((line) => (
+                              <div key={line.id}>{parseFloat(line.credit) > 0 ? formatCurrency(parseFloat(line.credit)) : ' '}</div>
+                            ))}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {manual && !reversedIds.has(entry.id) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => reverseMutation.mutate(entry.id)}
+                                disabled={reverseMutation.isPending}
+                              >
+                                <Undo2 className="h-4 w-4 mr-1" />
+                                Reverse
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="accounts">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+                <div>
+                  <CardTitle>Chart of Accounts</CardTitle>
+                  <CardDescription>Accounts that documents post to cannot change group or be deactivated</CardDescription>
+                </div>
+                <Button variant="outline" onClick={() => setNewAccount({ name: '', groupName: 'Indirect Expenses' })}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Account
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {accountsLoading ? (
+                <div className="animate-pulse space-y-4">
+                  {Array(5).fill(null).map((_, i) => (
+                    <div key={i} className="h-12 bg-neutral-50 rounded-md"></div>
+                  ))}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Group</TableHead>
+                      <TableHead>Normal Balance</TableHead>
+                      <TableHead className="text-right">Active</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {accounts.map((account) => (
+                      <TableRow key={account.id}>
+                        <TableCell className="font-medium">
+                          {account.name}
+                          {account.systemKey && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                        </TableCell>
+                        <TableCell>{account.groupName}</TableCell>
+                        <TableCell>{isDebitNature(account.groupName) ? 'Debit' : 'Credit'}</TableCell>
+                        <TableCell className="text-right">
+                          <Switch
+                            checked={account.isActive}
+                            disabled={!!account.systemKey || toggleAccountMutation.isPending}
+                            onCheckedChange={(checked) => toggleAccountMutation.mutate({ id: account.id, isActive: checked })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={voucherOpen} onOpenChange={(open) => !open && closeVoucher()}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Journal Voucher</DialogTitle>
+            <DialogDescription>Debits must equal credits. Debtor and creditor lines need a party.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="voucherNumber">Voucher Number</Label>
+              <Input id="voucherNumber" value={voucherNumber} onChange={(e) => setVoucherNumber(e.target.value)} placeholder="Next in sequence" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="voucherDate">Date</Label>
+              <Input id="voucherDate" type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {lines.map((line, index) => {
+              const account = accountById.get(Number(line.accountId));
+              return (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-4">
+                    <Select value={line.accountId} onValueChange={(value) => updateLine(index, { accountId: value, partyId: '' })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Account" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts.filter((option) => option.isActive).map((option) => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-3">
+                    <Select value={line.partyId} onValueChange={(value) => updateLine(index, { partyId: value })} disabled={!isPartyAccount(account)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Party" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {parties.map((party) => (
+                          <SelectItem key={party.id} value={String(party.id)}>{party.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Debit"
+                    value={line.debit}
+                    onChange={(e) => updateLine(index, { debit: e.target.value, credit: '' })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Credit"
+                    value={line.credit}
+                    onChange={(e) => updateLine(index, { credit: e.target.value, debit: '' })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="col-span-1 h-8 w-8"
+                    title="Remove line"
+                    onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                    disabled={lines.length <= 2}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <div className="flex justify-between items-center text-sm">
+              <Button variant="outline" size="sm" onClick={() => setLines([...lines, emptyLine])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+              <span className={Math.abs(totalDebit - totalCredit) < 0.005 ? 'text-neutral-600' : 'text-red-600'}>
+                Debit {formatCurrency(totalDebit)} / Credit {formatCurrency(totalCredit)}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="narration">Narration</Label>
+            <Input id="narration" value={narration} onChange={(e) => setNarration(e.target.value)} />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeVoucher}>Cancel</Button>
+            <Button onClick={() => voucherMutation.mutate()} disabled={!voucherReady || voucherMutation.isPending}>
+              {voucherMutation.isPending ? 'Posting...' : 'Post Voucher'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!newAccount} onOpenChange={(open) => !open && setNewAccount(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Account</DialogTitle>
+            <DialogDescription>The group decides where the account appears in the trial balance.</DialogDescription>
+          </DialogHeader>
+
+          {newAccount && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="accountName">Name</Label>
+                <Input id="accountName" value={newAccount.name} onChange={(e) => setNewAccount({ ...newAccount, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Group</Label>
+                <Select value={newAccount.groupName} onValueChange={(value) => setNewAccount({ ...newAccount, groupName: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accountGroupNames.map((group) => (
+                      <SelectItem key={group} value={group}>{group}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewAccount(null)}>Cancel</Button>
+            <Button
+              onClick={() => newAccount && createAccountMutation.mutate(newAccount)}
+              disabled={!newAccount?.name.trim() || createAccountMutation.isPending}
+            >
+              {createAccountMutation.isPending ? 'Saving...' : 'Save Account'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
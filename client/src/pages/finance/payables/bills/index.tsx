@@ -39,10 +39,12 @@ import {
   getStatusColor,
   getStatusLabel
 } from '@/lib/utils';
+import BillMatchDialog, { billMatchBadges } from '@/components/BillMatchDialog';
 
 const PayablesBills = () => {
   const [statusFilter, setStatusFilter] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [matchBill, setMatchBill] = useState<Transaction | null>(null);
   
   // Fetch purchase bills
   const { data: bills, isLoading: billsLoading } = useQuery<Transaction[]>({
@@ -77,6 +79,8 @@ const PayablesBills = () => {
         return true;
       } else if (statusFilter === 'overdue' && bill.dueDate && getDaysOverdue(bill.dueDate) > 0) {
         return true;
+      } else if (statusFilter === 'on_hold' && bill.matchStatus === 'mismatched') {
+        return true;
       } else if (statusFilter === bill.status) {
         return true;
       } else {
@@ -162,6 +166,7 @@ const PayablesBills = () => {
                 <SelectItem value="overdue">Overdue</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
                 <SelectItem value="partially_paid">Partially Paid</SelectItem>
+                <SelectItem value="on_hold">On Hold (Mismatch)</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -193,6 +198,7 @@ const PayablesBills = () => {
                   <TableHead>Amount</TableHead>
                   <TableHead>Balance Due</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>PO/GRN Match</TableHead>
                   <TableHead>Days Overdue</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -242,6 +248,20 @@ const PayablesBills = () => {
                           balanceDue={bill.balanceDue} 
                         />
                       </TableCell>
+                      <TableCell>
+                        {bill.matchStatus ? (
+                          <button
+                            type="button"
+                            title={bill.matchNote ?? undefined}
+                            onClick={() => setMatchBill(bill)}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${billMatchBadges[bill.matchStatus].className}`}
+                          >
+                            {billMatchBadges[bill.matchStatus].label}
+                          </button>
+                        ) : (
+                          <span className="text-neutral-500">-</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         {bill.dueDate && Number(bill.balanceDue || 0) > 0 ? (
                           daysOverdue > 0 ? (
@@ -263,7 +283,11 @@ const PayablesBills = () => {
                           <Button variant="outline" size="sm" className="px-2">
                             <Download className="h-4 w-4" />
                           </Button>
-                          {Number(bill.balanceDue || 0) > 0 && (
+                          {Number(bill.balanceDue || 0) > 0 && bill.matchStatus === 'mismatched' ? (
+                            <Button variant="outline" size="sm" onClick={() => setMatchBill(bill)}>
+                              Review Mismatch
+                            </Button>
+                          ) : Number(bill.balanceDue || 0) > 0 && (
                             <>
                               <Button variant="outline" size="sm" asChild className="px-2">
                                 <Link href={`/finance/payables/make-payment?billId=${bill.id}`}>
@@ -295,6 +319,8 @@ const PayablesBills = () => {
           )}
         </CardContent>
       </Card>
+
+      <BillMatchDialog bill={matchBill} onClose={() => setMatchBill(null)} />
     </div>
   );
 };
@@ -24,6 +24,8 @@ import { Progress } from '@/components/ui/progress';
 import { MailIcon, ArrowLeft } from 'lucide-react';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { Party, Transaction } from '@shared/schema';
+import { OpenItems } from '@/types';
+import AllocatePaymentDialog from '@/components/AllocatePaymentDialog';
 
 interface VendorDetailProps {
   id: string;
@@ -44,6 +46,7 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
   const [, navigate] = useLocation();
   const [activeTab, setActiveTab] = useState('unpaid');
   const [filterPeriod, setFilterPeriod] = useState('all');
+  const [allocating, setAllocating] = useState<OpenItems['payments'][number] | null>(null);
   
   // Fetch vendor details
   const { data: vendor, isLoading: isVendorLoading } = useQuery<VendorWithDetails>({
@@ -52,7 +55,13 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
   
   // Fetch vendor transactions
   const { data: transactions, isLoading: isTransactionsLoading } = useQuery<Transaction[]>({
-    queryKey: ['/api/finance/payables/transactions', { vendorId: id, status: activeTab === 'unpaid' ? 'unpaid' : 'all' }],
+    queryKey: [`/api/transactions?partyId=${id}`],
+    enabled: activeTab === 'all',
+  });
+  
+  // Fetch documents still owed and payments still on account
+  const { data: openItems, isLoading: isOpenItemsLoading } = useQuery<OpenItems>({
+    queryKey: [`/api/parties/${id}/open-items`],
   });
   
   // Fetch ageing analysis
@@ -60,16 +69,8 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
     queryKey: ['/api/finance/payables/ageing', { vendorId: id }],
   });
   
-  // Fetch unallocated payments
-  const { data: unallocatedPayments, isLoading: isPaymentsLoading } = useQuery<Transaction[]>({
-    queryKey: ['/api/finance/payables/payments/unallocated', { vendorId: id }],
-    enabled: activeTab === 'unallocated',
-  });
-  
   // Filter transactions based on period
-  const getFilteredTransactions = () => {
-    if (!transactions) return [];
-    
+  const filterByPeriod = <T extends { transactionDate: string | Date | null }>(transactions: T[]) => {
     if (filterPeriod === 'all') return transactions;
     
     const now = new Date();
@@ -88,7 +89,8 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
     );
   };
   
-  const filteredTransactions = getFilteredTransactions();
+  const filteredTransactions = filterByPeriod(transactions ?? []);
+  const unpaidDocuments = filterByPeriod(openItems?.documents ?? []);
   
   return (
     <div className="p-4 md:p-6 max-w-7xl mx-auto">
@@ -232,14 +234,14 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
         </div>
         
         <TabsContent value="unpaid">
-          {isTransactionsLoading ? (
+          {isOpenItemsLoading ? (
             <div className="animate-pulse space-y-4">
               <div className="h-12 bg-neutral-100 rounded-md"></div>
               {Array(5).fill(null).map((_, i) => (
                 <div key={i} className="h-16 bg-neutral-50 rounded-md"></div>
               ))}
             </div>
-          ) : filteredTransactions.length > 0 ? (
+          ) : unpaidDocuments.length > 0 ? (
             <Card>
               <CardContent className="p-0">
                 <Table>
@@ -255,7 +257,7 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredTransactions.map((transaction) => {
+                    {unpaidDocuments.map((transaction) => {
                       const dueDate = transaction.dueDate ? new Date(transaction.dueDate) : null;
                       const today = new Date();
                       const daysOverdue = dueDate 
@@ -419,14 +421,14 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
         </TabsContent>
         
         <TabsContent value="unallocated">
-          {isPaymentsLoading ? (
+          {isOpenItemsLoading ? (
             <div className="animate-pulse space-y-4">
               <div className="h-12 bg-neutral-100 rounded-md"></div>
               {Array(3).fill(null).map((_, i) => (
                 <div key={i} className="h-16 bg-neutral-50 rounded-md"></div>
               ))}
             </div>
-          ) : unallocatedPayments && unallocatedPayments.length > 0 ? (
+          ) : openItems && openItems.payments.length > 0 ? (
             <Card>
               <CardContent className="p-0">
                 <Table>
@@ -435,12 +437,12 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
                       <TableHead>Payment Number</TableHead>
                       <TableHead>Date</TableHead>
                       <TableHead className="text-right">Amount</TableHead>
-                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">Unallocated</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {unallocatedPayments.map((payment) => (
+                    {openItems.payments.map((payment) => (
                       <TableRow key={payment.id}>
                         <TableCell className="font-medium">
                           {payment.transactionNumber}
@@ -449,13 +451,13 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
                         <TableCell className="text-right font-mono text-red-600">
                           {formatCurrency(Number(payment.amount))}
                         </TableCell>
-                        <TableCell>{payment.reference || '-'}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatCurrency(payment.unallocated)}
+                        </TableCell>
                         <TableCell>
-                          <Link href={`/finance/payables/payments/${payment.id}/allocate`}>
-                            <Button size="sm">
-                              Allocate Payment
-                            </Button>
-                          </Link>
+                          <Button size="sm" onClick={() => setAllocating(payment)}>
+                            Allocate Payment
+                          </Button>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -480,6 +482,8 @@ const VendorDetail = ({ id }: VendorDetailProps) => {
           )}
         </TabsContent>
       </Tabs>
+      
+      <AllocatePaymentDialog payment={allocating} partyId={Number(id)} onClose={() => setAllocating(null)} />
     </div>
   );
 };
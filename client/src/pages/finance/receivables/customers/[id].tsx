@@ -24,6 +24,8 @@ import { Progress } from '@/components/ui/progress';
 import { MailIcon, ArrowLeft, Clock } from 'lucide-react';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { Party, Transaction } from '@shared/schema';
+import { OpenItems } from '@/types';
+import AllocatePaymentDialog from '@/components/AllocatePaymentDialog';
 
 interface CustomerDetailProps {
   id: string;
@@ -46,6 +48,7 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
   const [, navigate] = useLocation();
   const [activeTab, setActiveTab] = useState('unpaid');
   const [filterPeriod, setFilterPeriod] = useState('all');
+  const [allocating, setAllocating] = useState<OpenItems['payments'][number] | null>(null);
   
   // Fetch customer details
   const { data: customer, isLoading: isCustomerLoading } = useQuery<CustomerWithDetails>({
@@ -54,7 +57,13 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
   
   // Fetch customer transactions
   const { data: transactions, isLoading: isTransactionsLoading } = useQuery<Transaction[]>({
-    queryKey: ['/api/finance/receivables/transactions', { customerId: id, status: activeTab === 'unpaid' ? 'unpaid' : 'all' }],
+    queryKey: [`/api/transactions?partyId=${id}`],
+    enabled: activeTab === 'all',
+  });
+  
+  // Fetch documents still owed and receipts still on account
+  const { data: openItems, isLoading: isOpenItemsLoading } = useQuery<OpenItems>({
+    queryKey: [`/api/parties/${id}/open-items`],
   });
   
   // Fetch ageing analysis
@@ -62,16 +71,8 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
     queryKey: ['/api/finance/receivables/ageing', { customerId: id }],
   });
   
-  // Fetch unallocated receipts
-  const { data: unallocatedReceipts, isLoading: isReceiptsLoading } = useQuery<Transaction[]>({
-    queryKey: ['/api/finance/receivables/receipts/unallocated', { customerId: id }],
-    enabled: activeTab === 'unallocated',
-  });
-  
   // Filter transactions based on period
-  const getFilteredTransactions = () => {
-    if (!transactions) return [];
-    
+  const filterByPeriod = <T extends { transactionDate: string | Date | null }>(transactions: T[]) => {
     if (filterPeriod === 'all') return transactions;
     
     const now = new Date();
@@ -90,7 +91,8 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
     );
   };
   
-  const filteredTransactions = getFilteredTransactions();
+  const filteredTransactions = filterByPeriod(transactions ?? []);
+  const unpaidDocuments = filterByPeriod(openItems?.documents ?? []);
   
   return (
     <div className="p-4 md:p-6 max-w-7xl mx-auto">
@@ -262,14 +264,14 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
         </div>
         
         <TabsContent value="unpaid">
-          {isTransactionsLoading ? (
+          {isOpenItemsLoading ? (
             <div className="animate-pulse space-y-4">
               <div className="h-12 bg-neutral-100 rounded-md"></div>
               {Array(5).fill(null).map((_, i) => (
                 <div key={i} className="h-16 bg-neutral-50 rounded-md"></div>
               ))}
             </div>
-          ) : filteredTransactions.length > 0 ? (
+          ) : unpaidDocuments.length > 0 ? (
             <Card>
               <CardContent className="p-0">
                 <Table>
@@ -285,7 +287,7 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredTransactions.map((transaction) => {
+                    {unpaidDocuments.map((transaction) => {
                       const dueDate = transaction.dueDate ? new Date(transaction.dueDate) : null;
                       const today = new Date();
                       const daysOverdue = dueDate 
@@ -449,14 +451,14 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
         </TabsContent>
         
         <TabsContent value="unallocated">
-          {isReceiptsLoading ? (
+          {isOpenItemsLoading ? (
             <div className="animate-pulse space-y-4">
               <div className="h-12 bg-neutral-100 rounded-md"></div>
               {Array(3).fill(null).map((_, i) => (
                 <div key={i} className="h-16 bg-neutral-50 rounded-md"></div>
               ))}
             </div>
-          ) : unallocatedReceipts && unallocatedReceipts.length > 0 ? (
+          ) : openItems && openItems.payments.length > 0 ? (
             <Card>
               <CardContent className="p-0">
                 <Table>
@@ -465,12 +467,12 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
                       <TableHead>Receipt Number</TableHead>
                       <TableHead>Date</TableHead>
                       <TableHead className="text-right">Amount</TableHead>
-                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">Unallocated</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {unallocatedReceipts.map((receipt) => (
+                    {openItems.payments.map((receipt) => (
                       <TableRow key={receipt.id}>
                         <TableCell className="font-medium">
                           {receipt.transactionNumber}
@@ -479,13 +481,13 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
                         <TableCell className="text-right font-mono text-green-600">
                           {formatCurrency(Number(receipt.amount))}
                         </TableCell>
-                        <TableCell>{receipt.reference || '-'}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatCurrency(receipt.unallocated)}
+                        </TableCell>
                         <TableCell>
-                          <Link href={`/finance/receivables/receipts/${receipt.id}/allocate`}>
-                            <Button size="sm">
-                              Allocate Receipt
-                            </Button>
-                          </Link>
+                          <Button size="sm" onClick={() => setAllocating(receipt)}>
+                            Allocate Receipt
+                          </Button>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -510,6 +512,8 @@ const CustomerDetail = ({ id }: CustomerDetailProps) => {
           )}
         </TabsContent>
       </Tabs>
+      
+      <AllocatePaymentDialog payment={allocating} partyId={Number(id)} onClose={() => setAllocating(null)} />
     </div>
   );
 };
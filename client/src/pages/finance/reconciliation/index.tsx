@@ -0,0 +1,328 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Check, Flag, Upload } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { CompanySettings, Gstr2bEntry, Gstr2bImport } from '@shared/schema';
+
+type MatchStatus = Gstr2bEntry['matchStatus'];
+type ReviewStatus = Gstr2bEntry['reviewStatus'];
+
+type Gstr2bImportSummary = Gstr2bImport & {
+  counts: Partial<Record<MatchStatus, number>>;
+  pendingReview: number;
+};
+
+type ReconciliationEntry = Gstr2bEntry & {
+  billNumber: string | null;
+  billAmounts: { value: number; taxableValue: number; tax: number } | null;
+};
+
+const matchStatusLabels: Record<MatchStatus, string> = {
+  matched: 'Matched',
+  mismatched_amount: 'Amount Mismatch',
+  missing_in_books: 'Missing in Books',
+  missing_in_2b: 'Missing in 2B',
+};
+
+const matchStatusClasses: Record<MatchStatus, string> = {
+  matched: 'bg-green-100 text-green-800',
+  mismatched_amount: 'bg-amber-100 text-amber-800',
+  missing_in_books: 'bg-red-100 text-red-800',
+  missing_in_2b: 'bg-blue-100 text-blue-800',
+};
+
+const periodLabel = (period: string) => {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+};
+
+const entryTax = (entry: Gstr2bEntry) =>
+  ['igstAmount', 'cgstAmount', 'sgstAmount', 'cessAmount']
+    .reduce((total, key) => total + parseFloat(entry[key as 'igstAmount'] ?? '0'), 0);
+
+export default function Gstr2bReconciliation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importId, setImportId] = useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = useState<MatchStatus | 'all'>('all');
+
+  const { data: imports = [] } = useQuery<Gstr2bImportSummary[]>({
+    queryKey: ['/api/gst/gstr2b'],
+  });
+
+  const { data: settings } = useQuery<CompanySettings>({
+    queryKey: ['/api/settings/company'],
+  });
+
+  // Open the latest period by default
+  useEffect(() => {
+    if (importId === null && imports.length > 0) {
+      setImportId(imports[0].id);
+    }
+  }, [imports, importId]);
+
+  const { data: reconciliation, isLoading } = useQuery<Gstr2bImport & { entries: ReconciliationEntry[] }>({
+    queryKey: [`/api/gst/gstr2b/${importId}`],
+    enabled: importId !== null,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ fileName, file }: { fileName: string; file: unknown }) => {
+      const res = await apiRequest('POST', '/api/gst/gstr2b', { fileName, file });
+      return res.json() as Promise<Gstr2bImport>;
+    },
+    onSuccess: (gstr2bImport) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/gst/gstr2b'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/gst/gstr2b/${gstr2bImport.id}`] });
+      setImportId(gstr2bImport.id);
+      setStatusFilter('all');
+      toast({ title: 'GSTR-2B imported', description: `Reconciled against purchase bills for ${periodLabel(gstr2bImport.period)}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not import GSTR-2B', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, reviewStatus }: { id: number; reviewStatus: ReviewStatus }) => {
+      const res = await apiRequest('PATCH', `/api/gst/gstr2b/entries/${id}`, { reviewStatus });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/gst/gstr2b/${importId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/gst/gstr2b'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update review', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        uploadMutation.mutate({ fileName: selected.name, file: JSON.parse(reader.result as string) });
+      } catch {
+        toast({ title: 'Could not read file', description: 'The file is not valid JSON', variant: 'destructive' });
+      }
+    };
+    reader.readAsText(selected);
+  };
+
+  const entries = reconciliation?.entries ?? [];
+  const visibleEntries = statusFilter === 'all' ? entries : entries.filter((entry) => entry.matchStatus === statusFilter);
+  const countFor = (status: MatchStatus) => entries.filter((entry) => entry.matchStatus === status).length;
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-neutral-800">GST Reconciliation</h1>
+          <p className="text-sm text-neutral-500">Match supplier invoices in GSTR-2B against purchase bills</p>
+        </div>
+        <Link href="/finance">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Finance
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+            <div>
+              <CardTitle>GSTR-2B</CardTitle>
+              <CardDescription>
+                {settings
+                  ? `Amounts within ${formatCurrency(parseFloat(settings.gstr2bAmountTolerance))} and dates within ${settings.gstr2bDateToleranceDays} days are treated as matching`
+                  : 'Upload the JSON downloaded from the GST portal'}
+              </CardDescription>
+            </div>
+            <div className="flex items-end gap-2">
+              {imports.length > 0 && (
+                <Select
+                  value={importId !== null ? String(importId) : undefined}
+                  onValueChange={(value) => {
+                    setImportId(parseInt(value, 10));
+                    setStatusFilter('all');
+                  }}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Select period" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {imports.map((gstr2bImport) => (
+                      <SelectItem key={gstr2bImport.id} value={String(gstr2bImport.id)}>
+                        {periodLabel(gstr2bImport.period)}
+                        {gstr2bImport.pendingReview > 0 ? ` (${gstr2bImport.pendingReview} to review)` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+              <Button onClick={() => fileInput.current?.click()} disabled={uploadMutation.isPending}>
+                <Upload className="h-4 w-4 mr-2" />
+                {uploadMutation.isPending ? 'Importing...' : 'Upload 2B JSON'}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {importId === null ? (
+            <div className="text-center py-8 text-neutral-500">
+              No GSTR-2B imported yet. Upload a return to reconcile it against your purchase bills.
+            </div>
+          ) : isLoading || !reconciliation ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-10 bg-neutral-100 rounded-md"></div>
+              {Array(5).fill(null).map((_, i) => (
+                <div key={i} className="h-12 bg-neutral-50 rounded-md"></div>
+              ))}
+            </div>
+          ) : (
+            <>
+              <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as MatchStatus | 'all')}>
+                <TabsList>
+                  <TabsTrigger value="all">All ({entries.length})</TabsTrigger>
+                  {(Object.keys(matchStatusLabels) as MatchStatus[]).map((status) => (
+                    <TabsTrigger key={status} value={status}>
+                      {matchStatusLabels[status]} ({countFor(status)})
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+
+              {visibleEntries.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead>Bill</TableHead>
+                      <TableHead className="text-right">Taxable (2B / Books)</TableHead>
+                      <TableHead className="text-right">Tax (2B / Books)</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Review</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleEntries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>
+                          <div className="font-medium">{entry.supplierName || '-'}</div>
+                          <div className="text-xs text-neutral-500">{entry.supplierGstin}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{entry.invoiceNumber}</div>
+                          <div className="text-xs text-neutral-500">
+                            {entry.invoiceDate ? formatDate(entry.invoiceDate) : '-'}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {entry.billNumber || '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {entry.taxableValue !== null ? formatCurrency(parseFloat(entry.taxableValue)) : '-'}
+                          {' / '}
+                          {entry.billAmounts ? formatCurrency(entry.billAmounts.taxableValue) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {entry.matchStatus !== 'missing_in_2b' ? formatCurrency(entryTax(entry)) : '-'}
+                          {' / '}
+                          {entry.billAmounts ? formatCurrency(entry.billAmounts.tax) : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={matchStatusClasses[entry.matchStatus]}>
+                            {matchStatusLabels[entry.matchStatus]}
+                          </Badge>
+                          {entry.matchNote && (
+                            <div className="text-xs text-neutral-500 mt-1">{entry.matchNote}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {entry.reviewStatus !== 'pending' ? (
+                            <div className="flex items-center justify-end gap-2">
+                              <Badge variant={entry.reviewStatus === 'flagged' ? 'destructive' : 'secondary'}>
+                                {entry.reviewStatus === 'flagged' ? 'Flagged' : 'Accepted'}
+                              </Badge>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => reviewMutation.mutate({ id: entry.id, reviewStatus: 'pending' })}
+                                disabled={reviewMutation.isPending}
+                              >
+                                Undo
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => reviewMutation.mutate({ id: entry.id, reviewStatus: 'accepted' })}
+                                disabled={reviewMutation.isPending}
+                              >
+                                <Check className="h-4 w-4 mr-1" />
+                                Accept
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => reviewMutation.mutate({ id: entry.id, reviewStatus: 'flagged' })}
+                                disabled={reviewMutation.isPending}
+                              >
+                                <Flag className="h-4 w-4 mr-1" />
+                                Flag
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-8 text-neutral-500">No invoices in this category</div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -37,7 +37,7 @@ import { ArrowLeft, Save } from 'lucide-react';
 // Create the form schema
 const formSchema = z.object({
   name: z.string().min(1, "Name is required"),
-  parentName: z.string().optional().nullable(),
+  parentId: z.number().optional().nullable(),
   address: z.string().optional().nullable(),
 });
 
@@ -59,7 +59,7 @@ const NewGodown = () => {
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: '',
-      parentName: null,
+      parentId: null,
       address: '',
     },
   });
@@ -67,17 +67,8 @@ const NewGodown = () => {
   // Create mutation for adding a new godown
   const mutation = useMutation({
     mutationFn: async (values: FormValues) => {
-      // Since we don't have a dedicated endpoint for godowns yet,
-      // we're mocking the success for now
-      return new Promise((resolve) => {
-        setTimeout(() => {
-          resolve({
-            id: Math.floor(Math.random() * 1000) + 10,
-            ...values,
-            userId: 1,
-          });
-        }, 500);
-      });
+      const res = await apiRequest('POST', '/api/inventory/godowns', values);
+      return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/inventory/godowns'] });
@@ -150,13 +141,13 @@ const NewGodown = () => {
                 
                 <FormField
                   control={form.control}
-                  name="parentName"
+                  name="parentId"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Parent Godown</FormLabel>
                       <Select 
-                        onValueChange={field.onChange} 
-                        defaultValue={field.value || undefined}
+                        onValueChange={(value) => field.onChange(parseInt(value, 10))} 
+                        defaultValue={field.value?.toString() || undefined}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -165,7 +156,7 @@ const NewGodown = () => {
                         </FormControl>
                         <SelectContent>
                           {godowns?.map((godown: any) => (
-                            <SelectItem key={godown.id} value={godown.name}>
+                            <SelectItem key={godown.id} value={godown.id.toString()}>
                               {godown.name}
                             </SelectItem>
                           ))}
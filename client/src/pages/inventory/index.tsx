@@ -186,7 +186,7 @@ const Inventory = () => {
                     <div key={item.id} className="flex items-center justify-between p-4 border rounded-md hover:bg-neutral-50">
                       <div>
                         <h4 className="font-medium">{item.name}</h4>
-                        <p className="text-sm text-neutral-500">{item.category || 'Uncategorized'} • {item.unit || 'No Unit'}</p>
+                        <p className="text-sm text-neutral-500">{item.stockGroupName || 'Uncategorized'} • {item.unitSymbol || 'No Unit'}</p>
                       </div>
                       <div className="text-right">
                         <p className="font-semibold">{formatCurrency(item.price || 0)}</p>
@@ -17,14 +17,14 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
-import { Item } from "@shared/schema";
+import { ItemWithMasters } from "@shared/schema";
 import { formatCurrency } from "@/lib/utils";
 import { useState } from "react";
 
 const PriceListIndex = () => {
   const [searchTerm, setSearchTerm] = useState("");
   
-  const { data: items, isLoading } = useQuery<Item[]>({
+  const { data: items, isLoading } = useQuery<ItemWithMasters[]>({
     queryKey: ['/api/inventory/items'],
   });
 
@@ -128,7 +128,7 @@ const PriceListIndex = () => {
                       <TableCell>{formatCurrency(parseFloat(item.sellingPrice || "0") * 1.1)}</TableCell>
                       <TableCell>{formatCurrency(parseFloat(item.sellingPrice || "0") * 0.95)}</TableCell>
                       <TableCell>{item.openingStock || 0}</TableCell>
-                      <TableCell>{item.unit || "-"}</TableCell>
+                      <TableCell>{item.unitSymbol || "-"}</TableCell>
                       <TableCell>
                         <Link href={`/inventory/price-list/${item.id}`}>
                           <Button variant="ghost" size="sm" className="cursor-pointer">
@@ -25,7 +25,7 @@ interface StockGroup {
   name: string;
   parentName?: string | null;
   hsnCode?: string | null;
-  gstRate?: number | null;
+  gstRate?: string | null;
   userId: number;
 }
 
@@ -67,10 +67,10 @@ const StockGroupsList = () => {
               comparison = a.hsnCode.localeCompare(b.hsnCode);
               break;
             case 'gstRate':
-              if (a.gstRate === null && b.gstRate === null) return 0;
-              if (a.gstRate === null) return 1;
-              if (b.gstRate === null) return -1;
-              comparison = a.gstRate - b.gstRate;
+              if (!a.gstRate && !b.gstRate) return 0;
+              if (!a.gstRate) return 1;
+              if (!b.gstRate) return -1;
+              comparison = parseFloat(a.gstRate) - parseFloat(b.gstRate);
               break;
             default:
               comparison = 0;
@@ -154,7 +154,7 @@ const StockGroupsList = () => {
                     <TableCell className="font-medium">{group.name}</TableCell>
                     <TableCell>{group.parentName || '-'}</TableCell>
                     <TableCell>{group.hsnCode || '-'}</TableCell>
-                    <TableCell>{group.gstRate !== null ? `${group.gstRate}%` : '-'}</TableCell>
+                    <TableCell>{group.gstRate ? `${parseFloat(group.gstRate)}%` : '-'}</TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
                         <Link href={`/inventory/stock-groups/${group.id}`}>
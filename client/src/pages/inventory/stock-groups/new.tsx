@@ -37,7 +37,7 @@ import { ArrowLeft, Save } from 'lucide-react';
 // Create the form schema
 const formSchema = z.object({
   name: z.string().min(1, "Name is required"),
-  parentName: z.string().optional().nullable(),
+  parentId: z.number().optional().nullable(),
   hsnCode: z.string().optional().nullable(),
   gstRate: z.coerce.number().min(0).max(100).optional().nullable(),
 });
@@ -60,7 +60,7 @@ const NewStockGroup = () => {
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: '',
-      parentName: null,
+      parentId: null,
       hsnCode: '',
       gstRate: null,
     },
@@ -69,17 +69,12 @@ const NewStockGroup = () => {
   // Create mutation for adding a new stock group
   const mutation = useMutation({
     mutationFn: async (values: FormValues) => {
-      // Since we don't have a dedicated endpoint for stock groups yet,
-      // we're mocking the success for now
-      return new Promise((resolve) => {
-        setTimeout(() => {
-          resolve({
-            id: Math.floor(Math.random() * 1000) + 10,
-            ...values,
-            userId: 1,
-          });
-        }, 500);
+      const res = await apiRequest('POST', '/api/inventory/stock-groups', {
+        ...values,
+        // GST rate is stored as a decimal column
+        gstRate: values.gstRate != null ? values.gstRate.toString() : null,
       });
+      return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/inventory/stock-groups'] });
@@ -154,13 +149,13 @@ const NewStockGroup = () => {
                 
                 <FormField
                   control={form.control}
-                  name="parentName"
+                  name="parentId"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Parent Group</FormLabel>
                       <Select 
-                        onValueChange={field.onChange} 
-                        defaultValue={field.value || undefined}
+                        onValueChange={(value) => field.onChange(parseInt(value, 10))} 
+                        defaultValue={field.value?.toString() || undefined}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -169,7 +164,7 @@ const NewStockGroup = () => {
                         </FormControl>
                         <SelectContent>
                           {stockGroups?.map((group: any) => (
-                            <SelectItem key={group.id} value={group.name}>
+                            <SelectItem key={group.id} value={group.id.toString()}>
                               {group.name}
                             </SelectItem>
                           ))}
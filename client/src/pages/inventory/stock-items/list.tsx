@@ -27,8 +27,8 @@ interface StockItem {
   name: string;
   userId: number;
   hsnCode?: string | null;
-  unit?: string | null;
-  category?: string | null;
+  unitSymbol?: string | null;
+  stockGroupName?: string | null;
   description?: string | null;
   sellingPrice?: string | null;
   purchasePrice?: string | null;
@@ -59,8 +59,8 @@ const StockItemsList = () => {
     ? stockItems
         .filter(item =>
           item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          (item.category && item.category.toLowerCase().includes(searchTerm.toLowerCase())) ||
-          (item.unit && item.unit.toLowerCase().includes(searchTerm.toLowerCase())) ||
+          (item.stockGroupName && item.stockGroupName.toLowerCase().includes(searchTerm.toLowerCase())) ||
+          (item.unitSymbol && item.unitSymbol.toLowerCase().includes(searchTerm.toLowerCase())) ||
           (item.hsnCode && item.hsnCode.toLowerCase().includes(searchTerm.toLowerCase()))
         )
         .sort((a, b) => {
@@ -70,17 +70,17 @@ const StockItemsList = () => {
             case 'name':
               comparison = a.name.localeCompare(b.name);
               break;
-            case 'category':
-              if (!a.category && !b.category) return 0;
-              if (!a.category) return 1;
-              if (!b.category) return -1;
-              comparison = a.category.localeCompare(b.category);
+            case 'stockGroupName':
+              if (!a.stockGroupName && !b.stockGroupName) return 0;
+              if (!a.stockGroupName) return 1;
+              if (!b.stockGroupName) return -1;
+              comparison = a.stockGroupName.localeCompare(b.stockGroupName);
               break;
-            case 'unit':
-              if (!a.unit && !b.unit) return 0;
-              if (!a.unit) return 1;
-              if (!b.unit) return -1;
-              comparison = a.unit.localeCompare(b.unit);
+            case 'unitSymbol':
+              if (!a.unitSymbol && !b.unitSymbol) return 0;
+              if (!a.unitSymbol) return 1;
+              if (!b.unitSymbol) return -1;
+              comparison = a.unitSymbol.localeCompare(b.unitSymbol);
               break;
             case 'sellingPrice':
               const aPrice = a.sellingPrice ? parseFloat(a.sellingPrice) : 0;
@@ -180,8 +180,8 @@ const StockItemsList = () => {
               <TableHeader>
                 <TableRow>
                   <TableHead><SortableHeader column="name" label="Item Name" /></TableHead>
-                  <TableHead><SortableHeader column="category" label="Category" /></TableHead>
-                  <TableHead><SortableHeader column="unit" label="Unit" /></TableHead>
+                  <TableHead><SortableHeader column="stockGroupName" label="Stock Group" /></TableHead>
+                  <TableHead><SortableHeader column="unitSymbol" label="Unit" /></TableHead>
                   <TableHead><SortableHeader column="sellingPrice" label="Selling Price" /></TableHead>
                   <TableHead><SortableHeader column="purchasePrice" label="Purchase Price" /></TableHead>
                   <TableHead><SortableHeader column="openingStock" label="Stock" /></TableHead>
@@ -193,8 +193,8 @@ const StockItemsList = () => {
                 {filteredItems.map((item) => (
                   <TableRow key={item.id} className="hover:bg-neutral-50">
                     <TableCell className="font-medium">{item.name}</TableCell>
-                    <TableCell>{item.category || '-'}</TableCell>
-                    <TableCell>{item.unit || '-'}</TableCell>
+                    <TableCell>{item.stockGroupName || '-'}</TableCell>
+                    <TableCell>{item.unitSymbol || '-'}</TableCell>
                     <TableCell>
                       {item.sellingPrice ? formatCurrency(parseFloat(item.sellingPrice)) : '-'}
                     </TableCell>
@@ -39,8 +39,8 @@ import { ArrowLeft, Save } from 'lucide-react';
 const formSchema = z.object({
   name: z.string().min(1, "Name is required"),
   hsnCode: z.string().optional().nullable(),
-  unit: z.string().optional().nullable(),
-  category: z.string().optional().nullable(),
+  unitId: z.number().optional().nullable(),
+  stockGroupId: z.number().optional().nullable(),
   description: z.string().optional().nullable(),
   sellingPrice: z.string().optional().nullable(),
   purchasePrice: z.string().optional().nullable(),
@@ -72,8 +72,8 @@ const NewStockItem = () => {
     defaultValues: {
       name: '',
       hsnCode: '',
-      unit: '',
-      category: '',
+      unitId: null,
+      stockGroupId: null,
       description: '',
       sellingPrice: '',
       purchasePrice: '',
@@ -85,13 +85,8 @@ const NewStockItem = () => {
   // Create mutation for adding a new stock item
   const mutation = useMutation({
     mutationFn: async (values: FormValues) => {
-      return apiRequest('/api/items', {
-        method: 'POST',
-        body: JSON.stringify({
-          ...values,
-          userId: 1, // This would come from auth in a real app
-        }),
-      });
+      const res = await apiRequest('POST', '/api/items', values);
+      return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/items'] });
@@ -187,13 +182,13 @@ const NewStockItem = () => {
                 
                 <FormField
                   control={form.control}
-                  name="unit"
+                  name="unitId"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Unit of Measurement</FormLabel>
                       <Select 
-                        onValueChange={field.onChange} 
-                        defaultValue={field.value || ''}
+                        onValueChange={(value) => field.onChange(parseInt(value, 10))} 
+                        defaultValue={field.value?.toString() || ''}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -202,7 +197,7 @@ const NewStockItem = () => {
                         </FormControl>
                         <SelectContent>
                           {units?.map((unit: any) => (
-                            <SelectItem key={unit.id} value={unit.symbol}>
+                            <SelectItem key={unit.id} value={unit.id.toString()}>
                               {unit.symbol} - {unit.formalName}
                             </SelectItem>
                           ))}
@@ -215,13 +210,13 @@ const NewStockItem = () => {
                 
                 <FormField
                   control={form.control}
-                  name="category"
+                  name="stockGroupId"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Stock Group</FormLabel>
                       <Select 
-                        onValueChange={field.onChange} 
-                        defaultValue={field.value || ''}
+                        onValueChange={(value) => field.onChange(parseInt(value, 10))} 
+                        defaultValue={field.value?.toString() || ''}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -230,7 +225,7 @@ const NewStockItem = () => {
                         </FormControl>
                         <SelectContent>
                           {stockGroups?.map((group: any) => (
-                            <SelectItem key={group.id} value={group.name}>
+                            <SelectItem key={group.id} value={group.id.toString()}>
                               {group.name}
                             </SelectItem>
                           ))}
@@ -24,7 +24,7 @@ interface Unit {
   id: number;
   symbol: string;
   formalName: string;
-  uqcFrom?: string | null;
+  decimalPlaces?: number | null;
   uqc?: string | null;
   userId: number;
 }
@@ -134,7 +134,7 @@ const UnitsList = () => {
                 <TableRow>
                   <TableHead><SortableHeader column="symbol" label="Symbol" /></TableHead>
                   <TableHead><SortableHeader column="formalName" label="Formal Name" /></TableHead>
-                  <TableHead>UQC From</TableHead>
+                  <TableHead>Decimal Places</TableHead>
                   <TableHead><SortableHeader column="uqc" label="UQC" /></TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -144,7 +144,7 @@ const UnitsList = () => {
                   <TableRow key={unit.id} className="hover:bg-neutral-50">
                     <TableCell className="font-medium">{unit.symbol}</TableCell>
                     <TableCell>{unit.formalName}</TableCell>
-                    <TableCell>{unit.uqcFrom || '-'}</TableCell>
+                    <TableCell>{unit.decimalPlaces ?? 0}</TableCell>
                     <TableCell>{unit.uqc || '-'}</TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
@@ -30,7 +30,7 @@ import { ArrowLeft, Save } from 'lucide-react';
 const formSchema = z.object({
   symbol: z.string().min(1, "Symbol is required"),
   formalName: z.string().min(1, "Formal name is required"),
-  uqcFrom: z.string().optional().nullable(),
+  decimalPlaces: z.coerce.number().int().min(0).max(4).optional().nullable(),
   uqc: z.string().optional().nullable(),
 });
 
@@ -48,7 +48,7 @@ const NewUnit = () => {
     defaultValues: {
       symbol: '',
       formalName: '',
-      uqcFrom: 'GST',
+      decimalPlaces: 0,
       uqc: '',
     },
   });
@@ -56,17 +56,8 @@ const NewUnit = () => {
   // Create mutation for adding a new unit
   const mutation = useMutation({
     mutationFn: async (values: FormValues) => {
-      // Since we don't have a dedicated endpoint for units yet,
-      // we're mocking the success for now
-      return new Promise((resolve) => {
-        setTimeout(() => {
-          resolve({
-            id: Math.floor(Math.random() * 1000) + 10,
-            ...values,
-            userId: 1,
-          });
-        }, 500);
-      });
+      const res = await apiRequest('POST', '/api/inventory/units', values);
+      return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/inventory/units'] });
@@ -159,19 +150,21 @@ const NewUnit = () => {
                 
                 <FormField
                   control={form.control}
-                  name="uqcFrom"
+                  name="decimalPlaces"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>UQC From</FormLabel>
+                      <FormLabel>Decimal Places</FormLabel>
                       <FormControl>
                         <Input 
-                          placeholder="e.g., GST" 
+                          type="number"
+                          min={0}
+                          max={4}
                           {...field} 
-                          value={field.value || ''}
+                          value={field.value ?? 0}
                         />
                       </FormControl>
                       <FormDescription>
-                        Source of unit quantity code
+                        Number of decimals allowed in quantities
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -10,6 +10,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { useNextNumber } from '@/hooks/use-next-number';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { DatePicker } from '@/components/ui/date-picker';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -47,7 +48,7 @@ export default function NewPayment() {
     resolver: zodResolver(formSchema),
     defaultValues: {
       transactionType: 'payment',
-      transactionNumber: `PAY-${new Date().getFullYear()}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`,
+      transactionNumber: '',
       status: 'completed',
       transactionDate: new Date(),
       dueDate: null,
@@ -60,6 +61,13 @@ export default function NewPayment() {
     },
   });
 
+  const { data: nextNumber } = useNextNumber('payment');
+  useEffect(() => {
+    if (nextNumber && !form.getValues('transactionNumber')) {
+      form.setValue('transactionNumber', nextNumber.transactionNumber);
+    }
+  }, [nextNumber]);
+
   async function onSubmit(data: FormValues) {
     try {
       setIsSubmitting(true);
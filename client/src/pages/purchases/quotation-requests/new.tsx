@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -41,6 +41,7 @@ import { CalendarIcon, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useNextNumber } from '@/hooks/use-next-number';
 import { apiRequest } from '@/lib/queryClient';
 import { Item, Party, insertTransactionSchema } from '@shared/schema';
 
@@ -93,7 +94,7 @@ const NewPurchaseQuotationRequest = () => {
     resolver: zodResolver(formSchema),
     defaultValues: {
       transactionType: 'purchase_quotation_request',
-      transactionNumber: `PQR-${Date.now().toString().substring(6)}`,
+      transactionNumber: '',
       transactionDate: new Date(),
       status: 'draft',
       amount: 0,
@@ -103,6 +104,13 @@ const NewPurchaseQuotationRequest = () => {
       items: [],
     },
   });
+
+  const { data: nextNumber } = useNextNumber('purchase_quotation_request');
+  useEffect(() => {
+    if (nextNumber && !form.getValues('transactionNumber')) {
+      form.setValue('transactionNumber', nextNumber.transactionNumber);
+    }
+  }, [nextNumber]);
   
   // Handle removing an item from the list
   const handleRemoveItem = (index: number) => {
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface ValuationRow {
+  name: string;
+  quantity: number;
+  value: number;
+}
+
+interface ClosingStock {
+  asOf: string;
+  method: 'fifo' | 'weighted_average';
+  items: (ValuationRow & { itemId: number; rate: number })[];
+  stockGroups: (ValuationRow & { stockGroupId: number | null })[];
+  godowns: (ValuationRow & { godownId: number | null })[];
+  totalValue: number;
+}
+
+const methodLabels: Record<ClosingStock['method'], string> = {
+  fifo: 'FIFO',
+  weighted_average: 'Weighted Average',
+};
+
+const formatQuantity = (quantity: number) =>
+  quantity.toLocaleString('en-IN', { maximumFractionDigits: 3 });
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function ClosingStockReport() {
+  const [asOf, setAsOf] = useState(today());
+
+  const { data: closingStock, isLoading } = useQuery<ClosingStock>({
+    queryKey: [`/api/inventory/closing-stock?asOf=${asOf}`],
+    enabled: !!asOf,
+  });
+
+  const renderTable = (label: string, rows: (ValuationRow & { key: string; rate?: number })[]) => (
+    rows.length > 0 ? (
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{label}</TableHead>
+              <TableHead className="text-right">Quantity</TableHead>
+              {rows.some((row) => row.rate !== undefined) && <TableHead className="text-right">Rate</TableHead>}
+              <TableHead className="text-right">Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.name}</TableCell>
+                <TableCell className="text-right">{formatQuantity(row.quantity)}</TableCell>
+                {row.rate !== undefined && <TableCell className="text-right">{formatCurrency(row.rate)}</TableCell>}
+                <TableCell className="text-right">{formatCurrency(row.value)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={rows.some((row) => row.rate !== undefined) ? 3 : 2}>Total</TableCell>
+              <TableCell className="text-right">{formatCurrency(closingStock?.totalValue ?? 0)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+    ) : (
+      <div className="text-center py-8 text-neutral-500">No stock to value on this date</div>
+    )
+  );
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-neutral-800">Closing Stock</h1>
+          <p className="text-sm text-neutral-500">Stock on hand valued at cost as of a date</p>
+        </div>
+        <Link href="/reports">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Reports
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+            <div>
+              <CardTitle>
+                {closingStock ? formatCurrency(closingStock.totalValue) : '-'}
+              </CardTitle>
+              <CardDescription>
+                {closingStock
+                  ? `Valued using ${methodLabels[closingStock.method]} as of ${formatDate(closingStock.asOf)}`
+                  : 'Total closing stock value'}
+              </CardDescription>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="asOf">As of</Label>
+              <Input
+                id="asOf"
+                type="date"
+                value={asOf}
+                max={today()}
+                onChange={(e) => setAsOf(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !closingStock ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-10 bg-neutral-100 rounded-md"></div>
+              {Array(5).fill(null).map((_, i) => (
+                <div key={i} className="h-12 bg-neutral-50 rounded-md"></div>
+              ))}
+            </div>
+          ) : (
+            <Tabs defaultValue="items" className="space-y-4">
+              <TabsList>
+                <TabsTrigger value="items">By Item</TabsTrigger>
+                <TabsTrigger value="stockGroups">By Stock Group</TabsTrigger>
+                <TabsTrigger value="godowns">By Godown</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="items">
+                {renderTable('Item', closingStock.items
+                  .filter((item) => item.quantity !== 0 || item.value !== 0)
+                  .map((item) => ({ ...item, key: String(item.itemId) })))}
+              </TabsContent>
+
+              <TabsContent value="stockGroups">
+                {renderTable('Stock Group', closingStock.stockGroups
+                  .map((group) => ({ ...group, key: String(group.stockGroupId) })))}
+              </TabsContent>
+
+              <TabsContent value="godowns">
+                {renderTable('Godown', closingStock.godowns
+                  .map((godown) => ({ ...godown, key: String(godown.godownId) })))}
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowLeft, CheckCircle, Download } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { gstStates } from '@shared/gst';
+import { CompanySettings } from '@shared/schema';
+
+interface ItemDetail {
+  txval: number;
+  rt: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface PortalDocument {
+  inum?: string;
+  nt_num?: string;
+  ntty?: 'C' | 'D';
+  idt?: string;
+  nt_dt?: string;
+  val: number;
+  pos?: string;
+  itms: { num: number; itm_det: ItemDetail }[];
+}
+
+interface Gstr1Return {
+  period: string;
+  gstr1: {
+    gstin: string;
+    fp: string;
+    b2b: { ctin: string; inv: PortalDocument[] }[];
+    b2cl: { pos: string; inv: PortalDocument[] }[];
+    b2cs: (ItemDetail & { sply_ty: string; pos: string })[];
+    cdnr: { ctin: string; nt: PortalDocument[] }[];
+    hsn: { data: (ItemDetail & { num: number; hsn_sc: string; desc: string; uqc: string; qty: number })[] };
+    doc_issue: {
+      doc_det: {
+        doc_num: number;
+        doc_typ: string;
+        docs: { from: string; to: string; totnum: number; cancel: number; net_issue: number }[];
+      }[];
+    };
+  };
+  summary: {
+    section: string;
+    records: number;
+    taxableValue: number;
+    igst: number;
+    cgst: number;
+    sgst: number;
+    cess: number;
+  }[];
+  issues: { transactionId: number; transactionNumber: string; message: string }[];
+}
+
+const currentPeriod = () => new Date().toISOString().slice(0, 7);
+
+const stateLabel = (code?: string) => (code ? `${code} - ${gstStates[code] || 'Unknown'}` : '-');
+
+const documentTax = (document: PortalDocument) =>
+  document.itms.reduce(
+    (total, { itm_det }) => ({
+      txval: total.txval + itm_det.txval,
+      tax: total.tax + itm_det.iamt + itm_det.camt + itm_det.samt + itm_det.csamt,
+    }),
+    { txval: 0, tax: 0 }
+  );
+
+export default function Gstr1Report() {
+  const [period, setPeriod] = useState(currentPeriod());
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: gstReturn, isLoading, error } = useQuery<Gstr1Return>({
+    queryKey: [`/api/gst/gstr1?period=${period}`],
+    enabled: !!period,
+    retry: false,
+  });
+
+  const { data: settings } = useQuery<CompanySettings>({
+    queryKey: ['/api/settings/company'],
+  });
+  const filed = !!settings?.gstr1FiledThrough && settings.gstr1FiledThrough >= period;
+
+  // Once filed, the period's documents are locked against cancellation
+  const markFiledMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/gst/gstr1/filed', { period });
+      return res.json() as Promise<CompanySettings>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/company'] });
+      toast({ title: `GSTR-1 for ${period} marked as filed` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not mark the return as filed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const documentRows = (
+    groups: { key: string; party: string; documents: PortalDocument[] }[]
+  ) => groups.flatMap(({ key, party, documents }) =>
+    documents.map((document) => {
+      const { txval, tax } = documentTax(document);
+      return (
+        <TableRow key={`${key}-${document.inum ?? document.nt_num}`}>
+          <TableCell className="font-medium">{document.inum ?? document.nt_num}</TableCell>
+          <TableCell>{document.idt ?? document.nt_dt}</TableCell>
+          <TableCell>{party}</TableCell>
+          <TableCell>{stateLabel(document.pos ?? key)}</TableCell>
+          <TableCell className="text-right">{formatCurrency(txval)}</TableCell>
+          <TableCell className="text-right">{formatCurrency(tax)}</TableCell>
+          <TableCell className="text-right">{formatCurrency(document.val)}</TableCell>
+        </TableRow>
+      );
+    })
+  );
+
+  const documentTable = (
+    partyLabel: string,
+    groups: { key: string; party: string; documents: PortalDocument[] }[]
+  ) => (
+    groups.length > 0 ? (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Number</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead>{partyLabel}</TableHead>
+            <TableHead>Place of Supply</TableHead>
+            <TableHead className="text-right">Taxable Value</TableHead>
+            <TableHead className="text-right">Tax</TableHead>
+            <TableHead className="text-right">Value</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>{documentRows(groups)}</TableBody>
+      </Table>
+    ) : (
+      <div className="text-center py-8 text-neutral-500">Nothing to report in this section</div>
+    )
+  );
+
+  const downloadJson = () => {
+    if (!gstReturn) return;
+    const blob = new Blob([JSON.stringify(gstReturn.gstr1, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `GSTR1_${gstReturn.gstr1.gstin}_${gstReturn.gstr1.fp}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-neutral-800">GSTR-1</h1>
+          <p className="text-sm text-neutral-500">Outward supplies for the tax period, in the GST portal format</p>
+        </div>
+        <Link href="/reports">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Reports
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+            <div>
+              <CardTitle>{gstReturn ? `GSTIN ${gstReturn.gstr1.gstin}` : 'Return Preview'}</CardTitle>
+              <CardDescription>
+                Built from sales invoices, debit notes and customer credit notes
+              </CardDescription>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="period">Tax Period</Label>
+                <Input
+                  id="period"
+                  type="month"
+                  value={period}
+                  max={currentPeriod()}
+                  onChange={(e) => setPeriod(e.target.value)}
+                />
+              </div>
+              <Button onClick={downloadJson} disabled={!gstReturn}>
+                <Download className="h-4 w-4 mr-2" />
+                Download JSON
+              </Button>
+              {filed ? (
+                <Badge variant="outline" className="h-10 px-3 text-green-700 border-green-200 bg-green-50">
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Filed
+                </Badge>
+              ) : (
+                <Button variant="outline" onClick={() => markFiledMutation.mutate()} disabled={!gstReturn || markFiledMutation.isPending}>
+                  Mark as Filed
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error ? (
+            <div className="text-center py-8 text-red-600">{(error as Error).message}</div>
+          ) : isLoading || !gstReturn ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-10 bg-neutral-100 rounded-md"></div>
+              {Array(5).fill(null).map((_, i) => (
+                <div key={i} className="h-12 bg-neutral-50 rounded-md"></div>
+              ))}
+            </div>
+          ) : (
+            <>
+              {gstReturn.issues.length > 0 && (
+                <div className="border border-amber-200 bg-amber-50 rounded-md p-4 space-y-2">
+                  <div className="flex items-center text-amber-800 font-medium">
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    {gstReturn.issues.length} issue{gstReturn.issues.length === 1 ? '' : 's'} to fix before filing
+                  </div>
+                  <ul className="text-sm text-amber-900 space-y-1">
+                    {gstReturn.issues.map((issue, index) => (
+                      <li key={index}>
+                        <span className="font-medium">{issue.transactionNumber}:</span> {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Section</TableHead>
+                    <TableHead className="text-right">Records</TableHead>
+                    <TableHead className="text-right">Taxable Value</TableHead>
+                    <TableHead className="text-right">IGST</TableHead>
+                    <TableHead className="text-right">CGST</TableHead>
+                    <TableHead className="text-right">SGST</TableHead>
+                    <TableHead className="text-right">Cess</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {gstReturn.summary.map((row) => (
+                    <TableRow key={row.section}>
+                      <TableCell className="font-medium">{row.section}</TableCell>
+                      <TableCell className="text-right">{row.records}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.taxableValue)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.igst)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.cgst)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.sgst)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.cess)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Tabs defaultValue="b2b" className="space-y-4">
+                <TabsList>
+                  <TabsTrigger value="b2b">B2B</TabsTrigger>
+                  <TabsTrigger value="b2cl">B2CL</TabsTrigger>
+                  <TabsTrigger value="b2cs">B2CS</TabsTrigger>
+                  <TabsTrigger value="cdnr">CDNR</TabsTrigger>
+                  <TabsTrigger value="hsn">HSN Summary</TabsTrigger>
+                  <TabsTrigger value="docs">Documents</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="b2b">
+                  {documentTable('Customer GSTIN', gstReturn.gstr1.b2b.map((entry) => ({
+                    key: entry.ctin, party: entry.ctin, documents: entry.inv,
+                  })))}
+                </TabsContent>
+
+                <TabsContent value="b2cl">
+                  {documentTable('Customer', gstReturn.gstr1.b2cl.map((entry) => ({
+                    key: entry.pos, party: 'Unregistered', documents: entry.inv,
+                  })))}
+                </TabsContent>
+
+                <TabsContent value="b2cs">
+                  {gstReturn.gstr1.b2cs.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Supply Type</TableHead>
+                          <TableHead>Place of Supply</TableHead>
+                          <TableHead className="text-right">Rate</TableHead>
+                          <TableHead className="text-right">Taxable Value</TableHead>
+                          <TableHead className="text-right">IGST</TableHead>
+                          <TableHead className="text-right">CGST</TableHead>
+                          <TableHead className="text-right">SGST</TableHead>
+                          <TableHead className="text-right">Cess</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {gstReturn.gstr1.b2cs.map((entry) => (
+                          <TableRow key={`${entry.pos}-${entry.rt}`}>
+                            <TableCell>{entry.sply_ty === 'INTER' ? 'Inter-state' : 'Intra-state'}</TableCell>
+                            <TableCell>{stateLabel(entry.pos)}</TableCell>
+                            <TableCell className="text-right">{entry.rt}%</TableCell>
+                            <TableCell className="text-right">{formatCurrency(entry.txval)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(entry.iamt)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(entry.camt)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(entry.samt)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(entry.csamt)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <div className="text-center py-8 text-neutral-500">Nothing to report in this section</div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="cdnr">
+                  {documentTable('Customer GSTIN', gstReturn.gstr1.cdnr.map((entry) => ({
+                    key: entry.ctin, party: entry.ctin, documents: entry.nt,
+                  })))}
+                </TabsContent>
+
+                <TabsContent value="hsn">
+                  {gstReturn.gstr1.hsn.data.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>HSN</TableHead>
+                          <TableHead>Description</TableHead>
+                          <TableHead>UQC</TableHead>
+                          <TableHead className="text-right">Quantity</TableHead>
+                          <TableHead className="text-right">Rate</TableHead>
+                          <TableHead className="text-right">Taxable Value</TableHead>
+                          <TableHead className="text-right">Tax</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {gstReturn.gstr1.hsn.data.map((entry) => (
+                          <TableRow key={entry.num}>
+                            <TableCell className="font-medium">{entry.hsn_sc}</TableCell>
+                            <TableCell>{entry.desc}</TableCell>
+                            <TableCell>{entry.uqc}</TableCell>
+                            <TableCell className="text-right">{entry.qty}</TableCell>
+                            <TableCell className="text-right">{entry.rt}%</TableCell>
+                            <TableCell className="text-right">{formatCurrency(entry.txval)}</TableCell>
+                            <TableCell className="text-right">
+                              {formatCurrency(entry.iamt + entry.camt + entry.samt + entry.csamt)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <div className="text-center py-8 text-neutral-500">Nothing to report in this section</div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="docs">
+                  {gstReturn.gstr1.doc_issue.doc_det.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Document Type</TableHead>
+                          <TableHead>From</TableHead>
+                          <TableHead>To</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                          <TableHead className="text-right">Cancelled</TableHead>
+                          <TableHead className="text-right">Net Issued</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {gstReturn.gstr1.doc_issue.doc_det.flatMap((detail) =>
+                          detail.docs.map((series) => (
+                            <TableRow key={detail.doc_num}>
+                              <TableCell className="font-medium">{detail.doc_typ}</TableCell>
+                              <TableCell>{series.from}</TableCell>
+                              <TableCell>{series.to}</TableCell>
+                              <TableCell className="text-right">{series.totnum}</TableCell>
+                              <TableCell className="text-right">
+                                {series.cancel > 0 ? <Badge variant="outline">{series.cancel}</Badge> : 0}
+                              </TableCell>
+                              <TableCell className="text-right">{series.net_issue}</TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <div className="text-center py-8 text-neutral-500">No documents issued in this period</div>
+                  )}
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,9 +3,11 @@ import { useState } from 'react';
 import { Link } from 'wouter';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
 
 export default function Reports() {
   const [activeTab, setActiveTab] = useState('financial');
+  const { can } = useAuth();
 
   return (
     <div className="p-4 md:p-6 max-w-7xl mx-auto">
@@ -22,6 +24,7 @@ export default function Reports() {
           <TabsTrigger value="sales">Sales</TabsTrigger>
           <TabsTrigger value="purchases">Purchases</TabsTrigger>
           <TabsTrigger value="inventory">Inventory</TabsTrigger>
+          {can('manage_gst') && <TabsTrigger value="gst">GST</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="financial" className="space-y-4">
@@ -58,6 +61,19 @@ export default function Reports() {
                 </CardContent>
               </Card>
             </Link>
+
+            {can('manage_accounts') && (
+              <Link href="/reports/trial-balance">
+                <Card className="h-full hover:bg-neutral-50 transition-colors">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Trial Balance</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-neutral-600">Closing balance of every ledger account as of a date</p>
+                  </CardContent>
+                </Card>
+              </Link>
+            )}
           </div>
         </TabsContent>
 
@@ -159,18 +175,35 @@ export default function Reports() {
               </Card>
             </Link>
 
-            <Link href="/reports/inventory/stock-valuation">
+            <Link href="/reports/inventory/closing-stock">
               <Card className="h-full hover:bg-neutral-50 transition-colors">
                 <CardHeader>
-                  <CardTitle className="text-lg">Stock Valuation</CardTitle>
+                  <CardTitle className="text-lg">Closing Stock</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <p className="text-sm text-neutral-600">Value of current inventory</p>
+                  <p className="text-sm text-neutral-600">Stock value at cost by item, group and godown</p>
                 </CardContent>
               </Card>
             </Link>
           </div>
         </TabsContent>
+
+        {can('manage_gst') && (
+          <TabsContent value="gst" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Link href="/reports/gst/gstr-1">
+                <Card className="h-full hover:bg-neutral-50 transition-colors">
+                  <CardHeader>
+                    <CardTitle className="text-lg">GSTR-1</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-neutral-600">Outward supplies return with portal JSON export</p>
+                  </CardContent>
+                </Card>
+              </Link>
+            </div>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { TrialBalance } from '@/types';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const amount = (value: number) => (value ? formatCurrency(value) : '');
+
+export default function TrialBalanceReport() {
+  const [asOf, setAsOf] = useState(today());
+
+  const { data: trialBalance, isLoading } = useQuery<TrialBalance>({
+    queryKey: [`/api/ledger/trial-balance?asOf=${asOf}`],
+    enabled: !!asOf,
+  });
+
+  const balanced = trialBalance && trialBalance.totalDebit === trialBalance.totalCredit;
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-neutral-800">Trial Balance</h1>
+          <p className="text-sm text-neutral-500">Closing balance of every account in the general ledger</p>
+        </div>
+        <Link href="/reports">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Reports
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                {trialBalance ? formatCurrency(trialBalance.totalDebit) : '-'}
+                {trialBalance && (
+                  <Badge className={balanced ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                    {balanced ? 'Balanced' : 'Out of balance'}
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                {trialBalance?.asOf ? `Debits and credits as of ${formatDate(trialBalance.asOf)}` : 'Total debits and credits'}
+              </CardDescription>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="asOf">As of</Label>
+              <Input
+                id="asOf"
+                type="date"
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !trialBalance ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-10 bg-neutral-100 rounded-md"></div>
+              {Array(5).fill(null).map((_, i) => (
+                <div key={i} className="h-12 bg-neutral-50 rounded-md"></div>
+              ))}
+            </div>
+          ) : trialBalance.rows.length === 0 ? (
+            <div className="text-center py-8 text-neutral-500">Nothing posted to the ledger by this date</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Group</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trialBalance.rows.map((row) => (
+                    <TableRow key={row.accountId}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-neutral-500">{row.groupName}</TableCell>
+                      <TableCell className="text-right">{amount(row.debit)}</TableCell>
+                      <TableCell className="text-right">{amount(row.credit)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2}>Total</TableCell>
+                    <TableCell className="text-right">{formatCurrency(trialBalance.totalDebit)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(trialBalance.totalCredit)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
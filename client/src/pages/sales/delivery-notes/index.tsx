@@ -1,11 +1,20 @@
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'wouter';
+import { Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import TransactionDetailView from '@/components/TransactionDetailView';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import { formatDate } from '@/lib/utils';
+import { Party, Transaction } from '@shared/schema';
 
 const DeliveryNotes = () => {
-  const { data: deliveryNotes, isLoading } = useQuery({
+  const { toast } = useToast();
+  const [selectedTransaction, setSelectedTransaction] = useState<number | null>(null);
+
+  const { data: deliveryNotes, isLoading } = useQuery<Transaction[]>({
     queryKey: ['transactions', 'delivery_note'],
     queryFn: async () => {
       const response = await fetch('/api/transactions?type=delivery_note');
@@ -13,6 +22,44 @@ const DeliveryNotes = () => {
     },
   });
 
+  const { data: customers } = useQuery<Party[]>({
+    queryKey: ['/api/parties', { type: 'customer' }],
+  });
+
+  const selectedNote = deliveryNotes?.find(note => note.id === selectedTransaction);
+
+  // Notes still moving without an e-way bill
+  const pendingEwayBills = deliveryNotes?.filter(note => !note.ewbNumber && note.status !== 'cancelled') ?? [];
+
+  const exportEwayBills = async () => {
+    try {
+      const ids = pendingEwayBills.map(note => note.id).join(',');
+      const res = await apiRequest('GET', `/api/e-way-bills/export?ids=${ids}`);
+      const { file, issues } = await res.json();
+      if (file.billLists.length === 0) {
+        toast({ title: 'No delivery notes are ready', description: 'Add transport details first', variant: 'destructive' });
+        return;
+      }
+
+      const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `EWB_${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (issues.length > 0) {
+        toast({
+          title: `${file.billLists.length} e-way bills exported`,
+          description: `${issues.length} delivery notes skipped until their transport details are complete`,
+        });
+      }
+    } catch (error) {
+      toast({ title: 'Could not export e-way bills', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
   return (
     <div className="p-4 md:p-6 max-w-7xl mx-auto">
       <div className="flex justify-between items-center mb-6">
@@ -20,39 +67,64 @@ const DeliveryNotes = () => {
           <h1 className="text-2xl font-semibold text-neutral-800">Delivery Notes</h1>
           <p className="text-sm text-neutral-500">Manage your delivery notes</p>
         </div>
-        <Link href="/sales/delivery-notes/new">
-          <Button>Create Delivery Note</Button>
-        </Link>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={exportEwayBills} disabled={pendingEwayBills.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export E-Way Bills
+          </Button>
+          <Link href="/sales/delivery-notes/new">
+            <Button>Create Delivery Note</Button>
+          </Link>
+        </div>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>All Delivery Notes</CardTitle>
-        </CardHeader>
-        <CardContent>
-          {isLoading ? (
-            <div className="text-center py-4">Loading...</div>
-          ) : deliveryNotes?.length === 0 ? (
-            <div className="text-center py-4 text-neutral-500">No delivery notes found</div>
-          ) : (
-            <div className="space-y-4">
-              {deliveryNotes?.map((note: any) => (
-                <div key={note.id} className="flex justify-between items-center p-4 border rounded-lg">
-                  <div>
-                    <h3 className="font-medium">{note.transactionNumber}</h3>
-                    <p className="text-sm text-neutral-500">{formatDate(note.transactionDate)}</p>
+      <div className={`flex flex-col ${selectedTransaction ? 'md:flex-row' : ''} gap-6`}>
+        <Card className={selectedTransaction ? 'md:w-1/3' : 'w-full'}>
+          <CardHeader>
+            <CardTitle>All Delivery Notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-4">Loading...</div>
+            ) : deliveryNotes?.length === 0 ? (
+              <div className="text-center py-4 text-neutral-500">No delivery notes found</div>
+            ) : (
+              <div className="space-y-4">
+                {deliveryNotes?.map((note) => (
+                  <div
+                    key={note.id}
+                    className={`flex justify-between items-center p-4 border rounded-lg cursor-pointer hover:bg-neutral-50 ${selectedTransaction === note.id ? 'border-primary bg-neutral-50' : ''}`}
+                    onClick={() => setSelectedTransaction(note.id)}
+                  >
+                    <div>
+                      <h3 className="font-medium">{note.transactionNumber}</h3>
+                      <p className="text-sm text-neutral-500">{note.transactionDate && formatDate(note.transactionDate)}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm text-neutral-500">{note.status}</p>
+                      {note.ewbNumber && (
+                        <p className="text-xs text-neutral-400 font-mono">EWB {note.ewbNumber}</p>
+                      )}
+                    </div>
                   </div>
-                  <div className="text-right">
-                    <p className="text-sm text-neutral-500">{note.status}</p>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedTransaction && selectedNote && (
+          <TransactionDetailView
+            transaction={selectedNote}
+            parties={customers}
+            onClose={() => setSelectedTransaction(null)}
+            transactionTitle="Delivery Note"
+            partyType="customer"
+          />
+        )}
+      </div>
     </div>
   );
 };
 
-export default DeliveryNotes;
\ No newline at end of file
+export default DeliveryNotes;
@@ -1,5 +1,5 @@
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
@@ -11,6 +11,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useQuery } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { useNextNumber } from '@/hooks/use-next-number';
 
 const deliveryNoteSchema = z.object({
   transactionNumber: z.string().min(1, "Delivery note number is required"),
@@ -37,11 +38,18 @@ const NewDeliveryNote = () => {
   const form = useForm({
     resolver: zodResolver(deliveryNoteSchema),
     defaultValues: {
-      transactionNumber: `DN-${new Date().getFullYear()}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`,
+      transactionNumber: '',
       transactionDate: new Date(),
     },
   });
 
+  const { data: nextNumber } = useNextNumber('delivery_note');
+  useEffect(() => {
+    if (nextNumber && !form.getValues('transactionNumber')) {
+      form.setValue('transactionNumber', nextNumber.transactionNumber);
+    }
+  }, [nextNumber]);
+
   const onSubmit = async (data: any) => {
     try {
       setIsSubmitting(true);
@@ -10,6 +10,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { useNextNumber } from '@/hooks/use-next-number';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { DatePicker } from '@/components/ui/date-picker';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -56,9 +57,7 @@ export default function NewEstimate() {
     resolver: zodResolver(formSchema),
     defaultValues: {
       transactionType: isQuotation ? 'quotation' : 'estimate',
-      transactionNumber: isQuotation ? 
-        `QOT-${new Date().getFullYear()}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}` :
-        `EST-${new Date().getFullYear()}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`,
+      transactionNumber: '',
       status: 'draft',
       transactionDate: new Date(),
       dueDate: null,
@@ -70,17 +69,18 @@ export default function NewEstimate() {
     },
   });
 
+  const { data: nextNumber } = useNextNumber(isQuotation ? 'quotation' : 'estimate');
+
   // Update transaction type when isQuotation changes
   useEffect(() => {
     form.setValue('transactionType', isQuotation ? 'quotation' : 'estimate');
-    
-    // Update transaction number
-    const newNumber = isQuotation ? 
-      `QOT-${new Date().getFullYear()}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}` :
-      `EST-${new Date().getFullYear()}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
-    form.setValue('transactionNumber', newNumber);
   }, [isQuotation, form]);
 
+  // Each type has its own series, so the number follows the type
+  useEffect(() => {
+    form.setValue('transactionNumber', nextNumber?.transactionNumber ?? '');
+  }, [nextNumber, form]);
+
   async function onSubmit(data: FormValues) {
     try {
       setIsSubmitting(true);
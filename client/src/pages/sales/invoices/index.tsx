@@ -45,6 +45,7 @@ import {
   CreditCardIcon,
   ArchiveIcon
 } from 'lucide-react';
+import EInvoiceDetails from '@/components/EInvoiceDetails';
 
 const Invoices = () => {
   const [searchTerm, setSearchTerm] = useState('');
@@ -452,6 +453,12 @@ const Invoices = () => {
                         </div>
                       </div>
 
+                      {/* E-invoice registration */}
+                      <div className="p-4 border-t">
+                        <h4 className="text-sm font-medium mb-2">E-Invoice</h4>
+                        <EInvoiceDetails transactionId={selectedInvoice.id} />
+                      </div>
+
                       {/* Notes and References */}
                       <div className="p-4 border-t">
                         <h4 className="text-sm font-medium mb-2">Notes & References</h4>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -30,6 +30,7 @@ import {
 import { DatePicker } from '@/components/ui/date-picker';
 import { Plus, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useNextNumber } from '@/hooks/use-next-number';
 
 
 const formSchema = z.object({
@@ -56,10 +57,18 @@ export default function NewInvoice() {
   const form = useForm({
     resolver: zodResolver(formSchema),
     defaultValues: {
+      invoiceNumber: '',
       items: [{ itemId: 0, name: '', description: '', quantity: 1, price: 0, taxRate: 0, discount: 0 }],
     },
   });
 
+  const { data: nextNumber } = useNextNumber('sales_invoice');
+  useEffect(() => {
+    if (nextNumber && !form.getValues('invoiceNumber')) {
+      form.setValue('invoiceNumber', nextNumber.transactionNumber);
+    }
+  }, [nextNumber]);
+
   const onSubmit = async (data: any) => {
     try {
       const response = await fetch('/api/transactions', {
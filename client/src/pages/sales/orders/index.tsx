@@ -43,10 +43,13 @@ import {
   getStatusLabel
 } from '@/lib/utils';
 import { ChevronDownIcon, FilterIcon } from 'lucide-react';
+import type { ConvertibleType } from '@shared/documentChain';
+import ConvertDocumentDialog from '@/components/ConvertDocumentDialog';
 
 const Orders = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [activeTab, setActiveTab] = useState('all');
+  const [conversion, setConversion] = useState<{ order: Transaction; targetType: ConvertibleType } | null>(null);
   
   // Fetch sales orders
   const { data: orders, isLoading } = useQuery<Transaction[]>({
@@ -207,12 +210,12 @@ const Orders = () => {
                                   <Link href={`/sales/orders/${order.id}/edit`}>
                                     <DropdownMenuItem>Edit Order</DropdownMenuItem>
                                   </Link>
-                                  <Link href={`/sales/delivery-notes/new?orderId=${order.id}`}>
-                                    <DropdownMenuItem>Create Delivery Note</DropdownMenuItem>
-                                  </Link>
-                                  <Link href={`/sales/invoices/new?orderId=${order.id}`}>
-                                    <DropdownMenuItem>Create Invoice</DropdownMenuItem>
-                                  </Link>
+                                  <DropdownMenuItem onSelect={() => setConversion({ order, targetType: 'delivery_note' })}>
+                                    Create Delivery Note
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onSelect={() => setConversion({ order, targetType: 'sales_invoice' })}>
+                                    Create Invoice
+                                  </DropdownMenuItem>
                                   <DropdownMenuSeparator />
                                   <DropdownMenuItem>Update Status</DropdownMenuItem>
                                   <DropdownMenuSeparator />
@@ -238,6 +241,10 @@ const Orders = () => {
           </Tabs>
         </CardContent>
       </Card>
+
+      {conversion && (
+        <ConvertDocumentDialog source={conversion.order} targetType={conversion.targetType} onClose={() => setConversion(null)} />
+      )}
     </div>
   );
 };
@@ -19,16 +19,6 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 import {
   Select,
   SelectContent,
@@ -56,6 +46,7 @@ import {
   getStatusLabel
 } from '@/lib/utils';
 import { Transaction, Party } from '@shared/schema';
+import CancelDocumentDialog from '@/components/CancelDocumentDialog';
 
 const QuotationRequestDetail = () => {
   const { id } = useParams<{ id: string }>();
@@ -123,12 +114,6 @@ const QuotationRequestDetail = () => {
     }
   };
   
-  // Handle request cancellation
-  const handleCancelRequest = () => {
-    updateStatus.mutate('cancelled');
-    setCancelDialogOpen(false);
-  };
-  
   if (requestLoading) {
     return (
       <div className="p-4 md:p-6 space-y-6 max-w-7xl mx-auto">
@@ -310,29 +295,14 @@ const QuotationRequestDetail = () => {
             </DialogContent>
           </Dialog>
           
-          <AlertDialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
-            <Button 
-              variant="destructive" 
-              onClick={() => setCancelDialogOpen(true)} 
-              disabled={request.status === 'cancelled' || request.status === 'closed'}
-            >
-              Cancel Request
-            </Button>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Cancel Quotation Request</AlertDialogTitle>
-                <AlertDialogDescription>
-                  Are you sure you want to cancel this quotation request? This action cannot be undone.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>No, Keep It</AlertDialogCancel>
-                <AlertDialogAction onClick={handleCancelRequest}>
-                  Yes, Cancel Request
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+          <Button 
+            variant="destructive" 
+            onClick={() => setCancelDialogOpen(true)} 
+            disabled={request.status === 'cancelled' || request.status === 'closed'}
+          >
+            Cancel Request
+          </Button>
+          <CancelDocumentDialog transaction={request} open={cancelDialogOpen} onClose={() => setCancelDialogOpen(false)} />
         </div>
       </div>
       
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -41,6 +41,7 @@ import {
 } from '@/components/ui/popover';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useNextNumber } from '@/hooks/use-next-number';
 import { CalendarIcon, ChevronLeftIcon } from 'lucide-react';
 
 // Create schema validation for form
@@ -86,6 +87,13 @@ const NewQuotationRequest = () => {
     resolver: zodResolver(formSchema),
     defaultValues,
   });
+
+  const { data: nextNumber } = useNextNumber('quotation_request');
+  useEffect(() => {
+    if (nextNumber && !form.getValues('transactionNumber')) {
+      form.setValue('transactionNumber', nextNumber.transactionNumber);
+    }
+  }, [nextNumber]);
   
   // Set up mutation for form submission
   const createTransaction = useMutation({
@@ -14,7 +14,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Party, Item } from '@shared/schema';
+import { Party, ItemWithMasters } from '@shared/schema';
 import { formatCurrency } from '@/lib/utils';
 import { Link } from 'wouter';
 
@@ -30,7 +30,7 @@ const Search = () => {
   });
   
   // Fetch items for search
-  const { data: items, isLoading: itemsLoading } = useQuery<Item[]>({
+  const { data: items, isLoading: itemsLoading } = useQuery<ItemWithMasters[]>({
     queryKey: ['/api/items'],
     enabled: searchType === 'items',
   });
@@ -45,7 +45,7 @@ const Search = () => {
   const filteredItems = items?.filter(item => 
     item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     item.hsnCode?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    item.category?.toLowerCase().includes(searchTerm.toLowerCase())
+    item.stockGroupName?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   return (
@@ -166,8 +166,8 @@ const Search = () => {
                       </div>
                       <CardContent className="p-4">
                         <h3 className="font-semibold text-neutral-800 line-clamp-1">{item.name}</h3>
-                        {item.category && (
-                          <p className="text-xs text-neutral-500 mt-1">{item.category}</p>
+                        {item.stockGroupName && (
+                          <p className="text-xs text-neutral-500 mt-1">{item.stockGroupName}</p>
                         )}
                         <div className="mt-3">
                           <span className="font-semibold text-primary">
@@ -263,12 +263,12 @@ const Search = () => {
                       <div className="flex justify-between">
                         <h3 className="font-medium">{item.name}</h3>
                         <span className="text-xs px-2 py-1 bg-green-100 text-green-800 rounded">
-                          {item.category || 'Uncategorized'}
+                          {item.stockGroupName || 'Uncategorized'}
                         </span>
                       </div>
                       <div className="mt-1 text-sm text-neutral-500">HSN: {item.hsnCode || 'N/A'}</div>
                       <div className="mt-2 flex justify-between text-sm">
-                        <span>Stock: {item.openingStock} {item.unit}</span>
+                        <span>Stock: {item.openingStock} {item.unitSymbol}</span>
                         <span className="font-medium">Price: {formatCurrency(Number(item.sellingPrice))}</span>
                       </div>
                     </div>
@@ -26,7 +26,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Tag, Eye, Edit, MoreVertical, Plus, Search, Settings, ChevronRight, Star, ShoppingBag, HeartOff, Heart, Check, X } from 'lucide-react';
-import { Item } from '@shared/schema';
+import { ItemWithMasters } from '@shared/schema';
 import { formatCurrency } from '@/lib/utils';
 import { apiRequest } from '@/lib/queryClient';
 
@@ -45,7 +45,7 @@ export default function MyListingsPage() {
 
   // For simplicity, this is a frontend filter of items that have listing information
   // In a real app, you would have a separate endpoint for this
-  interface MarketplaceItem extends Item {
+  interface MarketplaceItem extends ItemWithMasters {
     isListed: boolean;
     listingDescription: string;
     marketplaceImages?: string[];
@@ -56,15 +56,15 @@ export default function MyListingsPage() {
 
   // Filter items to get only those with marketplace information
   const myItems = items
-    .filter((item: Item) => item.isListed !== undefined)
-    .map((item: Item) => ({
+    .filter((item: ItemWithMasters) => item.isListed !== undefined)
+    .map((item: ItemWithMasters) => ({
       ...item,
       isListed: item.isListed || false,
       listingDescription: item.listingDescription || '',
       marketplaceImages: item.imageUrls || [item.imageUrl].filter(Boolean),
       listingStatus: item.listingStatus || 'inactive',
       listingTags: item.listingTags || [],
-      listingCategory: item.listingCategory || item.category || 'Uncategorized'
+      listingCategory: item.listingCategory || item.stockGroupName || 'Uncategorized'
     })) as MarketplaceItem[];
 
   // Get categories from products
@@ -162,8 +162,8 @@ export default function MyListingsPage() {
                       </SelectTrigger>
                       <SelectContent>
                         {items
-                          .filter((item: Item) => !item.isListed)
-                          .map((item: Item) => (
+                          .filter((item: ItemWithMasters) => !item.isListed)
+                          .map((item: ItemWithMasters) => (
                             <SelectItem key={item.id} value={item.id.toString()}>
                               {item.name}
                             </SelectItem>
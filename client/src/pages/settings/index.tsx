@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { 
   Card, 
@@ -14,9 +14,27 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { TallySyncLog } from '@shared/schema';
 import { formatDate } from '@/lib/utils';
+import { useAuth } from '@/hooks/use-auth';
+import UsersPermissions from '@/components/settings/UsersPermissions';
+import InventoryValuation from '@/components/settings/InventoryValuation';
+import TallyConnection from '@/components/settings/TallyConnection';
+import TallyMappings from '@/components/settings/TallyMappings';
+import TallySyncSchedule from '@/components/settings/TallySyncSchedule';
+import BillMatching from '@/components/settings/BillMatching';
+import NumberingSeries from '@/components/settings/NumberingSeries';
+import TallySyncEntries from '@/components/settings/TallySyncEntries';
+
+const syncStatusBadges: Record<string, { label: string; className: string }> = {
+  success: { label: 'Success', className: 'bg-green-100 text-green-800' },
+  partial: { label: 'Partial', className: 'bg-yellow-100 text-yellow-800' },
+  running: { label: 'Running', className: 'bg-blue-100 text-blue-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
 
 const Settings = () => {
   const [activeTab, setActiveTab] = useState('general');
+  const [expandedLogId, setExpandedLogId] = useState<number | null>(null);
+  const { can } = useAuth();
   
   // Fetch tally sync logs for the sync history tab
   const { data: syncLogs, isLoading: syncLogsLoading } = useQuery<TallySyncLog[]>({
@@ -42,7 +60,9 @@ const Settings = () => {
               <TabsTrigger value="general">General</TabsTrigger>
               <TabsTrigger value="tallySync">Tally Sync</TabsTrigger>
               <TabsTrigger value="payment">Payment Methods</TabsTrigger>
-              <TabsTrigger value="users">Users & Permissions</TabsTrigger>
+              {can('manage_users') && (
+                <TabsTrigger value="users">Users & Permissions</TabsTrigger>
+              )}
               <TabsTrigger value="notifications">Notifications</TabsTrigger>
             </TabsList>
             
@@ -94,6 +114,12 @@ const Settings = () => {
                   </div>
                 </div>
                 
+                <InventoryValuation />
+                
+                <BillMatching />
+                
+                <NumberingSeries />
+                
                 <div className="space-y-4">
                   <h3 className="text-lg font-medium">Preferences</h3>
                   
@@ -112,11 +138,6 @@ const Settings = () => {
                       <Label htmlFor="smsNotifications" className="cursor-pointer">Enable SMS Notifications</Label>
                       <Switch id="smsNotifications" />
                     </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <Label htmlFor="autoSync" className="cursor-pointer">Auto-sync with Tally</Label>
-                      <Switch id="autoSync" defaultChecked />
-                    </div>
                   </div>
                 </div>
                 
@@ -128,58 +149,11 @@ const Settings = () => {
             
             <TabsContent value="tallySync">
               <div className="space-y-6">
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Tally Integration Settings</h3>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="tallyPath">Tally Path</Label>
-                      <Input id="tallyPath" defaultValue="C:\Tally.ERP9" />
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <Label htmlFor="tallyVersion">Tally Version</Label>
-                      <Input id="tallyVersion" defaultValue="Tally ERP 9" />
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <Label htmlFor="syncInterval">Sync Interval (minutes)</Label>
-                      <Input id="syncInterval" type="number" defaultValue="60" />
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <Label htmlFor="maxTransactions">Max Transactions per Sync</Label>
-                      <Input id="maxTransactions" type="number" defaultValue="100" />
-                    </div>
-                  </div>
-                  
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between">
-                      <Label htmlFor="syncSales" className="cursor-pointer">Sync Sales</Label>
-                      <Switch id="syncSales" defaultChecked />
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <Label htmlFor="syncPurchases" className="cursor-pointer">Sync Purchases</Label>
-                      <Switch id="syncPurchases" defaultChecked />
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <Label htmlFor="syncPayments" className="cursor-pointer">Sync Payments</Label>
-                      <Switch id="syncPayments" defaultChecked />
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <Label htmlFor="syncReceipts" className="cursor-pointer">Sync Receipts</Label>
-                      <Switch id="syncReceipts" defaultChecked />
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <Label htmlFor="syncItems" className="cursor-pointer">Sync Inventory Items</Label>
-                      <Switch id="syncItems" defaultChecked />
-                    </div>
-                  </div>
-                </div>
+                <TallyConnection />
+
+                <TallyMappings />
+                
+                <TallySyncSchedule />
                 
                 <div className="space-y-4">
                   <h3 className="text-lg font-medium">Sync History</h3>
@@ -204,27 +178,40 @@ const Settings = () => {
                         </thead>
                         <tbody className="bg-white divide-y divide-neutral-200">
                           {syncLogs.map((log) => (
-                            <tr key={log.id} className="hover:bg-neutral-50">
-                              <td className="px-4 py-2 whitespace-nowrap text-sm">
-                                {formatDate(log.syncedAt)}
-                              </td>
-                              <td className="px-4 py-2 whitespace-nowrap text-sm">
-                                <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${log.syncType === 'pull' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'}`}>
-                                  {log.syncType === 'pull' ? 'Pull from Tally' : 'Push to Tally'}
-                                </span>
-                              </td>
-                              <td className="px-4 py-2 whitespace-nowrap text-sm">
-                                <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${log.syncStatus === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                                  {log.syncStatus === 'success' ? 'Success' : 'Failed'}
-                                </span>
-                              </td>
-                              <td className="px-4 py-2 whitespace-nowrap text-sm">
-                                {log.transactionCount || 0}
-                              </td>
-                              <td className="px-4 py-2 whitespace-nowrap text-sm text-neutral-500">
-                                {log.details}
-                              </td>
-                            </tr>
+                            <Fragment key={log.id}>
+                              <tr
+                                className="hover:bg-neutral-50 cursor-pointer"
+                                onClick={() => setExpandedLogId(expandedLogId === log.id ? null : log.id)}
+                              >
+                                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                                  {formatDate(log.syncedAt)}
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                                  <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${log.syncType === 'pull' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'}`}>
+                                    {log.syncType === 'pull' ? 'Pull from Tally' : 'Push to Tally'}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                                  <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${(syncStatusBadges[log.syncStatus] ?? syncStatusBadges.failed).className}`}>
+                                    {(syncStatusBadges[log.syncStatus] ?? syncStatusBadges.failed).label}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                                  {log.transactionCount || 0}
+                                  {!!log.failedCount && <span className="text-red-600 ml-1">({log.failedCount} failed)</span>}
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-neutral-500">
+                                  {log.details}
+                                </td>
+                              </tr>
+                              {expandedLogId === log.id && (
+                                <tr>
+                                  <td colSpan={5} className="px-4 py-3 bg-neutral-50">
+                                    <TallySyncEntries logId={log.id} />
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
                           ))}
                         </tbody>
                       </table>
@@ -237,7 +224,6 @@ const Settings = () => {
                 </div>
                 
                 <div className="flex justify-end space-x-2">
-                  <Button variant="outline">Test Connection</Button>
                   <Button>Save Changes</Button>
                 </div>
               </div>
@@ -328,193 +314,11 @@ const Settings = () => {
               </div>
             </TabsContent>
             
-            <TabsContent value="users">
-              <div className="space-y-6">
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">User Management</h3>
-                  
-                  <div className="border rounded-md overflow-hidden">
-                    <table className="min-w-full divide-y divide-neutral-200">
-                      <thead className="bg-neutral-50">
-                        <tr>
-                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">User</th>
-                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Email</th>
-                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Role</th>
-                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Status</th>
-                          <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">Actions</th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-white divide-y divide-neutral-200">
-                        <tr className="hover:bg-neutral-50">
-                          <td className="px-4 py-4 whitespace-nowrap">
-                            <div className="flex items-center">
-                              <div className="flex-shrink-0 h-8 w-8 rounded-full bg-primary-100 text-primary-800 flex items-center justify-center font-medium">
-                                AD
-                              </div>
-                              <div className="ml-3">
-                                <div className="text-sm font-medium text-gray-900">Admin User</div>
-                              </div>
-                            </div>
-                          </td>
-                          <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
-                            admin@example.com
-                          </td>
-                          <td className="px-4 py-4 whitespace-nowrap text-sm">
-                            <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800">
-                              Administrator
-                            </span>
-                          </td>
-                          <td className="px-4 py-4 whitespace-nowrap text-sm">
-                            <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                              Active
-                            </span>
-                          </td>
-                          <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
-                            <Button variant="ghost" size="sm">Edit</Button>
-                          </td>
-                        </tr>
-                        
-                        <tr className="hover:bg-neutral-50">
-                          <td className="px-4 py-4 whitespace-nowrap">
-                            <div className="flex items-center">
-                              <div className="flex-shrink-0 h-8 w-8 rounded-full bg-neutral-100 text-neutral-800 flex items-center justify-center font-medium">
-                                AC
-                              </div>
-                              <div className="ml-3">
-                                <div className="text-sm font-medium text-gray-900">Accountant</div>
-                              </div>
-                            </div>
-                          </td>
-                          <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
-                            accountant@example.com
-                          </td>
-                          <td className="px-4 py-4 whitespace-nowrap text-sm">
-                            <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
-                              Accountant
-                            </span>
-                          </td>
-                          <td className="px-4 py-4 whitespace-nowrap text-sm">
-                            <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                              Active
-                            </span>
-                          </td>
-                          <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
-                            <Button variant="ghost" size="sm">Edit</Button>
-                          </td>
-                        </tr>
-                      </tbody>
-                    </table>
-                  </div>
-                  
-                  <div className="flex justify-end">
-                    <Button>Add User</Button>
-                  </div>
-                </div>
-                
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Role Permissions</h3>
-                  
-                  <div className="border rounded-md overflow-hidden">
-                    <table className="min-w-full divide-y divide-neutral-200">
-                      <thead className="bg-neutral-50">
-                        <tr>
-                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Permission</th>
-                          <th scope="col" className="px-4 py-3 text-center text-xs font-medium text-neutral-500 uppercase tracking-wider">Administrator</th>
-                          <th scope="col" className="px-4 py-3 text-center text-xs font-medium text-neutral-500 uppercase tracking-wider">Accountant</th>
-                          <th scope="col" className="px-4 py-3 text-center text-xs font-medium text-neutral-500 uppercase tracking-wider">Sales</th>
-                          <th scope="col" className="px-4 py-3 text-center text-xs font-medium text-neutral-500 uppercase tracking-wider">Purchase</th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-white divide-y divide-neutral-200">
-                        <tr className="hover:bg-neutral-50">
-                          <td className="px-4 py-3 text-sm">View Dashboard</td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                        </tr>
-                        
-                        <tr className="hover:bg-neutral-50">
-                          <td className="px-4 py-3 text-sm">Manage Sales</td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch />
-                          </td>
-                        </tr>
-                        
-                        <tr className="hover:bg-neutral-50">
-                          <td className="px-4 py-3 text-sm">Manage Purchases</td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                        </tr>
-                        
-                        <tr className="hover:bg-neutral-50">
-                          <td className="px-4 py-3 text-sm">Sync with Tally</td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch />
-                          </td>
-                        </tr>
-                        
-                        <tr className="hover:bg-neutral-50">
-                          <td className="px-4 py-3 text-sm">Manage Users</td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch defaultChecked />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch />
-                          </td>
-                          <td className="px-4 py-3 text-center">
-                            <Switch />
-                          </td>
-                        </tr>
-                      </tbody>
-                    </table>
-                  </div>
-                </div>
-                
-                <div className="flex justify-end">
-                  <Button>Save Changes</Button>
-                </div>
-              </div>
-            </TabsContent>
+            {can('manage_users') && (
+              <TabsContent value="users">
+                <UsersPermissions />
+              </TabsContent>
+            )}
             
             <TabsContent value="notifications">
               <div className="space-y-6">
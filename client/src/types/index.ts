@@ -6,7 +6,13 @@ import {
   TransactionItem,
   BnplLimit,
   TallySyncLog,
+  TransactionRevisionContent,
+  TransactionRevisionChange,
+  NumberingSeries,
+  JournalEntry,
+  JournalLine,
 } from "@shared/schema";
+import type { ConvertibleType } from "@shared/documentChain";
 
 export interface DashboardData {
   openPayables: {
@@ -33,11 +39,205 @@ export interface DashboardData {
   purchaseBnplLimits: BnplLimit[];
   salesBnplLimits: BnplLimit[];
   recentSyncLog?: TallySyncLog;
-  pendingSyncs: {
-    invoices: number;
-    payments: number;
-    receipts: number;
-  };
+  ewayBillAlerts: EwayBillAlert[];
+  pendingSyncs: TallyPendingSummary;
+}
+
+export type TallyPendingState = 'pending' | 'modified' | 'failed' | 'retry';
+
+// Documents not yet in Tally, counted by type and by how the last push left them
+export interface TallyPendingCount {
+  transactionType: string;
+  enabled: boolean;
+  total: number;
+  pending: number;
+  modified: number;
+  failed: number;
+  retry: number;
+}
+
+export interface TallyPendingSummary {
+  total: number;
+  pending: number;
+  modified: number;
+  failed: number;
+  retry: number;
+  byType: TallyPendingCount[];
+}
+
+export interface TallyPendingDocument {
+  transactionId: number;
+  transactionNumber: string;
+  transactionType: string;
+  transactionDate: string | null;
+  partyName: string | null;
+  amount: string;
+  state: TallyPendingState;
+  error: string | null;
+  attempts: number;
+  lastAttemptAt: string | null;
+}
+
+// A document edited since it was synced, next to the version Tally has
+export interface TallySyncConflict {
+  transactionId: number;
+  transactionNumber: string;
+  transactionType: string;
+  partyName: string | null;
+  modifiedAt: string | null;
+  changes: {
+    field: string;
+    synced: string | null;
+    current: string | null;
+  }[];
+}
+
+// An e-way bill of goods still in transit that has lapsed or lapses within a day
+export interface EwayBillAlert {
+  transactionId: number;
+  transactionNumber: string;
+  transactionType: string;
+  ewbNumber: string;
+  ewbValidUntil: string;
+  vehicleNumber: string | null;
+  expired: boolean;
+}
+
+// Where a document came from, what was converted from it, and how much of each line is left
+export interface DocumentChainDocument {
+  id: number;
+  transactionNumber: string;
+  transactionType: string;
+  status: string | null;
+  amount: string;
+}
+
+export interface DocumentChain {
+  targets: ConvertibleType[];
+  lines: {
+    lineId: number;
+    itemId: number | null;
+    description: string | null;
+    quantity: number;
+    converted: Partial<Record<ConvertibleType, number>>;
+    remaining: Partial<Record<ConvertibleType, number>>;
+  }[];
+  source: DocumentChainDocument | null;
+  converted: DocumentChainDocument[];
+}
+
+// Three-way match of a purchase bill against its order and GRNs
+export type BillMatchStatus = NonNullable<Transaction['matchStatus']>;
+
+export interface BillMatch {
+  status: BillMatchStatus;
+  note: string | null;
+  order: { id: number; transactionNumber: string } | null;
+  receipts: { id: number; transactionNumber: string }[];
+  lines: {
+    lineId: number;
+    itemId: number | null;
+    description: string | null;
+    quantity: number;
+    rate: number;
+    orderLineId: number | null;
+    orderedQuantity: number | null;
+    orderRate: number | null;
+    receivedQuantity: number;
+    billedEarlier: number;
+    issues: string[];
+  }[];
+  approvedBy: number | null;
+  approvedAt: string | null;
+}
+
+// Receipts, payments and notes applied against invoices and bills
+export interface AllocationDocument {
+  id: number;
+  transactionNumber: string;
+  transactionType: string;
+  transactionDate: string;
+  dueDate: string | null;
+  amount: string;
+  balanceDue: string | null;
+  status: string | null;
+}
+
+export interface PaymentAllocationWithCounterpart {
+  id: number;
+  paymentId: number;
+  documentId: number;
+  amount: string;
+  createdAt: string;
+  counterpart: AllocationDocument | null;
+}
+
+export interface TransactionAllocations {
+  allocations: PaymentAllocationWithCounterpart[];
+  allocated: number;
+  unallocated: number | null;
+}
+
+export interface OpenItems {
+  payments: (AllocationDocument & { unallocated: number })[];
+  documents: AllocationDocument[];
+}
+
+// A line of an invoice or bill with how much of it debit or credit notes have sent back
+export interface ReturnableLine {
+  lineId: number;
+  itemId: number | null;
+  description: string | null;
+  quantity: number;
+  rate: string;
+  taxRate: string | null;
+  cessRate: string | null;
+  godownId: number | null;
+  returned: number;
+  returnable: number;
+}
+
+// One saved version of a document: who saved it, when, what changed and the document as saved
+export interface TransactionRevisionEntry {
+  id: number;
+  transactionId: number;
+  revision: number;
+  content: TransactionRevisionContent;
+  changes: TransactionRevisionChange[];
+  editedBy: number | null;
+  editedByName: string | null;
+  createdAt: string;
+}
+
+// The number a new document would get from its series (see useNextNumber)
+export interface NextDocumentNumber {
+  transactionNumber: string;
+  seriesId: number;
+  branch: string | null;
+  period: string;
+}
+
+// A numbering series as Settings lists it, with the number its next document would get today
+export type NumberingSeriesSummary = NumberingSeries & { nextNumber: string; issued: boolean };
+
+// A journal entry with its debit and credit lines (see LedgerService)
+export type JournalEntryWithLines = JournalEntry & { lines: JournalLine[] };
+
+// An account's closing balance, on the side it falls
+export interface TrialBalanceRow {
+  accountId: number;
+  name: string;
+  groupName: string;
+  nature: string;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  asOf: string | null;
+  rows: TrialBalanceRow[];
+  totalDebit: number;
+  totalCredit: number;
 }
 
 export interface PeriodFilterOption {
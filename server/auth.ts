@@ -0,0 +1,192 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { config } from "./config";
+import { User as SelectUser } from "@shared/schema";
+import {
+  type Permission,
+  permissions as allPermissions,
+  defaultRolePermissions,
+  isRole,
+} from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<hex scrypt hash>.<salt>"
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash back to the client
+export function toPublicUser(user: SelectUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Tenant key used to scope every storage call; team members share their owner's data
+export function currentUserId(req: Request): number {
+  if (!req.user) {
+    throw new Error("Request is not authenticated");
+  }
+  return req.user.ownerId ?? req.user.id;
+}
+
+// Effective permissions from the company's saved role matrix, falling back to the defaults
+export async function getUserPermissions(user: SelectUser): Promise<Permission[]> {
+  const role = user.role ?? "admin";
+  if (role === "admin") {
+    return [...allPermissions];
+  }
+
+  const saved = (await storage.getRolePermissions(user.ownerId ?? user.id))
+    .find((rolePermission) => rolePermission.role === role);
+  if (saved) {
+    return saved.permissions.filter((p): p is Permission =>
+      (allPermissions as readonly string[]).includes(p)
+    );
+  }
+
+  return isRole(role) ? defaultRolePermissions[role] : [];
+}
+
+export async function hasPermission(req: Request, permission: Permission) {
+  return !!req.user && (await getUserPermissions(req.user)).includes(permission);
+}
+
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!(await hasPermission(req, permission))) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+}
+
+function createSessionStore() {
+  if (config.storageDriver === "database") {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ conString: config.databaseUrl, createTableIfMissing: true });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: config.sessionSecret,
+      resave: false,
+      saveUninitialized: false,
+      store: createSessionStore(),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: 7 * 24 * 60 * 60 * 1000,
+      },
+    })
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || user.isActive === false || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (err) {
+        return done(err);
+      }
+    })
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Deactivated or deleted team members lose their session on the next request
+      done(null, user && user.isActive !== false ? user : false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (err: Error | null, user: SelectUser | false) => {
+      if (err) {
+        return next(err);
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) {
+          return next(loginErr);
+        }
+        getUserPermissions(user)
+          .then((permissions) => res.json({ ...toPublicUser(user), permissions }))
+          .catch(next);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) {
+        return next(err);
+      }
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  app.get("/api/me", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    try {
+      res.json({ ...toPublicUser(req.user), permissions: await getUserPermissions(req.user) });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,61 @@
+import { randomBytes } from "crypto";
+
+// Runtime configuration read from environment variables
+
+export type StorageDriver = "memory" | "database";
+
+function resolveStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER;
+
+  if (driver === "memory" || driver === "database") {
+    return driver;
+  }
+
+  if (driver) {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "database"`);
+  }
+
+  // Fall back to Postgres whenever a database has been provisioned
+  return process.env.DATABASE_URL ? "database" : "memory";
+}
+
+export type IrpDriver = "stub" | "gsp";
+
+function resolveIrpDriver(): IrpDriver {
+  const driver = process.env.IRP_DRIVER;
+
+  if (driver === "stub" || driver === "gsp") {
+    return driver;
+  }
+
+  if (driver) {
+    throw new Error(`Unknown IRP_DRIVER "${driver}", expected "stub" or "gsp"`);
+  }
+
+  // Without GSP credentials e-invoices are registered against the local stub
+  return process.env.IRP_BASE_URL ? "gsp" : "stub";
+}
+
+export const config = {
+  databaseUrl: process.env.DATABASE_URL || "",
+  storageDriver: resolveStorageDriver(),
+  // Without SESSION_SECRET a random secret is used, so sessions do not survive a restart
+  sessionSecret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+  irpDriver: resolveIrpDriver(),
+  // E-invoice API of the GST Suvidha Provider, which relays requests to the IRP
+  irp: {
+    baseUrl: process.env.IRP_BASE_URL || "",
+    clientId: process.env.IRP_CLIENT_ID || "",
+    clientSecret: process.env.IRP_CLIENT_SECRET || "",
+    username: process.env.IRP_USERNAME || "",
+    password: process.env.IRP_PASSWORD || "",
+  },
+  // How long to wait for Tally, which answers slowly while it is busy or a company is loading
+  tallyTimeoutMs: Number(process.env.TALLY_TIMEOUT_MS) || 30000,
+  // Background Tally sync: how often the scheduler looks for companies due a sync (TALLY_SCHEDULER=off stops it),
+  // when a sync lock left by a crashed run may be taken over, and the longest wait after repeated failures
+  tallySchedulerEnabled: process.env.TALLY_SCHEDULER !== "off",
+  tallySchedulerTickMs: Number(process.env.TALLY_SCHEDULER_TICK_MS) || 60000,
+  tallySyncLockTimeoutMs: Number(process.env.TALLY_SYNC_LOCK_TIMEOUT_MS) || 30 * 60000,
+  tallySyncMaxBackoffMinutes: Number(process.env.TALLY_SYNC_MAX_BACKOFF_MINUTES) || 24 * 60,
+};
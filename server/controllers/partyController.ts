@@ -1,12 +1,13 @@
 
 import { Request, Response } from 'express';
 import { storage } from '../storage';
+import { currentUserId } from '../auth';
 import { insertPartySchema } from '@shared/schema';
 
 export class PartyController {
   async createParty(req: Request, res: Response) {
     try {
-      const partyData = insertPartySchema.parse(req.body);
+      const partyData = insertPartySchema.parse({ ...req.body, userId: currentUserId(req) });
       const party = await storage.createParty(partyData);
       res.status(201).json(party);
     } catch (error) {
@@ -17,7 +18,7 @@ export class PartyController {
   async getPartyById(req: Request, res: Response) {
     try {
       const partyId = parseInt(req.params.id);
-      const party = await storage.getParty(partyId);
+      const party = await storage.getParty(currentUserId(req), partyId);
       
       if (!party) {
         return res.status(404).json({ message: "Party not found" });
@@ -32,8 +33,8 @@ export class PartyController {
   async updateParty(req: Request, res: Response) {
     try {
       const partyId = parseInt(req.params.id);
-      const partyData = insertPartySchema.partial().parse(req.body);
-      const party = await storage.updateParty(partyId, partyData);
+      const partyData = insertPartySchema.omit({ userId: true }).partial().parse(req.body);
+      const party = await storage.updateParty(currentUserId(req), partyId, partyData);
       res.json(party);
     } catch (error) {
       res.status(400).json({ message: error.message });
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
+import { currentUserId } from '../auth';
 import { insertTransactionSchema, insertTransactionItemSchema } from '@shared/schema';
 
 export class TransactionController {
@@ -7,7 +8,8 @@ export class TransactionController {
     try {
       const { transaction, items } = req.body;
 
-      const transactionData = insertTransactionSchema.parse(transaction);
+      const userId = currentUserId(req);
+      const transactionData = insertTransactionSchema.parse({ ...transaction, userId });
       const createdTransaction = await storage.createTransaction(transactionData);
 
       if (items && Array.isArray(items)) {
@@ -20,7 +22,7 @@ export class TransactionController {
         }
       }
 
-      const createdItems = await storage.getTransactionItemsByTransactionId(createdTransaction.id);
+      const createdItems = await storage.getTransactionItemsByTransactionId(userId, createdTransaction.id);
 
       res.status(201).json({
         ...createdTransaction,
@@ -34,7 +36,7 @@ export class TransactionController {
   async getTransactionById(req: Request, res: Response) {
     try {
       const transactionId = parseInt(req.params.id);
-      const transaction = await storage.getTransaction(transactionId);
+      const transaction = await storage.getTransaction(currentUserId(req), transactionId);
 
       if (!transaction) {
         return res.status(404).json({ message: "Transaction not found" });
@@ -84,8 +86,8 @@ export class TransactionController {
   async updateTransaction(req: Request, res: Response) {
     try {
       const transactionId = parseInt(req.params.id);
-      const transactionData = insertTransactionSchema.partial().parse(req.body);
-      const transaction = await storage.updateTransaction(transactionId, transactionData);
+      const transactionData = insertTransactionSchema.omit({ userId: true }).partial().parse(req.body);
+      const transaction = await storage.updateTransaction(currentUserId(req), transactionId, transactionData);
       res.json(transaction);
     } catch (error) {
       res.status(400).json({ message: error.message });
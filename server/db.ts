@@ -1,24 +1,30 @@
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import { log } from "./vite";
+import { config } from "./config";
 
 // Initialize the postgres client with the DATABASE_URL from environment variables
-const connectionString = process.env.DATABASE_URL || "";
+const connectionString = config.databaseUrl;
 
-if (!connectionString) {
+if (!connectionString && config.storageDriver === "database") {
   log("Error: DATABASE_URL environment variable is not set.", "error");
   process.exit(1);
 }
 
 // Log that we're connecting to the database
-log(`Connecting to PostgreSQL database${connectionString}`, "express");
+if (connectionString) {
+  log(`Connecting to PostgreSQL database${connectionString}`, "express");
+}
 
-// Create a postgres connection
+// Create a postgres connection (postgres.js only connects on the first query)
 const client = postgres(connectionString, { max: 10 });
 
 // Initialize drizzle with the client
 export const db = drizzle(client);
 
+export type Database = typeof db;
+export type DatabaseTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
 // Export a function to check the database connection
 export async function checkDatabaseConnection() {
   try {
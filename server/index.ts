@@ -2,9 +2,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { checkDatabaseConnection } from "./db";
+import { config } from "./config";
+import { TallySyncScheduler } from "./services/tallySyncScheduler";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -40,9 +42,13 @@ app.use((req, res, next) => {
 (async () => {
   try {
     // Verify database connection before starting the application
-    log("Checking database connection...", "app");
-    await checkDatabaseConnection();
-    log("Database connection successful!", "app");
+    if (config.storageDriver === "database") {
+      log("Checking database connection...", "app");
+      await checkDatabaseConnection();
+      log("Database connection successful!", "app");
+    } else {
+      log("Using in-memory storage, data will not persist across restarts", "app");
+    }
     
     const server = await registerRoutes(app);
 
@@ -73,6 +79,7 @@ app.use((req, res, next) => {
       reusePort: true,
     }, () => {
       log(`Server running at http://0.0.0.0:${port}`, "app");
+      new TallySyncScheduler().start();
     });
   } catch (error) {
     log(`Failed to start application: ${error}`, "app");
@@ -0,0 +1,338 @@
+import { createServer, type Server } from "http";
+import { pathToFileURL } from "url";
+import { randomUUID } from "crypto";
+import { XMLBuilder, XMLParser } from "fast-xml-parser";
+
+// A stand-in for Tally's XML/HTTP interface, for development and tests without a Tally licence.
+// It keeps one company in memory and answers voucher imports and ledger, stock item, voucher type
+// and voucher collection exports the way Tally does, including LINEERRORs for unknown masters and
+// unbalanced vouchers.
+// Run it with `npm run tally:mock` (listens on port 9000 unless PORT is set).
+
+export interface MockTallyLedger {
+  guid: string;
+  name: string;
+  parent: string;
+  gstin?: string;
+  address?: string;
+  state?: string;
+  pincode?: string;
+}
+
+export interface MockTallyVoucher {
+  guid: string;
+  date: string; // YYYYMMDD
+  voucherType: string;
+  voucherNumber: string;
+  partyLedgerName: string;
+  reference?: string;
+  narration?: string;
+  entries: { ledgerName: string; amount: number }[];
+  inventoryEntries?: { stockItemName: string; ledgerName: string; quantity: number; amount: number }[];
+  cancelled?: boolean;
+}
+
+export interface MockTallyMaster {
+  name: string;
+  parent: string;
+}
+
+export interface MockTallyOptions {
+  companyName?: string;
+  ledgers?: Omit<MockTallyLedger, "guid">[];
+  stockItems?: MockTallyMaster[];
+  voucherTypes?: MockTallyMaster[];
+  vouchers?: Omit<MockTallyVoucher, "guid">[];
+}
+
+export interface MockTally {
+  server: Server;
+  companyName: string;
+  // By lower-cased name, as Tally matches names
+  ledgers: Map<string, MockTallyLedger>;
+  stockItems: Map<string, MockTallyMaster>;
+  voucherTypes: Map<string, MockTallyMaster>;
+  vouchers: Map<string, MockTallyVoucher>; // By GUID
+}
+
+// Tally's predefined voucher types are their own parents
+export const sampleVoucherTypes: MockTallyMaster[] = ["Sales", "Purchase", "Receipt", "Payment", "Credit Note", "Debit Note", "Journal", "Contra"]
+  .map((name) => ({ name, parent: name }));
+
+export const sampleStockItems: MockTallyMaster[] = [
+  { name: "Laptop", parent: "Computers" },
+  { name: "Desktop Computer", parent: "Computers" },
+  { name: "Network Switch", parent: "Networking" },
+];
+
+export const sampleLedgers: Omit<MockTallyLedger, "guid">[] = [
+  { name: "Sales Account", parent: "Sales Accounts" },
+  { name: "Sales @18% Local", parent: "Sales Accounts" },
+  { name: "Sales @18% Interstate", parent: "Sales Accounts" },
+  { name: "Purchase Account", parent: "Purchase Accounts" },
+  { name: "Purchase @18% Local", parent: "Purchase Accounts" },
+  { name: "Cash", parent: "Cash-in-Hand" },
+  { name: "Bank Account", parent: "Bank Accounts" },
+  { name: "Round Off", parent: "Indirect Expenses" },
+  ...["CGST", "SGST", "IGST", "Cess"].flatMap((tax) => [
+    { name: `Output ${tax}`, parent: "Duties & Taxes" },
+    { name: `Input ${tax}`, parent: "Duties & Taxes" },
+  ]),
+  { name: "GlobalTech Solutions", parent: "Sundry Debtors", gstin: "27AAAAA1111A1Z5", state: "Maharashtra" },
+  { name: "Kaveri Traders", parent: "Sundry Debtors", gstin: "29KKKKK5555K1Z2", address: "12 MG Road", state: "Karnataka", pincode: "560001" },
+  { name: "Bharath Supplies", parent: "Sundry Creditors", gstin: "29BBBBB2222B1Z3", state: "Karnataka" },
+];
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseTagValue: false,
+  isArray: (name) => ["VOUCHER", "LEDGER", "ALLLEDGERENTRIES.LIST", "LEDGERENTRIES.LIST", "ALLINVENTORYENTRIES.LIST"].includes(name),
+});
+
+const builder = new XMLBuilder({ ignoreAttributes: false, attributeNamePrefix: "@_", format: true });
+
+const text = (value: unknown): string => {
+  if (value == null) return "";
+  if (typeof value === "object") return text((value as Record<string, unknown>)["#text"]);
+  return String(value).trim();
+};
+
+const typed = (type: string, value: string | number) => ({ "@_TYPE": type, "#text": value });
+
+export function createMockTally(options: MockTallyOptions = {}): MockTally {
+  const state: Omit<MockTally, "server"> = {
+    companyName: options.companyName ?? "Demo Company",
+    ledgers: new Map(),
+    stockItems: new Map((options.stockItems ?? sampleStockItems).map((item) => [item.name.toLowerCase(), item])),
+    voucherTypes: new Map((options.voucherTypes ?? sampleVoucherTypes).map((voucherType) => [voucherType.name.toLowerCase(), voucherType])),
+    vouchers: new Map(),
+  };
+  for (const ledger of options.ledgers ?? sampleLedgers) {
+    state.ledgers.set(ledger.name.toLowerCase(), { ...ledger, guid: randomUUID() });
+  }
+  for (const voucher of options.vouchers ?? []) {
+    const guid = randomUUID();
+    state.vouchers.set(guid, { ...voucher, guid });
+  }
+
+  // Checks the current company the way Tally does when SVCURRENTCOMPANY names one that is not open
+  const companyError = (variables: Record<string, unknown> | undefined) => {
+    const company = text(variables?.SVCURRENTCOMPANY);
+    return company && company.toLowerCase() !== state.companyName.toLowerCase()
+      ? `Could not set 'SVCurrentCompany' to '${company}'`
+      : null;
+  };
+
+  const importVoucher = (node: Record<string, any>): { result: "created" | "altered" | "cancelled" } | { error: string } => {
+    const guid = text(node["@_REMOTEID"]) || randomUUID();
+    const action = text(node["@_ACTION"]) || "Create";
+    const voucherType = text(node.VOUCHERTYPENAME) || text(node["@_VCHTYPE"]);
+    const date = text(node.DATE);
+    const lines: Record<string, unknown>[] = node["ALLLEDGERENTRIES.LIST"] ?? node["LEDGERENTRIES.LIST"] ?? [];
+    const stockLines: Record<string, any>[] = node["ALLINVENTORYENTRIES.LIST"] ?? [];
+
+    if (!state.voucherTypes.has(voucherType.toLowerCase())) {
+      return { error: `Voucher Type '${voucherType}' does not exist!` };
+    }
+    if (!/^\d{8}$/.test(date)) {
+      return { error: `Invalid date '${date}'` };
+    }
+    if (action === "Alter" && !state.vouchers.has(guid)) {
+      return { error: "Voucher to be altered does not exist!" };
+    }
+    // A cancelled voucher keeps its number and date but no longer counts in the books
+    if (action === "Cancel") {
+      const voucher = state.vouchers.get(guid);
+      if (!voucher) {
+        return { error: "Voucher to be cancelled does not exist!" };
+      }
+      state.vouchers.set(guid, { ...voucher, cancelled: true });
+      return { result: "cancelled" };
+    }
+
+    const entries = lines.map((line) => ({ ledgerName: text(line.LEDGERNAME), amount: Number(text(line.AMOUNT)) || 0 }));
+    // Stock lines are accounted through their allocation to a sales or purchase ledger
+    const inventoryEntries = stockLines.map((line) => ({
+      stockItemName: text(line.STOCKITEMNAME),
+      ledgerName: text(line["ACCOUNTINGALLOCATIONS.LIST"]?.LEDGERNAME),
+      quantity: Number(text(line.ACTUALQTY)) || 0,
+      amount: Number(text(line["ACCOUNTINGALLOCATIONS.LIST"]?.AMOUNT)) || 0,
+    }));
+    for (const entry of inventoryEntries) {
+      if (!state.stockItems.has(entry.stockItemName.toLowerCase())) {
+        return { error: `Stock Item '${entry.stockItemName}' does not exist!` };
+      }
+    }
+    const postings = [...entries, ...inventoryEntries];
+    for (const entry of postings) {
+      if (!state.ledgers.has(entry.ledgerName.toLowerCase())) {
+        return { error: `Ledger '${entry.ledgerName}' does not exist!` };
+      }
+    }
+    const difference = postings.reduce((sum, entry) => sum + entry.amount, 0);
+    if (postings.length < 2 || Math.abs(difference) >= 0.01) {
+      return { error: `Voucher totals do not match! Dr: ${postings.filter((e) => e.amount < 0).reduce((s, e) => s - e.amount, 0).toFixed(2)} Cr: ${postings.filter((e) => e.amount > 0).reduce((s, e) => s + e.amount, 0).toFixed(2)}` };
+    }
+
+    // An existing REMOTEID is altered in place, as in Tally
+    const existed = state.vouchers.has(guid);
+    state.vouchers.set(guid, {
+      guid,
+      date,
+      voucherType,
+      voucherNumber: text(node.VOUCHERNUMBER),
+      partyLedgerName: text(node.PARTYLEDGERNAME),
+      reference: text(node.REFERENCE) || undefined,
+      narration: text(node.NARRATION) || undefined,
+      entries,
+      ...(inventoryEntries.length > 0 ? { inventoryEntries } : {}),
+    });
+    return { result: existed ? "altered" : "created" };
+  };
+
+  const importData = (envelope: Record<string, any>) => {
+    const importData = envelope.BODY?.IMPORTDATA;
+    const counts = { CREATED: 0, ALTERED: 0, DELETED: 0, LASTVCHID: 0, LASTMID: 0, COMBINED: 0, IGNORED: 0, ERRORS: 0, CANCELLED: 0, EXCEPTIONS: 0 };
+    const lineErrors: string[] = [];
+
+    const error = companyError(importData?.REQUESTDESC?.STATICVARIABLES);
+    if (error) {
+      return { RESPONSE: { ...counts, ERRORS: 1, LINEERROR: error } };
+    }
+
+    const messages = ([] as Record<string, any>[]).concat(importData?.REQUESTDATA?.TALLYMESSAGE ?? []);
+    for (const message of messages) {
+      for (const voucher of message.VOUCHER ?? []) {
+        const outcome = importVoucher(voucher);
+        if ("error" in outcome) {
+          counts.ERRORS++;
+          lineErrors.push(outcome.error);
+        } else {
+          counts[outcome.result === "created" ? "CREATED" : outcome.result === "cancelled" ? "CANCELLED" : "ALTERED"]++;
+          counts.LASTVCHID = state.vouchers.size;
+        }
+      }
+      for (const ledger of message.LEDGER ?? []) {
+        const name = text(ledger["@_NAME"]) || text(ledger.NAME);
+        const existed = state.ledgers.has(name.toLowerCase());
+        state.ledgers.set(name.toLowerCase(), {
+          guid: state.ledgers.get(name.toLowerCase())?.guid ?? randomUUID(),
+          name,
+          parent: text(ledger.PARENT),
+          gstin: text(ledger.PARTYGSTIN) || undefined,
+        });
+        counts[existed ? "ALTERED" : "CREATED"]++;
+      }
+    }
+
+    return { RESPONSE: { ...counts, ...(lineErrors.length ? { LINEERROR: lineErrors } : {}) } };
+  };
+
+  const exportCollection = (envelope: Record<string, any>) => {
+    const desc = envelope.BODY?.DESC;
+    const error = companyError(desc?.STATICVARIABLES);
+    if (error) {
+      return { ENVELOPE: { HEADER: { VERSION: 1, STATUS: 0 }, BODY: { DATA: { LINEERROR: error } } } };
+    }
+
+    const type = text(desc?.TDL?.TDLMESSAGE?.COLLECTION?.TYPE).toLowerCase();
+    const collection: Record<string, unknown> = {};
+
+    if (type === "ledger") {
+      collection.LEDGER = Array.from(state.ledgers.values()).map((ledger) => ({
+        "@_NAME": ledger.name,
+        GUID: typed("String", ledger.guid),
+        PARENT: typed("String", ledger.parent),
+        ...(ledger.gstin ? { PARTYGSTIN: typed("String", ledger.gstin) } : {}),
+        ...(ledger.address ? { "ADDRESS.LIST": { "@_TYPE": "String", ADDRESS: ledger.address } } : {}),
+        ...(ledger.state ? { LEDSTATENAME: typed("String", ledger.state) } : {}),
+        ...(ledger.pincode ? { PINCODE: typed("String", ledger.pincode) } : {}),
+      }));
+    } else if (type === "stockitem" || type === "vouchertype") {
+      const masters = type === "stockitem" ? state.stockItems : state.voucherTypes;
+      collection[type.toUpperCase()] = Array.from(masters.values()).map((master) => ({
+        "@_NAME": master.name,
+        PARENT: typed("String", master.parent),
+      }));
+    } else if (type === "voucher") {
+      const from = text(desc?.STATICVARIABLES?.SVFROMDATE) || "00000000";
+      const to = text(desc?.STATICVARIABLES?.SVTODATE) || "99999999";
+      collection.VOUCHER = Array.from(state.vouchers.values())
+        .filter((voucher) => voucher.date >= from && voucher.date <= to)
+        .map((voucher) => ({
+          "@_VCHTYPE": voucher.voucherType,
+          GUID: typed("String", voucher.guid),
+          DATE: typed("Date", voucher.date),
+          VOUCHERTYPENAME: typed("String", voucher.voucherType),
+          VOUCHERNUMBER: typed("String", voucher.voucherNumber),
+          PARTYLEDGERNAME: typed("String", voucher.partyLedgerName),
+          ISCANCELLED: typed("Logical", voucher.cancelled ? "Yes" : "No"),
+          ...(voucher.reference ? { REFERENCE: typed("String", voucher.reference) } : {}),
+          ...(voucher.narration ? { NARRATION: typed("String", voucher.narration) } : {}),
+          "ALLLEDGERENTRIES.LIST": voucher.entries.map((entry) => ({
+            LEDGERNAME: typed("String", entry.ledgerName),
+            AMOUNT: typed("Amount", entry.amount.toFixed(2)),
+          })),
+        }));
+    } else {
+      return { RESPONSE: "Unknown Request, cannot be processed" };
+    }
+
+    return { ENVELOPE: { HEADER: { VERSION: 1, STATUS: 1 }, BODY: { DESC: "", DATA: { COLLECTION: collection } } } };
+  };
+
+  const server = createServer((req, res) => {
+    if (req.method !== "POST") {
+      res.writeHead(200, { "Content-Type": "text/xml" });
+      res.end("<RESPONSE>TallyPrime Server is Running</RESPONSE>");
+      return;
+    }
+
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => { body += chunk; });
+    req.on("end", () => {
+      let reply: Record<string, unknown>;
+      try {
+        const envelope = parser.parse(body).ENVELOPE ?? {};
+        const request = text(envelope.HEADER?.TALLYREQUEST).toLowerCase();
+        reply = request === "import data"
+          ? importData(envelope)
+          : request === "export" && text(envelope.HEADER?.TYPE).toLowerCase() === "collection"
+            ? exportCollection(envelope)
+            : { RESPONSE: "Unknown Request, cannot be processed" };
+      } catch {
+        reply = { RESPONSE: "Unknown Request, cannot be processed" };
+      }
+      res.writeHead(200, { "Content-Type": "text/xml; charset=utf-8" });
+      res.end(builder.build(reply));
+    });
+  });
+
+  return { ...state, server };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 9000;
+  const { server, companyName } = createMockTally({
+    companyName: process.env.TALLY_COMPANY,
+    vouchers: [
+      {
+        date: `${new Date().getFullYear()}${String(new Date().getMonth() + 1).padStart(2, "0")}01`,
+        voucherType: "Sales",
+        voucherNumber: "T-1001",
+        partyLedgerName: "Kaveri Traders",
+        narration: "Entered in Tally",
+        entries: [
+          { ledgerName: "Kaveri Traders", amount: -5900 },
+          { ledgerName: "Sales Account", amount: 5000 },
+          { ledgerName: "Output IGST", amount: 900 },
+        ],
+      },
+    ],
+  });
+  server.listen(port, () => {
+    console.log(`Mock Tally serving "${companyName}" on http://localhost:${port}`);
+  });
+}
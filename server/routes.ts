@@ -1,7 +1,33 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertPartySchema, insertItemSchema, insertTransactionSchema, insertTransactionItemSchema, insertBnplLimitSchema, insertTallySyncLogSchema } from "@shared/schema";
+import { setupAuth, requireAuth, requirePermission, hasPermission, currentUserId, hashPassword, toPublicUser } from "./auth";
+import { insertUserSchema, insertCompanySettingsSchema, insertPartySchema, insertItemSchema, insertStockGroupSchema, insertGodownSchema, insertUnitSchema, insertTransactionSchema, insertTransactionItemSchema, insertBnplLimitSchema, insertTallyMappingSchema, insertNumberingSeriesSchema, insertAccountSchema, transactionTypeEnum, type InsertTransaction, type InsertTransactionItem } from "@shared/schema";
+import { permissions, permissionForTransactionType, roles, defaultRolePermissions } from "@shared/permissions";
+import { isValidGstin } from "@shared/gst";
+import { InventoryService } from "./services/inventoryService";
+import { StockService } from "./services/stockService";
+import { ValuationService } from "./services/valuationService";
+import { TransactionService, TotalsError } from "./services/transactionService";
+import { Gstr1Service } from "./services/gstr1Service";
+import { Gstr2bService } from "./services/gstr2bService";
+import { EInvoiceService } from "./services/eInvoiceService";
+import { IrpError } from "./services/irpClient";
+import { EWayBillService, eWayBillDocumentTypes, eWayBillValidUntil } from "./services/eWayBillService";
+import { TallySyncService, TallySyncBusyError, tallyPendingStates, type TallyPendingState } from "./services/tallySyncService";
+import { TallyMappingService, TallyMappingError } from "./services/tallyMappingService";
+import { TallyError } from "./services/tallyClient";
+import { DocumentChainService, DocumentChainError } from "./services/documentChainService";
+import { documentConversions, type ConvertibleType } from "@shared/documentChain";
+import { BillMatchService, BillMatchError } from "./services/billMatchService";
+import { PaymentAllocationService, AllocationError } from "./services/paymentAllocationService";
+import { NoteService, NoteError } from "./services/noteService";
+import { TransactionRevisionService } from "./services/transactionRevisionService";
+import { CancellationService, CancellationError } from "./services/cancellationService";
+import { NumberingService, NumberingError } from "./services/numberingService";
+import { LedgerService, LedgerError } from "./services/ledgerService";
+import { BnplService } from "./services/bnplService";
+import { isNoteType } from "@shared/notes";
 import { z } from "zod";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -21,6 +47,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(500).json({ message: err.message || "Internal Server Error" });
   };
 
+  const inventoryService = new InventoryService();
+  const stockService = new StockService();
+  const valuationService = new ValuationService();
+  const transactionService = new TransactionService();
+  const gstr1Service = new Gstr1Service();
+  const gstr2bService = new Gstr2bService();
+  const eInvoiceService = new EInvoiceService();
+  const eWayBillService = new EWayBillService();
+  const tallySyncService = new TallySyncService();
+  const documentChainService = new DocumentChainService();
+  const billMatchService = new BillMatchService();
+  const paymentAllocationService = new PaymentAllocationService();
+  const noteService = new NoteService();
+  const transactionRevisionService = new TransactionRevisionService();
+  const cancellationService = new CancellationService();
+  const numberingService = new NumberingService();
+  const ledgerService = new LedgerService();
+  const tallyMappingService = new TallyMappingService();
+  const bnplService = new BnplService();
+
+  // Set from the IRP's response, the e-way bill endpoint, a Tally sync, the bill match, the cancel action,
+  // the BNPL limit it draws on or the branch of the login that raised the document, never with the rest of the document
+  const registrationFields = {
+    irn: true, irnAckNumber: true, irnAckDate: true, irnSignedQrCode: true,
+    ewbNumber: true, ewbDate: true, ewbValidUntil: true,
+    tallyGuid: true, tallySyncAttempts: true, tallySyncError: true, tallyRetryPending: true, tallyLastAttemptAt: true,
+    tallySyncHash: true, tallySyncedContent: true, tallyModifiedAt: true,
+    matchStatus: true, matchNote: true, matchApprovedBy: true, matchApprovedAt: true,
+    cancelledAt: true, cancelledBy: true, cancellationReason: true,
+    bnplLimitId: true, bnplUsed: true,
+    branch: true
+  } as const;
+
   // Helper for parsing IDs
   const parseId = (id: string): number => {
     const parsed = parseInt(id, 10);
@@ -30,22 +89,280 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return parsed;
   };
   
-  // User management
+  // Authentication (login, logout, me)
+  setupAuth(app);
+  
+  // User management (sign up)
   app.post('/api/users', async (req: Request, res: Response) => {
     try {
       const userData = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(userData);
-      res.status(201).json(user);
+      
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      
+      // Signing up creates a new company, so the user always owns it
+      const user = await storage.createUser({
+        ...userData,
+        role: "admin",
+        ownerId: null,
+        isActive: true,
+        password: await hashPassword(userData.password)
+      });
+      
+      req.login(user, (err) => {
+        if (err) {
+          return handleError(err, res);
+        }
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  // Everything below requires a logged-in user
+  app.use('/api', requireAuth);
+
+  // Team members under the current company
+  const teamMemberSchema = insertUserSchema
+    .pick({ username: true, password: true, email: true, phone: true })
+    .extend({ role: z.enum(roles), branch: z.string().trim().min(1).max(40).nullable().optional() });
+  
+  app.get('/api/team-members', requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const members = await storage.getTeamMembers(currentUserId(req));
+      res.json(members.map(toPublicUser));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.post('/api/team-members', requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const ownerId = currentUserId(req);
+      const memberData = teamMemberSchema.parse(req.body);
+      
+      if (await storage.getUserByUsername(memberData.username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      
+      const owner = await storage.getUser(ownerId);
+      if (!owner) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      
+      const member = await storage.createUser({
+        ...memberData,
+        companyName: owner.companyName,
+        gstin: owner.gstin,
+        ownerId,
+        isActive: true,
+        password: await hashPassword(memberData.password)
+      });
+      res.status(201).json(toPublicUser(member));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.patch('/api/team-members/:id', requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const ownerId = currentUserId(req);
+      const memberId = parseId(req.params.id);
+      
+      // The company owner is always an active administrator
+      if (memberId === ownerId) {
+        return res.status(400).json({ message: "The company owner cannot be changed" });
+      }
+      
+      const members = await storage.getTeamMembers(ownerId);
+      if (!members.some(member => member.id === memberId)) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const { password, ...updates } = teamMemberSchema
+        .omit({ username: true })
+        .extend({ isActive: z.boolean() })
+        .partial()
+        .parse(req.body);
+      
+      const member = await storage.updateTeamMember(ownerId, memberId, {
+        ...updates,
+        ...(password ? { password: await hashPassword(password) } : {})
+      });
+      res.json(toPublicUser(member));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.delete('/api/team-members/:id', requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const ownerId = currentUserId(req);
+      const memberId = parseId(req.params.id);
+      
+      if (memberId === ownerId || memberId === req.user?.id) {
+        return res.status(400).json({ message: "You cannot remove this user" });
+      }
+      
+      const members = await storage.getTeamMembers(ownerId);
+      if (!members.some(member => member.id === memberId)) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      // Documents and vouchers keep who saved, cancelled or approved them
+      if (await storage.isTeamMemberReferenced(ownerId, memberId)) {
+        return res.status(409).json({ message: "This team member has saved or approved records; deactivate them instead" });
+      }
+      
+      await storage.deleteTeamMember(ownerId, memberId);
+      res.status(204).end();
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  // Role permission matrix
+  app.get('/api/roles', requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const saved = await storage.getRolePermissions(currentUserId(req));
+      
+      res.json(roles.map(role => ({
+        role,
+        permissions: role === "admin"
+          ? [...permissions]
+          : saved.find(rolePermission => rolePermission.role === role)?.permissions
+            ?? defaultRolePermissions[role]
+      })));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.put('/api/roles/:role', requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const role = z.enum(roles).parse(req.params.role);
+      
+      if (role === "admin") {
+        return res.status(400).json({ message: "Administrator permissions cannot be changed" });
+      }
+      
+      const { permissions: rolePermissions } = z
+        .object({ permissions: z.array(z.enum(permissions)) })
+        .parse(req.body);
+      
+      const saved = await storage.saveRolePermissions(currentUserId(req), role, rolePermissions);
+      res.json({ role: saved.role, permissions: saved.permissions });
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Company settings
+  app.get('/api/settings/company', async (req: Request, res: Response) => {
+    try {
+      const settings = await storage.getCompanySettings(currentUserId(req));
+      res.json(settings);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.patch('/api/settings/company', requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const settingsData = insertCompanySettingsSchema.omit({ userId: true }).partial().parse(req.body);
+      const settings = await storage.updateCompanySettings(currentUserId(req), settingsData);
+      res.json(settings);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Numbering series, each with the number its next document would get today
+  app.get('/api/numbering-series', async (req: Request, res: Response) => {
+    try {
+      res.json(await numberingService.describe(currentUserId(req)));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  // The number a new document would get from the series of the login's branch; null when it has none
+  app.get('/api/numbering-series/next', async (req: Request, res: Response) => {
+    try {
+      const { transactionType, date } = z.object({
+        transactionType: z.enum(transactionTypeEnum.enumValues),
+        date: z.coerce.date().optional()
+      }).parse(req.query);
+      
+      res.json(await numberingService.preview(currentUserId(req), transactionType, req.user!.branch, date ?? new Date()));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.post('/api/numbering-series', requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const seriesData = insertNumberingSeriesSchema.parse({ ...req.body, userId });
+      await numberingService.assertSeriesValid(userId, seriesData);
+      
+      const series = await storage.createNumberingSeries(seriesData);
+      res.status(201).json(series);
+    } catch (err) {
+      if (err instanceof NumberingError) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.patch('/api/numbering-series/:id', requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const seriesId = parseId(req.params.id);
+      const existing = await storage.getNumberingSeries(userId, seriesId);
+      if (!existing) {
+        return res.status(404).json({ message: "Numbering series not found" });
+      }
+      
+      const updates = insertNumberingSeriesSchema.omit({ userId: true }).partial().parse(req.body);
+      await numberingService.assertSeriesValid(userId, { ...existing, ...updates }, seriesId);
+      
+      const series = await storage.updateNumberingSeries(userId, seriesId, updates);
+      res.json(series);
+    } catch (err) {
+      if (err instanceof NumberingError) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+  
+  // Only a series that has not issued a number yet can go; one in use is changed instead
+  app.delete('/api/numbering-series/:id', requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const seriesId = parseId(req.params.id);
+      if (!(await storage.getNumberingSeries(userId, seriesId))) {
+        return res.status(404).json({ message: "Numbering series not found" });
+      }
+      if ((await storage.getNumberingCounters(userId, seriesId)).length > 0) {
+        return res.status(409).json({ message: "This series has issued numbers; change it instead of deleting it" });
+      }
+      
+      await storage.deleteNumberingSeries(userId, seriesId);
+      res.status(204).end();
     } catch (err) {
       handleError(err as Error, res);
     }
   });
 
   // Dashboard data
-  app.get('/api/dashboard', async (req: Request, res: Response) => {
+  app.get('/api/dashboard', requirePermission("view_dashboard"), async (req: Request, res: Response) => {
     try {
-      // Mock user ID 1 for demo purposes
-      const userId = 1;
+      const userId = currentUserId(req);
       
       const openPayables = await storage.getOpenPayables(userId);
       const openReceivables = await storage.getOpenReceivables(userId);
@@ -55,11 +372,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const purchaseBnplLimits = await storage.getBnplLimitsByType(userId, 'purchase');
       const salesBnplLimits = await storage.getBnplLimitsByType(userId, 'sales');
       const recentSyncLog = await storage.getRecentTallySyncLog(userId);
-      
-      // Get pending sync counts
-      const pendingInvoices = 5; // In a real app, this would be calculated
-      const pendingPayments = 3;
-      const pendingReceipts = 2;
+      const ewayBillAlerts = await eWayBillService.getExpiryAlerts(userId);
+      const pendingSyncs = await tallySyncService.getPendingSummary(userId);
       
       res.json({
         openPayables,
@@ -70,11 +384,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         purchaseBnplLimits,
         salesBnplLimits,
         recentSyncLog,
-        pendingSyncs: {
-          invoices: pendingInvoices,
-          payments: pendingPayments,
-          receipts: pendingReceipts
-        }
+        ewayBillAlerts,
+        pendingSyncs
       });
     } catch (err) {
       handleError(err as Error, res);
@@ -84,7 +395,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Parties (Customers/Vendors)
   app.get('/api/parties', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
+      const userId = currentUserId(req);
       const type = req.query.type as string | undefined;
       
       if (type) {
@@ -101,8 +412,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/parties/:id', async (req: Request, res: Response) => {
     try {
+      const userId = currentUserId(req);
       const partyId = parseId(req.params.id);
-      const party = await storage.getParty(partyId);
+      const party = await storage.getParty(userId, partyId);
       
       if (!party) {
         return res.status(404).json({ message: "Party not found" });
@@ -114,9 +426,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // A party's receipts or payments still on account and its documents still owed, oldest due first
+  app.get('/api/parties/:id/open-items', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const partyId = parseId(req.params.id);
+      
+      if (!(await storage.getParty(userId, partyId))) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+      
+      res.json(await paymentAllocationService.getOpenItems(userId, partyId));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
   app.post('/api/parties', async (req: Request, res: Response) => {
     try {
-      const partyData = insertPartySchema.parse(req.body);
+      const userId = currentUserId(req);
+      const partyData = insertPartySchema.parse({ ...req.body, userId });
       const party = await storage.createParty(partyData);
       res.status(201).json(party);
     } catch (err) {
@@ -126,9 +455,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch('/api/parties/:id', async (req: Request, res: Response) => {
     try {
+      const userId = currentUserId(req);
       const partyId = parseId(req.params.id);
-      const partyData = insertPartySchema.partial().parse(req.body);
-      const party = await storage.updateParty(partyId, partyData);
+      
+      if (!(await storage.getParty(userId, partyId))) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+      
+      const partyData = insertPartySchema.omit({ userId: true }).partial().parse(req.body);
+      const party = await storage.updateParty(userId, partyId, partyData);
       res.json(party);
     } catch (err) {
       handleError(err as Error, res);
@@ -138,9 +473,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Items
   app.get('/api/items', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
+      const userId = currentUserId(req);
       const items = await storage.getItemsByUserId(userId);
-      res.json(items);
+      res.json(await inventoryService.withMasterNames(userId, items));
     } catch (err) {
       handleError(err as Error, res);
     }
@@ -148,14 +483,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/items/:id', async (req: Request, res: Response) => {
     try {
+      const userId = currentUserId(req);
       const itemId = parseId(req.params.id);
-      const item = await storage.getItem(itemId);
+      const item = await storage.getItem(userId, itemId);
       
       if (!item) {
         return res.status(404).json({ message: "Item not found" });
       }
       
-      res.json(item);
+      const [itemWithMasters] = await inventoryService.withMasterNames(userId, [item]);
+      res.json(itemWithMasters);
     } catch (err) {
       handleError(err as Error, res);
     }
@@ -163,7 +500,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/items', async (req: Request, res: Response) => {
     try {
-      const itemData = insertItemSchema.parse(req.body);
+      const userId = currentUserId(req);
+      const itemData = insertItemSchema.parse({ ...req.body, userId });
+      
+      const masterError = await inventoryService.validateItemMasters(userId, itemData);
+      if (masterError) {
+        return res.status(404).json({ message: masterError });
+      }
+      
       const item = await storage.createItem(itemData);
       res.status(201).json(item);
     } catch (err) {
@@ -173,9 +517,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch('/api/items/:id', async (req: Request, res: Response) => {
     try {
+      const userId = currentUserId(req);
       const itemId = parseId(req.params.id);
-      const itemData = insertItemSchema.partial().parse(req.body);
-      const item = await storage.updateItem(itemId, itemData);
+      
+      if (!(await storage.getItem(userId, itemId))) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      const itemData = insertItemSchema.omit({ userId: true }).partial().parse(req.body);
+      
+      const masterError = await inventoryService.validateItemMasters(userId, itemData);
+      if (masterError) {
+        return res.status(404).json({ message: masterError });
+      }
+      
+      const item = await storage.updateItem(userId, itemId, itemData);
       res.json(item);
     } catch (err) {
       handleError(err as Error, res);
@@ -185,7 +541,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // E-commerce and Marketplace endpoints
   app.get('/api/marketplace/items', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
+      const userId = currentUserId(req);
       const items = await storage.getItemsWithListings(userId);
       res.json(items);
     } catch (err) {
@@ -195,8 +551,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.get('/api/marketplace/featured', async (req: Request, res: Response) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-      const items = await storage.getFeatureProducts(limit);
+      const { limit } = z.object({ limit: z.coerce.number().int().min(1).max(100).default(10) }).parse(req.query);
+      const items = await storage.getFeatureProducts(currentUserId(req), limit);
       res.json(items);
     } catch (err) {
       handleError(err as Error, res);
@@ -205,21 +561,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.patch('/api/marketplace/items/:id', async (req: Request, res: Response) => {
     try {
+      const userId = currentUserId(req);
       const itemId = parseId(req.params.id);
-      const item = await storage.getItem(itemId);
+      const item = await storage.getItem(userId, itemId);
       
       if (!item) {
         return res.status(404).json({ message: "Item not found" });
       }
       
-      const userId = 1; // Mock user ID
-      if (item.userId !== userId) {
-        return res.status(403).json({ message: "Not authorized to update this item" });
-      }
-      
       // This endpoint specifically updates the e-commerce/marketplace-related fields
-      const listingData = insertItemSchema.partial().parse(req.body);
-      const updatedItem = await storage.updateItemListing(itemId, listingData);
+      const listingData = insertItemSchema.omit({ userId: true }).partial().parse(req.body);
+      const updatedItem = await storage.updateItemListing(userId, itemId, listingData);
       res.json(updatedItem);
     } catch (err) {
       handleError(err as Error, res);
@@ -229,7 +581,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Transactions
   app.get('/api/transactions', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
+      const userId = currentUserId(req);
       const type = req.query.type as string | undefined;
       const partyId = req.query.partyId ? parseId(req.query.partyId as string) : undefined;
       
@@ -250,14 +602,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/transactions/:id', async (req: Request, res: Response) => {
     try {
+      const userId = currentUserId(req);
       const transactionId = parseId(req.params.id);
-      const transaction = await storage.getTransaction(transactionId);
+      const transaction = await storage.getTransaction(userId, transactionId);
       
       if (!transaction) {
         return res.status(404).json({ message: "Transaction not found" });
       }
       
-      const items = await storage.getTransactionItemsByTransactionId(transactionId);
+      const items = await storage.getTransactionItemsByTransactionId(userId, transactionId);
       
       res.json({
         ...transaction,
@@ -271,178 +624,1247 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Endpoint to get only transaction items for a specific transaction
   app.get('/api/transactions/:id/items', async (req: Request, res: Response) => {
     try {
+      const userId = currentUserId(req);
       const transactionId = parseId(req.params.id);
-      const transaction = await storage.getTransaction(transactionId);
+      const transaction = await storage.getTransaction(userId, transactionId);
       
       if (!transaction) {
         return res.status(404).json({ message: "Transaction not found" });
       }
       
-      const items = await storage.getTransactionItemsByTransactionId(transactionId);
+      const items = await storage.getTransactionItemsByTransactionId(userId, transactionId);
       res.json(items);
     } catch (err) {
       handleError(err as Error, res);
     }
   });
 
-  app.post('/api/transactions', async (req: Request, res: Response) => {
+  // Where a document came from, what was converted from it, and how much of each line is left to convert
+  app.get('/api/transactions/:id/chain', async (req: Request, res: Response) => {
     try {
-      const { transaction, items } = req.body;
+      const userId = currentUserId(req);
+      const transaction = await storage.getTransaction(userId, parseId(req.params.id));
       
-      // With z.coerce.date() in the schema, we don't need to manually convert dates
-      const transactionData = insertTransactionSchema.parse(transaction);
-      const createdTransaction = await storage.createTransaction(transactionData);
-      
-      if (items && Array.isArray(items)) {
-        for (const item of items) {
-          const itemData = {
-            ...item,
-            transactionId: createdTransaction.id
-          };
-          
-          await storage.createTransactionItem(insertTransactionItemSchema.parse(itemData));
-        }
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
       }
       
-      const createdItems = await storage.getTransactionItemsByTransactionId(createdTransaction.id);
-      
-      res.status(201).json({
-        ...createdTransaction,
-        items: createdItems
-      });
+      res.json(await documentChainService.getChain(userId, transaction));
     } catch (err) {
       handleError(err as Error, res);
     }
   });
 
-  app.patch('/api/transactions/:id', async (req: Request, res: Response) => {
+  // Every saved version of a document, oldest first, with who saved it and what changed
+  app.get('/api/transactions/:id/revisions', async (req: Request, res: Response) => {
     try {
-      const transactionId = parseId(req.params.id);
+      const userId = currentUserId(req);
+      const transaction = await storage.getTransaction(userId, parseId(req.params.id));
       
-      // With z.coerce.date() in the schema, we don't need to manually convert dates
-      const transactionData = insertTransactionSchema.partial().parse(req.body);
-      const transaction = await storage.updateTransaction(transactionId, transactionData);
-      res.json(transaction);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      res.json(await transactionRevisionService.getRevisions(userId, transaction.id));
     } catch (err) {
       handleError(err as Error, res);
     }
   });
 
-  // BNPL Limits
-  app.get('/api/bnpl-limits', async (req: Request, res: Response) => {
+  // Creates the next document in the chain (e.g. an invoice from an order) with the lines copied forward
+  app.post('/api/transactions/:id/convert', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
-      const type = req.query.type as string | undefined;
-      const partyId = req.query.partyId ? parseId(req.query.partyId as string) : undefined;
+      const userId = currentUserId(req);
+      const source = await storage.getTransaction(userId, parseId(req.params.id));
       
-      if (type) {
-        const limits = await storage.getBnplLimitsByType(userId, type);
-        res.json(limits);
-      } else if (partyId) {
-        const limits = await storage.getBnplLimitsByPartyId(partyId);
-        res.json(limits);
-      } else {
-        const limits = await storage.getBnplLimitsByUserId(userId);
-        res.json(limits);
+      if (!source) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      const convertibleTypes = Object.values(documentConversions).flat() as [ConvertibleType, ...ConvertibleType[]];
+      const request = z.object({
+        transactionType: z.enum(convertibleTypes),
+        transactionNumber: z.string().trim().optional(),
+        transactionDate: z.coerce.date().optional(),
+        lines: z.array(z.object({
+          sourceItemId: z.number().int(),
+          quantity: z.coerce.number().positive("Quantities must be more than zero")
+        })).min(1, "Choose at least one line").optional()
+      }).parse(req.body);
+      
+      for (const type of [source.transactionType, request.transactionType]) {
+        if (!(await hasPermission(req, permissionForTransactionType(type)))) {
+          return res.status(403).json({ message: "You do not have permission to perform this action" });
+        }
       }
+      
+      const { transaction, items } = await documentChainService.convert(userId, source, { ...request, branch: req.user!.branch });
+      const converted = await billMatchService.refresh(userId, transaction);
+      await transactionRevisionService.recordCreated(userId, converted, req.user!.id);
+      res.status(201).json({ ...converted, items });
     } catch (err) {
+      if (err instanceof DocumentChainError || err instanceof NumberingError) {
+        return res.status(409).json({ message: err.message });
+      }
       handleError(err as Error, res);
     }
   });
 
-  app.post('/api/bnpl-limits', async (req: Request, res: Response) => {
+  // Three-way match of a purchase bill against its order and GRNs, line by line
+  app.get('/api/transactions/:id/match', async (req: Request, res: Response) => {
     try {
-      // With z.coerce.date() in the schema, the date field will be automatically converted
-      const limitData = insertBnplLimitSchema.parse(req.body);
-      const limit = await storage.createBnplLimit(limitData);
-      res.status(201).json(limit);
+      const userId = currentUserId(req);
+      const bill = await storage.getTransaction(userId, parseId(req.params.id));
+      
+      if (!bill || bill.transactionType !== 'purchase_bill') {
+        return res.status(404).json({ message: "Purchase bill not found" });
+      }
+      
+      const match = await billMatchService.match(userId, bill);
+      res.json({ ...match, approvedBy: bill.matchApprovedBy, approvedAt: bill.matchApprovedAt });
     } catch (err) {
       handleError(err as Error, res);
     }
   });
-
-  app.patch('/api/bnpl-limits/:id', async (req: Request, res: Response) => {
+  
+  // Releases a mismatched bill for payment
+  app.post('/api/transactions/:id/match/approve', requirePermission("approve_bills"), async (req: Request, res: Response) => {
     try {
-      const limitId = parseId(req.params.id);
-      // With z.coerce.date() in the schema, the date field will be automatically converted
-      const limitData = insertBnplLimitSchema.partial().parse(req.body);
-      const limit = await storage.updateBnplLimit(limitId, limitData);
-      res.json(limit);
+      const userId = currentUserId(req);
+      const bill = await storage.getTransaction(userId, parseId(req.params.id));
+      
+      if (!bill || bill.transactionType !== 'purchase_bill') {
+        return res.status(404).json({ message: "Purchase bill not found" });
+      }
+      
+      res.json(await billMatchService.approve(userId, bill, req.user!.id));
     } catch (err) {
+      if (err instanceof BillMatchError) {
+        return res.status(409).json({ message: err.message });
+      }
       handleError(err as Error, res);
     }
   });
 
-  // Tally Sync
-  app.get('/api/tally-sync/logs', async (req: Request, res: Response) => {
+  // Payment allocation: what a receipt or payment has been applied against, or what has been applied to a document
+  app.get('/api/transactions/:id/allocations', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
-      const logs = await storage.getTallySyncLogs(userId);
-      res.json(logs);
+      const userId = currentUserId(req);
+      const transaction = await storage.getTransaction(userId, parseId(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      res.json(await paymentAllocationService.getAllocations(userId, transaction));
     } catch (err) {
       handleError(err as Error, res);
     }
   });
-
-  app.get('/api/tally-sync/latest', async (req: Request, res: Response) => {
+  
+  app.post('/api/transactions/:id/allocations', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
-      const log = await storage.getRecentTallySyncLog(userId);
+      const userId = currentUserId(req);
+      const payment = await storage.getTransaction(userId, parseId(req.params.id));
       
-      if (!log) {
-        return res.status(404).json({ message: "No sync logs found" });
+      if (!payment) {
+        return res.status(404).json({ message: "Transaction not found" });
       }
       
-      res.json(log);
+      if (!(await hasPermission(req, permissionForTransactionType(payment.transactionType)))) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      const { allocations } = z.object({
+        allocations: z.array(z.object({
+          documentId: z.number().int(),
+          amount: z.coerce.number().positive("Amounts must be more than zero")
+        })).min(1, "Choose at least one document")
+      }).parse(req.body);
+      
+      res.status(201).json(await paymentAllocationService.allocate(userId, payment, allocations));
     } catch (err) {
+      if (err instanceof AllocationError || err instanceof BillMatchError) {
+        return res.status(409).json({ message: err.message });
+      }
       handleError(err as Error, res);
     }
   });
-
-  app.post('/api/tally-sync', async (req: Request, res: Response) => {
+  
+  // Applies what is left of a receipt or payment to the party's oldest open documents
+  app.post('/api/transactions/:id/auto-allocate', async (req: Request, res: Response) => {
     try {
-      const { syncType } = req.body;
+      const userId = currentUserId(req);
+      const payment = await storage.getTransaction(userId, parseId(req.params.id));
       
-      // Simulate Tally sync process
-      const syncLog = {
-        syncType: syncType || "pull",
-        syncStatus: "success",
-        transactionCount: Math.floor(Math.random() * 50) + 10,
-        details: `Successfully ${syncType || "pull"}ed transactions with Tally`,
-        userId: 1 // Mock user ID
-      };
+      if (!payment) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
       
-      const log = await storage.createTallySyncLog(insertTallySyncLogSchema.parse(syncLog));
-      res.status(201).json(log);
+      if (!(await hasPermission(req, permissionForTransactionType(payment.transactionType)))) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      res.json(await paymentAllocationService.autoAllocate(userId, payment));
     } catch (err) {
+      if (err instanceof AllocationError || err instanceof BillMatchError) {
+        return res.status(409).json({ message: err.message });
+      }
       handleError(err as Error, res);
     }
   });
-
-  // Inventory API
-  app.get('/api/inventory/summary', async (req: Request, res: Response) => {
+  
+  // An invoice's or bill's lines with what debit or credit notes have already returned of each
+  app.get('/api/transactions/:id/returnable', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
-      const items = await storage.getItemsByUserId(userId);
+      const userId = currentUserId(req);
+      const original = await storage.getTransaction(userId, parseId(req.params.id));
       
-      // Calculate summary data
-      let totalValue = 0;
-      let lowStockCount = 0;
-      let outOfStockCount = 0;
+      if (!original) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
       
-      items.forEach(item => {
-        const openingStock = item.openingStock ? parseFloat(item.openingStock) : 0;
-        const sellingPrice = item.sellingPrice ? parseFloat(item.sellingPrice) : 0;
-        const minStockLevel = item.minStockLevel ? parseFloat(item.minStockLevel) : 0;
-        
-        totalValue += openingStock * sellingPrice;
-        
-        if (openingStock <= 0) {
-          outOfStockCount++;
-        } else if (minStockLevel > 0 && openingStock <= minStockLevel) {
-          lowStockCount++;
-        }
-      });
+      res.json(await noteService.getReturnable(userId, original));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.delete('/api/payment-allocations/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const allocation = await storage.getPaymentAllocation(userId, parseId(req.params.id));
+      
+      if (!allocation) {
+        return res.status(404).json({ message: "Payment allocation not found" });
+      }
+      
+      const payment = await storage.getTransaction(userId, allocation.paymentId);
+      if (payment && !(await hasPermission(req, permissionForTransactionType(payment.transactionType)))) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      await paymentAllocationService.removeAllocation(userId, allocation);
+      res.status(204).end();
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // E-invoice: preview the IRP payload with validation errors, then register it for an IRN
+  app.get('/api/transactions/:id/e-invoice', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const transaction = await storage.getTransaction(userId, parseId(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      if (transaction.transactionType !== 'sales_invoice') {
+        return res.status(400).json({ message: "Only sales invoices can be e-invoiced" });
+      }
+      
+      res.json(await eInvoiceService.buildPayload(userId, transaction));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.post('/api/transactions/:id/e-invoice', requirePermission("manage_sales"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const transaction = await storage.getTransaction(userId, parseId(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      if (transaction.transactionType !== 'sales_invoice') {
+        return res.status(400).json({ message: "Only sales invoices can be e-invoiced" });
+      }
+      
+      if (transaction.status === 'cancelled') {
+        return res.status(400).json({ message: "Cancelled invoices cannot be e-invoiced" });
+      }
+      
+      if (transaction.irn) {
+        return res.status(409).json({ message: "An IRN has already been generated for this invoice" });
+      }
+      
+      const { payload, errors } = await eInvoiceService.buildPayload(userId, transaction);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "E-invoice validation failed", errors });
+      }
+      
+      try {
+        res.json(await eInvoiceService.registerIrn(userId, transaction, payload));
+      } catch (err) {
+        if (err instanceof IrpError) {
+          return res.status(502).json({ message: `IRP: ${err.message}`, code: err.code });
+        }
+        throw err;
+      }
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // E-way bills: the portal's bulk upload JSON is built here; the EWB number it returns is recorded back
+  app.get('/api/transactions/:id/e-way-bill', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const transaction = await storage.getTransaction(userId, parseId(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      res.json(await eWayBillService.buildBill(userId, transaction));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.post('/api/transactions/:id/e-way-bill', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const transaction = await storage.getTransaction(userId, parseId(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      if (!(await hasPermission(req, permissionForTransactionType(transaction.transactionType)))) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      if (!eWayBillDocumentTypes[transaction.transactionType]) {
+        return res.status(400).json({ message: "E-way bills are generated for delivery notes and sales invoices only" });
+      }
+      
+      const { ewbNumber, ewbDate, ewbValidUntil } = z.object({
+        ewbNumber: z.string().trim().regex(/^\d{12}$/, "E-way bill number must be 12 digits"),
+        ewbDate: z.coerce.date().optional(),
+        ewbValidUntil: z.coerce.date().optional()
+      }).parse(req.body);
+      
+      // The portal prints the validity on the e-way bill; without it, work it out from the distance
+      const generatedAt = ewbDate ?? new Date();
+      const updated = await storage.updateTransaction(userId, transaction.id, {
+        ewbNumber,
+        ewbDate: generatedAt,
+        ewbValidUntil: ewbValidUntil ?? eWayBillValidUntil(generatedAt, transaction.distanceKm ?? 0)
+      });
+      
+      res.json(updated);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.get('/api/e-way-bills/export', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const ids = z.string().min(1, "Choose at least one document").parse(req.query.ids).split(',').map(parseId);
+      
+      const transactions = [];
+      for (const id of ids) {
+        const transaction = await storage.getTransaction(userId, id);
+        if (!transaction) {
+          return res.status(404).json({ message: `Transaction ${id} not found` });
+        }
+        transactions.push(transaction);
+      }
+      
+      const { file, issues } = await eWayBillService.buildBulkFile(userId, transactions);
+      
+      // ?download=true returns just the bulk upload JSON as a file for the portal
+      if (req.query.download === 'true') {
+        if (file.billLists.length === 0) {
+          return res.status(400).json({ message: "None of the documents are ready for an e-way bill", issues });
+        }
+        res.setHeader('Content-Disposition', `attachment; filename="EWB_${new Date().toISOString().slice(0, 10)}.json"`);
+        return res.json(file);
+      }
+      
+      res.json({ file, issues });
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.post('/api/transactions', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const { transaction, items } = req.body;
+      
+      // With z.coerce.date() in the schema, we don't need to manually convert dates. Every line is
+      // parsed before anything is saved; the totals of a document with lines are the server's to work out,
+      // and the number is the series' to issue unless one outside it is given.
+      const transactionData = insertTransactionSchema.omit(registrationFields).partial({ amount: true }).parse({
+        ...transaction,
+        transactionNumber: transaction?.transactionNumber ?? '',
+        userId
+      });
+      const parsedItems = items && Array.isArray(items)
+        ? items.map(item => insertTransactionItemSchema.omit({ transactionId: true }).partial({ amount: true, totalAmount: true }).parse(item))
+        : [];
+      
+      if (!(await hasPermission(req, permissionForTransactionType(transactionData.transactionType)))) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      if (transactionData.status === 'cancelled') {
+        return res.status(400).json({ message: "Documents are cancelled with the cancel action once they exist" });
+      }
+      
+      if (transactionData.partyId && !(await storage.getParty(userId, transactionData.partyId))) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+      
+      // A note must fit the invoice or bill it adjusts, and is taxed at the original's place of supply
+      const original = await noteService.validate(userId, transactionData, parsedItems);
+      if (original && transactionData.placeOfSupply == null) {
+        transactionData.placeOfSupply = original.placeOfSupply;
+      }
+      
+      // A receipt, payment or note raised against a document settles it, so it must be one it can settle;
+      // paying a bill that is held for a mismatch waits for its approval
+      if (paymentAllocationService.isSettling(transactionData) && transactionData.linkedTransactionId) {
+        const document = await storage.getTransaction(userId, transactionData.linkedTransactionId);
+        if (!document) {
+          return res.status(404).json({ message: "Linked document not found" });
+        }
+        paymentAllocationService.assertAllocatable(transactionData, document);
+      }
+      
+      for (const item of parsedItems) {
+        if (item.itemId && !(await storage.getItem(userId, item.itemId))) {
+          return res.status(404).json({ message: "Item not found" });
+        }
+        if (item.godownId && !(await storage.getGodown(userId, item.godownId))) {
+          return res.status(404).json({ message: "Godown not found" });
+        }
+      }
+      
+      // Documents with lines carry server-calculated GST, and any totals the client sent must agree.
+      // A document without lines, such as a receipt, is for the amount given.
+      let header: InsertTransaction;
+      let lines: Omit<InsertTransactionItem, "transactionId">[] = [];
+      if (parsedItems.length > 0) {
+        const gst = await transactionService.calculateTotals(userId, transactionData, parsedItems);
+        transactionService.assertTotals(transactionData, parsedItems, gst);
+        const unpaid = transactionData.balanceDue != null
+          && (transactionData.amount === undefined || parseFloat(transactionData.balanceDue) === parseFloat(transactionData.amount));
+        lines = gst.lines;
+        header = { ...transactionData, ...gst.totals, ...(unpaid ? { balanceDue: gst.totals.amount } : {}) };
+      } else if (transactionData.amount !== undefined) {
+        header = { ...transactionData, amount: transactionData.amount };
+      } else {
+        return res.status(400).json({ message: "A document without lines needs an amount" });
+      }
+      
+      // Numbered last, so a document that fails its checks leaves no gap in its series. The header and its
+      // lines are saved together or not at all.
+      header.branch = req.user!.branch;
+      header.transactionNumber = await numberingService.assign(userId, header);
+      let createdTransaction = await storage.createTransactionWithItems(header, lines);
+      
+      await stockService.syncTransaction(userId, createdTransaction);
+      await ledgerService.syncTransaction(userId, createdTransaction);
+      
+      if (createdTransaction.linkedTransactionId) {
+        await documentChainService.refreshStatus(userId, createdTransaction.linkedTransactionId);
+      }
+      
+      // Bills are matched against their order and GRNs, and a new GRN can settle the order's bills
+      createdTransaction = await billMatchService.refresh(userId, createdTransaction);
+      
+      await paymentAllocationService.allocateToLinked(userId, createdTransaction);
+      
+      // What it owes once settled is drawn on the party's BNPL limit
+      createdTransaction = await bnplService.syncTransaction(userId, (await storage.getTransaction(userId, createdTransaction.id)) ?? createdTransaction);
+      await transactionRevisionService.recordCreated(userId, createdTransaction, req.user!.id);
+      
+      const createdItems = await storage.getTransactionItemsByTransactionId(userId, createdTransaction.id);
+      
+      res.status(201).json({
+        ...createdTransaction,
+        items: createdItems
+      });
+    } catch (err) {
+      if (err instanceof TotalsError) {
+        return res.status(400).json({ message: err.message, mismatches: err.mismatches });
+      }
+      if (err instanceof BillMatchError || err instanceof AllocationError || err instanceof NoteError || err instanceof NumberingError) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+
+  app.patch('/api/transactions/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const transactionId = parseId(req.params.id);
+      
+      const existing = await storage.getTransaction(userId, transactionId);
+      if (!existing) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      // With z.coerce.date() in the schema, we don't need to manually convert dates. Lines, when given,
+      // replace the document's lines: those with an id edit that line, those without are added.
+      const transactionData = insertTransactionSchema.omit({ userId: true, ...registrationFields }).partial().parse(req.body);
+      const editedLines = req.body.items === undefined
+        ? undefined
+        : z.array(
+            insertTransactionItemSchema.omit({ transactionId: true }).partial({ amount: true, totalAmount: true }).extend({ id: z.number().int().optional() })
+          ).parse(req.body.items);
+      
+      const types = [existing.transactionType, transactionData.transactionType ?? existing.transactionType];
+      for (const type of types) {
+        if (!(await hasPermission(req, permissionForTransactionType(type)))) {
+          return res.status(403).json({ message: "You do not have permission to perform this action" });
+        }
+      }
+      
+      // A cancelled document stays as it was cancelled, and cancelling goes through the cancel action
+      if (existing.status === 'cancelled') {
+        return res.status(409).json({ message: `${existing.transactionNumber} is cancelled and can no longer be changed` });
+      }
+      if (transactionData.status === 'cancelled') {
+        return res.status(409).json({ message: `Cancel ${existing.transactionNumber} with the cancel action, which undoes what it did` });
+      }
+      if (transactionData.transactionNumber !== undefined || transactionData.transactionType !== undefined) {
+        await numberingService.assertAvailable(
+          userId,
+          transactionData.transactionType ?? existing.transactionType,
+          transactionData.transactionNumber ?? existing.transactionNumber,
+          transactionId
+        );
+      }
+      
+      if (transactionData.partyId && !(await storage.getParty(userId, transactionData.partyId))) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+      
+      // Marking a held bill paid waits for its approval
+      const paying = (transactionData.status === 'paid' || transactionData.status === 'partially_paid') && transactionData.status !== existing.status
+        || (transactionData.balanceDue != null && existing.balanceDue !== null && parseFloat(transactionData.balanceDue) < parseFloat(existing.balanceDue));
+      if (existing.transactionType === 'purchase_bill' && paying) {
+        billMatchService.assertPayable(existing);
+      }
+      
+      // A receipt, payment or note cannot drop below what it has already allocated
+      if (paymentAllocationService.isSettling(existing) && transactionData.amount !== undefined) {
+        await paymentAllocationService.assertCovers(userId, existing, parseFloat(transactionData.amount));
+      }
+      
+      if (editedLines) {
+        // Once the IRP has the invoice its lines are fixed; the e-invoice must be cancelled first
+        if (existing.irn) {
+          return res.status(409).json({ message: `${existing.transactionNumber} has an IRN; cancel the e-invoice before changing its lines` });
+        }
+        const currentLineIds = new Set((await storage.getTransactionItemsByTransactionId(userId, transactionId)).map((line) => line.id));
+        for (const line of editedLines) {
+          if (line.id !== undefined && !currentLineIds.has(line.id)) {
+            return res.status(404).json({ message: `Line ${line.id} is not on ${existing.transactionNumber}` });
+          }
+          if (line.itemId && !(await storage.getItem(userId, line.itemId))) {
+            return res.status(404).json({ message: "Item not found" });
+          }
+          if (line.godownId && !(await storage.getGodown(userId, line.godownId))) {
+            return res.status(404).json({ message: "Godown not found" });
+          }
+        }
+        await documentChainService.assertLinesFit(userId, { ...existing, ...transactionData }, editedLines);
+      }
+      
+      // A note given other lines, or another original, party or reason, must still fit the document it adjusts
+      if (
+        isNoteType(transactionData.transactionType ?? existing.transactionType) && (
+          editedLines !== undefined ||
+          transactionData.transactionType !== undefined ||
+          transactionData.linkedTransactionId !== undefined ||
+          transactionData.partyId !== undefined ||
+          transactionData.noteReason !== undefined
+        )
+      ) {
+        const lines = editedLines ?? await storage.getTransactionItemsByTransactionId(userId, transactionId);
+        await noteService.validate(userId, { ...existing, ...transactionData }, lines, transactionId);
+      }
+      
+      // A receipt, payment or note moved to another document must be one it can settle
+      if (
+        paymentAllocationService.isSettling(existing) &&
+        transactionData.linkedTransactionId &&
+        transactionData.linkedTransactionId !== existing.linkedTransactionId
+      ) {
+        const document = await storage.getTransaction(userId, transactionData.linkedTransactionId);
+        if (!document) {
+          return res.status(404).json({ message: "Linked document not found" });
+        }
+        paymentAllocationService.assertAllocatable({ ...existing, ...transactionData }, document);
+      }
+      
+      // New lines, or a different party, place of supply or pricing mode, change the GST on every line.
+      // The totals of a document with lines are worked out here, and any the client sent must agree.
+      const submittedTotals = (['amount', 'taxableAmount', 'cgstAmount', 'sgstAmount', 'igstAmount', 'cessAmount'] as const)
+        .some((field) => transactionData[field] !== undefined);
+      const lines: NonNullable<typeof editedLines> = editedLines ?? (await storage.getTransactionItemsByTransactionId(userId, transactionId))
+        .map(({ transactionId, createdAt, ...line }) => line);
+      const retaxed = lines.length > 0 && (
+        editedLines !== undefined ||
+        submittedTotals ||
+        transactionData.partyId !== undefined ||
+        transactionData.placeOfSupply !== undefined ||
+        transactionData.pricesIncludeTax !== undefined
+      );
+      const merged = { ...existing, ...transactionData };
+      const gst = retaxed
+        ? await transactionService.calculateTotals(userId, {
+            ...merged,
+            // A new party means a new place of supply unless one was given
+            placeOfSupply: transactionData.placeOfSupply !== undefined || transactionData.partyId === undefined
+              ? merged.placeOfSupply
+              : null
+          }, lines)
+        : undefined;
+      if (gst) {
+        transactionService.assertTotals(transactionData, editedLines ?? [], gst);
+        
+        // A note cannot drop below what it has already adjusted
+        if (paymentAllocationService.isSettling(existing)) {
+          await paymentAllocationService.assertCovers(userId, existing, parseFloat(gst.totals.amount));
+        }
+      }
+      
+      const syncedVersion = await tallySyncService.getSyncedVersion(userId, existing);
+      
+      // The header, totals and lines are saved together with the revision they make. An unpaid
+      // document owes the new total.
+      const unpaid = existing.balanceDue !== null
+        && parseFloat(existing.balanceDue) === parseFloat(existing.amount);
+      let transaction = await storage.saveTransactionEdit(userId, transactionId, {
+        updates: gst
+          ? { ...transactionData, ...gst.totals, ...(unpaid ? { balanceDue: gst.totals.amount } : {}) }
+          : transactionData,
+        lines: gst?.lines,
+        revise: await transactionRevisionService.reviser(userId, req.user!.id)
+      });
+      
+      // New lines, or a new type or date, change what was posted, so post the document again
+      if (editedLines || transactionData.transactionType !== undefined || transactionData.transactionDate !== undefined) {
+        await stockService.repostTransaction(userId, transaction);
+      } else {
+        await stockService.syncTransaction(userId, transaction);
+      }
+      await ledgerService.syncTransaction(userId, transaction);
+      
+      // Tally keeps the pushed version until the next push alters it
+      transaction = await tallySyncService.detectChanges(userId, transactionId, syncedVersion);
+      
+      // A converted document that is cancelled, retyped, relinked or given other lines changes what its
+      // source has fulfilled; its own new lines change how much of it has been converted
+      for (const sourceId of Array.from(new Set([existing.linkedTransactionId, transaction.linkedTransactionId]))) {
+        if (sourceId) await documentChainService.refreshStatus(userId, sourceId);
+      }
+      if (editedLines) {
+        await documentChainService.refreshStatus(userId, transactionId);
+      }
+      
+      // A GRN moved to another order changes what the old order's bills were received against
+      if (existing.transactionType === 'grn' && existing.linkedTransactionId !== transaction.linkedTransactionId) {
+        await billMatchService.refresh(userId, existing);
+      }
+      transaction = await billMatchService.refresh(userId, transaction);
+      
+      // A receipt, payment or note moved to another document, or a note given other lines, settles it
+      // afresh; otherwise an edited total changes what is still owed
+      if (paymentAllocationService.isSettling(transaction)) {
+        if (transaction.linkedTransactionId !== existing.linkedTransactionId || editedLines) {
+          await paymentAllocationService.release(userId, transaction);
+          await paymentAllocationService.allocateToLinked(userId, transaction);
+        }
+      } else {
+        await paymentAllocationService.syncDocument(userId, transaction);
+      }
+      transaction = await bnplService.syncTransaction(userId, (await storage.getTransaction(userId, transactionId)) ?? transaction);
+      
+      res.json(transaction);
+    } catch (err) {
+      if (err instanceof TotalsError) {
+        return res.status(400).json({ message: err.message, mismatches: err.mismatches });
+      }
+      if (
+        err instanceof BillMatchError || err instanceof AllocationError || err instanceof NoteError ||
+        err instanceof DocumentChainError || err instanceof NumberingError
+      ) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+
+  // Cancels a document and undoes what it did; the reason is kept with it
+  app.post('/api/transactions/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const transactionId = parseId(req.params.id);
+      const transaction = await storage.getTransaction(userId, transactionId);
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      if (!(await hasPermission(req, permissionForTransactionType(transaction.transactionType)))) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      const { reason } = z.object({
+        reason: z.string().trim().min(3, "Give the reason for cancelling").max(500)
+      }).parse(req.body);
+      
+      const before = await transactionRevisionService.snapshot(userId, transaction);
+      const cancelled = await cancellationService.cancel(userId, transaction, reason, req.user!.id);
+      await transactionRevisionService.recordSave(userId, transactionId, before, req.user!.id);
+      
+      res.json(cancelled);
+    } catch (err) {
+      if (err instanceof CancellationError) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+
+  // General ledger: the chart of accounts, journal entries and the trial balance
+  app.get('/api/accounts', requirePermission("manage_accounts"), async (req: Request, res: Response) => {
+    try {
+      res.json(await ledgerService.chartOf(currentUserId(req)));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  // Accounts added by hand; the ones documents post to come with the chart
+  app.post('/api/accounts', requirePermission("manage_accounts"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const accountData = insertAccountSchema.omit({ systemKey: true }).parse({ ...req.body, userId });
+      await ledgerService.assertAccountValid(userId, accountData);
+      
+      const account = await storage.createAccount(accountData);
+      res.status(201).json(account);
+    } catch (err) {
+      if (err instanceof LedgerError) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.patch('/api/accounts/:id', requirePermission("manage_accounts"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const accountId = parseId(req.params.id);
+      const existing = await storage.getAccount(userId, accountId);
+      if (!existing) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      const updates = insertAccountSchema.pick({ name: true, groupName: true, isActive: true }).partial().parse(req.body);
+      await ledgerService.assertAccountValid(userId, updates, existing);
+      
+      const account = await storage.updateAccount(userId, accountId, updates);
+      res.json(account);
+    } catch (err) {
+      if (err instanceof LedgerError) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+  
+  // Journal entries with their lines, oldest first; those of one document when given its id
+  app.get('/api/journal-entries', requirePermission("manage_accounts"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const { transactionId } = z.object({ transactionId: z.coerce.number().int().positive().optional() }).parse(req.query);
+      
+      await ledgerService.chartOf(userId);
+      res.json(await ledgerService.getJournals(userId, transactionId));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  // A journal voucher entered by hand
+  app.post('/api/journal-entries', requirePermission("manage_accounts"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const voucher = z.object({
+        voucherNumber: z.string().trim().max(40).optional(),
+        entryDate: z.coerce.date(),
+        narration: z.string().trim().max(500).nullable().optional(),
+        lines: z.array(z.object({
+          accountId: z.number().int(),
+          partyId: z.number().int().nullable().optional(),
+          debit: z.coerce.number().nonnegative().optional(),
+          credit: z.coerce.number().nonnegative().optional()
+        })).min(2, "A journal voucher needs at least two lines")
+      }).parse(req.body);
+      
+      res.status(201).json(await ledgerService.postJournal(userId, voucher, req.user!.id));
+    } catch (err) {
+      if (err instanceof LedgerError) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+  
+  // Journal vouchers are never deleted; a reversing entry undoes one, dated today unless given a date
+  app.post('/api/journal-entries/:id/reverse', requirePermission("manage_accounts"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const entry = await storage.getJournalEntry(userId, parseId(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "Journal entry not found" });
+      }
+      
+      const { entryDate } = z.object({ entryDate: z.coerce.date().optional() }).parse(req.body ?? {});
+      res.status(201).json(await ledgerService.reverseJournal(userId, entry, entryDate ?? new Date(), req.user!.id));
+    } catch (err) {
+      if (err instanceof LedgerError) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+  
+  // Closing balance of every account as of the end of a day, today unless given
+  app.get('/api/ledger/trial-balance', requirePermission("manage_accounts"), async (req: Request, res: Response) => {
+    try {
+      const { asOf } = z.object({ asOf: z.coerce.date().optional() }).parse(req.query);
+      res.json(await ledgerService.trialBalance(currentUserId(req), asOf ?? new Date()));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // GST returns
+  app.get('/api/gst/gstr1', requirePermission("manage_gst"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const period = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be YYYY-MM").parse(req.query.period);
+      
+      const company = await storage.getUser(userId);
+      if (!company || !isValidGstin(company.gstin)) {
+        return res.status(400).json({ message: "Company GSTIN is missing or invalid" });
+      }
+      
+      const gstReturn = await gstr1Service.buildReturn(userId, company, period);
+      
+      // ?download=true returns just the portal JSON as a file for the offline utility
+      if (req.query.download === 'true') {
+        res.setHeader('Content-Disposition', `attachment; filename="GSTR1_${gstReturn.gstr1.gstin}_${gstReturn.gstr1.fp}.json"`);
+        return res.json(gstReturn.gstr1);
+      }
+      
+      res.json(gstReturn);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Records that the GSTR-1 for a period was filed on the portal; documents reported in it or earlier can no longer be cancelled
+  app.post('/api/gst/gstr1/filed', requirePermission("manage_gst"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const { period } = z.object({
+        period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be YYYY-MM")
+      }).parse(req.body);
+
+      const settings = await storage.getCompanySettings(userId);
+      if (settings.gstr1FiledThrough && settings.gstr1FiledThrough >= period) {
+        return res.status(409).json({ message: `GSTR-1 is already filed through ${settings.gstr1FiledThrough}` });
+      }
+
+      res.json(await storage.updateCompanySettings(userId, { gstr1FiledThrough: period }));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // GSTR-2B reconciliation
+  app.get('/api/gst/gstr2b', requirePermission("manage_gst"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const imports = await storage.getGstr2bImports(userId);
+      
+      const result = [];
+      for (const gstr2bImport of imports) {
+        const entries = await storage.getGstr2bEntries(userId, gstr2bImport.id);
+        const counts: Record<string, number> = {};
+        for (const entry of entries) {
+          counts[entry.matchStatus] = (counts[entry.matchStatus] ?? 0) + 1;
+        }
+        result.push({
+          ...gstr2bImport,
+          counts,
+          pendingReview: entries.filter(entry => entry.matchStatus !== 'matched' && entry.reviewStatus === 'pending').length
+        });
+      }
+      
+      res.json(result);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.get('/api/gst/gstr2b/:id', requirePermission("manage_gst"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const gstr2bImport = await storage.getGstr2bImport(userId, parseId(req.params.id));
+      
+      if (!gstr2bImport) {
+        return res.status(404).json({ message: "GSTR-2B import not found" });
+      }
+      
+      const entries = await storage.getGstr2bEntries(userId, gstr2bImport.id);
+      res.json({ ...gstr2bImport, entries: await gstr2bService.withBills(userId, entries) });
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Accepts the portal JSON as-is, or wrapped as { fileName, file } by the upload screen
+  app.post('/api/gst/gstr2b', requirePermission("manage_gst"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const { fileName, file } = 'file' in req.body
+        ? z.object({ fileName: z.string().optional(), file: z.unknown() }).parse(req.body)
+        : { fileName: undefined, file: req.body };
+      
+      const gstr2bImport = await gstr2bService.importFile(userId, gstr2bService.parseFile(file), fileName);
+      res.status(201).json(gstr2bImport);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.delete('/api/gst/gstr2b/:id', requirePermission("manage_gst"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const id = parseId(req.params.id);
+      
+      if (!(await storage.getGstr2bImport(userId, id))) {
+        return res.status(404).json({ message: "GSTR-2B import not found" });
+      }
+      
+      await storage.deleteGstr2bImport(userId, id);
+      res.status(204).end();
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.patch('/api/gst/gstr2b/entries/:id', requirePermission("manage_gst"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const id = parseId(req.params.id);
+      const review = z.object({
+        reviewStatus: z.enum(["pending", "accepted", "flagged"]),
+        reviewNote: z.string().nullable().optional()
+      }).parse(req.body);
+      
+      if (!(await storage.getGstr2bEntry(userId, id))) {
+        return res.status(404).json({ message: "GSTR-2B entry not found" });
+      }
+      
+      const entry = await storage.updateGstr2bEntry(userId, id, review);
+      res.json(entry);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // BNPL Limits
+  app.get('/api/bnpl-limits', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const type = req.query.type as string | undefined;
+      const partyId = req.query.partyId ? parseId(req.query.partyId as string) : undefined;
+      
+      if (type) {
+        const limits = await storage.getBnplLimitsByType(userId, type);
+        res.json(limits);
+      } else if (partyId) {
+        const limits = await storage.getBnplLimitsByPartyId(userId, partyId);
+        res.json(limits);
+      } else {
+        const limits = await storage.getBnplLimitsByUserId(userId);
+        res.json(limits);
+      }
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.post('/api/bnpl-limits', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      // With z.coerce.date() in the schema, the date field will be automatically converted
+      const limitData = insertBnplLimitSchema.parse({ ...req.body, userId });
+      
+      if (!(await storage.getParty(userId, limitData.partyId))) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+      
+      const limit = await storage.createBnplLimit(limitData);
+      res.status(201).json(limit);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.patch('/api/bnpl-limits/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const limitId = parseId(req.params.id);
+      
+      if (!(await storage.getBnplLimitsByUserId(userId)).some((limit) => limit.id === limitId)) {
+        return res.status(404).json({ message: "BNPL limit not found" });
+      }
+      
+      // With z.coerce.date() in the schema, the date field will be automatically converted
+      const limitData = insertBnplLimitSchema.omit({ userId: true }).partial().parse(req.body);
+      
+      if (limitData.partyId && !(await storage.getParty(userId, limitData.partyId))) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+      
+      const limit = await storage.updateBnplLimit(userId, limitId, limitData);
+      res.json(limit);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Tally Sync
+  app.get('/api/tally-sync/logs', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const logs = await storage.getTallySyncLogs(userId);
+      res.json(logs);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.get('/api/tally-sync/latest', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const log = await storage.getRecentTallySyncLog(userId);
+      
+      if (!log) {
+        return res.status(404).json({ message: "No sync logs found" });
+      }
+      
+      res.json(log);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.get('/api/tally-sync/logs/:id/entries', async (req: Request, res: Response) => {
+    try {
+      const entries = await storage.getTallySyncEntries(currentUserId(req), parseId(req.params.id));
+      res.json(entries);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Runs a sync now; the log records what happened to each voucher, even when Tally is unreachable
+  app.post('/api/tally-sync', requirePermission("sync_tally"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const { syncType, fromDate, toDate } = z.object({
+        syncType: z.enum(["push", "pull"]).default("push"),
+        fromDate: z.coerce.date().optional(),
+        toDate: z.coerce.date().optional()
+      }).parse(req.body ?? {});
+      
+      const log = await tallySyncService.runExclusive(userId, () => syncType === "push"
+        ? tallySyncService.push(userId)
+        : tallySyncService.pull(userId, { fromDate, toDate }));
+      res.status(201).json(log);
+    } catch (err) {
+      if (err instanceof TallyMappingError) {
+        return res.status(409).json({ message: err.message, unmapped: err.unmapped });
+      }
+      if (err instanceof TallySyncBusyError) {
+        return res.status(409).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+
+  // Auto-sync state for the dashboard widget to poll
+  app.get('/api/tally-sync/job', async (req: Request, res: Response) => {
+    try {
+      const status = await tallySyncService.getJobStatus(currentUserId(req));
+      res.json(status);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // The documents behind the pending counts, optionally of one type or state
+  app.get('/api/tally-sync/pending', async (req: Request, res: Response) => {
+    try {
+      const filter = z.object({
+        type: z.enum(transactionTypeEnum.enumValues).optional(),
+        state: z.enum(tallyPendingStates as [TallyPendingState, ...TallyPendingState[]]).optional()
+      }).parse(req.query);
+      
+      const documents = await tallySyncService.getPendingDocuments(currentUserId(req), { transactionType: filter.type, state: filter.state });
+      res.json(documents);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Documents edited since they were synced, next to the version Tally has
+  app.get('/api/tally-sync/conflicts', async (req: Request, res: Response) => {
+    try {
+      const conflicts = await tallySyncService.getConflicts(currentUserId(req));
+      res.json(conflicts);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.post('/api/tally-sync/test', requirePermission("sync_tally"), async (req: Request, res: Response) => {
+    try {
+      const message = await tallySyncService.testConnection(currentUserId(req));
+      res.json({ message });
+    } catch (err) {
+      if (err instanceof TallyError) {
+        return res.status(502).json({ message: err.message });
+      }
+      handleError(err as Error, res);
+    }
+  });
+
+  // Tally mappings: what parties, items, voucher types and ledger roles are called in the company's Tally
+  app.get('/api/tally-mappings', async (req: Request, res: Response) => {
+    try {
+      const mappings = await storage.getTallyMappings(currentUserId(req));
+      res.json(mappings);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Every master with its mapping or a suggested Tally name; ?unmapped=true leaves out mapped ones
+  app.get('/api/tally-mappings/masters', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const { masters, required } = await tallySyncService.getMasters(userId);
+      const list = await tallyMappingService.describe(userId, masters, required);
+      if (req.query.unmapped === "true") {
+        list.masters = list.masters.filter(master => !master.mapping);
+      }
+      res.json(list);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Creates or replaces the mapping of one master
+  app.post('/api/tally-mappings', requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const mappingData = insertTallyMappingSchema.parse({ ...req.body, userId: currentUserId(req) });
+      const mapping = await storage.saveTallyMapping(mappingData);
+      res.status(201).json(mapping);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.post('/api/tally-mappings/accept-suggestions', requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const { masters, required } = await tallySyncService.getMasters(userId);
+      const list = await tallyMappingService.describe(userId, masters, required);
+      if (list.tallyError) {
+        return res.status(502).json({ message: list.tallyError });
+      }
+      const saved = await tallyMappingService.acceptSuggestions(userId, list.masters);
+      res.status(201).json(saved);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.patch('/api/tally-mappings/:id', requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const existing = await storage.getTallyMapping(userId, parseId(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Tally mapping not found" });
+      }
+
+      const { tallyName } = insertTallyMappingSchema.pick({ tallyName: true }).parse(req.body);
+      const mapping = await storage.saveTallyMapping({ mappingType: existing.mappingType, sourceKey: existing.sourceKey, tallyName, userId });
+      res.json(mapping);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  app.delete('/api/tally-mappings/:id', requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const mappingId = parseId(req.params.id);
+      if (!(await storage.getTallyMapping(userId, mappingId))) {
+        return res.status(404).json({ message: "Tally mapping not found" });
+      }
+
+      await storage.deleteTallyMapping(userId, mappingId);
+      res.status(204).end();
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+
+  // Inventory API
+  app.get('/api/inventory/summary', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const items = await storage.getItemsByUserId(userId);
+      const itemStock = await stockService.getItemStock(userId, items);
+      const { totalValue } = await valuationService.getClosingStock(userId);
+      
+      // Calculate summary data
+      let lowStockCount = 0;
+      let outOfStockCount = 0;
+      
+      items.forEach(item => {
+        const quantityInStock = itemStock.get(item.id)?.quantityInStock ?? 0;
+        const minStockLevel = item.minStockLevel ? parseFloat(item.minStockLevel) : 0;
+        
+        if (quantityInStock <= 0) {
+          outOfStockCount++;
+        } else if (minStockLevel > 0 && quantityInStock <= minStockLevel) {
+          lowStockCount++;
+        }
+      });
       
       res.json({
         totalItems: items.length,
@@ -455,15 +1877,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Stock ledger
+  app.get('/api/inventory/stock-movements', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const movements = await storage.getStockMovements(userId, {
+        itemId: req.query.itemId ? parseId(req.query.itemId as string) : undefined,
+        godownId: req.query.godownId ? parseId(req.query.godownId as string) : undefined
+      });
+      res.json(movements);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.get('/api/inventory/stock-balances', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const balances = await storage.getStockBalances(userId);
+      res.json(balances);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  // Closing stock valued at cost; asOf is a date and includes the whole day
+  app.get('/api/inventory/closing-stock', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      let asOf: Date | undefined;
+      
+      if (req.query.asOf) {
+        asOf = z.coerce.date().parse(req.query.asOf);
+        asOf.setHours(23, 59, 59, 999);
+      }
+      
+      const closingStock = await valuationService.getClosingStock(userId, asOf);
+      res.json(closingStock);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
   // Stock Groups API
   app.get('/api/inventory/stock-groups', async (req: Request, res: Response) => {
     try {
-      // Mock data for now until we add stock groups to the schema
-      res.json([
-        { id: 1, name: 'Raw Materials', parentName: null, hsnCode: '3926', gstRate: 18, userId: 1 },
-        { id: 2, name: 'Finished Goods', parentName: null, hsnCode: '9403', gstRate: 12, userId: 1 },
-        { id: 3, name: 'Packaging', parentName: null, hsnCode: '4819', gstRate: 5, userId: 1 }
+      const userId = currentUserId(req);
+      const stockGroups = await storage.getStockGroupsByUserId(userId);
+      res.json(inventoryService.withParentNames(stockGroups));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.get('/api/inventory/stock-groups/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const stockGroup = await storage.getStockGroup(userId, parseId(req.params.id));
+      
+      if (!stockGroup) {
+        return res.status(404).json({ message: "Stock group not found" });
+      }
+      
+      res.json(stockGroup);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.post('/api/inventory/stock-groups', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const stockGroupData = insertStockGroupSchema.parse({ ...req.body, userId });
+      
+      if (stockGroupData.parentId &&
+          !inventoryService.isValidParent(await storage.getStockGroupsByUserId(userId), undefined, stockGroupData.parentId)) {
+        return res.status(400).json({ message: "Invalid parent stock group" });
+      }
+      
+      const stockGroup = await storage.createStockGroup(stockGroupData);
+      res.status(201).json(stockGroup);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.patch('/api/inventory/stock-groups/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const stockGroupId = parseId(req.params.id);
+      
+      if (!(await storage.getStockGroup(userId, stockGroupId))) {
+        return res.status(404).json({ message: "Stock group not found" });
+      }
+      
+      const stockGroupData = insertStockGroupSchema.omit({ userId: true }).partial().parse(req.body);
+      
+      if (stockGroupData.parentId &&
+          !inventoryService.isValidParent(await storage.getStockGroupsByUserId(userId), stockGroupId, stockGroupData.parentId)) {
+        return res.status(400).json({ message: "Invalid parent stock group" });
+      }
+      
+      const stockGroup = await storage.updateStockGroup(userId, stockGroupId, stockGroupData);
+      res.json(stockGroup);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.delete('/api/inventory/stock-groups/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const stockGroupId = parseId(req.params.id);
+      
+      if (!(await storage.getStockGroup(userId, stockGroupId))) {
+        return res.status(404).json({ message: "Stock group not found" });
+      }
+      
+      const [stockGroups, items] = await Promise.all([
+        storage.getStockGroupsByUserId(userId),
+        storage.getItemsByUserId(userId)
       ]);
+      if (stockGroups.some(group => group.parentId === stockGroupId) ||
+          items.some(item => item.stockGroupId === stockGroupId)) {
+        return res.status(400).json({ message: "Stock group has sub-groups or items and cannot be deleted" });
+      }
+      
+      await storage.deleteStockGroup(userId, stockGroupId);
+      res.status(204).end();
     } catch (err) {
       handleError(err as Error, res);
     }
@@ -472,12 +2013,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Godowns API
   app.get('/api/inventory/godowns', async (req: Request, res: Response) => {
     try {
-      // Mock data for now until we add godowns to the schema
-      res.json([
-        { id: 1, name: 'Main Warehouse', parentName: null, address: '123 Industrial Area, Mumbai', userId: 1 },
-        { id: 2, name: 'Delhi Branch', parentName: null, address: '456 Distribution Center, Delhi', userId: 1 },
-        { id: 3, name: 'Finished Goods Section', parentName: 'Main Warehouse', address: null, userId: 1 }
-      ]);
+      const userId = currentUserId(req);
+      const godowns = await storage.getGodownsByUserId(userId);
+      res.json(inventoryService.withParentNames(godowns));
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.get('/api/inventory/godowns/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const godown = await storage.getGodown(userId, parseId(req.params.id));
+      
+      if (!godown) {
+        return res.status(404).json({ message: "Godown not found" });
+      }
+      
+      res.json(godown);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.post('/api/inventory/godowns', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const godownData = insertGodownSchema.parse({ ...req.body, userId });
+      
+      if (godownData.parentId &&
+          !inventoryService.isValidParent(await storage.getGodownsByUserId(userId), undefined, godownData.parentId)) {
+        return res.status(400).json({ message: "Invalid parent godown" });
+      }
+      
+      const godown = await storage.createGodown(godownData);
+      res.status(201).json(godown);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.patch('/api/inventory/godowns/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const godownId = parseId(req.params.id);
+      
+      if (!(await storage.getGodown(userId, godownId))) {
+        return res.status(404).json({ message: "Godown not found" });
+      }
+      
+      const godownData = insertGodownSchema.omit({ userId: true }).partial().parse(req.body);
+      
+      if (godownData.parentId &&
+          !inventoryService.isValidParent(await storage.getGodownsByUserId(userId), godownId, godownData.parentId)) {
+        return res.status(400).json({ message: "Invalid parent godown" });
+      }
+      
+      const godown = await storage.updateGodown(userId, godownId, godownData);
+      res.json(godown);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.delete('/api/inventory/godowns/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const godownId = parseId(req.params.id);
+      
+      if (!(await storage.getGodown(userId, godownId))) {
+        return res.status(404).json({ message: "Godown not found" });
+      }
+      
+      const godowns = await storage.getGodownsByUserId(userId);
+      if (godowns.some(godown => godown.parentId === godownId)) {
+        return res.status(400).json({ message: "Godown has sub-locations and cannot be deleted" });
+      }
+      if (await storage.isGodownInUse(userId, godownId)) {
+        return res.status(400).json({ message: "Godown is used by documents or stock movements and cannot be deleted" });
+      }
+      
+      await storage.deleteGodown(userId, godownId);
+      res.status(204).end();
     } catch (err) {
       handleError(err as Error, res);
     }
@@ -486,13 +2103,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Units API
   app.get('/api/inventory/units', async (req: Request, res: Response) => {
     try {
-      // Mock data for now until we add units to the schema
-      res.json([
-        { id: 1, symbol: 'PCS', formalName: 'Pieces', uqcFrom: 'GST', uqc: 'PCS', userId: 1 },
-        { id: 2, symbol: 'KG', formalName: 'Kilograms', uqcFrom: 'GST', uqc: 'KGS', userId: 1 },
-        { id: 3, symbol: 'LTR', formalName: 'Liters', uqcFrom: 'GST', uqc: 'LTR', userId: 1 },
-        { id: 4, symbol: 'BOX', formalName: 'Box', uqcFrom: 'GST', uqc: 'BOX', userId: 1 }
-      ]);
+      const userId = currentUserId(req);
+      const units = await storage.getUnitsByUserId(userId);
+      res.json(units);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.get('/api/inventory/units/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const unit = await storage.getUnit(userId, parseId(req.params.id));
+      
+      if (!unit) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      
+      res.json(unit);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.post('/api/inventory/units', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const unitData = insertUnitSchema.parse({ ...req.body, userId });
+      const unit = await storage.createUnit(unitData);
+      res.status(201).json(unit);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.patch('/api/inventory/units/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const unitId = parseId(req.params.id);
+      
+      if (!(await storage.getUnit(userId, unitId))) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      
+      const unitData = insertUnitSchema.omit({ userId: true }).partial().parse(req.body);
+      const unit = await storage.updateUnit(userId, unitId, unitData);
+      res.json(unit);
+    } catch (err) {
+      handleError(err as Error, res);
+    }
+  });
+  
+  app.delete('/api/inventory/units/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUserId(req);
+      const unitId = parseId(req.params.id);
+      
+      if (!(await storage.getUnit(userId, unitId))) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      
+      const items = await storage.getItemsByUserId(userId);
+      if (items.some(item => item.unitId === unitId)) {
+        return res.status(400).json({ message: "Unit is used by stock items and cannot be deleted" });
+      }
+      
+      await storage.deleteUnit(userId, unitId);
+      res.status(204).end();
     } catch (err) {
       handleError(err as Error, res);
     }
@@ -501,23 +2178,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Items specific to inventory with separate endpoint
   app.get('/api/inventory/items', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
+      const userId = currentUserId(req);
       const recent = req.query.recent === 'true';
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
       
-      let items = await storage.getItemsByUserId(userId);
+      const storedItems = await storage.getItemsByUserId(userId);
+      const [itemStock, stockGroups] = await Promise.all([
+        stockService.getItemStock(userId, storedItems),
+        storage.getStockGroupsByUserId(userId)
+      ]);
+      const groupGstRates = new Map(stockGroups.map(group => [group.id, group.gstRate]));
       
-      // Add mock inventory data for UI purposes
-      items = items.map(item => ({
-        ...item,
-        // These are UI display properties not in the actual DB schema
-        quantitySold: Math.floor(Math.random() * 100),
-        quantityInStock: item.openingStock ? parseInt(item.openingStock) : 0,
-        salesValue: Math.floor(Math.random() * 10000),
-        price: item.sellingPrice ? parseFloat(item.sellingPrice) : 0,
-        costPrice: item.purchasePrice ? parseFloat(item.purchasePrice) : 0,
-        gstRate: Math.floor(Math.random() * 4) * 5, // 0, 5, 10, 15%
-      }));
+      // Stock figures come from the stock ledger; the rest are display helpers
+      let items = (await inventoryService.withMasterNames(userId, storedItems)).map(item => {
+        const stock = itemStock.get(item.id);
+        const gstRate = item.stockGroupId ? groupGstRates.get(item.stockGroupId) : null;
+        
+        return {
+          ...item,
+          quantitySold: stock?.quantitySold ?? 0,
+          quantityInStock: stock?.quantityInStock ?? 0,
+          salesValue: stock?.salesValue ?? 0,
+          price: item.sellingPrice ? parseFloat(item.sellingPrice) : 0,
+          costPrice: item.purchasePrice ? parseFloat(item.purchasePrice) : 0,
+          gstRate: gstRate ? parseFloat(gstRate) : 0,
+        };
+      });
       
       if (recent && limit) {
         items = items.slice(0, limit);
@@ -532,7 +2218,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Ageing Analysis
   app.get('/api/ageing/receivables', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
+      const userId = currentUserId(req);
       const ageing = await storage.getReceivablesAgeing(userId);
       res.json(ageing);
     } catch (err) {
@@ -542,7 +2228,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/ageing/payables', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Mock user ID
+      const userId = currentUserId(req);
       const ageing = await storage.getPayablesAgeing(userId);
       res.json(ageing);
     } catch (err) {
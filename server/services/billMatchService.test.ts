@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { BillMatchService } from "./billMatchService";
+
+const billMatchService = new BillMatchService();
+
+let companies = 0;
+
+// A company that ordered 10 widgets at 100 and has received 6 of them
+async function setUp() {
+  const user = await storage.createUser({ username: `billmatch${++companies}`, password: "secret", companyName: `Company ${companies}` });
+  const vendor = await storage.createParty({ name: "Bharath Supplies", type: "vendor", userId: user.id });
+  const item = await storage.createItem({ name: "Widget", userId: user.id });
+  const document = (transactionNumber: string, transactionType: string, linkedTransactionId: number | null, date: string,
+    line: { quantity: number; rate: number; sourceItemId?: number }) => storage.createTransactionWithItems({
+    transactionNumber, transactionType, partyId: vendor.id, linkedTransactionId, transactionDate: new Date(date),
+    amount: (line.quantity * line.rate).toFixed(2), status: "pending", userId: user.id,
+  }, [{
+    itemId: item.id, quantity: line.quantity.toFixed(2), rate: line.rate.toFixed(2), amount: (line.quantity * line.rate).toFixed(2),
+    totalAmount: (line.quantity * line.rate).toFixed(2), sourceItemId: line.sourceItemId ?? null,
+  }]);
+
+  const order = await document("PO-1", "purchase_order", null, "2026-06-01", { quantity: 10, rate: 100 });
+  const [orderLine] = await storage.getTransactionItemsByTransactionId(user.id, order.id);
+  const receipt = await document("GRN-1", "grn", order.id, "2026-06-05", { quantity: 6, rate: 100, sourceItemId: orderLine.id });
+  const [receiptLine] = await storage.getTransactionItemsByTransactionId(user.id, receipt.id);
+  return { user, order, receipt, receiptLine, document };
+}
+
+describe("BillMatchService", () => {
+  it("matches a bill for what was received, at the order rate", async () => {
+    const { user, receipt, receiptLine, document } = await setUp();
+    const bill = await document("PB-1", "purchase_bill", receipt.id, "2026-06-06", { quantity: 6, rate: 100.5, sourceItemId: receiptLine.id });
+
+    const match = await billMatchService.match(user.id, bill);
+
+    expect(match.status).toBe("matched");
+    expect(match.receipts.map((found) => found.transactionNumber)).toEqual(["GRN-1"]);
+    expect(match.lines[0]).toMatchObject({ orderedQuantity: 10, orderRate: 100, receivedQuantity: 6, billedEarlier: 0, issues: [] });
+  });
+
+  it("holds a bill for more than is received and not yet billed, or off the order rate, until it is approved", async () => {
+    const { user, order, receipt, receiptLine, document } = await setUp();
+    await billMatchService.matchBill(user.id, await document("PB-1", "purchase_bill", receipt.id, "2026-06-06", { quantity: 5, rate: 100, sourceItemId: receiptLine.id }));
+    const bill = await billMatchService.matchBill(user.id, await document("PB-2", "purchase_bill", order.id, "2026-06-07", { quantity: 3, rate: 110 }));
+
+    expect(bill.matchStatus).toBe("mismatched");
+    expect(bill.matchNote).toBe("Widget: 3 billed but only 1 received and not yet billed; Widget: Rate 110 against 100 on the order");
+    expect(() => billMatchService.assertPayable(bill)).toThrow("PB-2 does not match its order and receipts");
+
+    const approved = await billMatchService.approve(user.id, bill, user.id);
+    expect(approved.matchStatus).toBe("approved");
+    expect(() => billMatchService.assertPayable(approved)).not.toThrow();
+    expect((await billMatchService.matchBill(user.id, approved)).matchStatus).toBe("approved");
+    await expect(billMatchService.approve(user.id, approved, user.id)).rejects.toThrow("PB-2 is not held for a mismatch");
+  });
+
+  it("holds an approved bill again once its mismatch changes", async () => {
+    const { user, order, document } = await setUp();
+    const bill = await billMatchService.matchBill(user.id, await document("PB-1", "purchase_bill", order.id, "2026-06-06", { quantity: 6, rate: 120 }));
+    await billMatchService.approve(user.id, bill, user.id);
+
+    const [line] = await storage.getTransactionItemsByTransactionId(user.id, bill.id);
+    await storage.replaceTransactionItems(user.id, bill.id, [{ ...line, rate: "130.00" }]);
+    const refreshed = await billMatchService.refresh(user.id, (await storage.getTransaction(user.id, bill.id))!);
+
+    expect(refreshed.matchStatus).toBe("mismatched");
+    expect(refreshed.matchNote).toBe("Widget: Rate 130 against 100 on the order");
+    expect(refreshed.matchApprovedBy).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+import { storage } from '../storage';
+import { Transaction, TransactionItem } from '@shared/schema';
+
+type BillMatchStatus = NonNullable<Transaction['matchStatus']>;
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Differences smaller than this are rounding, not a mismatch
+const epsilon = 0.005;
+
+// A bill that cannot be paid or approved as asked
+export class BillMatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillMatchError';
+  }
+}
+
+// A bill line next to the order line it was billed against and what was received for it
+export interface BillMatchLine {
+  lineId: number;
+  itemId: number | null;
+  description: string | null;
+  quantity: number;
+  rate: number;
+  orderLineId: number | null;
+  orderedQuantity: number | null;
+  orderRate: number | null;
+  receivedQuantity: number; // On GRNs against the order
+  billedEarlier: number; // On the order's earlier bills
+  issues: string[];
+}
+
+type MatchDocument = Pick<Transaction, 'id' | 'transactionNumber' | 'transactionType'>;
+
+export interface BillMatch {
+  status: BillMatchStatus;
+  note: string | null;
+  order: MatchDocument | null;
+  receipts: MatchDocument[];
+  lines: BillMatchLine[];
+}
+
+const matchDocument = ({ id, transactionNumber, transactionType }: Transaction): MatchDocument =>
+  ({ id, transactionNumber, transactionType });
+
+// Bills claim received quantities in date order, then in the order they were entered
+const billedBefore = (other: Transaction, bill: Transaction) => {
+  const difference = (other.transactionDate?.getTime() ?? 0) - (bill.transactionDate?.getTime() ?? 0);
+  return difference < 0 || (difference === 0 && other.id < bill.id);
+};
+
+const lineLabel = (line: TransactionItem, itemNames: Map<number, string>) =>
+  (line.itemId ? itemNames.get(line.itemId) : undefined) ?? line.description ?? `Line ${line.id}`;
+
+// Checks purchase bills against what was ordered and received: each bill line's quantity must be
+// covered by GRNs against the order (less what earlier bills have already claimed) and its rate must be
+// the order rate, both within the company's tolerances. Mismatched bills are held from payment until
+// someone with the approve_bills permission releases them.
+export class BillMatchService {
+  // Works out the match without saving it; an earlier approval of the same mismatch still stands
+  async match(userId: number, bill: Transaction): Promise<BillMatch> {
+    const order = await this.getOrder(userId, bill);
+    if (!order) {
+      return { status: 'unlinked', note: null, order: null, receipts: [], lines: [] };
+    }
+
+    const settings = await storage.getCompanySettings(userId);
+    const quantityTolerance = parseFloat(settings.billMatchQuantityTolerance) / 100;
+    const rateTolerance = parseFloat(settings.billMatchRateTolerance) / 100;
+
+    const documents = (await storage.getTransactionsByUserId(userId)).filter((document) => document.status !== 'cancelled');
+    const receipts = documents.filter((document) => document.transactionType === 'grn' && document.linkedTransactionId === order.id);
+    const receiptIds = receipts.map((receipt) => receipt.id);
+    const earlierBills = documents.filter((document) =>
+      document.transactionType === 'purchase_bill' &&
+      billedBefore(document, bill) &&
+      document.linkedTransactionId !== null &&
+      (document.linkedTransactionId === order.id || receiptIds.includes(document.linkedTransactionId)));
+
+    const orderLines = await storage.getTransactionItemsByTransactionId(userId, order.id);
+    const receiptLines = await this.getLines(userId, receipts);
+    const linesById = new Map(orderLines.concat(receiptLines).map((line) => [line.id, line]));
+
+    // Follows a line back through the GRN it came from to the order line; lines keyed in by hand match on the item
+    const orderLineOf = (line: TransactionItem): TransactionItem | undefined => {
+      let current: TransactionItem | undefined = line;
+      while (current?.sourceItemId) {
+        current = linesById.get(current.sourceItemId);
+        if (current?.transactionId === order.id) return current;
+      }
+      return line.itemId ? orderLines.find((orderLine) => orderLine.itemId === line.itemId) : undefined;
+    };
+
+    const totals = (lines: TransactionItem[]) => {
+      const byOrderLine = new Map<number, number>();
+      for (const line of lines) {
+        const orderLine = orderLineOf(line);
+        if (orderLine) byOrderLine.set(orderLine.id, round2((byOrderLine.get(orderLine.id) ?? 0) + parseFloat(line.quantity)));
+      }
+      return byOrderLine;
+    };
+    const received = totals(receiptLines);
+    const billedEarlier = totals(await this.getLines(userId, earlierBills));
+
+    const itemNames = new Map((await storage.getItemsByUserId(userId)).map((item) => [item.id, item.name]));
+    const billLines = await storage.getTransactionItemsByTransactionId(userId, bill.id);
+    const lines = billLines.map((line): BillMatchLine => {
+      const quantity = parseFloat(line.quantity);
+      const rate = parseFloat(line.rate);
+      const orderLine = orderLineOf(line);
+      const receivedQuantity = orderLine ? received.get(orderLine.id) ?? 0 : 0;
+      const earlier = orderLine ? billedEarlier.get(orderLine.id) ?? 0 : 0;
+      const issues: string[] = [];
+
+      if (!orderLine) {
+        issues.push(`Not on ${order.transactionNumber}`);
+      } else {
+        const unbilled = Math.max(0, round2(receivedQuantity - earlier));
+        if (quantity > unbilled * (1 + quantityTolerance) + epsilon) {
+          issues.push(receivedQuantity === 0
+            ? `${quantity} billed but nothing received`
+            : `${quantity} billed but only ${unbilled} received and not yet billed`);
+        }
+        const orderRate = parseFloat(orderLine.rate);
+        if (Math.abs(rate - orderRate) > orderRate * rateTolerance + epsilon) {
+          issues.push(`Rate ${rate} against ${orderRate} on the order`);
+        }
+      }
+
+      return {
+        lineId: line.id,
+        itemId: line.itemId,
+        description: line.description,
+        quantity,
+        rate,
+        orderLineId: orderLine?.id ?? null,
+        orderedQuantity: orderLine ? parseFloat(orderLine.quantity) : null,
+        orderRate: orderLine ? parseFloat(orderLine.rate) : null,
+        receivedQuantity,
+        billedEarlier: earlier,
+        issues,
+      };
+    });
+
+    const problems = billLines.flatMap((line, index) =>
+      lines[index].issues.map((issue) => `${lineLabel(line, itemNames)}: ${issue}`));
+    const note = problems.length > 0 ? problems.join('; ') : null;
+    // An approval stands only while the bill mismatches in the same way
+    const approved = note !== null && bill.matchStatus === 'approved' && bill.matchNote === note;
+    return {
+      status: approved ? 'approved' : note ? 'mismatched' : 'matched',
+      note,
+      order: matchDocument(order),
+      receipts: receipts.map(matchDocument),
+      lines,
+    };
+  }
+
+  // Matches a bill again and saves the outcome; a cancelled bill is neither matched nor held
+  async matchBill(userId: number, bill: Transaction) {
+    if (bill.status === 'cancelled') {
+      return storage.updateTransaction(userId, bill.id, { matchStatus: null, matchNote: null, matchApprovedBy: null, matchApprovedAt: null });
+    }
+    const match = await this.match(userId, bill);
+    return storage.updateTransaction(userId, bill.id, {
+      matchStatus: match.status,
+      matchNote: match.note,
+      ...(match.status === 'approved' ? {} : { matchApprovedBy: null, matchApprovedAt: null }),
+    });
+  }
+
+  // Matches again every bill a change to this document can affect (the bills against the same order,
+  // since earlier bills claim received quantities first) and returns the document as it now stands
+  async refresh(userId: number, transaction: Transaction): Promise<Transaction> {
+    let orderId: number | null = null;
+    if (transaction.transactionType === 'purchase_order') {
+      orderId = transaction.id;
+    } else if (transaction.transactionType === 'grn') {
+      orderId = transaction.linkedTransactionId;
+    } else if (transaction.transactionType === 'purchase_bill') {
+      orderId = (await this.getOrder(userId, transaction))?.id ?? null;
+      if (!orderId) return this.matchBill(userId, transaction);
+    }
+    if (!orderId) return transaction;
+
+    const documents = await storage.getTransactionsByUserId(userId);
+    const receiptIds = documents
+      .filter((document) => document.transactionType === 'grn' && document.linkedTransactionId === orderId)
+      .map((document) => document.id);
+    let updated = transaction;
+    for (const bill of documents) {
+      if (
+        bill.transactionType === 'purchase_bill' &&
+        bill.linkedTransactionId !== null &&
+        (bill.linkedTransactionId === orderId || receiptIds.includes(bill.linkedTransactionId))
+      ) {
+        const matched = await this.matchBill(userId, bill);
+        if (bill.id === transaction.id) updated = matched;
+      }
+    }
+    return updated;
+  }
+
+  // Releases a mismatched bill for payment
+  async approve(userId: number, bill: Transaction, approvedBy: number) {
+    if (bill.matchStatus !== 'mismatched') {
+      throw new BillMatchError(`${bill.transactionNumber} is not held for a mismatch`);
+    }
+    return storage.updateTransaction(userId, bill.id, {
+      matchStatus: 'approved',
+      matchApprovedBy: approvedBy,
+      matchApprovedAt: new Date(),
+    });
+  }
+
+  // Throws while a bill is held back from payment
+  assertPayable(bill: Transaction) {
+    if (bill.matchStatus === 'mismatched') {
+      throw new BillMatchError(`${bill.transactionNumber} does not match its order and receipts (${bill.matchNote}). Approve it before paying.`);
+    }
+  }
+
+  // The order a bill was raised against, directly or through a GRN
+  private async getOrder(userId: number, bill: Transaction) {
+    if (!bill.linkedTransactionId) return undefined;
+    const linked = await storage.getTransaction(userId, bill.linkedTransactionId);
+    if (linked?.transactionType === 'purchase_order') return linked;
+    if (linked?.transactionType === 'grn' && linked.linkedTransactionId) {
+      const order = await storage.getTransaction(userId, linked.linkedTransactionId);
+      if (order?.transactionType === 'purchase_order') return order;
+    }
+    return undefined;
+  }
+
+  private async getLines(userId: number, documents: Transaction[]) {
+    const lines: TransactionItem[] = [];
+    for (const document of documents) {
+      lines.push(...await storage.getTransactionItemsByTransactionId(userId, document.id));
+    }
+    return lines;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { BnplService } from "./bnplService";
+import { CancellationService } from "./cancellationService";
+import { PaymentAllocationService } from "./paymentAllocationService";
+
+const bnplService = new BnplService();
+const cancellationService = new CancellationService();
+const paymentAllocationService = new PaymentAllocationService();
+
+let companies = 0;
+
+// A company with a customer whose sales BNPL limit already has usage entered by hand
+async function setUp() {
+  const user = await storage.createUser({ username: `bnpl${++companies}`, password: "secret", companyName: `Company ${companies}` });
+  const customer = await storage.createParty({ name: "Buyer", type: "customer", userId: user.id });
+  const limit = await storage.createBnplLimit({ partyId: customer.id, limitType: "sales", totalLimit: "10000.00", usedLimit: "500.00", userId: user.id });
+  const usedLimit = async () => Number((await storage.getBnplLimitsByPartyId(user.id, customer.id)).find((found) => found.id === limit.id)!.usedLimit);
+  const invoice = (number: string, amount: string, isBnpl = true) => storage.createTransaction({
+    transactionNumber: number, transactionType: "sales_invoice", partyId: customer.id, amount, balanceDue: amount,
+    status: "pending", isBnpl, userId: user.id,
+  });
+  return { user, customer, limit, usedLimit, invoice };
+}
+
+describe("BnplService", () => {
+  it("draws what a BNPL invoice owes on its party's limit, once", async () => {
+    const { limit, usedLimit, invoice, user } = await setUp();
+    const drawn = await bnplService.syncTransaction(user.id, await invoice("INV-1", "1200.00"));
+    await bnplService.syncTransaction(user.id, drawn);
+    await bnplService.syncTransaction(user.id, await invoice("INV-2", "300.00", false));
+
+    expect(drawn.bnplLimitId).toBe(limit.id);
+    expect(Number(drawn.bnplUsed)).toBe(1200);
+    expect(await usedLimit()).toBe(1700);
+  });
+
+  it("gives back what payments settle", async () => {
+    const { user, customer, usedLimit, invoice } = await setUp();
+    const document = await bnplService.syncTransaction(user.id, await invoice("INV-1", "1200.00"));
+    const receipt = await storage.createTransaction({
+      transactionNumber: "RCPT-1", transactionType: "receipt", partyId: customer.id, amount: "200.00", status: "pending", userId: user.id,
+    });
+
+    await paymentAllocationService.allocate(user.id, receipt, [{ documentId: document.id, amount: 200 }]);
+
+    expect(await usedLimit()).toBe(1500);
+    expect(Number((await storage.getTransaction(user.id, document.id))?.bnplUsed)).toBe(1000);
+  });
+
+  it("gives back only what a cancelled invoice drew, leaving usage entered by hand", async () => {
+    const { user, usedLimit, invoice } = await setUp();
+    const first = await bnplService.syncTransaction(user.id, await invoice("INV-1", "1200.00"));
+    await bnplService.syncTransaction(user.id, await invoice("INV-2", "800.00"));
+    expect(await usedLimit()).toBe(2500);
+
+    const cancelled = await cancellationService.cancel(user.id, first, "Raised twice", user.id);
+
+    expect(cancelled.status).toBe("cancelled");
+    expect(cancelled.bnplUsed).toBeNull();
+    expect(await usedLimit()).toBe(1300);
+  });
+});
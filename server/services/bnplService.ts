@@ -0,0 +1,48 @@
+import { storage } from '../storage';
+import { Transaction } from '@shared/schema';
+
+// The BNPL limit a document draws on while it is owed
+const bnplLimitTypes: Partial<Record<Transaction['transactionType'], string>> = {
+  sales_invoice: 'sales',
+  purchase_bill: 'purchase',
+};
+
+// Documents that owe nothing yet, or any more
+const closedStatuses: string[] = ['draft', 'cancelled'];
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Draws a party's BNPL limit by what its BNPL invoices or bills still owe. Each document records the limit
+// it drew on and how much, so a save, a payment or a cancellation moves the limit's used amount by the
+// difference only, and usage entered by hand or drawn by other documents is left as it is.
+export class BnplService {
+  async syncTransaction(userId: number, transaction: Transaction): Promise<Transaction> {
+    const limit = await this.limitFor(userId, transaction);
+    const owed = limit ? Math.max(0, round2(parseFloat(transaction.balanceDue ?? transaction.amount))) : 0;
+    const limitId = limit && owed > 0 ? limit.id : null;
+    const drawn = round2(parseFloat(transaction.bnplUsed ?? '0'));
+    if (limitId === transaction.bnplLimitId && owed === drawn) return transaction;
+
+    if (transaction.bnplLimitId && drawn) {
+      await this.adjust(userId, transaction.bnplLimitId, -drawn);
+    }
+    if (limitId) {
+      await this.adjust(userId, limitId, owed);
+    }
+    return storage.updateTransaction(userId, transaction.id, { bnplLimitId: limitId, bnplUsed: limitId ? owed.toFixed(2) : null });
+  }
+
+  private async limitFor(userId: number, transaction: Transaction) {
+    const limitType = bnplLimitTypes[transaction.transactionType];
+    if (!transaction.isBnpl || !limitType || !transaction.partyId || closedStatuses.includes(transaction.status ?? '')) return undefined;
+    return (await storage.getBnplLimitsByPartyId(userId, transaction.partyId)).find((limit) => limit.limitType === limitType);
+  }
+
+  // Usage entered by hand may already be lower than what documents give back, so it stops at zero
+  private async adjust(userId: number, limitId: number, amount: number) {
+    const limit = (await storage.getBnplLimitsByUserId(userId)).find((candidate) => candidate.id === limitId);
+    if (!limit) return;
+    const used = Math.max(0, round2(parseFloat(limit.usedLimit ?? '0') + amount));
+    await storage.updateBnplLimit(userId, limitId, { usedLimit: used.toFixed(2) });
+  }
+}
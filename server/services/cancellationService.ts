@@ -0,0 +1,98 @@
+import { storage } from '../storage';
+import { Transaction } from '@shared/schema';
+import { PaymentAllocationService } from './paymentAllocationService';
+import { StockService } from './stockService';
+import { DocumentChainService } from './documentChainService';
+import { BillMatchService } from './billMatchService';
+import { Gstr1Service } from './gstr1Service';
+import { TallySyncService } from './tallySyncService';
+import { LedgerService } from './ledgerService';
+import { BnplService } from './bnplService';
+
+// A document that cannot be cancelled as it stands
+export class CancellationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CancellationError';
+  }
+}
+
+// Cancels documents. A cancelled document stays in the books under its number with the reason it was
+// cancelled, and everything it did is undone: stock it moved is reversed, what it allocated is
+// released, its journal entry is reversed, what it drew on a BNPL limit is given back, the documents it
+// came from are fulfilled again and its voucher in Tally is cancelled by the next push. Its number is
+// never issued again.
+export class CancellationService {
+  private paymentAllocationService = new PaymentAllocationService();
+  private stockService = new StockService();
+  private documentChainService = new DocumentChainService();
+  private billMatchService = new BillMatchService();
+  private gstr1Service = new Gstr1Service();
+  private tallySyncService = new TallySyncService();
+  private ledgerService = new LedgerService();
+  private bnplService = new BnplService();
+
+  // Throws unless the document can be cancelled: documents raised against it, money allocated to it,
+  // a live e-invoice or e-way bill, or a GST return already filed with it must be dealt with first
+  async assertCancellable(userId: number, transaction: Transaction) {
+    const number = transaction.transactionNumber;
+    if (transaction.status === 'cancelled') {
+      throw new CancellationError(`${number} is already cancelled`);
+    }
+    if (transaction.irn) {
+      throw new CancellationError(`${number} has an IRN; cancel the e-invoice on the IRP first`);
+    }
+    if (transaction.ewbNumber && (!transaction.ewbValidUntil || transaction.ewbValidUntil > new Date())) {
+      throw new CancellationError(`${number} has e-way bill ${transaction.ewbNumber}; cancel it on the e-way bill portal first`);
+    }
+
+    const filedPeriod = await this.gstr1Service.filedPeriodOf(userId, transaction);
+    if (filedPeriod) {
+      throw new CancellationError(`${number} was reported in the GSTR-1 filed for ${filedPeriod}; raise a note in a later return instead`);
+    }
+
+    const later = (await storage.getTransactionsByUserId(userId))
+      .filter((document) => document.linkedTransactionId === transaction.id && document.status !== 'cancelled');
+    if (later.length > 0) {
+      throw new CancellationError(`Cancel ${later.map((document) => document.transactionNumber).join(', ')} first; raised against ${number}`);
+    }
+
+    // Receipts, payments and notes release what they settled; a document cannot go while money is applied to it
+    if (!this.paymentAllocationService.isSettling(transaction)) {
+      const { allocations } = await this.paymentAllocationService.getAllocations(userId, transaction);
+      if (allocations.length > 0) {
+        const payments = allocations.map((allocation) => allocation.counterpart?.transactionNumber ?? `#${allocation.paymentId}`);
+        throw new CancellationError(`${payments.join(', ')} ${payments.length === 1 ? 'is' : 'are'} allocated to ${number}; remove the allocations first`);
+      }
+    }
+  }
+
+  async cancel(userId: number, transaction: Transaction, reason: string, cancelledBy: number): Promise<Transaction> {
+    await this.assertCancellable(userId, transaction);
+    const changes = {
+      status: 'cancelled' as const,
+      cancelledAt: new Date(),
+      cancelledBy,
+      cancellationReason: reason,
+      ...(transaction.balanceDue !== null ? { balanceDue: '0.00' } : {}),
+    };
+
+    // Its effects are undone before it is marked cancelled. Each step leaves alone what is already
+    // undone, so if one fails the document is still open and cancelling it again finishes the job.
+    await this.stockService.syncTransaction(userId, { ...transaction, ...changes });
+    await this.ledgerService.syncTransaction(userId, { ...transaction, ...changes });
+    await this.paymentAllocationService.release(userId, transaction);
+    await this.bnplService.syncTransaction(userId, { ...transaction, ...changes });
+
+    let cancelled = await storage.updateTransaction(userId, transaction.id, changes);
+
+    // What the other documents in its chain have fulfilled or matched is worked out again from what is stored
+    if (cancelled.linkedTransactionId) {
+      await this.documentChainService.refreshStatus(userId, cancelled.linkedTransactionId);
+    }
+    await this.billMatchService.refresh(userId, cancelled);
+    cancelled = await this.tallySyncService.queueCancellation(userId, cancelled);
+
+    return (await storage.getTransaction(userId, transaction.id)) ?? cancelled;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { DocumentChainService } from "./documentChainService";
+
+const documentChainService = new DocumentChainService();
+
+let companies = 0;
+
+// A company with a sales order for ten of one line
+async function setUp() {
+  const user = await storage.createUser({ username: `chain${++companies}`, password: "secret", companyName: `Company ${companies}` });
+  const customer = await storage.createParty({ name: "Buyer", type: "customer", userId: user.id });
+  const order = await storage.createTransactionWithItems({
+    transactionNumber: "SO-1", transactionType: "sales_order", partyId: customer.id, amount: "1000.00", status: "open", userId: user.id,
+  }, [{ description: "Widget", quantity: "10.00", rate: "100.00", amount: "1000.00", totalAmount: "1000.00", taxRate: "0" }]);
+  const status = async (id: number) => (await storage.getTransaction(user.id, id))?.status;
+  return { user, order, status };
+}
+
+describe("DocumentChainService", () => {
+  it("raises an invoice pending and owed, and a delivery note as a draft", async () => {
+    const { user, order } = await setUp();
+
+    const { transaction: deliveryNote } = await documentChainService.convert(user.id, order, { transactionType: "delivery_note", transactionNumber: "DN-1" });
+    const { transaction: invoice } = await documentChainService.convert(user.id, order, { transactionType: "sales_invoice", transactionNumber: "INV-1" });
+
+    expect(deliveryNote.status).toBe("draft");
+    expect(invoice.status).toBe("pending");
+    expect(Number(invoice.balanceDue)).toBe(Number(invoice.amount));
+  });
+
+  it("bills the order when its delivery note is invoiced", async () => {
+    const { user, order, status } = await setUp();
+    const { transaction: deliveryNote, items } = await documentChainService.convert(user.id, order, { transactionType: "delivery_note", transactionNumber: "DN-1" });
+    expect(await status(order.id)).toBe("delivered");
+
+    await documentChainService.convert(user.id, deliveryNote, {
+      transactionType: "sales_invoice", transactionNumber: "INV-1", lines: [{ sourceItemId: items[0].id, quantity: 4 }],
+    });
+    expect(await status(order.id)).toBe("partially_billed");
+
+    await documentChainService.convert(user.id, deliveryNote, { transactionType: "sales_invoice", transactionNumber: "INV-2" });
+    expect(await status(order.id)).toBe("billed");
+    expect(await status(deliveryNote.id)).toBe("billed");
+
+    const chain = await documentChainService.getChain(user.id, (await storage.getTransaction(user.id, order.id))!);
+    expect(chain.lines[0].remaining.sales_invoice).toBe(0);
+    expect(chain.targets).toEqual([]);
+  });
+});
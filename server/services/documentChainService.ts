@@ -0,0 +1,295 @@
+import { storage } from '../storage';
+import { InsertTransaction, InsertTransactionItem, Transaction, TransactionItem } from '@shared/schema';
+import { conversionTargets, fulfilmentStatuses, type ConvertibleType } from '@shared/documentChain';
+import { TransactionService } from './transactionService';
+import { StockService } from './stockService';
+import { NumberingService } from './numberingService';
+import { LedgerService } from './ledgerService';
+
+type TransactionStatus = NonNullable<Transaction['status']>;
+
+// Statuses that only say how far a document has been converted; they go back to open when nothing is any more
+const derivedStatuses: string[] = Object.values(fulfilmentStatuses).flatMap((status) => [status!.partial, status!.full]);
+
+// Documents that are owed money as soon as they are raised
+const billTypes: string[] = ['sales_invoice', 'purchase_bill'];
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const typeLabel = (type: string) => type.replace(/_/g, ' ');
+
+// A conversion that the source document does not allow
+export class DocumentChainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentChainError';
+  }
+}
+
+// How much of a line has gone into each later stage, and how much is left for it
+export interface LineFulfilment {
+  lineId: number;
+  itemId: number | null;
+  description: string | null;
+  quantity: number;
+  converted: Partial<Record<ConvertibleType, number>>;
+  remaining: Partial<Record<ConvertibleType, number>>;
+}
+
+// A line as it is about to be saved; id is set on lines the document already has
+type EditedLine = { id?: number; itemId?: number | null; quantity: string; sourceItemId?: number | null };
+
+type ChainDocument = Pick<Transaction, 'id' | 'transactionNumber' | 'transactionType' | 'status' | 'amount'>;
+
+export interface DocumentChain {
+  targets: ConvertibleType[];
+  lines: LineFulfilment[];
+  source: ChainDocument | null; // The document this one was converted from
+  converted: ChainDocument[]; // Documents converted from this one
+}
+
+export interface ConversionRequest {
+  transactionType: ConvertibleType;
+  transactionNumber?: string; // Left blank, or in its series' format, the number comes from the series
+  transactionDate?: Date;
+  branch?: string | null;
+  lines?: { sourceItemId: number; quantity: number }[]; // Defaults to everything not yet converted to the type
+}
+
+const chainDocument = ({ id, transactionNumber, transactionType, status, amount }: Transaction): ChainDocument =>
+  ({ id, transactionNumber, transactionType, status, amount });
+
+// Converts quotations into orders, orders into delivery notes and invoices, and so on, copying lines forward.
+// Each converted line points at the line it came from, so fulfilment is tracked per line and the
+// source document's status follows it.
+export class DocumentChainService {
+  private transactionService = new TransactionService();
+  private stockService = new StockService();
+  private numberingService = new NumberingService();
+  private ledgerService = new LedgerService();
+
+  async getChain(userId: number, transaction: Transaction): Promise<DocumentChain> {
+    const { lines, converted } = await this.getFulfilment(userId, transaction);
+    const source = transaction.linkedTransactionId ? await storage.getTransaction(userId, transaction.linkedTransactionId) : undefined;
+    const open = transaction.status !== 'cancelled';
+
+    return {
+      targets: open ? conversionTargets(transaction.transactionType).filter((type) => lines.some((line) => (line.remaining[type] ?? 0) > 0)) : [],
+      lines,
+      source: source ? chainDocument(source) : null,
+      converted: converted.map(chainDocument),
+    };
+  }
+
+  // Creates the next document from the lines still to be converted: an invoice or bill is owed at once, so it
+  // is raised pending like one entered by hand, and anything else is a draft
+  async convert(userId: number, source: Transaction, request: ConversionRequest) {
+    const target = request.transactionType;
+    if (!conversionTargets(source.transactionType).includes(target)) {
+      throw new DocumentChainError(`A ${typeLabel(source.transactionType)} cannot be converted into a ${typeLabel(target)}`);
+    }
+    if (source.status === 'cancelled') {
+      throw new DocumentChainError(`${source.transactionNumber} is cancelled`);
+    }
+
+    const sourceLines = new Map((await storage.getTransactionItemsByTransactionId(userId, source.id)).map((line) => [line.id, line]));
+    const { lines: fulfilment } = await this.getFulfilment(userId, source);
+    const remaining = new Map(fulfilment.map((line) => [line.lineId, line.remaining[target] ?? 0]));
+
+    const requested = request.lines
+      ?? fulfilment.map((line) => ({ sourceItemId: line.lineId, quantity: line.remaining[target] ?? 0 })).filter((line) => line.quantity > 0);
+    if (requested.length === 0) {
+      throw new DocumentChainError(`Everything on ${source.transactionNumber} is already in a ${typeLabel(target)}`);
+    }
+
+    const lines: Omit<InsertTransactionItem, 'transactionId'>[] = requested.map(({ sourceItemId, quantity }) => {
+      const line = sourceLines.get(sourceItemId);
+      if (!line) {
+        throw new DocumentChainError(`Line ${sourceItemId} is not on ${source.transactionNumber}`);
+      }
+      const left = remaining.get(sourceItemId) ?? 0;
+      if (quantity <= 0 || round2(quantity) > left) {
+        throw new DocumentChainError(`Only ${left} of ${line.description ?? `line ${sourceItemId}`} is left to convert`);
+      }
+      return {
+        itemId: line.itemId,
+        description: line.description,
+        quantity: round2(quantity).toFixed(2),
+        rate: line.rate,
+        amount: line.amount,
+        totalAmount: line.totalAmount,
+        taxRate: line.taxRate,
+        cessRate: line.cessRate,
+        godownId: line.godownId,
+        sourceItemId,
+      };
+    });
+
+    const header: InsertTransaction = {
+      transactionType: target,
+      transactionNumber: request.transactionNumber ?? '',
+      transactionDate: request.transactionDate ?? new Date(),
+      branch: request.branch ?? null,
+      partyId: source.partyId,
+      placeOfSupply: source.placeOfSupply,
+      pricesIncludeTax: source.pricesIncludeTax,
+      paymentTerms: source.paymentTerms,
+      creditTerms: source.creditTerms,
+      termsAndConditions: source.termsAndConditions,
+      reference: source.transactionNumber,
+      linkedTransactionId: source.id,
+      status: billTypes.includes(target) ? 'pending' : 'draft',
+      amount: '0',
+      userId,
+    };
+    const gst = await this.transactionService.calculateTotals(userId, header, lines);
+    Object.assign(header, gst.totals, billTypes.includes(target) ? { balanceDue: gst.totals.amount } : {});
+
+    header.transactionNumber = await this.numberingService.assign(userId, header);
+    const transaction = await storage.createTransactionWithItems(header, gst.lines);
+    await this.stockService.syncTransaction(userId, transaction);
+    await this.ledgerService.syncTransaction(userId, transaction);
+    await this.refreshStatus(userId, source.id);
+
+    return { transaction, items: await storage.getTransactionItemsByTransactionId(userId, transaction.id) };
+  }
+
+  // Sets a document's status from how much of it has been converted: the latest stage with anything
+  // in it decides, e.g. an order that is fully delivered and partly billed is partially billed.
+  // Run whenever a document converted from it is created or changed. The document it was converted
+  // from follows, since an invoice raised from a delivery note also bills the order behind it.
+  async refreshStatus(userId: number, transactionId: number) {
+    const transaction = await storage.getTransaction(userId, transactionId);
+    if (!transaction) return;
+
+    if (transaction.status !== 'cancelled') {
+      const { lines } = await this.getFulfilment(userId, transaction);
+      let status: string | null = null;
+      for (const target of conversionTargets(transaction.transactionType)) {
+        if (!lines.some((line) => (line.converted[target] ?? 0) > 0)) continue;
+        const full = lines.every((line) => (line.remaining[target] ?? 0) <= 0);
+        status = full ? fulfilmentStatuses[target]!.full : fulfilmentStatuses[target]!.partial;
+      }
+
+      if (!status && derivedStatuses.includes(transaction.status ?? '')) {
+        status = 'open';
+      }
+      if (status && status !== transaction.status) {
+        await storage.updateTransaction(userId, transactionId, { status: status as TransactionStatus });
+      }
+    }
+
+    if (transaction.linkedTransactionId) {
+      await this.refreshStatus(userId, transaction.linkedTransactionId);
+    }
+  }
+
+  // Lines being saved on a document must still fit its chain. A line that later documents were converted
+  // from, or that notes return, keeps its item and cannot go below what they took; a line converted
+  // from another document cannot take more than that line has left. Notes are checked by NoteService.
+  async assertLinesFit(userId: number, transaction: Transaction, lines: EditedLine[]) {
+    const { quantities } = await this.getConvertedQuantities(userId, transaction);
+    const existing = await storage.getTransactionItemsByTransactionId(userId, transaction.id);
+    for (const line of existing) {
+      const taken = Math.max(0, ...Object.values(quantities.get(line.id) ?? {}));
+      if (taken <= 0) continue;
+
+      const name = line.description ?? `Line ${line.id}`;
+      const edited = lines.find((candidate) => candidate.id === line.id);
+      if (!edited) {
+        throw new DocumentChainError(`${name} has gone into later documents and cannot be removed`);
+      }
+      if ((edited.itemId ?? null) !== line.itemId) {
+        throw new DocumentChainError(`${name} has gone into later documents and must keep its item`);
+      }
+      if (round2(parseFloat(edited.quantity)) < taken) {
+        throw new DocumentChainError(`${name} cannot go below the ${taken} that later documents took`);
+      }
+    }
+
+    const source = transaction.linkedTransactionId ? await storage.getTransaction(userId, transaction.linkedTransactionId) : undefined;
+    const type = transaction.transactionType as ConvertibleType;
+    if (!source || !conversionTargets(source.transactionType).includes(type)) return;
+
+    // What this document already holds of each source line counts towards what it may take
+    const held = new Map<number, number>();
+    if (transaction.status !== 'cancelled') {
+      for (const line of existing) {
+        if (line.sourceItemId) held.set(line.sourceItemId, round2((held.get(line.sourceItemId) ?? 0) + parseFloat(line.quantity)));
+      }
+    }
+    const requested = new Map<number, number>();
+    for (const line of lines) {
+      if (line.sourceItemId) requested.set(line.sourceItemId, round2((requested.get(line.sourceItemId) ?? 0) + parseFloat(line.quantity)));
+    }
+
+    const { lines: fulfilment } = await this.getFulfilment(userId, source);
+    for (const [sourceItemId, quantity] of Array.from(requested.entries())) {
+      const sourceLine = fulfilment.find((line) => line.lineId === sourceItemId);
+      if (!sourceLine) {
+        throw new DocumentChainError(`Line ${sourceItemId} is not on ${source.transactionNumber}`);
+      }
+      const left = round2(sourceLine.quantity - (sourceLine.converted[type] ?? 0) + (held.get(sourceItemId) ?? 0));
+      if (quantity > left) {
+        throw new DocumentChainError(`Only ${left} of ${sourceLine.description ?? `line ${sourceItemId}`} on ${source.transactionNumber} is left for this ${typeLabel(type)}`);
+      }
+    }
+  }
+
+  // How much of each line has gone into each target type, and how much is left for it
+  private async getFulfilment(userId: number, transaction: Transaction) {
+    const { quantities, converted } = await this.getConvertedQuantities(userId, transaction);
+
+    const targets = conversionTargets(transaction.transactionType);
+    const lines: LineFulfilment[] = (await storage.getTransactionItemsByTransactionId(userId, transaction.id)).map((line: TransactionItem) => {
+      const quantity = parseFloat(line.quantity);
+      const byType = quantities.get(line.id) ?? {};
+      return {
+        lineId: line.id,
+        itemId: line.itemId,
+        description: line.description,
+        quantity,
+        converted: Object.fromEntries(targets.map((type) => [type, byType[type] ?? 0])),
+        remaining: Object.fromEntries(targets.map((type) => [type, Math.max(0, round2(quantity - (byType[type] ?? 0)))])),
+      };
+    });
+
+    return { lines, converted };
+  }
+
+  // Quantities taken from each line by the documents converted from this one, or raised against it, by
+  // their type. A later stage reached through one of them counts too, as an invoice raised from an
+  // order's delivery note does towards the order. Cancelled documents give their quantities back.
+  private async getConvertedQuantities(userId: number, transaction: Transaction) {
+    const documents = await storage.getTransactionsByUserId(userId);
+    const linkedTo = (id: number) => documents.filter((candidate) => candidate.linkedTransactionId === id);
+    const converted = linkedTo(transaction.id);
+    const targets: string[] = conversionTargets(transaction.transactionType);
+
+    const quantities = new Map<number, Record<string, number>>();
+    const take = (sourceItemId: number, type: string, quantity: string) => {
+      const byType = quantities.get(sourceItemId) ?? {};
+      byType[type] = round2((byType[type] ?? 0) + parseFloat(quantity));
+      quantities.set(sourceItemId, byType);
+    };
+
+    for (const document of converted.filter((document) => document.status !== 'cancelled')) {
+      const lines = await storage.getTransactionItemsByTransactionId(userId, document.id);
+      const sourceOf = new Map(lines.filter((line) => line.sourceItemId).map((line) => [line.id, line.sourceItemId!]));
+      for (const line of lines) {
+        if (line.sourceItemId) take(line.sourceItemId, document.transactionType, line.quantity);
+      }
+
+      const later = linkedTo(document.id).filter((candidate) =>
+        candidate.status !== 'cancelled' && candidate.transactionType !== document.transactionType && targets.includes(candidate.transactionType));
+      for (const laterDocument of later) {
+        for (const line of await storage.getTransactionItemsByTransactionId(userId, laterDocument.id)) {
+          const sourceItemId = line.sourceItemId ? sourceOf.get(line.sourceItemId) : undefined;
+          if (sourceItemId) take(sourceItemId, laterDocument.transactionType, line.quantity);
+        }
+      }
+    }
+
+    return { quantities, converted };
+  }
+}
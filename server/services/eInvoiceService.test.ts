@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { EInvoiceService } from "./eInvoiceService";
+import { StubIrpClient } from "./irpClient";
+
+let companies = 0;
+
+// A registered company in Maharashtra invoicing a registered customer in Karnataka
+async function setUp() {
+  const user = await storage.createUser({
+    username: `einvoice${++companies}`, password: "secret", companyName: `Company ${companies}`, gstin: "27BBBBB1111B1ZN",
+  });
+  await storage.updateCompanySettings(user.id, { address: "1 Mill Road", city: "Pune", pincode: "411001" });
+  const customer = await storage.createParty({
+    name: "Kaveri Traders", type: "customer", gstin: "29CCCCC2222C1Z4", address: "12 MG Road", city: "Bengaluru", pincode: "560001", userId: user.id,
+  });
+  const item = await storage.createItem({ name: "Laptop", hsnCode: "84713010", userId: user.id });
+  const invoice = (transactionNumber: string, amount = "1180.00") => storage.createTransactionWithItems({
+    transactionNumber, transactionType: "sales_invoice", partyId: customer.id, transactionDate: new Date("2026-06-10"),
+    placeOfSupply: "29", amount, status: "pending", userId: user.id,
+  }, [{ itemId: item.id, quantity: "2", rate: "500.00", amount: "1000.00", totalAmount: "1180.00", taxRate: "18", igstAmount: "180.00" }]);
+  return { user, customer, item, invoice };
+}
+
+describe("EInvoiceService", () => {
+  it("builds an IRP payload with nothing to fix for a complete invoice", async () => {
+    const { user, invoice } = await setUp();
+
+    const { payload, errors } = await new EInvoiceService(new StubIrpClient()).buildPayload(user.id, await invoice("INV/1"));
+
+    expect(errors).toEqual([]);
+    expect(payload.DocDtls).toEqual({ Typ: "INV", No: "INV/1", Dt: "10/06/2026" });
+    expect(payload.SellerDtls.Stcd).toBe("27");
+    expect(payload.BuyerDtls).toMatchObject({ Gstin: "29CCCCC2222C1Z4", Pos: "29", Stcd: "29", Pin: 560001 });
+    expect(payload.ItemList).toEqual([expect.objectContaining({ HsnCd: "84713010", IsServc: "N", Qty: 2, UnitPrice: 500, IgstAmt: 180, TotItemVal: 1180 })]);
+    expect(payload.ValDtls).toMatchObject({ AssVal: 1000, IgstVal: 180, TotInvVal: 1180 });
+  });
+
+  it("lists what the IRP would reject", async () => {
+    const { user, customer, item, invoice } = await setUp();
+    await storage.updateParty(user.id, customer.id, { gstin: null, pincode: "56" });
+    await storage.updateItem(user.id, item.id, { hsnCode: "84" });
+
+    const { errors } = await new EInvoiceService(new StubIrpClient()).buildPayload(user.id, await invoice("0INV", "1500.00"));
+
+    expect(errors).toEqual([
+      "Laptop: HSN code must be 4 to 8 digits",
+      'Invoice number must be 1 to 16 letters, digits, "/" or "-" and cannot start with 0, "/" or "-"',
+      "Kaveri Traders has no valid GSTIN; e-invoices are only issued to registered customers",
+      "Kaveri Traders: pincode must be 6 digits",
+      "Invoice total 1500 does not match its lines (1180)",
+    ]);
+  });
+
+  it("registers an invoice with the stub IRP once, keeping its IRN, acknowledgement and signed QR code", async () => {
+    const { user, invoice } = await setUp();
+    const service = new EInvoiceService(new StubIrpClient());
+    const document = await invoice("INV/2");
+    const { payload } = await service.buildPayload(user.id, document);
+
+    const registered = await service.registerIrn(user.id, document, payload);
+
+    expect(registered.irn).toMatch(/^[0-9a-f]{64}$/);
+    expect(registered.irnAckNumber).toMatch(/^\d{15}$/);
+    expect(registered.irnAckDate).toBeInstanceOf(Date);
+    const [, claims] = registered.irnSignedQrCode!.split(".");
+    expect(JSON.parse(JSON.parse(Buffer.from(claims, "base64url").toString()).data)).toMatchObject({
+      SellerGstin: "27BBBBB1111B1ZN", BuyerGstin: "29CCCCC2222C1Z4", DocNo: "INV/2", TotInvVal: 1180, ItemCnt: 1, MainHsnCode: "84713010", Irn: registered.irn,
+    });
+    await expect(service.registerIrn(user.id, document, payload)).rejects.toThrow("Duplicate IRN");
+  });
+});
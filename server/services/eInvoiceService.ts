@@ -0,0 +1,255 @@
+import { storage } from '../storage';
+import { Transaction } from '@shared/schema';
+import { isValidGstin, partyStateCode, stateCodeFromGstin } from '@shared/gst';
+import { createIrpClient, type IrpClient } from './irpClient';
+
+// NIC e-invoice schema v1.1 (only the parts needed for B2B tax invoices)
+export interface EInvoiceParty {
+  Gstin: string;
+  LglNm: string;
+  Addr1: string;
+  Loc: string;
+  Pin: number;
+  Stcd: string;
+  Ph?: string;
+  Em?: string;
+}
+
+export interface EInvoiceItem {
+  SlNo: string;
+  PrdDesc: string;
+  IsServc: 'Y' | 'N';
+  HsnCd: string;
+  Qty: number;
+  Unit: string;
+  UnitPrice: number;
+  TotAmt: number;
+  Discount: number;
+  AssAmt: number;
+  GstRt: number;
+  IgstAmt: number;
+  CgstAmt: number;
+  SgstAmt: number;
+  CesRt: number;
+  CesAmt: number;
+  CesNonAdvlAmt: number;
+  StateCesRt: number;
+  StateCesAmt: number;
+  StateCesNonAdvlAmt: number;
+  OthChrg: number;
+  TotItemVal: number;
+}
+
+export interface EInvoicePayload {
+  Version: '1.1';
+  TranDtls: {
+    TaxSch: 'GST';
+    SupTyp: 'B2B';
+    RegRev: 'N';
+    IgstOnIntra: 'N';
+  };
+  DocDtls: {
+    Typ: 'INV';
+    No: string;
+    Dt: string;
+  };
+  SellerDtls: EInvoiceParty;
+  BuyerDtls: EInvoiceParty & { Pos: string };
+  ItemList: EInvoiceItem[];
+  ValDtls: {
+    AssVal: number;
+    CgstVal: number;
+    SgstVal: number;
+    IgstVal: number;
+    CesVal: number;
+    StCesVal: number;
+    Discount: number;
+    OthChrg: number;
+    RndOffAmt: number;
+    TotInvVal: number;
+  };
+}
+
+export interface EInvoiceDraft {
+  payload: EInvoicePayload;
+  errors: string[];
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+const round3 = (value: number) => Math.round((value + Number.EPSILON) * 1000) / 1000;
+
+// The IRP expects dd/mm/yyyy
+const irpDate = (date: Date) =>
+  `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+
+const documentNumberPattern = /^[a-zA-Z1-9][a-zA-Z0-9/-]{0,15}$/;
+const gstRates = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+
+export class EInvoiceService {
+  constructor(private irpClient: IrpClient = createIrpClient()) {}
+
+  // Builds the IRP request for a sales invoice and lists everything the IRP would reject
+  async buildPayload(userId: number, transaction: Transaction): Promise<EInvoiceDraft> {
+    const [company, settings, lines, items, units] = await Promise.all([
+      storage.getUser(userId),
+      storage.getCompanySettings(userId),
+      storage.getTransactionItemsByTransactionId(userId, transaction.id),
+      storage.getItemsByUserId(userId),
+      storage.getUnitsByUserId(userId)
+    ]);
+    const party = transaction.partyId ? await storage.getParty(userId, transaction.partyId) : undefined;
+    const itemById = new Map(items.map(item => [item.id, item]));
+    const uqcByUnitId = new Map(units.map(unit => [unit.id, unit.uqc]));
+    const errors: string[] = [];
+
+    const sellerGstin = company?.gstin?.trim().toUpperCase() ?? '';
+    const buyerGstin = party?.gstin?.trim().toUpperCase() ?? '';
+    const documentDate = transaction.transactionDate ?? transaction.createdAt ?? new Date();
+
+    const payload: EInvoicePayload = {
+      Version: '1.1',
+      TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+      DocDtls: { Typ: 'INV', No: transaction.transactionNumber, Dt: irpDate(documentDate) },
+      SellerDtls: {
+        Gstin: sellerGstin,
+        LglNm: company?.companyName ?? '',
+        Addr1: settings.address ?? '',
+        Loc: settings.city ?? '',
+        Pin: parseInt(settings.pincode ?? '', 10) || 0,
+        Stcd: stateCodeFromGstin(sellerGstin) ?? '',
+        ...(company?.phone ? { Ph: company.phone } : {}),
+        ...(company?.email ? { Em: company.email } : {})
+      },
+      BuyerDtls: {
+        Gstin: buyerGstin,
+        LglNm: party?.name ?? '',
+        Pos: transaction.placeOfSupply ?? (party ? partyStateCode(party) : null) ?? '',
+        Addr1: party?.address ?? '',
+        Loc: party?.city ?? '',
+        Pin: parseInt(party?.pincode ?? '', 10) || 0,
+        Stcd: stateCodeFromGstin(buyerGstin) ?? '',
+        ...(party?.phone ? { Ph: party.phone } : {}),
+        ...(party?.email ? { Em: party.email } : {})
+      },
+      ItemList: [],
+      ValDtls: {
+        AssVal: 0, CgstVal: 0, SgstVal: 0, IgstVal: 0, CesVal: 0, StCesVal: 0,
+        Discount: 0, OthChrg: 0,
+        RndOffAmt: round2(parseFloat(transaction.roundOff ?? '0')),
+        TotInvVal: round2(parseFloat(transaction.amount))
+      }
+    };
+
+    lines.forEach((line, index) => {
+      const item = line.itemId ? itemById.get(line.itemId) : undefined;
+      const description = item?.name ?? line.description ?? `Line ${index + 1}`;
+      const hsnCode = item?.hsnCode?.trim() ?? '';
+      const quantity = parseFloat(line.quantity);
+      const assessable = round2(parseFloat(line.amount));
+      const gstRate = parseFloat(line.taxRate ?? '0');
+
+      if (!/^\d{4,8}$/.test(hsnCode)) {
+        errors.push(`${description}: HSN code must be 4 to 8 digits`);
+      }
+      if (!gstRates.includes(gstRate)) {
+        errors.push(`${description}: ${gstRate}% is not a valid GST rate`);
+      }
+
+      const entry: EInvoiceItem = {
+        SlNo: String(index + 1),
+        PrdDesc: description,
+        // Chapter 99 of the HSN is services
+        IsServc: hsnCode.startsWith('99') ? 'Y' : 'N',
+        HsnCd: hsnCode,
+        Qty: round3(quantity),
+        Unit: (item?.unitId ? uqcByUnitId.get(item.unitId) : null) || 'OTH',
+        UnitPrice: quantity ? round3(assessable / quantity) : 0,
+        TotAmt: assessable,
+        Discount: 0,
+        AssAmt: assessable,
+        GstRt: gstRate,
+        IgstAmt: round2(parseFloat(line.igstAmount ?? '0')),
+        CgstAmt: round2(parseFloat(line.cgstAmount ?? '0')),
+        SgstAmt: round2(parseFloat(line.sgstAmount ?? '0')),
+        CesRt: parseFloat(line.cessRate ?? '0'),
+        CesAmt: round2(parseFloat(line.cessAmount ?? '0')),
+        CesNonAdvlAmt: 0,
+        StateCesRt: 0,
+        StateCesAmt: 0,
+        StateCesNonAdvlAmt: 0,
+        OthChrg: 0,
+        TotItemVal: round2(parseFloat(line.totalAmount))
+      };
+      payload.ItemList.push(entry);
+
+      const totals = payload.ValDtls;
+      totals.AssVal = round2(totals.AssVal + entry.AssAmt);
+      totals.CgstVal = round2(totals.CgstVal + entry.CgstAmt);
+      totals.SgstVal = round2(totals.SgstVal + entry.SgstAmt);
+      totals.IgstVal = round2(totals.IgstVal + entry.IgstAmt);
+      totals.CesVal = round2(totals.CesVal + entry.CesAmt);
+    });
+
+    const { SellerDtls: seller, BuyerDtls: buyer, ValDtls: totals } = payload;
+    if (!documentNumberPattern.test(payload.DocDtls.No)) {
+      errors.push('Invoice number must be 1 to 16 letters, digits, "/" or "-" and cannot start with 0, "/" or "-"');
+    }
+    if (documentDate > new Date()) {
+      errors.push('Invoice date cannot be in the future');
+    }
+    if (!isValidGstin(seller.Gstin)) {
+      errors.push('Company GSTIN is missing or invalid');
+    }
+    if (!party) {
+      errors.push('Invoice has no customer');
+    } else if (!isValidGstin(buyer.Gstin)) {
+      errors.push(`${party.name} has no valid GSTIN; e-invoices are only issued to registered customers`);
+    }
+    this.validateAddress('Company', seller, errors);
+    if (party) {
+      this.validateAddress(party.name, buyer, errors);
+    }
+    if (!buyer.Pos) {
+      errors.push('Place of supply is missing');
+    }
+    if (payload.ItemList.length === 0) {
+      errors.push('Invoice has no line items');
+    } else if (payload.ItemList.length > 1000) {
+      errors.push('Invoices with more than 1000 lines cannot be e-invoiced');
+    }
+
+    // The IRP allows the invoice value to differ from the sum of its parts by at most one rupee
+    const calculated = round2(totals.AssVal + totals.CgstVal + totals.SgstVal + totals.IgstVal + totals.CesVal + totals.RndOffAmt);
+    if (Math.abs(calculated - totals.TotInvVal) > 1) {
+      errors.push(`Invoice total ${totals.TotInvVal} does not match its lines (${calculated})`);
+    }
+
+    return { payload, errors };
+  }
+
+  // Registers the invoice with the IRP and stores the IRN, acknowledgement and signed QR code
+  async registerIrn(userId: number, transaction: Transaction, payload: EInvoicePayload): Promise<Transaction> {
+    const registration = await this.irpClient.generateIrn(payload);
+    return storage.updateTransaction(userId, transaction.id, {
+      irn: registration.irn,
+      irnAckNumber: registration.ackNumber,
+      irnAckDate: registration.ackDate,
+      irnSignedQrCode: registration.signedQrCode
+    });
+  }
+
+  private validateAddress(label: string, details: EInvoiceParty, errors: string[]) {
+    if (details.LglNm.length < 3 || details.LglNm.length > 100) {
+      errors.push(`${label}: legal name must be 3 to 100 characters`);
+    }
+    if (!details.Addr1 || details.Addr1.length > 100) {
+      errors.push(`${label}: address is missing or longer than 100 characters`);
+    }
+    if (details.Loc.length < 3 || details.Loc.length > 50) {
+      errors.push(`${label}: city must be 3 to 50 characters`);
+    }
+    if (details.Pin < 100000 || details.Pin > 999999) {
+      errors.push(`${label}: pincode must be 6 digits`);
+    }
+  }
+}
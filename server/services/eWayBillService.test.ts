@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { EWayBillService, eWayBillValidUntil } from "./eWayBillService";
+
+const eWayBillService = new EWayBillService();
+
+let companies = 0;
+
+// A company in Maharashtra sending goods by road to a registered customer in Karnataka
+async function setUp() {
+  const user = await storage.createUser({
+    username: `ewaybill${++companies}`, password: "secret", companyName: `Company ${companies}`, gstin: "27BBBBB1111B1ZN",
+  });
+  await storage.updateCompanySettings(user.id, { address: "1 Mill Road", city: "Pune", pincode: "411001" });
+  const customer = await storage.createParty({
+    name: "Kaveri Traders", type: "customer", gstin: "29CCCCC2222C1Z4", address: "12 MG Road", city: "Bengaluru", pincode: "560001", userId: user.id,
+  });
+  const item = await storage.createItem({ name: "Laptop", hsnCode: "84713010", userId: user.id });
+  const invoice = (transactionNumber: string, transport: Record<string, unknown> = {}) => storage.createTransactionWithItems({
+    transactionNumber, transactionType: "sales_invoice", partyId: customer.id, transactionDate: new Date("2026-06-10"),
+    placeOfSupply: "29", amount: "1180.00", taxableAmount: "1000.00", igstAmount: "180.00", status: "pending",
+    transportMode: "road", vehicleNumber: "mh-12 ab 1234", distanceKm: 850, ...transport, userId: user.id,
+  }, [{ itemId: item.id, quantity: "2", rate: "500.00", amount: "1000.00", totalAmount: "1180.00", taxRate: "18", igstAmount: "180.00" }]);
+  return { user, invoice };
+}
+
+describe("EWayBillService", () => {
+  it("builds an inter-state bill by road with nothing to fix", async () => {
+    const { user, invoice } = await setUp();
+
+    const { bill, errors } = await eWayBillService.buildBill(user.id, await invoice("INV/1"));
+
+    expect(errors).toEqual([]);
+    expect(bill).toMatchObject({
+      docType: "INV", docNo: "INV/1", docDate: "10/06/2026", transType: 1,
+      fromStateCode: 27, toGstin: "29CCCCC2222C1Z4", toStateCode: 29, toPincode: 560001,
+      totalValue: 1000, igstValue: 180, totInvValue: 1180, transMode: "1", transDistance: "850", vehicleNo: "MH12AB1234", mainHsnCode: 84713010,
+    });
+    expect(bill.itemList).toEqual([expect.objectContaining({ hsnCode: 84713010, igstRate: 18, cgstRate: 0, sgstRate: 0 })]);
+  });
+
+  it("leaves documents the portal would reject out of the bulk file", async () => {
+    const { user, invoice } = await setUp();
+    const ready = await invoice("INV/1");
+    const incomplete = await invoice("INV/2", { vehicleNumber: "12345", distanceKm: null });
+
+    const { file, issues } = await eWayBillService.buildBulkFile(user.id, [ready, incomplete]);
+
+    expect(file.billLists.map((bill) => bill.docNo)).toEqual(["INV/1"]);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "Enter the approximate distance in km (0 lets the portal calculate it from the pincodes)",
+      "Vehicle number 12345 is not in a valid format, e.g. MH12AB1234",
+    ]);
+  });
+
+  it("is valid a day per 200 km, to the midnight after, and flags bills of undelivered goods about to lapse", async () => {
+    const { user, invoice } = await setUp();
+    const generatedAt = new Date(2026, 5, 10, 15, 0);
+    expect(eWayBillValidUntil(generatedAt, 150)).toEqual(new Date(2026, 5, 11, 23, 59, 59));
+    expect(eWayBillValidUntil(generatedAt, 401)).toEqual(new Date(2026, 5, 13, 23, 59, 59));
+
+    const lapsing = await invoice("INV/1", { ewbNumber: "331000000001", ewbValidUntil: new Date(2026, 5, 11, 23, 59, 59) });
+    await invoice("INV/2", { ewbNumber: "331000000002", ewbValidUntil: new Date(2026, 5, 11, 23, 59, 59), inventoryStatus: "delivered" });
+    await invoice("INV/3", { ewbNumber: "331000000003", ewbValidUntil: new Date(2026, 5, 20, 23, 59, 59) });
+
+    const alerts = await eWayBillService.getExpiryAlerts(user.id, new Date(2026, 5, 11, 9, 0));
+
+    expect(alerts).toEqual([expect.objectContaining({ transactionId: lapsing.id, vehicleNumber: "MH12AB1234", expired: false })]);
+  });
+});
@@ -0,0 +1,343 @@
+import { storage } from '../storage';
+import { Transaction } from '@shared/schema';
+import { isValidGstin, partyStateCode, stateCodeFromGstin, stateCodeFromName } from '@shared/gst';
+
+// One document in the e-way bill portal's bulk upload JSON
+export interface EWayBillItem {
+  itemNo: number;
+  productName: string;
+  productDesc: string;
+  hsnCode: number;
+  quantity: number;
+  qtyUnit: string;
+  taxableAmount: number;
+  sgstRate: number;
+  cgstRate: number;
+  igstRate: number;
+  cessRate: number;
+  cessNonAdvol: number;
+}
+
+export interface EWayBill {
+  userGstin: string;
+  supplyType: 'O';
+  subSupplyType: number;
+  subSupplyDesc: string;
+  docType: 'INV' | 'CHL';
+  docNo: string;
+  docDate: string;
+  transType: 1 | 2 | 3 | 4;
+  fromGstin: string;
+  fromTrdName: string;
+  fromAddr1: string;
+  fromAddr2: string;
+  fromPlace: string;
+  fromPincode: number;
+  fromStateCode: number;
+  actualFromStateCode: number;
+  toGstin: string;
+  toTrdName: string;
+  toAddr1: string;
+  toAddr2: string;
+  toPlace: string;
+  toPincode: number;
+  toStateCode: number;
+  actualToStateCode: number;
+  totalValue: number;
+  cgstValue: number;
+  sgstValue: number;
+  igstValue: number;
+  cessValue: number;
+  TotNonAdvolVal: number;
+  OthValue: number;
+  totInvValue: number;
+  transMode: string;
+  transDistance: string;
+  transporterName: string;
+  transporterId: string;
+  transDocNo: string;
+  transDocDate: string;
+  vehicleNo: string;
+  vehicleType: 'R';
+  mainHsnCode: number;
+  itemList: EWayBillItem[];
+}
+
+export interface EWayBillFile {
+  version: string;
+  billLists: EWayBill[];
+}
+
+export interface EWayBillIssue {
+  transactionId: number;
+  transactionNumber: string;
+  message: string;
+}
+
+export interface EWayBillAlert {
+  transactionId: number;
+  transactionNumber: string;
+  transactionType: string;
+  ewbNumber: string;
+  ewbValidUntil: Date;
+  vehicleNumber: string | null;
+  expired: boolean;
+}
+
+// Documents that can move goods under an e-way bill, and how the portal names them
+export const eWayBillDocumentTypes: Record<string, EWayBill['docType']> = {
+  sales_invoice: 'INV',
+  delivery_note: 'CHL',
+};
+
+const transportModeCodes: Record<string, string> = { road: '1', rail: '2', air: '3', ship: '4' };
+
+// Bulk upload schema version accepted by the portal's offline tool
+const bulkFileVersion = '1.0.0621';
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// The portal expects dd/mm/yyyy
+const portalDate = (date: Date) =>
+  `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+
+const vehicleNumberPattern = /^[A-Z]{2}[0-9]{1,2}[A-Z]{0,3}[0-9]{4}$/;
+const transporterIdPattern = /^[0-9]{2}[0-9A-Z]{13}$/;
+const pincodePattern = /^[1-9][0-9]{5}$/;
+
+// Undelivered goods whose e-way bill lapses within this window are flagged on the dashboard
+const expiryWarningHours = 24;
+
+// Rule 138(10): one day per 200 km or part of it for regular cargo, each day ending at the
+// midnight after it starts
+export function eWayBillValidUntil(generatedAt: Date, distanceKm: number): Date {
+  const days = Math.max(1, Math.ceil(distanceKm / 200));
+  const validUntil = new Date(generatedAt);
+  validUntil.setDate(validUntil.getDate() + days);
+  validUntil.setHours(23, 59, 59, 0);
+  return validUntil;
+}
+
+export const normaliseVehicleNumber = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export class EWayBillService {
+  // Builds the bulk upload entry for one delivery note or invoice and lists what the portal would reject
+  async buildBill(userId: number, transaction: Transaction): Promise<{ bill: EWayBill; errors: string[] }> {
+    const [company, settings, lines, items, units] = await Promise.all([
+      storage.getUser(userId),
+      storage.getCompanySettings(userId),
+      storage.getTransactionItemsByTransactionId(userId, transaction.id),
+      storage.getItemsByUserId(userId),
+      storage.getUnitsByUserId(userId)
+    ]);
+    const party = transaction.partyId ? await storage.getParty(userId, transaction.partyId) : undefined;
+    const itemById = new Map(items.map(item => [item.id, item]));
+    const uqcByUnitId = new Map(units.map(unit => [unit.id, unit.uqc]));
+    const errors: string[] = [];
+
+    const companyGstin = company?.gstin?.trim().toUpperCase() ?? '';
+    const companyState = stateCodeFromGstin(companyGstin);
+    const partyGstin = party?.gstin?.trim().toUpperCase() ?? '';
+    const partyState = party ? partyStateCode(party) : null;
+    const dispatchesElsewhere = !!transaction.dispatchFromAddress;
+    const shipsElsewhere = !!transaction.shipToAddress;
+
+    const from = dispatchesElsewhere
+      ? {
+          address: transaction.dispatchFromAddress ?? '',
+          place: transaction.dispatchFromCity ?? '',
+          pincode: transaction.dispatchFromPincode ?? '',
+          state: stateCodeFromName(transaction.dispatchFromState) ?? companyState
+        }
+      : { address: settings.address ?? '', place: settings.city ?? '', pincode: settings.pincode ?? '', state: companyState };
+    const to = shipsElsewhere
+      ? {
+          address: transaction.shipToAddress ?? '',
+          place: transaction.shipToCity ?? '',
+          pincode: transaction.shipToPincode ?? '',
+          state: stateCodeFromName(transaction.shipToState) ?? partyState
+        }
+      : { address: party?.address ?? '', place: party?.city ?? '', pincode: party?.pincode ?? '', state: partyState };
+
+    const documentDate = transaction.transactionDate ?? transaction.createdAt ?? new Date();
+    const interState = !!companyState && !!transaction.placeOfSupply && companyState !== transaction.placeOfSupply;
+
+    const itemList: EWayBillItem[] = lines.map((line, index) => {
+      const item = line.itemId ? itemById.get(line.itemId) : undefined;
+      const name = item?.name ?? line.description ?? `Line ${index + 1}`;
+      const hsnCode = item?.hsnCode?.trim() ?? '';
+      const gstRate = parseFloat(line.taxRate ?? '0');
+      if (!/^\d{4,8}$/.test(hsnCode)) {
+        errors.push(`${name}: HSN code must be 4 to 8 digits`);
+      }
+      return {
+        itemNo: index + 1,
+        productName: name,
+        productDesc: line.description ?? name,
+        hsnCode: parseInt(hsnCode, 10) || 0,
+        quantity: parseFloat(line.quantity),
+        qtyUnit: (item?.unitId ? uqcByUnitId.get(item.unitId) : null) || 'OTH',
+        taxableAmount: round2(parseFloat(line.amount)),
+        sgstRate: interState ? 0 : gstRate / 2,
+        cgstRate: interState ? 0 : gstRate / 2,
+        igstRate: interState ? gstRate : 0,
+        cessRate: parseFloat(line.cessRate ?? '0'),
+        cessNonAdvol: 0
+      };
+    });
+    const mainItem = itemList.reduce<EWayBillItem | undefined>(
+      (main, item) => (!main || item.taxableAmount > main.taxableAmount ? item : main),
+      undefined
+    );
+
+    const vehicleNumber = transaction.vehicleNumber ? normaliseVehicleNumber(transaction.vehicleNumber) : '';
+    const transporterId = transaction.transporterId?.trim().toUpperCase() ?? '';
+
+    const bill: EWayBill = {
+      userGstin: companyGstin,
+      supplyType: 'O',
+      subSupplyType: 1, // Supply
+      subSupplyDesc: '',
+      docType: eWayBillDocumentTypes[transaction.transactionType] ?? 'INV',
+      docNo: transaction.transactionNumber,
+      docDate: portalDate(documentDate),
+      // 1 regular, 2 bill-to/ship-to, 3 bill-from/dispatch-from, 4 both
+      transType: shipsElsewhere && dispatchesElsewhere ? 4 : dispatchesElsewhere ? 3 : shipsElsewhere ? 2 : 1,
+      fromGstin: companyGstin,
+      fromTrdName: company?.companyName ?? '',
+      fromAddr1: from.address,
+      fromAddr2: '',
+      fromPlace: from.place,
+      fromPincode: parseInt(from.pincode, 10) || 0,
+      fromStateCode: parseInt(companyState ?? '', 10) || 0,
+      actualFromStateCode: parseInt(from.state ?? '', 10) || 0,
+      // Unregistered recipients are "URP" on the portal
+      toGstin: isValidGstin(partyGstin) ? partyGstin : 'URP',
+      toTrdName: transaction.shipToName || party?.name || '',
+      toAddr1: to.address,
+      toAddr2: '',
+      toPlace: to.place,
+      toPincode: parseInt(to.pincode, 10) || 0,
+      toStateCode: parseInt(transaction.placeOfSupply ?? partyState ?? '', 10) || 0,
+      actualToStateCode: parseInt(to.state ?? '', 10) || 0,
+      totalValue: round2(parseFloat(transaction.taxableAmount ?? '0')),
+      cgstValue: round2(parseFloat(transaction.cgstAmount ?? '0')),
+      sgstValue: round2(parseFloat(transaction.sgstAmount ?? '0')),
+      igstValue: round2(parseFloat(transaction.igstAmount ?? '0')),
+      cessValue: round2(parseFloat(transaction.cessAmount ?? '0')),
+      TotNonAdvolVal: 0,
+      OthValue: round2(parseFloat(transaction.roundOff ?? '0')),
+      totInvValue: round2(parseFloat(transaction.amount)),
+      transMode: transaction.transportMode ? transportModeCodes[transaction.transportMode] : '',
+      transDistance: String(transaction.distanceKm ?? 0),
+      transporterName: transaction.transporterName ?? '',
+      transporterId,
+      transDocNo: transaction.transportDocNumber ?? '',
+      transDocDate: transaction.transportDocDate ? portalDate(transaction.transportDocDate) : '',
+      vehicleNo: vehicleNumber,
+      vehicleType: 'R',
+      mainHsnCode: mainItem?.hsnCode ?? 0,
+      itemList
+    };
+
+    if (!eWayBillDocumentTypes[transaction.transactionType]) {
+      errors.push('E-way bills are generated for delivery notes and sales invoices only');
+    }
+    if (!isValidGstin(companyGstin)) {
+      errors.push('Company GSTIN is missing or invalid');
+    }
+    if (!party) {
+      errors.push('Document has no customer');
+    }
+    if (!bill.fromAddr1 || !bill.fromPlace) {
+      errors.push(dispatchesElsewhere ? 'Dispatch-from address is incomplete' : 'Company address is missing; add it in Settings');
+    }
+    if (!pincodePattern.test(from.pincode)) {
+      errors.push('Dispatch pincode must be 6 digits');
+    }
+    if (!bill.toAddr1 || !bill.toPlace) {
+      errors.push(shipsElsewhere ? 'Ship-to address is incomplete' : `${party?.name ?? 'Customer'} has no address`);
+    }
+    if (!pincodePattern.test(to.pincode)) {
+      errors.push('Delivery pincode must be 6 digits');
+    }
+    if (!bill.actualToStateCode || !bill.toStateCode) {
+      errors.push('Destination state is unknown');
+    }
+    if (itemList.length === 0) {
+      errors.push('Document has no line items');
+    }
+    if (transaction.distanceKm == null) {
+      errors.push('Enter the approximate distance in km (0 lets the portal calculate it from the pincodes)');
+    } else if (transaction.distanceKm < 0 || transaction.distanceKm > 4000) {
+      errors.push('Distance must be between 0 and 4000 km');
+    }
+    if (transporterId && !transporterIdPattern.test(transporterId)) {
+      errors.push('Transporter ID must be a 15-character GSTIN or TRANSIN');
+    }
+
+    // Part B: road needs a vehicle, other modes need the carrier's document; without either,
+    // a transporter ID lets the transporter fill Part B later
+    if (!transaction.transportMode) {
+      if (!transporterId) {
+        errors.push('Enter a transport mode, or a transporter ID to let the transporter complete Part B');
+      }
+    } else if (transaction.transportMode === 'road') {
+      if (vehicleNumber && !vehicleNumberPattern.test(vehicleNumber)) {
+        errors.push(`Vehicle number ${transaction.vehicleNumber} is not in a valid format, e.g. MH12AB1234`);
+      } else if (!vehicleNumber && !transporterId) {
+        errors.push('Road transport needs a vehicle number or a transporter ID');
+      }
+    } else if (!transaction.transportDocNumber || !transaction.transportDocDate) {
+      errors.push(`Transport by ${transaction.transportMode} needs the transport document number and date`);
+    }
+
+    return { bill, errors };
+  }
+
+  // A bulk upload file for several documents; documents that fail validation are reported and left out
+  async buildBulkFile(userId: number, transactions: Transaction[]): Promise<{ file: EWayBillFile; issues: EWayBillIssue[] }> {
+    const file: EWayBillFile = { version: bulkFileVersion, billLists: [] };
+    const issues: EWayBillIssue[] = [];
+
+    for (const transaction of transactions) {
+      const { bill, errors } = await this.buildBill(userId, transaction);
+      if (errors.length > 0) {
+        issues.push(...errors.map(message => ({
+          transactionId: transaction.id,
+          transactionNumber: transaction.transactionNumber,
+          message
+        })));
+      } else {
+        file.billLists.push(bill);
+      }
+    }
+
+    return { file, issues };
+  }
+
+  // E-way bills of undelivered goods that have lapsed or lapse soon
+  async getExpiryAlerts(userId: number, now = new Date()): Promise<EWayBillAlert[]> {
+    const warnUntil = now.getTime() + expiryWarningHours * 60 * 60 * 1000;
+    const settled = ['delivered', 'cancelled', 'closed'];
+
+    return (await storage.getTransactionsByUserId(userId))
+      .filter(transaction =>
+        transaction.ewbNumber &&
+        transaction.ewbValidUntil &&
+        transaction.ewbValidUntil.getTime() <= warnUntil &&
+        transaction.status !== 'cancelled' &&
+        !settled.includes(transaction.inventoryStatus?.toLowerCase() ?? '')
+      )
+      .map(transaction => ({
+        transactionId: transaction.id,
+        transactionNumber: transaction.transactionNumber,
+        transactionType: transaction.transactionType,
+        ewbNumber: transaction.ewbNumber!,
+        ewbValidUntil: transaction.ewbValidUntil!,
+        vehicleNumber: transaction.vehicleNumber ? normaliseVehicleNumber(transaction.vehicleNumber) : null,
+        expired: transaction.ewbValidUntil!.getTime() < now.getTime()
+      }))
+      .sort((a, b) => a.ewbValidUntil.getTime() - b.ewbValidUntil.getTime());
+  }
+}
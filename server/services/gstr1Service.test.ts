@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { Gstr1Service } from "./gstr1Service";
+
+const gstr1Service = new Gstr1Service();
+
+describe("Gstr1Service", () => {
+  it("files a sales return as a credit note that reduces the outward supply", async () => {
+    const company = await storage.createUser({ username: "gstr1-seller", password: "secret", companyName: "Seller", gstin: "27BBBBB1111B1ZN" });
+    const customer = await storage.createParty({ name: "Buyer", type: "customer", gstin: "29CCCCC2222C1Z4", userId: company.id });
+    const item = await storage.createItem({ name: "Lamp", hsnCode: "9405", userId: company.id });
+    const document = { partyId: customer.id, transactionDate: new Date(2026, 5, 10), status: "pending" as const, userId: company.id };
+
+    const invoice = await storage.createTransactionWithItems(
+      { ...document, transactionNumber: "INV-1", transactionType: "sales_invoice", amount: "1180.00", igstAmount: "180.00" },
+      [{ itemId: item.id, quantity: "10", rate: "100", amount: "1000.00", taxRate: "18", igstAmount: "180.00", totalAmount: "1180.00" }],
+    );
+    const [sold] = await storage.getTransactionItemsByTransactionId(company.id, invoice.id);
+    await storage.createTransactionWithItems(
+      { ...document, transactionNumber: "DN-1", transactionType: "debit_note", linkedTransactionId: invoice.id, noteReason: "sales_return", amount: "236.00", igstAmount: "36.00" },
+      [{ itemId: item.id, sourceItemId: sold.id, quantity: "2", rate: "100", amount: "200.00", taxRate: "18", igstAmount: "36.00", totalAmount: "236.00" }],
+    );
+
+    const { gstr1, summary, issues } = await gstr1Service.buildReturn(company.id, company, "2026-06");
+
+    expect(issues).toEqual([]);
+    expect(gstr1.cdnr).toEqual([{ ctin: "29CCCCC2222C1Z4", nt: [expect.objectContaining({ ntty: "C", nt_num: "DN-1", val: 236 })] }]);
+    expect(summary.find((section) => section.section === "CDNR")).toMatchObject({ taxableValue: -200, igst: -36 });
+    expect(gstr1.hsn.data).toEqual([expect.objectContaining({ hsn_sc: "9405", qty: 8, txval: 800, iamt: 144 })]);
+    expect(gstr1.doc_issue.doc_det.map((nature) => [nature.doc_num, nature.doc_typ, nature.docs[0].totnum])).toEqual([
+      [1, "Invoices for outward supply", 1],
+      [5, "Credit Note", 1],
+    ]);
+  });
+
+  it("leaves purchase returns to the vendor's return", async () => {
+    const company = await storage.createUser({ username: "gstr1-buyer", password: "secret", companyName: "Buyer", gstin: "27BBBBB1111B1ZN" });
+    const vendor = await storage.createParty({ name: "Supplier", type: "vendor", gstin: "29CCCCC2222C1Z4", userId: company.id });
+    await storage.createTransaction({
+      transactionNumber: "CN-1", transactionType: "credit_note", partyId: vendor.id, transactionDate: new Date(2026, 5, 10),
+      noteReason: "sales_return", amount: "118.00", status: "pending", userId: company.id,
+    });
+
+    const { gstr1, issues } = await gstr1Service.buildReturn(company.id, company, "2026-06");
+
+    expect(gstr1.cdnr).toEqual([]);
+    expect(gstr1.doc_issue.doc_det).toEqual([]);
+    expect(issues).toEqual([]);
+  });
+});
@@ -0,0 +1,409 @@
+import { storage } from '../storage';
+import { Party, Transaction, TransactionItem, User } from '@shared/schema';
+import { isValidGstin, partyStateCode, stateCodeFromGstin } from '@shared/gst';
+import { postingRules } from './ledgerService';
+
+type TransactionType = Transaction['transactionType'];
+
+// Unregistered inter-state invoices above this value are reported invoice-wise in B2CL
+const b2clThreshold = 100000;
+
+// GSTR-1 reports what the ledger posts to output tax: invoices, and the notes raised on customers against them
+const gstr1DocumentTypes = (Object.keys(postingRules) as TransactionType[]).filter(type => postingRules[type]!.tax === 'output');
+
+// A note that credits the customer, as a sales return does, reduces the supply and is a credit note on the portal
+const noteTypeOf = (type: TransactionType): 'C' | 'D' => postingRules[type]!.partyDebited ? 'D' : 'C';
+
+// Document numbers in the portal's doc_issue section
+const documentNatures: Record<'invoice' | 'C' | 'D', { docNum: number; docType: string }> = {
+  invoice: { docNum: 1, docType: 'Invoices for outward supply' },
+  D: { docNum: 4, docType: 'Debit Note' },
+  C: { docNum: 5, docType: 'Credit Note' },
+};
+
+const documentNatureOf = (type: TransactionType) => type === 'sales_invoice' ? 'invoice' : noteTypeOf(type);
+
+interface ItemDetail {
+  txval: number;
+  rt: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface RateItem {
+  num: number;
+  itm_det: ItemDetail;
+}
+
+interface B2bInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  pos: string;
+  rchrg: 'N';
+  inv_typ: 'R';
+  itms: RateItem[];
+}
+
+interface CreditDebitNote {
+  ntty: 'C' | 'D';
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos: string;
+  rchrg: 'N';
+  inv_typ: 'R';
+  itms: RateItem[];
+}
+
+interface B2csEntry {
+  sply_ty: 'INTER' | 'INTRA';
+  pos: string;
+  typ: 'OE';
+  txval: number;
+  rt: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface HsnEntry {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface DocumentSeries {
+  num: number;
+  from: string;
+  to: string;
+  totnum: number;
+  cancel: number;
+  net_issue: number;
+}
+
+// GSTR-1 in the GST portal's offline JSON format
+export interface Gstr1Json {
+  gstin: string;
+  fp: string;
+  gt: number;
+  cur_gt: number;
+  b2b: { ctin: string; inv: B2bInvoice[] }[];
+  b2cl: { pos: string; inv: Omit<B2bInvoice, 'pos' | 'rchrg' | 'inv_typ'>[] }[];
+  b2cs: B2csEntry[];
+  cdnr: { ctin: string; nt: CreditDebitNote[] }[];
+  hsn: { data: HsnEntry[] };
+  doc_issue: { doc_det: { doc_num: number; doc_typ: string; docs: DocumentSeries[] }[] };
+}
+
+export interface Gstr1SectionSummary {
+  section: 'B2B' | 'B2CL' | 'B2CS' | 'CDNR' | 'HSN';
+  records: number;
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+export interface Gstr1Issue {
+  transactionId: number;
+  transactionNumber: string;
+  message: string;
+}
+
+export interface Gstr1Return {
+  period: string;
+  gstr1: Gstr1Json;
+  summary: Gstr1SectionSummary[];
+  issues: Gstr1Issue[];
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// The portal expects dd-mm-yyyy
+const portalDate = (date: Date | null) => {
+  const value = date ?? new Date();
+  return `${String(value.getDate()).padStart(2, '0')}-${String(value.getMonth() + 1).padStart(2, '0')}-${value.getFullYear()}`;
+};
+
+export class Gstr1Service {
+  // The period of the filed GSTR-1 that reported this document, if it was in one. Such a document is
+  // corrected by a note in a later return rather than cancelled or changed.
+  async filedPeriodOf(userId: number, transaction: Transaction): Promise<string | null> {
+    if (!gstr1DocumentTypes.includes(transaction.transactionType) || !transaction.transactionDate) return null;
+    const { gstr1FiledThrough } = await storage.getCompanySettings(userId);
+    if (!gstr1FiledThrough) return null;
+
+    if (transaction.transactionType !== 'sales_invoice' && transaction.partyId) {
+      const party = await storage.getParty(userId, transaction.partyId);
+      if (party?.type === 'vendor') return null;
+    }
+    const date = new Date(transaction.transactionDate);
+    const period = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    return period <= gstr1FiledThrough ? period : null;
+  }
+
+  // period is YYYY-MM; the company's GSTIN must already be valid
+  async buildReturn(userId: number, company: User, period: string): Promise<Gstr1Return> {
+    const [year, month] = period.split('-').map(Number);
+    const from = new Date(year, month - 1, 1);
+    const to = new Date(year, month, 1);
+    const companyState = stateCodeFromGstin(company.gstin)!;
+
+    const [transactions, parties, items, units] = await Promise.all([
+      storage.getTransactionsByUserId(userId),
+      storage.getPartiesByUserId(userId),
+      storage.getItemsByUserId(userId),
+      storage.getUnitsByUserId(userId)
+    ]);
+    const partyById = new Map(parties.map(party => [party.id, party]));
+    const itemById = new Map(items.map(item => [item.id, item]));
+    const uqcByUnitId = new Map(units.map(unit => [unit.id, unit.uqc]));
+
+    // Notes raised on vendors adjust purchases and belong in the vendor's GSTR-1, not ours
+    const documents = transactions
+      .filter(transaction =>
+        gstr1DocumentTypes.includes(transaction.transactionType) &&
+        transaction.transactionDate !== null &&
+        transaction.transactionDate >= from &&
+        transaction.transactionDate < to &&
+        !(transaction.transactionType !== 'sales_invoice' && this.partyOf(transaction, partyById)?.type === 'vendor')
+      )
+      .sort((a, b) => a.transactionNumber.localeCompare(b.transactionNumber, undefined, { numeric: true }));
+
+    const gstr1: Gstr1Json = {
+      gstin: company.gstin!.trim().toUpperCase(),
+      fp: `${String(month).padStart(2, '0')}${year}`,
+      gt: 0,
+      cur_gt: 0,
+      b2b: [],
+      b2cl: [],
+      b2cs: [],
+      cdnr: [],
+      hsn: { data: [] },
+      doc_issue: { doc_det: [] }
+    };
+    const issues: Gstr1Issue[] = [];
+    const b2cs = new Map<string, B2csEntry>();
+    const hsn = new Map<string, HsnEntry>();
+
+    for (const transaction of documents) {
+      if (transaction.status === 'cancelled') {
+        continue;
+      }
+
+      const party = this.partyOf(transaction, partyById);
+      const issue = (message: string) => issues.push({
+        transactionId: transaction.id,
+        transactionNumber: transaction.transactionNumber,
+        message
+      });
+      const lines = await storage.getTransactionItemsByTransactionId(userId, transaction.id);
+      const pos = transaction.placeOfSupply || (party ? partyStateCode(party) : null) || companyState;
+      const interState = pos !== companyState;
+      const itms = this.rateItems(lines, interState);
+      const val = round2(parseFloat(transaction.amount));
+      const registered = !!party?.gstin?.trim();
+      const ctin = party?.gstin?.trim().toUpperCase() ?? '';
+
+      if (lines.length === 0) {
+        issue('Document has no line items');
+        continue;
+      }
+      if (registered && !isValidGstin(ctin)) {
+        issue(`Invalid GSTIN ${ctin} for ${party!.name}`);
+        continue;
+      }
+
+      if (transaction.transactionType === 'sales_invoice') {
+        const invoice = { inum: transaction.transactionNumber, idt: portalDate(transaction.transactionDate), val };
+        if (registered) {
+          this.groupBy(gstr1.b2b, 'ctin', ctin, { ctin, inv: [] }).inv.push({
+            ...invoice, pos, rchrg: 'N', inv_typ: 'R', itms
+          });
+        } else if (interState && val > b2clThreshold) {
+          this.groupBy(gstr1.b2cl, 'pos', pos, { pos, inv: [] }).inv.push({ ...invoice, itms });
+        } else {
+          for (const { itm_det: detail } of itms) {
+            const key = `${pos}:${detail.rt}`;
+            const entry = b2cs.get(key) ?? {
+              sply_ty: interState ? 'INTER' : 'INTRA', pos, typ: 'OE', txval: 0, rt: detail.rt, iamt: 0, camt: 0, samt: 0, csamt: 0
+            };
+            this.addAmounts(entry, detail, 1);
+            b2cs.set(key, entry);
+          }
+        }
+      } else if (registered) {
+        if (!transaction.noteReason) {
+          issue('No GST reason code on the note');
+        }
+        this.groupBy(gstr1.cdnr, 'ctin', ctin, { ctin, nt: [] }).nt.push({
+          ntty: noteTypeOf(transaction.transactionType),
+          nt_num: transaction.transactionNumber,
+          nt_dt: portalDate(transaction.transactionDate),
+          val,
+          pos,
+          rchrg: 'N',
+          inv_typ: 'R',
+          itms
+        });
+      } else {
+        issue('Notes to unregistered customers are reported in CDNUR, which is not generated');
+        continue;
+      }
+
+      // HSN summary: credit notes reduce the outward supply they were raised against
+      const sign = documentNatureOf(transaction.transactionType) === 'C' ? -1 : 1;
+      for (const line of lines) {
+        const item = line.itemId ? itemById.get(line.itemId) : undefined;
+        if (!item?.hsnCode) {
+          issue(`No HSN code for ${item?.name ?? line.description ?? 'line without an item'}`);
+          continue;
+        }
+        const detail = this.lineDetail(line, interState);
+        const uqc = (item.unitId ? uqcByUnitId.get(item.unitId) : null) || 'OTH';
+        const key = `${item.hsnCode}:${uqc}:${detail.rt}`;
+        const entry = hsn.get(key) ?? {
+          num: hsn.size + 1, hsn_sc: item.hsnCode, desc: item.name, uqc, qty: 0, rt: detail.rt,
+          txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0
+        };
+        entry.qty = round2(entry.qty + sign * parseFloat(line.quantity));
+        this.addAmounts(entry, detail, sign);
+        hsn.set(key, entry);
+      }
+    }
+
+    gstr1.b2cs = Array.from(b2cs.values());
+    gstr1.hsn.data = Array.from(hsn.values());
+    gstr1.doc_issue.doc_det = this.documentSeries(documents);
+
+    return {
+      period,
+      gstr1,
+      summary: this.summarise(gstr1),
+      issues
+    };
+  }
+
+  private partyOf(transaction: Transaction, partyById: Map<number, Party>) {
+    return transaction.partyId !== null ? partyById.get(transaction.partyId) : undefined;
+  }
+
+  private groupBy<T, K extends keyof T>(entries: T[], key: K, value: T[K], empty: T) {
+    let entry = entries.find(existing => existing[key] === value);
+    if (!entry) {
+      entry = empty;
+      entries.push(entry);
+    }
+    return entry;
+  }
+
+  // Lines saved before the GST engine only have a single tax amount; split it the way the engine would
+  private lineDetail(line: TransactionItem, interState: boolean): ItemDetail {
+    const taxAmount = parseFloat(line.taxAmount || '0');
+    const hasSplit = line.cgstAmount !== null || line.sgstAmount !== null || line.igstAmount !== null;
+    const amount = (value: string | null) => parseFloat(value || '0');
+
+    return {
+      txval: round2(amount(line.amount)),
+      rt: round2(amount(line.taxRate)),
+      iamt: hasSplit ? amount(line.igstAmount) : interState ? taxAmount : 0,
+      camt: hasSplit ? amount(line.cgstAmount) : interState ? 0 : round2(taxAmount / 2),
+      samt: hasSplit ? amount(line.sgstAmount) : interState ? 0 : round2(taxAmount - round2(taxAmount / 2)),
+      csamt: amount(line.cessAmount)
+    };
+  }
+
+  // The portal wants one entry per tax rate on each invoice or note
+  private rateItems(lines: TransactionItem[], interState: boolean): RateItem[] {
+    const byRate = new Map<number, ItemDetail>();
+    for (const line of lines) {
+      const detail = this.lineDetail(line, interState);
+      const total = byRate.get(detail.rt) ?? { txval: 0, rt: detail.rt, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+      this.addAmounts(total, detail, 1);
+      byRate.set(detail.rt, total);
+    }
+    return Array.from(byRate.values()).map((detail, index) => ({ num: index + 1, itm_det: detail }));
+  }
+
+  private addAmounts(total: Omit<ItemDetail, 'rt'>, detail: ItemDetail, sign: number) {
+    total.txval = round2(total.txval + sign * detail.txval);
+    total.iamt = round2(total.iamt + sign * detail.iamt);
+    total.camt = round2(total.camt + sign * detail.camt);
+    total.samt = round2(total.samt + sign * detail.samt);
+    total.csamt = round2(total.csamt + sign * detail.csamt);
+  }
+
+  // Number range issued per document type, counting cancelled documents separately
+  private documentSeries(documents: Transaction[]) {
+    return Object.entries(documentNatures).flatMap(([kind, nature]) => {
+      const issued = documents.filter(document => documentNatureOf(document.transactionType) === kind);
+      if (issued.length === 0) {
+        return [];
+      }
+      const cancelled = issued.filter(document => document.status === 'cancelled').length;
+      return [{
+        doc_num: nature.docNum,
+        doc_typ: nature.docType,
+        docs: [{
+          num: 1,
+          from: issued[0].transactionNumber,
+          to: issued[issued.length - 1].transactionNumber,
+          totnum: issued.length,
+          cancel: cancelled,
+          net_issue: issued.length - cancelled
+        }]
+      }];
+    });
+  }
+
+  private summarise(gstr1: Gstr1Json): Gstr1SectionSummary[] {
+    const section = (name: Gstr1SectionSummary['section'], records: number, details: Omit<ItemDetail, 'rt'>[]) => {
+      const sum = (key: keyof Omit<ItemDetail, 'rt'>) => round2(details.reduce((total, detail) => total + detail[key], 0));
+      return {
+        section: name,
+        records,
+        taxableValue: sum('txval'),
+        igst: sum('iamt'),
+        cgst: sum('camt'),
+        sgst: sum('samt'),
+        cess: sum('csamt')
+      };
+    };
+    const itemDetails = (documents: { itms: RateItem[] }[]) =>
+      documents.flatMap(document => document.itms.map(item => item.itm_det));
+
+    const b2bInvoices = gstr1.b2b.flatMap(entry => entry.inv);
+    const b2clInvoices = gstr1.b2cl.flatMap(entry => entry.inv);
+    const notes = gstr1.cdnr.flatMap(entry => entry.nt);
+    // Credit notes are shown as negative values in the CDNR totals
+    const signedNotes = notes.map(note => ({
+      itms: note.itms.map(item => ({
+        ...item,
+        itm_det: note.ntty === 'C'
+          ? { ...item.itm_det, txval: -item.itm_det.txval, iamt: -item.itm_det.iamt, camt: -item.itm_det.camt, samt: -item.itm_det.samt, csamt: -item.itm_det.csamt }
+          : item.itm_det
+      }))
+    }));
+
+    return [
+      section('B2B', b2bInvoices.length, itemDetails(b2bInvoices)),
+      section('B2CL', b2clInvoices.length, itemDetails(b2clInvoices)),
+      section('B2CS', gstr1.b2cs.length, gstr1.b2cs),
+      section('CDNR', notes.length, itemDetails(signedNotes)),
+      section('HSN', gstr1.hsn.data.length, gstr1.hsn.data)
+    ];
+  }
+}
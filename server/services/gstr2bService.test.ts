@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { Gstr2bService } from "./gstr2bService";
+
+const gstr2bService = new Gstr2bService();
+
+const vendorGstin = "29CCCCC2222C1Z4";
+
+let companies = 0;
+
+// A company with one registered vendor; bills carry their totals on the header
+async function setUp() {
+  const user = await storage.createUser({ username: `gstr2b${++companies}`, password: "secret", companyName: `Company ${companies}` });
+  const vendor = await storage.createParty({ name: "Bharath Supplies", type: "vendor", gstin: vendorGstin, userId: user.id });
+  let bills = 0;
+  const bill = (vendorBillNumber: string, date: string, taxable: number) => storage.createTransaction({
+    transactionNumber: `PB-${++bills}`, transactionType: "purchase_bill", partyId: vendor.id, vendorBillNumber,
+    transactionDate: new Date(date), amount: (taxable * 1.18).toFixed(2), taxableAmount: taxable.toFixed(2), igstAmount: (taxable * 0.18).toFixed(2),
+    status: "pending", userId: user.id,
+  });
+  return { user, bill };
+}
+
+// A 2B invoice of the given taxable value at 18% IGST
+const reported = (inum: string, dt: string, taxable: number, val = taxable * 1.18) =>
+  ({ inum, dt, val, items: [{ rt: 18, txval: taxable, igst: taxable * 0.18, cgst: 0, sgst: 0, cess: 0 }] });
+
+const file = (...inv: ReturnType<typeof reported>[]) => gstr2bService.parseFile({
+  data: { rtnprd: "062026", docdata: { b2b: [{ ctin: vendorGstin, trdnm: "Bharath Supplies", inv }] } },
+});
+
+describe("Gstr2bService", () => {
+  it("matches invoice numbers written differently by the vendor", async () => {
+    const { user, bill } = await setUp();
+    const booked = await bill("INV/001", "2026-06-05", 1000);
+
+    const gstr2bImport = await gstr2bService.importFile(user.id, file(reported("inv-1", "05-06-2026", 1000)));
+
+    const [entry] = await storage.getGstr2bEntries(user.id, gstr2bImport.id);
+    expect(entry).toMatchObject({ transactionId: booked.id, matchStatus: "matched", matchNote: null });
+  });
+
+  it("falls back to the value within tolerance on a nearby date, and reports amounts that differ", async () => {
+    const { user, bill } = await setUp();
+    const byValue = await bill("B-77", "2026-06-12", 2000);
+    const differing = await bill("C-5", "2026-06-20", 500);
+    await bill("D-9", "2026-06-28", 900);
+
+    const gstr2bImport = await gstr2bService.importFile(user.id, file(
+      reported("X-900", "14-06-2026", 2000, 2360.5),
+      reported("X-901", "25-06-2026", 3000),
+      reported("C5", "20-06-2026", 520),
+    ));
+
+    const entries = await storage.getGstr2bEntries(user.id, gstr2bImport.id);
+    expect(entries.map((entry) => [entry.invoiceNumber, entry.transactionId, entry.matchStatus, entry.matchNote])).toEqual([
+      ["X-900", byValue.id, "matched", "Matched on value and date; bill number is B-77"],
+      ["X-901", null, "missing_in_books", null],
+      ["C5", differing.id, "mismatched_amount", "Taxable value in 2B differs from books by 20; Tax in 2B differs from books by 3.6"],
+      ["D-9", expect.any(Number), "missing_in_2b", null],
+    ]);
+  });
+
+  it("lists bills of the period the vendor has not reported, and replaces an earlier upload of the period", async () => {
+    const { user, bill } = await setUp();
+    const unreported = await bill("E-1", "2026-06-30", 100);
+    await bill("E-2", "2026-07-01", 100);
+    const first = await gstr2bService.importFile(user.id, file());
+
+    const second = await gstr2bService.importFile(user.id, file(), "062026.json");
+
+    expect((await storage.getGstr2bImports(user.id)).map((found) => found.id)).toEqual([second.id]);
+    expect(await storage.getGstr2bEntries(user.id, first.id)).toEqual([]);
+    const entries = await storage.getGstr2bEntries(user.id, second.id);
+    expect(entries.map((entry) => [entry.transactionId, entry.invoiceNumber, entry.matchStatus])).toEqual([[unreported.id, "E-1", "missing_in_2b"]]);
+  });
+});
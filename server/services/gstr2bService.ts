@@ -0,0 +1,231 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { Gstr2bEntry, Gstr2bImport, InsertGstr2bEntry, Party, Transaction } from '@shared/schema';
+
+const amount = z.coerce.number().default(0);
+
+const gstr2bItemSchema = z.object({
+  rt: amount,
+  txval: amount,
+  igst: amount,
+  cgst: amount,
+  sgst: amount,
+  cess: amount,
+});
+
+const gstr2bInvoiceSchema = z.object({
+  inum: z.string(),
+  dt: z.string().regex(/^\d{2}-\d{2}-\d{4}$/, "Invoice dates must be dd-mm-yyyy"),
+  val: amount,
+  pos: z.string().optional(),
+  itcavl: z.string().optional(),
+  items: z.array(gstr2bItemSchema).default([]),
+});
+
+// The B2B section of the portal's GSTR-2B download; other sections are not reconciled against bills
+export const gstr2bFileSchema = z.object({
+  rtnprd: z.string().regex(/^(0[1-9]|1[0-2])\d{4}$/, "Return period must be MMYYYY"),
+  docdata: z.object({
+    b2b: z.array(z.object({
+      ctin: z.string(),
+      trdnm: z.string().optional(),
+      inv: z.array(gstr2bInvoiceSchema),
+    })).default([]),
+  }),
+});
+
+export type Gstr2bFile = z.infer<typeof gstr2bFileSchema>;
+
+interface BillAmounts {
+  value: number;
+  taxableValue: number;
+  tax: number;
+}
+
+export type Gstr2bEntryWithBill = Gstr2bEntry & {
+  billNumber: string | null;
+  billAmounts: BillAmounts | null;
+};
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const dayInMs = 24 * 60 * 60 * 1000;
+
+// Vendors write the same number many ways: INV/001, inv-1, INV 0001
+const normaliseInvoiceNumber = (value: string) =>
+  value.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/(^|[A-Z])0+(?=\d)/g, '$1');
+
+const parsePortalDate = (value: string) => {
+  const [day, month, year] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export class Gstr2bService {
+  // The portal wraps the return in { data: ... }; accept either shape
+  parseFile(body: unknown): Gstr2bFile {
+    const root = body && typeof body === 'object' && 'data' in body ? (body as { data: unknown }).data : body;
+    return gstr2bFileSchema.parse(root);
+  }
+
+  // Imports a 2B file for its period, replacing any earlier upload for the same period, and matches it to bills.
+  // The earlier upload stays until the new one is saved whole.
+  async importFile(userId: number, file: Gstr2bFile, fileName?: string): Promise<Gstr2bImport> {
+    const period = `${file.rtnprd.slice(2)}-${file.rtnprd.slice(0, 2)}`;
+    const entries = await this.reconcile(userId, period, file);
+    return storage.replaceGstr2bImport({ period, fileName, userId }, entries);
+  }
+
+  private async reconcile(userId: number, period: string, file: Gstr2bFile): Promise<Omit<InsertGstr2bEntry, 'importId'>[]> {
+    const settings = await storage.getCompanySettings(userId);
+    const amountTolerance = parseFloat(settings.gstr2bAmountTolerance);
+    const dateTolerance = settings.gstr2bDateToleranceDays;
+
+    const parties = new Map((await storage.getPartiesByUserId(userId)).map(party => [party.id, party]));
+    const bills = (await storage.getTransactionsByType(userId, 'purchase_bill'))
+      .filter(bill => bill.status !== 'cancelled' && bill.partyId !== null && parties.get(bill.partyId)?.gstin);
+    const billAmounts = new Map<number, BillAmounts>();
+    for (const bill of bills) {
+      billAmounts.set(bill.id, await this.getBillAmounts(userId, bill));
+    }
+
+    const gstinOf = (bill: Transaction) => parties.get(bill.partyId!)!.gstin!.trim().toUpperCase();
+    const claimed = new Set<number>();
+    const entries: Omit<InsertGstr2bEntry, 'importId'>[] = [];
+
+    for (const supplier of file.docdata.b2b) {
+      const supplierGstin = supplier.ctin.trim().toUpperCase();
+      const supplierBills = bills.filter(bill => gstinOf(bill) === supplierGstin);
+
+      for (const invoice of supplier.inv) {
+        const invoiceDate = parsePortalDate(invoice.dt);
+        const sum = (key: 'txval' | 'igst' | 'cgst' | 'sgst' | 'cess') =>
+          round2(invoice.items.reduce((total, item) => total + item[key], 0));
+        const reported = {
+          taxableValue: sum('txval'),
+          igst: sum('igst'),
+          cgst: sum('cgst'),
+          sgst: sum('sgst'),
+          cess: sum('cess'),
+        };
+        const reportedTax = round2(reported.igst + reported.cgst + reported.sgst + reported.cess);
+        const unclaimed = supplierBills.filter(bill => !claimed.has(bill.id));
+
+        // Same invoice number first; failing that, the same value within tolerance on a nearby date
+        let bill = unclaimed.find(candidate =>
+          normaliseInvoiceNumber(this.billNumber(candidate)) === normaliseInvoiceNumber(invoice.inum)
+        );
+        let matchNote: string | null = null;
+        if (!bill) {
+          bill = unclaimed.find(candidate =>
+            Math.abs(billAmounts.get(candidate.id)!.value - invoice.val) <= amountTolerance &&
+            Math.abs(this.billDate(candidate).getTime() - invoiceDate.getTime()) <= dateTolerance * dayInMs
+          );
+          if (bill) {
+            matchNote = `Matched on value and date; bill number is ${this.billNumber(bill)}`;
+          }
+        }
+
+        let matchStatus: InsertGstr2bEntry['matchStatus'] = 'missing_in_books';
+        if (bill) {
+          claimed.add(bill.id);
+          const books = billAmounts.get(bill.id)!;
+          const differences = [
+            ['Taxable value', round2(reported.taxableValue - books.taxableValue)],
+            ['Tax', round2(reportedTax - books.tax)],
+          ].filter(([, difference]) => Math.abs(difference as number) > amountTolerance);
+          const dateDifference = Math.round(Math.abs(this.billDate(bill).getTime() - invoiceDate.getTime()) / dayInMs);
+
+          matchStatus = differences.length > 0 ? 'mismatched_amount' : 'matched';
+          matchNote = [
+            matchNote,
+            ...differences.map(([label, difference]) => `${label} in 2B differs from books by ${difference}`),
+            dateDifference > dateTolerance ? `Invoice date differs by ${dateDifference} days` : null,
+          ].filter(Boolean).join('; ') || null;
+        }
+
+        entries.push({
+          transactionId: bill?.id ?? null,
+          supplierGstin,
+          supplierName: supplier.trdnm ?? null,
+          invoiceNumber: invoice.inum,
+          invoiceDate,
+          invoiceValue: invoice.val.toFixed(2),
+          taxableValue: reported.taxableValue.toFixed(2),
+          igstAmount: reported.igst.toFixed(2),
+          cgstAmount: reported.cgst.toFixed(2),
+          sgstAmount: reported.sgst.toFixed(2),
+          cessAmount: reported.cess.toFixed(2),
+          placeOfSupply: invoice.pos ?? null,
+          itcAvailable: invoice.itcavl ? invoice.itcavl === 'Y' : null,
+          matchStatus,
+          matchNote,
+          userId,
+        });
+      }
+    }
+
+    // Bills dated in the period that the supplier has not reported
+    const [year, month] = period.split('-').map(Number);
+    const from = new Date(year, month - 1, 1);
+    const to = new Date(year, month, 1);
+    for (const bill of bills) {
+      const billDate = this.billDate(bill);
+      if (claimed.has(bill.id) || billDate < from || billDate >= to) {
+        continue;
+      }
+      const party = parties.get(bill.partyId!) as Party;
+      entries.push({
+        transactionId: bill.id,
+        supplierGstin: gstinOf(bill),
+        supplierName: party.name,
+        invoiceNumber: this.billNumber(bill),
+        invoiceDate: billDate,
+        matchStatus: 'missing_in_2b',
+        userId,
+      });
+    }
+
+    return entries;
+  }
+
+  // Adds the booked bill's number and amounts so each row can be compared side by side
+  async withBills(userId: number, entries: Gstr2bEntry[]): Promise<Gstr2bEntryWithBill[]> {
+    const result: Gstr2bEntryWithBill[] = [];
+    for (const entry of entries) {
+      const bill = entry.transactionId ? await storage.getTransaction(userId, entry.transactionId) : undefined;
+      result.push({
+        ...entry,
+        billNumber: bill ? bill.transactionNumber : null,
+        billAmounts: bill ? await this.getBillAmounts(userId, bill) : null,
+      });
+    }
+    return result;
+  }
+
+  private billNumber(bill: Transaction) {
+    return bill.vendorBillNumber || bill.transactionNumber;
+  }
+
+  private billDate(bill: Transaction) {
+    return bill.vendorInvoiceDate ?? bill.transactionDate ?? bill.createdAt ?? new Date();
+  }
+
+  // Bills saved before GST was stored on the header fall back to their lines
+  private async getBillAmounts(userId: number, bill: Transaction): Promise<BillAmounts> {
+    if (bill.taxableAmount !== null) {
+      return {
+        value: parseFloat(bill.amount),
+        taxableValue: parseFloat(bill.taxableAmount),
+        tax: round2(['igstAmount', 'cgstAmount', 'sgstAmount', 'cessAmount']
+          .reduce((total, key) => total + parseFloat(bill[key as 'igstAmount'] ?? '0'), 0)),
+      };
+    }
+
+    const lines = await storage.getTransactionItemsByTransactionId(userId, bill.id);
+    return {
+      value: parseFloat(bill.amount),
+      taxableValue: round2(lines.reduce((total, line) => total + parseFloat(line.amount), 0)),
+      tax: round2(lines.reduce((total, line) => total + parseFloat(line.taxAmount ?? '0'), 0)),
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import { storage } from '../storage';
+import { Item, ItemWithMasters } from '@shared/schema';
+
+interface HierarchyNode {
+  id: number;
+  parentId: number | null;
+}
+
+export class InventoryService {
+  // A parent is valid when it exists in the list and does not sit below the node being edited
+  isValidParent(nodes: HierarchyNode[], id: number | undefined, parentId: number) {
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    let current = byId.get(parentId);
+
+    if (!current) {
+      return false;
+    }
+
+    while (current) {
+      if (current.id === id) {
+        return false;
+      }
+      current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+    }
+
+    return true;
+  }
+
+  // Adds parentName so list screens can show the hierarchy without a second lookup
+  withParentNames<T extends HierarchyNode & { name: string }>(nodes: T[]) {
+    const names = new Map(nodes.map(node => [node.id, node.name]));
+    return nodes.map(node => ({
+      ...node,
+      parentName: node.parentId !== null ? names.get(node.parentId) ?? null : null
+    }));
+  }
+
+  async withMasterNames(userId: number, items: Item[]): Promise<ItemWithMasters[]> {
+    const [units, stockGroups] = await Promise.all([
+      storage.getUnitsByUserId(userId),
+      storage.getStockGroupsByUserId(userId)
+    ]);
+    const unitSymbols = new Map(units.map(unit => [unit.id, unit.symbol]));
+    const groupNames = new Map(stockGroups.map(group => [group.id, group.name]));
+
+    return items.map(item => ({
+      ...item,
+      unitSymbol: item.unitId !== null ? unitSymbols.get(item.unitId) ?? null : null,
+      stockGroupName: item.stockGroupId !== null ? groupNames.get(item.stockGroupId) ?? null : null
+    }));
+  }
+
+  // Unit and stock group ids on an item must belong to the same company
+  async validateItemMasters(userId: number, item: { unitId?: number | null; stockGroupId?: number | null }) {
+    if (item.unitId && !(await storage.getUnit(userId, item.unitId))) {
+      return "Unit not found";
+    }
+    if (item.stockGroupId && !(await storage.getStockGroup(userId, item.stockGroupId))) {
+      return "Stock group not found";
+    }
+    return null;
+  }
+}
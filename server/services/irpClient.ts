@@ -0,0 +1,159 @@
+import { createHash, createHmac } from 'crypto';
+import { config, type IrpDriver } from '../config';
+import type { EInvoicePayload } from './eInvoiceService';
+
+export interface IrnRegistration {
+  irn: string;
+  ackNumber: string;
+  ackDate: Date;
+  signedQrCode: string;
+}
+
+// Anything that can register an e-invoice with the Invoice Registration Portal
+export interface IrpClient {
+  generateIrn(payload: EInvoicePayload): Promise<IrnRegistration>;
+}
+
+// The IRP (or the GSP relaying to it) rejected the request
+export class IrpError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'IrpError';
+  }
+}
+
+interface IrpResponse<T> {
+  Status: number | string;
+  Data?: T;
+  ErrorDetails?: { ErrorCode: string; ErrorMessage: string }[];
+}
+
+interface IrnResponseData {
+  AckNo: number | string;
+  AckDt: string;
+  Irn: string;
+  SignedQRCode: string;
+}
+
+// Indian financial year of a dd/mm/yyyy date, e.g. 2025-26
+const financialYear = (date: string) => {
+  const [, month, year] = date.split('/').map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String(start + 1).slice(-2)}`;
+};
+
+const base64Url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+// Registers invoices locally, the way the sandbox does, so development and tests need no credentials.
+// The IRN is the SHA-256 of GSTIN, financial year, document type and number, as on the real IRP.
+export class StubIrpClient implements IrpClient {
+  private registered = new Set<string>();
+  private ackCounter = 0;
+
+  constructor(private signingKey = 'stub-irp') {}
+
+  async generateIrn(payload: EInvoicePayload): Promise<IrnRegistration> {
+    const { SellerDtls: seller, BuyerDtls: buyer, DocDtls: document } = payload;
+    const irn = createHash('sha256')
+      .update(`${seller.Gstin}${financialYear(document.Dt)}${document.Typ}${document.No.toUpperCase()}`)
+      .digest('hex');
+
+    if (this.registered.has(irn)) {
+      throw new IrpError('Duplicate IRN', '2150');
+    }
+    this.registered.add(irn);
+
+    const ackDate = new Date();
+    ackDate.setMilliseconds(0);
+    const ackNumber = `1120${String(Date.now()).slice(-8)}${String(++this.ackCounter % 1000).padStart(3, '0')}`;
+
+    // Same claims as the IRP's signed QR code, signed with a local key instead of NIC's
+    const mainItem = payload.ItemList.reduce((main, item) => (item.AssAmt > main.AssAmt ? item : main), payload.ItemList[0]);
+    const claims = {
+      data: JSON.stringify({
+        SellerGstin: seller.Gstin,
+        BuyerGstin: buyer.Gstin,
+        DocNo: document.No,
+        DocTyp: document.Typ,
+        DocDt: document.Dt,
+        TotInvVal: payload.ValDtls.TotInvVal,
+        ItemCnt: payload.ItemList.length,
+        MainHsnCode: mainItem?.HsnCd ?? '',
+        Irn: irn,
+        IrnDt: ackDate.toISOString().replace('T', ' ').slice(0, 19)
+      }),
+      iss: 'NIC Sandbox (stub)'
+    };
+    const unsigned = `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(claims))}`;
+    const signature = base64Url(createHmac('sha256', this.signingKey).update(unsigned).digest());
+
+    return { irn, ackNumber, ackDate, signedQrCode: `${unsigned}.${signature}` };
+  }
+}
+
+// Talks to a GST Suvidha Provider's e-invoice API, which handles the IRP's payload encryption
+export class GspIrpClient implements IrpClient {
+  private authToken: { gstin: string; token: string; expiresAt: number } | null = null;
+
+  constructor(private settings = config.irp) {}
+
+  async generateIrn(payload: EInvoicePayload): Promise<IrnRegistration> {
+    const gstin = payload.SellerDtls.Gstin;
+    const data = await this.request<IrnResponseData>('/eicore/v1.03/Invoice', {
+      gstin,
+      AuthToken: await this.getAuthToken(gstin)
+    }, payload);
+
+    return {
+      irn: data.Irn,
+      ackNumber: String(data.AckNo),
+      // Acknowledgement times are Indian Standard Time
+      ackDate: new Date(`${data.AckDt.replace(' ', 'T')}+05:30`),
+      signedQrCode: data.SignedQRCode
+    };
+  }
+
+  private async getAuthToken(gstin: string) {
+    if (this.authToken && this.authToken.gstin === gstin && this.authToken.expiresAt > Date.now()) {
+      return this.authToken.token;
+    }
+
+    const data = await this.request<{ AuthToken: string; TokenExpiry: string }>('/eivital/v1.04/auth', {
+      gstin,
+      password: this.settings.password
+    });
+    // Renew a few minutes before the token lapses
+    const expiresAt = new Date(`${data.TokenExpiry.replace(' ', 'T')}+05:30`).getTime() - 5 * 60 * 1000;
+    this.authToken = { gstin, token: data.AuthToken, expiresAt };
+    return data.AuthToken;
+  }
+
+  private async request<T>(path: string, headers: Record<string, string>, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.settings.baseUrl}${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        client_id: this.settings.clientId,
+        client_secret: this.settings.clientSecret,
+        user_name: this.settings.username,
+        ...headers
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new IrpError(`IRP request failed with HTTP ${response.status}`);
+    }
+
+    const result = await response.json() as IrpResponse<T>;
+    if (String(result.Status) !== '1' || !result.Data) {
+      const error = result.ErrorDetails?.[0];
+      throw new IrpError(error?.ErrorMessage ?? 'IRP rejected the request', error?.ErrorCode);
+    }
+    return result.Data;
+  }
+}
+
+export function createIrpClient(driver: IrpDriver = config.irpDriver): IrpClient {
+  return driver === 'gsp' ? new GspIrpClient() : new StubIrpClient();
+}
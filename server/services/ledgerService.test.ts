@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { LedgerService } from "./ledgerService";
+
+const ledgerService = new LedgerService();
+
+let companies = 0;
+
+// A company with its chart set up and a voucher moving 100 from capital to cash
+async function setUp() {
+  const user = await storage.createUser({ username: `ledger${++companies}`, password: "secret", companyName: `Company ${companies}` });
+  const chart = await ledgerService.chartOf(user.id);
+  const account = (systemKey: string) => chart.find((found) => found.systemKey === systemKey)!.id;
+  const post = (voucherNumber?: string) => ledgerService.postJournal(user.id, {
+    voucherNumber, entryDate: new Date(),
+    lines: [{ accountId: account("cash"), debit: 100 }, { accountId: account("capital"), credit: 100 }],
+  }, user.id);
+  return { user, post };
+}
+
+describe("LedgerService journal vouchers", () => {
+  it("numbers vouchers posted at the same time in turn", async () => {
+    const { post } = await setUp();
+
+    const posted = await Promise.all([post(), post(), post()]);
+
+    expect(posted.map((entry) => entry.voucherNumber).sort()).toEqual(["JV-1", "JV-2", "JV-3"]);
+  });
+
+  it("numbers after the highest voucher, past gaps and numbers entered by hand", async () => {
+    const { post } = await setUp();
+    await post();
+    await post("JV-7");
+    await post("ADJ/1");
+
+    expect((await post()).voucherNumber).toBe("JV-8");
+    await expect(post("jv-8")).rejects.toThrow("Another journal voucher is already numbered JV-8");
+  });
+});
@@ -0,0 +1,352 @@
+import { storage } from '../storage';
+import { Account, InsertJournalLine, JournalEntry, JournalLine, Transaction } from '@shared/schema';
+import { accountGroups } from '@shared/ledger';
+
+type TransactionType = Transaction['transactionType'];
+
+type PostingLine = Omit<InsertJournalLine, 'journalEntryId'>;
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// The chart every company starts with, named as in Tally. Documents post to these accounts by system key.
+const defaultAccounts: { systemKey: string; name: string; groupName: string }[] = [
+  { systemKey: 'capital', name: 'Capital Account', groupName: 'Capital Account' },
+  { systemKey: 'sundry_debtors', name: 'Sundry Debtors', groupName: 'Sundry Debtors' },
+  { systemKey: 'sundry_creditors', name: 'Sundry Creditors', groupName: 'Sundry Creditors' },
+  { systemKey: 'cash', name: 'Cash', groupName: 'Cash-in-Hand' },
+  { systemKey: 'bank', name: 'Bank Account', groupName: 'Bank Accounts' },
+  { systemKey: 'sales', name: 'Sales', groupName: 'Sales Accounts' },
+  { systemKey: 'purchase', name: 'Purchase', groupName: 'Purchase Accounts' },
+  { systemKey: 'output_cgst', name: 'Output CGST', groupName: 'Duties & Taxes' },
+  { systemKey: 'output_sgst', name: 'Output SGST', groupName: 'Duties & Taxes' },
+  { systemKey: 'output_igst', name: 'Output IGST', groupName: 'Duties & Taxes' },
+  { systemKey: 'output_cess', name: 'Output Cess', groupName: 'Duties & Taxes' },
+  { systemKey: 'input_cgst', name: 'Input CGST', groupName: 'Duties & Taxes' },
+  { systemKey: 'input_sgst', name: 'Input SGST', groupName: 'Duties & Taxes' },
+  { systemKey: 'input_igst', name: 'Input IGST', groupName: 'Duties & Taxes' },
+  { systemKey: 'input_cess', name: 'Input Cess', groupName: 'Duties & Taxes' },
+  { systemKey: 'round_off', name: 'Round Off', groupName: 'Indirect Expenses' },
+];
+
+interface PostingRule {
+  party: 'sundry_debtors' | 'sundry_creditors';
+  partyDebited: boolean;
+  account?: 'sales' | 'purchase'; // Documents with GST; receipts and payments go against cash or bank
+  tax?: 'output' | 'input';
+}
+
+// Documents that post to the ledger. Notes reduce what is owed on the invoice or bill they adjust,
+// so they post the other way round to it.
+export const postingRules: Partial<Record<TransactionType, PostingRule>> = {
+  sales_invoice: { party: 'sundry_debtors', partyDebited: true, account: 'sales', tax: 'output' },
+  debit_note: { party: 'sundry_debtors', partyDebited: false, account: 'sales', tax: 'output' }, // Raised on customers
+  receipt: { party: 'sundry_debtors', partyDebited: false },
+  purchase_bill: { party: 'sundry_creditors', partyDebited: false, account: 'purchase', tax: 'input' },
+  credit_note: { party: 'sundry_creditors', partyDebited: true, account: 'purchase', tax: 'input' }, // Purchase returns
+  payment: { party: 'sundry_creditors', partyDebited: true },
+};
+
+// A journal entry that cannot be posted, or an account that cannot be changed, as asked
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export type JournalEntryWithLines = JournalEntry & { lines: JournalLine[] };
+
+// A journal voucher as entered: each line is a debit or a credit
+export interface JournalVoucher {
+  voucherNumber?: string;
+  entryDate: Date;
+  narration?: string | null;
+  lines: { accountId: number; partyId?: number | null; debit?: number; credit?: number }[];
+}
+
+// An account's closing balance, on the side it falls
+export interface TrialBalanceRow {
+  accountId: number;
+  name: string;
+  groupName: string;
+  nature: string;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  asOf: string | null; // YYYY-MM-DD
+  rows: TrialBalanceRow[];
+  totalDebit: number;
+  totalCredit: number;
+}
+
+// Charts being set up, so requests that arrive together do not each create one
+const chartsInProgress = new Map<number, Promise<void>>();
+
+// Keeps the general ledger. Invoices, bills, receipts, payments and notes post a balanced journal entry
+// when they are saved. Entries are never changed: when a document is edited its entry is reversed as of
+// the entry's own date and the document posted afresh, and when it is cancelled the reversal is dated
+// the day it was cancelled, so the books as of any earlier date stay as they were.
+export class LedgerService {
+  // The company's accounts, creating the standard chart the first time and posting its existing documents to it
+  async chartOf(userId: number): Promise<Account[]> {
+    await chartsInProgress.get(userId);
+    const accounts = await storage.getAccountsByUserId(userId);
+    if (accounts.some((account) => account.systemKey)) return accounts;
+
+    let setup = chartsInProgress.get(userId);
+    if (!setup) {
+      setup = this.createChart(userId).finally(() => chartsInProgress.delete(userId));
+      chartsInProgress.set(userId, setup);
+    }
+    await setup;
+    return storage.getAccountsByUserId(userId);
+  }
+
+  // Brings the ledger in line with the document: reverses what it posted if that no longer matches,
+  // and posts it as it now stands
+  async syncTransaction(userId: number, transaction: Transaction) {
+    await this.post(userId, await this.chartOf(userId), transaction);
+  }
+
+  // Posts a journal voucher entered by hand, numbered JV-1, JV-2 and so on unless given a number
+  async postJournal(userId: number, voucher: JournalVoucher, createdBy: number): Promise<JournalEntryWithLines> {
+    if (voucher.lines.length < 2) {
+      throw new LedgerError('A journal voucher needs at least two lines');
+    }
+    const accounts = new Map((await this.chartOf(userId)).map((account) => [account.id, account]));
+    const lines: PostingLine[] = [];
+    for (const line of voucher.lines) {
+      const account = accounts.get(line.accountId);
+      if (!account) {
+        throw new LedgerError(`Account ${line.accountId} not found`);
+      }
+      if (!account.isActive) {
+        throw new LedgerError(`${account.name} is inactive`);
+      }
+      const debit = round2(line.debit ?? 0);
+      const credit = round2(line.credit ?? 0);
+      if (debit < 0 || credit < 0 || (debit > 0) === (credit > 0)) {
+        throw new LedgerError(`The ${account.name} line must be either a debit or a credit`);
+      }
+      if (line.partyId && !(await storage.getParty(userId, line.partyId))) {
+        throw new LedgerError(`Party ${line.partyId} not found`);
+      }
+      if (!line.partyId && (account.systemKey === 'sundry_debtors' || account.systemKey === 'sundry_creditors')) {
+        throw new LedgerError(`Choose the party for the ${account.name} line`);
+      }
+      lines.push({ accountId: account.id, partyId: line.partyId ?? null, debit: debit.toFixed(2), credit: credit.toFixed(2) });
+    }
+
+    const debits = round2(lines.reduce((sum, line) => sum + parseFloat(line.debit ?? '0'), 0));
+    const credits = round2(lines.reduce((sum, line) => sum + parseFloat(line.credit ?? '0'), 0));
+    if (debits !== credits) {
+      throw new LedgerError(`Debits (${debits.toFixed(2)}) and credits (${credits.toFixed(2)}) must be equal`);
+    }
+
+    const entry = await storage.createJournalVoucher({
+      entryDate: voucher.entryDate,
+      narration: voucher.narration ?? null,
+      createdBy,
+      userId,
+    }, lines, (vouchers) => {
+      // The next number follows the highest JV-n, so numbers entered by hand or gaps are never reused
+      const last = Math.max(0, ...vouchers.map((entry) => Number(/^JV-(\d+)$/i.exec(entry.voucherNumber)?.[1] ?? 0)));
+      const voucherNumber = voucher.voucherNumber?.trim() || `JV-${last + 1}`;
+      const holder = vouchers.find((entry) => entry.voucherNumber.toLowerCase() === voucherNumber.toLowerCase());
+      if (holder) {
+        throw new LedgerError(`Another journal voucher is already numbered ${holder.voucherNumber}`);
+      }
+      return voucherNumber;
+    });
+    return { ...entry, lines: await storage.getJournalLines(userId, [entry.id]) };
+  }
+
+  // Undoes a journal voucher with an entry dated as given. Entries posted from documents follow their
+  // document, so they are undone by editing or cancelling it.
+  async reverseJournal(userId: number, entry: JournalEntry, date: Date, createdBy: number): Promise<JournalEntryWithLines> {
+    if (entry.transactionId !== null) {
+      throw new LedgerError(`${entry.voucherNumber} was posted from a document; edit or cancel the document instead`);
+    }
+    if (entry.reversedEntryId !== null) {
+      throw new LedgerError(`${entry.voucherNumber} is itself a reversal`);
+    }
+    const reversal = (await storage.getJournalEntries(userId)).find((candidate) => candidate.reversedEntryId === entry.id);
+    if (reversal) {
+      throw new LedgerError(`${entry.voucherNumber} is already reversed`);
+    }
+    if (date < entry.entryDate) {
+      throw new LedgerError(`${entry.voucherNumber} cannot be reversed before it was posted`);
+    }
+
+    const reversed = await this.reverse(userId, entry, date, `Reversal of ${entry.voucherNumber}`, createdBy);
+    return { ...reversed, lines: await storage.getJournalLines(userId, [reversed.id]) };
+  }
+
+  // Journal entries with their lines, oldest first
+  async getJournals(userId: number, transactionId?: number): Promise<JournalEntryWithLines[]> {
+    const entries = await storage.getJournalEntries(userId, { transactionId });
+    const lines = await storage.getJournalLines(userId, entries.map((entry) => entry.id));
+    return entries.map((entry) => ({ ...entry, lines: lines.filter((line) => line.journalEntryId === entry.id) }));
+  }
+
+  // Closing balance of every account with postings up to the end of the given day
+  async trialBalance(userId: number, asOf?: Date): Promise<TrialBalance> {
+    const accounts = new Map((await this.chartOf(userId)).map((account) => [account.id, account]));
+    const endOfDay = asOf ? new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate(), 23, 59, 59, 999) : undefined;
+    const rows: TrialBalanceRow[] = [];
+
+    for (const balance of await storage.getAccountBalances(userId, endOfDay)) {
+      const account = accounts.get(balance.accountId);
+      const net = round2(balance.debit - balance.credit);
+      if (!account || net === 0) continue;
+      rows.push({
+        accountId: account.id,
+        name: account.name,
+        groupName: account.groupName,
+        nature: accountGroups[account.groupName] ?? 'asset',
+        debit: net > 0 ? net : 0,
+        credit: net < 0 ? -net : 0,
+      });
+    }
+
+    const groupOrder = Object.keys(accountGroups);
+    rows.sort((a, b) => groupOrder.indexOf(a.groupName) - groupOrder.indexOf(b.groupName) || a.name.localeCompare(b.name));
+    return {
+      asOf: asOf ? asOf.toISOString().slice(0, 10) : null,
+      rows,
+      totalDebit: round2(rows.reduce((sum, row) => sum + row.debit, 0)),
+      totalCredit: round2(rows.reduce((sum, row) => sum + row.credit, 0)),
+    };
+  }
+
+  // Throws unless the account's name is its own, compared without regard to case, and the accounts
+  // documents post to stay in their groups and in use
+  async assertAccountValid(userId: number, account: { name?: string; groupName?: string; isActive?: boolean }, existing?: Account) {
+    const name = account.name?.trim().toLowerCase();
+    const clash = name && (await this.chartOf(userId)).find((candidate) => candidate.id !== existing?.id && candidate.name.toLowerCase() === name);
+    if (clash) {
+      throw new LedgerError(`There is already an account named ${clash.name}`);
+    }
+
+    if (!existing?.systemKey) return;
+    if (account.groupName !== undefined && account.groupName !== existing.groupName) {
+      throw new LedgerError(`Documents post to ${existing.name}, so it stays under ${existing.groupName}`);
+    }
+    if (account.isActive === false) {
+      throw new LedgerError(`Documents post to ${existing.name}, so it cannot be made inactive`);
+    }
+  }
+
+  private async post(userId: number, chart: Account[], transaction: Transaction) {
+    const entries = await storage.getJournalEntries(userId, { transactionId: transaction.id });
+    const reversed = new Set(entries.map((entry) => entry.reversedEntryId));
+    const open = entries.filter((entry) => entry.reversedEntryId === null && !reversed.has(entry.id));
+
+    const lines = this.postingLines(chart, transaction);
+    const entryDate = new Date(transaction.transactionDate ?? transaction.createdAt ?? Date.now());
+    if (open.length === 1 && lines.length > 0) {
+      const [entry] = open;
+      const posted = await storage.getJournalLines(userId, [entry.id]);
+      if (
+        entry.voucherNumber === transaction.transactionNumber &&
+        entry.entryDate.getTime() === entryDate.getTime() &&
+        this.sameLines(posted, lines)
+      ) {
+        return;
+      }
+    }
+
+    for (const entry of open) {
+      const date = transaction.status === 'cancelled' ? transaction.cancelledAt ?? new Date() : entry.entryDate;
+      const narration = transaction.status === 'cancelled'
+        ? `Cancelled: ${transaction.cancellationReason ?? ''}`.trim()
+        : `${entry.voucherNumber} changed`;
+      await this.reverse(userId, entry, date, narration, null);
+    }
+
+    if (lines.length > 0) {
+      await storage.createJournalEntry({
+        voucherNumber: transaction.transactionNumber,
+        entryDate,
+        narration: transaction.notes,
+        transactionId: transaction.id,
+        userId,
+      }, lines);
+    }
+  }
+
+  // The lines a document posts, debits positive before they are split into sides
+  private postingLines(chart: Account[], transaction: Transaction): PostingLine[] {
+    const rule = postingRules[transaction.transactionType];
+    const total = round2(parseFloat(transaction.amount));
+    if (!rule || transaction.status === 'cancelled' || !total) return [];
+
+    const accountId = (systemKey: string) => {
+      const account = chart.find((candidate) => candidate.systemKey === systemKey);
+      if (!account) throw new Error(`The chart of accounts has no ${systemKey} account`);
+      return account.id;
+    };
+    const sign = rule.partyDebited ? 1 : -1;
+    const amounts: { accountId: number; partyId: number | null; amount: number }[] = [
+      { accountId: accountId(rule.party), partyId: transaction.partyId, amount: sign * total },
+    ];
+
+    if (rule.account && rule.tax) {
+      // What the taxes and round-off leave is the taxable value, so the entry always balances
+      let rest = total;
+      for (const component of ['cgst', 'sgst', 'igst', 'cess'] as const) {
+        const amount = round2(parseFloat(transaction[`${component}Amount`] ?? '0'));
+        amounts.push({ accountId: accountId(`${rule.tax}_${component}`), partyId: null, amount: -sign * amount });
+        rest -= amount;
+      }
+      const roundOff = round2(parseFloat(transaction.roundOff ?? '0'));
+      amounts.push({ accountId: accountId('round_off'), partyId: null, amount: -sign * roundOff });
+      amounts.push({ accountId: accountId(rule.account), partyId: null, amount: -sign * round2(rest - roundOff) });
+    } else {
+      const cashOrBank = transaction.paymentMode?.toLowerCase() === 'cash' ? 'cash' : 'bank';
+      amounts.push({ accountId: accountId(cashOrBank), partyId: null, amount: -sign * total });
+    }
+
+    return amounts
+      .filter((line) => round2(line.amount) !== 0)
+      .map((line) => ({
+        accountId: line.accountId,
+        partyId: line.partyId,
+        debit: (line.amount > 0 ? round2(line.amount) : 0).toFixed(2),
+        credit: (line.amount < 0 ? round2(-line.amount) : 0).toFixed(2),
+      }));
+  }
+
+  private sameLines(posted: JournalLine[], lines: PostingLine[]) {
+    const key = (line: Pick<JournalLine, 'accountId' | 'partyId'> & { debit?: string; credit?: string }) =>
+      `${line.accountId}:${line.partyId ?? ''}:${parseFloat(line.debit ?? '0').toFixed(2)}:${parseFloat(line.credit ?? '0').toFixed(2)}`;
+    const postedKeys = posted.map(key).sort();
+    const lineKeys = lines.map((line) => key({ ...line, partyId: line.partyId ?? null })).sort();
+    return postedKeys.length === lineKeys.length && postedKeys.every((posting, index) => posting === lineKeys[index]);
+  }
+
+  private async reverse(userId: number, entry: JournalEntry, date: Date, narration: string, createdBy: number | null) {
+    const lines = await storage.getJournalLines(userId, [entry.id]);
+    return storage.createJournalEntry({
+      voucherNumber: entry.voucherNumber,
+      entryDate: date,
+      narration,
+      transactionId: entry.transactionId,
+      reversedEntryId: entry.id,
+      createdBy,
+      userId,
+    }, lines.map((line) => ({ accountId: line.accountId, partyId: line.partyId, debit: line.credit, credit: line.debit })));
+  }
+
+  private async createChart(userId: number) {
+    for (const account of defaultAccounts) {
+      await storage.createAccount({ ...account, userId });
+    }
+    const chart = await storage.getAccountsByUserId(userId);
+    for (const transaction of await storage.getTransactionsByUserId(userId)) {
+      await this.post(userId, chart, transaction);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { storage } from '../storage';
+import { InsertTransaction, InsertTransactionItem, Transaction } from '@shared/schema';
+import { isNoteType, noteOriginalTypes, returnsGoods } from '@shared/notes';
+
+type NoteHeader = Pick<InsertTransaction, 'transactionType' | 'partyId' | 'linkedTransactionId' | 'noteReason'>;
+
+type NoteLine = Pick<InsertTransactionItem, 'itemId' | 'quantity' | 'sourceItemId'>;
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const typeLabel = (type: string) => type.replace(/_/g, ' ');
+
+// A note that does not fit the invoice or bill it adjusts
+export class NoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoteError';
+  }
+}
+
+// A line of an invoice or bill with how much of it notes have already sent back
+export interface ReturnableLine {
+  lineId: number;
+  itemId: number | null;
+  description: string | null;
+  quantity: number;
+  rate: string;
+  taxRate: string | null;
+  cessRate: string | null;
+  godownId: number | null;
+  returned: number;
+  returnable: number;
+}
+
+// Debit notes adjust sales invoices and credit notes adjust purchase bills. A note names the document it
+// adjusts and the reason the GST return asks for, and each of its lines points at the line it returns
+// or revalues. Returned quantities cannot exceed what was invoiced or billed; the note's amount is
+// applied against the original by PaymentAllocationService and its goods move through StockService.
+export class NoteService {
+  // The original's lines and what is left to return on each; a note being edited does not count against itself
+  async getReturnable(userId: number, original: Transaction, excludeNoteId?: number): Promise<ReturnableLine[]> {
+    const notes = (await storage.getTransactionsByUserId(userId)).filter((document) =>
+      document.linkedTransactionId === original.id &&
+      isNoteType(document.transactionType) &&
+      document.status !== 'cancelled' &&
+      document.id !== excludeNoteId &&
+      returnsGoods(document));
+
+    const returned = new Map<number, number>();
+    for (const note of notes) {
+      for (const line of await storage.getTransactionItemsByTransactionId(userId, note.id)) {
+        if (line.sourceItemId) returned.set(line.sourceItemId, round2((returned.get(line.sourceItemId) ?? 0) + parseFloat(line.quantity)));
+      }
+    }
+
+    return (await storage.getTransactionItemsByTransactionId(userId, original.id)).map((line) => {
+      const quantity = parseFloat(line.quantity);
+      const lineReturned = returned.get(line.id) ?? 0;
+      return {
+        lineId: line.id,
+        itemId: line.itemId,
+        description: line.description,
+        quantity,
+        rate: line.rate,
+        taxRate: line.taxRate,
+        cessRate: line.cessRate,
+        godownId: line.godownId,
+        returned: lineReturned,
+        returnable: Math.max(0, round2(quantity - lineReturned)),
+      };
+    });
+  }
+
+  // Checks a note before it is saved and returns the document it adjusts; other documents pass through
+  async validate(userId: number, note: NoteHeader, lines: NoteLine[], noteId?: number): Promise<Transaction | undefined> {
+    if (!isNoteType(note.transactionType)) return undefined;
+
+    const originalType = noteOriginalTypes[note.transactionType];
+    if (!note.linkedTransactionId) {
+      throw new NoteError(`Choose the ${typeLabel(originalType)} this ${typeLabel(note.transactionType)} adjusts`);
+    }
+    if (!note.noteReason) {
+      throw new NoteError(`Give the reason for the ${typeLabel(note.transactionType)}`);
+    }
+
+    const original = await storage.getTransaction(userId, note.linkedTransactionId);
+    if (!original || original.transactionType !== originalType) {
+      throw new NoteError(`A ${typeLabel(note.transactionType)} adjusts a ${typeLabel(originalType)}`);
+    }
+    if (original.partyId !== (note.partyId ?? null)) {
+      throw new NoteError(`${original.transactionNumber} is for a different party`);
+    }
+    if (original.status === 'draft' || original.status === 'cancelled') {
+      throw new NoteError(`${original.transactionNumber} is ${original.status}`);
+    }
+
+    const returnable = new Map((await this.getReturnable(userId, original, noteId)).map((line) => [line.lineId, line]));
+    const requested = new Map<number, number>();
+    for (const line of lines) {
+      if (!line.sourceItemId) {
+        if (line.itemId) {
+          throw new NoteError(`Every item on the note must be a line of ${original.transactionNumber}`);
+        }
+        continue;
+      }
+      const originalLine = returnable.get(line.sourceItemId);
+      if (!originalLine || (line.itemId ?? null) !== originalLine.itemId) {
+        throw new NoteError(`Line ${line.sourceItemId} is not on ${original.transactionNumber}`);
+      }
+      requested.set(line.sourceItemId, round2((requested.get(line.sourceItemId) ?? 0) + parseFloat(line.quantity)));
+    }
+
+    if (returnsGoods(note)) {
+      for (const [lineId, quantity] of Array.from(requested.entries())) {
+        const originalLine = returnable.get(lineId)!;
+        if (quantity > originalLine.returnable) {
+          throw new NoteError(`Only ${originalLine.returnable} of ${originalLine.description ?? `line ${lineId}`} on ${original.transactionNumber} is left to return`);
+        }
+      }
+    }
+
+    return original;
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { NumberingError, NumberingService } from "./numberingService";
+
+const numberingService = new NumberingService();
+
+let companies = 0;
+const signUp = () => storage.createUser({ username: `numbering${++companies}`, password: "secret", companyName: `Company ${companies}` });
+
+describe("NumberingService", () => {
+  it("only restarts a series each financial year when its numbers name the year", async () => {
+    const user = await signUp();
+
+    await expect(numberingService.assertSeriesValid(user.id, { transactionType: "sales_invoice", prefix: "INV-" })).rejects.toThrow(NumberingError);
+    await expect(numberingService.assertSeriesValid(user.id, { transactionType: "sales_invoice", prefix: "INV-", resetYearly: false })).resolves.toBeUndefined();
+    await expect(numberingService.assertSeriesValid(user.id, { transactionType: "sales_invoice", suffix: "/{FY}" })).resolves.toBeUndefined();
+  });
+
+  it("skips numbers already in use without burning the counter on them", async () => {
+    const user = await signUp();
+    const series = await storage.createNumberingSeries({ transactionType: "receipt", prefix: "R-", padding: 1, resetYearly: false, userId: user.id });
+    for (const number of ["R-1", "R-2", "r-3"]) {
+      await storage.createTransaction({ transactionNumber: number, transactionType: "receipt", amount: "10.00", userId: user.id });
+    }
+
+    expect(await numberingService.assign(user.id, { transactionType: "receipt" })).toBe("R-4");
+    expect(await numberingService.assign(user.id, { transactionType: "receipt", transactionNumber: "R-1" })).toBe("R-5");
+    expect((await storage.getNumberingCounters(user.id, series.id)).map((counter) => counter.lastNumber)).toEqual([5]);
+  });
+
+  it("issues numbers per financial year from a series that restarts", async () => {
+    const user = await signUp();
+    await storage.createNumberingSeries({ transactionType: "sales_invoice", prefix: "INV/{FY}/", padding: 2, userId: user.id });
+
+    const issued = [];
+    for (const date of [new Date(2026, 2, 31), new Date(2026, 3, 1), new Date(2026, 2, 30)]) {
+      const transactionNumber = await numberingService.assign(user.id, { transactionType: "sales_invoice", transactionDate: date });
+      await storage.createTransaction({ transactionNumber, transactionType: "sales_invoice", transactionDate: date, amount: "10.00", userId: user.id });
+      issued.push(transactionNumber);
+    }
+
+    expect(issued).toEqual(["INV/25-26/01", "INV/26-27/01", "INV/25-26/02"]);
+  });
+
+  it("takes nothing from the counter for a number too long to issue", async () => {
+    const user = await signUp();
+    const series = await storage.createNumberingSeries({ transactionType: "payment", prefix: "PAYMENT/{FY}/", padding: 6, userId: user.id });
+
+    await expect(numberingService.assign(user.id, { transactionType: "payment" })).rejects.toThrow(NumberingError);
+    expect(await storage.getNumberingCounters(user.id, series.id)).toEqual([]);
+  });
+
+  it("keeps a typed number only while no document of the type has it", async () => {
+    const user = await signUp();
+    await storage.createTransaction({ transactionNumber: "PO-7", transactionType: "purchase_order", status: "cancelled", amount: "10.00", userId: user.id });
+
+    await expect(numberingService.assign(user.id, { transactionType: "purchase_order", transactionNumber: "po-7" })).rejects.toThrow(/cancelled/);
+    expect(await numberingService.assign(user.id, { transactionType: "purchase_order", transactionNumber: "PO-8" })).toBe("PO-8");
+    await expect(numberingService.assign(user.id, { transactionType: "purchase_order" })).rejects.toThrow(NumberingError);
+  });
+});
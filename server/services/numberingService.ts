@@ -0,0 +1,207 @@
+import { storage } from '../storage';
+import { InsertNumberingSeries, NumberingSeries, Transaction } from '@shared/schema';
+
+// GST allows document numbers of at most 16 characters
+export const maxNumberLength = 16;
+
+const typeLabel = (type: string) => type.replace(/_/g, ' ');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Indian financial year of a date, April to March, e.g. 2025-26
+export const financialYearOf = (date: Date) => {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+// A number that cannot be issued or used, or a series that cannot be set up as given
+export class NumberingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NumberingError';
+  }
+}
+
+type TransactionType = Transaction['transactionType'];
+
+// A series as Settings lists it, with the number its next document would get today
+export type NumberingSeriesSummary = NumberingSeries & { nextNumber: string; issued: boolean };
+
+export interface NextNumber {
+  transactionNumber: string;
+  seriesId: number;
+  branch: string | null;
+  period: string;
+}
+
+// What a new document's number depends on
+interface NumberRequest {
+  transactionType: TransactionType;
+  transactionNumber?: string | null;
+  transactionDate?: Date | null;
+  branch?: string | null;
+}
+
+// Issues document numbers from numbering series. Each document type has a company-wide series and may
+// have one per branch; a branch's documents take its own series when there is one. A series counts per
+// financial year, or runs on when it does not reset, and its counter only moves forward, so the numbers
+// it issues are sequential. Numbers are unique within a document type, cancelled documents included, so
+// a series that restarts each year carries the year in its prefix or suffix.
+export class NumberingService {
+  // The series a branch's documents of a type take: the branch's own, else the company-wide one
+  async seriesFor(userId: number, transactionType: TransactionType, branch: string | null | undefined) {
+    const series = (await storage.getNumberingSeriesByUserId(userId)).filter((candidate) => candidate.transactionType === transactionType);
+    return (branch ? series.find((candidate) => candidate.branch === branch) : undefined)
+      ?? series.find((candidate) => candidate.branch === null);
+  }
+
+  format(series: Pick<NumberingSeries, 'prefix' | 'suffix' | 'padding'>, number: number, date: Date) {
+    const [prefix, suffix] = this.affixes(series, date);
+    return `${prefix}${String(number).padStart(series.padding, '0')}${suffix}`;
+  }
+
+  // Whether a number is in the series' format for the document's date, whatever its running number
+  isSeriesNumber(series: NumberingSeries, number: string, date: Date) {
+    const [prefix, suffix] = this.affixes(series, date);
+    return new RegExp(`^${escapeRegExp(prefix)}\\d+${escapeRegExp(suffix)}$`, 'i').test(number.trim());
+  }
+
+  // The number the next document would be given, without taking it; null when the type has no series
+  async preview(userId: number, transactionType: TransactionType, branch: string | null, date: Date): Promise<NextNumber | null> {
+    const series = await this.seriesFor(userId, transactionType, branch);
+    if (!series) return null;
+
+    return {
+      transactionNumber: await this.nextNumber(userId, series, date),
+      seriesId: series.id,
+      branch: series.branch,
+      period: this.periodOf(series, date),
+    };
+  }
+
+  // Every series, company-wide ones first, with whether it has issued any numbers yet
+  async describe(userId: number): Promise<NumberingSeriesSummary[]> {
+    const today = new Date();
+    const series = (await storage.getNumberingSeriesByUserId(userId))
+      .sort((a, b) => a.transactionType.localeCompare(b.transactionType) || (a.branch ?? '').localeCompare(b.branch ?? ''));
+    return Promise.all(series.map(async (entry) => ({
+      ...entry,
+      nextNumber: await this.nextNumber(userId, entry, today),
+      issued: (await storage.getNumberingCounters(userId, entry.id)).length > 0,
+    })));
+  }
+
+  // Numbers a new document, just before it is saved. A blank number, or one in the format of the
+  // document's series (such as the one the form was filled in with), is issued by the series then and
+  // there, so two documents saved at once never share one. Any other number is kept once it is checked.
+  async assign(userId: number, document: NumberRequest): Promise<string> {
+    const date = document.transactionDate ?? new Date();
+    const typed = document.transactionNumber?.trim() ?? '';
+    const series = await this.seriesFor(userId, document.transactionType, document.branch);
+
+    if (series && (!typed || this.isSeriesNumber(series, typed, date))) {
+      const period = this.periodOf(series, date);
+      // Numbers typed in by hand or pulled from Tally may already hold some of the series' numbers; the
+      // counter skips straight past them, and only moves again when a document saved meanwhile took the number
+      for (let attempt = 0; attempt < 10; attempt++) {
+        const taken = await this.takenNumbers(userId, document.transactionType);
+        const free = await this.firstFree(userId, series, period, date, taken);
+        this.assertLength(series, free, date);
+        const issued = await storage.takeSeriesNumber(userId, series.id, period, free);
+        this.assertLength(series, issued, date);
+        const number = this.format(series, issued, date);
+        if (!(await this.findHolder(userId, document.transactionType, number))) return number;
+      }
+      throw new NumberingError(`The ${typeLabel(document.transactionType)} series is busy; save again`);
+    }
+
+    if (!typed) {
+      throw new NumberingError(`Enter a number; there is no numbering series for ${typeLabel(document.transactionType)}s`);
+    }
+    await this.assertAvailable(userId, document.transactionType, typed);
+    return typed;
+  }
+
+  // The document of the type that already has the number, compared without regard to case
+  async findHolder(userId: number, transactionType: TransactionType, transactionNumber: string, exceptId?: number) {
+    const number = transactionNumber.trim().toLowerCase();
+    return (await storage.getTransactionsByType(userId, transactionType)).find((document) =>
+      document.id !== exceptId && document.transactionNumber.trim().toLowerCase() === number);
+  }
+
+  // Throws unless the number fits GST's length and no other document of the type has it. The number
+  // of a cancelled document stays taken by it.
+  async assertAvailable(userId: number, transactionType: TransactionType, transactionNumber: string, exceptId?: number) {
+    if (!transactionNumber.trim()) {
+      throw new NumberingError(`Enter a number for the ${typeLabel(transactionType)}`);
+    }
+    if (transactionNumber.trim().length > maxNumberLength) {
+      throw new NumberingError(`${transactionNumber.trim()} is longer than the ${maxNumberLength} characters GST allows`);
+    }
+    const holder = await this.findHolder(userId, transactionType, transactionNumber, exceptId);
+    if (holder?.status === 'cancelled') {
+      throw new NumberingError(`${holder.transactionNumber} belongs to a cancelled ${typeLabel(transactionType)} and cannot be used again`);
+    }
+    if (holder) {
+      throw new NumberingError(`Another ${typeLabel(transactionType)} is already numbered ${holder.transactionNumber}`);
+    }
+  }
+
+  // Throws unless the series is the only one for its type and branch, its numbers fit GST's length and,
+  // when it restarts each financial year, they name the year
+  async assertSeriesValid(userId: number, series: Omit<InsertNumberingSeries, 'userId'>, exceptId?: number) {
+    const clash = (await storage.getNumberingSeriesByUserId(userId)).find((existing) =>
+      existing.id !== exceptId &&
+      existing.transactionType === series.transactionType &&
+      existing.branch === (series.branch ?? null)
+    );
+    if (clash) {
+      const owner = series.branch ? `branch ${series.branch}` : 'the whole company';
+      throw new NumberingError(`There is already a ${typeLabel(series.transactionType)} series for ${owner}`);
+    }
+
+    if ((series.resetYearly ?? true) && !`${series.prefix ?? ''}${series.suffix ?? ''}`.includes('{FY}')) {
+      throw new NumberingError(`Put {FY} in the prefix or suffix of a series that restarts every financial year, or each April it would repeat last year's numbers`);
+    }
+
+    const sample = this.format({ prefix: series.prefix ?? '', suffix: series.suffix ?? '', padding: series.padding ?? 4 }, series.startNumber ?? 1, new Date());
+    if (sample.length > maxNumberLength) {
+      throw new NumberingError(`Numbers such as ${sample} are longer than the ${maxNumberLength} characters GST allows`);
+    }
+  }
+
+  private assertLength(series: NumberingSeries, number: number, date: Date) {
+    const formatted = this.format(series, number, date);
+    if (formatted.length > maxNumberLength) {
+      throw new NumberingError(`${formatted} is longer than ${maxNumberLength} characters; shorten the ${typeLabel(series.transactionType)} series' prefix or suffix`);
+    }
+  }
+
+  // The prefix and suffix with {FY} replaced by the financial year of the date, e.g. 25-26
+  private affixes(series: Pick<NumberingSeries, 'prefix' | 'suffix'>, date: Date) {
+    const year = financialYearOf(date).slice(2);
+    return [series.prefix, series.suffix].map((text) => text.replace(/\{FY\}/g, year));
+  }
+
+  private async nextNumber(userId: number, series: NumberingSeries, date: Date) {
+    const taken = await this.takenNumbers(userId, series.transactionType);
+    return this.format(series, await this.firstFree(userId, series, this.periodOf(series, date), date, taken), date);
+  }
+
+  // The first running number past the period's counter whose number no document has
+  private async firstFree(userId: number, series: NumberingSeries, period: string, date: Date, taken: Set<string>) {
+    const counter = (await storage.getNumberingCounters(userId, series.id)).find((candidate) => candidate.period === period);
+    let next = counter ? Math.max(counter.lastNumber + 1, series.startNumber) : series.startNumber;
+    while (taken.has(this.format(series, next, date).toLowerCase())) next++;
+    return next;
+  }
+
+  private periodOf(series: NumberingSeries, date: Date) {
+    return series.resetYearly ? financialYearOf(date) : 'all';
+  }
+
+  private async takenNumbers(userId: number, transactionType: TransactionType) {
+    return new Set((await storage.getTransactionsByType(userId, transactionType))
+      .map((document) => document.transactionNumber.trim().toLowerCase()));
+  }
+}
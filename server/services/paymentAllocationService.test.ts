@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { PaymentAllocationService } from "./paymentAllocationService";
+
+const paymentAllocationService = new PaymentAllocationService();
+
+let companies = 0;
+
+// A company with a customer, two invoices of 100 and a receipt of 100 from them
+async function setUp() {
+  const user = await storage.createUser({ username: `allocation${++companies}`, password: "secret", companyName: `Company ${companies}` });
+  const customer = await storage.createParty({ name: "Buyer", type: "customer", userId: user.id });
+  const document = (transactionNumber: string, transactionType: string) => storage.createTransaction({
+    transactionNumber, transactionType, partyId: customer.id, amount: "100.00", balanceDue: "100.00", status: "pending", userId: user.id,
+  });
+  const [first, second, receipt] = await Promise.all([document("INV-1", "sales_invoice"), document("INV-2", "sales_invoice"), document("RCPT-1", "receipt")]);
+  return { user, first, second, receipt };
+}
+
+describe("PaymentAllocationService", () => {
+  it("lets only one of two allocations saved at once spend the same receipt", async () => {
+    const { user, first, second, receipt } = await setUp();
+
+    const results = await Promise.allSettled([
+      paymentAllocationService.allocate(user.id, receipt, [{ documentId: first.id, amount: 100 }]),
+      paymentAllocationService.allocate(user.id, receipt, [{ documentId: second.id, amount: 100 }]),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe("RCPT-1 has only 0.00 left to allocate");
+    expect((await paymentAllocationService.getAllocations(user.id, receipt)).allocated).toBe(100);
+    expect((await storage.getTransaction(user.id, second.id))?.status).toBe("pending");
+  });
+
+  it("does not settle a document twice over from receipts saved at once", async () => {
+    const { user, first, receipt } = await setUp();
+    const other = await storage.createTransaction({
+      transactionNumber: "RCPT-2", transactionType: "receipt", partyId: first.partyId, amount: "100.00", status: "pending", userId: user.id,
+    });
+
+    const results = await Promise.allSettled([receipt, other].map((payment) =>
+      paymentAllocationService.allocate(user.id, payment, [{ documentId: first.id, amount: 80 }])));
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe("INV-1 has 20.00 left to settle");
+    expect(Number((await storage.getTransaction(user.id, first.id))?.balanceDue)).toBe(20);
+  });
+});
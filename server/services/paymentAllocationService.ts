@@ -0,0 +1,306 @@
+import { storage } from '../storage';
+import { PaymentAllocation, Transaction } from '@shared/schema';
+import { BillMatchService } from './billMatchService';
+import { BnplService } from './bnplService';
+import { isNoteType, noteOriginalTypes } from '@shared/notes';
+
+// What a receipt, payment or note can be applied against. A note adjusts the invoice or bill it was raised on.
+export const allocationTargets: Record<string, string[]> = {
+  receipt: ['sales_invoice'],
+  payment: ['purchase_bill'],
+  debit_note: [noteOriginalTypes.debit_note],
+  credit_note: [noteOriginalTypes.credit_note],
+};
+
+// Documents that cannot be settled yet, or any more
+const closedStatuses: string[] = ['draft', 'cancelled'];
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const typeLabel = (type: string) => type.replace(/_/g, ' ');
+
+// An allocation the receipt, payment or document does not allow
+export class AllocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AllocationError';
+  }
+}
+
+type AllocationDocument = Pick<Transaction,
+  'id' | 'transactionNumber' | 'transactionType' | 'transactionDate' | 'dueDate' | 'amount' | 'balanceDue' | 'status'>;
+
+// An allocation with the document on its other side: the invoice or bill for a receipt or payment, and the other way round
+export type AllocationWithCounterpart = PaymentAllocation & { counterpart: AllocationDocument | null };
+
+export interface TransactionAllocations {
+  allocations: AllocationWithCounterpart[];
+  allocated: number;
+  unallocated: number | null; // Left on account; only for receipts, payments and notes
+}
+
+// A party's receipts or payments with money left on account, and its documents still owed
+export interface OpenItems {
+  payments: (AllocationDocument & { unallocated: number })[];
+  documents: AllocationDocument[];
+}
+
+export interface AllocationRequest {
+  documentId: number;
+  amount: number;
+}
+
+const allocationDocument = ({ id, transactionNumber, transactionType, transactionDate, dueDate, amount, balanceDue, status }: Transaction): AllocationDocument =>
+  ({ id, transactionNumber, transactionType, transactionDate, dueDate, amount, balanceDue, status });
+
+// Oldest first: by due date, falling back to the document date
+const dueTime = (document: Transaction) => (document.dueDate ?? document.transactionDate)?.getTime() ?? 0;
+
+// Applies receipts, payments and notes against invoices and bills. An invoice or bill owes its amount less
+// everything allocated to it, and its status follows; whatever a receipt or payment has not
+// allocated stays on account with the party until it is applied. A note is fully or partially
+// adjusted as far as it has been applied.
+export class PaymentAllocationService {
+  private billMatchService = new BillMatchService();
+  private bnplService = new BnplService();
+
+  // Receipts, payments and notes settle other documents
+  isSettling(transaction: { transactionType: string }) {
+    return transaction.transactionType in allocationTargets;
+  }
+
+  async getAllocations(userId: number, transaction: Transaction): Promise<TransactionAllocations> {
+    const settling = this.isSettling(transaction);
+    const allocations = (await storage.getPaymentAllocationsByTransactionId(userId, transaction.id))
+      .filter((allocation) => (settling ? allocation.paymentId : allocation.documentId) === transaction.id);
+
+    const withCounterparts: AllocationWithCounterpart[] = [];
+    for (const allocation of allocations) {
+      const counterpart = await storage.getTransaction(userId, settling ? allocation.documentId : allocation.paymentId);
+      withCounterparts.push({ ...allocation, counterpart: counterpart ? allocationDocument(counterpart) : null });
+    }
+
+    const allocated = round2(allocations.reduce((sum, allocation) => sum + parseFloat(allocation.amount), 0));
+    return {
+      allocations: withCounterparts,
+      allocated,
+      unallocated: settling ? round2(parseFloat(transaction.amount) - allocated) : null,
+    };
+  }
+
+  async getOpenItems(userId: number, partyId: number): Promise<OpenItems> {
+    const transactions = (await storage.getTransactionsByPartyId(userId, partyId))
+      .filter((transaction) => !closedStatuses.includes(transaction.status ?? ''));
+    const targetTypes = Object.values(allocationTargets).flat();
+
+    const payments: OpenItems['payments'] = [];
+    for (const payment of transactions.filter((transaction) => this.isSettling(transaction))) {
+      const { unallocated } = await this.getAllocations(userId, payment);
+      if (unallocated! > 0) payments.push({ ...allocationDocument(payment), unallocated: unallocated! });
+    }
+
+    const documents = transactions
+      .filter((transaction) => targetTypes.includes(transaction.transactionType) && this.balanceOf(transaction) > 0)
+      .sort((a, b) => dueTime(a) - dueTime(b) || a.id - b.id)
+      .map(allocationDocument);
+
+    return { payments, documents };
+  }
+
+  // Applies a receipt or payment against the documents given, all or nothing. The checks run on the
+  // payment and documents as storage locks them, so allocations saved at the same time cannot overdraw either.
+  async allocate(userId: number, payment: Transaction, requests: AllocationRequest[]) {
+    this.assertOpen(payment);
+    await storage.savePaymentAllocations(userId, payment.id, {
+      allocations: requests.map(({ documentId, amount }) => ({ documentId, amount: round2(amount).toFixed(2) })),
+      check: (locked, documents, allocations) => this.assertRequests(locked, documents, allocations, requests),
+    });
+
+    for (const documentId of Array.from(new Set(requests.map((request) => request.documentId)))) {
+      await this.refreshBalance(userId, documentId);
+    }
+    await this.refreshAdjustment(userId, payment.id);
+    return this.getAllocations(userId, payment);
+  }
+
+  // Applies what is left of a receipt or payment to the party's oldest open documents first.
+  // Bills held for a three-way match mismatch are passed over.
+  async autoAllocate(userId: number, payment: Transaction) {
+    const left = await this.unallocatedOf(userId, payment);
+    if (left <= 0) {
+      throw new AllocationError(`${payment.transactionNumber} is already fully allocated`);
+    }
+    if (!payment.partyId) {
+      throw new AllocationError(`${payment.transactionNumber} has no party to allocate against`);
+    }
+
+    const { documents } = await this.getOpenItems(userId, payment.partyId);
+    const requests: AllocationRequest[] = [];
+    let remaining = left;
+    for (const document of documents) {
+      if (remaining <= 0) break;
+      if (!allocationTargets[payment.transactionType].includes(document.transactionType)) continue;
+      const full = await storage.getTransaction(userId, document.id);
+      if (!full || full.matchStatus === 'mismatched') continue;
+
+      const amount = Math.min(remaining, this.balanceOf(full));
+      requests.push({ documentId: document.id, amount });
+      remaining = round2(remaining - amount);
+    }
+
+    if (requests.length === 0) {
+      throw new AllocationError(`No open ${allocationTargets[payment.transactionType].map(typeLabel).join(' or ')} to allocate ${payment.transactionNumber} against`);
+    }
+    return this.allocate(userId, payment, requests);
+  }
+
+  async removeAllocation(userId: number, allocation: PaymentAllocation) {
+    await storage.deletePaymentAllocation(userId, allocation.id);
+    await this.refreshBalance(userId, allocation.documentId);
+    await this.refreshAdjustment(userId, allocation.paymentId);
+  }
+
+  // Undoes every allocation made by or against a document, as when it is cancelled or relinked.
+  // A cancelled receipt, payment or note frees its documents; a cancelled document puts its money back on account.
+  async release(userId: number, transaction: Transaction) {
+    for (const allocation of await storage.getPaymentAllocationsByTransactionId(userId, transaction.id)) {
+      await storage.deletePaymentAllocation(userId, allocation.id);
+      if (allocation.documentId !== transaction.id) {
+        await this.refreshBalance(userId, allocation.documentId);
+      } else {
+        await this.refreshAdjustment(userId, allocation.paymentId);
+      }
+    }
+    await this.refreshAdjustment(userId, transaction.id);
+  }
+
+  // A receipt, payment or note raised against an invoice or bill settles it as far as it goes
+  async allocateToLinked(userId: number, payment: Transaction) {
+    if (!this.isSettling(payment) || !payment.linkedTransactionId) return;
+    const document = await storage.getTransaction(userId, payment.linkedTransactionId);
+    if (!document) return;
+    const amount = Math.min(parseFloat(payment.amount), this.balanceOf(document));
+    if (amount > 0) {
+      await this.allocate(userId, payment, [{ documentId: document.id, amount }]);
+    }
+  }
+
+  // After an invoice or bill is edited, works out again what it owes if anything is allocated to it
+  async syncDocument(userId: number, document: Transaction) {
+    if ((await storage.getPaymentAllocationsByTransactionId(userId, document.id)).some((allocation) => allocation.documentId === document.id)) {
+      await this.refreshBalance(userId, document.id);
+    }
+  }
+
+  // Stops a receipt or payment being cut below what it has already allocated
+  async assertCovers(userId: number, payment: Transaction, amount: number) {
+    const { allocated } = await this.getAllocations(userId, payment);
+    if (amount < allocated) {
+      throw new AllocationError(`${payment.transactionNumber} has ${allocated.toFixed(2)} allocated; remove allocations before lowering it`);
+    }
+  }
+
+  // Sets what a document still owes from its amount and allocations, and marks it paid or partly paid.
+  // What it no longer owes is given back to the BNPL limit it drew on.
+  async refreshBalance(userId: number, documentId: number) {
+    const document = await storage.getTransaction(userId, documentId);
+    if (!document || document.status === 'cancelled') return;
+
+    const { allocated } = await this.getAllocations(userId, document);
+    const balanceDue = Math.max(0, round2(parseFloat(document.amount) - allocated));
+
+    let status = document.status;
+    if (allocated > 0) {
+      status = balanceDue <= 0 ? 'paid' : 'partially_paid';
+    } else if (status === 'paid' || status === 'partially_paid') {
+      status = document.dueDate && document.dueDate < new Date() ? 'overdue' : 'pending';
+    }
+
+    if (status !== document.status || document.balanceDue === null || parseFloat(document.balanceDue) !== balanceDue) {
+      await this.bnplService.syncTransaction(userId, await storage.updateTransaction(userId, documentId, { balanceDue: balanceDue.toFixed(2), status }));
+    }
+  }
+
+  // Throws unless the receipt, payment or note, saved or about to be, can settle the document.
+  // Returns against a bill held for a mismatch need no approval; only paying it does.
+  assertAllocatable(payment: { transactionType: string; partyId?: number | null }, document: Transaction) {
+    if (!allocationTargets[payment.transactionType].includes(document.transactionType)) {
+      throw new AllocationError(`A ${typeLabel(payment.transactionType)} cannot be allocated to a ${typeLabel(document.transactionType)}`);
+    }
+    if (document.partyId !== (payment.partyId ?? null)) {
+      throw new AllocationError(`${document.transactionNumber} is for a different party`);
+    }
+    if (closedStatuses.includes(document.status ?? '')) {
+      throw new AllocationError(`${document.transactionNumber} is ${document.status}`);
+    }
+    if (document.transactionType === 'purchase_bill' && !isNoteType(payment.transactionType)) {
+      this.billMatchService.assertPayable(document);
+    }
+  }
+
+  private async unallocatedOf(userId: number, payment: Transaction) {
+    this.assertOpen(payment);
+    return (await this.getAllocations(userId, payment)).unallocated!;
+  }
+
+  private assertOpen(payment: Transaction) {
+    if (!this.isSettling(payment)) {
+      throw new AllocationError('Only receipts, payments and notes can be allocated');
+    }
+    if (payment.status === 'cancelled') {
+      throw new AllocationError(`${payment.transactionNumber} is cancelled`);
+    }
+  }
+
+  // Throws unless the payment has enough left for every request and no document is settled beyond what it owes
+  private assertRequests(payment: Transaction, documents: Transaction[], allocations: PaymentAllocation[], requests: AllocationRequest[]) {
+    this.assertOpen(payment);
+    const sum = (list: PaymentAllocation[]) => round2(list.reduce((total, allocation) => total + parseFloat(allocation.amount), 0));
+    let left = round2(parseFloat(payment.amount) - sum(allocations.filter((allocation) => allocation.paymentId === payment.id)));
+    const requested = new Map<number, number>();
+
+    for (const { documentId, amount } of requests) {
+      const document = documents.find((candidate) => candidate.id === documentId);
+      if (!document) {
+        throw new AllocationError(`Document ${documentId} not found`);
+      }
+      this.assertAllocatable(payment, document);
+
+      // What is already allocated decides, as the saved balance may not have caught up with it yet
+      const against = allocations.filter((allocation) => allocation.documentId === documentId);
+      const balance = against.length > 0 ? Math.max(0, round2(parseFloat(document.amount) - sum(against))) : this.balanceOf(document);
+      const total = round2((requested.get(documentId) ?? 0) + amount);
+      if (amount <= 0 || total > balance) {
+        throw new AllocationError(`${document.transactionNumber} has ${balance.toFixed(2)} left to settle`);
+      }
+      if (amount > left) {
+        throw new AllocationError(`${payment.transactionNumber} has only ${left.toFixed(2)} left to allocate`);
+      }
+      requested.set(documentId, total);
+      left = round2(left - amount);
+    }
+  }
+
+  // A note is fully adjusted once all of it has been applied, partially while some is left on account
+  private async refreshAdjustment(userId: number, noteId: number) {
+    const note = await storage.getTransaction(userId, noteId);
+    if (!note || !isNoteType(note.transactionType) || closedStatuses.includes(note.status ?? '')) return;
+
+    const { allocated, unallocated } = await this.getAllocations(userId, note);
+    let status = note.status;
+    if (allocated > 0) {
+      status = unallocated! <= 0 ? 'fully_adjusted' : 'partially_adjusted';
+    } else if (status === 'fully_adjusted' || status === 'partially_adjusted') {
+      status = 'pending';
+    }
+
+    if (status !== note.status) {
+      await storage.updateTransaction(userId, noteId, { status });
+    }
+  }
+
+  // What a document still owes; documents saved without a balance owe their amount
+  private balanceOf(document: Transaction) {
+    return parseFloat(document.balanceDue ?? document.amount);
+  }
+}
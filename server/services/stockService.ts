@@ -0,0 +1,150 @@
+import { storage } from '../storage';
+import { Item, StockMovement, Transaction } from '@shared/schema';
+import { isNoteType, returnsGoods } from '@shared/notes';
+
+// Document types that move stock, and the direction they move it in
+export const stockDirections: Partial<Record<Transaction['transactionType'], 1 | -1>> = {
+  grn: 1,
+  purchase_bill: 1,
+  sales_return: 1,
+  delivery_note: -1,
+  sales_invoice: -1,
+  debit_note: 1, // Goods a customer sends back against an invoice
+  credit_note: -1, // Purchase returns are raised as credit notes
+};
+
+// Documents whose goods were already moved by the document they are linked to
+const linkedStockDocuments: Partial<Record<Transaction['transactionType'], Transaction['transactionType']>> = {
+  sales_invoice: 'delivery_note',
+  purchase_bill: 'grn',
+};
+
+const salesMovementTypes: string[] = ['delivery_note', 'sales_invoice', 'sales_return', 'debit_note'];
+
+export interface ItemStock {
+  quantityInStock: number;
+  quantitySold: number;
+  salesValue: number;
+}
+
+export class StockService {
+  // Movements that have not been undone by a later reversal
+  private openMovements(movements: StockMovement[]) {
+    const reversed = new Set(movements.map(movement => movement.reversedMovementId));
+    return movements.filter(movement => movement.reversedMovementId === null && !reversed.has(movement.id));
+  }
+
+  private async shouldPost(userId: number, transaction: Transaction) {
+    if (!stockDirections[transaction.transactionType] || transaction.status === 'cancelled') {
+      return false;
+    }
+
+    // A note that only revalues the original moves nothing
+    if (isNoteType(transaction.transactionType) && !returnsGoods(transaction)) {
+      return false;
+    }
+
+    // An invoice raised against a delivery note, or a bill raised against a GRN,
+    // must not move the same goods twice
+    const movedBy = linkedStockDocuments[transaction.transactionType];
+    if (movedBy && transaction.linkedTransactionId) {
+      const linked = await storage.getTransaction(userId, transaction.linkedTransactionId);
+      if (linked?.transactionType === movedBy) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // Brings the ledger in line with the document: posts it if it should move stock, reverses it if not
+  async syncTransaction(userId: number, transaction: Transaction) {
+    const open = this.openMovements(await storage.getStockMovementsByTransactionId(userId, transaction.id));
+    const post = await this.shouldPost(userId, transaction);
+
+    if (post && open.length === 0) {
+      await this.post(userId, transaction);
+    } else if (!post && open.length > 0) {
+      await this.reverse(userId, open);
+    }
+  }
+
+  // Used when a document's lines change: undo what was posted and post the lines again
+  async repostTransaction(userId: number, transaction: Transaction) {
+    const open = this.openMovements(await storage.getStockMovementsByTransactionId(userId, transaction.id));
+    await this.reverse(userId, open);
+
+    if (await this.shouldPost(userId, transaction)) {
+      await this.post(userId, transaction);
+    }
+  }
+
+  private async post(userId: number, transaction: Transaction) {
+    const direction = stockDirections[transaction.transactionType]!;
+    const lines = await storage.getTransactionItemsByTransactionId(userId, transaction.id);
+
+    for (const line of lines) {
+      if (!line.itemId) {
+        continue;
+      }
+
+      await storage.createStockMovement({
+        itemId: line.itemId,
+        godownId: line.godownId,
+        transactionId: transaction.id,
+        transactionItemId: line.id,
+        movementType: transaction.transactionType,
+        movementDate: transaction.transactionDate ?? new Date(),
+        quantity: (direction * parseFloat(line.quantity)).toFixed(3),
+        rate: line.rate,
+        userId
+      });
+    }
+  }
+
+  // Reversals are dated when they happen so earlier as-of reports are unchanged
+  private async reverse(userId: number, movements: StockMovement[]) {
+    for (const movement of movements) {
+      await storage.createStockMovement({
+        itemId: movement.itemId,
+        godownId: movement.godownId,
+        transactionId: movement.transactionId,
+        transactionItemId: movement.transactionItemId,
+        movementType: movement.movementType,
+        movementDate: new Date(),
+        quantity: (-parseFloat(movement.quantity)).toFixed(3),
+        rate: movement.rate,
+        reversedMovementId: movement.id,
+        userId
+      });
+    }
+  }
+
+  // Stock on hand (opening stock plus the ledger), quantity sold and sales value per item
+  async getItemStock(userId: number, items: Item[]): Promise<Map<number, ItemStock>> {
+    const stock = new Map<number, ItemStock>(
+      items.map(item => [item.id, {
+        quantityInStock: parseFloat(item.openingStock || '0'),
+        quantitySold: 0,
+        salesValue: 0
+      }])
+    );
+
+    for (const movement of await storage.getStockMovements(userId)) {
+      const itemStock = stock.get(movement.itemId);
+      if (!itemStock) {
+        continue;
+      }
+
+      const quantity = parseFloat(movement.quantity);
+      itemStock.quantityInStock += quantity;
+
+      if (salesMovementTypes.includes(movement.movementType)) {
+        itemStock.quantitySold -= quantity;
+        itemStock.salesValue -= quantity * parseFloat(movement.rate);
+      }
+    }
+
+    return stock;
+  }
+}
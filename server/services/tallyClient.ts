@@ -0,0 +1,302 @@
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { config } from '../config';
+
+// A ledger line on a voucher. Amounts use Tally's signs: debits negative, credits positive.
+export interface TallyLedgerEntry {
+  ledgerName: string;
+  amount: number;
+}
+
+// A stock item line on an item invoice, accounted in a sales or purchase ledger.
+// The amount has the sign of that ledger's entry.
+export interface TallyInventoryEntry {
+  stockItemName: string;
+  ledgerName: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+export interface TallyVoucher {
+  guid: string; // Sent as REMOTEID, which Tally keeps as the voucher's GUID
+  date: Date;
+  voucherType: string;
+  voucherNumber: string;
+  partyLedgerName: string;
+  reference?: string | null;
+  narration?: string | null;
+  entries: TallyLedgerEntry[];
+  inventoryEntries?: TallyInventoryEntry[];
+  cancelled?: boolean; // Only read back from Tally
+}
+
+export interface TallyLedger {
+  guid: string;
+  name: string;
+  parent: string;
+  gstin: string | null;
+  address: string | null;
+  state: string | null;
+  pincode: string | null;
+}
+
+// A stock item or voucher type, for suggesting mappings
+export interface TallyMasterName {
+  name: string;
+  parent: string;
+}
+
+// Tally's counts for one import request, plus the messages of the lines it rejected
+export interface TallyImportResult {
+  created: number;
+  altered: number;
+  cancelled: number;
+  ignored: number;
+  errors: number;
+  lineErrors: string[];
+}
+
+// Tally could not be reached, or did not understand the request
+export class TallyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TallyError';
+  }
+}
+
+export type TallyVoucherAction = 'Create' | 'Alter' | 'Cancel';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  // Voucher numbers like 001 must stay strings
+  parseTagValue: false,
+  isArray: (name) => [
+    'LEDGER', 'STOCKITEM', 'VOUCHERTYPE', 'VOUCHER', 'ALLLEDGERENTRIES.LIST', 'LEDGERENTRIES.LIST', 'ADDRESS', 'LINEERROR',
+  ].includes(name),
+});
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  format: true,
+});
+
+type XmlNode = Record<string, any>;
+
+// Tally tags its values with a TYPE attribute, so a value may come back as { '#text': ... }
+const text = (value: unknown): string => {
+  if (value == null) return '';
+  if (typeof value === 'object') return text((value as XmlNode)['#text']);
+  return String(value).trim();
+};
+
+// Finds the first element with the given tag anywhere below a node
+const findNode = (node: unknown, tag: string): XmlNode | undefined => {
+  if (!node || typeof node !== 'object') return undefined;
+  if (tag in (node as XmlNode)) return (node as XmlNode)[tag];
+  for (const child of Object.values(node as XmlNode)) {
+    const found = findNode(child, tag);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+};
+
+const tallyDate = (date: Date) =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+const parseTallyDate = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+// Talks to Tally's XML interface over HTTP, the way Tally's own ODBC/XML integrations do
+export class TallyClient {
+  constructor(private url: string, private companyName?: string | null, private timeoutMs = config.tallyTimeoutMs) {}
+
+  // Tally answers a plain GET with "TallyPrime Server is Running"
+  async ping(): Promise<string> {
+    const response = await this.send('GET');
+    if (!/is running/i.test(response)) {
+      throw new TallyError(`Unexpected answer from ${this.url}; is this Tally's XML port?`);
+    }
+    return response.replace(/<[^>]+>/g, '').trim();
+  }
+
+  // Posts one voucher per request so every result belongs to a single voucher
+  async importVoucher(voucher: TallyVoucher, action: TallyVoucherAction = 'Create'): Promise<TallyImportResult> {
+    const partyEntry = voucher.entries.find((entry) => entry.ledgerName === voucher.partyLedgerName);
+    const inventoryEntries = voucher.inventoryEntries ?? [];
+    const body = this.envelope('Import Data', {
+      IMPORTDATA: {
+        REQUESTDESC: { REPORTNAME: 'Vouchers', STATICVARIABLES: this.staticVariables() },
+        REQUESTDATA: {
+          TALLYMESSAGE: {
+            '@_xmlns:UDF': 'TallyUDF',
+            VOUCHER: {
+              '@_REMOTEID': voucher.guid,
+              '@_VCHTYPE': voucher.voucherType,
+              '@_ACTION': action,
+              DATE: tallyDate(voucher.date),
+              VOUCHERTYPENAME: voucher.voucherType,
+              VOUCHERNUMBER: voucher.voucherNumber,
+              PARTYLEDGERNAME: voucher.partyLedgerName,
+              ...(voucher.reference ? { REFERENCE: voucher.reference } : {}),
+              ...(voucher.narration ? { NARRATION: voucher.narration } : {}),
+              ISINVOICE: inventoryEntries.length > 0 ? 'Yes' : 'No',
+              PERSISTEDVIEW: inventoryEntries.length > 0 ? 'Invoice Voucher View' : 'Accounting Voucher View',
+              'ALLLEDGERENTRIES.LIST': voucher.entries.map((entry) => ({
+                LEDGERNAME: entry.ledgerName,
+                ISDEEMEDPOSITIVE: entry.amount < 0 ? 'Yes' : 'No',
+                ISPARTYLEDGER: entry === partyEntry ? 'Yes' : 'No',
+                AMOUNT: entry.amount.toFixed(2),
+              })),
+              ...(inventoryEntries.length > 0 ? {
+                'ALLINVENTORYENTRIES.LIST': inventoryEntries.map((entry) => ({
+                  STOCKITEMNAME: entry.stockItemName,
+                  ISDEEMEDPOSITIVE: entry.amount < 0 ? 'Yes' : 'No',
+                  RATE: entry.rate.toFixed(2),
+                  AMOUNT: entry.amount.toFixed(2),
+                  ACTUALQTY: String(entry.quantity),
+                  BILLEDQTY: String(entry.quantity),
+                  'ACCOUNTINGALLOCATIONS.LIST': {
+                    LEDGERNAME: entry.ledgerName,
+                    ISDEEMEDPOSITIVE: entry.amount < 0 ? 'Yes' : 'No',
+                    AMOUNT: entry.amount.toFixed(2),
+                  },
+                })),
+              } : {}),
+            },
+          },
+        },
+      },
+    });
+
+    // Tally.ERP 9 answers with a bare RESPONSE, TallyPrime wraps it as IMPORTRESULT in an envelope
+    const response = parser.parse(await this.send('POST', body));
+    const result = findNode(response, 'RESPONSE') ?? findNode(response, 'IMPORTRESULT');
+    if (!result || typeof result !== 'object') {
+      throw new TallyError('Tally did not return an import result');
+    }
+
+    return {
+      created: Number(text(result.CREATED)) || 0,
+      altered: Number(text(result.ALTERED)) || 0,
+      cancelled: Number(text(result.CANCELLED)) || 0,
+      ignored: Number(text(result.IGNORED)) || 0,
+      errors: (Number(text(result.ERRORS)) || 0) + (Number(text(result.EXCEPTIONS)) || 0),
+      lineErrors: (result.LINEERROR ?? []).map(text).filter(Boolean),
+    };
+  }
+
+  async exportLedgers(): Promise<TallyLedger[]> {
+    const collection = await this.exportCollection('Ledger', ['GUID', 'Name', 'Parent', 'PartyGSTIN', 'Address', 'LedStateName', 'PinCode']);
+    return (collection.LEDGER ?? []).map((ledger: XmlNode) => ({
+      guid: text(ledger.GUID),
+      name: text(ledger['@_NAME']) || text(ledger.NAME),
+      parent: text(ledger.PARENT),
+      gstin: text(ledger.PARTYGSTIN) || null,
+      address: ([] as unknown[]).concat(ledger['ADDRESS.LIST']?.ADDRESS ?? []).map(text).filter(Boolean).join(', ') || null,
+      state: text(ledger.LEDSTATENAME) || null,
+      pincode: text(ledger.PINCODE) || null,
+    }));
+  }
+
+  async exportStockItems(): Promise<TallyMasterName[]> {
+    const collection = await this.exportCollection('StockItem', ['Name', 'Parent']);
+    return (collection.STOCKITEM ?? []).map((item: XmlNode) => ({
+      name: text(item['@_NAME']) || text(item.NAME),
+      parent: text(item.PARENT),
+    }));
+  }
+
+  // Custom voucher types have one of the predefined types (Sales, Purchase...) as parent
+  async exportVoucherTypes(): Promise<TallyMasterName[]> {
+    const collection = await this.exportCollection('VoucherType', ['Name', 'Parent']);
+    return (collection.VOUCHERTYPE ?? []).map((voucherType: XmlNode) => ({
+      name: text(voucherType['@_NAME']) || text(voucherType.NAME),
+      parent: text(voucherType.PARENT),
+    }));
+  }
+
+  async exportVouchers(fromDate: Date, toDate: Date): Promise<TallyVoucher[]> {
+    const collection = await this.exportCollection(
+      'Voucher',
+      ['GUID', 'Date', 'VoucherTypeName', 'VoucherNumber', 'PartyLedgerName', 'Reference', 'Narration', 'IsCancelled', 'AllLedgerEntries.LedgerName', 'AllLedgerEntries.Amount'],
+      { SVFROMDATE: tallyDate(fromDate), SVTODATE: tallyDate(toDate) },
+    );
+
+    const vouchers: TallyVoucher[] = [];
+    for (const voucher of collection.VOUCHER ?? []) {
+      const date = parseTallyDate(text(voucher.DATE));
+      if (!date) continue;
+      const lines: XmlNode[] = voucher['ALLLEDGERENTRIES.LIST'] ?? voucher['LEDGERENTRIES.LIST'] ?? [];
+      vouchers.push({
+        guid: text(voucher.GUID),
+        date,
+        voucherType: text(voucher.VOUCHERTYPENAME) || text(voucher['@_VCHTYPE']),
+        voucherNumber: text(voucher.VOUCHERNUMBER),
+        partyLedgerName: text(voucher.PARTYLEDGERNAME),
+        reference: text(voucher.REFERENCE) || null,
+        narration: text(voucher.NARRATION) || null,
+        entries: lines.map((line) => ({ ledgerName: text(line.LEDGERNAME), amount: Number(text(line.AMOUNT)) || 0 })),
+        cancelled: text(voucher.ISCANCELLED) === 'Yes',
+      });
+    }
+    return vouchers;
+  }
+
+  private async exportCollection(type: string, fields: string[], variables: Record<string, string> = {}): Promise<XmlNode> {
+    const id = `SME${type}Collection`;
+    const body = this.envelope('Export', {
+      DESC: {
+        STATICVARIABLES: { SVEXPORTFORMAT: '$$SysName:XML', ...this.staticVariables(), ...variables },
+        TDL: {
+          TDLMESSAGE: {
+            COLLECTION: { '@_NAME': id, '@_ISMODIFY': 'No', TYPE: type, FETCH: fields.join(', ') },
+          },
+        },
+      },
+    }, { TYPE: 'Collection', ID: id });
+
+    const response = parser.parse(await this.send('POST', body));
+    const lineErrors = findNode(response, 'LINEERROR');
+    if (lineErrors) {
+      throw new TallyError(([] as unknown[]).concat(lineErrors).map(text).join('; '));
+    }
+    const collection = findNode(response, 'COLLECTION');
+    return collection && typeof collection === 'object' ? collection : {};
+  }
+
+  private staticVariables() {
+    return this.companyName ? { SVCURRENTCOMPANY: this.companyName } : {};
+  }
+
+  private envelope(request: string, body: XmlNode, header: Record<string, string> = {}) {
+    return builder.build({ ENVELOPE: { HEADER: { VERSION: 1, TALLYREQUEST: request, ...header }, BODY: body } }) as string;
+  }
+
+  private async send(method: 'GET' | 'POST', body?: string): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method,
+        headers: body ? { 'Content-Type': 'text/xml; charset=utf-8' } : undefined,
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (err) {
+      throw new TallyError(`Could not reach Tally at ${this.url}: ${(err as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw new TallyError(`Tally request failed with HTTP ${response.status}`);
+    }
+
+    const xml = await response.text();
+    if (/unknown request/i.test(xml)) {
+      throw new TallyError('Tally could not process the request');
+    }
+    return xml;
+  }
+}
@@ -0,0 +1,293 @@
+import { storage } from '../storage';
+import { Item, Party, TallyMapping } from '@shared/schema';
+import { TallyClient, TallyError, type TallyLedger, type TallyMasterName } from './tallyClient';
+
+export type TallyMappingType = TallyMapping['mappingType'];
+
+// Something a voucher refers to by name in Tally: a party or stock item, a voucher type or a ledger role
+export interface TallyMaster {
+  mappingType: TallyMappingType;
+  sourceKey: string;
+  label: string;
+  defaultName?: string; // What a standard Tally company calls it
+}
+
+export interface TallyMasterStatus extends TallyMaster {
+  mapping: TallyMapping | null;
+  suggestion: string | null;
+  required: boolean; // Used by a document waiting to be pushed
+}
+
+export interface TallyMasterList {
+  masters: TallyMasterStatus[];
+  tallyError: string | null; // Why there are no suggestions
+}
+
+// A sync that cannot start because documents use masters with no Tally name
+export class TallyMappingError extends Error {
+  constructor(public unmapped: TallyMaster[]) {
+    super(`Map these masters to Tally before syncing: ${unmapped.map(describeMaster).join(', ')}`);
+    this.name = 'TallyMappingError';
+  }
+}
+
+const mappingTypeLabels: Record<TallyMappingType, string> = {
+  party: 'party',
+  item: 'stock item',
+  ledger: 'ledger',
+  voucher_type: 'voucher type',
+};
+
+const describeMaster = (master: TallyMaster) => `${master.label} (${mappingTypeLabels[master.mappingType]})`;
+
+const masterKey = (mappingType: TallyMappingType, sourceKey: string) => `${mappingType}:${sourceKey}`;
+
+// Ledger roles, keyed by the first part of the source key
+const ledgerRoles: Record<string, { label: string; groups: string[] }> = {
+  sales: { label: 'Sales', groups: ['sales accounts'] },
+  purchase: { label: 'Purchase', groups: ['purchase accounts'] },
+  output_cgst: { label: 'Output CGST', groups: ['duties & taxes'] },
+  output_sgst: { label: 'Output SGST', groups: ['duties & taxes'] },
+  output_igst: { label: 'Output IGST', groups: ['duties & taxes'] },
+  output_cess: { label: 'Output Cess', groups: ['duties & taxes'] },
+  input_cgst: { label: 'Input CGST', groups: ['duties & taxes'] },
+  input_sgst: { label: 'Input SGST', groups: ['duties & taxes'] },
+  input_igst: { label: 'Input IGST', groups: ['duties & taxes'] },
+  input_cess: { label: 'Input Cess', groups: ['duties & taxes'] },
+  round_off: { label: 'Round Off', groups: ['indirect expenses', 'indirect incomes'] },
+  cash: { label: 'Cash', groups: ['cash-in-hand'] },
+  bank: { label: 'Bank Account', groups: ['bank accounts', 'bank od a/c'] },
+};
+
+// Ledgers every company needs mapped once it pushes receipts, payments or rounded invoices
+export const standardLedgerKeys = ['round_off', 'cash', 'bank'];
+
+const supplyLabels: Record<string, string> = { local: 'Local', interstate: 'Interstate' };
+
+// Rates in source keys drop trailing zeros: 18, 2.5, 0.125
+export const rateKey = (rate: number) => String(Number(rate.toFixed(3)));
+
+export const partyMaster = (party: Party): TallyMaster => ({ mappingType: 'party', sourceKey: String(party.id), label: party.name });
+
+export const itemMaster = (item: Item): TallyMaster => ({ mappingType: 'item', sourceKey: String(item.id), label: item.name });
+
+export const voucherTypeMaster = (transactionType: string, defaultName: string): TallyMaster => ({
+  mappingType: 'voucher_type',
+  sourceKey: transactionType,
+  label: transactionType.split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+  defaultName,
+});
+
+// Keys look like "sales:18:local", "output_cgst:9" or "round_off"
+export const ledgerMaster = (sourceKey: string): TallyMaster => {
+  const [role, rate, supply] = sourceKey.split(':');
+  let label = ledgerRoles[role]?.label ?? role;
+  if (rate !== undefined) label += ` @ ${rate}%`;
+  if (supply) label += ` (${supplyLabels[supply] ?? supply})`;
+  return { mappingType: 'ledger', sourceKey, label };
+};
+
+// Words that carry no meaning when comparing names
+const fillerWords = new Set(['ltd', 'limited', 'pvt', 'private', 'the', 'ms', 'account', 'accounts', 'and', 'co']);
+
+// A name with one of these words cannot be the master for a name with another word from the same set
+const exclusiveWords = [['local', 'interstate'], ['input', 'output'], ['cgst', 'sgst', 'igst', 'cess'], ['sales', 'purchase']];
+
+const tokenise = (value: string) => value
+  .toLowerCase()
+  .replace(/\ba\/c\b/g, 'account')
+  .replace(/\binter[\s-]?state\b/g, 'interstate')
+  .replace(/\bintra[\s-]?state\b/g, 'local')
+  .split(/[^a-z0-9.]+/)
+  .map((token) => token.replace(/^\.+|\.+$/g, ''))
+  .filter((token) => token && !fillerWords.has(token));
+
+const bigrams = (value: string) => {
+  const pairs: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) pairs.push(value.slice(i, i + 2));
+  return pairs;
+};
+
+// Dice coefficient on letter pairs
+const diceSimilarity = (a: string, b: string) => {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return a === b ? 1 : 0;
+  const remaining = [...right];
+  let shared = 0;
+  for (const pair of left) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+};
+
+// How alike two names are, from 0 to 1. Names that disagree on a rate, a tax
+// or local/interstate supply never match, however close the spelling.
+export function nameSimilarity(source: string, candidate: string): number {
+  const sourceTokens = tokenise(source);
+  const candidateTokens = tokenise(candidate);
+  if (sourceTokens.length === 0 || candidateTokens.length === 0) return 0;
+
+  const numbers = (tokens: string[]) => tokens.filter((token) => /^\d/.test(token)).map(Number).sort().join(',');
+  const candidateNumbers = numbers(candidateTokens);
+  if (candidateNumbers && candidateNumbers !== numbers(sourceTokens)) return 0;
+
+  for (const words of exclusiveWords) {
+    const sourceWords = sourceTokens.filter((token) => words.includes(token));
+    const candidateWords = candidateTokens.filter((token) => words.includes(token));
+    if (candidateWords.some((word) => sourceWords.length > 0 && !sourceWords.includes(word))) return 0;
+  }
+
+  const dice = diceSimilarity(sourceTokens.join(' '), candidateTokens.join(' '));
+  const contained = sourceTokens.filter((token) => candidateTokens.includes(token)).length / sourceTokens.length;
+  return Math.max(dice, 0.9 * contained);
+}
+
+const suggestionThreshold = 0.5;
+
+// What the company's Tally has, to suggest mappings from
+interface TallyCatalogue {
+  ledgers: TallyLedger[];
+  stockItems: TallyMasterName[];
+  voucherTypes: TallyMasterName[];
+}
+
+const partyGroups = ['sundry debtors', 'sundry creditors'];
+
+// Looks up the Tally name of each master and remembers every master asked for,
+// so building the vouchers for a sync also tells which masters it needs
+export class TallyNames {
+  private names = new Map<string, string>();
+  readonly requested = new Map<string, TallyMaster>();
+  readonly missing = new Map<string, TallyMaster>();
+
+  constructor(private mappings: TallyMapping[]) {
+    for (const mapping of mappings) {
+      this.names.set(masterKey(mapping.mappingType, mapping.sourceKey), mapping.tallyName);
+    }
+  }
+
+  get(master: TallyMaster): string | undefined {
+    const key = masterKey(master.mappingType, master.sourceKey);
+    this.requested.set(key, master);
+    const name = this.names.get(key);
+    if (!name) this.missing.set(key, master);
+    return name;
+  }
+
+  // The source key mapped to a Tally name, for reading vouchers entered in Tally
+  sourceKey(mappingType: TallyMappingType, tallyName: string): string | undefined {
+    const name = tallyName.trim().toLowerCase();
+    return this.mappings.find((mapping) => mapping.mappingType === mappingType && mapping.tallyName.trim().toLowerCase() === name)?.sourceKey;
+  }
+
+  // The role of a Tally ledger, from the mappings or else a standard ledger name such as "Output CGST"
+  ledgerKey(tallyName: string): string | undefined {
+    const name = tallyName.trim().toLowerCase();
+    return this.sourceKey('ledger', tallyName)
+      ?? Object.keys(ledgerRoles).find((role) => ledgerRoles[role].label.toLowerCase() === name);
+  }
+}
+
+export class TallyMappingService {
+  async getNames(userId: number) {
+    return new TallyNames(await storage.getTallyMappings(userId));
+  }
+
+  // Each master with its mapping and, when unmapped, the closest name in Tally.
+  // Suggestions need Tally to be reachable; without it the list still comes back.
+  async describe(userId: number, masters: TallyMaster[], required: TallyMaster[]): Promise<TallyMasterList> {
+    const mappings = new Map((await storage.getTallyMappings(userId)).map((mapping) => [masterKey(mapping.mappingType, mapping.sourceKey), mapping]));
+    const requiredKeys = new Set(required.map((master) => masterKey(master.mappingType, master.sourceKey)));
+
+    let catalogue: TallyCatalogue | null = null;
+    let tallyError: string | null = null;
+    if (masters.some((master) => !mappings.has(masterKey(master.mappingType, master.sourceKey)))) {
+      try {
+        catalogue = await this.loadCatalogue(userId);
+      } catch (err) {
+        if (!(err instanceof TallyError)) throw err;
+        tallyError = err.message;
+      }
+    }
+
+    return {
+      masters: masters.map((master) => {
+        const mapping = mappings.get(masterKey(master.mappingType, master.sourceKey)) ?? null;
+        return {
+          ...master,
+          mapping,
+          suggestion: !mapping && catalogue ? this.suggest(master, catalogue) : null,
+          required: requiredKeys.has(masterKey(master.mappingType, master.sourceKey)),
+        };
+      }),
+      tallyError,
+    };
+  }
+
+  // Saves the suggested name for every unmapped master that has one
+  async acceptSuggestions(userId: number, masters: TallyMasterStatus[]): Promise<TallyMapping[]> {
+    const saved: TallyMapping[] = [];
+    for (const master of masters) {
+      if (master.mapping || !master.suggestion) continue;
+      saved.push(await storage.saveTallyMapping({
+        mappingType: master.mappingType,
+        sourceKey: master.sourceKey,
+        tallyName: master.suggestion,
+        userId,
+      }));
+    }
+    return saved;
+  }
+
+  private async loadCatalogue(userId: number): Promise<TallyCatalogue> {
+    const settings = await storage.getCompanySettings(userId);
+    const client = new TallyClient(settings.tallyUrl, settings.tallyCompanyName);
+    return {
+      ledgers: await client.exportLedgers(),
+      stockItems: await client.exportStockItems(),
+      voucherTypes: await client.exportVoucherTypes(),
+    };
+  }
+
+  private suggest(master: TallyMaster, catalogue: TallyCatalogue): string | null {
+    const inGroups = (groups: string[]) => catalogue.ledgers
+      .filter((ledger) => groups.includes(ledger.parent.trim().toLowerCase()))
+      .map((ledger) => ledger.name);
+
+    switch (master.mappingType) {
+      case 'party':
+        return this.closest(master.label, inGroups(partyGroups));
+      case 'item':
+        return this.closest(master.label, catalogue.stockItems.map((item) => item.name));
+      case 'ledger': {
+        const role = ledgerRoles[master.sourceKey.split(':')[0]];
+        return role ? this.closest(master.label, inGroups(role.groups)) : null;
+      }
+      case 'voucher_type': {
+        const defaultName = (master.defaultName ?? master.label).toLowerCase();
+        const exact = catalogue.voucherTypes.find((voucherType) => voucherType.name.toLowerCase() === defaultName);
+        // Otherwise a custom type made from the standard one, such as "GST Sales" under "Sales"
+        const custom = catalogue.voucherTypes.filter((voucherType) => voucherType.parent.toLowerCase() === defaultName);
+        return exact?.name ?? (custom.length === 1 ? custom[0].name : this.closest(master.label, custom.map((voucherType) => voucherType.name)));
+      }
+    }
+  }
+
+  private closest(name: string, candidates: string[]): string | null {
+    let best: string | null = null;
+    let bestScore = suggestionThreshold;
+    for (const candidate of candidates) {
+      const score = nameSimilarity(name, candidate);
+      if (score > bestScore || (score === bestScore && best === null)) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,47 @@
+import { storage } from '../storage';
+import { config } from '../config';
+import { TallySyncBusyError, TallySyncService, nextAutoSyncAt } from './tallySyncService';
+
+// Pushes to Tally in the background for every company with auto-sync on, at the interval set in
+// Settings. Job state lives in storage, so a restart picks up where the last run left off.
+export class TallySyncScheduler {
+  private tallySyncService = new TallySyncService();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start() {
+    if (this.timer || !config.tallySchedulerEnabled) return;
+    this.timer = setInterval(() => void this.tick(), config.tallySchedulerTickMs);
+    // Never keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Runs every company whose next sync is due. A slow Tally can make a tick outlast the
+  // tick interval, so ticks never overlap; the job lock covers other processes.
+  async tick(now = new Date()) {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      for (const settings of await storage.getAutoSyncCompanySettings()) {
+        const due = nextAutoSyncAt(settings, await storage.getTallySyncJob(settings.userId));
+        if (!due || due > now) continue;
+
+        try {
+          await this.tallySyncService.runExclusive(settings.userId, () => this.tallySyncService.push(settings.userId));
+        } catch (err) {
+          // Failures are recorded on the job and its log; a busy lock means a sync is already running
+          if (!(err instanceof TallySyncBusyError)) {
+            console.error(`Tally auto-sync failed for company ${settings.userId}:`, (err as Error).message);
+          }
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
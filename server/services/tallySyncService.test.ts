@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import type { AddressInfo } from "net";
+import { storage } from "../storage";
+import { createMockTally, type MockTally } from "../mockTally";
+import { TallySyncService } from "./tallySyncService";
+import { TallyMappingService } from "./tallyMappingService";
+
+const tallySyncService = new TallySyncService();
+const mappingService = new TallyMappingService();
+
+let tally: MockTally;
+let tallyUrl: string;
+
+beforeAll(async () => {
+  tally = createMockTally({
+    vouchers: [{
+      date: "20260501", voucherType: "Sales", voucherNumber: "T-1001", partyLedgerName: "Kaveri Traders", narration: "Entered in Tally",
+      entries: [{ ledgerName: "Kaveri Traders", amount: -5900 }, { ledgerName: "Sales Account", amount: 5000 }, { ledgerName: "Output IGST", amount: 900 }],
+    }],
+  });
+  await new Promise<void>((resolve) => tally.server.listen(0, "127.0.0.1", resolve));
+  tallyUrl = `http://127.0.0.1:${(tally.server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => tally.server.close(() => resolve())));
+
+let companies = 0;
+
+// A company pointed at the mock, with a customer Tally knows and an invoice to push
+async function setUp() {
+  const user = await storage.createUser({ username: `tally${++companies}`, password: "secret", companyName: `Company ${companies}` });
+  await storage.updateCompanySettings(user.id, { tallyUrl, tallyCompanyName: "Demo Company", tallySyncItems: false });
+  const customer = await storage.createParty({ name: "Kaveri Traders", type: "customer", gstin: "29KKKKK5555K1Z2", userId: user.id });
+  const invoice = (transactionNumber: string) => storage.createTransactionWithItems({
+    transactionNumber, transactionType: "sales_invoice", partyId: customer.id, transactionDate: new Date("2026-06-10"),
+    placeOfSupply: "29", amount: "1180.00", balanceDue: "1180.00", taxableAmount: "1000.00", igstAmount: "180.00", status: "pending", userId: user.id,
+  }, [{ description: "Service", quantity: "1", rate: "1000.00", amount: "1000.00", totalAmount: "1180.00", taxRate: "18", igstAmount: "180.00" }]);
+  // Maps every master to the name Tally suggests, as a user accepting the suggestions does
+  const mapMasters = async () => {
+    const { masters, required } = await tallySyncService.getMasters(user.id);
+    const list = await mappingService.describe(user.id, masters, required);
+    await mappingService.acceptSuggestions(user.id, list.masters);
+  };
+  return { user, customer, invoice, mapMasters };
+}
+
+describe("TallySyncService against the mock Tally", () => {
+  it("pushes an invoice as a sales voucher and records its GUID", async () => {
+    const { user, invoice, mapMasters } = await setUp();
+    const document = await invoice("INV-1");
+    await mapMasters();
+
+    const log = await tallySyncService.push(user.id);
+
+    expect(log.syncStatus).toBe("success");
+    expect(log.transactionCount).toBe(1);
+    const pushed = (await storage.getTransaction(user.id, document.id))!;
+    expect(pushed.isSync).toBe(true);
+    const voucher = tally.vouchers.get(pushed.tallyGuid!)!;
+    expect(voucher.voucherType).toBe("Sales");
+    expect(voucher.voucherNumber).toBe("INV-1");
+    expect(voucher.partyLedgerName).toBe("Kaveri Traders");
+    expect(voucher.entries).toEqual([
+      { ledgerName: "Kaveri Traders", amount: -1180 },
+      { ledgerName: "Sales @18% Interstate", amount: 1000 },
+      { ledgerName: "Output IGST", amount: 180 },
+    ]);
+  });
+
+  it("refuses to push while a master is unmapped, sending nothing", async () => {
+    const { user, invoice } = await setUp();
+    await invoice("INV-1");
+    const before = tally.vouchers.size;
+
+    await expect(tallySyncService.push(user.id)).rejects.toThrow("Map these masters to Tally before syncing");
+
+    expect(tally.vouchers.size).toBe(before);
+    expect((await storage.getTallySyncLogs(user.id)).map((log) => log.syncStatus)).toEqual(["failed"]);
+  });
+
+  it("closes the log as failed when something other than Tally stops a push", async () => {
+    const { user, invoice, mapMasters } = await setUp();
+    await invoice("INV-1");
+    await mapMasters();
+    const spy = vi.spyOn(storage, "createTallySyncEntry").mockRejectedValueOnce(new Error("Disk full"));
+
+    try {
+      await expect(tallySyncService.push(user.id)).rejects.toThrow("Disk full");
+    } finally {
+      spy.mockRestore();
+    }
+
+    const [log] = await storage.getTallySyncLogs(user.id);
+    expect(log.syncStatus).toBe("failed");
+    expect(log.details).toBe("Stopped: Disk full");
+  });
+
+  it("pulls party ledgers and vouchers entered in Tally, once", async () => {
+    const { user } = await setUp();
+
+    // Before the invoices the other cases push
+    const range = { fromDate: new Date("2026-04-01"), toDate: new Date("2026-05-31") };
+    const first = await tallySyncService.pull(user.id, range);
+    const second = await tallySyncService.pull(user.id, range);
+
+    expect(first.syncStatus).toBe("success");
+    expect(first.transactionCount).toBe(1);
+    expect(second.transactionCount).toBe(0);
+    const pulled = (await storage.getTransactionsByUserId(user.id)).filter((transaction) => transaction.transactionNumber === "T-1001");
+    expect(pulled).toHaveLength(1);
+    expect(pulled[0].transactionType).toBe("sales_invoice");
+    expect(Number(pulled[0].amount)).toBe(5900);
+    expect((await storage.getPartiesByUserId(user.id)).map((party) => party.name)).toEqual(
+      expect.arrayContaining(["Kaveri Traders", "GlobalTech Solutions", "Bharath Supplies"]));
+  });
+});
@@ -0,0 +1,927 @@
+import { createHash, randomUUID } from 'crypto';
+import { storage } from '../storage';
+import { config } from '../config';
+import { CompanySettings, InsertTallySyncEntry, InsertTransaction, Item, Party, TallyDocumentContent, TallySyncJob, TallySyncLog, Transaction, TransactionItem } from '@shared/schema';
+import { TallyClient, TallyError, type TallyInventoryEntry, type TallyLedger, type TallyVoucher, type TallyLedgerEntry } from './tallyClient';
+import {
+  TallyMappingError, TallyMappingService, TallyNames, itemMaster, ledgerMaster, partyMaster, rateKey, standardLedgerKeys, voucherTypeMaster,
+  type TallyMaster,
+} from './tallyMappingService';
+import { NumberingService } from './numberingService';
+import { LedgerService } from './ledgerService';
+
+type TransactionType = Transaction['transactionType'];
+
+interface VoucherDefinition {
+  voucherType: string; // The standard Tally voucher type; companies map their own
+  partyDebited: boolean; // e.g. the customer on a sales invoice, the vendor on a payment
+  account?: 'sales' | 'purchase'; // Invoices and notes; receipts and payments go against cash or bank
+  tax?: 'output' | 'input';
+}
+
+// Documents that are vouchers in Tally
+export const tallyVoucherTypes: Partial<Record<TransactionType, VoucherDefinition>> = {
+  sales_invoice: { voucherType: 'Sales', partyDebited: true, account: 'sales', tax: 'output' },
+  debit_note: { voucherType: 'Debit Note', partyDebited: false, account: 'sales', tax: 'output' }, // Raised on customers
+  purchase_bill: { voucherType: 'Purchase', partyDebited: false, account: 'purchase', tax: 'input' },
+  credit_note: { voucherType: 'Credit Note', partyDebited: true, account: 'purchase', tax: 'input' }, // Purchase returns
+  receipt: { voucherType: 'Receipt', partyDebited: false },
+  payment: { voucherType: 'Payment', partyDebited: true },
+};
+
+// Settings switches for the documents a push sends
+const documentSwitches: { setting: 'tallySyncSales' | 'tallySyncPurchases' | 'tallySyncPayments' | 'tallySyncReceipts'; types: TransactionType[] }[] = [
+  { setting: 'tallySyncSales', types: ['sales_invoice', 'debit_note'] },
+  { setting: 'tallySyncPurchases', types: ['purchase_bill', 'credit_note'] },
+  { setting: 'tallySyncPayments', types: ['payment'] },
+  { setting: 'tallySyncReceipts', types: ['receipt'] },
+];
+
+// Party ledgers live under these groups; everything else is an account ledger
+const partyGroups: Record<string, 'customer' | 'vendor'> = {
+  'sundry debtors': 'customer',
+  'sundry creditors': 'vendor',
+};
+
+// Drafts are not in the books yet, and cancelled documents never will be
+const unpushableStatuses: string[] = ['draft', 'cancelled'];
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const byDocumentDate = (a: Transaction, b: Transaction) =>
+  new Date(a.transactionDate ?? a.createdAt ?? 0).getTime() - new Date(b.transactionDate ?? b.createdAt ?? 0).getTime() || a.id - b.id;
+
+const normaliseName = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const financialYearStart = (date: Date) => new Date(date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1, 3, 1);
+
+export interface TallyPullOptions {
+  fromDate?: Date;
+  toDate?: Date;
+}
+
+// Masters the vouchers refer to
+interface TallySyncContext {
+  parties: Map<number, Party>;
+  items: Map<number, Item>;
+  includeInventory: boolean; // Post stock lines, or put invoices in accounting mode
+}
+
+interface TallyDocument {
+  transaction: Transaction;
+  content: TallyDocumentContent;
+  voucher?: TallyVoucher;
+  error?: string;
+}
+
+export interface TallySyncJobStatus {
+  status: 'disabled' | 'idle' | 'running' | 'backoff';
+  autoSync: boolean;
+  intervalMinutes: number;
+  lockedAt: Date | null;
+  lastRunAt: Date | null;
+  lastStatus: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  nextRunAt: Date | null; // When auto-sync runs next; null while it is off
+}
+
+// Where an unsynced document stands: never tried, edited since it was synced, rejected (fix it and
+// push again), or waiting for Tally to come back
+export type TallyPendingState = 'pending' | 'modified' | 'failed' | 'retry';
+
+export const tallyPendingStates: TallyPendingState[] = ['pending', 'modified', 'failed', 'retry'];
+
+const pendingStateOf = (transaction: Transaction): TallyPendingState =>
+  transaction.tallyRetryPending ? 'retry' : transaction.tallySyncError ? 'failed' : transaction.tallyModifiedAt ? 'modified' : 'pending';
+
+// The version of a document Tally has
+export interface TallySyncedVersion {
+  hash: string;
+  content: TallyDocumentContent;
+}
+
+export interface TallyContentChange {
+  field: string;
+  synced: string | null;
+  current: string | null;
+}
+
+// A document edited since it was synced: what Tally has next to what it says now
+export interface TallySyncConflict {
+  transactionId: number;
+  transactionNumber: string;
+  transactionType: TransactionType;
+  partyName: string | null;
+  modifiedAt: Date | null;
+  synced: TallyDocumentContent | null;
+  current: TallyDocumentContent;
+  changes: TallyContentChange[];
+}
+
+const decimalKey = (value: string | null | undefined) => (value == null ? null : Number(value).toFixed(2));
+
+export function tallyDocumentContent(transaction: Transaction, lines: TransactionItem[]): TallyDocumentContent {
+  const date = transaction.transactionDate ?? transaction.createdAt;
+  return {
+    transactionNumber: transaction.transactionNumber,
+    transactionType: transaction.transactionType,
+    transactionDate: date ? new Date(date).toISOString().slice(0, 10) : null,
+    partyId: transaction.partyId,
+    reference: transaction.vendorBillNumber ?? transaction.reference,
+    narration: transaction.notes,
+    paymentMode: transaction.paymentMode,
+    amount: decimalKey(transaction.amount)!,
+    taxableAmount: decimalKey(transaction.taxableAmount),
+    cgstAmount: decimalKey(transaction.cgstAmount),
+    sgstAmount: decimalKey(transaction.sgstAmount),
+    igstAmount: decimalKey(transaction.igstAmount),
+    cessAmount: decimalKey(transaction.cessAmount),
+    roundOff: decimalKey(transaction.roundOff),
+    lines: [...lines].sort((a, b) => a.id - b.id).map((line) => ({
+      itemId: line.itemId,
+      description: line.description,
+      quantity: decimalKey(line.quantity)!,
+      rate: decimalKey(line.rate)!,
+      amount: decimalKey(line.amount)!,
+      taxRate: decimalKey(line.taxRate),
+      cgstAmount: decimalKey(line.cgstAmount),
+      sgstAmount: decimalKey(line.sgstAmount),
+      igstAmount: decimalKey(line.igstAmount),
+      cessAmount: decimalKey(line.cessAmount),
+    })),
+  };
+}
+
+const hashContent = (content: TallyDocumentContent) => createHash('sha256').update(JSON.stringify(content)).digest('hex');
+
+// Stamps the content as the version Tally now has
+const syncedVersionOf = (content: TallyDocumentContent): Partial<InsertTransaction> => ({
+  tallySyncHash: hashContent(content),
+  tallySyncedContent: content,
+  tallyModifiedAt: null,
+});
+
+const headerLabels: Record<Exclude<keyof TallyDocumentContent, 'lines'>, string> = {
+  transactionNumber: 'Number',
+  transactionType: 'Type',
+  transactionDate: 'Date',
+  partyId: 'Party',
+  reference: 'Reference',
+  narration: 'Narration',
+  paymentMode: 'Payment mode',
+  amount: 'Amount',
+  taxableAmount: 'Taxable value',
+  cgstAmount: 'CGST',
+  sgstAmount: 'SGST',
+  igstAmount: 'IGST',
+  cessAmount: 'Cess',
+  roundOff: 'Round off',
+};
+
+const lineLabels: Record<keyof TallyDocumentContent['lines'][number], string> = {
+  itemId: 'item',
+  description: 'description',
+  quantity: 'quantity',
+  rate: 'rate',
+  amount: 'amount',
+  taxRate: 'GST rate',
+  cgstAmount: 'CGST',
+  sgstAmount: 'SGST',
+  igstAmount: 'IGST',
+  cessAmount: 'cess',
+};
+
+export interface TallyPendingCount {
+  transactionType: TransactionType;
+  enabled: boolean; // False when Settings leave this type out of pushes
+  total: number;
+  pending: number;
+  modified: number;
+  failed: number;
+  retry: number;
+}
+
+export interface TallyPendingSummary {
+  total: number;
+  pending: number;
+  modified: number;
+  failed: number;
+  retry: number;
+  byType: TallyPendingCount[];
+}
+
+export interface TallyPendingDocument {
+  transactionId: number;
+  transactionNumber: string;
+  transactionType: TransactionType;
+  transactionDate: Date | null;
+  partyName: string | null;
+  amount: string;
+  state: TallyPendingState;
+  error: string | null;
+  attempts: number;
+  lastAttemptAt: Date | null;
+}
+
+// Another sync holds the company's lock
+export class TallySyncBusyError extends Error {
+  constructor() {
+    super('A Tally sync is already running for this company');
+    this.name = 'TallySyncBusyError';
+  }
+}
+
+// When auto-sync runs next: an interval after the last run, or later while backing off after failures
+export function nextAutoSyncAt(settings: CompanySettings, job: TallySyncJob | undefined): Date | null {
+  if (!settings.tallyAutoSync) return null;
+  if (!job?.lastRunAt) return new Date(0);
+  const due = new Date(job.lastRunAt.getTime() + settings.tallySyncIntervalMinutes * 60000);
+  return job.backoffUntil && job.backoffUntil > due ? job.backoffUntil : due;
+}
+
+// Doubles the wait after each failure in a row, up to the configured ceiling
+const backoffMinutes = (intervalMinutes: number, failures: number) =>
+  Math.min(intervalMinutes * 2 ** failures, config.tallySyncMaxBackoffMinutes);
+
+export class TallySyncService {
+  private mappingService = new TallyMappingService();
+  private numberingService = new NumberingService();
+  private ledgerService = new LedgerService();
+
+  // One client per company, since each company runs its own Tally
+  createClient(settings: CompanySettings) {
+    return new TallyClient(settings.tallyUrl, settings.tallyCompanyName);
+  }
+
+  async testConnection(userId: number) {
+    const settings = await storage.getCompanySettings(userId);
+    return this.createClient(settings).ping();
+  }
+
+  // Documents waiting to be posted to Tally, and cancelled ones whose voucher Tally still counts
+  async getPendingTransactions(userId: number): Promise<Transaction[]> {
+    const transactions = await storage.getTransactionsByUserId(userId);
+    return transactions.filter((transaction) =>
+      !transaction.isSync
+      && tallyVoucherTypes[transaction.transactionType]
+      && (!unpushableStatuses.includes(transaction.status ?? 'draft') || (transaction.status === 'cancelled' && !!transaction.tallyGuid))
+    );
+  }
+
+  // Cancelling a document already in Tally leaves its voucher to be cancelled by the next push
+  async queueCancellation(userId: number, transaction: Transaction): Promise<Transaction> {
+    if (!transaction.tallyGuid) return transaction;
+    return storage.updateTransaction(userId, transaction.id, { isSync: false, tallyModifiedAt: new Date() });
+  }
+
+  // What the next push sends: pending documents of the types switched on in Settings, oldest first, up to the batch size
+  async getNextBatch(userId: number, settings: CompanySettings): Promise<Transaction[]> {
+    const types = this.enabledTypes(settings);
+    return (await this.getPendingTransactions(userId))
+      .filter((transaction) => types.includes(transaction.transactionType))
+      .sort(byDocumentDate)
+      .slice(0, settings.tallySyncBatchSize);
+  }
+
+  // Unsynced documents counted by type and state
+  async getPendingSummary(userId: number): Promise<TallyPendingSummary> {
+    const settings = await storage.getCompanySettings(userId);
+    const types = this.enabledTypes(settings);
+    const pending = await this.getPendingTransactions(userId);
+
+    const byType = (Object.keys(tallyVoucherTypes) as TransactionType[]).map((transactionType) => {
+      const count: TallyPendingCount = { transactionType, enabled: types.includes(transactionType), total: 0, pending: 0, modified: 0, failed: 0, retry: 0 };
+      for (const transaction of pending.filter((transaction) => transaction.transactionType === transactionType)) {
+        count.total++;
+        count[pendingStateOf(transaction)]++;
+      }
+      return count;
+    });
+
+    const sum = (key: 'total' | TallyPendingState) => byType.reduce((total, count) => total + count[key], 0);
+    return { total: sum('total'), pending: sum('pending'), modified: sum('modified'), failed: sum('failed'), retry: sum('retry'), byType };
+  }
+
+  // Exactly which documents are waiting, oldest first, with the reason the last push left them behind
+  async getPendingDocuments(userId: number, filter: { transactionType?: TransactionType; state?: TallyPendingState } = {}): Promise<TallyPendingDocument[]> {
+    const parties = new Map((await storage.getPartiesByUserId(userId)).map((party) => [party.id, party]));
+    return (await this.getPendingTransactions(userId))
+      .filter((transaction) =>
+        (!filter.transactionType || transaction.transactionType === filter.transactionType)
+        && (!filter.state || pendingStateOf(transaction) === filter.state)
+      )
+      .sort(byDocumentDate)
+      .map((transaction) => ({
+        transactionId: transaction.id,
+        transactionNumber: transaction.transactionNumber,
+        transactionType: transaction.transactionType,
+        transactionDate: transaction.transactionDate,
+        partyName: transaction.partyId ? parties.get(transaction.partyId)?.name ?? null : null,
+        amount: transaction.amount,
+        state: pendingStateOf(transaction),
+        error: transaction.tallySyncError,
+        attempts: transaction.tallySyncAttempts ?? 0,
+        lastAttemptAt: transaction.tallyLastAttemptAt,
+      }));
+  }
+
+  // The version Tally has of a document about to be edited, or null if it never went to Tally.
+  // Documents synced before versions were stamped take their state before this edit.
+  async getSyncedVersion(userId: number, transaction: Transaction): Promise<TallySyncedVersion | null> {
+    if (transaction.tallySyncHash && transaction.tallySyncedContent) {
+      return { hash: transaction.tallySyncHash, content: transaction.tallySyncedContent };
+    }
+    if (!transaction.isSync) return null;
+    const content = await this.contentOf(userId, transaction);
+    return { hash: hashContent(content), content };
+  }
+
+  // Marks an edited document as modified since sync when it no longer matches what Tally has, so the
+  // next push alters the voucher. Editing it back to the synced version makes it synced again.
+  async detectChanges(userId: number, transactionId: number, synced: TallySyncedVersion | null): Promise<Transaction> {
+    const transaction = await storage.getTransaction(userId, transactionId);
+    if (!transaction) {
+      throw new Error(`Transaction with id ${transactionId} not found`);
+    }
+    if (!synced) return transaction;
+
+    const changed = hashContent(await this.contentOf(userId, transaction)) !== synced.hash;
+    return storage.updateTransaction(userId, transactionId, {
+      tallySyncHash: synced.hash,
+      tallySyncedContent: synced.content,
+      isSync: !changed,
+      tallyModifiedAt: changed ? transaction.tallyModifiedAt ?? new Date() : null,
+    });
+  }
+
+  // Documents edited since they were synced, with the fields that differ from Tally
+  async getConflicts(userId: number): Promise<TallySyncConflict[]> {
+    const parties = new Map((await storage.getPartiesByUserId(userId)).map((party) => [party.id, party.name]));
+    const items = new Map((await storage.getItemsByUserId(userId)).map((item) => [item.id, item.name]));
+    const modified = (await storage.getTransactionsByUserId(userId))
+      .filter((transaction) => transaction.tallyModifiedAt && !transaction.isSync && transaction.status !== 'cancelled')
+      .sort((a, b) => a.tallyModifiedAt!.getTime() - b.tallyModifiedAt!.getTime());
+
+    const conflicts: TallySyncConflict[] = [];
+    for (const transaction of modified) {
+      const current = await this.contentOf(userId, transaction);
+      conflicts.push({
+        transactionId: transaction.id,
+        transactionNumber: transaction.transactionNumber,
+        transactionType: transaction.transactionType,
+        partyName: transaction.partyId ? parties.get(transaction.partyId) ?? null : null,
+        modifiedAt: transaction.tallyModifiedAt,
+        synced: transaction.tallySyncedContent,
+        current,
+        changes: transaction.tallySyncedContent ? this.compareContent(transaction.tallySyncedContent, current, parties, items) : [],
+      });
+    }
+    return conflicts;
+  }
+
+  // Every master the documents use, and those used by documents a push would send.
+  // All parties, items and voucher types are listed too so they can be mapped ahead of time.
+  async getMasters(userId: number): Promise<{ masters: TallyMaster[]; required: TallyMaster[] }> {
+    const settings = await storage.getCompanySettings(userId);
+    const context = await this.loadContext(userId, settings);
+    const types = this.enabledTypes(settings);
+    const transactions = (await storage.getTransactionsByUserId(userId)).filter((transaction) =>
+      tallyVoucherTypes[transaction.transactionType] && !unpushableStatuses.includes(transaction.status ?? 'draft')
+    );
+    const isPending = (transaction: Transaction) => !transaction.isSync && types.includes(transaction.transactionType);
+    const pendingNames = new TallyNames([]);
+    const otherNames = new TallyNames([]);
+    await this.buildVouchers(userId, transactions.filter(isPending), context, pendingNames);
+    await this.buildVouchers(userId, transactions.filter((transaction) => !isPending(transaction)), context, otherNames);
+
+    const masters = new Map<string, TallyMaster>();
+    const add = (master: TallyMaster) => masters.set(`${master.mappingType}:${master.sourceKey}`, master);
+    for (const [type, definition] of Object.entries(tallyVoucherTypes)) add(voucherTypeMaster(type, definition!.voucherType));
+    standardLedgerKeys.forEach((key) => add(ledgerMaster(key)));
+    Array.from(pendingNames.requested.values()).concat(Array.from(otherNames.requested.values())).forEach(add);
+    Array.from(context.parties.values()).forEach((party) => add(partyMaster(party)));
+    Array.from(context.items.values()).forEach((item) => add(itemMaster(item)));
+
+    const order = ['voucher_type', 'ledger', 'party', 'item'];
+    return {
+      masters: Array.from(masters.values()).sort((a, b) => order.indexOf(a.mappingType) - order.indexOf(b.mappingType)),
+      required: Array.from(pendingNames.requested.values()),
+    };
+  }
+
+  // Builds the voucher for a document, or says why it cannot be posted.
+  // Names come from the mappings; the sales, purchase and tax ledgers depend on each line's GST rate.
+  buildVoucher(transaction: Transaction, lines: TransactionItem[], context: TallySyncContext, names: TallyNames): { voucher?: TallyVoucher; error?: string } {
+    const definition = tallyVoucherTypes[transaction.transactionType];
+    if (!definition) {
+      return { error: `${transaction.transactionType} documents are not posted to Tally` };
+    }
+    const party = transaction.partyId ? context.parties.get(transaction.partyId) : undefined;
+    if (!party) {
+      return { error: 'Document has no party' };
+    }
+
+    const unmapped: TallyMaster[] = [];
+    const nameOf = (master: TallyMaster) => {
+      const name = names.get(master);
+      if (!name) unmapped.push(master);
+      return name ?? master.label;
+    };
+
+    const total = round2(Number(transaction.amount));
+    const partySign = definition.partyDebited ? -1 : 1;
+    const partyLedgerName = nameOf(partyMaster(party));
+    const voucherType = nameOf(voucherTypeMaster(transaction.transactionType, definition.voucherType));
+    const entries: TallyLedgerEntry[] = [{ ledgerName: partyLedgerName, amount: partySign * total }];
+    const inventoryEntries: TallyInventoryEntry[] = [];
+
+    if (definition.account && definition.tax) {
+      const { account, tax } = definition;
+      const amounts = new Map<string, number>(); // By ledger key
+      const add = (key: string, amount: number) => amounts.set(key, (amounts.get(key) ?? 0) + amount);
+
+      if (lines.length > 0) {
+        const interState = Number(transaction.igstAmount ?? 0) > 0 || lines.some((line) => Number(line.igstAmount ?? 0) > 0);
+        const supply = interState ? 'interstate' : 'local';
+        for (const line of lines) {
+          const rate = Number(line.taxRate ?? 0);
+          const accountKey = `${account}:${rateKey(rate)}:${supply}`;
+          const item = line.itemId && context.includeInventory ? context.items.get(line.itemId) : undefined;
+          if (item) {
+            inventoryEntries.push({
+              stockItemName: nameOf(itemMaster(item)),
+              ledgerName: nameOf(ledgerMaster(accountKey)),
+              quantity: Number(line.quantity),
+              rate: Number(line.rate),
+              amount: -partySign * round2(Number(line.amount)),
+            });
+          } else {
+            add(accountKey, Number(line.amount));
+          }
+          add(`${tax}_cgst:${rateKey(rate / 2)}`, Number(line.cgstAmount ?? 0));
+          add(`${tax}_sgst:${rateKey(rate / 2)}`, Number(line.sgstAmount ?? 0));
+          add(`${tax}_igst:${rateKey(rate)}`, Number(line.igstAmount ?? 0));
+          add(`${tax}_cess`, Number(line.cessAmount ?? 0));
+        }
+      } else {
+        // Documents from before GST was calculated per line only have totals
+        const taxes = ['cgst', 'sgst', 'igst', 'cess'].map((component) => {
+          const amount = Number(transaction[`${component}Amount` as 'cgstAmount'] ?? 0);
+          add(`${tax}_${component}`, amount);
+          return amount;
+        });
+        const totalTax = taxes.reduce((sum, amount) => sum + amount, 0);
+        add(account, transaction.taxableAmount != null ? Number(transaction.taxableAmount) : total - totalTax - Number(transaction.roundOff ?? 0));
+      }
+
+      for (const [key, amount] of Array.from(amounts)) {
+        if (round2(amount) !== 0) entries.push({ ledgerName: nameOf(ledgerMaster(key)), amount: -partySign * round2(amount) });
+      }
+      const roundOff = Number(transaction.roundOff ?? 0);
+      if (roundOff !== 0) {
+        entries.push({ ledgerName: nameOf(ledgerMaster('round_off')), amount: -partySign * round2(roundOff) });
+      }
+    } else {
+      const key = transaction.paymentMode?.toLowerCase() === 'cash' ? 'cash' : 'bank';
+      entries.push({ ledgerName: nameOf(ledgerMaster(key)), amount: -partySign * total });
+    }
+
+    if (unmapped.length > 0) {
+      return { error: `Not mapped to Tally: ${unmapped.map((master) => master.label).join(', ')}` };
+    }
+
+    const difference = round2([...entries, ...inventoryEntries].reduce((sum, entry) => sum + entry.amount, 0));
+    if (difference !== 0) {
+      return { error: `Debits and credits differ by ${Math.abs(difference).toFixed(2)}` };
+    }
+
+    return {
+      voucher: {
+        guid: transaction.tallyGuid ?? `sme-${transaction.userId}-${transaction.id}`,
+        date: new Date(transaction.transactionDate ?? transaction.createdAt ?? Date.now()),
+        voucherType,
+        voucherNumber: transaction.transactionNumber,
+        partyLedgerName,
+        reference: transaction.vendorBillNumber ?? transaction.reference,
+        narration: transaction.notes,
+        entries,
+        ...(inventoryEntries.length > 0 ? { inventoryEntries } : {}),
+      },
+    };
+  }
+
+  // Runs a sync under the company's lock and records the outcome on the job, backing off after failures.
+  // Syncs started by hand and by the scheduler share the lock, so they never overlap.
+  async runExclusive(userId: number, sync: () => Promise<TallySyncLog>): Promise<TallySyncLog> {
+    const lockId = randomUUID();
+    const job = await storage.acquireTallySyncLock(userId, lockId, new Date(Date.now() - config.tallySyncLockTimeoutMs));
+    if (!job) {
+      throw new TallySyncBusyError();
+    }
+
+    const settings = await storage.getCompanySettings(userId);
+    const failed = async (error: string, logId?: number) => {
+      const failures = job.consecutiveFailures + 1;
+      await storage.releaseTallySyncLock(userId, lockId, {
+        lastRunAt: new Date(),
+        lastStatus: 'failed',
+        lastLogId: logId,
+        lastError: error,
+        consecutiveFailures: failures,
+        backoffUntil: new Date(Date.now() + backoffMinutes(settings.tallySyncIntervalMinutes, failures) * 60000),
+      });
+    };
+
+    let log: TallySyncLog;
+    try {
+      log = await sync();
+    } catch (err) {
+      await failed((err as Error).message);
+      throw err;
+    }
+
+    if (log.syncStatus === 'failed') {
+      await failed(log.details ?? 'Sync failed', log.id);
+    } else {
+      await storage.releaseTallySyncLock(userId, lockId, {
+        lastRunAt: new Date(),
+        lastStatus: log.syncStatus,
+        lastLogId: log.id,
+        lastError: null,
+        consecutiveFailures: 0,
+        backoffUntil: null,
+      });
+    }
+    return log;
+  }
+
+  async getJobStatus(userId: number, now = new Date()): Promise<TallySyncJobStatus> {
+    const settings = await storage.getCompanySettings(userId);
+    const job = await storage.getTallySyncJob(userId);
+    const running = !!job?.lockedAt && job.lockedAt.getTime() > now.getTime() - config.tallySyncLockTimeoutMs;
+    const backingOff = !!job?.backoffUntil && job.backoffUntil > now && (job.consecutiveFailures ?? 0) > 0;
+    const nextRunAt = nextAutoSyncAt(settings, job);
+
+    return {
+      status: running ? 'running' : !settings.tallyAutoSync ? 'disabled' : backingOff ? 'backoff' : 'idle',
+      autoSync: settings.tallyAutoSync,
+      intervalMinutes: settings.tallySyncIntervalMinutes,
+      lockedAt: running ? job!.lockedAt : null,
+      lastRunAt: job?.lastRunAt ?? null,
+      lastStatus: job?.lastStatus ?? null,
+      lastError: job?.lastError ?? null,
+      consecutiveFailures: job?.consecutiveFailures ?? 0,
+      nextRunAt: nextRunAt && nextRunAt < now ? now : nextRunAt, // Overdue runs start on the next scheduler tick
+    };
+  }
+
+  // Posts the next batch of unsynced documents to Tally, one voucher at a time.
+  // Nothing is sent while any of them uses a master that is not mapped to Tally.
+  async push(userId: number): Promise<TallySyncLog> {
+    const settings = await storage.getCompanySettings(userId);
+    const client = this.createClient(settings);
+    const names = await this.mappingService.getNames(userId);
+    const documents = await this.buildVouchers(userId, await this.getNextBatch(userId, settings), await this.loadContext(userId, settings), names);
+
+    if (names.missing.size > 0) {
+      const error = new TallyMappingError(Array.from(names.missing.values()));
+      for (const document of documents.filter((document) => document.error)) {
+        await this.recordAttempt(userId, document.transaction, { tallySyncError: document.error });
+      }
+      await storage.createTallySyncLog({ syncType: 'push', syncStatus: 'failed', transactionCount: 0, details: error.message, userId });
+      throw error;
+    }
+
+    const log = await storage.createTallySyncLog({ syncType: 'push', syncStatus: 'running', transactionCount: 0, userId });
+
+    let pushed = 0;
+    let failed = 0;
+    let connectionError: string | null = null;
+
+    try {
+      for (const { transaction, content, voucher, error } of documents) {
+        const entry: InsertTallySyncEntry = {
+          logId: log.id,
+          transactionId: transaction.id,
+          objectType: 'voucher',
+          name: transaction.transactionNumber,
+          voucherType: voucher?.voucherType ?? tallyVoucherTypes[transaction.transactionType]?.voucherType,
+          status: 'failed',
+          userId,
+        };
+
+        if (!voucher) {
+          failed++;
+          await this.recordAttempt(userId, transaction, { tallySyncError: error });
+          await storage.createTallySyncEntry({ ...entry, message: error });
+          continue;
+        }
+
+        try {
+          // Vouchers already in Tally are altered in place, or cancelled there with the document
+          const action = transaction.status === 'cancelled' ? 'Cancel' : transaction.tallyGuid ? 'Alter' : 'Create';
+          const result = await client.importVoucher(voucher, action);
+          if (result.errors > 0 || result.created + result.altered + result.cancelled === 0) {
+            failed++;
+            const message = result.lineErrors.join('; ') || (result.ignored > 0 ? 'Tally ignored the voucher' : 'Tally rejected the voucher');
+            await this.recordAttempt(userId, transaction, { tallySyncError: message });
+            await storage.createTallySyncEntry({ ...entry, message });
+            continue;
+          }
+
+          pushed++;
+          await this.recordAttempt(userId, transaction, { isSync: true, tallyGuid: voucher.guid, ...syncedVersionOf(content) });
+          await storage.createTallySyncEntry({ ...entry, status: result.created > 0 ? 'created' : result.cancelled > 0 ? 'cancelled' : 'altered' });
+        } catch (err) {
+          // Without a connection the remaining vouchers would fail the same way
+          if (!(err instanceof TallyError)) throw err;
+          connectionError = err.message;
+          await this.recordAttempt(userId, transaction, { tallySyncError: err.message, tallyRetryPending: true });
+          break;
+        }
+      }
+    } catch (err) {
+      await this.abandon(userId, log.id, pushed, failed, err);
+      throw err;
+    }
+
+    return this.finish(userId, log.id, 'push', pushed, failed, connectionError);
+  }
+
+  // Brings party ledgers and vouchers entered in Tally into the platform
+  async pull(userId: number, options: TallyPullOptions = {}): Promise<TallySyncLog> {
+    const settings = await storage.getCompanySettings(userId);
+    const client = this.createClient(settings);
+    const toDate = options.toDate ?? new Date();
+    const fromDate = options.fromDate ?? financialYearStart(toDate);
+    const log = await storage.createTallySyncLog({ syncType: 'pull', syncStatus: 'running', transactionCount: 0, userId });
+
+    let imported = 0;
+    let failed = 0;
+    let connectionError: string | null = null;
+
+    try {
+      const names = await this.mappingService.getNames(userId);
+      const ledgers = await client.exportLedgers();
+      const parties = await this.importLedgers(userId, log.id, ledgers, names);
+
+      const voucherTypeParents = new Map((await client.exportVoucherTypes()).map((voucherType) => [normaliseName(voucherType.name), normaliseName(voucherType.parent)]));
+      const vouchers = await client.exportVouchers(fromDate, toDate);
+      const knownGuids = new Set((await storage.getTransactionsByUserId(userId)).map((transaction) => transaction.tallyGuid).filter(Boolean));
+
+      for (const voucher of vouchers) {
+        const type = this.transactionTypeOf(voucher.voucherType, voucherTypeParents, names);
+        // Journals, contras, stock journals and the like have no document here
+        if (!type) continue;
+
+        const entry: InsertTallySyncEntry = {
+          logId: log.id,
+          objectType: 'voucher',
+          name: voucher.voucherNumber || voucher.guid,
+          voucherType: voucher.voucherType,
+          status: 'skipped',
+          userId,
+        };
+
+        if (knownGuids.has(voucher.guid)) {
+          await storage.createTallySyncEntry({ ...entry, message: 'Already in the books' });
+          continue;
+        }
+        if (voucher.cancelled) {
+          await storage.createTallySyncEntry({ ...entry, message: 'Cancelled in Tally' });
+          continue;
+        }
+        // Numbers are unique within a document type here, so a voucher numbered like one of ours waits to be renumbered
+        const holder = await this.numberingService.findHolder(userId, type, entry.name);
+        if (holder) {
+          failed++;
+          await storage.createTallySyncEntry({ ...entry, status: 'failed', message: `${holder.transactionNumber} is already used by a document here` });
+          continue;
+        }
+
+        const party = parties.get(normaliseName(voucher.partyLedgerName));
+        if (!party) {
+          failed++;
+          await storage.createTallySyncEntry({ ...entry, status: 'failed', message: `No party for ledger "${voucher.partyLedgerName}"` });
+          continue;
+        }
+
+        const transaction = await storage.createTransaction(this.toTransaction(userId, type, voucher, party, names));
+        await this.ledgerService.syncTransaction(userId, await storage.updateTransaction(userId, transaction.id, syncedVersionOf(tallyDocumentContent(transaction, []))));
+        knownGuids.add(voucher.guid);
+        imported++;
+        await storage.createTallySyncEntry({ ...entry, transactionId: transaction.id, status: 'created' });
+      }
+    } catch (err) {
+      if (!(err instanceof TallyError)) {
+        await this.abandon(userId, log.id, imported, failed, err);
+        throw err;
+      }
+      connectionError = err.message;
+    }
+
+    return this.finish(userId, log.id, 'pull', imported, failed, connectionError);
+  }
+
+  // The document type of a Tally voucher type: the one mapped to it, else the standard type it is or derives from
+  private transactionTypeOf(voucherType: string, parents: Map<string, string>, names: TallyNames): TransactionType | undefined {
+    const mapped = names.sourceKey('voucher_type', voucherType) as TransactionType | undefined;
+    if (mapped && tallyVoucherTypes[mapped]) return mapped;
+
+    const candidates = [normaliseName(voucherType), parents.get(normaliseName(voucherType))];
+    return (Object.keys(tallyVoucherTypes) as TransactionType[])
+      .find((key) => candidates.includes(normaliseName(tallyVoucherTypes[key]!.voucherType)));
+  }
+
+  // Creates parties for new debtor and creditor ledgers and fills in details missing on existing ones.
+  // A ledger belongs to the party mapped to it, else the party of the same name, and the match is saved as a mapping.
+  // Returns every party by normalised ledger name, for matching voucher party ledgers.
+  private async importLedgers(userId: number, logId: number, ledgers: TallyLedger[], names: TallyNames) {
+    const allParties = await storage.getPartiesByUserId(userId);
+    const partiesById = new Map(allParties.map((party) => [party.id, party]));
+    const parties = new Map(allParties.map((party) => [normaliseName(party.name), party]));
+    const mapParty = async (party: Party, ledgerName: string) => {
+      parties.set(normaliseName(ledgerName), party);
+      if (!names.get(partyMaster(party))) {
+        await storage.saveTallyMapping({ mappingType: 'party', sourceKey: String(party.id), tallyName: ledgerName, userId });
+      }
+    };
+
+    for (const ledger of ledgers) {
+      const type = partyGroups[normaliseName(ledger.parent)];
+      if (!type || !ledger.name) continue;
+
+      const details = { gstin: ledger.gstin, address: ledger.address, state: ledger.state, pincode: ledger.pincode };
+      const mappedId = names.sourceKey('party', ledger.name);
+      const existing = mappedId ? partiesById.get(Number(mappedId)) : parties.get(normaliseName(ledger.name));
+      const entry: InsertTallySyncEntry = { logId, objectType: 'ledger', name: ledger.name, status: 'skipped', userId };
+
+      if (!existing) {
+        const party = await storage.createParty({ name: ledger.name, type, ...details, userId });
+        await mapParty(party, ledger.name);
+        await storage.createTallySyncEntry({ ...entry, partyId: party.id, status: 'created' });
+        continue;
+      }
+      await mapParty(existing, ledger.name);
+
+      const missing = Object.fromEntries(
+        Object.entries(details).filter(([field, value]) => value && !existing[field as keyof typeof details])
+      );
+      if (Object.keys(missing).length === 0) {
+        await storage.createTallySyncEntry({ ...entry, partyId: existing.id, message: 'No new details' });
+        continue;
+      }
+
+      const party = await storage.updateParty(userId, existing.id, missing);
+      parties.set(normaliseName(ledger.name), party);
+      await storage.createTallySyncEntry({ ...entry, partyId: party.id, status: 'altered', message: `Filled in ${Object.keys(missing).join(', ')}` });
+    }
+
+    return parties;
+  }
+
+  private toTransaction(userId: number, type: TransactionType, voucher: TallyVoucher, party: Party, names: TallyNames): InsertTransaction {
+    const definition = tallyVoucherTypes[type]!;
+    const partyEntry = voucher.entries.find((entry) => normaliseName(entry.ledgerName) === normaliseName(voucher.partyLedgerName));
+    const amount = round2(Math.abs(partyEntry?.amount ?? voucher.entries.reduce((sum, entry) => sum + Math.max(entry.amount, 0), 0)));
+
+    const taxFields: Partial<InsertTransaction> = {};
+    if (definition.account && definition.tax) {
+      // Tax and round-off ledgers are known by their roles; the rest of the amount is taxable,
+      // since item invoices carry the sales or purchase ledger inside their stock lines
+      const totals: Record<string, number> = { cgst: 0, sgst: 0, igst: 0, cess: 0, round_off: 0 };
+      const otherSide = definition.partyDebited ? 1 : -1;
+      for (const entry of voucher.entries) {
+        if (entry === partyEntry) continue;
+        const role = names.ledgerKey(entry.ledgerName)?.split(':')[0];
+        if (role === 'round_off') totals.round_off += otherSide * entry.amount;
+        else if (role?.startsWith(`${definition.tax}_`)) totals[role.slice(definition.tax.length + 1)] += Math.abs(entry.amount);
+      }
+      const taxable = amount - totals.cgst - totals.sgst - totals.igst - totals.cess - totals.round_off;
+      Object.assign(taxFields, {
+        taxableAmount: round2(taxable).toFixed(2),
+        cgstAmount: round2(totals.cgst).toFixed(2),
+        sgstAmount: round2(totals.sgst).toFixed(2),
+        igstAmount: round2(totals.igst).toFixed(2),
+        cessAmount: round2(totals.cess).toFixed(2),
+        ...(totals.round_off !== 0 ? { roundOff: round2(totals.round_off).toFixed(2) } : {}),
+      });
+    }
+
+    return {
+      transactionNumber: voucher.voucherNumber || voucher.guid,
+      transactionType: type,
+      transactionDate: voucher.date,
+      partyId: party.id,
+      amount: amount.toFixed(2),
+      // Receipts and payments are settled; invoices and bills are open until paid
+      balanceDue: definition.account ? amount.toFixed(2) : null,
+      status: definition.account ? 'pending' : 'completed',
+      reference: voucher.reference ?? null,
+      notes: voucher.narration ?? null,
+      isSync: true,
+      tallyGuid: voucher.guid,
+      ...taxFields,
+      userId,
+    };
+  }
+
+  private enabledTypes(settings: CompanySettings): TransactionType[] {
+    return documentSwitches.filter(({ setting }) => settings[setting]).flatMap(({ types }) => types);
+  }
+
+  private async loadContext(userId: number, settings: CompanySettings): Promise<TallySyncContext> {
+    return {
+      parties: new Map((await storage.getPartiesByUserId(userId)).map((party) => [party.id, party])),
+      items: new Map((await storage.getItemsByUserId(userId)).map((item) => [item.id, item])),
+      includeInventory: settings.tallySyncItems,
+    };
+  }
+
+  private async buildVouchers(userId: number, transactions: Transaction[], context: TallySyncContext, names: TallyNames): Promise<TallyDocument[]> {
+    const documents: TallyDocument[] = [];
+    for (const transaction of transactions) {
+      const lines = await storage.getTransactionItemsByTransactionId(userId, transaction.id);
+      documents.push({ transaction, content: tallyDocumentContent(transaction, lines), ...this.buildVoucher(transaction, lines, context, names) });
+    }
+    return documents;
+  }
+
+  private async contentOf(userId: number, transaction: Transaction) {
+    return tallyDocumentContent(transaction, await storage.getTransactionItemsByTransactionId(userId, transaction.id));
+  }
+
+  // Header fields that differ, then lines by position; parties and items are shown by name
+  private compareContent(synced: TallyDocumentContent, current: TallyDocumentContent, parties: Map<number, string>, items: Map<number, string>) {
+    const changes: TallyContentChange[] = [];
+    const display = (field: string, value: string | number | null) => {
+      if (value === null) return null;
+      if (field === 'partyId') return parties.get(value as number) ?? `Party #${value}`;
+      if (field === 'itemId') return items.get(value as number) ?? `Item #${value}`;
+      return String(value);
+    };
+
+    for (const [field, label] of Object.entries(headerLabels) as [keyof typeof headerLabels, string][]) {
+      if (synced[field] !== current[field]) {
+        changes.push({ field: label, synced: display(field, synced[field]), current: display(field, current[field]) });
+      }
+    }
+
+    type Line = TallyDocumentContent['lines'][number];
+    const describe = (line: Line | undefined) =>
+      line ? `${display('itemId', line.itemId) ?? line.description ?? 'Line'} × ${line.quantity} @ ${line.rate}` : null;
+    for (let index = 0; index < Math.max(synced.lines.length, current.lines.length); index++) {
+      const before = synced.lines[index];
+      const after = current.lines[index];
+      if (!before || !after) {
+        changes.push({ field: `Line ${index + 1}`, synced: describe(before), current: describe(after) });
+        continue;
+      }
+      for (const [field, label] of Object.entries(lineLabels) as [keyof Line, string][]) {
+        if (before[field] !== after[field]) {
+          changes.push({ field: `Line ${index + 1} ${label}`, synced: display(field, before[field]), current: display(field, after[field]) });
+        }
+      }
+    }
+    return changes;
+  }
+
+  // Counts a push of the document and keeps its outcome; a successful one clears the last error
+  private recordAttempt(userId: number, transaction: Transaction, outcome: Partial<InsertTransaction>) {
+    return storage.updateTransaction(userId, transaction.id, {
+      tallySyncAttempts: (transaction.tallySyncAttempts ?? 0) + 1,
+      tallyLastAttemptAt: new Date(),
+      tallySyncError: null,
+      tallyRetryPending: false,
+      ...outcome,
+    });
+  }
+
+  // Closes the log of a sync stopped by something other than Tally, so it does not stay running
+  private abandon(userId: number, logId: number, succeeded: number, failed: number, err: unknown) {
+    return storage.updateTallySyncLog(userId, logId, {
+      syncStatus: 'failed',
+      transactionCount: succeeded,
+      failedCount: failed,
+      details: `Stopped: ${(err as Error).message}`,
+    });
+  }
+
+  private async finish(userId: number, logId: number, syncType: 'push' | 'pull', succeeded: number, failed: number, connectionError: string | null) {
+    const verb = syncType === 'push' ? 'Pushed' : 'Pulled';
+    const direction = syncType === 'push' ? 'to' : 'from';
+    const summary = `${verb} ${succeeded} ${succeeded === 1 ? 'voucher' : 'vouchers'} ${direction} Tally`;
+
+    let syncStatus = 'success';
+    let details = failed > 0 ? `${summary}, ${failed} failed` : summary;
+    if (connectionError) {
+      syncStatus = succeeded > 0 ? 'partial' : 'failed';
+      details = succeeded > 0 ? `${details}; stopped: ${connectionError}` : connectionError;
+    } else if (failed > 0) {
+      syncStatus = succeeded > 0 ? 'partial' : 'failed';
+    }
+
+    return storage.updateTallySyncLog(userId, logId, { syncStatus, transactionCount: succeeded, failedCount: failed, details });
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { storage } from "../storage";
+import { TransactionRevisionService } from "./transactionRevisionService";
+
+const revisionService = new TransactionRevisionService();
+
+let companies = 0;
+
+// A company with two customers and an invoice for one widget
+async function setUp() {
+  const user = await storage.createUser({ username: `revisions${++companies}`, password: "secret", companyName: `Company ${companies}` });
+  const [first, second] = await Promise.all(["Pune Traders", "Kaveri Traders"].map((name) => storage.createParty({ name, type: "customer", userId: user.id })));
+  const item = await storage.createItem({ name: "Widget", userId: user.id });
+  const invoice = await storage.createTransactionWithItems({
+    transactionNumber: "INV-1", transactionType: "sales_invoice", partyId: first.id, amount: "100.00", status: "pending", userId: user.id,
+  }, [{ itemId: item.id, quantity: "1", rate: "100", amount: "100.00", totalAmount: "100.00" }]);
+  const [line] = await storage.getTransactionItemsByTransactionId(user.id, invoice.id);
+  return { user, first, second, item, invoice, line };
+}
+
+describe("TransactionRevisionService", () => {
+  it("records each save with what changed, naming parties and items, and skips saves that change nothing", async () => {
+    const { user, second, item, invoice, line } = await setUp();
+    await revisionService.recordCreated(user.id, invoice, user.id);
+
+    await storage.saveTransactionEdit(user.id, invoice.id, {
+      updates: { partyId: second.id, amount: "350.00" },
+      lines: [{ ...line, quantity: "2", amount: "200.00", totalAmount: "200.00" }, { itemId: item.id, quantity: "1", rate: "150", amount: "150.00", totalAmount: "150.00" }],
+      revise: await revisionService.reviser(user.id, user.id),
+    });
+    await storage.saveTransactionEdit(user.id, invoice.id, { updates: {}, revise: await revisionService.reviser(user.id, user.id) });
+
+    const revisions = await revisionService.getRevisions(user.id, invoice.id);
+    expect(revisions.map((revision) => [revision.revision, revision.editedByName])).toEqual([[1, user.username], [2, user.username]]);
+    expect(revisions[1].changes).toEqual([
+      { field: "Party", before: "Pune Traders", after: "Kaveri Traders" },
+      { field: "Amount", before: "100.00", after: "350.00" },
+      { field: "Line 1 quantity", before: "1.00", after: "2.00" },
+      { field: "Line 1 amount", before: "100.00", after: "200.00" },
+      { field: "Line 1 total", before: "100.00", after: "200.00" },
+      { field: "Line 2", before: null, after: "Widget × 1.00 @ 150.00" },
+    ]);
+    expect(revisions[1].content.lines).toHaveLength(2);
+  });
+
+  it("keeps a document's state from before revisions as revision 1 on its first recorded save", async () => {
+    const { user, invoice, line } = await setUp();
+    const before = await revisionService.snapshot(user.id, invoice);
+    await storage.replaceTransactionItems(user.id, invoice.id, []);
+
+    const saved = await revisionService.recordSave(user.id, invoice.id, before, null);
+
+    expect(saved?.revision).toBe(2);
+    expect(saved?.changes).toEqual([{ field: "Line 1 (removed)", before: "Widget × 1.00 @ 100.00", after: null }]);
+    const [first] = await revisionService.getRevisions(user.id, invoice.id);
+    expect(first).toMatchObject({ revision: 1, editedBy: null, editedByName: null, changes: [] });
+    expect(first.content.lines.map((found) => found.lineId)).toEqual([line.id]);
+    expect(await revisionService.recordSave(user.id, invoice.id, await revisionService.snapshot(user.id, invoice), null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,212 @@
+import { storage, type TransactionSave } from '../storage';
+import { Transaction, TransactionItem, TransactionRevision, TransactionRevisionChange, TransactionRevisionContent } from '@shared/schema';
+
+type RevisionLine = TransactionRevisionContent['lines'][number];
+
+// A revision with the login that saved it, by name
+export type TransactionRevisionWithEditor = TransactionRevision & { editedByName: string | null };
+
+const decimalKey = (value: string | null | undefined) => (value == null ? null : Number(value).toFixed(2));
+
+const dateKey = (value: Date | string | null) => (value ? new Date(value).toISOString().slice(0, 10) : null);
+
+export function transactionRevisionContent(transaction: Transaction, lines: TransactionItem[]): TransactionRevisionContent {
+  return {
+    transactionNumber: transaction.transactionNumber,
+    transactionType: transaction.transactionType,
+    transactionDate: dateKey(transaction.transactionDate),
+    dueDate: dateKey(transaction.dueDate),
+    partyId: transaction.partyId,
+    placeOfSupply: transaction.placeOfSupply,
+    pricesIncludeTax: transaction.pricesIncludeTax,
+    reference: transaction.reference,
+    notes: transaction.notes,
+    status: transaction.status,
+    amount: decimalKey(transaction.amount)!,
+    taxableAmount: decimalKey(transaction.taxableAmount),
+    cgstAmount: decimalKey(transaction.cgstAmount),
+    sgstAmount: decimalKey(transaction.sgstAmount),
+    igstAmount: decimalKey(transaction.igstAmount),
+    cessAmount: decimalKey(transaction.cessAmount),
+    roundOff: decimalKey(transaction.roundOff),
+    lines: [...lines].sort((a, b) => a.id - b.id).map((line) => ({
+      lineId: line.id,
+      itemId: line.itemId,
+      description: line.description,
+      quantity: decimalKey(line.quantity)!,
+      rate: decimalKey(line.rate)!,
+      taxRate: decimalKey(line.taxRate),
+      cessRate: decimalKey(line.cessRate),
+      godownId: line.godownId,
+      amount: decimalKey(line.amount)!,
+      taxAmount: decimalKey(line.taxAmount),
+      totalAmount: decimalKey(line.totalAmount)!,
+    })),
+  };
+}
+
+const headerLabels: Record<Exclude<keyof TransactionRevisionContent, 'lines'>, string> = {
+  transactionNumber: 'Number',
+  transactionType: 'Type',
+  transactionDate: 'Date',
+  dueDate: 'Due date',
+  partyId: 'Party',
+  placeOfSupply: 'Place of supply',
+  pricesIncludeTax: 'Prices include tax',
+  reference: 'Reference',
+  notes: 'Notes',
+  status: 'Status',
+  amount: 'Amount',
+  taxableAmount: 'Taxable value',
+  cgstAmount: 'CGST',
+  sgstAmount: 'SGST',
+  igstAmount: 'IGST',
+  cessAmount: 'Cess',
+  roundOff: 'Round off',
+};
+
+// Parties, items and godowns by id, named as they are when a save is recorded
+interface RevisionNames {
+  parties: Map<number, string>;
+  items: Map<number, string>;
+  godowns: Map<number, string>;
+}
+
+const lineLabels: Record<Exclude<keyof RevisionLine, 'lineId'>, string> = {
+  itemId: 'item',
+  description: 'description',
+  quantity: 'quantity',
+  rate: 'rate',
+  taxRate: 'GST %',
+  cessRate: 'cess %',
+  godownId: 'godown',
+  amount: 'amount',
+  taxAmount: 'tax',
+  totalAmount: 'total',
+};
+
+// Keeps a revision of a document every time it is saved. Each revision holds the whole document as
+// saved and what changed from just before the save, with parties, items and godowns named as
+// they were then. Revisions are never changed or removed.
+export class TransactionRevisionService {
+  // Oldest first
+  async getRevisions(userId: number, transactionId: number): Promise<TransactionRevisionWithEditor[]> {
+    const names = new Map<number, string | null>();
+    const revisions: TransactionRevisionWithEditor[] = [];
+    for (const revision of await storage.getTransactionRevisions(userId, transactionId)) {
+      if (revision.editedBy && !names.has(revision.editedBy)) {
+        names.set(revision.editedBy, (await storage.getUser(revision.editedBy))?.username ?? null);
+      }
+      revisions.push({ ...revision, editedByName: revision.editedBy ? names.get(revision.editedBy) ?? null : null });
+    }
+    return revisions;
+  }
+
+  // The document as it stands, to compare with once a save is done
+  async snapshot(userId: number, transaction: Transaction) {
+    return transactionRevisionContent(transaction, await storage.getTransactionItemsByTransactionId(userId, transaction.id));
+  }
+
+  // Revision 1: the document as created
+  async recordCreated(userId: number, transaction: Transaction, editedBy: number | null) {
+    return storage.createTransactionRevision({
+      transactionId: transaction.id,
+      revision: 1,
+      content: await this.snapshot(userId, transaction),
+      changes: [],
+      editedBy,
+      userId,
+    });
+  }
+
+  // Records a save given the document as it was before it. A save that changed nothing is not recorded.
+  // A document from before revisions were kept, or brought in from Tally, gets its earlier state as revision 1 first.
+  async recordSave(userId: number, transactionId: number, before: TransactionRevisionContent, editedBy: number | null) {
+    const transaction = await storage.getTransaction(userId, transactionId);
+    if (!transaction) return undefined;
+
+    const after = await this.snapshot(userId, transaction);
+    const changes = this.compare(await this.names(userId), before, after);
+    if (changes.length === 0) return undefined;
+
+    const revisions = await storage.getTransactionRevisions(userId, transactionId);
+    let latest = revisions.length > 0 ? revisions[revisions.length - 1].revision : 0;
+    if (latest === 0) {
+      await storage.createTransactionRevision({ transactionId, revision: 1, content: before, changes: [], editedBy: null, userId });
+      latest = 1;
+    }
+
+    return storage.createTransactionRevision({
+      transactionId,
+      revision: latest + 1,
+      content: after,
+      changes,
+      editedBy,
+      userId,
+    });
+  }
+
+  // How storage.saveTransactionEdit records an edit; the names are looked up before the save starts
+  async reviser(userId: number, editedBy: number | null): Promise<TransactionSave['revise']> {
+    const names = await this.names(userId);
+    return (before, after) => {
+      const content = {
+        before: transactionRevisionContent(before.transaction, before.lines),
+        after: transactionRevisionContent(after.transaction, after.lines),
+      };
+      const changes = this.compare(names, content.before, content.after);
+      return changes.length > 0 ? { ...content, changes, editedBy } : undefined;
+    };
+  }
+
+  private async names(userId: number): Promise<RevisionNames> {
+    return {
+      parties: new Map((await storage.getPartiesByUserId(userId)).map((party) => [party.id, party.name])),
+      items: new Map((await storage.getItemsByUserId(userId)).map((item) => [item.id, item.name])),
+      godowns: new Map((await storage.getGodownsByUserId(userId)).map((godown) => [godown.id, godown.name])),
+    };
+  }
+
+  // Header fields that differ, then lines matched by id: changed, added and removed
+  private compare({ parties, items, godowns }: RevisionNames, before: TransactionRevisionContent, after: TransactionRevisionContent) {
+    const changes: TransactionRevisionChange[] = [];
+    const display = (field: string, value: string | number | boolean | null) => {
+      if (value === null) return null;
+      if (field === 'partyId') return parties.get(value as number) ?? `Party #${value}`;
+      if (field === 'itemId') return items.get(value as number) ?? `Item #${value}`;
+      if (field === 'godownId') return godowns.get(value as number) ?? `Godown #${value}`;
+      if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+      return String(value);
+    };
+
+    for (const [field, label] of Object.entries(headerLabels) as [keyof typeof headerLabels, string][]) {
+      if (before[field] !== after[field]) {
+        changes.push({ field: label, before: display(field, before[field]), after: display(field, after[field]) });
+      }
+    }
+
+    const describe = (line: RevisionLine) =>
+      `${display('itemId', line.itemId) ?? line.description ?? 'Line'} × ${line.quantity} @ ${line.rate}`;
+    const earlier = new Map(before.lines.map((line) => [line.lineId, line]));
+    after.lines.forEach((line, index) => {
+      const previous = earlier.get(line.lineId);
+      if (!previous) {
+        changes.push({ field: `Line ${index + 1}`, before: null, after: describe(line) });
+        return;
+      }
+      for (const [field, label] of Object.entries(lineLabels) as [keyof typeof lineLabels, string][]) {
+        if (previous[field] !== line[field]) {
+          changes.push({ field: `Line ${index + 1} ${label}`, before: display(field, previous[field]), after: display(field, line[field]) });
+        }
+      }
+    });
+    const kept = new Set(after.lines.map((line) => line.lineId));
+    before.lines.forEach((line, index) => {
+      if (!kept.has(line.lineId)) {
+        changes.push({ field: `Line ${index + 1} (removed)`, before: describe(line), after: null });
+      }
+    });
+
+    return changes;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { insertTransactionItemSchema } from "@shared/schema";
+import { storage } from "../storage";
+import { TransactionService, TotalsError } from "./transactionService";
+
+const transactionService = new TransactionService();
+
+let companies = 0;
+
+// A company in Maharashtra with a customer in the same state and one in Karnataka
+async function setUp() {
+  const user = await storage.createUser({
+    username: `lines${++companies}`, password: "secret", companyName: `Company ${companies}`, gstin: "27BBBBB1111B1ZN",
+  });
+  const local = await storage.createParty({ name: "Pune Traders", type: "customer", gstin: "27AAAAA0000A1Z9", userId: user.id });
+  const interstate = await storage.createParty({ name: "Kaveri Traders", type: "customer", gstin: "29CCCCC2222C1Z4", userId: user.id });
+  return { user, local, interstate };
+}
+
+const line = (values: Record<string, unknown>) => ({ transactionId: 1, quantity: "1", rate: "100", amount: "100.00", totalAmount: "100.00", ...values });
+
+describe("document lines", () => {
+  it("accepts figures that read as numbers and rejects the rest", () => {
+    expect(insertTransactionItemSchema.safeParse(line({ quantity: " 2.5 ", rate: "0", taxRate: "18", cessRate: null })).success).toBe(true);
+
+    const messages = (values: Record<string, unknown>) => {
+      const result = insertTransactionItemSchema.safeParse(line(values));
+      return result.success ? [] : result.error.issues.map((issue) => issue.message);
+    };
+    expect(messages({ quantity: "0" })).toEqual(["Quantity must be a number above zero"]);
+    expect(messages({ quantity: "two" })).toEqual(["Quantity must be a number above zero"]);
+    expect(messages({ rate: "" })).toEqual(["Rate must be a number of zero or more"]);
+    expect(messages({ rate: "-5" })).toEqual(["Rate must be a number of zero or more"]);
+    expect(messages({ taxRate: "NaN", cessRate: "1e999" })).toEqual([
+      "Tax rate must be a number of zero or more",
+      "Cess rate must be a number of zero or more",
+    ]);
+  });
+});
+
+describe("TransactionService", () => {
+  it("splits GST into CGST and SGST within a state and charges IGST across states", async () => {
+    const { user, local, interstate } = await setUp();
+    const lines = [{ quantity: "3", rate: "33.33", taxRate: "18" }, { quantity: "1", rate: "50", taxRate: "5", cessRate: "1" }];
+
+    const within = await transactionService.calculateTotals(user.id, { transactionType: "sales_invoice", partyId: local.id }, lines);
+    const across = await transactionService.calculateTotals(user.id, { transactionType: "sales_invoice", partyId: interstate.id }, lines);
+
+    expect(within.lines.map((found) => [found.amount, found.cgstAmount, found.sgstAmount, found.igstAmount, found.cessAmount, found.totalAmount]))
+      .toEqual([["99.99", "9.00", "9.00", "0.00", "0.00", "117.99"], ["50.00", "1.25", "1.25", "0.00", "0.50", "53.00"]]);
+    expect(within.totals).toEqual({
+      placeOfSupply: "27", taxableAmount: "149.99", cgstAmount: "10.25", sgstAmount: "10.25", igstAmount: "0.00", cessAmount: "0.50",
+      roundOff: "0.01", amount: "171.00",
+    });
+    expect(across.totals).toMatchObject({ placeOfSupply: "29", cgstAmount: "0.00", sgstAmount: "0.00", igstAmount: "20.50", amount: "171.00" });
+  });
+
+  it("takes tax out of prices that include it", async () => {
+    const { user, local } = await setUp();
+
+    const { lines, totals } = await transactionService.calculateTotals(user.id,
+      { transactionType: "sales_invoice", partyId: local.id, pricesIncludeTax: true }, [{ quantity: "1", rate: "118", taxRate: "18" }]);
+
+    expect([lines[0].amount, lines[0].taxAmount, lines[0].totalAmount]).toEqual(["100.00", "18.00", "118.00"]);
+    expect(totals.amount).toBe("118.00");
+  });
+
+  it("rejects figures from the client that differ from the calculation by more than a paisa", async () => {
+    const { user, local } = await setUp();
+    const calculated = await transactionService.calculateTotals(user.id, { transactionType: "sales_invoice", partyId: local.id },
+      [{ quantity: "2", rate: "50", taxRate: "18" }]);
+
+    expect(() => transactionService.assertTotals({ amount: "118.00", taxableAmount: "100.01" }, [{ totalAmount: "118" }], calculated)).not.toThrow();
+    expect(() => transactionService.assertTotals({ amount: "120.00" }, [{ amount: "90.00" }], calculated))
+      .toThrow(new TotalsError(["line 1 amount is 90.00, expected 100.00", "amount is 120.00, expected 118.00"]));
+  });
+});
@@ -1,27 +1,185 @@
-
 import { storage } from '../storage';
 import { InsertTransaction, InsertTransactionItem } from '@shared/schema';
+import { salesTransactionTypes } from '@shared/permissions';
+import { partyStateCode, stateCodeFromGstin } from '@shared/gst';
+
+// A line as submitted; its amounts are worked out here, so the client may leave them out
+type TransactionLine = Omit<InsertTransactionItem, 'transactionId' | 'amount' | 'totalAmount'>
+  & Partial<Pick<InsertTransactionItem, 'amount' | 'totalAmount'>>;
+
+type TaxHeader = Pick<InsertTransaction, 'transactionType' | 'partyId' | 'placeOfSupply' | 'pricesIncludeTax'>;
+
+export interface GstTotals {
+  placeOfSupply: string | null;
+  taxableAmount: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  cessAmount: string;
+  roundOff: string;
+  amount: string;
+}
+
+// The figures a client may send with a document; any it sends must match the server's
+type SubmittedTotals = Partial<Pick<InsertTransaction, 'amount' | 'taxableAmount' | 'cgstAmount' | 'sgstAmount' | 'igstAmount' | 'cessAmount'>>;
+
+type SubmittedLine = Partial<Pick<InsertTransactionItem, 'amount' | 'taxAmount' | 'totalAmount'>>;
+
+const noteTypes: string[] = ['credit_note', 'debit_note'];
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Totals sent by a client that disagree with the server's calculation
+export class TotalsError extends Error {
+  constructor(public mismatches: string[]) {
+    super(`Totals do not match the lines: ${mismatches.join('; ')}`);
+    this.name = 'TotalsError';
+  }
+}
 
 export class TransactionService {
-  async calculateTotals(items: InsertTransactionItem[]) {
-    let totalAmount = 0;
-    let totalTaxAmount = 0;
-
-    for (const item of items) {
-      const amount = parseFloat(item.amount.toString());
-      const taxAmount = parseFloat(item.taxAmount?.toString() || '0');
-      
-      totalAmount += amount;
-      totalTaxAmount += taxAmount;
+  // Works out GST for every line and the invoice totals. Lines are priced exclusive of tax
+  // unless the header says otherwise; the grand total is rounded to the rupee.
+  async calculateTotals<Line extends TransactionLine>(userId: number, header: TaxHeader, lines: Line[]) {
+    const { placeOfSupply, interState } = await this.getPlaceOfSupply(userId, header);
+    const gstRates = await this.getDefaultGstRates(userId, lines);
+
+    const calculatedLines = lines.map(line => {
+      const quantity = parseFloat(line.quantity);
+      const rate = parseFloat(line.rate);
+      const gstRate = line.taxRate != null
+        ? parseFloat(line.taxRate)
+        : (line.itemId ? gstRates.get(line.itemId) : undefined) ?? 0;
+      const cessRate = line.cessRate != null ? parseFloat(line.cessRate) : 0;
+      const gross = round2(quantity * rate);
+
+      let taxable: number;
+      let gst: number;
+      let cess: number;
+      if (header.pricesIncludeTax) {
+        taxable = round2(gross / (1 + (gstRate + cessRate) / 100));
+        cess = round2(taxable * cessRate / 100);
+        gst = round2(gross - taxable - cess);
+      } else {
+        taxable = gross;
+        gst = round2(taxable * gstRate / 100);
+        cess = round2(taxable * cessRate / 100);
+      }
+
+      const cgst = interState ? 0 : round2(gst / 2);
+      const sgst = interState ? 0 : round2(gst - cgst);
+      const igst = interState ? gst : 0;
+
+      return {
+        ...line,
+        amount: taxable.toFixed(2),
+        taxRate: gstRate.toFixed(2),
+        cessRate: cessRate.toFixed(2),
+        cgstAmount: cgst.toFixed(2),
+        sgstAmount: sgst.toFixed(2),
+        igstAmount: igst.toFixed(2),
+        cessAmount: cess.toFixed(2),
+        taxAmount: round2(gst + cess).toFixed(2),
+        totalAmount: round2(taxable + gst + cess).toFixed(2)
+      };
+    });
+
+    const sum = (key: 'amount' | 'cgstAmount' | 'sgstAmount' | 'igstAmount' | 'cessAmount') =>
+      round2(calculatedLines.reduce((total, line) => total + parseFloat(line[key]), 0));
+    const taxableAmount = sum('amount');
+    const cgstAmount = sum('cgstAmount');
+    const sgstAmount = sum('sgstAmount');
+    const igstAmount = sum('igstAmount');
+    const cessAmount = sum('cessAmount');
+    const total = round2(taxableAmount + cgstAmount + sgstAmount + igstAmount + cessAmount);
+    const amount = Math.round(total);
+
+    const totals: GstTotals = {
+      placeOfSupply,
+      taxableAmount: taxableAmount.toFixed(2),
+      cgstAmount: cgstAmount.toFixed(2),
+      sgstAmount: sgstAmount.toFixed(2),
+      igstAmount: igstAmount.toFixed(2),
+      cessAmount: cessAmount.toFixed(2),
+      roundOff: round2(amount - total).toFixed(2),
+      amount: amount.toFixed(2)
+    };
+
+    return { lines: calculatedLines, totals };
+  }
+
+  // Checks the figures a client worked out against calculateTotals. A difference of more than a
+  // paisa is rejected; figures the client left out are not checked.
+  assertTotals(
+    submitted: SubmittedTotals,
+    submittedLines: SubmittedLine[],
+    calculated: Awaited<ReturnType<TransactionService['calculateTotals']>>
+  ) {
+    const mismatches: string[] = [];
+    const compare = (label: string, sent: string | null | undefined, expected: string) => {
+      if (sent != null && round2(Math.abs(parseFloat(sent) - parseFloat(expected))) > 0.01) {
+        mismatches.push(`${label} is ${sent}, expected ${expected}`);
+      }
+    };
+
+    submittedLines.forEach((line, index) => {
+      const expected = calculated.lines[index];
+      compare(`line ${index + 1} amount`, line.amount, expected.amount);
+      compare(`line ${index + 1} tax`, line.taxAmount, expected.taxAmount);
+      compare(`line ${index + 1} total`, line.totalAmount, expected.totalAmount);
+    });
+    compare('taxable amount', submitted.taxableAmount, calculated.totals.taxableAmount);
+    compare('CGST', submitted.cgstAmount, calculated.totals.cgstAmount);
+    compare('SGST', submitted.sgstAmount, calculated.totals.sgstAmount);
+    compare('IGST', submitted.igstAmount, calculated.totals.igstAmount);
+    compare('cess', submitted.cessAmount, calculated.totals.cessAmount);
+    compare('amount', submitted.amount, calculated.totals.amount);
+
+    if (mismatches.length > 0) {
+      throw new TotalsError(mismatches);
     }
+  }
+
+  // Sales are supplied from the company's state to the customer's; purchases from the
+  // vendor's state to the company's. Unknown states are treated as intra-state.
+  private async getPlaceOfSupply(userId: number, header: TaxHeader) {
+    const company = await storage.getUser(userId);
+    const party = header.partyId ? await storage.getParty(userId, header.partyId) : undefined;
+    const companyState = stateCodeFromGstin(company?.gstin);
+    const partyState = party ? partyStateCode(party) : null;
+    // Credit and debit notes are raised on both sides, so the party says which way the supply went
+    const isSale = noteTypes.includes(header.transactionType) && party
+      ? party.type !== 'vendor'
+      : (salesTransactionTypes as readonly string[]).includes(header.transactionType);
+
+    const supplierState = isSale ? companyState : partyState;
+    const placeOfSupply = header.placeOfSupply || (isSale ? partyState ?? companyState : companyState);
 
     return {
-      totalAmount,
-      totalTaxAmount,
-      grandTotal: totalAmount + totalTaxAmount
+      placeOfSupply,
+      interState: !!supplierState && !!placeOfSupply && supplierState !== placeOfSupply
     };
   }
 
+  // Lines without a rate take the GST rate of their item's stock group
+  private async getDefaultGstRates(userId: number, lines: TransactionLine[]) {
+    const rates = new Map<number, number>();
+    const stockGroups = new Map(
+      (await storage.getStockGroupsByUserId(userId)).map(group => [group.id, group])
+    );
+
+    for (const line of lines) {
+      if (!line.itemId || line.taxRate != null || rates.has(line.itemId)) {
+        continue;
+      }
+      const item = await storage.getItem(userId, line.itemId);
+      const gstRate = item?.stockGroupId ? stockGroups.get(item.stockGroupId)?.gstRate : null;
+      rates.set(line.itemId, gstRate ? parseFloat(gstRate) : 0);
+    }
+
+    return rates;
+  }
+
   async validateTransaction(transaction: InsertTransaction) {
     // Add business validation rules
     if (!transaction.transactionDate) {
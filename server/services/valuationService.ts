@@ -0,0 +1,289 @@
+import { storage } from '../storage';
+import { CompanySettings, Item, StockMovement } from '@shared/schema';
+
+type ValuationMethod = CompanySettings['valuationMethod'];
+
+// Movement types whose rate is a purchase cost rather than a selling price
+const purchaseMovementTypes: string[] = ['grn', 'purchase_bill'];
+
+interface CostLayer {
+  quantity: number;
+  rate: number;
+  movementId: number | null; // Purchase movement the layer came from, null for opening stock and pooled layers
+}
+
+interface ItemCost {
+  layers: CostLayer[];
+  lastRate: number;
+}
+
+export interface ItemValuation {
+  itemId: number;
+  name: string;
+  stockGroupId: number | null;
+  quantity: number;
+  rate: number;
+  value: number;
+}
+
+export interface StockGroupValuation {
+  stockGroupId: number | null;
+  name: string;
+  quantity: number;
+  value: number;
+}
+
+export interface GodownValuation {
+  godownId: number | null;
+  name: string;
+  quantity: number;
+  value: number;
+}
+
+export interface ClosingStock {
+  asOf: string;
+  method: ValuationMethod;
+  items: ItemValuation[];
+  stockGroups: StockGroupValuation[];
+  godowns: GodownValuation[];
+  totalValue: number;
+}
+
+export class ValuationService {
+  // Closing stock valued at cost, as of the end of the given day (or now)
+  async getClosingStock(userId: number, asOf?: Date): Promise<ClosingStock> {
+    const [settings, items, stockGroups, godowns, movements, balances] = await Promise.all([
+      storage.getCompanySettings(userId),
+      storage.getItemsByUserId(userId),
+      storage.getStockGroupsByUserId(userId),
+      storage.getGodownsByUserId(userId),
+      storage.getStockMovements(userId, { asOf }),
+      storage.getStockBalances(userId, asOf)
+    ]);
+    const method = settings.valuationMethod;
+    const billRates = await this.getGrnBillRates(userId);
+
+    const itemValuations = items.map(item =>
+      this.valueItem(item, movements.filter(movement => movement.itemId === item.id), method, billRates)
+    );
+    const valuationById = new Map(itemValuations.map(valuation => [valuation.itemId, valuation]));
+
+    // Stock groups
+    const groupNames = new Map(stockGroups.map(group => [group.id, group.name]));
+    const groupTotals = new Map<number | null, StockGroupValuation>();
+    for (const valuation of itemValuations) {
+      const total = groupTotals.get(valuation.stockGroupId) ?? {
+        stockGroupId: valuation.stockGroupId,
+        name: valuation.stockGroupId !== null ? groupNames.get(valuation.stockGroupId) ?? 'Ungrouped' : 'Ungrouped',
+        quantity: 0,
+        value: 0
+      };
+      total.quantity += valuation.quantity;
+      total.value += valuation.value;
+      groupTotals.set(valuation.stockGroupId, total);
+    }
+
+    // Godowns: opening stock sits in the main location, the ledger says where everything else is
+    const godownNames = new Map(godowns.map(godown => [godown.id, godown.name]));
+    const godownTotals = new Map<number | null, GodownValuation>();
+    const addToGodown = (godownId: number | null, itemId: number, quantity: number) => {
+      const valuation = valuationById.get(itemId);
+      if (!valuation || quantity === 0) {
+        return;
+      }
+      const total = godownTotals.get(godownId) ?? {
+        godownId,
+        name: godownId !== null ? godownNames.get(godownId) ?? 'Unknown' : 'Main Location',
+        quantity: 0,
+        value: 0
+      };
+      total.quantity += quantity;
+      total.value += quantity * valuation.rate;
+      godownTotals.set(godownId, total);
+    };
+    for (const item of items) {
+      addToGodown(null, item.id, parseFloat(item.openingStock || '0'));
+    }
+    for (const balance of balances) {
+      addToGodown(balance.godownId, balance.itemId, balance.quantity);
+    }
+
+    return {
+      asOf: (asOf ?? new Date()).toISOString(),
+      method,
+      items: itemValuations,
+      stockGroups: Array.from(groupTotals.values()),
+      godowns: Array.from(godownTotals.values()),
+      totalValue: itemValuations.reduce((sum, valuation) => sum + valuation.value, 0)
+    };
+  }
+
+  // A bill raised against a GRN carries the final purchase rate for the goods that GRN received
+  private async getGrnBillRates(userId: number) {
+    const rates = new Map<number, Map<number, number>>();
+    const bills = (await storage.getTransactionsByType(userId, 'purchase_bill')).filter(
+      bill => bill.linkedTransactionId !== null && bill.status !== 'cancelled'
+    );
+
+    for (const bill of bills) {
+      const itemRates = rates.get(bill.linkedTransactionId!) ?? new Map<number, number>();
+      for (const line of await storage.getTransactionItemsByTransactionId(userId, bill.id)) {
+        if (line.itemId) {
+          itemRates.set(line.itemId, parseFloat(line.rate));
+        }
+      }
+      rates.set(bill.linkedTransactionId!, itemRates);
+    }
+
+    return rates;
+  }
+
+  private valueItem(
+    item: Item,
+    movements: StockMovement[],
+    method: ValuationMethod,
+    billRates: Map<number, Map<number, number>>
+  ): ItemValuation {
+    const openingStock = parseFloat(item.openingStock || '0');
+    const openingRate = parseFloat(item.purchasePrice || '0');
+    const cost: ItemCost = { layers: [], lastRate: openingRate };
+    if (openingStock !== 0) {
+      cost.layers.push({ quantity: openingStock, rate: openingRate, movementId: null });
+    }
+
+    const byId = new Map(movements.map(movement => [movement.id, movement]));
+    const issueRates = new Map<number, number>();
+    const inwardRates = new Map<number, number>();
+
+    for (const movement of movements) {
+      const quantity = parseFloat(movement.quantity);
+      const original = movement.reversedMovementId !== null ? byId.get(movement.reversedMovementId) : undefined;
+
+      if (original && quantity < 0) {
+        // Undoing a receipt takes the goods back out at the cost they came in at
+        this.removeReceipt(cost, original.id, -quantity, inwardRates.get(original.id) ?? cost.lastRate, method);
+      } else if (original) {
+        // Undoing an issue puts the goods back at the cost they went out at
+        this.receive(cost, quantity, issueRates.get(original.id) ?? this.averageRate(cost), movement.id, method);
+      } else if (quantity > 0) {
+        const rate = purchaseMovementTypes.includes(movement.movementType)
+          ? this.purchaseRate(movement, billRates)
+          : this.averageRate(cost); // Returns come back in at current cost, not at the selling price
+        inwardRates.set(movement.id, rate);
+        this.receive(cost, quantity, rate, movement.id, method);
+      } else if (quantity < 0) {
+        issueRates.set(movement.id, this.issue(cost, -quantity));
+      }
+    }
+
+    const quantity = cost.layers.reduce((sum, layer) => sum + layer.quantity, 0);
+    const value = cost.layers.reduce((sum, layer) => sum + layer.quantity * layer.rate, 0);
+
+    return {
+      itemId: item.id,
+      name: item.name,
+      stockGroupId: item.stockGroupId,
+      quantity,
+      rate: quantity !== 0 ? value / quantity : cost.lastRate,
+      value
+    };
+  }
+
+  private purchaseRate(movement: StockMovement, billRates: Map<number, Map<number, number>>) {
+    if (movement.movementType === 'grn' && movement.transactionId !== null) {
+      const billRate = billRates.get(movement.transactionId)?.get(movement.itemId);
+      if (billRate !== undefined) {
+        return billRate;
+      }
+    }
+    return parseFloat(movement.rate);
+  }
+
+  private averageRate(cost: ItemCost) {
+    const quantity = cost.layers.reduce((sum, layer) => sum + layer.quantity, 0);
+    const value = cost.layers.reduce((sum, layer) => sum + layer.quantity * layer.rate, 0);
+    return quantity > 0 ? value / quantity : cost.lastRate;
+  }
+
+  private receive(cost: ItemCost, quantity: number, rate: number, movementId: number, method: ValuationMethod) {
+    // Goods received while stock is negative first make up the shortfall
+    const shortfall = cost.layers.find(layer => layer.quantity < 0);
+    if (shortfall) {
+      const covered = Math.min(quantity, -shortfall.quantity);
+      shortfall.quantity += covered;
+      quantity -= covered;
+      cost.layers = cost.layers.filter(layer => layer.quantity !== 0);
+    }
+
+    if (quantity > 0) {
+      cost.layers.push({ quantity, rate, movementId });
+    }
+    cost.lastRate = rate;
+
+    if (method === 'weighted_average') {
+      this.pool(cost);
+    }
+  }
+
+  // Takes goods out oldest layer first and returns the average cost of what was issued.
+  // Under weighted average there is only ever one layer, so this issues at the running average.
+  private issue(cost: ItemCost, quantity: number) {
+    let remaining = quantity;
+    let issuedValue = 0;
+
+    for (const layer of cost.layers) {
+      if (remaining <= 0 || layer.quantity <= 0) {
+        continue;
+      }
+      const taken = Math.min(remaining, layer.quantity);
+      layer.quantity -= taken;
+      issuedValue += taken * layer.rate;
+      remaining -= taken;
+    }
+    cost.layers = cost.layers.filter(layer => layer.quantity !== 0);
+
+    // Issuing more than is in stock leaves a negative layer at the last known cost
+    if (remaining > 0) {
+      const shortfall = cost.layers.find(layer => layer.quantity < 0);
+      if (shortfall) {
+        shortfall.quantity -= remaining;
+      } else {
+        cost.layers.push({ quantity: -remaining, rate: cost.lastRate, movementId: null });
+      }
+      issuedValue += remaining * cost.lastRate;
+    }
+
+    return quantity > 0 ? issuedValue / quantity : cost.lastRate;
+  }
+
+  private removeReceipt(cost: ItemCost, movementId: number, quantity: number, rate: number, method: ValuationMethod) {
+    if (method === 'weighted_average') {
+      const layer = cost.layers[0];
+      const remainingQuantity = (layer?.quantity ?? 0) - quantity;
+      const remainingValue = (layer ? layer.quantity * layer.rate : 0) - quantity * rate;
+      cost.layers = remainingQuantity !== 0
+        ? [{ quantity: remainingQuantity, rate: remainingQuantity > 0 ? remainingValue / remainingQuantity : rate, movementId: null }]
+        : [];
+      return;
+    }
+
+    // Take what is left of the original layer; anything already issued comes out of the oldest stock
+    const layer = cost.layers.find(layer => layer.movementId === movementId);
+    const taken = layer ? Math.min(quantity, layer.quantity) : 0;
+    if (layer) {
+      layer.quantity -= taken;
+      cost.layers = cost.layers.filter(layer => layer.quantity !== 0);
+    }
+    if (quantity - taken > 0) {
+      this.issue(cost, quantity - taken);
+    }
+  }
+
+  private pool(cost: ItemCost) {
+    const quantity = cost.layers.reduce((sum, layer) => sum + layer.quantity, 0);
+    const value = cost.layers.reduce((sum, layer) => sum + layer.quantity * layer.rate, 0);
+    cost.layers = quantity !== 0
+      ? [{ quantity, rate: quantity > 0 ? value / quantity : cost.lastRate, movementId: null }]
+      : [];
+  }
+}
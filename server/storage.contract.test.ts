@@ -0,0 +1,636 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { createRequire } from "module";
+import { newDb, DataType } from "pg-mem";
+import type { Pool, PoolClient, QueryArrayConfig, QueryConfig, QueryResult } from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+import { transactionRevisionContent } from "./services/transactionRevisionService";
+import { MemStorage, DatabaseStorage, type IStorage, type TransactionSave } from "./storage";
+import type { Database } from "./db";
+
+// drizzle-kit's ES module build requires Node built-ins dynamically, which only its CommonJS build can do
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") = createRequire(import.meta.url)("drizzle-kit/api");
+
+// The contract every storage driver keeps. Each driver starts empty apart from what its constructor
+// seeds, and each test signs up a company of its own, so tests neither see nor disturb one another.
+
+const day = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * day);
+
+// A pg-mem database with the tables of shared/schema.ts, as drizzle-kit would create them
+async function createDatabase(): Promise<Database> {
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  const mem = newDb();
+  mem.public.registerFunction({ name: "floor", args: [DataType.float], returns: DataType.float, implementation: Math.floor });
+  mem.public.registerFunction({ name: "floor", args: [DataType.decimal], returns: DataType.decimal, implementation: Math.floor });
+  for (const statement of statements) {
+    mem.public.none(statement);
+  }
+
+  // pg-mem ignores the row mode and type parsers node-postgres asks for; drizzle reads joined rows as arrays
+  const pg = mem.adapters.createPg();
+  const pool: Pool = new pg.Pool();
+  const arrayRows = (target: Pool | PoolClient) => {
+    const query: (config: string | QueryConfig, values?: unknown[]) => Promise<QueryResult> = target.query.bind(target);
+    const rowsAsArrays = async (config: string | QueryConfig | QueryArrayConfig, values?: unknown[]) => {
+      if (typeof config !== "object") return query(config, values);
+      const { types, rowMode, ...rest } = config as QueryArrayConfig;
+      const result = await query(rest, values);
+      if (rowMode === "array") result.rows = result.rows.map((row: object) => Object.values(row));
+      return result;
+    };
+    target.query = rowsAsArrays as typeof target.query;
+  };
+  arrayRows(pool);
+  const connect: () => Promise<PoolClient> = pool.connect.bind(pool);
+  pool.connect = (async () => {
+    const client = await connect();
+    arrayRows(client);
+    return client;
+  }) as typeof pool.connect;
+  return drizzle(pool) as unknown as Database;
+}
+
+const drivers: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", async () => new DatabaseStorage(await createDatabase())],
+];
+
+describe.each(drivers)("%s", (_driver, create) => {
+  let storage: IStorage;
+  let companies = 0;
+
+  beforeAll(async () => {
+    storage = await create();
+  });
+
+  const signUp = () => storage.createUser({
+    username: `company${++companies}`,
+    password: "secret",
+    companyName: `Company ${companies}`,
+  });
+
+  const invoice = (userId: number, values: Partial<schema.InsertTransaction> = {}): schema.InsertTransaction => ({
+    transactionNumber: `INV-${Math.random().toString(36).slice(2, 8)}`,
+    transactionType: "sales_invoice",
+    amount: "100.00",
+    status: "pending",
+    userId,
+    ...values,
+  });
+
+  const line = (values: Partial<schema.InsertTransactionItem> = {}) => ({
+    quantity: "1",
+    rate: "100",
+    amount: "100.00",
+    totalAmount: "100.00",
+    ...values,
+  });
+
+  describe("users and companies", () => {
+    it("finds a user by id and by username", async () => {
+      const user = await signUp();
+      expect((await storage.getUser(user.id))?.username).toBe(user.username);
+      expect((await storage.getUserByUsername(user.username))?.id).toBe(user.id);
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+
+    it("lists the owner with their own team members", async () => {
+      const owner = await signUp();
+      const other = await signUp();
+      const member = await storage.createUser({ username: `member${owner.id}`, password: "x", companyName: owner.companyName, ownerId: owner.id, role: "sales" });
+
+      expect((await storage.getTeamMembers(owner.id)).map((user) => user.id)).toEqual([owner.id, member.id]);
+      expect((await storage.getTeamMembers(other.id)).map((user) => user.id)).toEqual([other.id]);
+      await expect(storage.updateTeamMember(other.id, member.id, { role: "admin" })).rejects.toThrow();
+    });
+
+    it("deletes a team member only while no record names them", async () => {
+      const owner = await signUp();
+      const member = (role: string) => storage.createUser({ username: `${role}${owner.id}`, password: "x", companyName: owner.companyName, ownerId: owner.id, role });
+      const [idle, editor, canceller, approver, bookkeeper] = await Promise.all(["idle", "editor", "canceller", "approver", "bookkeeper"].map(member));
+      const transaction = await storage.createTransaction(invoice(owner.id, { cancelledBy: canceller.id, matchApprovedBy: approver.id }));
+      await storage.createTransactionRevision({
+        transactionId: transaction.id, revision: 1, content: transactionRevisionContent(transaction, []), changes: [], editedBy: editor.id, userId: owner.id,
+      });
+      await storage.createJournalEntry({ voucherNumber: "JV-1", entryDate: new Date(), createdBy: bookkeeper.id, userId: owner.id }, []);
+
+      for (const named of [editor, canceller, approver, bookkeeper]) {
+        expect(await storage.isTeamMemberReferenced(owner.id, named.id)).toBe(true);
+        await expect(storage.deleteTeamMember(owner.id, named.id)).rejects.toThrow();
+      }
+      expect(await storage.isTeamMemberReferenced(owner.id, idle.id)).toBe(false);
+      await expect(storage.deleteTeamMember((await signUp()).id, idle.id)).rejects.toThrow();
+      await storage.deleteTeamMember(owner.id, idle.id);
+      expect((await storage.getTeamMembers(owner.id)).map((user) => user.id)).toEqual([owner.id, editor.id, canceller.id, approver.id, bookkeeper.id]);
+    });
+
+    it("creates company settings with defaults on first read", async () => {
+      const user = await signUp();
+      const settings = await storage.getCompanySettings(user.id);
+      expect(settings.userId).toBe(user.id);
+      expect((await storage.getCompanySettings(user.id)).id).toBe(settings.id);
+
+      const updated = await storage.updateCompanySettings(user.id, { tallySyncBatchSize: 25 });
+      expect(updated.tallySyncBatchSize).toBe(25);
+    });
+  });
+
+  describe("tenant scoping", () => {
+    it("keeps one company's parties and items from another", async () => {
+      const owner = await signUp();
+      const other = await signUp();
+      const party = await storage.createParty({ name: "Acme", type: "customer", userId: owner.id });
+      const item = await storage.createItem({ name: "Laptop", userId: owner.id, isListed: true, featuredProduct: true });
+
+      expect(await storage.getParty(other.id, party.id)).toBeUndefined();
+      expect(await storage.getPartiesByUserId(other.id)).toEqual([]);
+      expect(await storage.getItem(other.id, item.id)).toBeUndefined();
+      await expect(storage.updateParty(other.id, party.id, { name: "Taken" })).rejects.toThrow();
+      await expect(storage.updateItem(other.id, item.id, { name: "Taken" })).rejects.toThrow();
+      expect((await storage.getParty(owner.id, party.id))?.name).toBe("Acme");
+    });
+
+    it("features only the company's own listed items, up to the limit", async () => {
+      const owner = await signUp();
+      const other = await signUp();
+      for (const name of ["One", "Two", "Three"]) {
+        await storage.createItem({ name, userId: owner.id, isListed: true, featuredProduct: true });
+      }
+      await storage.createItem({ name: "Unlisted", userId: owner.id, isListed: false, featuredProduct: true });
+
+      expect(await storage.getFeatureProducts(other.id)).toEqual([]);
+      expect((await storage.getFeatureProducts(owner.id)).map((item) => item.name).sort()).toEqual(["One", "Three", "Two"]);
+      expect(await storage.getFeatureProducts(owner.id, 2)).toHaveLength(2);
+    });
+
+    it("changes only listing fields through updateItemListing", async () => {
+      const user = await signUp();
+      const item = await storage.createItem({ name: "Desk", userId: user.id, purchasePrice: "500" });
+      const listed = await storage.updateItemListing(user.id, item.id, { isListed: true, brandName: "Oak", purchasePrice: "1" });
+
+      expect(listed.isListed).toBe(true);
+      expect(listed.brandName).toBe("Oak");
+      expect(Number(listed.purchasePrice)).toBe(500);
+    });
+  });
+
+  describe("masters", () => {
+    it("lists a company's parties by type", async () => {
+      const user = await signUp();
+      const other = await signUp();
+      const customer = await storage.createParty({ name: "Acme", type: "customer", userId: user.id });
+      const vendor = await storage.createParty({ name: "Supplies Co", type: "vendor", userId: user.id });
+      await storage.createParty({ name: "Elsewhere", type: "customer", userId: other.id });
+
+      expect((await storage.getPartiesByType(user.id, "customer")).map((party) => party.id)).toEqual([customer.id]);
+      expect((await storage.getPartiesByType(user.id, "vendor")).map((party) => party.id)).toEqual([vendor.id]);
+    });
+
+    it("saves, changes and deletes stock groups and units within their company", async () => {
+      const user = await signUp();
+      const other = await signUp();
+      const parent = await storage.createStockGroup({ name: "Electronics", userId: user.id });
+      const child = await storage.createStockGroup({ name: "Laptops", parentId: parent.id, gstRate: "18", userId: user.id });
+      const unit = await storage.createUnit({ symbol: "Nos", formalName: "Numbers", uqc: "NOS", userId: user.id });
+
+      expect((await storage.getStockGroupsByUserId(user.id)).map((group) => group.id)).toEqual([parent.id, child.id]);
+      expect(Number((await storage.updateStockGroup(user.id, child.id, { hsnCode: "8471" })).gstRate)).toBe(18);
+      expect((await storage.updateUnit(user.id, unit.id, { decimalPlaces: 2 })).decimalPlaces).toBe(2);
+      expect(await storage.getStockGroupsByUserId(other.id)).toEqual([]);
+      expect(await storage.getUnit(other.id, unit.id)).toBeUndefined();
+      await expect(storage.updateStockGroup(other.id, child.id, { name: "Taken" })).rejects.toThrow();
+      await expect(storage.deleteStockGroup(other.id, child.id)).rejects.toThrow();
+      await expect(storage.deleteUnit(other.id, unit.id)).rejects.toThrow();
+
+      await storage.deleteStockGroup(user.id, child.id);
+      await storage.deleteUnit(user.id, unit.id);
+      expect(await storage.getStockGroup(user.id, child.id)).toBeUndefined();
+      expect(await storage.getUnitsByUserId(user.id)).toEqual([]);
+    });
+
+    it("changes a godown only within its company", async () => {
+      const user = await signUp();
+      const other = await signUp();
+      const godown = await storage.createGodown({ name: "Main", userId: user.id });
+
+      expect((await storage.updateGodown(user.id, godown.id, { address: "Pune" })).address).toBe("Pune");
+      expect(await storage.getGodown(other.id, godown.id)).toBeUndefined();
+      await expect(storage.updateGodown(other.id, godown.id, { name: "Taken" })).rejects.toThrow();
+    });
+
+    it("keeps BNPL limits per party and limit type", async () => {
+      const user = await signUp();
+      const other = await signUp();
+      const [customer, vendor] = await Promise.all([
+        storage.createParty({ name: "Acme", type: "customer", userId: user.id }),
+        storage.createParty({ name: "Supplies Co", type: "vendor", userId: user.id }),
+      ]);
+      const sales = await storage.createBnplLimit({ partyId: customer.id, limitType: "sales", totalLimit: "50000", userId: user.id });
+      const purchase = await storage.createBnplLimit({ partyId: vendor.id, limitType: "purchase", totalLimit: "20000", userId: user.id });
+
+      expect(Number(sales.usedLimit)).toBe(0);
+      expect((await storage.getBnplLimitsByPartyId(user.id, customer.id)).map((limit) => limit.id)).toEqual([sales.id]);
+      expect((await storage.getBnplLimitsByType(user.id, "purchase")).map((limit) => limit.id)).toEqual([purchase.id]);
+      expect((await storage.getBnplLimitsByUserId(user.id)).map((limit) => limit.id).sort((a, b) => a - b)).toEqual([sales.id, purchase.id]);
+      expect(await storage.getBnplLimitsByUserId(other.id)).toEqual([]);
+      expect(Number((await storage.updateBnplLimit(user.id, sales.id, { usedLimit: "1500" })).usedLimit)).toBe(1500);
+      await expect(storage.updateBnplLimit(other.id, sales.id, { usedLimit: "0" })).rejects.toThrow();
+    });
+  });
+
+  describe("documents", () => {
+    it("saves a document with its lines", async () => {
+      const user = await signUp();
+      const transaction = await storage.createTransactionWithItems(invoice(user.id), [line(), line({ quantity: "2", amount: "200.00", totalAmount: "200.00" })]);
+
+      const lines = await storage.getTransactionItemsByTransactionId(user.id, transaction.id);
+      expect(lines.map((saved) => Number(saved.quantity))).toEqual([1, 2]);
+      expect(lines.every((saved) => saved.transactionId === transaction.id)).toBe(true);
+      expect(await storage.getTransactionItemsByTransactionId((await signUp()).id, transaction.id)).toEqual([]);
+    });
+
+    it("keeps numbers unique per company and document type", async () => {
+      const user = await signUp();
+      await storage.createTransaction(invoice(user.id, { transactionNumber: "INV-1" }));
+
+      await expect(storage.createTransaction(invoice(user.id, { transactionNumber: "INV-1" }))).rejects.toThrow();
+      await storage.createTransaction(invoice(user.id, { transactionNumber: "INV-1", transactionType: "receipt" }));
+      await storage.createTransaction(invoice((await signUp()).id, { transactionNumber: "INV-1" }));
+    });
+
+    it("totals what open invoices and bills still owe", async () => {
+      const user = await signUp();
+      await storage.createTransaction(invoice(user.id, { balanceDue: "100.00" }));
+      await storage.createTransaction(invoice(user.id, { status: "partially_paid", balanceDue: "40.00" }));
+      await storage.createTransaction(invoice(user.id, { status: "paid", balanceDue: "0.00" }));
+      await storage.createTransaction(invoice(user.id, { transactionType: "purchase_bill", status: "overdue", balanceDue: "75.50" }));
+
+      expect(await storage.getOpenReceivables(user.id)).toEqual({ total: 140, count: 2 });
+      expect(await storage.getOpenPayables(user.id)).toEqual({ total: 75.5, count: 1 });
+      expect(await storage.getOpenReceivables((await signUp()).id)).toEqual({ total: 0, count: 0 });
+    });
+
+    it("ages what is owed by days past the due date", async () => {
+      const user = await signUp();
+      const owed = [[5, "10.00"], [-10, "20.00"], [-45, "30.00"], [-90, "40.00"]] as const;
+      for (const [days, balanceDue] of owed) {
+        await storage.createTransaction(invoice(user.id, { dueDate: daysFromNow(days), balanceDue }));
+      }
+      await storage.createTransaction(invoice(user.id, { status: "paid", dueDate: daysFromNow(-90), balanceDue: "500.00" }));
+      await storage.createTransaction(invoice(user.id, { balanceDue: "500.00" }));
+      await storage.createTransaction(invoice(user.id, { transactionType: "purchase_bill", dueDate: daysFromNow(-3), balanceDue: "60.00" }));
+
+      expect(await storage.getReceivablesAgeing(user.id)).toEqual({ current: 10, days1to30: 20, days31to60: 30, days60plus: 40 });
+      expect(await storage.getPayablesAgeing(user.id)).toEqual({ current: 0, days1to30: 60, days31to60: 0, days60plus: 0 });
+    });
+
+    it("replaces a document's lines: editing, adding and removing", async () => {
+      const user = await signUp();
+      const item = await storage.createItem({ name: "Chair", userId: user.id });
+      const transaction = await storage.createTransactionWithItems(invoice(user.id), [line({ itemId: item.id }), line({ rate: "50" })]);
+      const [kept, dropped] = await storage.getTransactionItemsByTransactionId(user.id, transaction.id);
+      const movement = await storage.createStockMovement({
+        itemId: item.id,
+        transactionId: transaction.id,
+        transactionItemId: dropped.id,
+        movementType: "sales_invoice",
+        movementDate: new Date(),
+        quantity: "-1",
+        rate: "50",
+        userId: user.id,
+      });
+
+      await storage.replaceTransactionItems(user.id, transaction.id, [{ ...line({ itemId: item.id }), id: kept.id, quantity: "3" }, line({ rate: "70" })]);
+
+      const lines = await storage.getTransactionItemsByTransactionId(user.id, transaction.id);
+      expect(lines.map((saved) => [saved.id === kept.id, Number(saved.quantity), Number(saved.rate)])).toEqual([[true, 3, 100], [false, 1, 70]]);
+      const [unlinked] = await storage.getStockMovementsByTransactionId(user.id, transaction.id);
+      expect(unlinked.id).toBe(movement.id);
+      expect(unlinked.transactionItemId).toBeNull();
+    });
+
+    it("changes nothing when a replacement names a line the document does not have", async () => {
+      const user = await signUp();
+      const transaction = await storage.createTransactionWithItems(invoice(user.id), [line()]);
+
+      await expect(storage.replaceTransactionItems(user.id, transaction.id, [{ ...line(), id: 999999 }])).rejects.toThrow();
+      expect(await storage.getTransactionItemsByTransactionId(user.id, transaction.id)).toHaveLength(1);
+      await expect(storage.replaceTransactionItems((await signUp()).id, transaction.id, [])).rejects.toThrow();
+    });
+  });
+
+  describe("saving an edit", () => {
+    const revise: TransactionSave["revise"] = (before, after) => ({
+      before: transactionRevisionContent(before.transaction, before.lines),
+      after: transactionRevisionContent(after.transaction, after.lines),
+      changes: [{ field: "Amount", before: before.transaction.amount, after: after.transaction.amount }],
+      editedBy: after.transaction.userId,
+    });
+
+    it("saves the header, lines and revision together", async () => {
+      const user = await signUp();
+      const transaction = await storage.createTransactionWithItems(invoice(user.id), [line(), line()]);
+      const [first] = await storage.getTransactionItemsByTransactionId(user.id, transaction.id);
+
+      const saved = await storage.saveTransactionEdit(user.id, transaction.id, {
+        updates: { amount: "300.00", notes: "Revised" },
+        lines: [{ ...line(), id: first.id, quantity: "3", amount: "300.00", totalAmount: "300.00" }],
+        revise,
+      });
+
+      expect(Number(saved.amount)).toBe(300);
+      expect(saved.notes).toBe("Revised");
+      expect((await storage.getTransactionItemsByTransactionId(user.id, transaction.id)).map((saved) => Number(saved.quantity))).toEqual([3]);
+
+      // A document without revisions gets one for how it was before the first save is recorded
+      const revisions = await storage.getTransactionRevisions(user.id, transaction.id);
+      expect(revisions.map((revision) => [revision.revision, Number(revision.content.amount), revision.content.lines.length])).toEqual([
+        [1, 100, 2],
+        [2, 300, 1],
+      ]);
+    });
+
+    it("numbers each save's revision after the last one", async () => {
+      const user = await signUp();
+      const transaction = await storage.createTransaction(invoice(user.id));
+
+      await storage.saveTransactionEdit(user.id, transaction.id, { updates: { amount: "110.00" }, revise });
+      await storage.saveTransactionEdit(user.id, transaction.id, { updates: {}, revise: () => undefined });
+      await storage.saveTransactionEdit(user.id, transaction.id, { updates: { amount: "120.00" }, revise });
+
+      expect((await storage.getTransactionRevisions(user.id, transaction.id)).map((revision) => revision.revision)).toEqual([1, 2, 3]);
+    });
+
+    it("saves nothing when the lines cannot be saved or the document is another company's", async () => {
+      const user = await signUp();
+      const transaction = await storage.createTransactionWithItems(invoice(user.id), [line()]);
+
+      await expect(storage.saveTransactionEdit(user.id, transaction.id, {
+        updates: { amount: "999.00" },
+        lines: [{ ...line(), id: 999999 }],
+        revise,
+      })).rejects.toThrow();
+      await expect(storage.saveTransactionEdit((await signUp()).id, transaction.id, { updates: { amount: "999.00" }, revise })).rejects.toThrow();
+
+      expect(Number((await storage.getTransaction(user.id, transaction.id))?.amount)).toBe(100);
+      expect(await storage.getTransactionRevisions(user.id, transaction.id)).toEqual([]);
+    });
+  });
+
+  describe("stock and allocations", () => {
+    it("nets stock per item and godown, as of a date", async () => {
+      const user = await signUp();
+      const item = await storage.createItem({ name: "Bolt", userId: user.id });
+      const godown = await storage.createGodown({ name: "Rear", userId: user.id });
+      const move = (quantity: string, days: number, godownId: number | null = null) => storage.createStockMovement({
+        itemId: item.id, godownId, movementType: "grn", movementDate: daysFromNow(days), quantity, rate: "1", userId: user.id,
+      });
+      await move("10", -10);
+      await move("-4", -5);
+      await move("7", -1, godown.id);
+      await move("-2", 5);
+
+      const balances = (asOf?: Date) => storage.getStockBalances(user.id, asOf).then((rows) =>
+        rows.map((row) => [row.godownId, Number(row.quantity)]).sort((a, b) => Number(a[0]) - Number(b[0])));
+      expect(await balances()).toEqual([[null, 4], [godown.id, 7]]);
+      expect(await balances(daysFromNow(-7))).toEqual([[null, 10]]);
+      expect(await storage.getStockMovements(user.id, { godownId: godown.id })).toHaveLength(1);
+    });
+
+    it("deletes a godown only while no line or movement is at it", async () => {
+      const user = await signUp();
+      const item = await storage.createItem({ name: "Nut", userId: user.id });
+      const [onLine, onMovement, empty] = await Promise.all(["Front", "Yard", "Loft"].map((name) => storage.createGodown({ name, userId: user.id })));
+      await storage.createTransactionWithItems(invoice(user.id), [line({ itemId: item.id, godownId: onLine.id })]);
+      await storage.createStockMovement({
+        itemId: item.id, godownId: onMovement.id, movementType: "grn", movementDate: new Date(), quantity: "5", rate: "1", userId: user.id,
+      });
+
+      for (const godown of [onLine, onMovement]) {
+        expect(await storage.isGodownInUse(user.id, godown.id)).toBe(true);
+        await expect(storage.deleteGodown(user.id, godown.id)).rejects.toThrow();
+      }
+      expect(await storage.isGodownInUse(user.id, empty.id)).toBe(false);
+      await expect(storage.deleteGodown((await signUp()).id, empty.id)).rejects.toThrow();
+      await storage.deleteGodown(user.id, empty.id);
+      expect((await storage.getGodownsByUserId(user.id)).map((godown) => godown.name).sort()).toEqual(["Front", "Yard"]);
+    });
+
+    it("finds allocations from both the payment and the document", async () => {
+      const user = await signUp();
+      const document = await storage.createTransaction(invoice(user.id));
+      const payment = await storage.createTransaction(invoice(user.id, { transactionType: "receipt" }));
+      const allocation = await storage.createPaymentAllocation({ paymentId: payment.id, documentId: document.id, amount: "60.00", userId: user.id });
+
+      expect((await storage.getPaymentAllocationsByTransactionId(user.id, payment.id)).map((found) => found.id)).toEqual([allocation.id]);
+      expect((await storage.getPaymentAllocationsByTransactionId(user.id, document.id)).map((found) => found.id)).toEqual([allocation.id]);
+      await expect(storage.deletePaymentAllocation((await signUp()).id, allocation.id)).rejects.toThrow();
+
+      await storage.deletePaymentAllocation(user.id, allocation.id);
+      expect(await storage.getPaymentAllocations(user.id)).toEqual([]);
+    });
+
+    it("saves a payment's allocations only once the check passes, showing it those already made", async () => {
+      const user = await signUp();
+      const [first, second] = await Promise.all([1, 2].map(() => storage.createTransaction(invoice(user.id))));
+      const payment = await storage.createTransaction(invoice(user.id, { transactionType: "receipt" }));
+      await storage.createPaymentAllocation({ paymentId: payment.id, documentId: first.id, amount: "30.00", userId: user.id });
+
+      const seen: number[][] = [];
+      const saved = await storage.savePaymentAllocations(user.id, payment.id, {
+        allocations: [{ documentId: first.id, amount: "20.00" }, { documentId: second.id, amount: "10.00" }],
+        check: (locked, documents, allocations) => {
+          seen.push([locked.id], documents.map((document) => document.id), allocations.map((allocation) => Number(allocation.amount)));
+        },
+      });
+      expect(seen).toEqual([[payment.id], [first.id, second.id], [30]]);
+      expect(saved.map((allocation) => [allocation.paymentId, allocation.documentId, Number(allocation.amount)]))
+        .toEqual([[payment.id, first.id, 20], [payment.id, second.id, 10]]);
+
+      const refused = storage.savePaymentAllocations(user.id, payment.id, {
+        allocations: [{ documentId: second.id, amount: "5.00" }],
+        check: () => { throw new Error("Over-allocated"); },
+      });
+      await expect(refused).rejects.toThrow("Over-allocated");
+      await expect(storage.savePaymentAllocations((await signUp()).id, payment.id, { allocations: [], check: () => {} })).rejects.toThrow();
+      expect(await storage.getPaymentAllocations(user.id)).toHaveLength(3);
+    });
+  });
+
+  describe("numbering series", () => {
+    it("issues numbers in turn per period, never below the start number or the floor asked for", async () => {
+      const user = await signUp();
+      const series = await storage.createNumberingSeries({ transactionType: "sales_invoice", prefix: "INV/", userId: user.id });
+
+      const taken = [];
+      for (let i = 0; i < 3; i++) taken.push(await storage.takeSeriesNumber(user.id, series.id, "2026-27"));
+      await storage.updateNumberingSeries(user.id, series.id, { startNumber: 10 });
+      taken.push(await storage.takeSeriesNumber(user.id, series.id, "2026-27"));
+      taken.push(await storage.takeSeriesNumber(user.id, series.id, "2027-28"));
+      taken.push(await storage.takeSeriesNumber(user.id, series.id, "2027-28", 20));
+      taken.push(await storage.takeSeriesNumber(user.id, series.id, "2027-28", 5));
+
+      expect(taken).toEqual([1, 2, 3, 10, 10, 20, 21]);
+      expect((await storage.getNumberingCounters(user.id, series.id)).map((counter) => [counter.period, counter.lastNumber]).sort())
+        .toEqual([["2026-27", 10], ["2027-28", 21]]);
+    });
+
+    it("keeps one series per document type and branch, and each company's series its own", async () => {
+      const user = await signUp();
+      const series = await storage.createNumberingSeries({ transactionType: "receipt", branch: "Pune", userId: user.id });
+
+      await expect(storage.createNumberingSeries({ transactionType: "receipt", branch: "Pune", userId: user.id })).rejects.toThrow();
+      await storage.createNumberingSeries({ transactionType: "receipt", branch: "Nashik", userId: user.id });
+      await expect(storage.takeSeriesNumber((await signUp()).id, series.id, "2026-27")).rejects.toThrow();
+    });
+  });
+
+  describe("general ledger", () => {
+    it("keeps account names and system accounts unique per company", async () => {
+      const user = await signUp();
+      await storage.createAccount({ name: "Cash", groupName: "Cash-in-Hand", systemKey: "cash", userId: user.id });
+
+      await expect(storage.createAccount({ name: "Cash", groupName: "Cash-in-Hand", userId: user.id })).rejects.toThrow();
+      await expect(storage.createAccount({ name: "Petty Cash", groupName: "Cash-in-Hand", systemKey: "cash", userId: user.id })).rejects.toThrow();
+      await storage.createAccount({ name: "Cash", groupName: "Cash-in-Hand", systemKey: "cash", userId: (await signUp()).id });
+    });
+
+    it("saves entries with their lines and sums balances as of a date", async () => {
+      const user = await signUp();
+      const cash = await storage.createAccount({ name: "Cash", groupName: "Cash-in-Hand", userId: user.id });
+      const capital = await storage.createAccount({ name: "Capital", groupName: "Capital Account", userId: user.id });
+      const first = await storage.createJournalEntry(
+        { voucherNumber: "JV-1", entryDate: daysFromNow(-10), userId: user.id },
+        [{ accountId: cash.id, debit: "100", credit: "0" }, { accountId: capital.id, debit: "0", credit: "100" }],
+      );
+      await storage.createJournalEntry(
+        { voucherNumber: "JV-2", entryDate: daysFromNow(-2), reversedEntryId: first.id, userId: user.id },
+        [{ accountId: cash.id, debit: "0", credit: "40" }, { accountId: capital.id, debit: "40", credit: "0" }],
+      );
+
+      expect((await storage.getJournalEntries(user.id)).map((entry) => entry.voucherNumber)).toEqual(["JV-1", "JV-2"]);
+      expect(await storage.getJournalEntries(user.id, { asOf: daysFromNow(-5) })).toHaveLength(1);
+      expect(await storage.getJournalLines(user.id, [first.id])).toHaveLength(2);
+      expect(await storage.getJournalLines(user.id, [])).toEqual([]);
+      expect(await storage.getJournalLines((await signUp()).id, [first.id])).toEqual([]);
+
+      const balances = (asOf?: Date) => storage.getAccountBalances(user.id, asOf).then((rows) =>
+        rows.sort((a, b) => a.accountId - b.accountId).map((row) => [row.debit, row.credit]));
+      expect(await balances()).toEqual([[100, 40], [40, 100]]);
+      expect(await balances(daysFromNow(-5))).toEqual([[100, 0], [0, 100]]);
+    });
+
+    it("numbers a journal voucher from the company's other vouchers, posting nothing when numbering throws", async () => {
+      const user = await signUp();
+      const cash = await storage.createAccount({ name: "Cash", groupName: "Cash-in-Hand", userId: user.id });
+      const capital = await storage.createAccount({ name: "Capital", groupName: "Capital Account", userId: user.id });
+      const lines = [{ accountId: cash.id, debit: "10", credit: "0" }, { accountId: capital.id, debit: "0", credit: "10" }];
+      const document = await storage.createTransaction(invoice(user.id));
+      await storage.createJournalEntry({ voucherNumber: document.transactionNumber, entryDate: new Date(), transactionId: document.id, userId: user.id }, lines);
+      await storage.createJournalEntry({ voucherNumber: "JV-1", entryDate: new Date(), userId: (await signUp()).id }, []);
+
+      const seen: string[][] = [];
+      const numberOf = (vouchers: { voucherNumber: string }[]) => {
+        seen.push(vouchers.map((voucher) => voucher.voucherNumber));
+        return `JV-${vouchers.length + 1}`;
+      };
+      await storage.createJournalVoucher({ entryDate: new Date(), userId: user.id }, lines, numberOf);
+      const second = await storage.createJournalVoucher({ entryDate: new Date(), userId: user.id }, lines, numberOf);
+      await expect(storage.createJournalVoucher({ entryDate: new Date(), userId: user.id }, lines, () => { throw new Error("Taken"); }))
+        .rejects.toThrow("Taken");
+
+      expect(seen).toEqual([[], ["JV-1"]]);
+      expect(second.voucherNumber).toBe("JV-2");
+      expect(await storage.getJournalLines(user.id, [second.id])).toHaveLength(2);
+      expect(await storage.getJournalEntries(user.id)).toHaveLength(3);
+    });
+  });
+
+  describe("GSTR-2B", () => {
+    it("replaces a period's import and its entries in one go, leaving other periods and companies alone", async () => {
+      const user = await signUp();
+      const other = await signUp();
+      const entry = (invoiceNumber: string) => ({ supplierGstin: "29CCCCC2222C1Z4", invoiceNumber, matchStatus: "missing_in_books" as const, userId: user.id });
+      const may = await storage.replaceGstr2bImport({ period: "2026-05", userId: user.id }, [entry("A-1")]);
+      const elsewhere = await storage.replaceGstr2bImport({ period: "2026-06", userId: other.id }, []);
+      const first = await storage.replaceGstr2bImport({ period: "2026-06", userId: user.id }, [entry("B-1"), entry("B-2")]);
+
+      const second = await storage.replaceGstr2bImport({ period: "2026-06", fileName: "062026.json", userId: user.id }, [entry("C-1")]);
+
+      expect((await storage.getGstr2bImports(user.id)).map((found) => [found.period, found.id])).toEqual([["2026-06", second.id], ["2026-05", may.id]]);
+      expect(second.fileName).toBe("062026.json");
+      expect(await storage.getGstr2bEntries(user.id, first.id)).toEqual([]);
+      expect((await storage.getGstr2bEntries(user.id, second.id)).map((found) => [found.importId, found.invoiceNumber])).toEqual([[second.id, "C-1"]]);
+      expect(await storage.getGstr2bEntries(user.id, may.id)).toHaveLength(1);
+      expect(await storage.getGstr2bImport(other.id, elsewhere.id)).toBeDefined();
+    });
+
+    it("saves and reviews an import's entries within the company", async () => {
+      const user = await signUp();
+      const other = await signUp();
+      const june = await storage.createGstr2bImport({ period: "2026-06", userId: user.id });
+      const entry = await storage.createGstr2bEntry({
+        importId: june.id, supplierGstin: "29CCCCC2222C1Z4", invoiceNumber: "A-1", invoiceValue: "1180", matchStatus: "missing_in_books", userId: user.id,
+      });
+
+      expect(entry.reviewStatus).toBe("pending");
+      expect(Number((await storage.getGstr2bEntry(user.id, entry.id))?.invoiceValue)).toBe(1180);
+      expect(await storage.getGstr2bEntry(other.id, entry.id)).toBeUndefined();
+      await expect(storage.updateGstr2bEntry(other.id, entry.id, { reviewStatus: "accepted" })).rejects.toThrow();
+      const reviewed = await storage.updateGstr2bEntry(user.id, entry.id, { reviewStatus: "accepted", reviewNote: "Supplier to amend" });
+      expect([reviewed.reviewStatus, reviewed.reviewNote]).toEqual(["accepted", "Supplier to amend"]);
+
+      await expect(storage.deleteGstr2bImport(other.id, june.id)).rejects.toThrow();
+      await storage.deleteGstr2bImport(user.id, june.id);
+      expect(await storage.getGstr2bEntry(user.id, entry.id)).toBeUndefined();
+      expect(await storage.getGstr2bImport(user.id, june.id)).toBeUndefined();
+    });
+  });
+
+  describe("Tally mappings", () => {
+    it("keeps one mapping per master, renaming it when saved again", async () => {
+      const user = await signUp();
+      const other = await signUp();
+      const party = await storage.saveTallyMapping({ mappingType: "party", sourceKey: "12", tallyName: "Acme Ltd", userId: user.id });
+      const item = await storage.saveTallyMapping({ mappingType: "item", sourceKey: "12", tallyName: "Laptop 14in", userId: user.id });
+      const elsewhere = await storage.saveTallyMapping({ mappingType: "party", sourceKey: "12", tallyName: "Acme Ltd", userId: other.id });
+
+      const renamed = await storage.saveTallyMapping({ mappingType: "party", sourceKey: "12", tallyName: "Acme Limited", userId: user.id });
+
+      expect(renamed.id).toBe(party.id);
+      expect(elsewhere.id).not.toBe(party.id);
+      expect((await storage.getTallyMappings(user.id)).map((mapping) => [mapping.id, mapping.tallyName]).sort()).toEqual(
+        [[party.id, "Acme Limited"], [item.id, "Laptop 14in"]].sort(),
+      );
+      expect((await storage.getTallyMapping(other.id, elsewhere.id))?.tallyName).toBe("Acme Ltd");
+      expect(await storage.getTallyMapping(other.id, party.id)).toBeUndefined();
+    });
+
+    it("deletes a mapping only within its company", async () => {
+      const user = await signUp();
+      const other = await signUp();
+      const mapping = await storage.saveTallyMapping({ mappingType: "party", sourceKey: "7", tallyName: "Acme Ltd", userId: user.id });
+
+      await expect(storage.deleteTallyMapping(other.id, mapping.id)).rejects.toThrow();
+      await storage.deleteTallyMapping(user.id, mapping.id);
+      expect(await storage.getTallyMappings(user.id)).toEqual([]);
+    });
+  });
+
+  describe("Tally sync lock", () => {
+    it("is held by one run at a time until released or stale", async () => {
+      const user = await signUp();
+      const staleBefore = () => new Date(Date.now() - 60_000);
+
+      expect((await storage.acquireTallySyncLock(user.id, "first", staleBefore()))?.lockId).toBe("first");
+      expect(await storage.acquireTallySyncLock(user.id, "second", staleBefore())).toBeUndefined();
+      await expect(storage.releaseTallySyncLock(user.id, "second", {})).rejects.toThrow();
+
+      const released = await storage.releaseTallySyncLock(user.id, "first", { lastStatus: "success" });
+      expect(released.lockId).toBeNull();
+      expect((await storage.acquireTallySyncLock(user.id, "second", staleBefore()))?.lockId).toBe("second");
+      expect((await storage.acquireTallySyncLock(user.id, "third", daysFromNow(1)))?.lockId).toBe("third");
+    });
+  });
+});
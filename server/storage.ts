@@ -1,11 +1,71 @@
 import { 
   User, Party, Item, Transaction, TransactionItem, 
-  BnplLimit, TallySyncLog, InsertParty, InsertItem,
-  InsertTransaction, InsertTransactionItem, InsertBnplLimit, InsertTallySyncLog
+  BnplLimit, TallySyncLog, TallySyncEntry, TallySyncJob, TallyMapping, RolePermission, CompanySettings, Gstr2bImport, Gstr2bEntry, StockGroup, Godown, Unit, StockMovement, PaymentAllocation, TransactionRevision, NumberingSeries, NumberingCounter, Account, JournalEntry, JournalLine,
+  InsertUser, InsertCompanySettings, InsertParty, InsertItem, InsertStockGroup, InsertGodown, InsertUnit,
+  InsertTransaction, InsertTransactionItem, InsertStockMovement, TransactionRevisionContent, TransactionRevisionChange, InsertBnplLimit, InsertTallySyncLog, InsertTallySyncEntry, InsertTallySyncJob, InsertTallyMapping, InsertGstr2bImport, InsertGstr2bEntry, InsertPaymentAllocation, InsertTransactionRevision, InsertNumberingSeries, InsertAccount, InsertJournalEntry, InsertJournalLine,
+  users, rolePermissions, companySettings, parties, stockGroups, godowns, units, items,
+  transactions, transactionItems, stockMovements, paymentAllocations, transactionRevisions, bnplLimits, tallySyncLogs, tallySyncEntries, tallySyncJobs, tallyMappings, numberingSeries, numberingCounters, accounts, journalEntries, journalLines, gstr2bImports, gstr2bEntries
 } from '@shared/schema';
-import { db } from "./db";
-import { eq, and, desc, sql, gte, lt, lte, gt, count } from "drizzle-orm";
-import { log } from "./vite";
+import { db, type Database, type DatabaseTransaction } from "./db";
+import { eq, and, or, asc, desc, lt, lte, sql, inArray, isNull, isNotNull, type SQL } from "drizzle-orm";
+import { config, type StorageDriver } from "./config";
+
+export interface StockMovementFilter {
+  itemId?: number;
+  godownId?: number;
+  asOf?: Date; // Only movements dated on or before this instant
+}
+
+// A line saved with a document: one with an id replaces that line, one without is added
+export type TransactionItemEdit = Omit<InsertTransactionItem, "transactionId"> & { id?: number };
+
+// A document and its lines as they stand at one point of a save
+export interface TransactionState {
+  transaction: Transaction;
+  lines: TransactionItem[];
+}
+
+// What a save records: the document before and after it, and what changed
+export interface TransactionRevisionDraft {
+  before: TransactionRevisionContent;
+  after: TransactionRevisionContent;
+  changes: TransactionRevisionChange[];
+  editedBy: number | null;
+}
+
+// An edit saved in one go. Lines, when given, replace the document's lines as replaceTransactionItems does;
+// revise works out the revision from the document as it was and as saved, or nothing when the save changed nothing.
+export interface TransactionSave {
+  updates: Partial<InsertTransaction>;
+  lines?: TransactionItemEdit[];
+  revise: (before: TransactionState, after: TransactionState) => TransactionRevisionDraft | undefined;
+}
+
+// Allocations saved in one go for a receipt, payment or note. check is given the payment, the documents and
+// every allocation made by or against any of them as they stand once locked, and throws to save nothing.
+export interface AllocationSave {
+  allocations: { documentId: number; amount: string }[];
+  check: (payment: Transaction, documents: Transaction[], allocations: PaymentAllocation[]) => void;
+}
+
+// Net quantity on hand per item and godown (null godown is the main location)
+export interface StockBalance {
+  itemId: number;
+  godownId: number | null;
+  quantity: number;
+}
+
+export interface JournalEntryFilter {
+  transactionId?: number; // Entries posted from the document, reversals included
+  asOf?: Date; // Only entries dated on or before this instant
+}
+
+// Debits and credits posted to an account
+export interface AccountBalance {
+  accountId: number;
+  debit: number;
+  credit: number;
+}
 
 export interface IStorage {
   // User operations
@@ -13,24 +73,62 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
+  // Team member operations (users whose ownerId is the company owner)
+  getTeamMembers(ownerId: number): Promise<User[]>;
+  updateTeamMember(ownerId: number, id: number, user: Partial<InsertUser>): Promise<User>;
+  // Whether revisions, cancellations, bill approvals or journal vouchers name the member, who then cannot be deleted
+  isTeamMemberReferenced(ownerId: number, id: number): Promise<boolean>;
+  deleteTeamMember(ownerId: number, id: number): Promise<void>;
+  
+  // Role permission operations
+  getRolePermissions(userId: number): Promise<RolePermission[]>;
+  saveRolePermissions(userId: number, role: string, permissions: string[]): Promise<RolePermission>;
+  
+  // Company settings (created with defaults on first read)
+  getCompanySettings(userId: number): Promise<CompanySettings>;
+  getAutoSyncCompanySettings(): Promise<CompanySettings[]>; // Every company with Tally auto-sync on
+  updateCompanySettings(userId: number, settings: Partial<InsertCompanySettings>): Promise<CompanySettings>;
+  
   // Party operations (customers/vendors)
-  getParty(id: number): Promise<Party | undefined>;
+  getParty(userId: number, id: number): Promise<Party | undefined>;
   getPartiesByUserId(userId: number): Promise<Party[]>;
   getPartiesByType(userId: number, type: string): Promise<Party[]>;
   createParty(party: InsertParty): Promise<Party>;
-  updateParty(id: number, party: Partial<InsertParty>): Promise<Party>;
+  updateParty(userId: number, id: number, party: Partial<InsertParty>): Promise<Party>;
+  
+  // Stock group operations
+  getStockGroup(userId: number, id: number): Promise<StockGroup | undefined>;
+  getStockGroupsByUserId(userId: number): Promise<StockGroup[]>;
+  createStockGroup(stockGroup: InsertStockGroup): Promise<StockGroup>;
+  updateStockGroup(userId: number, id: number, stockGroup: Partial<InsertStockGroup>): Promise<StockGroup>;
+  deleteStockGroup(userId: number, id: number): Promise<void>;
+  
+  // Godown operations
+  getGodown(userId: number, id: number): Promise<Godown | undefined>;
+  getGodownsByUserId(userId: number): Promise<Godown[]>;
+  createGodown(godown: InsertGodown): Promise<Godown>;
+  updateGodown(userId: number, id: number, godown: Partial<InsertGodown>): Promise<Godown>;
+  isGodownInUse(userId: number, id: number): Promise<boolean>; // Whether a document line or stock movement is at it
+  deleteGodown(userId: number, id: number): Promise<void>;
+  
+  // Unit operations
+  getUnit(userId: number, id: number): Promise<Unit | undefined>;
+  getUnitsByUserId(userId: number): Promise<Unit[]>;
+  createUnit(unit: InsertUnit): Promise<Unit>;
+  updateUnit(userId: number, id: number, unit: Partial<InsertUnit>): Promise<Unit>;
+  deleteUnit(userId: number, id: number): Promise<void>;
   
   // Item operations
-  getItem(id: number): Promise<Item | undefined>;
+  getItem(userId: number, id: number): Promise<Item | undefined>;
   getItemsByUserId(userId: number): Promise<Item[]>;
   getItemsWithListings(userId: number): Promise<Item[]>;
-  getFeatureProducts(limit?: number): Promise<Item[]>;
+  getFeatureProducts(userId: number, limit?: number): Promise<Item[]>;
   createItem(item: InsertItem): Promise<Item>;
-  updateItem(id: number, item: Partial<InsertItem>): Promise<Item>;
-  updateItemListing(id: number, listingData: Partial<InsertItem>): Promise<Item>;
+  updateItem(userId: number, id: number, item: Partial<InsertItem>): Promise<Item>;
+  updateItemListing(userId: number, id: number, listingData: Partial<InsertItem>): Promise<Item>;
   
   // Transaction operations
-  getTransaction(id: number): Promise<Transaction | undefined>;
+  getTransaction(userId: number, id: number): Promise<Transaction | undefined>;
   getTransactionsByUserId(userId: number): Promise<Transaction[]>;
   getTransactionsByType(userId: number, type: string): Promise<Transaction[]>;
   getTransactionsByPartyId(userId: number, partyId: number): Promise<Transaction[]>;
@@ -38,23 +136,103 @@ export interface IStorage {
   getOpenPayables(userId: number): Promise<{ total: number, count: number }>;
   getOpenReceivables(userId: number): Promise<{ total: number, count: number }>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
-  updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<Transaction>;
+  // Saves a document and its lines together: either all of them are saved or none are
+  createTransactionWithItems(transaction: InsertTransaction, items: Omit<InsertTransactionItem, "transactionId">[]): Promise<Transaction>;
+  updateTransaction(userId: number, id: number, transaction: Partial<InsertTransaction>): Promise<Transaction>;
   
   // Transaction Item operations
-  getTransactionItemsByTransactionId(transactionId: number): Promise<TransactionItem[]>;
+  getTransactionItemsByTransactionId(userId: number, transactionId: number): Promise<TransactionItem[]>;
   createTransactionItem(transactionItem: InsertTransactionItem): Promise<TransactionItem>;
+  updateTransactionItem(userId: number, id: number, transactionItem: Partial<InsertTransactionItem>): Promise<TransactionItem>;
+  // Makes the document's lines exactly those given, all or nothing. Lines left out are deleted; stock
+  // movements and cancelled documents that pointed at them keep their rows but lose the link.
+  replaceTransactionItems(userId: number, transactionId: number, items: TransactionItemEdit[]): Promise<TransactionItem[]>;
+  // Saves the header and totals, the lines and the revision of an edit together: all of them or none.
+  // The revision takes the next number; one for the document as it was comes first when it has none.
+  saveTransactionEdit(userId: number, id: number, save: TransactionSave): Promise<Transaction>;
+  
+  // Stock ledger operations
+  getStockMovements(userId: number, filter?: StockMovementFilter): Promise<StockMovement[]>;
+  getStockMovementsByTransactionId(userId: number, transactionId: number): Promise<StockMovement[]>;
+  getStockBalances(userId: number, asOf?: Date): Promise<StockBalance[]>;
+  createStockMovement(stockMovement: InsertStockMovement): Promise<StockMovement>;
+  
+  // Payment allocations; by transaction finds those made by a receipt or payment and those against an invoice or bill
+  getPaymentAllocations(userId: number): Promise<PaymentAllocation[]>;
+  getPaymentAllocationsByTransactionId(userId: number, transactionId: number): Promise<PaymentAllocation[]>;
+  getPaymentAllocation(userId: number, id: number): Promise<PaymentAllocation | undefined>;
+  createPaymentAllocation(paymentAllocation: InsertPaymentAllocation): Promise<PaymentAllocation>;
+  // Saves a payment's allocations once check passes, taking turns with other allocations of the payment or its documents
+  savePaymentAllocations(userId: number, paymentId: number, save: AllocationSave): Promise<PaymentAllocation[]>;
+  deletePaymentAllocation(userId: number, id: number): Promise<void>;
+  
+  // Document revisions; they are only ever added
+  getTransactionRevisions(userId: number, transactionId: number): Promise<TransactionRevision[]>;
+  createTransactionRevision(transactionRevision: InsertTransactionRevision): Promise<TransactionRevision>;
   
   // BNPL Limit operations
-  getBnplLimitsByPartyId(partyId: number): Promise<BnplLimit[]>;
+  getBnplLimitsByPartyId(userId: number, partyId: number): Promise<BnplLimit[]>;
   getBnplLimitsByUserId(userId: number): Promise<BnplLimit[]>;
   getBnplLimitsByType(userId: number, type: string): Promise<BnplLimit[]>;
   createBnplLimit(bnplLimit: InsertBnplLimit): Promise<BnplLimit>;
-  updateBnplLimit(id: number, bnplLimit: Partial<InsertBnplLimit>): Promise<BnplLimit>;
+  updateBnplLimit(userId: number, id: number, bnplLimit: Partial<InsertBnplLimit>): Promise<BnplLimit>;
   
   // Tally Sync operations
   getTallySyncLogs(userId: number): Promise<TallySyncLog[]>;
   getRecentTallySyncLog(userId: number): Promise<TallySyncLog | undefined>;
   createTallySyncLog(tallySyncLog: InsertTallySyncLog): Promise<TallySyncLog>;
+  updateTallySyncLog(userId: number, id: number, tallySyncLog: Partial<InsertTallySyncLog>): Promise<TallySyncLog>;
+  getTallySyncEntries(userId: number, logId: number): Promise<TallySyncEntry[]>;
+  createTallySyncEntry(tallySyncEntry: InsertTallySyncEntry): Promise<TallySyncEntry>;
+  
+  // Tally sync job. Acquiring the lock returns the job, or nothing while another live run holds it.
+  getTallySyncJob(userId: number): Promise<TallySyncJob | undefined>;
+  acquireTallySyncLock(userId: number, lockId: string, staleBefore: Date): Promise<TallySyncJob | undefined>;
+  releaseTallySyncLock(userId: number, lockId: string, tallySyncJob: Partial<InsertTallySyncJob>): Promise<TallySyncJob>;
+  
+  // Tally master mappings (one per master; saving again renames it)
+  getTallyMappings(userId: number): Promise<TallyMapping[]>;
+  getTallyMapping(userId: number, id: number): Promise<TallyMapping | undefined>;
+  saveTallyMapping(tallyMapping: InsertTallyMapping): Promise<TallyMapping>;
+  deleteTallyMapping(userId: number, id: number): Promise<void>;
+  
+  // Numbering series and the counters of the numbers they have issued, per period
+  getNumberingSeriesByUserId(userId: number): Promise<NumberingSeries[]>;
+  getNumberingSeries(userId: number, id: number): Promise<NumberingSeries | undefined>;
+  createNumberingSeries(numberingSeries: InsertNumberingSeries): Promise<NumberingSeries>;
+  updateNumberingSeries(userId: number, id: number, numberingSeries: Partial<InsertNumberingSeries>): Promise<NumberingSeries>;
+  deleteNumberingSeries(userId: number, id: number): Promise<void>;
+  getNumberingCounters(userId: number, seriesId: number): Promise<NumberingCounter[]>;
+  // Issues the series' next number in a period, atomically: one past the last, never below its start number or atLeast
+  takeSeriesNumber(userId: number, seriesId: number, period: string, atLeast?: number): Promise<number>;
+  
+  // Chart of accounts
+  getAccountsByUserId(userId: number): Promise<Account[]>;
+  getAccount(userId: number, id: number): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  updateAccount(userId: number, id: number, account: Partial<InsertAccount>): Promise<Account>;
+  
+  // General ledger; entries are only ever added, each saved with its lines or not at all
+  getJournalEntries(userId: number, filter?: JournalEntryFilter): Promise<JournalEntry[]>;
+  getJournalEntry(userId: number, id: number): Promise<JournalEntry | undefined>;
+  getJournalLines(userId: number, journalEntryIds: number[]): Promise<JournalLine[]>;
+  getAccountBalances(userId: number, asOf?: Date): Promise<AccountBalance[]>;
+  createJournalEntry(journalEntry: InsertJournalEntry, lines: Omit<InsertJournalLine, "journalEntryId">[]): Promise<JournalEntry>;
+  // Posts a journal voucher numbered by numberOf, which is given the company's vouchers as they stand while no
+  // other voucher can be posted, and throws to post nothing
+  createJournalVoucher(journalEntry: Omit<InsertJournalEntry, "voucherNumber">, lines: Omit<InsertJournalLine, "journalEntryId">[], numberOf: (vouchers: JournalEntry[]) => string): Promise<JournalEntry>;
+  
+  // GSTR-2B reconciliation operations
+  getGstr2bImports(userId: number): Promise<Gstr2bImport[]>;
+  getGstr2bImport(userId: number, id: number): Promise<Gstr2bImport | undefined>;
+  createGstr2bImport(gstr2bImport: InsertGstr2bImport): Promise<Gstr2bImport>;
+  deleteGstr2bImport(userId: number, id: number): Promise<void>;
+  // Saves an import and its entries in place of any earlier import of the same period: all of it or none
+  replaceGstr2bImport(gstr2bImport: InsertGstr2bImport, entries: Omit<InsertGstr2bEntry, "importId">[]): Promise<Gstr2bImport>;
+  getGstr2bEntries(userId: number, importId: number): Promise<Gstr2bEntry[]>;
+  getGstr2bEntry(userId: number, id: number): Promise<Gstr2bEntry | undefined>;
+  createGstr2bEntry(gstr2bEntry: InsertGstr2bEntry): Promise<Gstr2bEntry>;
+  updateGstr2bEntry(userId: number, id: number, gstr2bEntry: Partial<InsertGstr2bEntry>): Promise<Gstr2bEntry>;
   
   // Ageing Analysis
   getReceivablesAgeing(userId: number): Promise<{
@@ -71,22 +249,366 @@ export interface IStorage {
   }>;
 }
 
-class MemStorage implements IStorage {
+type AgeingBuckets = Awaited<ReturnType<IStorage["getReceivablesAgeing"]>>;
+
+// Statuses that still carry an outstanding balance
+const openStatuses: Transaction["status"][] = ["pending", "overdue", "partially_paid"];
+
+// Listing-related item columns that updateItemListing is allowed to touch
+const listingFields = [
+  "imageUrl", "imageUrls", "isListed", "listingDescription", "listingCategory",
+  "listingTags", "listingStatus", "mrp", "discountPercentage", "featuredProduct",
+  "brandName", "specifications", "ratings", "reviewCount",
+] as const;
+
+// Edits may only name lines the document has
+function assertItemEdits(existing: TransactionItem[], edits: TransactionItemEdit[]) {
+  const existingIds = new Set(existing.map((item) => item.id));
+  const unknown = edits.find((edit) => edit.id !== undefined && !existingIds.has(edit.id));
+  if (unknown) {
+    throw new Error(`Transaction item with id ${unknown.id} not found`);
+  }
+}
+
+type Defined<T> = { [K in keyof T]-?: Exclude<T[K], undefined> };
+
+// Drop undefined keys so optional insert fields never overwrite defaults or existing values
+function definedValues<T extends object>(values: T): Defined<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Defined<T>;
+}
+
+// Column defaults mirrored from shared/schema.ts so in-memory rows have the same shape as Postgres rows
+const userDefaults: Omit<User, "id" | "username" | "password" | "companyName"> = {
+  gstin: null,
+  email: null,
+  phone: null,
+  role: "admin",
+  ownerId: null,
+  branch: null,
+  isActive: true,
+  createdAt: null,
+};
+
+const companySettingsDefaults: Omit<CompanySettings, "id" | "userId"> = {
+  valuationMethod: "weighted_average",
+  gstr2bAmountTolerance: "1.00",
+  gstr2bDateToleranceDays: 3,
+  billMatchQuantityTolerance: "0.00",
+  billMatchRateTolerance: "1.00",
+  gstr1FiledThrough: null,
+  address: null,
+  city: null,
+  pincode: null,
+  tallyUrl: "http://localhost:9000",
+  tallyCompanyName: null,
+  tallyAutoSync: false,
+  tallySyncIntervalMinutes: 60,
+  tallySyncBatchSize: 100,
+  tallySyncSales: true,
+  tallySyncPurchases: true,
+  tallySyncPayments: true,
+  tallySyncReceipts: true,
+  tallySyncItems: true,
+  updatedAt: null,
+};
+
+const partyDefaults: Omit<Party, "id" | "name" | "type" | "userId"> = {
+  gstin: null,
+  contactPerson: null,
+  email: null,
+  phone: null,
+  address: null,
+  city: null,
+  state: null,
+  pincode: null,
+  creditLimit: "0",
+  creditPeriod: 0,
+  createdAt: null,
+};
+
+const stockGroupDefaults: Omit<StockGroup, "id" | "name" | "userId"> = {
+  parentId: null,
+  hsnCode: null,
+  gstRate: null,
+  createdAt: null,
+};
+
+const godownDefaults: Omit<Godown, "id" | "name" | "userId"> = {
+  parentId: null,
+  address: null,
+  createdAt: null,
+};
+
+const unitDefaults: Omit<Unit, "id" | "symbol" | "formalName" | "userId"> = {
+  uqc: null,
+  decimalPlaces: 0,
+  createdAt: null,
+};
+
+const itemDefaults: Omit<Item, "id" | "name" | "userId"> = {
+  hsnCode: null,
+  unitId: null,
+  stockGroupId: null,
+  description: null,
+  sellingPrice: null,
+  purchasePrice: null,
+  openingStock: "0",
+  minStockLevel: "0",
+  imageUrl: null,
+  imageUrls: null,
+  isListed: false,
+  listingDescription: null,
+  listingCategory: null,
+  listingTags: null,
+  listingStatus: "inactive",
+  mrp: null,
+  discountPercentage: null,
+  featuredProduct: false,
+  brandName: null,
+  specifications: null,
+  ratings: null,
+  reviewCount: 0,
+  createdAt: null,
+};
+
+const transactionDefaults: Omit<Transaction, "id" | "transactionNumber" | "transactionType" | "amount" | "userId"> = {
+  transactionDate: null,
+  partyId: null,
+  balanceDue: null,
+  dueDate: null,
+  status: "draft",
+  notes: null,
+  reference: null,
+  isBnpl: false,
+  bnplLimitId: null,
+  bnplUsed: null,
+  isSync: false,
+  tallyGuid: null,
+  tallySyncAttempts: 0,
+  tallySyncError: null,
+  tallyRetryPending: false,
+  tallyLastAttemptAt: null,
+  tallySyncHash: null,
+  tallySyncedContent: null,
+  tallyModifiedAt: null,
+  invoiceStatus: null,
+  inventoryStatus: null,
+  expectedDeliveryDate: null,
+  paymentTerms: null,
+  creditTerms: null,
+  termsAndConditions: null,
+  linkedTransactionId: null,
+  grnNumber: null,
+  grnDate: null,
+  vendorBillNumber: null,
+  vendorInvoiceDate: null,
+  paymentMode: null,
+  bankAccount: null,
+  tdsCategory: null,
+  tdsPercentage: null,
+  matchStatus: null,
+  matchNote: null,
+  matchApprovedBy: null,
+  matchApprovedAt: null,
+  noteReason: null,
+  cancelledAt: null,
+  cancelledBy: null,
+  cancellationReason: null,
+  placeOfSupply: null,
+  pricesIncludeTax: false,
+  taxableAmount: null,
+  cgstAmount: null,
+  sgstAmount: null,
+  igstAmount: null,
+  cessAmount: null,
+  roundOff: null,
+  irn: null,
+  irnAckNumber: null,
+  irnAckDate: null,
+  irnSignedQrCode: null,
+  transportMode: null,
+  transporterId: null,
+  transporterName: null,
+  vehicleNumber: null,
+  transportDocNumber: null,
+  transportDocDate: null,
+  distanceKm: null,
+  dispatchFromAddress: null,
+  dispatchFromCity: null,
+  dispatchFromState: null,
+  dispatchFromPincode: null,
+  shipToName: null,
+  shipToAddress: null,
+  shipToCity: null,
+  shipToState: null,
+  shipToPincode: null,
+  ewbNumber: null,
+  ewbDate: null,
+  ewbValidUntil: null,
+  branch: null,
+  createdAt: null,
+};
+
+const transactionItemDefaults: Omit<TransactionItem, "id" | "transactionId" | "quantity" | "rate" | "amount" | "totalAmount"> = {
+  itemId: null,
+  description: null,
+  taxRate: null,
+  taxAmount: null,
+  cessRate: null,
+  cgstAmount: null,
+  sgstAmount: null,
+  igstAmount: null,
+  cessAmount: null,
+  godownId: null,
+  sourceItemId: null,
+  createdAt: null,
+};
+
+const stockMovementDefaults: Omit<StockMovement, "id" | "itemId" | "movementType" | "movementDate" | "quantity" | "rate" | "userId"> = {
+  godownId: null,
+  transactionId: null,
+  transactionItemId: null,
+  reversedMovementId: null,
+  createdAt: null,
+};
+
+const bnplLimitDefaults: Omit<BnplLimit, "id" | "partyId" | "limitType" | "totalLimit" | "userId"> = {
+  usedLimit: "0",
+  expiryDate: null,
+  createdAt: null,
+};
+
+const tallySyncLogDefaults: Omit<TallySyncLog, "id" | "syncType" | "syncStatus" | "userId"> = {
+  transactionCount: null,
+  failedCount: 0,
+  details: null,
+  syncedAt: null,
+};
+
+const tallySyncEntryDefaults: Pick<TallySyncEntry, "transactionId" | "partyId" | "voucherType" | "message"> = {
+  transactionId: null,
+  partyId: null,
+  voucherType: null,
+  message: null,
+};
+
+const tallySyncJobDefaults: Omit<TallySyncJob, "id" | "userId"> = {
+  lockId: null,
+  lockedAt: null,
+  lastRunAt: null,
+  lastStatus: null,
+  lastLogId: null,
+  lastError: null,
+  consecutiveFailures: 0,
+  backoffUntil: null,
+  updatedAt: null,
+};
+
+const numberingSeriesDefaults: Omit<NumberingSeries, "id" | "transactionType" | "userId"> = {
+  branch: null,
+  prefix: "",
+  suffix: "",
+  padding: 4,
+  startNumber: 1,
+  resetYearly: true,
+  updatedAt: null,
+};
+
+const accountDefaults: Omit<Account, "id" | "name" | "groupName" | "userId"> = {
+  systemKey: null,
+  isActive: true,
+  createdAt: null,
+};
+
+const journalEntryDefaults: Omit<JournalEntry, "id" | "voucherNumber" | "entryDate" | "userId"> = {
+  narration: null,
+  transactionId: null,
+  reversedEntryId: null,
+  createdBy: null,
+  createdAt: null,
+};
+
+const journalLineDefaults: Omit<JournalLine, "id" | "journalEntryId" | "accountId"> = {
+  partyId: null,
+  debit: "0",
+  credit: "0",
+};
+
+const gstr2bImportDefaults: Pick<Gstr2bImport, "fileName"> = {
+  fileName: null,
+};
+
+const gstr2bEntryDefaults: Omit<Gstr2bEntry, "id" | "importId" | "supplierGstin" | "invoiceNumber" | "matchStatus" | "userId"> = {
+  transactionId: null,
+  supplierName: null,
+  invoiceDate: null,
+  invoiceValue: null,
+  taxableValue: null,
+  igstAmount: null,
+  cgstAmount: null,
+  sgstAmount: null,
+  cessAmount: null,
+  placeOfSupply: null,
+  itcAvailable: null,
+  matchNote: null,
+  reviewStatus: "pending",
+  reviewNote: null,
+};
+
+export class MemStorage implements IStorage {
   private users: Map<number, User> = new Map();
+  private rolePermissions: Map<number, RolePermission> = new Map();
+  private companySettings: Map<number, CompanySettings> = new Map();
   private parties: Map<number, Party> = new Map();
+  private stockGroups: Map<number, StockGroup> = new Map();
+  private godowns: Map<number, Godown> = new Map();
+  private units: Map<number, Unit> = new Map();
   private items: Map<number, Item> = new Map();
   private transactions: Map<number, Transaction> = new Map();
   private transactionItems: Map<number, TransactionItem> = new Map();
+  private stockMovements: Map<number, StockMovement> = new Map();
+  private paymentAllocations: Map<number, PaymentAllocation> = new Map();
+  private transactionRevisions: Map<number, TransactionRevision> = new Map();
   private bnplLimits: Map<number, BnplLimit> = new Map();
   private tallySyncLogs: Map<number, TallySyncLog> = new Map();
+  private tallySyncEntries: Map<number, TallySyncEntry> = new Map();
+  private tallySyncJobs: Map<number, TallySyncJob> = new Map();
+  private tallyMappings: Map<number, TallyMapping> = new Map();
+  private numberingSeries: Map<number, NumberingSeries> = new Map();
+  private numberingCounters: Map<number, NumberingCounter> = new Map();
+  private accounts: Map<number, Account> = new Map();
+  private journalEntries: Map<number, JournalEntry> = new Map();
+  private journalLines: Map<number, JournalLine> = new Map();
+  private gstr2bImports: Map<number, Gstr2bImport> = new Map();
+  private gstr2bEntries: Map<number, Gstr2bEntry> = new Map();
 
   private userIdCounter = 1;
+  private rolePermissionIdCounter = 1;
+  private companySettingsIdCounter = 1;
   private partyIdCounter = 1;
+  private stockGroupIdCounter = 1;
+  private godownIdCounter = 1;
+  private unitIdCounter = 1;
   private itemIdCounter = 1;
   private transactionIdCounter = 1;
   private transactionItemIdCounter = 1;
+  private stockMovementIdCounter = 1;
+  private paymentAllocationIdCounter = 1;
+  private transactionRevisionIdCounter = 1;
   private bnplLimitIdCounter = 1;
   private tallySyncLogIdCounter = 1;
+  private tallySyncEntryIdCounter = 1;
+  private tallySyncJobIdCounter = 1;
+  private tallyMappingIdCounter = 1;
+  private numberingSeriesIdCounter = 1;
+  private numberingCounterIdCounter = 1;
+  private accountIdCounter = 1;
+  private journalEntryIdCounter = 1;
+  private journalLineIdCounter = 1;
+  private gstr2bImportIdCounter = 1;
+  private gstr2bEntryIdCounter = 1;
 
   constructor() {
     this.initializeData();
@@ -106,14 +628,102 @@ class MemStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const now = new Date();
-    const user: User = { ...insertUser, id, createdAt: now };
+    const user: User = { ...userDefaults, ...definedValues(insertUser), id, createdAt: now };
     this.users.set(id, user);
     return user;
   }
   
+  // Team member operations
+  async getTeamMembers(ownerId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => user.id === ownerId || user.ownerId === ownerId
+    );
+  }
+  
+  async updateTeamMember(ownerId: number, id: number, updates: Partial<InsertUser>): Promise<User> {
+    const user = this.users.get(id);
+    if (!user || user.ownerId !== ownerId) {
+      throw new Error(`Team member with id ${id} not found`);
+    }
+    
+    const updatedUser = { ...user, ...definedValues(updates) };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async isTeamMemberReferenced(ownerId: number, id: number): Promise<boolean> {
+    return Array.from(this.transactionRevisions.values()).some((revision) => revision.userId === ownerId && revision.editedBy === id) ||
+      Array.from(this.transactions.values()).some((transaction) =>
+        transaction.userId === ownerId && (transaction.cancelledBy === id || transaction.matchApprovedBy === id)) ||
+      Array.from(this.journalEntries.values()).some((entry) => entry.userId === ownerId && entry.createdBy === id);
+  }
+  
+  async deleteTeamMember(ownerId: number, id: number): Promise<void> {
+    const user = this.users.get(id);
+    if (!user || user.ownerId !== ownerId) {
+      throw new Error(`Team member with id ${id} not found`);
+    }
+    if (await this.isTeamMemberReferenced(ownerId, id)) {
+      throw new Error(`Team member with id ${id} is named on saved records`);
+    }
+    this.users.delete(id);
+  }
+  
+  // Role permission operations
+  async getRolePermissions(userId: number): Promise<RolePermission[]> {
+    return Array.from(this.rolePermissions.values()).filter(
+      (rolePermission) => rolePermission.userId === userId
+    );
+  }
+  
+  async saveRolePermissions(userId: number, role: string, permissions: string[]): Promise<RolePermission> {
+    const existing = Array.from(this.rolePermissions.values()).find(
+      (rolePermission) => rolePermission.userId === userId && rolePermission.role === role
+    );
+    const rolePermission: RolePermission = {
+      id: existing?.id ?? this.rolePermissionIdCounter++,
+      role,
+      permissions,
+      userId,
+      updatedAt: new Date(),
+    };
+    this.rolePermissions.set(rolePermission.id, rolePermission);
+    return rolePermission;
+  }
+  
+  // Company settings operations
+  async getCompanySettings(userId: number): Promise<CompanySettings> {
+    const existing = Array.from(this.companySettings.values()).find(
+      (settings) => settings.userId === userId
+    );
+    if (existing) {
+      return existing;
+    }
+    const settings: CompanySettings = {
+      ...companySettingsDefaults,
+      id: this.companySettingsIdCounter++,
+      userId,
+      updatedAt: new Date(),
+    };
+    this.companySettings.set(settings.id, settings);
+    return settings;
+  }
+  
+  async updateCompanySettings(userId: number, updates: Partial<InsertCompanySettings>): Promise<CompanySettings> {
+    const settings = await this.getCompanySettings(userId);
+    const updatedSettings = { ...settings, ...definedValues(updates), userId, updatedAt: new Date() };
+    this.companySettings.set(settings.id, updatedSettings);
+    return updatedSettings;
+  }
+  
+  async getAutoSyncCompanySettings(): Promise<CompanySettings[]> {
+    return Array.from(this.companySettings.values()).filter((settings) => settings.tallyAutoSync);
+  }
+  
   // Party operations
-  async getParty(id: number): Promise<Party | undefined> {
-    return this.parties.get(id);
+  async getParty(userId: number, id: number): Promise<Party | undefined> {
+    const party = this.parties.get(id);
+    return party?.userId === userId ? party : undefined;
   }
   
   async getPartiesByUserId(userId: number): Promise<Party[]> {
@@ -131,25 +741,149 @@ class MemStorage implements IStorage {
   async createParty(insertParty: InsertParty): Promise<Party> {
     const id = this.partyIdCounter++;
     const now = new Date();
-    const party: Party = { ...insertParty, id, createdAt: now };
+    const party: Party = { ...partyDefaults, ...definedValues(insertParty), id, createdAt: now };
     this.parties.set(id, party);
     return party;
   }
   
-  async updateParty(id: number, updates: Partial<InsertParty>): Promise<Party> {
-    const party = await this.getParty(id);
+  async updateParty(userId: number, id: number, updates: Partial<InsertParty>): Promise<Party> {
+    const party = await this.getParty(userId, id);
     if (!party) {
       throw new Error(`Party with id ${id} not found`);
     }
     
-    const updatedParty: Party = { ...party, ...updates };
+    const updatedParty: Party = { ...party, ...definedValues(updates) };
     this.parties.set(id, updatedParty);
     return updatedParty;
   }
   
+  // Stock group operations
+  async getStockGroup(userId: number, id: number): Promise<StockGroup | undefined> {
+    const stockGroup = this.stockGroups.get(id);
+    return stockGroup?.userId === userId ? stockGroup : undefined;
+  }
+  
+  async getStockGroupsByUserId(userId: number): Promise<StockGroup[]> {
+    return Array.from(this.stockGroups.values()).filter(
+      (stockGroup) => stockGroup.userId === userId
+    );
+  }
+  
+  async createStockGroup(insertStockGroup: InsertStockGroup): Promise<StockGroup> {
+    const id = this.stockGroupIdCounter++;
+    const now = new Date();
+    const stockGroup: StockGroup = { ...stockGroupDefaults, ...definedValues(insertStockGroup), id, createdAt: now };
+    this.stockGroups.set(id, stockGroup);
+    return stockGroup;
+  }
+  
+  async updateStockGroup(userId: number, id: number, updates: Partial<InsertStockGroup>): Promise<StockGroup> {
+    const stockGroup = await this.getStockGroup(userId, id);
+    if (!stockGroup) {
+      throw new Error(`Stock group with id ${id} not found`);
+    }
+    
+    const updatedStockGroup: StockGroup = { ...stockGroup, ...definedValues(updates) };
+    this.stockGroups.set(id, updatedStockGroup);
+    return updatedStockGroup;
+  }
+  
+  async deleteStockGroup(userId: number, id: number): Promise<void> {
+    if (!(await this.getStockGroup(userId, id))) {
+      throw new Error(`Stock group with id ${id} not found`);
+    }
+    this.stockGroups.delete(id);
+  }
+  
+  // Godown operations
+  async getGodown(userId: number, id: number): Promise<Godown | undefined> {
+    const godown = this.godowns.get(id);
+    return godown?.userId === userId ? godown : undefined;
+  }
+  
+  async getGodownsByUserId(userId: number): Promise<Godown[]> {
+    return Array.from(this.godowns.values()).filter(
+      (godown) => godown.userId === userId
+    );
+  }
+  
+  async createGodown(insertGodown: InsertGodown): Promise<Godown> {
+    const id = this.godownIdCounter++;
+    const now = new Date();
+    const godown: Godown = { ...godownDefaults, ...definedValues(insertGodown), id, createdAt: now };
+    this.godowns.set(id, godown);
+    return godown;
+  }
+  
+  async updateGodown(userId: number, id: number, updates: Partial<InsertGodown>): Promise<Godown> {
+    const godown = await this.getGodown(userId, id);
+    if (!godown) {
+      throw new Error(`Godown with id ${id} not found`);
+    }
+    
+    const updatedGodown: Godown = { ...godown, ...definedValues(updates) };
+    this.godowns.set(id, updatedGodown);
+    return updatedGodown;
+  }
+  
+  async isGodownInUse(userId: number, id: number): Promise<boolean> {
+    return Array.from(this.stockMovements.values()).some((movement) => movement.userId === userId && movement.godownId === id) ||
+      Array.from(this.transactionItems.values()).some((line) =>
+        line.godownId === id && this.transactions.get(line.transactionId)?.userId === userId);
+  }
+  
+  async deleteGodown(userId: number, id: number): Promise<void> {
+    if (!(await this.getGodown(userId, id))) {
+      throw new Error(`Godown with id ${id} not found`);
+    }
+    if (await this.isGodownInUse(userId, id)) {
+      throw new Error(`Godown with id ${id} is in use`);
+    }
+    this.godowns.delete(id);
+  }
+  
+  // Unit operations
+  async getUnit(userId: number, id: number): Promise<Unit | undefined> {
+    const unit = this.units.get(id);
+    return unit?.userId === userId ? unit : undefined;
+  }
+  
+  async getUnitsByUserId(userId: number): Promise<Unit[]> {
+    return Array.from(this.units.values()).filter(
+      (unit) => unit.userId === userId
+    );
+  }
+  
+  async createUnit(insertUnit: InsertUnit): Promise<Unit> {
+    const id = this.unitIdCounter++;
+    const now = new Date();
+    const unit: Unit = { ...unitDefaults, ...definedValues(insertUnit), id, createdAt: now };
+    this.units.set(id, unit);
+    return unit;
+  }
+  
+  async updateUnit(userId: number, id: number, updates: Partial<InsertUnit>): Promise<Unit> {
+    const unit = await this.getUnit(userId, id);
+    if (!unit) {
+      throw new Error(`Unit with id ${id} not found`);
+    }
+    
+    const updatedUnit: Unit = { ...unit, ...definedValues(updates) };
+    this.units.set(id, updatedUnit);
+    return updatedUnit;
+  }
+  
+  async deleteUnit(userId: number, id: number): Promise<void> {
+    if (!(await this.getUnit(userId, id))) {
+      throw new Error(`Unit with id ${id} not found`);
+    }
+    this.units.delete(id);
+  }
+  
   // Item operations
-  async getItem(id: number): Promise<Item | undefined> {
-    return this.items.get(id);
+  async getItem(userId: number, id: number): Promise<Item | undefined> {
+    const item = this.items.get(id);
+    return item?.userId === userId ? item : undefined;
   }
   
   async getItemsByUserId(userId: number): Promise<Item[]> {
@@ -164,33 +898,33 @@ class MemStorage implements IStorage {
     );
   }
   
-  async getFeatureProducts(limit: number = 10): Promise<Item[]> {
+  async getFeatureProducts(userId: number, limit: number = 10): Promise<Item[]> {
     return Array.from(this.items.values())
-      .filter((item) => item.isListed === true && item.featuredProduct === true)
+      .filter((item) => item.userId === userId && item.isListed === true && item.featuredProduct === true)
       .slice(0, limit);
   }
   
   async createItem(insertItem: InsertItem): Promise<Item> {
     const id = this.itemIdCounter++;
     const now = new Date();
-    const item: Item = { ...insertItem, id, createdAt: now };
+    const item: Item = { ...itemDefaults, ...definedValues(insertItem), id, createdAt: now };
     this.items.set(id, item);
     return item;
   }
   
-  async updateItem(id: number, updates: Partial<InsertItem>): Promise<Item> {
-    const item = await this.getItem(id);
+  async updateItem(userId: number, id: number, updates: Partial<InsertItem>): Promise<Item> {
+    const item = await this.getItem(userId, id);
     if (!item) {
       throw new Error(`Item with id ${id} not found`);
     }
     
-    const updatedItem: Item = { ...item, ...updates };
+    const updatedItem: Item = { ...item, ...definedValues(updates) };
     this.items.set(id, updatedItem);
     return updatedItem;
   }
   
-  async updateItemListing(id: number, listingData: Partial<InsertItem>): Promise<Item> {
-    const item = await this.getItem(id);
+  async updateItemListing(userId: number, id: number, listingData: Partial<InsertItem>): Promise<Item> {
+    const item = await this.getItem(userId, id);
     if (!item) {
       throw new Error(`Item with id ${id} not found`);
     }
@@ -219,8 +953,9 @@ class MemStorage implements IStorage {
   }
   
   // Transaction operations
-  async getTransaction(id: number): Promise<Transaction | undefined> {
-    return this.transactions.get(id);
+  async getTransaction(userId: number, id: number): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    return transaction?.userId === userId ? transaction : undefined;
   }
   
   async getTransactionsByUserId(userId: number): Promise<Transaction[]> {
@@ -244,7 +979,7 @@ class MemStorage implements IStorage {
   async getRecentTransactions(userId: number, limit: number): Promise<Transaction[]> {
     return Array.from(this.transactions.values())
       .filter((transaction) => transaction.userId === userId)
-      .sort((a, b) => new Date(b.transactionDate).getTime() - new Date(a.transactionDate).getTime())
+      .sort((a, b) => (b.transactionDate?.getTime() ?? 0) - (a.transactionDate?.getTime() ?? 0))
       .slice(0, limit);
   }
   
@@ -253,7 +988,7 @@ class MemStorage implements IStorage {
       (transaction) => 
         transaction.userId === userId && 
         transaction.transactionType === "purchase_bill" && 
-        ["pending", "overdue", "partially_paid"].includes(transaction.status)
+        openStatuses.includes(transaction.status)
     );
     
     const total = openPayables.reduce((sum, transaction) => sum + Number(transaction.balanceDue || 0), 0);
@@ -265,7 +1000,7 @@ class MemStorage implements IStorage {
       (transaction) => 
         transaction.userId === userId && 
         transaction.transactionType === "sales_invoice" && 
-        ["pending", "overdue", "partially_paid"].includes(transaction.status)
+        openStatuses.includes(transaction.status)
     );
     
     const total = openReceivables.reduce((sum, transaction) => sum + Number(transaction.balanceDue || 0), 0);
@@ -273,26 +1008,59 @@ class MemStorage implements IStorage {
   }
   
   async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    this.assertNumberFree(insertTransaction);
+    const id = this.transactionIdCounter++;
+    const now = new Date();
+    const transaction: Transaction = { ...transactionDefaults, ...definedValues(insertTransaction), id, createdAt: now };
+    this.transactions.set(id, transaction);
+    return transaction;
+  }
+  
+  // Nothing is awaited between the header and its lines, so no request sees one without the other
+  async createTransactionWithItems(insertTransaction: InsertTransaction, insertItems: Omit<InsertTransactionItem, "transactionId">[]): Promise<Transaction> {
+    this.assertNumberFree(insertTransaction);
     const id = this.transactionIdCounter++;
     const now = new Date();
-    const transaction: Transaction = { ...insertTransaction, id, createdAt: now };
+    const transaction: Transaction = { ...transactionDefaults, ...definedValues(insertTransaction), id, createdAt: now };
     this.transactions.set(id, transaction);
+    for (const insertItem of insertItems) {
+      const itemId = this.transactionItemIdCounter++;
+      const transactionItem: TransactionItem = { ...transactionItemDefaults, ...definedValues(insertItem), id: itemId, transactionId: id, createdAt: now };
+      this.transactionItems.set(itemId, transactionItem);
+    }
     return transaction;
   }
   
-  async updateTransaction(id: number, updates: Partial<InsertTransaction>): Promise<Transaction> {
-    const transaction = await this.getTransaction(id);
+  async updateTransaction(userId: number, id: number, updates: Partial<InsertTransaction>): Promise<Transaction> {
+    const transaction = await this.getTransaction(userId, id);
     if (!transaction) {
       throw new Error(`Transaction with id ${id} not found`);
     }
     
-    const updatedTransaction: Transaction = { ...transaction, ...updates };
+    const updatedTransaction: Transaction = { ...transaction, ...definedValues(updates) };
+    this.assertNumberFree(updatedTransaction, id);
     this.transactions.set(id, updatedTransaction);
     return updatedTransaction;
   }
   
+  // The unique number per company and document type that Postgres enforces
+  private assertNumberFree(transaction: Pick<Transaction, "userId" | "transactionType" | "transactionNumber">, exceptId?: number) {
+    const taken = Array.from(this.transactions.values()).some((existing) =>
+      existing.id !== exceptId &&
+      existing.userId === transaction.userId &&
+      existing.transactionType === transaction.transactionType &&
+      existing.transactionNumber === transaction.transactionNumber
+    );
+    if (taken) {
+      throw new Error(`Transaction number ${transaction.transactionNumber} already exists`);
+    }
+  }
+  
   // Transaction Item operations
-  async getTransactionItemsByTransactionId(transactionId: number): Promise<TransactionItem[]> {
+  async getTransactionItemsByTransactionId(userId: number, transactionId: number): Promise<TransactionItem[]> {
+    if (!(await this.getTransaction(userId, transactionId))) {
+      return [];
+    }
     return Array.from(this.transactionItems.values()).filter(
       (item) => item.transactionId === transactionId
     );
@@ -301,15 +1069,206 @@ class MemStorage implements IStorage {
   async createTransactionItem(insertTransactionItem: InsertTransactionItem): Promise<TransactionItem> {
     const id = this.transactionItemIdCounter++;
     const now = new Date();
-    const transactionItem: TransactionItem = { ...insertTransactionItem, id, createdAt: now };
+    const transactionItem: TransactionItem = { ...transactionItemDefaults, ...definedValues(insertTransactionItem), id, createdAt: now };
     this.transactionItems.set(id, transactionItem);
     return transactionItem;
   }
   
+  async updateTransactionItem(userId: number, id: number, updates: Partial<InsertTransactionItem>): Promise<TransactionItem> {
+    const transactionItem = this.transactionItems.get(id);
+    if (!transactionItem || !(await this.getTransaction(userId, transactionItem.transactionId))) {
+      throw new Error(`Transaction item with id ${id} not found`);
+    }
+    
+    const updatedTransactionItem: TransactionItem = { ...transactionItem, ...definedValues(updates) };
+    this.transactionItems.set(id, updatedTransactionItem);
+    return updatedTransactionItem;
+  }
+  
+  async replaceTransactionItems(userId: number, transactionId: number, edits: TransactionItemEdit[]): Promise<TransactionItem[]> {
+    if (!(await this.getTransaction(userId, transactionId))) {
+      throw new Error(`Transaction with id ${transactionId} not found`);
+    }
+    const existing = await this.getTransactionItemsByTransactionId(userId, transactionId);
+    assertItemEdits(existing, edits);
+    
+    // Everything is checked before anything changes, and nothing is awaited from here on
+    return this.applyItemEdits(transactionId, existing, edits);
+  }
+  
+  // Nothing is awaited once the checks are done, so no request sees part of the save
+  async saveTransactionEdit(userId: number, id: number, save: TransactionSave): Promise<Transaction> {
+    const previous = await this.getTransaction(userId, id);
+    if (!previous) {
+      throw new Error(`Transaction with id ${id} not found`);
+    }
+    const previousLines = await this.getTransactionItemsByTransactionId(userId, id);
+    if (save.lines) {
+      assertItemEdits(previousLines, save.lines);
+    }
+    const transaction: Transaction = { ...previous, ...definedValues(save.updates) };
+    this.assertNumberFree(transaction, id);
+    
+    this.transactions.set(id, transaction);
+    if (save.lines) {
+      this.applyItemEdits(id, previousLines, save.lines);
+    }
+    const lines = Array.from(this.transactionItems.values()).filter((item) => item.transactionId === id);
+    const draft = save.revise({ transaction: previous, lines: previousLines }, { transaction, lines });
+    if (draft) {
+      const revisions = Array.from(this.transactionRevisions.values()).filter((revision) => revision.transactionId === id);
+      let latest = Math.max(0, ...revisions.map((revision) => revision.revision));
+      if (latest === 0) {
+        this.addRevision({ transactionId: id, revision: ++latest, content: draft.before, changes: [], editedBy: null, userId });
+      }
+      this.addRevision({ transactionId: id, revision: latest + 1, content: draft.after, changes: draft.changes, editedBy: draft.editedBy, userId });
+    }
+    return transaction;
+  }
+  
+  private applyItemEdits(transactionId: number, existing: TransactionItem[], edits: TransactionItemEdit[]): TransactionItem[] {
+    const kept = new Set(edits.map((edit) => edit.id));
+    const removed = existing.filter((item) => !kept.has(item.id)).map((item) => item.id);
+    for (const id of removed) {
+      this.transactionItems.delete(id);
+    }
+    Array.from(this.stockMovements.values())
+      .filter((movement) => movement.transactionItemId !== null && removed.includes(movement.transactionItemId))
+      .forEach((movement) => this.stockMovements.set(movement.id, { ...movement, transactionItemId: null }));
+    Array.from(this.transactionItems.values())
+      .filter((item) => item.sourceItemId !== null && removed.includes(item.sourceItemId))
+      .forEach((item) => this.transactionItems.set(item.id, { ...item, sourceItemId: null }));
+    
+    const now = new Date();
+    return edits.map(({ id, ...edit }) => {
+      const transactionItem: TransactionItem = id !== undefined
+        ? { ...this.transactionItems.get(id)!, ...definedValues(edit) }
+        : { ...transactionItemDefaults, ...definedValues(edit), id: this.transactionItemIdCounter++, transactionId, createdAt: now };
+      this.transactionItems.set(transactionItem.id, transactionItem);
+      return transactionItem;
+    });
+  }
+  
+  // Stock ledger operations
+  async getStockMovements(userId: number, filter: StockMovementFilter = {}): Promise<StockMovement[]> {
+    return Array.from(this.stockMovements.values())
+      .filter((movement) =>
+        movement.userId === userId &&
+        (filter.itemId === undefined || movement.itemId === filter.itemId) &&
+        (filter.godownId === undefined || movement.godownId === filter.godownId) &&
+        (filter.asOf === undefined || movement.movementDate <= filter.asOf)
+      )
+      .sort((a, b) => a.movementDate.getTime() - b.movementDate.getTime() || a.id - b.id);
+  }
+  
+  async getStockMovementsByTransactionId(userId: number, transactionId: number): Promise<StockMovement[]> {
+    return Array.from(this.stockMovements.values()).filter(
+      (movement) => movement.userId === userId && movement.transactionId === transactionId
+    );
+  }
+  
+  async getStockBalances(userId: number, asOf?: Date): Promise<StockBalance[]> {
+    const balances = new Map<string, StockBalance>();
+    
+    for (const movement of await this.getStockMovements(userId, { asOf })) {
+      const key = `${movement.itemId}:${movement.godownId}`;
+      const balance = balances.get(key) ?? { itemId: movement.itemId, godownId: movement.godownId, quantity: 0 };
+      balance.quantity += parseFloat(movement.quantity);
+      balances.set(key, balance);
+    }
+    
+    return Array.from(balances.values());
+  }
+  
+  async createStockMovement(insertStockMovement: InsertStockMovement): Promise<StockMovement> {
+    const id = this.stockMovementIdCounter++;
+    const now = new Date();
+    const stockMovement: StockMovement = { ...stockMovementDefaults, ...definedValues(insertStockMovement), id, createdAt: now };
+    this.stockMovements.set(id, stockMovement);
+    return stockMovement;
+  }
+  
+  // Payment allocation operations
+  async getPaymentAllocations(userId: number): Promise<PaymentAllocation[]> {
+    return Array.from(this.paymentAllocations.values()).filter(
+      (allocation) => allocation.userId === userId
+    );
+  }
+  
+  async getPaymentAllocationsByTransactionId(userId: number, transactionId: number): Promise<PaymentAllocation[]> {
+    return Array.from(this.paymentAllocations.values()).filter(
+      (allocation) => allocation.userId === userId
+        && (allocation.paymentId === transactionId || allocation.documentId === transactionId)
+    );
+  }
+  
+  async getPaymentAllocation(userId: number, id: number): Promise<PaymentAllocation | undefined> {
+    const allocation = this.paymentAllocations.get(id);
+    return allocation?.userId === userId ? allocation : undefined;
+  }
+  
+  async createPaymentAllocation(insertPaymentAllocation: InsertPaymentAllocation): Promise<PaymentAllocation> {
+    const id = this.paymentAllocationIdCounter++;
+    const allocation: PaymentAllocation = { ...insertPaymentAllocation, id, createdAt: new Date() };
+    this.paymentAllocations.set(id, allocation);
+    return allocation;
+  }
+  
+  async savePaymentAllocations(userId: number, paymentId: number, save: AllocationSave): Promise<PaymentAllocation[]> {
+    // Nothing is awaited between the check and the save, so no other allocation can come in between
+    const payment = this.transactions.get(paymentId);
+    if (!payment || payment.userId !== userId) {
+      throw new Error(`Transaction with id ${paymentId} not found`);
+    }
+    const documentIds = new Set(save.allocations.map((allocation) => allocation.documentId));
+    const documents = Array.from(this.transactions.values())
+      .filter((transaction) => transaction.userId === userId && documentIds.has(transaction.id));
+    const allocated = Array.from(this.paymentAllocations.values())
+      .filter((allocation) => allocation.paymentId === paymentId || documentIds.has(allocation.documentId));
+    save.check(payment, documents, allocated);
+    
+    return save.allocations.map((insert) => {
+      const id = this.paymentAllocationIdCounter++;
+      const allocation: PaymentAllocation = { ...insert, paymentId, userId, id, createdAt: new Date() };
+      this.paymentAllocations.set(id, allocation);
+      return allocation;
+    });
+  }
+  
+  async deletePaymentAllocation(userId: number, id: number): Promise<void> {
+    if (!(await this.getPaymentAllocation(userId, id))) {
+      throw new Error(`Payment allocation with id ${id} not found`);
+    }
+    this.paymentAllocations.delete(id);
+  }
+  
+  // Transaction revision operations
+  async getTransactionRevisions(userId: number, transactionId: number): Promise<TransactionRevision[]> {
+    return Array.from(this.transactionRevisions.values())
+      .filter((revision) => revision.userId === userId && revision.transactionId === transactionId)
+      .sort((a, b) => a.revision - b.revision);
+  }
+  
+  async createTransactionRevision(insertTransactionRevision: InsertTransactionRevision): Promise<TransactionRevision> {
+    return this.addRevision(insertTransactionRevision);
+  }
+  
+  private addRevision(insertTransactionRevision: InsertTransactionRevision): TransactionRevision {
+    const duplicate = Array.from(this.transactionRevisions.values()).some((revision) =>
+      revision.transactionId === insertTransactionRevision.transactionId && revision.revision === insertTransactionRevision.revision);
+    if (duplicate) {
+      throw new Error(`Revision ${insertTransactionRevision.revision} of transaction ${insertTransactionRevision.transactionId} already exists`);
+    }
+    const id = this.transactionRevisionIdCounter++;
+    const revision: TransactionRevision = { ...insertTransactionRevision, editedBy: insertTransactionRevision.editedBy ?? null, id, createdAt: new Date() };
+    this.transactionRevisions.set(id, revision);
+    return revision;
+  }
+  
   // BNPL Limit operations
-  async getBnplLimitsByPartyId(partyId: number): Promise<BnplLimit[]> {
+  async getBnplLimitsByPartyId(userId: number, partyId: number): Promise<BnplLimit[]> {
     return Array.from(this.bnplLimits.values()).filter(
-      (limit) => limit.partyId === partyId
+      (limit) => limit.userId === userId && limit.partyId === partyId
     );
   }
   
@@ -328,18 +1287,18 @@ class MemStorage implements IStorage {
   async createBnplLimit(insertBnplLimit: InsertBnplLimit): Promise<BnplLimit> {
     const id = this.bnplLimitIdCounter++;
     const now = new Date();
-    const bnplLimit: BnplLimit = { ...insertBnplLimit, id, createdAt: now };
+    const bnplLimit: BnplLimit = { ...bnplLimitDefaults, ...definedValues(insertBnplLimit), id, createdAt: now };
     this.bnplLimits.set(id, bnplLimit);
     return bnplLimit;
   }
   
-  async updateBnplLimit(id: number, updates: Partial<InsertBnplLimit>): Promise<BnplLimit> {
+  async updateBnplLimit(userId: number, id: number, updates: Partial<InsertBnplLimit>): Promise<BnplLimit> {
     const bnplLimit = this.bnplLimits.get(id);
-    if (!bnplLimit) {
+    if (!bnplLimit || bnplLimit.userId !== userId) {
       throw new Error(`BNPL Limit with id ${id} not found`);
     }
     
-    const updatedBnplLimit: BnplLimit = { ...bnplLimit, ...updates };
+    const updatedBnplLimit: BnplLimit = { ...bnplLimit, ...definedValues(updates) };
     this.bnplLimits.set(id, updatedBnplLimit);
     return updatedBnplLimit;
   }
@@ -348,68 +1307,410 @@ class MemStorage implements IStorage {
   async getTallySyncLogs(userId: number): Promise<TallySyncLog[]> {
     return Array.from(this.tallySyncLogs.values())
       .filter((log) => log.userId === userId)
-      .sort((a, b) => new Date(b.syncedAt).getTime() - new Date(a.syncedAt).getTime());
+      .sort((a, b) => (b.syncedAt?.getTime() ?? 0) - (a.syncedAt?.getTime() ?? 0));
   }
   
   async getRecentTallySyncLog(userId: number): Promise<TallySyncLog | undefined> {
     return Array.from(this.tallySyncLogs.values())
       .filter((log) => log.userId === userId)
-      .sort((a, b) => new Date(b.syncedAt).getTime() - new Date(a.syncedAt).getTime())[0];
+      .sort((a, b) => (b.syncedAt?.getTime() ?? 0) - (a.syncedAt?.getTime() ?? 0))[0];
   }
   
   async createTallySyncLog(insertTallySyncLog: InsertTallySyncLog): Promise<TallySyncLog> {
     const id = this.tallySyncLogIdCounter++;
     const now = new Date();
-    const tallySyncLog: TallySyncLog = { ...insertTallySyncLog, id, syncedAt: now };
+    const tallySyncLog: TallySyncLog = { ...tallySyncLogDefaults, ...definedValues(insertTallySyncLog), id, syncedAt: now };
     this.tallySyncLogs.set(id, tallySyncLog);
     return tallySyncLog;
   }
   
-  // Ageing Analysis
-  async getReceivablesAgeing(userId: number): Promise<{
-    current: number;
-    days1to30: number;
-    days31to60: number;
-    days60plus: number;
-  }> {
-    const now = new Date();
-    const openReceivables = Array.from(this.transactions.values()).filter(
-      (transaction) => 
-        transaction.userId === userId && 
-        transaction.transactionType === "sales_invoice" && 
-        ["pending", "overdue", "partially_paid"].includes(transaction.status)
-    );
-    
-    const result = {
-      current: 0,
-      days1to30: 0,
-      days31to60: 0,
-      days60plus: 0
-    };
-    
-    openReceivables.forEach(transaction => {
-      if (!transaction.dueDate) return;
-      
-      const dueDate = new Date(transaction.dueDate);
-      const diffDays = Math.floor((now.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
-      
-      if (diffDays <= 0) {
-        result.current += Number(transaction.balanceDue || 0);
-      } else if (diffDays <= 30) {
-        result.days1to30 += Number(transaction.balanceDue || 0);
-      } else if (diffDays <= 60) {
-        result.days31to60 += Number(transaction.balanceDue || 0);
-      } else {
-        result.days60plus += Number(transaction.balanceDue || 0);
-      }
-    });
+  async updateTallySyncLog(userId: number, id: number, updates: Partial<InsertTallySyncLog>): Promise<TallySyncLog> {
+    const log = this.tallySyncLogs.get(id);
+    if (!log || log.userId !== userId) {
+      throw new Error(`Tally sync log with id ${id} not found`);
+    }
     
-    return result;
+    const updatedLog: TallySyncLog = { ...log, ...definedValues(updates) };
+    this.tallySyncLogs.set(id, updatedLog);
+    return updatedLog;
   }
   
-  async getPayablesAgeing(userId: number): Promise<{
-    current: number;
-    days1to30: number;
+  async getTallySyncEntries(userId: number, logId: number): Promise<TallySyncEntry[]> {
+    return Array.from(this.tallySyncEntries.values()).filter(
+      (entry) => entry.userId === userId && entry.logId === logId
+    );
+  }
+  
+  async createTallySyncEntry(insertTallySyncEntry: InsertTallySyncEntry): Promise<TallySyncEntry> {
+    const id = this.tallySyncEntryIdCounter++;
+    const entry: TallySyncEntry = { ...tallySyncEntryDefaults, ...definedValues(insertTallySyncEntry), id };
+    this.tallySyncEntries.set(id, entry);
+    return entry;
+  }
+  
+  // Tally sync job operations
+  async getTallySyncJob(userId: number): Promise<TallySyncJob | undefined> {
+    return Array.from(this.tallySyncJobs.values()).find((job) => job.userId === userId);
+  }
+  
+  // No await between the check and the write, so two callers cannot both take the lock
+  async acquireTallySyncLock(userId: number, lockId: string, staleBefore: Date): Promise<TallySyncJob | undefined> {
+    const existing = Array.from(this.tallySyncJobs.values()).find((job) => job.userId === userId);
+    if (existing?.lockedAt && existing.lockedAt >= staleBefore) {
+      return undefined;
+    }
+    const job: TallySyncJob = {
+      ...tallySyncJobDefaults,
+      ...existing,
+      id: existing?.id ?? this.tallySyncJobIdCounter++,
+      userId,
+      lockId,
+      lockedAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.tallySyncJobs.set(job.id, job);
+    return job;
+  }
+  
+  async releaseTallySyncLock(userId: number, lockId: string, updates: Partial<InsertTallySyncJob>): Promise<TallySyncJob> {
+    const job = await this.getTallySyncJob(userId);
+    if (!job || job.lockId !== lockId) {
+      throw new Error(`Tally sync lock ${lockId} is not held`);
+    }
+    const updatedJob: TallySyncJob = { ...job, ...definedValues(updates), lockId: null, lockedAt: null, updatedAt: new Date() };
+    this.tallySyncJobs.set(job.id, updatedJob);
+    return updatedJob;
+  }
+  
+  // Tally mapping operations
+  async getTallyMappings(userId: number): Promise<TallyMapping[]> {
+    return Array.from(this.tallyMappings.values()).filter(
+      (mapping) => mapping.userId === userId
+    );
+  }
+  
+  async getTallyMapping(userId: number, id: number): Promise<TallyMapping | undefined> {
+    const mapping = this.tallyMappings.get(id);
+    return mapping?.userId === userId ? mapping : undefined;
+  }
+  
+  async saveTallyMapping(insertTallyMapping: InsertTallyMapping): Promise<TallyMapping> {
+    const existing = Array.from(this.tallyMappings.values()).find(
+      (mapping) => mapping.userId === insertTallyMapping.userId
+        && mapping.mappingType === insertTallyMapping.mappingType
+        && mapping.sourceKey === insertTallyMapping.sourceKey
+    );
+    const mapping: TallyMapping = {
+      ...insertTallyMapping,
+      id: existing?.id ?? this.tallyMappingIdCounter++,
+      updatedAt: new Date(),
+    };
+    this.tallyMappings.set(mapping.id, mapping);
+    return mapping;
+  }
+  
+  async deleteTallyMapping(userId: number, id: number): Promise<void> {
+    if (!(await this.getTallyMapping(userId, id))) {
+      throw new Error(`Tally mapping with id ${id} not found`);
+    }
+    this.tallyMappings.delete(id);
+  }
+  
+  // Numbering series operations
+  async getNumberingSeriesByUserId(userId: number): Promise<NumberingSeries[]> {
+    return Array.from(this.numberingSeries.values()).filter(
+      (series) => series.userId === userId
+    );
+  }
+  
+  async getNumberingSeries(userId: number, id: number): Promise<NumberingSeries | undefined> {
+    const series = this.numberingSeries.get(id);
+    return series?.userId === userId ? series : undefined;
+  }
+  
+  async createNumberingSeries(insertNumberingSeries: InsertNumberingSeries): Promise<NumberingSeries> {
+    const branch = insertNumberingSeries.branch ?? null;
+    const duplicate = Array.from(this.numberingSeries.values()).some((series) =>
+      series.userId === insertNumberingSeries.userId &&
+      series.transactionType === insertNumberingSeries.transactionType &&
+      series.branch === branch
+    );
+    if (duplicate) {
+      throw new Error(`A numbering series for ${insertNumberingSeries.transactionType} already exists`);
+    }
+    const id = this.numberingSeriesIdCounter++;
+    const series: NumberingSeries = { ...numberingSeriesDefaults, ...definedValues(insertNumberingSeries), id, updatedAt: new Date() };
+    this.numberingSeries.set(id, series);
+    return series;
+  }
+  
+  async updateNumberingSeries(userId: number, id: number, updates: Partial<InsertNumberingSeries>): Promise<NumberingSeries> {
+    const series = await this.getNumberingSeries(userId, id);
+    if (!series) {
+      throw new Error(`Numbering series with id ${id} not found`);
+    }
+    
+    const updatedSeries: NumberingSeries = { ...series, ...definedValues(updates), updatedAt: new Date() };
+    this.numberingSeries.set(id, updatedSeries);
+    return updatedSeries;
+  }
+  
+  async deleteNumberingSeries(userId: number, id: number): Promise<void> {
+    if (!(await this.getNumberingSeries(userId, id))) {
+      throw new Error(`Numbering series with id ${id} not found`);
+    }
+    this.numberingSeries.delete(id);
+  }
+  
+  async getNumberingCounters(userId: number, seriesId: number): Promise<NumberingCounter[]> {
+    if (!(await this.getNumberingSeries(userId, seriesId))) {
+      return [];
+    }
+    return Array.from(this.numberingCounters.values()).filter(
+      (counter) => counter.seriesId === seriesId
+    );
+  }
+  
+  // Nothing is awaited between reading the counter and moving it on
+  async takeSeriesNumber(userId: number, seriesId: number, period: string, atLeast = 1): Promise<number> {
+    const series = this.numberingSeries.get(seriesId);
+    if (series?.userId !== userId) {
+      throw new Error(`Numbering series with id ${seriesId} not found`);
+    }
+    const counter = Array.from(this.numberingCounters.values()).find(
+      (candidate) => candidate.seriesId === seriesId && candidate.period === period
+    );
+    const floor = Math.max(series.startNumber, atLeast);
+    const lastNumber = counter ? Math.max(counter.lastNumber + 1, floor) : floor;
+    const id = counter?.id ?? this.numberingCounterIdCounter++;
+    this.numberingCounters.set(id, { id, seriesId, period, lastNumber });
+    return lastNumber;
+  }
+  
+  // Chart of accounts operations
+  async getAccountsByUserId(userId: number): Promise<Account[]> {
+    return Array.from(this.accounts.values()).filter(
+      (account) => account.userId === userId
+    );
+  }
+  
+  async getAccount(userId: number, id: number): Promise<Account | undefined> {
+    const account = this.accounts.get(id);
+    return account?.userId === userId ? account : undefined;
+  }
+  
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    this.assertAccountFree(insertAccount);
+    const id = this.accountIdCounter++;
+    const account: Account = { ...accountDefaults, ...definedValues(insertAccount), id, createdAt: new Date() };
+    this.accounts.set(id, account);
+    return account;
+  }
+  
+  async updateAccount(userId: number, id: number, updates: Partial<InsertAccount>): Promise<Account> {
+    const account = await this.getAccount(userId, id);
+    if (!account) {
+      throw new Error(`Account with id ${id} not found`);
+    }
+    
+    const updatedAccount: Account = { ...account, ...definedValues(updates) };
+    this.assertAccountFree(updatedAccount, id);
+    this.accounts.set(id, updatedAccount);
+    return updatedAccount;
+  }
+  
+  // The unique name and system key per company that Postgres enforces
+  private assertAccountFree(account: Pick<Account, "userId" | "name"> & { systemKey?: string | null }, exceptId?: number) {
+    const clash = Array.from(this.accounts.values()).find((existing) =>
+      existing.id !== exceptId &&
+      existing.userId === account.userId &&
+      (existing.name === account.name || (!!account.systemKey && existing.systemKey === account.systemKey))
+    );
+    if (clash) {
+      throw new Error(`Account ${clash.name} already exists`);
+    }
+  }
+  
+  // General ledger operations
+  async getJournalEntries(userId: number, filter: JournalEntryFilter = {}): Promise<JournalEntry[]> {
+    return Array.from(this.journalEntries.values())
+      .filter((entry) =>
+        entry.userId === userId &&
+        (filter.transactionId === undefined || entry.transactionId === filter.transactionId) &&
+        (filter.asOf === undefined || entry.entryDate <= filter.asOf)
+      )
+      .sort((a, b) => a.entryDate.getTime() - b.entryDate.getTime() || a.id - b.id);
+  }
+  
+  async getJournalEntry(userId: number, id: number): Promise<JournalEntry | undefined> {
+    const entry = this.journalEntries.get(id);
+    return entry?.userId === userId ? entry : undefined;
+  }
+  
+  async getJournalLines(userId: number, journalEntryIds: number[]): Promise<JournalLine[]> {
+    const entryIds = new Set(journalEntryIds.filter((id) => this.journalEntries.get(id)?.userId === userId));
+    return Array.from(this.journalLines.values()).filter(
+      (line) => entryIds.has(line.journalEntryId)
+    );
+  }
+  
+  async getAccountBalances(userId: number, asOf?: Date): Promise<AccountBalance[]> {
+    const balances = new Map<number, AccountBalance>();
+    const entries = await this.getJournalEntries(userId, { asOf });
+    
+    for (const line of await this.getJournalLines(userId, entries.map((entry) => entry.id))) {
+      const balance = balances.get(line.accountId) ?? { accountId: line.accountId, debit: 0, credit: 0 };
+      balance.debit += parseFloat(line.debit);
+      balance.credit += parseFloat(line.credit);
+      balances.set(line.accountId, balance);
+    }
+    
+    return Array.from(balances.values());
+  }
+  
+  // Nothing is awaited between the entry and its lines, so no request sees one without the other
+  async createJournalEntry(insertJournalEntry: InsertJournalEntry, insertLines: Omit<InsertJournalLine, "journalEntryId">[]): Promise<JournalEntry> {
+    const id = this.journalEntryIdCounter++;
+    const entry: JournalEntry = { ...journalEntryDefaults, ...definedValues(insertJournalEntry), id, createdAt: new Date() };
+    this.journalEntries.set(id, entry);
+    for (const insertLine of insertLines) {
+      const lineId = this.journalLineIdCounter++;
+      const line: JournalLine = { ...journalLineDefaults, ...definedValues(insertLine), id: lineId, journalEntryId: id };
+      this.journalLines.set(lineId, line);
+    }
+    return entry;
+  }
+  
+  async createJournalVoucher(insertJournalEntry: Omit<InsertJournalEntry, "voucherNumber">, insertLines: Omit<InsertJournalLine, "journalEntryId">[], numberOf: (vouchers: JournalEntry[]) => string): Promise<JournalEntry> {
+    // Nothing is awaited between numbering and saving, so no other voucher can take the number
+    const vouchers = Array.from(this.journalEntries.values()).filter((entry) =>
+      entry.userId === insertJournalEntry.userId && entry.transactionId === null && entry.reversedEntryId === null);
+    return this.createJournalEntry({ ...insertJournalEntry, voucherNumber: numberOf(vouchers) }, insertLines);
+  }
+  
+  // GSTR-2B reconciliation operations
+  async getGstr2bImports(userId: number): Promise<Gstr2bImport[]> {
+    return Array.from(this.gstr2bImports.values())
+      .filter((gstr2bImport) => gstr2bImport.userId === userId)
+      .sort((a, b) => b.period.localeCompare(a.period));
+  }
+  
+  async getGstr2bImport(userId: number, id: number): Promise<Gstr2bImport | undefined> {
+    const gstr2bImport = this.gstr2bImports.get(id);
+    return gstr2bImport?.userId === userId ? gstr2bImport : undefined;
+  }
+  
+  async createGstr2bImport(insertGstr2bImport: InsertGstr2bImport): Promise<Gstr2bImport> {
+    const id = this.gstr2bImportIdCounter++;
+    const gstr2bImport: Gstr2bImport = { ...gstr2bImportDefaults, ...definedValues(insertGstr2bImport), id, importedAt: new Date() };
+    this.gstr2bImports.set(id, gstr2bImport);
+    return gstr2bImport;
+  }
+  
+  async deleteGstr2bImport(userId: number, id: number): Promise<void> {
+    if (!(await this.getGstr2bImport(userId, id))) {
+      throw new Error(`GSTR-2B import with id ${id} not found`);
+    }
+    Array.from(this.gstr2bEntries.values())
+      .filter((entry) => entry.importId === id)
+      .forEach((entry) => this.gstr2bEntries.delete(entry.id));
+    this.gstr2bImports.delete(id);
+  }
+  
+  // Nothing is awaited, so no request sees the period half replaced
+  async replaceGstr2bImport(insertGstr2bImport: InsertGstr2bImport, insertEntries: Omit<InsertGstr2bEntry, "importId">[]): Promise<Gstr2bImport> {
+    const replaced = new Set(Array.from(this.gstr2bImports.values())
+      .filter((existing) => existing.userId === insertGstr2bImport.userId && existing.period === insertGstr2bImport.period)
+      .map((existing) => existing.id));
+    Array.from(this.gstr2bEntries.values())
+      .filter((entry) => replaced.has(entry.importId))
+      .forEach((entry) => this.gstr2bEntries.delete(entry.id));
+    replaced.forEach((id) => this.gstr2bImports.delete(id));
+    
+    const id = this.gstr2bImportIdCounter++;
+    const gstr2bImport: Gstr2bImport = { ...gstr2bImportDefaults, ...definedValues(insertGstr2bImport), id, importedAt: new Date() };
+    this.gstr2bImports.set(id, gstr2bImport);
+    for (const insertEntry of insertEntries) {
+      const entryId = this.gstr2bEntryIdCounter++;
+      this.gstr2bEntries.set(entryId, { ...gstr2bEntryDefaults, ...definedValues(insertEntry), importId: id, id: entryId });
+    }
+    return gstr2bImport;
+  }
+  
+  async getGstr2bEntries(userId: number, importId: number): Promise<Gstr2bEntry[]> {
+    return Array.from(this.gstr2bEntries.values()).filter(
+      (entry) => entry.userId === userId && entry.importId === importId
+    );
+  }
+  
+  async getGstr2bEntry(userId: number, id: number): Promise<Gstr2bEntry | undefined> {
+    const entry = this.gstr2bEntries.get(id);
+    return entry?.userId === userId ? entry : undefined;
+  }
+  
+  async createGstr2bEntry(insertGstr2bEntry: InsertGstr2bEntry): Promise<Gstr2bEntry> {
+    const id = this.gstr2bEntryIdCounter++;
+    const entry: Gstr2bEntry = { ...gstr2bEntryDefaults, ...definedValues(insertGstr2bEntry), id };
+    this.gstr2bEntries.set(id, entry);
+    return entry;
+  }
+  
+  async updateGstr2bEntry(userId: number, id: number, updates: Partial<InsertGstr2bEntry>): Promise<Gstr2bEntry> {
+    const entry = await this.getGstr2bEntry(userId, id);
+    if (!entry) {
+      throw new Error(`GSTR-2B entry with id ${id} not found`);
+    }
+    
+    const updatedEntry: Gstr2bEntry = { ...entry, ...definedValues(updates) };
+    this.gstr2bEntries.set(id, updatedEntry);
+    return updatedEntry;
+  }
+  
+  // Ageing Analysis
+  async getReceivablesAgeing(userId: number): Promise<{
+    current: number;
+    days1to30: number;
+    days31to60: number;
+    days60plus: number;
+  }> {
+    const now = new Date();
+    const openReceivables = Array.from(this.transactions.values()).filter(
+      (transaction) => 
+        transaction.userId === userId && 
+        transaction.transactionType === "sales_invoice" && 
+        openStatuses.includes(transaction.status)
+    );
+    
+    const result = {
+      current: 0,
+      days1to30: 0,
+      days31to60: 0,
+      days60plus: 0
+    };
+    
+    openReceivables.forEach(transaction => {
+      if (!transaction.dueDate) return;
+      
+      const dueDate = new Date(transaction.dueDate);
+      const diffDays = Math.floor((now.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
+      
+      if (diffDays <= 0) {
+        result.current += Number(transaction.balanceDue || 0);
+      } else if (diffDays <= 30) {
+        result.days1to30 += Number(transaction.balanceDue || 0);
+      } else if (diffDays <= 60) {
+        result.days31to60 += Number(transaction.balanceDue || 0);
+      } else {
+        result.days60plus += Number(transaction.balanceDue || 0);
+      }
+    });
+    
+    return result;
+  }
+  
+  async getPayablesAgeing(userId: number): Promise<{
+    current: number;
+    days1to30: number;
     days31to60: number;
     days60plus: number;
   }> {
@@ -418,7 +1719,7 @@ class MemStorage implements IStorage {
       (transaction) => 
         transaction.userId === userId && 
         transaction.transactionType === "purchase_bill" && 
-        ["pending", "overdue", "partially_paid"].includes(transaction.status)
+        openStatuses.includes(transaction.status)
     );
     
     const result = {
@@ -452,11 +1753,13 @@ class MemStorage implements IStorage {
   private initializeData() {
     // Create a demo user
     const user: User = {
+      ...userDefaults,
       id: 1,
       username: "demo",
-      password: "password",
+      // scrypt hash of "password"
+      password: "845aea179bdcc0b3202203de2b3bd68e16f85cd3982fba481a5b666aaf8e721721c78a44f35b4caa496c91cf4d254ad11a123bb99a5f5a73c53ae4dfffa7e5a4.5f1c2a9d8e3b4c7a6d0e9f8a7b6c5d4e",
       companyName: "Trivedi & Sons",
-      gstin: "22AAAAA0000A1Z5",
+      gstin: "22AAAAA0000A1ZC",
       email: "demo@example.com",
       phone: "9876543210",
       role: "admin",
@@ -464,6 +1767,17 @@ class MemStorage implements IStorage {
     };
     this.users.set(user.id, user);
     this.userIdCounter = 2;
+    
+    this.companySettings.set(1, {
+      ...companySettingsDefaults,
+      id: 1,
+      address: "123 Business Hub, Commercial Area",
+      city: "Raipur",
+      pincode: "492001",
+      userId: 1,
+      updatedAt: new Date()
+    });
+    this.companySettingsIdCounter = 2;
 
     // Create demo parties (customers and vendors)
     const parties: Party[] = [
@@ -471,7 +1785,7 @@ class MemStorage implements IStorage {
         id: 1,
         name: "GlobalTech Solutions",
         type: "customer",
-        gstin: "27BBBBB1111B1Z5",
+        gstin: "27BBBBB1111B1ZN",
         contactPerson: "Sanjay Kumar",
         email: "contact@globaltech.com",
         phone: "9876543211",
@@ -488,7 +1802,7 @@ class MemStorage implements IStorage {
         id: 2,
         name: "Bharath Electronics Ltd",
         type: "vendor",
-        gstin: "29CCCCC2222C1Z5",
+        gstin: "29CCCCC2222C1Z4",
         contactPerson: "Rajesh Sharma",
         email: "procurement@bel.com",
         phone: "9876543212",
@@ -505,7 +1819,7 @@ class MemStorage implements IStorage {
         id: 3,
         name: "Sundar Innovations",
         type: "customer",
-        gstin: "33DDDDD3333D1Z5",
+        gstin: "33DDDDD3333D1Z0",
         contactPerson: "Leela Sundar",
         email: "info@sundarinnovations.com",
         phone: "9876543213",
@@ -522,7 +1836,7 @@ class MemStorage implements IStorage {
         id: 4,
         name: "Ashok Suppliers",
         type: "vendor",
-        gstin: "32EEEEE4444E1Z5",
+        gstin: "32EEEEE4444E1ZN",
         contactPerson: "Ashok Patel",
         email: "sales@ashoksuppliers.com",
         phone: "9876543214",
@@ -557,14 +1871,39 @@ class MemStorage implements IStorage {
     parties.forEach(party => this.parties.set(party.id, party));
     this.partyIdCounter = parties.length + 1;
 
+    // Create demo inventory masters
+    const stockGroups: StockGroup[] = [
+      { ...stockGroupDefaults, id: 1, name: "Electronics", hsnCode: "8471", gstRate: "18", userId: 1, createdAt: new Date() },
+      { ...stockGroupDefaults, id: 2, name: "Networking", hsnCode: "8517", gstRate: "18", userId: 1, createdAt: new Date() }
+    ];
+    stockGroups.forEach(group => this.stockGroups.set(group.id, group));
+    this.stockGroupIdCounter = stockGroups.length + 1;
+
+    const godowns: Godown[] = [
+      { ...godownDefaults, id: 1, name: "Main Warehouse", address: "123 Industrial Area, Mumbai", userId: 1, createdAt: new Date() },
+      { ...godownDefaults, id: 2, name: "Delhi Branch", address: "456 Distribution Center, Delhi", userId: 1, createdAt: new Date() },
+      { ...godownDefaults, id: 3, name: "Finished Goods Section", parentId: 1, userId: 1, createdAt: new Date() }
+    ];
+    godowns.forEach(godown => this.godowns.set(godown.id, godown));
+    this.godownIdCounter = godowns.length + 1;
+
+    const units: Unit[] = [
+      { ...unitDefaults, id: 1, symbol: "Nos", formalName: "Numbers", uqc: "NOS", userId: 1, createdAt: new Date() },
+      { ...unitDefaults, id: 2, symbol: "Kg", formalName: "Kilograms", uqc: "KGS", decimalPlaces: 3, userId: 1, createdAt: new Date() },
+      { ...unitDefaults, id: 3, symbol: "Ltr", formalName: "Litres", uqc: "LTR", decimalPlaces: 2, userId: 1, createdAt: new Date() },
+      { ...unitDefaults, id: 4, symbol: "Box", formalName: "Boxes", uqc: "BOX", userId: 1, createdAt: new Date() }
+    ];
+    units.forEach(unit => this.units.set(unit.id, unit));
+    this.unitIdCounter = units.length + 1;
+
     // Create demo items
     const items: Item[] = [
       {
         id: 1,
         name: "Laptop",
         hsnCode: "8471",
-        unit: "Nos",
-        category: "Electronics",
+        unitId: 1,
+        stockGroupId: 1,
         description: "High-performance business laptop",
         sellingPrice: "45000",
         purchasePrice: "38000",
@@ -592,8 +1931,8 @@ class MemStorage implements IStorage {
         id: 2,
         name: "Desktop Computer",
         hsnCode: "8471",
-        unit: "Nos",
-        category: "Electronics",
+        unitId: 1,
+        stockGroupId: 1,
         description: "Office desktop computer",
         sellingPrice: "35000",
         purchasePrice: "30000",
@@ -620,8 +1959,8 @@ class MemStorage implements IStorage {
         id: 3,
         name: "Network Switch",
         hsnCode: "8517",
-        unit: "Nos",
-        category: "Networking",
+        unitId: 1,
+        stockGroupId: 2,
         description: "24-port gigabit network switch",
         sellingPrice: "8500",
         purchasePrice: "7200",
@@ -654,6 +1993,7 @@ class MemStorage implements IStorage {
 
     const transactions: Transaction[] = [
       {
+        ...transactionDefaults,
         id: 1,
         transactionNumber: "INV-2023-042",
         transactionType: "sales_invoice",
@@ -665,12 +2005,14 @@ class MemStorage implements IStorage {
         status: "pending",
         notes: "Sale of laptops and accessories",
         reference: "PO-GT-2023-125",
+        placeOfSupply: "27",
         isBnpl: false,
         isSync: true,
         userId: 1,
         createdAt: new Date()
       },
       {
+        ...transactionDefaults,
         id: 2,
         transactionNumber: "BILL-2023-128",
         transactionType: "purchase_bill",
@@ -682,12 +2024,14 @@ class MemStorage implements IStorage {
         status: "using_bnpl",
         notes: "Purchase of electronics components",
         reference: "PO-TS-2023-087",
+        placeOfSupply: "22",
         isBnpl: true,
         isSync: true,
         userId: 1,
         createdAt: new Date()
       },
       {
+        ...transactionDefaults,
         id: 3,
         transactionNumber: "RCPT-2023-054",
         transactionType: "receipt",
@@ -712,6 +2056,7 @@ class MemStorage implements IStorage {
     // Create demo transaction items
     const transactionItems: TransactionItem[] = [
       {
+        ...transactionItemDefaults,
         id: 1,
         transactionId: 1,
         itemId: 1,
@@ -721,10 +2066,12 @@ class MemStorage implements IStorage {
         amount: "45000",
         taxRate: "5",
         taxAmount: "2250",
+        igstAmount: "2250", // Demo parties are registered outside the company's state
         totalAmount: "47250",
         createdAt: new Date()
       },
       {
+        ...transactionItemDefaults,
         id: 2,
         transactionId: 2,
         itemId: 2,
@@ -734,6 +2081,7 @@ class MemStorage implements IStorage {
         amount: "35000",
         taxRate: "5",
         taxAmount: "1750",
+        igstAmount: "1750",
         totalAmount: "36750",
         createdAt: new Date()
       }
@@ -742,6 +2090,40 @@ class MemStorage implements IStorage {
     transactionItems.forEach(item => this.transactionItems.set(item.id, item));
     this.transactionItemIdCounter = transactionItems.length + 1;
 
+    // The demo sales invoice has already moved its laptop out of stock and the demo bill its desktop in
+    const [salesInvoice, purchaseBill] = transactions;
+    const stockMovements: StockMovement[] = [
+      {
+        ...stockMovementDefaults,
+        id: 1,
+        itemId: 1,
+        transactionId: salesInvoice.id,
+        transactionItemId: 1,
+        movementType: salesInvoice.transactionType,
+        movementDate: salesInvoice.transactionDate ?? new Date(),
+        quantity: "-1.000",
+        rate: "45000",
+        userId: 1,
+        createdAt: new Date()
+      },
+      {
+        ...stockMovementDefaults,
+        id: 2,
+        itemId: 2,
+        transactionId: purchaseBill.id,
+        transactionItemId: 2,
+        movementType: purchaseBill.transactionType,
+        movementDate: purchaseBill.transactionDate ?? new Date(),
+        quantity: "1.000",
+        rate: "35000",
+        userId: 1,
+        createdAt: new Date()
+      }
+    ];
+
+    stockMovements.forEach(movement => this.stockMovements.set(movement.id, movement));
+    this.stockMovementIdCounter = stockMovements.length + 1;
+
     // Create demo BNPL limits
     const bnplLimits: BnplLimit[] = [
       {
@@ -776,6 +2158,7 @@ class MemStorage implements IStorage {
         syncType: "pull",
         syncStatus: "success",
         transactionCount: 15,
+        failedCount: 0,
         details: "Successfully synced 15 transactions",
         userId: 1,
         syncedAt: new Date(currentDate.setDate(currentDate.getDate() - 1))
@@ -785,459 +2168,1248 @@ class MemStorage implements IStorage {
         syncType: "push",
         syncStatus: "success",
         transactionCount: 8,
-        details: "Successfully pushed 8 transactions to Tally",        userId: 1,
+        failedCount: 0,
+        details: "Successfully pushed 8 transactions to Tally",
+        userId: 1,
         syncedAt: new Date(currentDate.setDate(currentDate.getDate() - 2))
       }
     ];
 
     tallySyncLogs.forEach(log => this.tallySyncLogs.set(log.id, log));
     this.tallySyncLogIdCounter = tallySyncLogs.length + 1;
-  }
 
-  // CRUD operations for Item
-  async createItem(item: InsertItem): Promise<Item> {
-    const newItem: Item = {
-      id: this.itemIdCounter++,
-      ...item,
-      createdAt: new Date()
-    };
-    this.items.set(newItem.id, newItem);
-    return newItem;
+    // Demo numbering: invoices and receipts restart each financial year, orders run on
+    const numberingSeries: NumberingSeries[] = [
+      { ...numberingSeriesDefaults, id: 1, transactionType: "sales_invoice", prefix: "INV/{FY}/", userId: 1, updatedAt: new Date() },
+      { ...numberingSeriesDefaults, id: 2, transactionType: "receipt", prefix: "RCPT/{FY}/", userId: 1, updatedAt: new Date() },
+      { ...numberingSeriesDefaults, id: 3, transactionType: "sales_order", prefix: "SO-", padding: 5, resetYearly: false, userId: 1, updatedAt: new Date() }
+    ];
+    numberingSeries.forEach(series => this.numberingSeries.set(series.id, series));
+    this.numberingSeriesIdCounter = numberingSeries.length + 1;
   }
+}
 
-  async getItem(id: number): Promise<Item | undefined> {
-    return this.items.get(id);
-  }
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
 
-  async updateItem(id: number, item: Partial<InsertItem>): Promise<Item> {
-    const existingItem = this.items.get(id);
-    if (!existingItem) {
-      throw new Error('Item not found');
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  // Team member operations
+  async getTeamMembers(ownerId: number): Promise<User[]> {
+    return this.db
+      .select()
+      .from(users)
+      .where(or(eq(users.id, ownerId), eq(users.ownerId, ownerId)))
+      .orderBy(users.id);
+  }
+  
+  async updateTeamMember(ownerId: number, id: number, updates: Partial<InsertUser>): Promise<User> {
+    const [user] = await this.db
+      .update(users)
+      .set(updates)
+      .where(and(eq(users.ownerId, ownerId), eq(users.id, id)))
+      .returning();
+    if (!user) {
+      throw new Error(`Team member with id ${id} not found`);
     }
-    const updatedItem = { ...existingItem, ...item };
-    this.items.set(id, updatedItem);
-    return updatedItem;
+    return user;
   }
-
-  // CRUD operations for Transaction
-  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
-    const newTransaction: Transaction = {
-      id: this.transactionIdCounter++,
-      ...transaction,
-      createdAt: new Date()
-    };
-    this.transactions.set(newTransaction.id, newTransaction);
-    return newTransaction;
+  
+  async isTeamMemberReferenced(ownerId: number, id: number): Promise<boolean> {
+    const [revisions, documents, entries] = await Promise.all([
+      this.db
+        .select({ id: transactionRevisions.id })
+        .from(transactionRevisions)
+        .where(and(eq(transactionRevisions.userId, ownerId), eq(transactionRevisions.editedBy, id)))
+        .limit(1),
+      this.db
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(and(eq(transactions.userId, ownerId), or(eq(transactions.cancelledBy, id), eq(transactions.matchApprovedBy, id))))
+        .limit(1),
+      this.db
+        .select({ id: journalEntries.id })
+        .from(journalEntries)
+        .where(and(eq(journalEntries.userId, ownerId), eq(journalEntries.createdBy, id)))
+        .limit(1),
+    ]);
+    return revisions.length > 0 || documents.length > 0 || entries.length > 0;
   }
-
-  async getTransaction(id: number): Promise<Transaction | undefined> {
-    return this.transactions.get(id);
+  
+  // Checked first so a member named on records is refused the same way by both drivers, not by a foreign key
+  async deleteTeamMember(ownerId: number, id: number): Promise<void> {
+    if (await this.isTeamMemberReferenced(ownerId, id)) {
+      throw new Error(`Team member with id ${id} is named on saved records`);
+    }
+    const deleted = await this.db
+      .delete(users)
+      .where(and(eq(users.ownerId, ownerId), eq(users.id, id)))
+      .returning({ id: users.id });
+    if (deleted.length === 0) {
+      throw new Error(`Team member with id ${id} not found`);
+    }
   }
-
-  async updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<Transaction> {
-    const existingTransaction = this.transactions.get(id);
-    if (!existingTransaction) {
-      throw new Error('Transaction not found');
+  
+  // Role permission operations
+  async getRolePermissions(userId: number): Promise<RolePermission[]> {
+    return this.db.select().from(rolePermissions).where(eq(rolePermissions.userId, userId));
+  }
+  
+  async saveRolePermissions(userId: number, role: string, permissions: string[]): Promise<RolePermission> {
+    const [rolePermission] = await this.db
+      .insert(rolePermissions)
+      .values({ userId, role, permissions })
+      .onConflictDoUpdate({
+        target: [rolePermissions.userId, rolePermissions.role],
+        set: { permissions, updatedAt: new Date() },
+      })
+      .returning();
+    return rolePermission;
+  }
+  
+  // Company settings operations
+  async getCompanySettings(userId: number): Promise<CompanySettings> {
+    const [existing] = await this.db
+      .select()
+      .from(companySettings)
+      .where(eq(companySettings.userId, userId));
+    if (existing) {
+      return existing;
     }
-    const updatedTransaction = { ...existingTransaction, ...transaction };
-    this.transactions.set(id, updatedTransaction);
-    return updatedTransaction;
+    await this.db.insert(companySettings).values({ userId }).onConflictDoNothing();
+    const [settings] = await this.db
+      .select()
+      .from(companySettings)
+      .where(eq(companySettings.userId, userId));
+    return settings;
   }
-
-  // Get all items for a user
-  async getItemsByUserId(userId: number): Promise<Item[]> {
-    return Array.from(this.items.values()).filter(item => item.userId === userId);
+  
+  async updateCompanySettings(userId: number, updates: Partial<InsertCompanySettings>): Promise<CompanySettings> {
+    const values = { ...definedValues(updates), userId };
+    const [settings] = await this.db
+      .insert(companySettings)
+      .values(values)
+      .onConflictDoUpdate({
+        target: companySettings.userId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
   }
-
-  // Get all transactions for a user
-  async getTransactionsByUserId(userId: number): Promise<Transaction[]> {
-    return Array.from(this.transactions.values()).filter(transaction => transaction.userId === userId);
+  
+  async getAutoSyncCompanySettings(): Promise<CompanySettings[]> {
+    return this.db.select().from(companySettings).where(eq(companySettings.tallyAutoSync, true));
   }
-
-  // Get transaction items for a transaction
-  async getTransactionItemsByTransactionId(transactionId: number): Promise<TransactionItem[]> {
-    return Array.from(this.transactionItems.values())
-      .filter(item => item.transactionId === transactionId);
+  
+  // Party operations
+  async getParty(userId: number, id: number): Promise<Party | undefined> {
+    const [party] = await this.db
+      .select()
+      .from(parties)
+      .where(and(eq(parties.userId, userId), eq(parties.id, id)));
+    return party;
   }
-
-  // Get aging analysis
-  async getAgingAnalysis(userId: number): Promise<any> {
-    const result = {
-      days1to30: 0,
-      days31to60: 0,
-      days60plus: 0
-    };
-
-    const transactions = await this.getTransactionsByUserId(userId);
-    const today = new Date();
-
-    transactions.forEach(transaction => {
-      if (!transaction.dueDate || !transaction.balanceDue) return;
-
-      const dueDate = new Date(transaction.dueDate);
-      const diffTime = Math.abs(today.getTime() - dueDate.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-      if (diffDays <= 30) {
-        result.days1to30 += Number(transaction.balanceDue || 0);
-      } else if (diffDays <= 60) {
-        result.days31to60 += Number(transaction.balanceDue || 0);
-      } else {
-        result.days60plus += Number(transaction.balanceDue || 0);
-      }
-    });
-
-    return result;
+  
+  async getPartiesByUserId(userId: number): Promise<Party[]> {
+    return this.db.select().from(parties).where(eq(parties.userId, userId));
   }
-
-  // Initialize demo data
-  private initializeData() {
-    // Create a demo user
-    const user: User = {
-      id: 1,
-      username: "demo",
-      password: "password",
-      companyName: "Trivedi & Sons",
-      gstin: "22AAAAA0000A1Z5",
-      email: "demo@example.com",
-      phone: "9876543210",
-      role: "admin",
-      createdAt: new Date()
-    };
-    this.users.set(user.id, user);
-    this.userIdCounter = 2;
-
-    // Create demo parties (customers and vendors)
-    const parties: Party[] = [
-      {
-        id: 1,
-        name: "GlobalTech Solutions",
-        type: "customer",
-        gstin: "27BBBBB1111B1Z5",
-        contactPerson: "Sanjay Kumar",
-        email: "contact@globaltech.com",
-        phone: "9876543211",
-        address: "123 Tech Park",
-        city: "Mumbai",
-        state: "Maharashtra",
-        pincode: "400001",
-        creditLimit: "500000",
-        creditPeriod: 30,
-        userId: 1,
-        createdAt: new Date()
-      },
-      {
-        id: 2,
-        name: "Bharath Electronics Ltd",
-        type: "vendor",
-        gstin: "29CCCCC2222C1Z5",
-        contactPerson: "Rajesh Sharma",
-        email: "procurement@bel.com",
-        phone: "9876543212",
-        address: "456 Industrial Area",
-        city: "Bangalore",
-        state: "Karnataka",
-        pincode: "560001",
-        creditLimit: "250000",
-        creditPeriod: 45,
-        userId: 1,
-        createdAt: new Date()
-      },
-      {
-        id: 3,
-        name: "Sundar Innovations",
-        type: "customer",
-        gstin: "33DDDDD3333D1Z5",
-        contactPerson: "Leela Sundar",
-        email: "info@sundarinnovations.com",
-        phone: "9876543213",
-        address: "789 Tech Hub",
-        city: "Chennai",
-        state: "Tamil Nadu",
-        pincode: "600001",
-        creditLimit: "350000",
-        creditPeriod: 30,
-        userId: 1,
-        createdAt: new Date()
-      },
-      {
-        id: 4,
-        name: "Ashok Suppliers",
-        type: "vendor",
-        gstin: "32EEEEE4444E1Z5",
-        contactPerson: "Ashok Patel",
-        email: "sales@ashoksuppliers.com",
-        phone: "9876543214",
-        address: "101 Market Street",
-        city: "Hyderabad",
-        state: "Telangana",
-        pincode: "500001",
-        creditLimit: "200000",
-        creditPeriod: 30,
-        userId: 1,
-        createdAt: new Date()
-      },
-      {
-        id: 5,
-        name: "Patel Enterprises",
-        type: "customer",
-        gstin: "24FFFFF5555F1Z5",
-        contactPerson: "Harish Patel",
-        email: "contact@patelenterprises.com",
-        phone: "9876543215",
-        address: "222 Business Park",
-        city: "Ahmedabad",
-        state: "Gujarat",
-        pincode: "380001",
-        creditLimit: "400000",
-        creditPeriod: 45,
-        userId: 1,
-        createdAt: new Date()
+  
+  async getPartiesByType(userId: number, type: string): Promise<Party[]> {
+    return this.db
+      .select()
+      .from(parties)
+      .where(and(eq(parties.userId, userId), eq(parties.type, type)));
+  }
+  
+  async createParty(insertParty: InsertParty): Promise<Party> {
+    const [party] = await this.db.insert(parties).values(insertParty).returning();
+    return party;
+  }
+  
+  async updateParty(userId: number, id: number, updates: Partial<InsertParty>): Promise<Party> {
+    const [party] = await this.db
+      .update(parties)
+      .set(updates)
+      .where(and(eq(parties.userId, userId), eq(parties.id, id)))
+      .returning();
+    if (!party) {
+      throw new Error(`Party with id ${id} not found`);
+    }
+    return party;
+  }
+  
+  // Stock group operations
+  async getStockGroup(userId: number, id: number): Promise<StockGroup | undefined> {
+    const [stockGroup] = await this.db
+      .select()
+      .from(stockGroups)
+      .where(and(eq(stockGroups.userId, userId), eq(stockGroups.id, id)));
+    return stockGroup;
+  }
+  
+  async getStockGroupsByUserId(userId: number): Promise<StockGroup[]> {
+    return this.db.select().from(stockGroups).where(eq(stockGroups.userId, userId)).orderBy(stockGroups.id);
+  }
+  
+  async createStockGroup(insertStockGroup: InsertStockGroup): Promise<StockGroup> {
+    const [stockGroup] = await this.db.insert(stockGroups).values(insertStockGroup).returning();
+    return stockGroup;
+  }
+  
+  async updateStockGroup(userId: number, id: number, updates: Partial<InsertStockGroup>): Promise<StockGroup> {
+    const [stockGroup] = await this.db
+      .update(stockGroups)
+      .set(updates)
+      .where(and(eq(stockGroups.userId, userId), eq(stockGroups.id, id)))
+      .returning();
+    if (!stockGroup) {
+      throw new Error(`Stock group with id ${id} not found`);
+    }
+    return stockGroup;
+  }
+  
+  async deleteStockGroup(userId: number, id: number): Promise<void> {
+    const deleted = await this.db
+      .delete(stockGroups)
+      .where(and(eq(stockGroups.userId, userId), eq(stockGroups.id, id)))
+      .returning({ id: stockGroups.id });
+    if (deleted.length === 0) {
+      throw new Error(`Stock group with id ${id} not found`);
+    }
+  }
+  
+  // Godown operations
+  async getGodown(userId: number, id: number): Promise<Godown | undefined> {
+    const [godown] = await this.db
+      .select()
+      .from(godowns)
+      .where(and(eq(godowns.userId, userId), eq(godowns.id, id)));
+    return godown;
+  }
+  
+  async getGodownsByUserId(userId: number): Promise<Godown[]> {
+    return this.db.select().from(godowns).where(eq(godowns.userId, userId)).orderBy(godowns.id);
+  }
+  
+  async createGodown(insertGodown: InsertGodown): Promise<Godown> {
+    const [godown] = await this.db.insert(godowns).values(insertGodown).returning();
+    return godown;
+  }
+  
+  async updateGodown(userId: number, id: number, updates: Partial<InsertGodown>): Promise<Godown> {
+    const [godown] = await this.db
+      .update(godowns)
+      .set(updates)
+      .where(and(eq(godowns.userId, userId), eq(godowns.id, id)))
+      .returning();
+    if (!godown) {
+      throw new Error(`Godown with id ${id} not found`);
+    }
+    return godown;
+  }
+  
+  async isGodownInUse(userId: number, id: number): Promise<boolean> {
+    const [movements, lines] = await Promise.all([
+      this.db
+        .select({ id: stockMovements.id })
+        .from(stockMovements)
+        .where(and(eq(stockMovements.userId, userId), eq(stockMovements.godownId, id)))
+        .limit(1),
+      this.db
+        .select({ id: transactionItems.id })
+        .from(transactionItems)
+        .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+        .where(and(eq(transactions.userId, userId), eq(transactionItems.godownId, id)))
+        .limit(1),
+    ]);
+    return movements.length > 0 || lines.length > 0;
+  }
+  
+  async deleteGodown(userId: number, id: number): Promise<void> {
+    if (await this.isGodownInUse(userId, id)) {
+      throw new Error(`Godown with id ${id} is in use`);
+    }
+    const deleted = await this.db
+      .delete(godowns)
+      .where(and(eq(godowns.userId, userId), eq(godowns.id, id)))
+      .returning({ id: godowns.id });
+    if (deleted.length === 0) {
+      throw new Error(`Godown with id ${id} not found`);
+    }
+  }
+  
+  // Unit operations
+  async getUnit(userId: number, id: number): Promise<Unit | undefined> {
+    const [unit] = await this.db
+      .select()
+      .from(units)
+      .where(and(eq(units.userId, userId), eq(units.id, id)));
+    return unit;
+  }
+  
+  async getUnitsByUserId(userId: number): Promise<Unit[]> {
+    return this.db.select().from(units).where(eq(units.userId, userId)).orderBy(units.id);
+  }
+  
+  async createUnit(insertUnit: InsertUnit): Promise<Unit> {
+    const [unit] = await this.db.insert(units).values(insertUnit).returning();
+    return unit;
+  }
+  
+  async updateUnit(userId: number, id: number, updates: Partial<InsertUnit>): Promise<Unit> {
+    const [unit] = await this.db
+      .update(units)
+      .set(updates)
+      .where(and(eq(units.userId, userId), eq(units.id, id)))
+      .returning();
+    if (!unit) {
+      throw new Error(`Unit with id ${id} not found`);
+    }
+    return unit;
+  }
+  
+  async deleteUnit(userId: number, id: number): Promise<void> {
+    const deleted = await this.db
+      .delete(units)
+      .where(and(eq(units.userId, userId), eq(units.id, id)))
+      .returning({ id: units.id });
+    if (deleted.length === 0) {
+      throw new Error(`Unit with id ${id} not found`);
+    }
+  }
+  
+  // Item operations
+  async getItem(userId: number, id: number): Promise<Item | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(items)
+      .where(and(eq(items.userId, userId), eq(items.id, id)));
+    return item;
+  }
+  
+  async getItemsByUserId(userId: number): Promise<Item[]> {
+    return this.db.select().from(items).where(eq(items.userId, userId));
+  }
+  
+  async getItemsWithListings(userId: number): Promise<Item[]> {
+    return this.db
+      .select()
+      .from(items)
+      .where(and(eq(items.userId, userId), eq(items.isListed, true)));
+  }
+  
+  async getFeatureProducts(userId: number, limit: number = 10): Promise<Item[]> {
+    return this.db
+      .select()
+      .from(items)
+      .where(and(eq(items.userId, userId), eq(items.isListed, true), eq(items.featuredProduct, true)))
+      .limit(limit);
+  }
+  
+  async createItem(insertItem: InsertItem): Promise<Item> {
+    const [item] = await this.db.insert(items).values(insertItem).returning();
+    return item;
+  }
+  
+  async updateItem(userId: number, id: number, updates: Partial<InsertItem>): Promise<Item> {
+    const [item] = await this.db
+      .update(items)
+      .set(updates)
+      .where(and(eq(items.userId, userId), eq(items.id, id)))
+      .returning();
+    if (!item) {
+      throw new Error(`Item with id ${id} not found`);
+    }
+    return item;
+  }
+  
+  async updateItemListing(userId: number, id: number, listingData: Partial<InsertItem>): Promise<Item> {
+    // Only update listing-related fields to prevent overwriting inventory data
+    const listingUpdates: Partial<InsertItem> = {};
+    for (const field of listingFields) {
+      if (listingData[field] !== undefined && listingData[field] !== null) {
+        Object.assign(listingUpdates, { [field]: listingData[field] });
       }
-    ];
-
-    parties.forEach(party => this.parties.set(party.id, party));
-    this.partyIdCounter = parties.length + 1;
-
-    // Create demo items
-    const items: Item[] = [
-      {
-        id: 1,
-        name: "Laptop",
-        hsnCode: "8471",
-        unit: "Nos",
-        category: "Electronics",
-        description: "High-performance business laptop",
-        sellingPrice: "45000",
-        purchasePrice: "38000",
-        openingStock: "10",
-        minStockLevel: "2",
-        userId: 1,
-        createdAt: new Date(),
-        // E-commerce fields
-        imageUrl: "https://images.unsplash.com/photo-1496181133206-80ce9b88a853",
-        imageUrls: ["https://images.unsplash.com/photo-1496181133206-80ce9b88a853"],
-        isListed: true,
-        listingDescription: "Ultra-fast business laptop with high performance and extended battery life.",
-        listingCategory: "Electronics",
-        listingTags: ["laptop", "business", "high-performance"],
-        listingStatus: "active",
-        mrp: "48000",
-        discountPercentage: "6.25",
-        featuredProduct: true,
-        brandName: "TechPro",
-        specifications: "Intel Core i7, 16GB RAM, 512GB SSD, 15.6 inch FHD display",
-        ratings: "4.5",
-        reviewCount: 24
-      },
-      {
-        id: 2,
-        name: "Desktop Computer",
-        hsnCode: "8471",
-        unit: "Nos",
-        category: "Electronics",
-        description: "Office desktop computer",
-        sellingPrice: "35000",
-        purchasePrice: "30000",
-        openingStock: "5",
-        minStockLevel: "1",
-        userId: 1,
-        createdAt: new Date(),
-        imageUrl: "https://images.unsplash.com/photo-1593640408182-31c70c8268f5",
-        imageUrls: ["https://images.unsplash.com/photo-1593640408182-31c70c8268f5"],
-        isListed: true,
-        listingDescription: "Powerful desktop computer for office use.",
-        listingCategory: "Electronics",
-        listingTags: ["desktop", "office", "computer"],
-        listingStatus: "active",
-        mrp: "38000",
-        discountPercentage: "7.9",
-        featuredProduct: false,
-        brandName: "CompTech",
-        specifications: "Intel Core i5, 8GB RAM, 1TB HDD",
-        ratings: "4.2",
-        reviewCount: 15
-      },
-      {
-        id: 3,
-        name: "Network Switch",
-        hsnCode: "8517",
-        unit: "Nos",
-        category: "Networking",
-        description: "24-port gigabit network switch",
-        sellingPrice: "8500",
-        purchasePrice: "7200",
-        openingStock: "8",
-        minStockLevel: "2",
-        userId: 1,
-        createdAt: new Date(),
-        imageUrl: "https://images.unsplash.com/photo-1632912193365-95bb8fe822c9",
-        imageUrls: ["https://images.unsplash.com/photo-1632912193365-95bb8fe822c9"],
-        isListed: true,
-        listingDescription: "Enterprise-grade 24-port network switch.",
-        listingCategory: "Networking",
-        listingTags: ["network", "switch", "ethernet"],
-        listingStatus: "active",
-        mrp: "9000",
-        discountPercentage: "5.5",
-        featuredProduct: false,
-        brandName: "NetLink",
-        specifications: "24 Gigabit ports, managed switch",
-        ratings: "4.7",
-        reviewCount: 8
+    }
+    
+    if (Object.keys(listingUpdates).length === 0) {
+      const item = await this.getItem(userId, id);
+      if (!item) {
+        throw new Error(`Item with id ${id} not found`);
+      }
+      return item;
+    }
+    
+    return this.updateItem(userId, id, listingUpdates);
+  }
+  
+  // Transaction operations
+  async getTransaction(userId: number, id: number): Promise<Transaction | undefined> {
+    const [transaction] = await this.db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.userId, userId), eq(transactions.id, id)));
+    return transaction;
+  }
+  
+  async getTransactionsByUserId(userId: number): Promise<Transaction[]> {
+    return this.db.select().from(transactions).where(eq(transactions.userId, userId));
+  }
+  
+  async getTransactionsByType(userId: number, type: string): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        eq(transactions.transactionType, type as Transaction["transactionType"])
+      ));
+  }
+  
+  async getTransactionsByPartyId(userId: number, partyId: number): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.userId, userId), eq(transactions.partyId, partyId)));
+  }
+  
+  async getRecentTransactions(userId: number, limit: number): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.userId, userId))
+      .orderBy(desc(transactions.transactionDate))
+      .limit(limit);
+  }
+  
+  async getOpenPayables(userId: number): Promise<{ total: number, count: number }> {
+    return this.getOpenBalance(userId, "purchase_bill");
+  }
+  
+  async getOpenReceivables(userId: number): Promise<{ total: number, count: number }> {
+    return this.getOpenBalance(userId, "sales_invoice");
+  }
+  
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    const [transaction] = await this.db.insert(transactions).values(insertTransaction).returning();
+    return transaction;
+  }
+  
+  async createTransactionWithItems(insertTransaction: InsertTransaction, insertItems: Omit<InsertTransactionItem, "transactionId">[]): Promise<Transaction> {
+    return this.db.transaction(async (tx) => {
+      const [transaction] = await tx.insert(transactions).values(insertTransaction).returning();
+      if (insertItems.length > 0) {
+        await tx
+          .insert(transactionItems)
+          .values(insertItems.map((item) => ({ ...item, transactionId: transaction.id })));
+      }
+      return transaction;
+    });
+  }
+  
+  async updateTransaction(userId: number, id: number, updates: Partial<InsertTransaction>): Promise<Transaction> {
+    const [transaction] = await this.db
+      .update(transactions)
+      .set(updates)
+      .where(and(eq(transactions.userId, userId), eq(transactions.id, id)))
+      .returning();
+    if (!transaction) {
+      throw new Error(`Transaction with id ${id} not found`);
+    }
+    return transaction;
+  }
+  
+  // Transaction Item operations
+  async getTransactionItemsByTransactionId(userId: number, transactionId: number): Promise<TransactionItem[]> {
+    const rows = await this.db
+      .select({ transactionItem: transactionItems })
+      .from(transactionItems)
+      .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+      .where(and(eq(transactions.userId, userId), eq(transactionItems.transactionId, transactionId)))
+      .orderBy(transactionItems.id);
+    return rows.map((row) => row.transactionItem);
+  }
+  
+  async createTransactionItem(insertTransactionItem: InsertTransactionItem): Promise<TransactionItem> {
+    const [transactionItem] = await this.db
+      .insert(transactionItems)
+      .values(insertTransactionItem)
+      .returning();
+    return transactionItem;
+  }
+  
+  async updateTransactionItem(userId: number, id: number, updates: Partial<InsertTransactionItem>): Promise<TransactionItem> {
+    const ownTransactions = this.db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(eq(transactions.userId, userId));
+    const [transactionItem] = await this.db
+      .update(transactionItems)
+      .set(updates)
+      .where(and(eq(transactionItems.id, id), inArray(transactionItems.transactionId, ownTransactions)))
+      .returning();
+    if (!transactionItem) {
+      throw new Error(`Transaction item with id ${id} not found`);
+    }
+    return transactionItem;
+  }
+  
+  async replaceTransactionItems(userId: number, transactionId: number, edits: TransactionItemEdit[]): Promise<TransactionItem[]> {
+    if (!(await this.getTransaction(userId, transactionId))) {
+      throw new Error(`Transaction with id ${transactionId} not found`);
+    }
+    const existing = await this.getTransactionItemsByTransactionId(userId, transactionId);
+    assertItemEdits(existing, edits);
+    return this.db.transaction((tx) => this.applyItemEdits(tx, transactionId, existing, edits));
+  }
+  
+  async saveTransactionEdit(userId: number, id: number, save: TransactionSave): Promise<Transaction> {
+    return this.db.transaction(async (tx) => {
+      // Locking the document first makes concurrent saves of it take their turn, so each sees the
+      // lines and revisions the one before it left
+      const [previous] = await tx
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.userId, userId), eq(transactions.id, id)))
+        .for("update");
+      if (!previous) {
+        throw new Error(`Transaction with id ${id} not found`);
+      }
+      const linesOf = () => tx
+        .select()
+        .from(transactionItems)
+        .where(eq(transactionItems.transactionId, id))
+        .orderBy(transactionItems.id);
+      const previousLines = await linesOf();
+      if (save.lines) {
+        assertItemEdits(previousLines, save.lines);
+      }
+      
+      let transaction = previous;
+      if (Object.keys(save.updates).length > 0) {
+        [transaction] = await tx
+          .update(transactions)
+          .set(save.updates)
+          .where(eq(transactions.id, id))
+          .returning();
+      }
+      if (save.lines) {
+        await this.applyItemEdits(tx, id, previousLines, save.lines);
+      }
+      
+      const draft = save.revise({ transaction: previous, lines: previousLines }, { transaction, lines: await linesOf() });
+      if (draft) {
+        const [{ latest }] = await tx
+          .select({ latest: sql<number>`coalesce(max(${transactionRevisions.revision}), 0)`.mapWith(Number) })
+          .from(transactionRevisions)
+          .where(eq(transactionRevisions.transactionId, id));
+        const revisions: InsertTransactionRevision[] = latest === 0
+          ? [{ transactionId: id, revision: 1, content: draft.before, changes: [], editedBy: null, userId }]
+          : [];
+        revisions.push({ transactionId: id, revision: Math.max(latest, 1) + 1, content: draft.after, changes: draft.changes, editedBy: draft.editedBy, userId });
+        await tx.insert(transactionRevisions).values(revisions);
+      }
+      return transaction;
+    });
+  }
+  
+  // Saves checked edits within the given transaction
+  private async applyItemEdits(tx: DatabaseTransaction, transactionId: number, existing: TransactionItem[], edits: TransactionItemEdit[]): Promise<TransactionItem[]> {
+    const kept = new Set(edits.map((edit) => edit.id));
+    const removed = existing.filter((item) => !kept.has(item.id)).map((item) => item.id);
+    if (removed.length > 0) {
+      await tx
+        .update(stockMovements)
+        .set({ transactionItemId: null })
+        .where(inArray(stockMovements.transactionItemId, removed));
+      await tx
+        .update(transactionItems)
+        .set({ sourceItemId: null })
+        .where(inArray(transactionItems.sourceItemId, removed));
+      await tx.delete(transactionItems).where(inArray(transactionItems.id, removed));
+    }
+    
+    const saved: TransactionItem[] = [];
+    for (const { id, ...edit } of edits) {
+      const [transactionItem] = id !== undefined
+        ? await tx.update(transactionItems).set(edit).where(eq(transactionItems.id, id)).returning()
+        : await tx.insert(transactionItems).values({ ...edit, transactionId }).returning();
+      saved.push(transactionItem);
+    }
+    return saved;
+  }
+  
+  // Stock ledger operations
+  async getStockMovements(userId: number, filter: StockMovementFilter = {}): Promise<StockMovement[]> {
+    const conditions: SQL[] = [eq(stockMovements.userId, userId)];
+    if (filter.itemId !== undefined) {
+      conditions.push(eq(stockMovements.itemId, filter.itemId));
+    }
+    if (filter.godownId !== undefined) {
+      conditions.push(eq(stockMovements.godownId, filter.godownId));
+    }
+    if (filter.asOf !== undefined) {
+      conditions.push(lte(stockMovements.movementDate, filter.asOf));
+    }
+    
+    return this.db
+      .select()
+      .from(stockMovements)
+      .where(and(...conditions))
+      .orderBy(asc(stockMovements.movementDate), asc(stockMovements.id));
+  }
+  
+  async getStockMovementsByTransactionId(userId: number, transactionId: number): Promise<StockMovement[]> {
+    return this.db
+      .select()
+      .from(stockMovements)
+      .where(and(eq(stockMovements.userId, userId), eq(stockMovements.transactionId, transactionId)))
+      .orderBy(stockMovements.id);
+  }
+  
+  async getStockBalances(userId: number, asOf?: Date): Promise<StockBalance[]> {
+    const conditions: SQL[] = [eq(stockMovements.userId, userId)];
+    if (asOf !== undefined) {
+      conditions.push(lte(stockMovements.movementDate, asOf));
+    }
+    
+    const rows = await this.db
+      .select({
+        itemId: stockMovements.itemId,
+        godownId: stockMovements.godownId,
+        quantity: sql<string>`coalesce(sum(${stockMovements.quantity}), 0)`,
+      })
+      .from(stockMovements)
+      .where(and(...conditions))
+      .groupBy(stockMovements.itemId, stockMovements.godownId);
+    
+    return rows.map((row) => ({ ...row, quantity: parseFloat(row.quantity) }));
+  }
+  
+  async createStockMovement(insertStockMovement: InsertStockMovement): Promise<StockMovement> {
+    const [stockMovement] = await this.db
+      .insert(stockMovements)
+      .values(insertStockMovement)
+      .returning();
+    return stockMovement;
+  }
+  
+  // Payment allocation operations
+  async getPaymentAllocations(userId: number): Promise<PaymentAllocation[]> {
+    return this.db
+      .select()
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.userId, userId))
+      .orderBy(paymentAllocations.id);
+  }
+  
+  async getPaymentAllocationsByTransactionId(userId: number, transactionId: number): Promise<PaymentAllocation[]> {
+    return this.db
+      .select()
+      .from(paymentAllocations)
+      .where(and(
+        eq(paymentAllocations.userId, userId),
+        or(eq(paymentAllocations.paymentId, transactionId), eq(paymentAllocations.documentId, transactionId))
+      ))
+      .orderBy(paymentAllocations.id);
+  }
+  
+  async getPaymentAllocation(userId: number, id: number): Promise<PaymentAllocation | undefined> {
+    const [allocation] = await this.db
+      .select()
+      .from(paymentAllocations)
+      .where(and(eq(paymentAllocations.userId, userId), eq(paymentAllocations.id, id)));
+    return allocation;
+  }
+  
+  async createPaymentAllocation(insertPaymentAllocation: InsertPaymentAllocation): Promise<PaymentAllocation> {
+    const [allocation] = await this.db
+      .insert(paymentAllocations)
+      .values(insertPaymentAllocation)
+      .returning();
+    return allocation;
+  }
+  
+  async savePaymentAllocations(userId: number, paymentId: number, save: AllocationSave): Promise<PaymentAllocation[]> {
+    return this.db.transaction(async (tx) => {
+      // Locking the payment and then its documents, in id order, makes concurrent allocations take their
+      // turn, so each is checked against what the one before it saved
+      const [payment] = await tx
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.userId, userId), eq(transactions.id, paymentId)))
+        .for("update");
+      if (!payment) {
+        throw new Error(`Transaction with id ${paymentId} not found`);
+      }
+      const documentIds = Array.from(new Set(save.allocations.map((allocation) => allocation.documentId)));
+      const documents = documentIds.length === 0 ? [] : await tx
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.userId, userId), inArray(transactions.id, documentIds)))
+        .orderBy(transactions.id)
+        .for("update");
+      const allocated = await tx
+        .select()
+        .from(paymentAllocations)
+        .where(documentIds.length === 0
+          ? eq(paymentAllocations.paymentId, paymentId)
+          : or(eq(paymentAllocations.paymentId, paymentId), inArray(paymentAllocations.documentId, documentIds)))
+        .orderBy(paymentAllocations.id);
+      save.check(payment, documents, allocated);
+      
+      if (save.allocations.length === 0) return [];
+      return tx
+        .insert(paymentAllocations)
+        .values(save.allocations.map((allocation) => ({ ...allocation, paymentId, userId })))
+        .returning();
+    });
+  }
+  
+  async deletePaymentAllocation(userId: number, id: number): Promise<void> {
+    const deleted = await this.db
+      .delete(paymentAllocations)
+      .where(and(eq(paymentAllocations.userId, userId), eq(paymentAllocations.id, id)))
+      .returning({ id: paymentAllocations.id });
+    if (deleted.length === 0) {
+      throw new Error(`Payment allocation with id ${id} not found`);
+    }
+  }
+  
+  // Transaction revision operations
+  async getTransactionRevisions(userId: number, transactionId: number): Promise<TransactionRevision[]> {
+    return this.db
+      .select()
+      .from(transactionRevisions)
+      .where(and(eq(transactionRevisions.userId, userId), eq(transactionRevisions.transactionId, transactionId)))
+      .orderBy(transactionRevisions.revision);
+  }
+  
+  async createTransactionRevision(insertTransactionRevision: InsertTransactionRevision): Promise<TransactionRevision> {
+    const [revision] = await this.db
+      .insert(transactionRevisions)
+      .values(insertTransactionRevision)
+      .returning();
+    return revision;
+  }
+  
+  // BNPL Limit operations
+  async getBnplLimitsByPartyId(userId: number, partyId: number): Promise<BnplLimit[]> {
+    return this.db
+      .select()
+      .from(bnplLimits)
+      .where(and(eq(bnplLimits.userId, userId), eq(bnplLimits.partyId, partyId)));
+  }
+  
+  async getBnplLimitsByUserId(userId: number): Promise<BnplLimit[]> {
+    return this.db.select().from(bnplLimits).where(eq(bnplLimits.userId, userId));
+  }
+  
+  async getBnplLimitsByType(userId: number, type: string): Promise<BnplLimit[]> {
+    return this.db
+      .select()
+      .from(bnplLimits)
+      .where(and(eq(bnplLimits.userId, userId), eq(bnplLimits.limitType, type)));
+  }
+  
+  async createBnplLimit(insertBnplLimit: InsertBnplLimit): Promise<BnplLimit> {
+    const [bnplLimit] = await this.db.insert(bnplLimits).values(insertBnplLimit).returning();
+    return bnplLimit;
+  }
+  
+  async updateBnplLimit(userId: number, id: number, updates: Partial<InsertBnplLimit>): Promise<BnplLimit> {
+    const [bnplLimit] = await this.db
+      .update(bnplLimits)
+      .set(updates)
+      .where(and(eq(bnplLimits.userId, userId), eq(bnplLimits.id, id)))
+      .returning();
+    if (!bnplLimit) {
+      throw new Error(`BNPL Limit with id ${id} not found`);
+    }
+    return bnplLimit;
+  }
+  
+  // Tally Sync operations
+  async getTallySyncLogs(userId: number): Promise<TallySyncLog[]> {
+    return this.db
+      .select()
+      .from(tallySyncLogs)
+      .where(eq(tallySyncLogs.userId, userId))
+      .orderBy(desc(tallySyncLogs.syncedAt));
+  }
+  
+  async getRecentTallySyncLog(userId: number): Promise<TallySyncLog | undefined> {
+    const [log] = await this.db
+      .select()
+      .from(tallySyncLogs)
+      .where(eq(tallySyncLogs.userId, userId))
+      .orderBy(desc(tallySyncLogs.syncedAt))
+      .limit(1);
+    return log;
+  }
+  
+  async createTallySyncLog(insertTallySyncLog: InsertTallySyncLog): Promise<TallySyncLog> {
+    const [log] = await this.db.insert(tallySyncLogs).values(insertTallySyncLog).returning();
+    return log;
+  }
+  
+  async updateTallySyncLog(userId: number, id: number, updates: Partial<InsertTallySyncLog>): Promise<TallySyncLog> {
+    const [log] = await this.db
+      .update(tallySyncLogs)
+      .set(updates)
+      .where(and(eq(tallySyncLogs.userId, userId), eq(tallySyncLogs.id, id)))
+      .returning();
+    if (!log) {
+      throw new Error(`Tally sync log with id ${id} not found`);
+    }
+    return log;
+  }
+  
+  async getTallySyncEntries(userId: number, logId: number): Promise<TallySyncEntry[]> {
+    return this.db
+      .select()
+      .from(tallySyncEntries)
+      .where(and(eq(tallySyncEntries.userId, userId), eq(tallySyncEntries.logId, logId)))
+      .orderBy(tallySyncEntries.id);
+  }
+  
+  async createTallySyncEntry(insertTallySyncEntry: InsertTallySyncEntry): Promise<TallySyncEntry> {
+    const [entry] = await this.db.insert(tallySyncEntries).values(insertTallySyncEntry).returning();
+    return entry;
+  }
+  
+  // Tally sync job operations
+  async getTallySyncJob(userId: number): Promise<TallySyncJob | undefined> {
+    const [job] = await this.db.select().from(tallySyncJobs).where(eq(tallySyncJobs.userId, userId));
+    return job;
+  }
+  
+  // The conditional update takes the lock atomically; the row is created first if missing
+  async acquireTallySyncLock(userId: number, lockId: string, staleBefore: Date): Promise<TallySyncJob | undefined> {
+    await this.db.insert(tallySyncJobs).values({ userId }).onConflictDoNothing();
+    const [job] = await this.db
+      .update(tallySyncJobs)
+      .set({ lockId, lockedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(tallySyncJobs.userId, userId),
+        or(isNull(tallySyncJobs.lockedAt), lt(tallySyncJobs.lockedAt, staleBefore))
+      ))
+      .returning();
+    return job;
+  }
+  
+  async releaseTallySyncLock(userId: number, lockId: string, updates: Partial<InsertTallySyncJob>): Promise<TallySyncJob> {
+    const [job] = await this.db
+      .update(tallySyncJobs)
+      .set({ ...definedValues(updates), lockId: null, lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(tallySyncJobs.userId, userId), eq(tallySyncJobs.lockId, lockId)))
+      .returning();
+    if (!job) {
+      throw new Error(`Tally sync lock ${lockId} is not held`);
+    }
+    return job;
+  }
+  
+  // Tally mapping operations
+  async getTallyMappings(userId: number): Promise<TallyMapping[]> {
+    return this.db.select().from(tallyMappings).where(eq(tallyMappings.userId, userId));
+  }
+  
+  async getTallyMapping(userId: number, id: number): Promise<TallyMapping | undefined> {
+    const [mapping] = await this.db
+      .select()
+      .from(tallyMappings)
+      .where(and(eq(tallyMappings.userId, userId), eq(tallyMappings.id, id)));
+    return mapping;
+  }
+  
+  async saveTallyMapping(insertTallyMapping: InsertTallyMapping): Promise<TallyMapping> {
+    const [mapping] = await this.db
+      .insert(tallyMappings)
+      .values(insertTallyMapping)
+      .onConflictDoUpdate({
+        target: [tallyMappings.userId, tallyMappings.mappingType, tallyMappings.sourceKey],
+        set: { tallyName: insertTallyMapping.tallyName, updatedAt: new Date() },
+      })
+      .returning();
+    return mapping;
+  }
+  
+  async deleteTallyMapping(userId: number, id: number): Promise<void> {
+    const deleted = await this.db
+      .delete(tallyMappings)
+      .where(and(eq(tallyMappings.userId, userId), eq(tallyMappings.id, id)))
+      .returning({ id: tallyMappings.id });
+    if (deleted.length === 0) {
+      throw new Error(`Tally mapping with id ${id} not found`);
+    }
+  }
+  
+  // Numbering series operations
+  async getNumberingSeriesByUserId(userId: number): Promise<NumberingSeries[]> {
+    return this.db.select().from(numberingSeries).where(eq(numberingSeries.userId, userId)).orderBy(numberingSeries.id);
+  }
+  
+  async getNumberingSeries(userId: number, id: number): Promise<NumberingSeries | undefined> {
+    const [series] = await this.db
+      .select()
+      .from(numberingSeries)
+      .where(and(eq(numberingSeries.userId, userId), eq(numberingSeries.id, id)));
+    return series;
+  }
+  
+  async createNumberingSeries(insertNumberingSeries: InsertNumberingSeries): Promise<NumberingSeries> {
+    const [series] = await this.db.insert(numberingSeries).values(insertNumberingSeries).returning();
+    return series;
+  }
+  
+  async updateNumberingSeries(userId: number, id: number, updates: Partial<InsertNumberingSeries>): Promise<NumberingSeries> {
+    const [series] = await this.db
+      .update(numberingSeries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(numberingSeries.userId, userId), eq(numberingSeries.id, id)))
+      .returning();
+    if (!series) {
+      throw new Error(`Numbering series with id ${id} not found`);
+    }
+    return series;
+  }
+  
+  async deleteNumberingSeries(userId: number, id: number): Promise<void> {
+    const deleted = await this.db
+      .delete(numberingSeries)
+      .where(and(eq(numberingSeries.userId, userId), eq(numberingSeries.id, id)))
+      .returning({ id: numberingSeries.id });
+    if (deleted.length === 0) {
+      throw new Error(`Numbering series with id ${id} not found`);
+    }
+  }
+  
+  async getNumberingCounters(userId: number, seriesId: number): Promise<NumberingCounter[]> {
+    const rows = await this.db
+      .select({ counter: numberingCounters })
+      .from(numberingCounters)
+      .innerJoin(numberingSeries, eq(numberingCounters.seriesId, numberingSeries.id))
+      .where(and(eq(numberingSeries.userId, userId), eq(numberingCounters.seriesId, seriesId)));
+    return rows.map((row) => row.counter);
+  }
+  
+  // One upsert, so two saves at once never get the same number
+  async takeSeriesNumber(userId: number, seriesId: number, period: string, atLeast = 1): Promise<number> {
+    const series = await this.getNumberingSeries(userId, seriesId);
+    if (!series) {
+      throw new Error(`Numbering series with id ${seriesId} not found`);
+    }
+    const floor = Math.max(series.startNumber, atLeast);
+    const [counter] = await this.db
+      .insert(numberingCounters)
+      .values({ seriesId, period, lastNumber: floor })
+      .onConflictDoUpdate({
+        target: [numberingCounters.seriesId, numberingCounters.period],
+        set: { lastNumber: sql`greatest(${numberingCounters.lastNumber} + 1, ${floor})` },
+      })
+      .returning();
+    return counter.lastNumber;
+  }
+  
+  // Chart of accounts operations
+  async getAccountsByUserId(userId: number): Promise<Account[]> {
+    return this.db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.userId, userId))
+      .orderBy(accounts.id);
+  }
+  
+  async getAccount(userId: number, id: number): Promise<Account | undefined> {
+    const [account] = await this.db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.userId, userId), eq(accounts.id, id)));
+    return account;
+  }
+  
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    const [account] = await this.db.insert(accounts).values(insertAccount).returning();
+    return account;
+  }
+  
+  async updateAccount(userId: number, id: number, updates: Partial<InsertAccount>): Promise<Account> {
+    const [account] = await this.db
+      .update(accounts)
+      .set(updates)
+      .where(and(eq(accounts.userId, userId), eq(accounts.id, id)))
+      .returning();
+    if (!account) {
+      throw new Error(`Account with id ${id} not found`);
+    }
+    return account;
+  }
+  
+  // General ledger operations
+  async getJournalEntries(userId: number, filter: JournalEntryFilter = {}): Promise<JournalEntry[]> {
+    const conditions: SQL[] = [eq(journalEntries.userId, userId)];
+    if (filter.transactionId !== undefined) {
+      conditions.push(eq(journalEntries.transactionId, filter.transactionId));
+    }
+    if (filter.asOf !== undefined) {
+      conditions.push(lte(journalEntries.entryDate, filter.asOf));
+    }
+    
+    return this.db
+      .select()
+      .from(journalEntries)
+      .where(and(...conditions))
+      .orderBy(asc(journalEntries.entryDate), asc(journalEntries.id));
+  }
+  
+  async getJournalEntry(userId: number, id: number): Promise<JournalEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), eq(journalEntries.id, id)));
+    return entry;
+  }
+  
+  async getJournalLines(userId: number, journalEntryIds: number[]): Promise<JournalLine[]> {
+    if (journalEntryIds.length === 0) {
+      return [];
+    }
+    const rows = await this.db
+      .select({ journalLine: journalLines })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+      .where(and(eq(journalEntries.userId, userId), inArray(journalLines.journalEntryId, journalEntryIds)))
+      .orderBy(journalLines.id);
+    return rows.map((row) => row.journalLine);
+  }
+  
+  async getAccountBalances(userId: number, asOf?: Date): Promise<AccountBalance[]> {
+    const conditions: SQL[] = [eq(journalEntries.userId, userId)];
+    if (asOf !== undefined) {
+      conditions.push(lte(journalEntries.entryDate, asOf));
+    }
+    
+    const rows = await this.db
+      .select({
+        accountId: journalLines.accountId,
+        debit: sql<string>`coalesce(sum(${journalLines.debit}), 0)`,
+        credit: sql<string>`coalesce(sum(${journalLines.credit}), 0)`,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+      .where(and(...conditions))
+      .groupBy(journalLines.accountId);
+    
+    return rows.map((row) => ({ accountId: row.accountId, debit: parseFloat(row.debit), credit: parseFloat(row.credit) }));
+  }
+  
+  async createJournalEntry(insertJournalEntry: InsertJournalEntry, insertLines: Omit<InsertJournalLine, "journalEntryId">[]): Promise<JournalEntry> {
+    return this.db.transaction(async (tx) => {
+      const [entry] = await tx.insert(journalEntries).values(insertJournalEntry).returning();
+      if (insertLines.length > 0) {
+        await tx
+          .insert(journalLines)
+          .values(insertLines.map((line) => ({ ...line, journalEntryId: entry.id })));
       }
-    ];
-
-    items.forEach(item => this.items.set(item.id, item));
-    this.itemIdCounter = items.length + 1;
-
-    // Create demo transactions
-    const currentDate = new Date();
-
-    const transactions: Transaction[] = [
-      {
-        id: 1,
-        transactionNumber: "INV-2023-042",
-        transactionType: "sales_invoice",
-        transactionDate: new Date(currentDate.setDate(currentDate.getDate() - 2)),
-        partyId: 1,
-        amount: "42500",
-        balanceDue: "42500",
-        dueDate: new Date(currentDate.setDate(currentDate.getDate() + 30)),
-        status: "pending",
-        notes: "Sale of laptops and accessories",
-        reference: "PO-GT-2023-125",
-        isBnpl: false,
-        isSync: true,
-        userId: 1,
-        createdAt: new Date()
-      },
-      {
-        id: 2,
-        transactionNumber: "BILL-2023-128",
-        transactionType: "purchase_bill",
-        transactionDate: new Date(currentDate.setDate(currentDate.getDate() - 3)),
-        partyId: 2,
-        amount: "18750",
-        balanceDue: "18750",
-        dueDate: new Date(currentDate.setDate(currentDate.getDate() + 45)),
-        status: "using_bnpl",
-        notes: "Purchase of electronics components",
-        reference: "PO-TS-2023-087",
-        isBnpl: true,
-        isSync: true,
-        userId: 1,
-        createdAt: new Date()
-      },
-      {
-        id: 3,
-        transactionNumber: "RCPT-2023-054",
-        transactionType: "receipt",
-        transactionDate: new Date(currentDate.setDate(currentDate.getDate() - 5)),
-        partyId: 3,
-        amount: "28600",
-        balanceDue: "0",
-        dueDate: null,
-        status: "completed",
-        notes: "Receipt against invoice INV-2023-039",
-        reference: "INV-2023-039",
-        isBnpl: false,
-        isSync: true,
-        userId: 1,
-        createdAt: new Date()
+      return entry;
+    });
+  }
+  
+  async createJournalVoucher(insertJournalEntry: Omit<InsertJournalEntry, "voucherNumber">, insertLines: Omit<InsertJournalLine, "journalEntryId">[], numberOf: (vouchers: JournalEntry[]) => string): Promise<JournalEntry> {
+    return this.db.transaction(async (tx) => {
+      // Locking the company's row makes vouchers posted at the same time take their turn, so each is
+      // numbered after the one before it is saved
+      const [company] = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.id, insertJournalEntry.userId))
+        .for("update");
+      if (!company) {
+        throw new Error(`User with id ${insertJournalEntry.userId} not found`);
       }
-    ];
-
-    transactions.forEach(transaction => this.transactions.set(transaction.id, transaction));
-    this.transactionIdCounter = transactions.length + 1;
-
-    // Create demo transaction items
-    const transactionItems: TransactionItem[] = [
-      {
-        id: 1,
-        transactionId: 1,
-        itemId: 1,
-        description: "Laptop",
-        quantity: "1",
-        rate: "45000",
-        amount: "45000",
-        taxRate: "5",
-        taxAmount: "2250",
-        totalAmount: "47250",
-        createdAt: new Date()
-      },
-      {
-        id: 2,
-        transactionId: 2,
-        itemId: 2,
-        description: "Desktop Computer",
-        quantity: "1",
-        rate: "35000",
-        amount: "35000",
-        taxRate: "5",
-        taxAmount: "1750",
-        totalAmount: "36750",
-        createdAt: new Date()
+      const vouchers = await tx
+        .select()
+        .from(journalEntries)
+        .where(and(eq(journalEntries.userId, company.id), isNull(journalEntries.transactionId), isNull(journalEntries.reversedEntryId)))
+        .orderBy(journalEntries.id);
+      
+      const [entry] = await tx.insert(journalEntries).values({ ...insertJournalEntry, voucherNumber: numberOf(vouchers) }).returning();
+      if (insertLines.length > 0) {
+        await tx
+          .insert(journalLines)
+          .values(insertLines.map((line) => ({ ...line, journalEntryId: entry.id })));
       }
-    ];
-
-    transactionItems.forEach(item => this.transactionItems.set(item.id, item));
-    this.transactionItemIdCounter = transactionItems.length + 1;
-
-    // Create demo BNPL limits
-    const bnplLimits: BnplLimit[] = [
-      {
-        id: 1,
-        partyId: 2,
-        limitType: "purchase",
-        totalLimit: "250000",
-        usedLimit: "150000",
-        expiryDate: new Date(currentDate.setMonth(currentDate.getMonth() + 6)),
-        userId: 1,
-        createdAt: new Date()
-      },
-      {
-        id: 2,
-        partyId: 1,
-        limitType: "sales",
-        totalLimit: "350000",
-        usedLimit: "225000",
-        expiryDate: new Date(currentDate.setMonth(currentDate.getMonth() + 6)),
-        userId: 1,
-        createdAt: new Date()
+      return entry;
+    });
+  }
+  
+  // GSTR-2B reconciliation operations
+  async getGstr2bImports(userId: number): Promise<Gstr2bImport[]> {
+    return this.db
+      .select()
+      .from(gstr2bImports)
+      .where(eq(gstr2bImports.userId, userId))
+      .orderBy(desc(gstr2bImports.period));
+  }
+  
+  async getGstr2bImport(userId: number, id: number): Promise<Gstr2bImport | undefined> {
+    const [gstr2bImport] = await this.db
+      .select()
+      .from(gstr2bImports)
+      .where(and(eq(gstr2bImports.userId, userId), eq(gstr2bImports.id, id)));
+    return gstr2bImport;
+  }
+  
+  async createGstr2bImport(insertGstr2bImport: InsertGstr2bImport): Promise<Gstr2bImport> {
+    const [gstr2bImport] = await this.db.insert(gstr2bImports).values(insertGstr2bImport).returning();
+    return gstr2bImport;
+  }
+  
+  async deleteGstr2bImport(userId: number, id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(gstr2bEntries)
+        .where(and(eq(gstr2bEntries.userId, userId), eq(gstr2bEntries.importId, id)));
+      const deleted = await tx
+        .delete(gstr2bImports)
+        .where(and(eq(gstr2bImports.userId, userId), eq(gstr2bImports.id, id)))
+        .returning({ id: gstr2bImports.id });
+      if (deleted.length === 0) {
+        throw new Error(`GSTR-2B import with id ${id} not found`);
       }
-    ];
-
-    bnplLimits.forEach(limit => this.bnplLimits.set(limit.id, limit));
-    this.bnplLimitIdCounter = bnplLimits.length + 1;
-
-    // Create demo tally sync logs
-    const tallySyncLogs: TallySyncLog[] = [
-      {
-        id: 1,
-        syncType: "pull",
-        syncStatus: "success",
-        transactionCount: 15,
-        details: "Successfully synced 15 transactions",
-        userId: 1,
-        syncedAt: new Date(currentDate.setDate(currentDate.getDate() - 1))
-      },
-      {
-        id: 2,
-        syncType: "push",
-        syncStatus: "success",
-        transactionCount: 8,
-        details: "Successfully pushed 8 transactions to Tally",
-        userId: 1,
-        syncedAt: new Date(currentDate.setDate(currentDate.getDate() - 2))
+    });
+  }
+  
+  async replaceGstr2bImport(insertGstr2bImport: InsertGstr2bImport, insertEntries: Omit<InsertGstr2bEntry, "importId">[]): Promise<Gstr2bImport> {
+    return this.db.transaction(async (tx) => {
+      const replaced = await tx
+        .select({ id: gstr2bImports.id })
+        .from(gstr2bImports)
+        .where(and(eq(gstr2bImports.userId, insertGstr2bImport.userId), eq(gstr2bImports.period, insertGstr2bImport.period)));
+      if (replaced.length > 0) {
+        const ids = replaced.map((existing) => existing.id);
+        await tx.delete(gstr2bEntries).where(inArray(gstr2bEntries.importId, ids));
+        await tx.delete(gstr2bImports).where(inArray(gstr2bImports.id, ids));
       }
-    ];
-
-    tallySyncLogs.forEach(log => this.tallySyncLogs.set(log.id, log));
-    this.tallySyncLogIdCounter = tallySyncLogs.length + 1;
+      
+      const [gstr2bImport] = await tx.insert(gstr2bImports).values(insertGstr2bImport).returning();
+      // A period can hold thousands of invoices; batches keep each insert within Postgres' parameter limit
+      for (let start = 0; start < insertEntries.length; start += 500) {
+        await tx
+          .insert(gstr2bEntries)
+          .values(insertEntries.slice(start, start + 500).map((entry) => ({ ...entry, importId: gstr2bImport.id })));
+      }
+      return gstr2bImport;
+    });
+  }
+  
+  async getGstr2bEntries(userId: number, importId: number): Promise<Gstr2bEntry[]> {
+    return this.db
+      .select()
+      .from(gstr2bEntries)
+      .where(and(eq(gstr2bEntries.userId, userId), eq(gstr2bEntries.importId, importId)))
+      .orderBy(gstr2bEntries.id);
+  }
+  
+  async getGstr2bEntry(userId: number, id: number): Promise<Gstr2bEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(gstr2bEntries)
+      .where(and(eq(gstr2bEntries.userId, userId), eq(gstr2bEntries.id, id)));
+    return entry;
+  }
+  
+  async createGstr2bEntry(insertGstr2bEntry: InsertGstr2bEntry): Promise<Gstr2bEntry> {
+    const [entry] = await this.db.insert(gstr2bEntries).values(insertGstr2bEntry).returning();
+    return entry;
+  }
+  
+  async updateGstr2bEntry(userId: number, id: number, updates: Partial<InsertGstr2bEntry>): Promise<Gstr2bEntry> {
+    const [entry] = await this.db
+      .update(gstr2bEntries)
+      .set(updates)
+      .where(and(eq(gstr2bEntries.userId, userId), eq(gstr2bEntries.id, id)))
+      .returning();
+    if (!entry) {
+      throw new Error(`GSTR-2B entry with id ${id} not found`);
+    }
+    return entry;
+  }
+  
+  // Ageing Analysis
+  async getReceivablesAgeing(userId: number): Promise<AgeingBuckets> {
+    return this.getAgeing(userId, "sales_invoice");
+  }
+  
+  async getPayablesAgeing(userId: number): Promise<AgeingBuckets> {
+    return this.getAgeing(userId, "purchase_bill");
+  }
+  
+  private async getOpenBalance(
+    userId: number,
+    type: Transaction["transactionType"]
+  ): Promise<{ total: number, count: number }> {
+    const [result] = await this.db
+      .select({
+        total: sql<string>`coalesce(sum(${transactions.balanceDue}), 0)`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        eq(transactions.transactionType, type),
+        inArray(transactions.status, openStatuses as NonNullable<Transaction["status"]>[])
+      ));
+    
+    return { total: Number(result.total), count: result.count };
+  }
+  
+  private async getAgeing(userId: number, type: Transaction["transactionType"]): Promise<AgeingBuckets> {
+    // Whole days past the due date, matching the in-memory calculation
+    const overdueDays = sql`floor((extract(epoch from now()) - extract(epoch from ${transactions.dueDate})) / 86400)`;
+    const balance = sql`coalesce(${transactions.balanceDue}, 0)`;
+    
+    const [result] = await this.db
+      .select({
+        current: sql<string>`coalesce(sum(case when ${overdueDays} <= 0 then ${balance} else 0 end), 0)`,
+        days1to30: sql<string>`coalesce(sum(case when ${overdueDays} between 1 and 30 then ${balance} else 0 end), 0)`,
+        days31to60: sql<string>`coalesce(sum(case when ${overdueDays} between 31 and 60 then ${balance} else 0 end), 0)`,
+        days60plus: sql<string>`coalesce(sum(case when ${overdueDays} > 60 then ${balance} else 0 end), 0)`,
+      })
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        eq(transactions.transactionType, type),
+        inArray(transactions.status, openStatuses as NonNullable<Transaction["status"]>[]),
+        isNotNull(transactions.dueDate)
+      ));
+    
+    return {
+      current: Number(result.current),
+      days1to30: Number(result.days1to30),
+      days31to60: Number(result.days31to60),
+      days60plus: Number(result.days60plus),
+    };
   }
 }
 
-export const storage = new MemStorage();
+export function createStorage(driver: StorageDriver = config.storageDriver): IStorage {
+  return driver === "database" ? new DatabaseStorage(db) : new MemStorage();
+}
 
-// export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = createStorage();
\ No newline at end of file
@@ -0,0 +1,35 @@
+// How documents convert into one another, shared by the conversion endpoint and the client
+
+export type ConvertibleType =
+  | "quotation_request" | "quotation" | "estimate" | "sales_order" | "delivery_note" | "sales_invoice"
+  | "purchase_quotation_request" | "purchase_quotation" | "purchase_order" | "grn" | "purchase_bill";
+
+// The documents each one can be converted into, earliest stage first
+export const documentConversions: Partial<Record<ConvertibleType, ConvertibleType[]>> = {
+  quotation_request: ["quotation", "estimate"],
+  quotation: ["sales_order"],
+  estimate: ["sales_order"],
+  sales_order: ["delivery_note", "sales_invoice"],
+  delivery_note: ["sales_invoice"],
+  purchase_quotation_request: ["purchase_quotation"],
+  purchase_quotation: ["purchase_order"],
+  purchase_order: ["grn", "purchase_bill"],
+  grn: ["purchase_bill"],
+};
+
+// The status a document takes once its lines have gone into documents of a type, partly or in full
+export const fulfilmentStatuses: Partial<Record<ConvertibleType, { partial: string; full: string }>> = {
+  quotation: { partial: "responded", full: "responded" },
+  estimate: { partial: "responded", full: "responded" },
+  sales_order: { partial: "order_placed", full: "order_placed" },
+  delivery_note: { partial: "partially_delivered", full: "delivered" },
+  sales_invoice: { partial: "partially_billed", full: "billed" },
+  purchase_quotation: { partial: "responded", full: "responded" },
+  purchase_order: { partial: "order_placed", full: "order_placed" },
+  grn: { partial: "partially_received", full: "received" },
+  purchase_bill: { partial: "partially_billed", full: "billed" },
+};
+
+export function conversionTargets(type: string): ConvertibleType[] {
+  return documentConversions[type as ConvertibleType] ?? [];
+}
@@ -0,0 +1,83 @@
+// GST state codes and place-of-supply helpers shared by the tax engine and the client
+
+export const gstStates: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+};
+
+// The first two characters of a GSTIN are the registrant's state code
+export function stateCodeFromGstin(gstin?: string | null): string | null {
+  const code = gstin?.trim().slice(0, 2);
+  return code && gstStates[code] ? code : null;
+}
+
+// Accepts a state name (any case) or a two-digit state code
+export function stateCodeFromName(state?: string | null): string | null {
+  const value = state?.trim().toLowerCase();
+  if (!value) {
+    return null;
+  }
+  const code = value.padStart(2, "0");
+  if (gstStates[code]) {
+    return code;
+  }
+  return Object.keys(gstStates).find((key) => gstStates[key].toLowerCase() === value) ?? null;
+}
+
+// A party's GSTIN is authoritative; unregistered parties fall back to their address state
+export function partyStateCode(party: { gstin?: string | null; state?: string | null }): string | null {
+  return stateCodeFromGstin(party.gstin) ?? stateCodeFromName(party.state);
+}
+
+const gstinPattern = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const gstinCharset = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// Format, state code and the mod-36 check character used by the GST portal
+export function isValidGstin(gstin?: string | null): boolean {
+  const value = gstin?.trim().toUpperCase() ?? "";
+  if (!gstinPattern.test(value) || !gstStates[value.slice(0, 2)]) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = gstinCharset.indexOf(value[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return gstinCharset[(36 - (sum % 36)) % 36] === value[14];
+}
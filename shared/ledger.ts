@@ -0,0 +1,38 @@
+// Account groups of the chart of accounts, shared by the general ledger and the account forms
+
+export type AccountNature = "asset" | "liability" | "equity" | "income" | "expense";
+
+// Tally's primary groups and what each holds
+export const accountGroups: Record<string, AccountNature> = {
+  "Capital Account": "equity",
+  "Reserves & Surplus": "equity",
+  "Loans (Liability)": "liability",
+  "Current Liabilities": "liability",
+  "Sundry Creditors": "liability",
+  "Duties & Taxes": "liability",
+  "Provisions": "liability",
+  "Suspense A/c": "liability",
+  "Fixed Assets": "asset",
+  "Investments": "asset",
+  "Current Assets": "asset",
+  "Sundry Debtors": "asset",
+  "Bank Accounts": "asset",
+  "Cash-in-Hand": "asset",
+  "Stock-in-Hand": "asset",
+  "Loans & Advances (Asset)": "asset",
+  "Deposits (Asset)": "asset",
+  "Sales Accounts": "income",
+  "Direct Incomes": "income",
+  "Indirect Incomes": "income",
+  "Purchase Accounts": "expense",
+  "Direct Expenses": "expense",
+  "Indirect Expenses": "expense",
+};
+
+export const accountGroupNames = Object.keys(accountGroups) as [string, ...string[]];
+
+// Assets and expenses normally carry a debit balance; the rest a credit balance
+export function isDebitNature(group: string) {
+  const nature = accountGroups[group];
+  return nature === "asset" || nature === "expense";
+}
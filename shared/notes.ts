@@ -0,0 +1,38 @@
+// Debit and credit notes against invoices and bills, shared by the server and the note forms
+
+export type NoteType = "debit_note" | "credit_note";
+
+export type NoteReason =
+  | "sales_return" | "post_sale_discount" | "deficiency_in_services" | "correction_in_invoice"
+  | "change_in_pos" | "finalization_of_provisional_assessment" | "others";
+
+// The reason codes of the GST return
+export const noteReasons: Record<NoteReason, { code: string; label: string }> = {
+  sales_return: { code: "01", label: "Sales Return" },
+  post_sale_discount: { code: "02", label: "Post Sale Discount" },
+  deficiency_in_services: { code: "03", label: "Deficiency in Services" },
+  correction_in_invoice: { code: "04", label: "Correction in Invoice" },
+  change_in_pos: { code: "05", label: "Change in POS" },
+  finalization_of_provisional_assessment: { code: "06", label: "Finalization of Provisional Assessment" },
+  others: { code: "07", label: "Others" },
+};
+
+// The document each note adjusts: debit notes are raised on customers, credit notes (purchase returns) on vendors
+export const noteOriginalTypes: Record<NoteType, string> = {
+  debit_note: "sales_invoice",
+  credit_note: "purchase_bill",
+};
+
+export function isNoteType(type: string): type is NoteType {
+  return type in noteOriginalTypes;
+}
+
+// Whether a note sends goods back. Credit notes saved before reasons were recorded were all purchase returns.
+export function returnsGoods(note: { transactionType: string; noteReason?: string | null }) {
+  return note.noteReason ? note.noteReason === "sales_return" : note.transactionType === "credit_note";
+}
+
+export function noteReasonLabel(reason: string) {
+  const known = noteReasons[reason as NoteReason];
+  return known ? `${known.code} - ${known.label}` : reason;
+}
@@ -0,0 +1,79 @@
+// Roles and permissions shared by the API guards and the client UI
+
+export const permissions = [
+  "view_dashboard",
+  "manage_sales",
+  "manage_purchases",
+  "sync_tally",
+  "manage_users",
+  "manage_settings",
+  "manage_gst",
+  "approve_bills",
+  "manage_accounts",
+] as const;
+
+export type Permission = typeof permissions[number];
+
+export const permissionLabels: Record<Permission, string> = {
+  view_dashboard: "View Dashboard",
+  manage_sales: "Manage Sales",
+  manage_purchases: "Manage Purchases",
+  sync_tally: "Sync with Tally",
+  manage_users: "Manage Users",
+  manage_settings: "Manage Company Settings",
+  manage_gst: "Prepare GST Returns",
+  approve_bills: "Release Mismatched Bills for Payment",
+  manage_accounts: "Keep the General Ledger",
+};
+
+export const roles = ["admin", "accountant", "sales", "purchase"] as const;
+
+export type Role = typeof roles[number];
+
+export const roleLabels: Record<Role, string> = {
+  admin: "Administrator",
+  accountant: "Accountant",
+  sales: "Sales",
+  purchase: "Purchase",
+};
+
+// Used until a company saves its own role matrix from Settings
+export const defaultRolePermissions: Record<Role, Permission[]> = {
+  admin: [...permissions],
+  accountant: ["view_dashboard", "manage_sales", "manage_purchases", "sync_tally", "manage_settings", "manage_gst", "approve_bills", "manage_accounts"],
+  sales: ["view_dashboard", "manage_sales"],
+  purchase: ["view_dashboard", "manage_purchases"],
+};
+
+export const salesTransactionTypes = [
+  "sales_invoice",
+  "debit_note",
+  "receipt",
+  "sales_order",
+  "quotation",
+  "quotation_request",
+  "estimate",
+  "delivery_note",
+  "sales_return",
+] as const;
+
+export const purchaseTransactionTypes = [
+  "purchase_bill",
+  "purchase_order",
+  "purchase_quotation_request",
+  "purchase_quotation",
+  "credit_note",
+  "payment",
+  "grn",
+] as const;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (roles as readonly string[]).includes(value);
+}
+
+// Permission needed to create or change a document of the given transaction type
+export function permissionForTransactionType(type: string): Permission {
+  return (salesTransactionTypes as readonly string[]).includes(type)
+    ? "manage_sales"
+    : "manage_purchases";
+}
@@ -1,7 +1,8 @@
-import { pgTable, text, serial, integer, boolean, decimal, timestamp, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, decimal, timestamp, jsonb, pgEnum, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { accountGroupNames } from "./ledger";
 
 // Enums
 export const transactionTypeEnum = pgEnum("transaction_type", [
@@ -14,6 +15,7 @@ export const transactionTypeEnum = pgEnum("transaction_type", [
   "quotation_request", 
   "estimate",
   "delivery_note",
+  "sales_return",
   
   // Purchase transaction types
   "purchase_bill", 
@@ -25,6 +27,58 @@ export const transactionTypeEnum = pgEnum("transaction_type", [
   "grn"  // Goods Receipt Note
 ]);
 
+export const valuationMethodEnum = pgEnum("valuation_method", [
+  "fifo",
+  "weighted_average",
+]);
+
+export const gstr2bMatchStatusEnum = pgEnum("gstr2b_match_status", [
+  "matched",
+  "mismatched_amount",
+  "missing_in_books",
+  "missing_in_2b",
+]);
+
+export const reconciliationReviewStatusEnum = pgEnum("reconciliation_review_status", [
+  "pending",
+  "accepted",
+  "flagged",
+]);
+
+export const transportModeEnum = pgEnum("transport_mode", [
+  "road",
+  "rail",
+  "air",
+  "ship",
+]);
+
+// Masters that have their own name in Tally
+export const tallyMappingTypeEnum = pgEnum("tally_mapping_type", [
+  "party", // Party ledger
+  "item", // Stock item
+  "ledger", // Sales, purchase, tax, cash, bank and round-off ledgers
+  "voucher_type",
+]);
+
+// Three-way match of a purchase bill against its order and goods receipts (see BillMatchService)
+export const billMatchStatusEnum = pgEnum("bill_match_status", [
+  "matched",
+  "mismatched", // Held back from payment until approved
+  "approved", // Mismatched, but released for payment
+  "unlinked", // Not raised against a purchase order, so there is nothing to match
+]);
+
+// Why a debit or credit note was raised, as the GST return codes them (see shared/notes.ts)
+export const noteReasonEnum = pgEnum("note_reason", [
+  "sales_return", // 01; the only reason that brings goods back
+  "post_sale_discount", // 02
+  "deficiency_in_services", // 03
+  "correction_in_invoice", // 04
+  "change_in_pos", // 05
+  "finalization_of_provisional_assessment", // 06
+  "others", // 07
+]);
+
 export const transactionStatusEnum = pgEnum("transaction_status", [
   // Common statuses
   "draft", 
@@ -47,6 +101,7 @@ export const transactionStatusEnum = pgEnum("transaction_status", [
   "packing",
   "shipped",
   "delivered",
+  "partially_delivered",
   "billed",
   "partially_billed",
   
@@ -73,17 +128,95 @@ export const users = pgTable("users", {
   gstin: text("gstin"),
   email: text("email"),
   phone: text("phone"),
-  role: text("role").default("admin"),
+  role: text("role").default("admin"), // admin, accountant, sales, purchase
+  ownerId: integer("owner_id").references((): AnyPgColumn => users.id), // Company owner for team members, null for the owner
+  branch: text("branch"), // Branch whose numbering series this login's documents take; null for company-wide
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Define relations for users
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [users.ownerId],
+    references: [users.id],
+    relationName: "teamMembers",
+  }),
+  teamMembers: many(users, { relationName: "teamMembers" }),
+  rolePermissions: many(rolePermissions),
+  companySettings: one(companySettings),
   parties: many(parties),
+  stockGroups: many(stockGroups),
+  godowns: many(godowns),
+  units: many(units),
   items: many(items),
   transactions: many(transactions),
   bnplLimits: many(bnplLimits),
   tallySyncLogs: many(tallySyncLogs),
+  tallySyncJob: one(tallySyncJobs),
+  tallyMappings: many(tallyMappings),
+  numberingSeries: many(numberingSeries),
+  accounts: many(accounts),
+  journalEntries: many(journalEntries),
+  gstr2bImports: many(gstr2bImports),
+}));
+
+// Role permission matrix per company (Settings > Users & Permissions)
+export const rolePermissions = pgTable("role_permissions", {
+  id: serial("id").primaryKey(),
+  role: text("role").notNull(),
+  permissions: text("permissions").array().notNull(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userRoleUnique: unique("role_permissions_user_role_unique").on(table.userId, table.role),
+}));
+
+// Define relations for role permissions
+export const rolePermissionsRelations = relations(rolePermissions, ({ one }) => ({
+  user: one(users, {
+    fields: [rolePermissions.userId],
+    references: [users.id],
+  }),
+}));
+
+// Per-company preferences (Settings > General), one row per company owner
+export const companySettings = pgTable("company_settings", {
+  id: serial("id").primaryKey(),
+  valuationMethod: valuationMethodEnum("valuation_method").notNull().default("weighted_average"),
+  gstr2bAmountTolerance: decimal("gstr2b_amount_tolerance", { precision: 10, scale: 2 }).notNull().default("1.00"),
+  gstr2bDateToleranceDays: integer("gstr2b_date_tolerance_days").notNull().default(3),
+  // Three-way match of bills against orders and GRNs, as a percentage of the received quantity and the order rate
+  billMatchQuantityTolerance: decimal("bill_match_quantity_tolerance", { precision: 5, scale: 2 }).notNull().default("0.00"),
+  billMatchRateTolerance: decimal("bill_match_rate_tolerance", { precision: 5, scale: 2 }).notNull().default("1.00"),
+  // Last GSTR-1 period filed, as YYYY-MM; documents reported in it can no longer be cancelled
+  gstr1FiledThrough: text("gstr1_filed_through"),
+  // Registered address; the state comes from the GSTIN
+  address: text("address"),
+  city: text("city"),
+  pincode: text("pincode"),
+  // Tally's XML/HTTP interface (Tally listens on port 9000 by default)
+  tallyUrl: text("tally_url").notNull().default("http://localhost:9000"),
+  tallyCompanyName: text("tally_company_name"), // Company to post to when several are open in Tally
+  // Background sync; the batch size and document switches apply to pushes started by hand too
+  tallyAutoSync: boolean("tally_auto_sync").notNull().default(false),
+  tallySyncIntervalMinutes: integer("tally_sync_interval_minutes").notNull().default(60),
+  tallySyncBatchSize: integer("tally_sync_batch_size").notNull().default(100), // Documents pushed per run
+  tallySyncSales: boolean("tally_sync_sales").notNull().default(true), // Sales invoices and debit notes
+  tallySyncPurchases: boolean("tally_sync_purchases").notNull().default(true), // Purchase bills and credit notes
+  tallySyncPayments: boolean("tally_sync_payments").notNull().default(true),
+  tallySyncReceipts: boolean("tally_sync_receipts").notNull().default(true),
+  tallySyncItems: boolean("tally_sync_items").notNull().default(true), // Off posts invoices without stock lines
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Define relations for company settings
+export const companySettingsRelations = relations(companySettings, ({ one }) => ({
+  user: one(users, {
+    fields: [companySettings.userId],
+    references: [users.id],
+  }),
 }));
 
 // Customers/Vendors table
@@ -115,13 +248,84 @@ export const partiesRelations = relations(parties, ({ one, many }) => ({
   bnplLimits: many(bnplLimits),
 }));
 
+// Stock groups (Tally-style item hierarchy)
+export const stockGroups = pgTable("stock_groups", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  parentId: integer("parent_id").references((): AnyPgColumn => stockGroups.id),
+  hsnCode: text("hsn_code"),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Define relations for stock groups
+export const stockGroupsRelations = relations(stockGroups, ({ one, many }) => ({
+  user: one(users, {
+    fields: [stockGroups.userId],
+    references: [users.id],
+  }),
+  parent: one(stockGroups, {
+    fields: [stockGroups.parentId],
+    references: [stockGroups.id],
+    relationName: "stockGroupChildren",
+  }),
+  children: many(stockGroups, { relationName: "stockGroupChildren" }),
+  items: many(items),
+}));
+
+// Godowns (storage locations, may be nested)
+export const godowns = pgTable("godowns", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  parentId: integer("parent_id").references((): AnyPgColumn => godowns.id),
+  address: text("address"),
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Define relations for godowns
+export const godownsRelations = relations(godowns, ({ one, many }) => ({
+  user: one(users, {
+    fields: [godowns.userId],
+    references: [users.id],
+  }),
+  parent: one(godowns, {
+    fields: [godowns.parentId],
+    references: [godowns.id],
+    relationName: "godownChildren",
+  }),
+  children: many(godowns, { relationName: "godownChildren" }),
+  stockMovements: many(stockMovements),
+}));
+
+// Units of measure
+export const units = pgTable("units", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  formalName: text("formal_name").notNull(),
+  uqc: text("uqc"), // GST Unit Quantity Code, e.g. NOS, KGS, LTR
+  decimalPlaces: integer("decimal_places").default(0),
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Define relations for units
+export const unitsRelations = relations(units, ({ one, many }) => ({
+  user: one(users, {
+    fields: [units.userId],
+    references: [users.id],
+  }),
+  items: many(items),
+}));
+
 // Products/Items table
 export const items = pgTable("items", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   hsnCode: text("hsn_code"),
-  unit: text("unit"),
-  category: text("category"),
+  unitId: integer("unit_id").references(() => units.id),
+  stockGroupId: integer("stock_group_id").references(() => stockGroups.id),
   description: text("description"),
   sellingPrice: decimal("selling_price", { precision: 10, scale: 2 }),
   purchasePrice: decimal("purchase_price", { precision: 10, scale: 2 }),
@@ -154,9 +358,48 @@ export const itemsRelations = relations(items, ({ one, many }) => ({
     fields: [items.userId],
     references: [users.id],
   }),
+  unit: one(units, {
+    fields: [items.unitId],
+    references: [units.id],
+  }),
+  stockGroup: one(stockGroups, {
+    fields: [items.stockGroupId],
+    references: [stockGroups.id],
+  }),
   transactionItems: many(transactionItems),
+  stockMovements: many(stockMovements),
 }));
 
+// The parts of a document that make up its Tally voucher; a change to any of them means Tally is out of date
+export type TallyDocumentContent = {
+  transactionNumber: string;
+  transactionType: string;
+  transactionDate: string | null; // YYYY-MM-DD
+  partyId: number | null;
+  reference: string | null;
+  narration: string | null;
+  paymentMode: string | null;
+  amount: string;
+  taxableAmount: string | null;
+  cgstAmount: string | null;
+  sgstAmount: string | null;
+  igstAmount: string | null;
+  cessAmount: string | null;
+  roundOff: string | null;
+  lines: {
+    itemId: number | null;
+    description: string | null;
+    quantity: string;
+    rate: string;
+    amount: string;
+    taxRate: string | null;
+    cgstAmount: string | null;
+    sgstAmount: string | null;
+    igstAmount: string | null;
+    cessAmount: string | null;
+  }[];
+};
+
 // Transactions table (for sales, purchases, payments, receipts)
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
@@ -171,7 +414,20 @@ export const transactions = pgTable("transactions", {
   notes: text("notes"),
   reference: text("reference"),
   isBnpl: boolean("is_bnpl").default(false),
+  // The BNPL limit the document draws on while it is owed, and how much it has added to that limit's used amount (see BnplService)
+  bnplLimitId: integer("bnpl_limit_id").references((): AnyPgColumn => bnplLimits.id),
+  bnplUsed: decimal("bnpl_used", { precision: 10, scale: 2 }),
   isSync: boolean("is_sync").default(false), // Is synced with Tally
+  tallyGuid: text("tally_guid"), // Voucher GUID in Tally, set when pushed or pulled
+  // Outcome of the last push that included this document (see TallySyncService)
+  tallySyncAttempts: integer("tally_sync_attempts").default(0),
+  tallySyncError: text("tally_sync_error"),
+  tallyRetryPending: boolean("tally_retry_pending").default(false), // Tally could not be reached, so the next push tries again
+  tallyLastAttemptAt: timestamp("tally_last_attempt_at"),
+  // The version Tally has: what the last push or pull carried, and a hash of it to spot later edits
+  tallySyncHash: text("tally_sync_hash"),
+  tallySyncedContent: jsonb("tally_synced_content").$type<TallyDocumentContent>(),
+  tallyModifiedAt: timestamp("tally_modified_at"), // Edited since the push; the next push alters the voucher
   invoiceStatus: text("invoice_status"), // Received, Sent for acceptance, Accepted, Open, Billed, Paid, Partially billed, Partially paid
   inventoryStatus: text("inventory_status"), // Packing, shipped, Delivered, cancelled, closed
   expectedDeliveryDate: timestamp("expected_delivery_date"),
@@ -189,10 +445,64 @@ export const transactions = pgTable("transactions", {
   bankAccount: text("bank_account"), // Bank account details for payment
   tdsCategory: text("tds_category"), // TDS category for purchase payments
   tdsPercentage: decimal("tds_percentage", { precision: 5, scale: 2 }),
+  // Three-way match of a purchase bill, redone whenever the bill, its order or a GRN changes (see BillMatchService)
+  matchStatus: billMatchStatusEnum("match_status"),
+  matchNote: text("match_note"), // What did not match
+  matchApprovedBy: integer("match_approved_by").references(() => users.id),
+  matchApprovedAt: timestamp("match_approved_at"),
+  // Debit and credit notes adjust the invoice or bill in linkedTransactionId; their lines point at its lines
+  noteReason: noteReasonEnum("note_reason"),
+  
+  // Set by the cancel action, which also undoes what the document did (see CancellationService)
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: integer("cancelled_by").references(() => users.id),
+  cancellationReason: text("cancellation_reason"),
+  
+  // GST fields, calculated on the server from the lines (see TransactionService)
+  placeOfSupply: text("place_of_supply"), // Two-digit GST state code
+  pricesIncludeTax: boolean("prices_include_tax").default(false),
+  taxableAmount: decimal("taxable_amount", { precision: 10, scale: 2 }),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }),
+  cessAmount: decimal("cess_amount", { precision: 10, scale: 2 }),
+  roundOff: decimal("round_off", { precision: 10, scale: 2 }),
+  
+  // E-invoice registration, filled in from the IRP response (see EInvoiceService)
+  irn: text("irn"), // 64-character Invoice Reference Number
+  irnAckNumber: text("irn_ack_number"),
+  irnAckDate: timestamp("irn_ack_date"),
+  irnSignedQrCode: text("irn_signed_qr_code"), // Signed JWT to be printed as a QR code
+  
+  // Transport details for delivery notes and invoices, used for the e-way bill (see EWayBillService)
+  transportMode: transportModeEnum("transport_mode"),
+  transporterId: text("transporter_id"), // Transporter's GSTIN or TRANSIN
+  transporterName: text("transporter_name"),
+  vehicleNumber: text("vehicle_number"),
+  transportDocNumber: text("transport_doc_number"), // LR, RR, airway bill or bill of lading number
+  transportDocDate: timestamp("transport_doc_date"),
+  distanceKm: integer("distance_km"),
+  // Left empty when goods leave from the company's address or go to the party's address
+  dispatchFromAddress: text("dispatch_from_address"),
+  dispatchFromCity: text("dispatch_from_city"),
+  dispatchFromState: text("dispatch_from_state"),
+  dispatchFromPincode: text("dispatch_from_pincode"),
+  shipToName: text("ship_to_name"),
+  shipToAddress: text("ship_to_address"),
+  shipToCity: text("ship_to_city"),
+  shipToState: text("ship_to_state"),
+  shipToPincode: text("ship_to_pincode"),
+  ewbNumber: text("ewb_number"), // 12-digit e-way bill number from the portal
+  ewbDate: timestamp("ewb_date"),
+  ewbValidUntil: timestamp("ewb_valid_until"),
+  branch: text("branch"), // Branch the document was raised at, which picks its numbering series
   
   userId: integer("user_id").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  // Numbers are unique within a document type; a cancelled document keeps its number
+  userTypeNumberUnique: unique("transactions_user_type_number_unique").on(table.userId, table.transactionType, table.transactionNumber),
+}));
 
 // Define relations for transactions
 export const transactionsRelations = relations(transactions, ({ one, many }) => ({
@@ -209,6 +519,8 @@ export const transactionsRelations = relations(transactions, ({ one, many }) =>
     fields: [transactions.linkedTransactionId],
     references: [transactions.id],
   }),
+  allocationsMade: many(paymentAllocations, { relationName: "allocationPayment" }), // By a receipt or payment
+  allocationsReceived: many(paymentAllocations, { relationName: "allocationDocument" }), // Against an invoice or bill
 }));
 
 // Transaction Items (line items for invoices, bills, orders)
@@ -220,9 +532,16 @@ export const transactionItems = pgTable("transaction_items", {
   quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
   rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }),
-  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }), // GST rate; split into CGST/SGST or charged as IGST
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }), // GST plus cess
+  cessRate: decimal("cess_rate", { precision: 5, scale: 2 }),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }),
+  cessAmount: decimal("cess_amount", { precision: 10, scale: 2 }),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  godownId: integer("godown_id").references(() => godowns.id), // Where stock for this line moves; null is the main location
+  sourceItemId: integer("source_item_id").references((): AnyPgColumn => transactionItems.id), // The line this was converted from (see DocumentChainService), or that a note returns or revalues
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -236,6 +555,134 @@ export const transactionItemsRelations = relations(transactionItems, ({ one }) =
     fields: [transactionItems.itemId],
     references: [items.id],
   }),
+  sourceItem: one(transactionItems, {
+    fields: [transactionItems.sourceItemId],
+    references: [transactionItems.id],
+  }),
+}));
+
+// A document as it stood after one save (see TransactionRevisionService)
+export type TransactionRevisionContent = {
+  transactionNumber: string;
+  transactionType: string;
+  transactionDate: string | null; // YYYY-MM-DD
+  dueDate: string | null;
+  partyId: number | null;
+  placeOfSupply: string | null;
+  pricesIncludeTax: boolean | null;
+  reference: string | null;
+  notes: string | null;
+  status: string | null;
+  amount: string;
+  taxableAmount: string | null;
+  cgstAmount: string | null;
+  sgstAmount: string | null;
+  igstAmount: string | null;
+  cessAmount: string | null;
+  roundOff: string | null;
+  lines: {
+    lineId: number;
+    itemId: number | null;
+    description: string | null;
+    quantity: string;
+    rate: string;
+    taxRate: string | null;
+    cessRate: string | null;
+    godownId: number | null;
+    amount: string;
+    taxAmount: string | null;
+    totalAmount: string;
+  }[];
+};
+
+export type TransactionRevisionChange = {
+  field: string;
+  before: string | null;
+  after: string | null;
+};
+
+// One row per save of a document, never changed afterwards: who saved it, when, what changed and
+// the whole document as saved. Revision 1 is the document as it was created.
+export const transactionRevisions = pgTable("transaction_revisions", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id),
+  revision: integer("revision").notNull(),
+  content: jsonb("content").$type<TransactionRevisionContent>().notNull(),
+  changes: jsonb("changes").$type<TransactionRevisionChange[]>().notNull(),
+  editedBy: integer("edited_by").references(() => users.id), // The login that saved it; null when not known
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  transactionRevisionUnique: unique("transaction_revisions_transaction_revision_unique").on(table.transactionId, table.revision),
+}));
+
+// Receipts and payments applied against invoices and bills (see PaymentAllocationService).
+// Whatever part of a receipt or payment is not allocated stays on account with the party.
+export const paymentAllocations = pgTable("payment_allocations", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").notNull().references(() => transactions.id), // The receipt or payment
+  documentId: integer("document_id").notNull().references(() => transactions.id), // The invoice or bill it settles
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Define relations for payment allocations
+export const paymentAllocationsRelations = relations(paymentAllocations, ({ one }) => ({
+  payment: one(transactions, {
+    fields: [paymentAllocations.paymentId],
+    references: [transactions.id],
+    relationName: "allocationPayment",
+  }),
+  document: one(transactions, {
+    fields: [paymentAllocations.documentId],
+    references: [transactions.id],
+    relationName: "allocationDocument",
+  }),
+  user: one(users, {
+    fields: [paymentAllocations.userId],
+    references: [users.id],
+  }),
+}));
+
+// Stock ledger: one row per item/godown movement; inward quantities are positive, outward negative
+export const stockMovements = pgTable("stock_movements", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => items.id),
+  godownId: integer("godown_id").references(() => godowns.id),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+  transactionItemId: integer("transaction_item_id").references(() => transactionItems.id),
+  movementType: text("movement_type").notNull(), // Transaction type that caused the movement
+  movementDate: timestamp("movement_date").notNull(),
+  quantity: decimal("quantity", { precision: 12, scale: 3 }).notNull(),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  reversedMovementId: integer("reversed_movement_id").references((): AnyPgColumn => stockMovements.id), // Set on rows that undo an earlier movement
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Define relations for stock movements
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  user: one(users, {
+    fields: [stockMovements.userId],
+    references: [users.id],
+  }),
+  item: one(items, {
+    fields: [stockMovements.itemId],
+    references: [items.id],
+  }),
+  godown: one(godowns, {
+    fields: [stockMovements.godownId],
+    references: [godowns.id],
+  }),
+  transaction: one(transactions, {
+    fields: [stockMovements.transactionId],
+    references: [transactions.id],
+  }),
+  reversedMovement: one(stockMovements, {
+    fields: [stockMovements.reversedMovementId],
+    references: [stockMovements.id],
+  }),
 }));
 
 // BNPL Limits
@@ -266,24 +713,307 @@ export const bnplLimitsRelations = relations(bnplLimits, ({ one }) => ({
 export const tallySyncLogs = pgTable("tally_sync_logs", {
   id: serial("id").primaryKey(),
   syncType: text("sync_type").notNull(), // push, pull
-  syncStatus: text("sync_status").notNull(), // success, failed
+  syncStatus: text("sync_status").notNull(), // success, partial, failed
   transactionCount: integer("transaction_count"),
+  failedCount: integer("failed_count").default(0),
   details: text("details"),
   userId: integer("user_id").notNull().references(() => users.id),
   syncedAt: timestamp("synced_at").defaultNow(),
 });
 
 // Define relations for Tally sync logs
-export const tallySyncLogsRelations = relations(tallySyncLogs, ({ one }) => ({
+export const tallySyncLogsRelations = relations(tallySyncLogs, ({ one, many }) => ({
   user: one(users, {
     fields: [tallySyncLogs.userId],
     references: [users.id],
   }),
+  entries: many(tallySyncEntries),
+}));
+
+// State of the company's Tally sync job. The lock keeps two syncs from running at once;
+// a lock older than the lock timeout belongs to a run that died and can be taken over.
+export const tallySyncJobs = pgTable("tally_sync_jobs", {
+  id: serial("id").primaryKey(),
+  lockId: text("lock_id"), // Set while a sync runs
+  lockedAt: timestamp("locked_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: text("last_status"), // Sync status of the last run
+  lastLogId: integer("last_log_id").references(() => tallySyncLogs.id),
+  lastError: text("last_error"),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  backoffUntil: timestamp("backoff_until"), // No automatic run before this after failures
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Define relations for Tally sync jobs
+export const tallySyncJobsRelations = relations(tallySyncJobs, ({ one }) => ({
+  user: one(users, {
+    fields: [tallySyncJobs.userId],
+    references: [users.id],
+  }),
+  lastLog: one(tallySyncLogs, {
+    fields: [tallySyncJobs.lastLogId],
+    references: [tallySyncLogs.id],
+  }),
+}));
+
+// What each master is called in the company's Tally. The source key is a party or item id,
+// a transaction type, or a ledger role such as "sales:18:local" or "output_cgst:9".
+export const tallyMappings = pgTable("tally_mappings", {
+  id: serial("id").primaryKey(),
+  mappingType: tallyMappingTypeEnum("mapping_type").notNull(),
+  sourceKey: text("source_key").notNull(),
+  tallyName: text("tally_name").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userMasterUnique: unique("tally_mappings_user_master_unique").on(table.userId, table.mappingType, table.sourceKey),
+}));
+
+// Define relations for Tally mappings
+export const tallyMappingsRelations = relations(tallyMappings, ({ one }) => ({
+  user: one(users, {
+    fields: [tallyMappings.userId],
+    references: [users.id],
+  }),
+}));
+
+// How the numbers of one document type are made, company-wide or for one branch (see NumberingService).
+// The prefix and suffix may hold {FY}, which becomes the financial year, e.g. "INV/{FY}/" gives INV/25-26/0001.
+export const numberingSeries = pgTable("numbering_series", {
+  id: serial("id").primaryKey(),
+  transactionType: transactionTypeEnum("transaction_type").notNull(),
+  branch: text("branch"), // Null for the company-wide series
+  prefix: text("prefix").notNull().default(""),
+  suffix: text("suffix").notNull().default(""),
+  padding: integer("padding").notNull().default(4), // Digits the running number is zero-padded to
+  startNumber: integer("start_number").notNull().default(1), // First number issued, and each April when it resets
+  resetYearly: boolean("reset_yearly").notNull().default(true), // Start again every financial year (April to March)
+  userId: integer("user_id").notNull().references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userTypeBranchUnique: unique("numbering_series_user_type_branch_unique").on(table.userId, table.transactionType, table.branch),
+}));
+
+// Define relations for numbering series
+export const numberingSeriesRelations = relations(numberingSeries, ({ one, many }) => ({
+  user: one(users, {
+    fields: [numberingSeries.userId],
+    references: [users.id],
+  }),
+  counters: many(numberingCounters),
+}));
+
+// The last number a series issued in a financial year ("2025-26"), or in "all" for series that never reset
+export const numberingCounters = pgTable("numbering_counters", {
+  id: serial("id").primaryKey(),
+  seriesId: integer("series_id").notNull().references(() => numberingSeries.id),
+  period: text("period").notNull(),
+  lastNumber: integer("last_number").notNull(),
+}, (table) => ({
+  seriesPeriodUnique: unique("numbering_counters_series_period_unique").on(table.seriesId, table.period),
+}));
+
+// Define relations for numbering counters
+export const numberingCountersRelations = relations(numberingCounters, ({ one }) => ({
+  series: one(numberingSeries, {
+    fields: [numberingCounters.seriesId],
+    references: [numberingSeries.id],
+  }),
+}));
+
+// Chart of accounts. Accounts the ledger posts documents to carry a system key, e.g. "sales" or
+// "output_cgst"; customers and vendors share the Sundry Debtors and Sundry Creditors accounts, with
+// the party on each journal line.
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  groupName: text("group_name").notNull(), // One of the groups in shared/ledger.ts, which gives its nature
+  systemKey: text("system_key"),
+  isActive: boolean("is_active").notNull().default(true), // Inactive accounts take no new journal lines
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userNameUnique: unique("accounts_user_name_unique").on(table.userId, table.name),
+  userSystemKeyUnique: unique("accounts_user_system_key_unique").on(table.userId, table.systemKey),
+}));
+
+// Define relations for accounts
+export const accountsRelations = relations(accounts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [accounts.userId],
+    references: [users.id],
+  }),
+  journalLines: many(journalLines),
+}));
+
+// General ledger: balanced journal entries, posted from documents (see LedgerService) or entered by hand
+// as journal vouchers. Entries are never changed; one is undone by a reversing entry that points at it.
+export const journalEntries = pgTable("journal_entries", {
+  id: serial("id").primaryKey(),
+  voucherNumber: text("voucher_number").notNull(), // The document's number, or the journal voucher's own
+  entryDate: timestamp("entry_date").notNull(),
+  narration: text("narration"),
+  transactionId: integer("transaction_id").references(() => transactions.id), // Null for journal vouchers
+  reversedEntryId: integer("reversed_entry_id").references((): AnyPgColumn => journalEntries.id), // Set on entries that undo an earlier one
+  createdBy: integer("created_by").references(() => users.id), // Who entered a journal voucher
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Define relations for journal entries
+export const journalEntriesRelations = relations(journalEntries, ({ one, many }) => ({
+  user: one(users, {
+    fields: [journalEntries.userId],
+    references: [users.id],
+  }),
+  transaction: one(transactions, {
+    fields: [journalEntries.transactionId],
+    references: [transactions.id],
+  }),
+  reversedEntry: one(journalEntries, {
+    fields: [journalEntries.reversedEntryId],
+    references: [journalEntries.id],
+  }),
+  lines: many(journalLines),
+}));
+
+// One side of a journal entry: a debit or a credit to an account, never both
+export const journalLines = pgTable("journal_lines", {
+  id: serial("id").primaryKey(),
+  journalEntryId: integer("journal_entry_id").notNull().references(() => journalEntries.id),
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  partyId: integer("party_id").references(() => parties.id), // The customer or vendor on Sundry Debtors and Sundry Creditors lines
+  debit: decimal("debit", { precision: 10, scale: 2 }).notNull().default("0"),
+  credit: decimal("credit", { precision: 10, scale: 2 }).notNull().default("0"),
+});
+
+// Define relations for journal lines
+export const journalLinesRelations = relations(journalLines, ({ one }) => ({
+  journalEntry: one(journalEntries, {
+    fields: [journalLines.journalEntryId],
+    references: [journalEntries.id],
+  }),
+  account: one(accounts, {
+    fields: [journalLines.accountId],
+    references: [accounts.id],
+  }),
+  party: one(parties, {
+    fields: [journalLines.partyId],
+    references: [parties.id],
+  }),
+}));
+
+// Outcome of each voucher or ledger in a Tally sync
+export const tallySyncEntries = pgTable("tally_sync_entries", {
+  id: serial("id").primaryKey(),
+  logId: integer("log_id").notNull().references(() => tallySyncLogs.id),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+  partyId: integer("party_id").references(() => parties.id), // Ledgers pulled as parties
+  objectType: text("object_type").notNull(), // voucher, ledger
+  name: text("name").notNull(), // Voucher number or ledger name
+  voucherType: text("voucher_type"),
+  status: text("status").notNull(), // created, altered, cancelled, skipped, failed
+  message: text("message"), // Tally's error, or why the entry was skipped
+  userId: integer("user_id").notNull().references(() => users.id),
+});
+
+// Define relations for Tally sync entries
+export const tallySyncEntriesRelations = relations(tallySyncEntries, ({ one }) => ({
+  log: one(tallySyncLogs, {
+    fields: [tallySyncEntries.logId],
+    references: [tallySyncLogs.id],
+  }),
+  transaction: one(transactions, {
+    fields: [tallySyncEntries.transactionId],
+    references: [transactions.id],
+  }),
+  party: one(parties, {
+    fields: [tallySyncEntries.partyId],
+    references: [parties.id],
+  }),
+  user: one(users, {
+    fields: [tallySyncEntries.userId],
+    references: [users.id],
+  }),
+}));
+
+// GSTR-2B uploads, one per tax period
+export const gstr2bImports = pgTable("gstr2b_imports", {
+  id: serial("id").primaryKey(),
+  period: text("period").notNull(), // YYYY-MM
+  fileName: text("file_name"),
+  userId: integer("user_id").notNull().references(() => users.id),
+  importedAt: timestamp("imported_at").defaultNow(),
+});
+
+// Define relations for GSTR-2B imports
+export const gstr2bImportsRelations = relations(gstr2bImports, ({ one, many }) => ({
+  user: one(users, {
+    fields: [gstr2bImports.userId],
+    references: [users.id],
+  }),
+  entries: many(gstr2bEntries),
+}));
+
+// Reconciliation rows: a 2B invoice, a purchase bill, or both when they matched
+export const gstr2bEntries = pgTable("gstr2b_entries", {
+  id: serial("id").primaryKey(),
+  importId: integer("import_id").notNull().references(() => gstr2bImports.id),
+  transactionId: integer("transaction_id").references(() => transactions.id), // Matched purchase bill
+  supplierGstin: text("supplier_gstin").notNull(),
+  supplierName: text("supplier_name"),
+  invoiceNumber: text("invoice_number").notNull(),
+  invoiceDate: timestamp("invoice_date"),
+  // Amounts as reported in 2B; null for bills missing in 2B
+  invoiceValue: decimal("invoice_value", { precision: 12, scale: 2 }),
+  taxableValue: decimal("taxable_value", { precision: 12, scale: 2 }),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }),
+  cessAmount: decimal("cess_amount", { precision: 10, scale: 2 }),
+  placeOfSupply: text("place_of_supply"),
+  itcAvailable: boolean("itc_available"),
+  matchStatus: gstr2bMatchStatusEnum("match_status").notNull(),
+  matchNote: text("match_note"), // What differed, or how a fuzzy match was made
+  reviewStatus: reconciliationReviewStatusEnum("review_status").notNull().default("pending"),
+  reviewNote: text("review_note"),
+  userId: integer("user_id").notNull().references(() => users.id),
+});
+
+// Define relations for GSTR-2B entries
+export const gstr2bEntriesRelations = relations(gstr2bEntries, ({ one }) => ({
+  import: one(gstr2bImports, {
+    fields: [gstr2bEntries.importId],
+    references: [gstr2bImports.id],
+  }),
+  transaction: one(transactions, {
+    fields: [gstr2bEntries.transactionId],
+    references: [transactions.id],
+  }),
+  user: one(users, {
+    fields: [gstr2bEntries.userId],
+    references: [users.id],
+  }),
 }));
 
 // Create insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
+export const insertRolePermissionSchema = createInsertSchema(rolePermissions).omit({ id: true, updatedAt: true });
+export const insertCompanySettingsSchema = createInsertSchema(companySettings)
+  .omit({ id: true, updatedAt: true })
+  .extend({
+    tallySyncIntervalMinutes: z.number().int().min(5, "Sync at most every 5 minutes").max(1440).optional(),
+    tallySyncBatchSize: z.number().int().min(1).max(1000).optional(),
+    billMatchQuantityTolerance: z.string().regex(/^\d{1,2}(\.\d{1,2})?$/, "Enter a percentage below 100, such as 2.5").optional(),
+    billMatchRateTolerance: z.string().regex(/^\d{1,2}(\.\d{1,2})?$/, "Enter a percentage below 100, such as 2.5").optional(),
+    gstr1FiledThrough: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be YYYY-MM").nullable().optional()
+  });
 export const insertPartySchema = createInsertSchema(parties).omit({ id: true, createdAt: true });
+export const insertStockGroupSchema = createInsertSchema(stockGroups).omit({ id: true, createdAt: true });
+export const insertGodownSchema = createInsertSchema(godowns).omit({ id: true, createdAt: true });
+export const insertUnitSchema = createInsertSchema(units).omit({ id: true, createdAt: true });
 export const insertItemSchema = createInsertSchema(items).omit({ id: true, createdAt: true });
 
 // Custom transaction schema with date field handling
@@ -294,10 +1024,37 @@ export const insertTransactionSchema = createInsertSchema(transactions)
     dueDate: z.coerce.date().optional(),
     expectedDeliveryDate: z.coerce.date().optional().nullable(),
     grnDate: z.coerce.date().optional().nullable(),
-    vendorInvoiceDate: z.coerce.date().optional().nullable()
+    vendorInvoiceDate: z.coerce.date().optional().nullable(),
+    irnAckDate: z.coerce.date().optional().nullable(),
+    transportDocDate: z.coerce.date().optional().nullable(),
+    ewbDate: z.coerce.date().optional().nullable(),
+    ewbValidUntil: z.coerce.date().optional().nullable(),
+    tallyLastAttemptAt: z.coerce.date().optional().nullable(),
+    tallyModifiedAt: z.coerce.date().optional().nullable(),
+    matchApprovedAt: z.coerce.date().optional().nullable(),
+    tallySyncedContent: z.custom<TallyDocumentContent>().optional().nullable()
   });
 
-export const insertTransactionItemSchema = createInsertSchema(transactionItems).omit({ id: true, createdAt: true });
+// Decimal columns arrive as text; a line's figures must read as numbers before any total is worked out from them
+const lineFigure = (valid: (value: number) => boolean, message: string) =>
+  z.string().trim().refine((text) => text !== '' && Number.isFinite(Number(text)) && valid(Number(text)), message);
+export const insertTransactionItemSchema = createInsertSchema(transactionItems)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    quantity: lineFigure((value) => value > 0, "Quantity must be a number above zero"),
+    rate: lineFigure((value) => value >= 0, "Rate must be a number of zero or more"),
+    taxRate: lineFigure((value) => value >= 0, "Tax rate must be a number of zero or more").nullable().optional(),
+    cessRate: lineFigure((value) => value >= 0, "Cess rate must be a number of zero or more").nullable().optional()
+  });
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({ id: true, createdAt: true });
+export const insertPaymentAllocationSchema = createInsertSchema(paymentAllocations).omit({ id: true, createdAt: true });
+export const insertTransactionRevisionSchema = createInsertSchema(transactionRevisions)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    content: z.custom<TransactionRevisionContent>(),
+    changes: z.custom<TransactionRevisionChange[]>()
+  });
 
 // Custom BNPL limit schema with date field handling
 export const insertBnplLimitSchema = createInsertSchema(bnplLimits)
@@ -306,26 +1063,122 @@ export const insertBnplLimitSchema = createInsertSchema(bnplLimits)
     expiryDate: z.coerce.date().optional().nullable()
   });
 
+export const insertGstr2bImportSchema = createInsertSchema(gstr2bImports).omit({ id: true, importedAt: true });
+
+export const insertGstr2bEntrySchema = createInsertSchema(gstr2bEntries)
+  .omit({ id: true })
+  .extend({
+    invoiceDate: z.coerce.date().optional().nullable()
+  });
+
 export const insertTallySyncLogSchema = createInsertSchema(tallySyncLogs).omit({ id: true, syncedAt: true });
+export const insertTallySyncEntrySchema = createInsertSchema(tallySyncEntries).omit({ id: true });
+export const insertTallySyncJobSchema = createInsertSchema(tallySyncJobs).omit({ id: true, updatedAt: true });
+// Numbers may only hold letters, digits, "/" and "-" (GST allows no other characters)
+const seriesAffix = z.string().trim().max(16).regex(/^([A-Za-z0-9/-]|\{FY\})*$/, "Use letters, digits, / and -, with {FY} for the financial year");
+export const insertNumberingSeriesSchema = createInsertSchema(numberingSeries)
+  .omit({ id: true, updatedAt: true })
+  .extend({
+    branch: z.string().trim().min(1).max(40).nullable().optional(),
+    prefix: seriesAffix.optional(),
+    suffix: seriesAffix.optional(),
+    padding: z.number().int().min(1).max(10).optional(),
+    startNumber: z.number().int().min(1).optional()
+  });
+export const insertNumberingCounterSchema = createInsertSchema(numberingCounters).omit({ id: true });
+export const insertAccountSchema = createInsertSchema(accounts)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    name: z.string().trim().min(1, "Enter the account's name").max(80),
+    groupName: z.enum(accountGroupNames, { errorMap: () => ({ message: "Choose one of the account groups" }) })
+  });
+export const insertJournalEntrySchema = createInsertSchema(journalEntries)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    entryDate: z.coerce.date()
+  });
+export const insertJournalLineSchema = createInsertSchema(journalLines).omit({ id: true });
+export const insertTallyMappingSchema = createInsertSchema(tallyMappings)
+  .omit({ id: true, updatedAt: true })
+  .extend({
+    sourceKey: z.string().trim().min(1),
+    tallyName: z.string().trim().min(1, "Enter the name used in Tally")
+  });
 
 // Define types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type RolePermission = typeof rolePermissions.$inferSelect;
+export type InsertRolePermission = z.infer<typeof insertRolePermissionSchema>;
+
+export type CompanySettings = typeof companySettings.$inferSelect;
+export type InsertCompanySettings = z.infer<typeof insertCompanySettingsSchema>;
+
 export type Party = typeof parties.$inferSelect;
 export type InsertParty = z.infer<typeof insertPartySchema>;
 
+export type StockGroup = typeof stockGroups.$inferSelect;
+export type InsertStockGroup = z.infer<typeof insertStockGroupSchema>;
+
+export type Godown = typeof godowns.$inferSelect;
+export type InsertGodown = z.infer<typeof insertGodownSchema>;
+
+export type Unit = typeof units.$inferSelect;
+export type InsertUnit = z.infer<typeof insertUnitSchema>;
+
 export type Item = typeof items.$inferSelect;
 export type InsertItem = z.infer<typeof insertItemSchema>;
 
+// Item as returned by the items endpoints, with its unit and stock group resolved for display
+export type ItemWithMasters = Item & {
+  unitSymbol: string | null;
+  stockGroupName: string | null;
+};
+
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 
 export type TransactionItem = typeof transactionItems.$inferSelect;
 export type InsertTransactionItem = z.infer<typeof insertTransactionItemSchema>;
 
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+
+export type PaymentAllocation = typeof paymentAllocations.$inferSelect;
+export type InsertPaymentAllocation = z.infer<typeof insertPaymentAllocationSchema>;
+
+export type TransactionRevision = typeof transactionRevisions.$inferSelect;
+export type InsertTransactionRevision = z.infer<typeof insertTransactionRevisionSchema>;
+
 export type BnplLimit = typeof bnplLimits.$inferSelect;
 export type InsertBnplLimit = z.infer<typeof insertBnplLimitSchema>;
 
 export type TallySyncLog = typeof tallySyncLogs.$inferSelect;
 export type InsertTallySyncLog = z.infer<typeof insertTallySyncLogSchema>;
+export type TallySyncJob = typeof tallySyncJobs.$inferSelect;
+export type InsertTallySyncJob = z.infer<typeof insertTallySyncJobSchema>;
+
+export type TallySyncEntry = typeof tallySyncEntries.$inferSelect;
+export type InsertTallySyncEntry = z.infer<typeof insertTallySyncEntrySchema>;
+
+export type TallyMapping = typeof tallyMappings.$inferSelect;
+export type InsertTallyMapping = z.infer<typeof insertTallyMappingSchema>;
+
+export type NumberingSeries = typeof numberingSeries.$inferSelect;
+export type InsertNumberingSeries = z.infer<typeof insertNumberingSeriesSchema>;
+export type NumberingCounter = typeof numberingCounters.$inferSelect;
+export type InsertNumberingCounter = z.infer<typeof insertNumberingCounterSchema>;
+
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalLine = typeof journalLines.$inferSelect;
+export type InsertJournalLine = z.infer<typeof insertJournalLineSchema>;
+
+export type Gstr2bImport = typeof gstr2bImports.$inferSelect;
+export type InsertGstr2bImport = z.infer<typeof insertGstr2bImportSchema>;
+
+export type Gstr2bEntry = typeof gstr2bEntries.$inferSelect;
+export type InsertGstr2bEntry = z.infer<typeof insertGstr2bEntrySchema>;